@@ -0,0 +1,101 @@
+import { NextRequest } from 'next/server';
+import { Types } from 'mongoose';
+import { GET, POST } from '@/app/api/products/route';
+import ApiKey from '@/lib/database/models/ApiKey';
+import Product from '@/lib/database/models/Product';
+import { User, Subscription } from '@/lib/database/models';
+import { PermissionService } from '@/lib/services/permission.service';
+import { featureControlService } from '@/lib/services/FeatureControlService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+
+jest.mock('@/lib/database/connection', () => ({
+  connectDB: jest.fn(),
+  connectToDatabase: jest.fn()
+}));
+
+jest.mock('@/lib/database/mongoose-connection', () => ({
+  connectDB: jest.fn()
+}));
+
+jest.mock('@/lib/utils/subscription-logger', () => ({
+  SubscriptionLogger: { logSecurityActivity: jest.fn(), logChangeActivity: jest.fn() }
+}));
+
+jest.mock('next-auth', () => ({
+  getServerSession: jest.fn().mockResolvedValue(null)
+}));
+
+const userId = new Types.ObjectId().toString();
+
+const mockKey = (permissions: string[]) => {
+  jest.spyOn(ApiKey, 'findActiveByHash').mockResolvedValue(new ApiKey({
+    userId,
+    name: 'Storefront sync',
+    keyPrefix: 'bk_abcdefgh',
+    keyHash: 'hash',
+    permissions
+  }));
+};
+
+const request = (method: string, body?: any) => new NextRequest('http://localhost/api/products', {
+  method,
+  headers: { authorization: 'Bearer bk_secret', 'content-type': 'application/json' },
+  body: body ? JSON.stringify(body) : undefined
+});
+
+describe('Products API with personal API keys', () => {
+  beforeEach(() => {
+    jest.spyOn(ApiKey, 'updateOne').mockResolvedValue({} as any);
+    jest.spyOn(PermissionService, 'getUserPermissions').mockResolvedValue([PERMISSIONS.PRODUCTS_MANAGE]);
+    jest.spyOn(featureControlService, 'validateFeatureAccess').mockResolvedValue({ allowed: true });
+    jest.spyOn(User, 'findById').mockResolvedValue({
+      _id: userId,
+      email: 'owner@example.com',
+      role: { name: 'user' },
+      isActive: true,
+      isEmailVerified: true
+    } as any);
+    jest.spyOn(Subscription, 'findByUserId').mockResolvedValue(null);
+    jest.spyOn(WorkspaceService, 'getScopeUserId').mockImplementation(async (id: string) => id);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should serve a key scoped for the endpoint as its owner', async () => {
+    mockKey([PERMISSIONS.PRODUCTS_READ]);
+    const find = jest.spyOn(Product, 'find').mockReturnValue({
+      select: () => ({ sort: () => ({ skip: () => ({ limit: () => ({ lean: () => Promise.resolve([]) }) }) }) })
+    } as any);
+    jest.spyOn(Product, 'countDocuments').mockResolvedValue(0 as any);
+    jest.spyOn(Product, 'distinct').mockResolvedValue([] as any);
+
+    const response = await GET(request('GET'));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-RateLimit-Limit')).toBeTruthy();
+    expect(find).toHaveBeenCalledWith(expect.objectContaining({ createdBy: userId }));
+  });
+
+  it('should refuse a key that is not scoped for the endpoint', async () => {
+    mockKey([PERMISSIONS.FINANCE_READ]);
+    const find = jest.spyOn(Product, 'find');
+
+    const response = await GET(request('GET'));
+
+    expect(response.status).toBe(403);
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('should refuse writes with a read-only key', async () => {
+    mockKey([PERMISSIONS.PRODUCTS_READ]);
+    const save = jest.spyOn(Product.prototype, 'save');
+
+    const response = await POST(request('POST', { title: 'Mug', description: 'Blue', price: 10, category: ['Kitchen'], photo: 'mug.png' }));
+
+    expect(response.status).toBe(403);
+    expect(save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,150 @@
+import { NextRequest } from 'next/server';
+import { Types } from 'mongoose';
+import { POST } from '@/app/api/contacts/route';
+import { GET as GET_CONTACT, PATCH, DELETE } from '@/app/api/contacts/[id]/route';
+import Customer from '@/lib/database/models/Customer';
+import Invoice from '@/lib/database/models/Invoice';
+import Sale from '@/lib/database/models/Sale';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+jest.mock('@/lib/database/connection', () => ({
+  connectDB: jest.fn(),
+  connectToDatabase: jest.fn()
+}));
+
+jest.mock('@/lib/auth/nextauth-middleware', () => ({
+  authenticateApiRequest: jest.fn()
+}));
+
+const userId = new Types.ObjectId().toString();
+const ownerId = new Types.ObjectId().toString();
+
+const request = (method: string, body?: any) => new NextRequest('http://localhost/api/contacts', {
+  method,
+  headers: { 'content-type': 'application/json' },
+  body: body ? JSON.stringify(body) : undefined
+});
+
+const chain = (result: any) => ({
+  select: () => ({ sort: () => ({ limit: () => ({ lean: () => Promise.resolve(result) }) }) })
+});
+
+describe('Contacts API', () => {
+  beforeEach(() => {
+    jest.mocked(authenticateApiRequest).mockResolvedValue({
+      success: true,
+      user: { id: userId, email: 'member@example.com' }
+    });
+    jest.spyOn(WorkspaceService, 'getScopeUserId').mockResolvedValue(ownerId);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('POST /api/contacts', () => {
+    it('should create the contact in the active workspace', async () => {
+      jest.spyOn(Customer, 'findByEmailAndUser').mockResolvedValue(null);
+      const save = jest.spyOn(Customer.prototype, 'save').mockImplementation(function(this: any) {
+        return Promise.resolve(this);
+      });
+
+      const response = await POST(request('POST', { firstName: 'Ada', email: 'ada@example.com', userId: 'someone-else' }));
+      const body = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(save).toHaveBeenCalled();
+      expect(body.data.contact).toMatchObject({
+        firstName: 'Ada',
+        email: 'ada@example.com',
+        userId: ownerId,
+        createdBy: 'member@example.com'
+      });
+    });
+
+    it('should reject a missing first name and duplicate emails', async () => {
+      jest.spyOn(Customer, 'findByEmailAndUser').mockResolvedValue(new Customer({ firstName: 'Ada', userId: ownerId }));
+
+      const missingName = await POST(request('POST', { firstName: ' ' }));
+      const duplicate = await POST(request('POST', { firstName: 'Ada', email: 'ADA@example.com' }));
+
+      expect(missingName.status).toBe(400);
+      expect(duplicate.status).toBe(409);
+      expect(Customer.findByEmailAndUser).toHaveBeenCalledWith('ADA@example.com', ownerId);
+    });
+  });
+
+  describe('PATCH /api/contacts/[id]', () => {
+    it('should update the listed fields only', async () => {
+      const contact = new Customer({ firstName: 'Ada', email: 'ada@example.com', userId: ownerId });
+      const findOne = jest.spyOn(Customer, 'findOne').mockResolvedValue(contact);
+      jest.spyOn(contact, 'save').mockResolvedValue(contact);
+
+      const response = await PATCH(
+        request('PATCH', { company: 'Analytical Engines', starred: true, userId: 'someone-else' }),
+        { params: { id: contact._id.toString() } }
+      );
+
+      expect(response.status).toBe(200);
+      expect(findOne).toHaveBeenCalledWith({ _id: contact._id.toString(), userId: ownerId, isDeleted: false });
+      expect(contact.company).toBe('Analytical Engines');
+      expect(contact.starred).toBe(true);
+      expect(contact.userId).toBe(ownerId);
+    });
+
+    it('should return 404 for contacts outside the workspace', async () => {
+      jest.spyOn(Customer, 'findOne').mockResolvedValue(null);
+
+      const response = await PATCH(request('PATCH', { company: 'Acme' }), { params: { id: new Types.ObjectId().toString() } });
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE /api/contacts/[id]', () => {
+    it('should soft delete the contact', async () => {
+      const contact = new Customer({ firstName: 'Ada', userId: ownerId });
+      jest.spyOn(Customer, 'findOne').mockResolvedValue(contact);
+      const softDelete = jest.spyOn(contact, 'softDelete').mockResolvedValue();
+
+      const response = await DELETE(request('DELETE'), { params: { id: contact._id.toString() } });
+
+      expect(response.status).toBe(200);
+      expect(softDelete).toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/contacts/[id]', () => {
+    it('should combine the invoice and sales totals for the contact', async () => {
+      const contactId = new Types.ObjectId().toString();
+      jest.spyOn(Customer, 'findOne').mockReturnValue({
+        lean: () => Promise.resolve({ _id: contactId, firstName: 'Ada', userId: ownerId })
+      } as any);
+      const invoiceSummary = jest.spyOn(Invoice, 'getCustomerSummary').mockResolvedValue({
+        invoiceCount: 2,
+        totalInvoiced: 800,
+        totalPaid: 300,
+        outstandingBalance: 500
+      });
+      jest.spyOn(Sale, 'getCustomerSalesSummary').mockResolvedValue({ salesCount: 4, totalSales: 120 });
+      jest.spyOn(Invoice, 'find').mockReturnValue(chain([]) as any);
+      jest.spyOn(Sale, 'find').mockReturnValue(chain([]) as any);
+
+      const response = await GET_CONTACT(request('GET'), { params: { id: contactId } });
+      const body = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(invoiceSummary).toHaveBeenCalledWith(contactId, ownerId);
+      expect(body.data.summary).toEqual({
+        invoiceCount: 2,
+        totalInvoiced: 800,
+        totalPaid: 300,
+        outstandingBalance: 500,
+        salesCount: 4,
+        totalSales: 120
+      });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { Types } from 'mongoose';
+import { ApiKeyManager } from '@/lib/auth/api-keys';
+import ApiKey from '@/lib/database/models/ApiKey';
+import { PermissionService } from '@/lib/services/permission.service';
+import { featureControlService } from '@/lib/services/FeatureControlService';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+
+jest.mock('@/lib/database/connection', () => ({
+  connectDB: jest.fn(),
+  connectToDatabase: jest.fn()
+}));
+
+jest.mock('@/lib/utils/subscription-logger', () => ({
+  SubscriptionLogger: { logSecurityActivity: jest.fn() }
+}));
+
+const userId = new Types.ObjectId().toString();
+
+const mockKey = (permissions: string[]) => {
+  const key = new ApiKey({
+    userId,
+    name: 'Accounting sync',
+    keyPrefix: 'bk_abcdefgh',
+    keyHash: 'hash',
+    permissions
+  });
+  jest.spyOn(ApiKey, 'findActiveByHash').mockResolvedValue(key);
+  return key;
+};
+
+describe('ApiKeyManager', () => {
+  beforeEach(() => {
+    jest.spyOn(ApiKey, 'updateOne').mockResolvedValue({} as any);
+    jest.spyOn(PermissionService, 'getUserPermissions').mockResolvedValue([PERMISSIONS.FINANCE_MANAGE]);
+    jest.spyOn(featureControlService, 'validateFeatureAccess').mockResolvedValue({ allowed: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should generate prefixed keys and store only their hash', () => {
+    const { secret, keyPrefix, keyHash } = ApiKeyManager.generateKey();
+
+    expect(ApiKeyManager.isApiKey(secret)).toBe(true);
+    expect(secret.startsWith(keyPrefix)).toBe(true);
+    expect(keyHash).toBe(ApiKeyManager.hashKey(secret));
+    expect(keyHash).not.toContain(secret);
+    expect(ApiKeyManager.isApiKey('eyJhbGciOiJIUzI1NiJ9.payload.signature')).toBe(false);
+  });
+
+  it('should follow the permission hierarchy when checking scopes', () => {
+    expect(ApiKeyManager.covers([PERMISSIONS.FINANCE_MANAGE], PERMISSIONS.FINANCE_DELETE)).toBe(true);
+    expect(ApiKeyManager.covers([PERMISSIONS.FINANCE_UPDATE], PERMISSIONS.FINANCE_READ)).toBe(true);
+    expect(ApiKeyManager.covers([PERMISSIONS.FINANCE_READ], PERMISSIONS.FINANCE_UPDATE)).toBe(false);
+    expect(ApiKeyManager.covers([PERMISSIONS.FINANCE_MANAGE], PERMISSIONS.PRODUCTS_READ)).toBe(false);
+  });
+
+  it('should authenticate a key scoped for the endpoint', async () => {
+    const key = mockKey([PERMISSIONS.FINANCE_READ]);
+
+    const result = await ApiKeyManager.authenticate('bk_secret', PERMISSIONS.FINANCE_READ, { ipAddress: '10.0.0.1' });
+
+    expect(result.success).toBe(true);
+    expect(result.userId).toBe(userId);
+    expect(result.key).toEqual({ id: String(key._id), permissions: [PERMISSIONS.FINANCE_READ] });
+    expect(ApiKey.updateOne).toHaveBeenCalledWith(
+      { _id: key._id },
+      expect.objectContaining({ lastUsedIp: '10.0.0.1' })
+    );
+  });
+
+  it('should reject unknown keys, missing scopes and endpoints that do not accept keys', async () => {
+    jest.spyOn(ApiKey, 'findActiveByHash').mockResolvedValue(null);
+    expect(await ApiKeyManager.authenticate('bk_unknown', PERMISSIONS.FINANCE_READ)).toMatchObject({ success: false, statusCode: 401 });
+
+    mockKey([PERMISSIONS.FINANCE_READ]);
+    expect(await ApiKeyManager.authenticate('bk_secret', PERMISSIONS.FINANCE_CREATE)).toMatchObject({ success: false, statusCode: 403 });
+    expect(await ApiKeyManager.authenticate('bk_secret', undefined)).toMatchObject({ success: false, statusCode: 403 });
+  });
+
+  it('should reject keys whose owner lost the permission or API access', async () => {
+    mockKey([PERMISSIONS.FINANCE_READ]);
+
+    jest.spyOn(PermissionService, 'getUserPermissions').mockResolvedValueOnce([PERMISSIONS.PRODUCTS_READ]);
+    expect(await ApiKeyManager.authenticate('bk_secret', PERMISSIONS.FINANCE_READ)).toMatchObject({ success: false, statusCode: 403 });
+
+    jest.spyOn(featureControlService, 'validateFeatureAccess').mockResolvedValueOnce({ allowed: false, statusCode: 402 });
+    expect(await ApiKeyManager.authenticate('bk_secret', PERMISSIONS.FINANCE_READ)).toMatchObject({ success: false, statusCode: 402 });
+    expect(ApiKey.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should not create keys with permissions the user does not hold', async () => {
+    const create = jest.spyOn(ApiKey, 'create');
+
+    const result = await ApiKeyManager.createKey(userId, 'Inventory', [PERMISSIONS.PRODUCTS_READ]);
+
+    expect(result).toMatchObject({ success: false, statusCode: 400 });
+    expect(create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import { TOTPManager } from '@/lib/auth/totp';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
+import TwoFactorAuth from '@/lib/database/models/TwoFactorAuth';
+
+jest.mock('@/lib/database/connection', () => ({
+  connectDB: jest.fn(),
+  connectToDatabase: jest.fn()
+}));
+
+jest.mock('@/lib/utils/subscription-logger', () => ({
+  SubscriptionLogger: { logSecurityActivity: jest.fn() }
+}));
+
+// Base32 of the ASCII secret "12345678901234567890" from the RFC 6238 test vectors
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTPManager', () => {
+  describe('generateCode', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      expect(TOTPManager.generateCode(RFC_SECRET, TOTPManager.getTimeStep(59 * 1000))).toBe('287082');
+      expect(TOTPManager.generateCode(RFC_SECRET, TOTPManager.getTimeStep(1111111109 * 1000))).toBe('081804');
+      expect(TOTPManager.generateCode(RFC_SECRET, TOTPManager.getTimeStep(2000000000 * 1000))).toBe('279037');
+    });
+
+    it('should generate secrets that round-trip through base32', () => {
+      const secret = TOTPManager.generateSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(TOTPManager.generateCode(secret, 1)).toMatch(/^\d{6}$/);
+    });
+  });
+
+  describe('verifyCode', () => {
+    const now = 1111111109 * 1000;
+    const step = TOTPManager.getTimeStep(now);
+
+    it('should accept the current code and codes one step either side', () => {
+      expect(TOTPManager.verifyCode(RFC_SECRET, TOTPManager.generateCode(RFC_SECRET, step), null, now)).toBe(step);
+      expect(TOTPManager.verifyCode(RFC_SECRET, TOTPManager.generateCode(RFC_SECRET, step - 1), null, now)).toBe(step - 1);
+      expect(TOTPManager.verifyCode(RFC_SECRET, TOTPManager.generateCode(RFC_SECRET, step + 1), null, now)).toBe(step + 1);
+    });
+
+    it('should reject codes outside the drift window', () => {
+      expect(TOTPManager.verifyCode(RFC_SECRET, TOTPManager.generateCode(RFC_SECRET, step - 2), null, now)).toBeNull();
+      expect(TOTPManager.verifyCode(RFC_SECRET, TOTPManager.generateCode(RFC_SECRET, step + 2), null, now)).toBeNull();
+    });
+
+    it('should reject a code that was already used', () => {
+      const code = TOTPManager.generateCode(RFC_SECRET, step);
+
+      expect(TOTPManager.verifyCode(RFC_SECRET, code, step, now)).toBeNull();
+      expect(TOTPManager.verifyCode(RFC_SECRET, TOTPManager.generateCode(RFC_SECRET, step + 1), step, now)).toBe(step + 1);
+    });
+
+    it('should reject malformed codes', () => {
+      expect(TOTPManager.verifyCode(RFC_SECRET, '', null, now)).toBeNull();
+      expect(TOTPManager.verifyCode(RFC_SECRET, '12345', null, now)).toBeNull();
+      expect(TOTPManager.verifyCode(RFC_SECRET, 'abcdef', null, now)).toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUrl', () => {
+    it('should include the issuer, account and secret', () => {
+      const url = TOTPManager.buildOtpAuthUrl(RFC_SECRET, 'user@example.com');
+
+      expect(url).toMatch(/^otpauth:\/\/totp\/Boami%3Auser%40example\.com\?/);
+      expect(url).toContain(`secret=${RFC_SECRET}`);
+      expect(url).toContain('issuer=Boami');
+    });
+  });
+});
+
+describe('TwoFactorManager challenge tokens', () => {
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-jwt-secret-key-for-testing-purposes-only';
+  });
+
+  it('should round-trip the user and verification state', () => {
+    const token = TwoFactorManager.createChallengeToken('user-1');
+
+    expect(TwoFactorManager.verifyChallengeToken(token)).toEqual({ id: expect.any(String), userId: 'user-1', verified: false });
+    expect(TwoFactorManager.verifyChallengeToken(TwoFactorManager.createChallengeToken('user-1', true)))
+      .toEqual({ id: expect.any(String), userId: 'user-1', verified: true });
+  });
+
+  it('should give every token its own id', () => {
+    const first = TwoFactorManager.verifyChallengeToken(TwoFactorManager.createChallengeToken('user-1'));
+    const second = TwoFactorManager.verifyChallengeToken(TwoFactorManager.createChallengeToken('user-1'));
+
+    expect(first!.id).not.toEqual(second!.id);
+  });
+
+  it('should reject tampered tokens', () => {
+    const token = TwoFactorManager.createChallengeToken('user-1');
+
+    expect(TwoFactorManager.verifyChallengeToken(`${token}x`)).toBeNull();
+    expect(TwoFactorManager.verifyChallengeToken('not-a-token')).toBeNull();
+  });
+
+  it('should let a challenge sign in only once', async () => {
+    const updateOne = jest.spyOn(TwoFactorAuth, 'updateOne')
+      .mockResolvedValueOnce({ modifiedCount: 1 } as any)
+      .mockResolvedValueOnce({ modifiedCount: 0 } as any);
+    const challenge = TwoFactorManager.verifyChallengeToken(TwoFactorManager.createChallengeToken('user-1'))!;
+
+    await expect(TwoFactorManager.consumeChallenge(challenge)).resolves.toBe(true);
+    await expect(TwoFactorManager.consumeChallenge(challenge)).resolves.toBe(false);
+    expect(updateOne).toHaveBeenCalledWith(
+      { userId: 'user-1', consumedChallenges: { $ne: challenge.id } },
+      expect.objectContaining({ $push: { consumedChallenges: expect.objectContaining({ $each: [challenge.id] }) } })
+    );
+
+    updateOne.mockRestore();
+  });
+});
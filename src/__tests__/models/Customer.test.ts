@@ -0,0 +1,96 @@
+import { Types } from 'mongoose';
+import Customer from '@/lib/database/models/Customer';
+import Invoice from '@/lib/database/models/Invoice';
+import Sale from '@/lib/database/models/Sale';
+
+const userId = new Types.ObjectId().toString();
+const customerId = new Types.ObjectId().toString();
+
+describe('Customer Model', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('validation', () => {
+    it('should require a first name and the owning user', () => {
+      const error = new Customer({}).validateSync();
+
+      expect(error?.errors.firstName.message).toBe('First name is required');
+      expect(error?.errors.userId.message).toBe('User ID is required');
+    });
+
+    it('should reject invalid emails and address types', () => {
+      const error = new Customer({
+        firstName: 'Ada',
+        email: 'not-an-email',
+        addresses: [{ type: 'office', city: 'Lagos' }],
+        userId
+      }).validateSync();
+
+      expect(error?.errors.email.message).toBe('Please enter a valid email address');
+      expect(error?.errors['addresses.0.type'].message).toBe('Address type must be one of: billing, shipping, other');
+    });
+
+    it('should store emails in lower case', () => {
+      const customer = new Customer({ firstName: 'Ada', email: ' Ada@Example.COM ', userId });
+
+      expect(customer.validateSync()).toBeUndefined();
+      expect(customer.email).toBe('ada@example.com');
+    });
+  });
+
+  describe('addresses', () => {
+    it('should format the default billing address and fall back to the first one', () => {
+      const customer = new Customer({
+        firstName: 'Ada',
+        userId,
+        addresses: [
+          { type: 'billing', street: '1 Marina', city: 'Lagos' },
+          { type: 'billing', street: '2 Broad St', city: 'Lagos', country: 'Nigeria', isDefault: true },
+          { type: 'shipping', city: 'Abuja' }
+        ]
+      });
+
+      expect(customer.formatAddress()).toBe('2 Broad St, Lagos, Nigeria');
+      expect(customer.formatAddress(customer.getDefaultAddress('shipping'))).toBe('Abuja');
+      expect(customer.getDefaultAddress('other')).toBeNull();
+      expect(customer.getFullName()).toBe('Ada');
+    });
+  });
+
+  describe('softDelete', () => {
+    it('should keep the record and mark it deleted', async () => {
+      const customer = new Customer({ firstName: 'Ada', userId });
+      const save = jest.spyOn(customer, 'save').mockResolvedValue(customer);
+
+      await customer.softDelete();
+
+      expect(customer.isDeleted).toBe(true);
+      expect(save).toHaveBeenCalled();
+    });
+  });
+
+  describe('customer summaries', () => {
+    it('should total non-cancelled invoices for the customer and round the amounts', async () => {
+      const aggregate = jest.spyOn(Invoice, 'aggregate').mockResolvedValue([
+        { _id: null, invoiceCount: 3, totalInvoiced: 1200.456, totalPaid: 700.1, outstandingBalance: 499.904 }
+      ]);
+
+      const summary = await Invoice.getCustomerSummary(customerId, userId);
+
+      expect(summary).toEqual({ invoiceCount: 3, totalInvoiced: 1200.46, totalPaid: 700.1, outstandingBalance: 499.9 });
+      expect((aggregate.mock.calls[0][0] as any[])[0]).toEqual({
+        $match: { customerId, userId, status: { $ne: 'Cancelled' } }
+      });
+    });
+
+    it('should return zero totals for a customer without invoices or sales', async () => {
+      jest.spyOn(Invoice, 'aggregate').mockResolvedValue([]);
+      jest.spyOn(Sale, 'aggregate').mockResolvedValue([]);
+
+      expect(await Invoice.getCustomerSummary(customerId, userId))
+        .toEqual({ invoiceCount: 0, totalInvoiced: 0, totalPaid: 0, outstandingBalance: 0 });
+      expect(await Sale.getCustomerSalesSummary(customerId, userId)).toEqual({ salesCount: 0, totalSales: 0 });
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { getPaymentStatus } from '@/lib/database/models/Invoice';
+
+describe('Invoice Model', () => {
+  describe('getPaymentStatus', () => {
+    it('should mark an invoice partially paid after a deposit', () => {
+      expect(getPaymentStatus(500, 100, 'Sent')).toBe('Partially Paid');
+      expect(getPaymentStatus(500, 100, 'Overdue')).toBe('Partially Paid');
+    });
+
+    it('should mark an invoice paid once the balance is cleared', () => {
+      expect(getPaymentStatus(500, 500, 'Partially Paid')).toBe('Paid');
+      expect(getPaymentStatus(99.99, 99.99, 'Sent')).toBe('Paid');
+    });
+
+    it('should reopen a paid invoice when its payments are removed', () => {
+      expect(getPaymentStatus(500, 0, 'Paid')).toBe('Sent');
+      expect(getPaymentStatus(500, 0, 'Draft')).toBe('Draft');
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { getReceivingStatus, PURCHASE_ORDER_STATUS_TRANSITIONS } from '@/lib/database/models/PurchaseOrder';
+
+describe('PurchaseOrder Model', () => {
+  describe('getReceivingStatus', () => {
+    it('should stay sent until something is received', () => {
+      expect(getReceivingStatus([
+        { quantityOrdered: 10, quantityReceived: 0 },
+        { quantityOrdered: 5, quantityReceived: 0 }
+      ])).toBe('sent');
+    });
+
+    it('should be partially received while any line is outstanding', () => {
+      expect(getReceivingStatus([
+        { quantityOrdered: 10, quantityReceived: 10 },
+        { quantityOrdered: 5, quantityReceived: 2 }
+      ])).toBe('partially_received');
+    });
+
+    it('should be received once every line is complete', () => {
+      expect(getReceivingStatus([
+        { quantityOrdered: 10, quantityReceived: 10 },
+        { quantityOrdered: 5, quantityReceived: 5 }
+      ])).toBe('received');
+    });
+  });
+
+  describe('status workflow', () => {
+    it('should only allow cancelling before the order is fully received', () => {
+      expect(PURCHASE_ORDER_STATUS_TRANSITIONS.draft).toContain('cancelled');
+      expect(PURCHASE_ORDER_STATUS_TRANSITIONS.partially_received).toContain('cancelled');
+      expect(PURCHASE_ORDER_STATUS_TRANSITIONS.received).toEqual([]);
+      expect(PURCHASE_ORDER_STATUS_TRANSITIONS.cancelled).toEqual([]);
+    });
+  });
+});
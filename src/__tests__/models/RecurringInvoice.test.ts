@@ -0,0 +1,25 @@
+import { addBillingPeriod } from '@/lib/database/models/RecurringInvoice';
+
+describe('RecurringInvoice Model', () => {
+  describe('addBillingPeriod', () => {
+    const start = new Date(2025, 0, 15);
+
+    it('should advance weekly schedules by seven days', () => {
+      expect(addBillingPeriod(start, 'weekly')).toEqual(new Date(2025, 0, 22));
+    });
+
+    it('should advance monthly and quarterly schedules by calendar months', () => {
+      expect(addBillingPeriod(start, 'monthly')).toEqual(new Date(2025, 1, 15));
+      expect(addBillingPeriod(start, 'quarterly')).toEqual(new Date(2025, 3, 15));
+    });
+
+    it('should advance yearly schedules by one year', () => {
+      expect(addBillingPeriod(start, 'yearly')).toEqual(new Date(2026, 0, 15));
+    });
+
+    it('should not modify the date it is given', () => {
+      addBillingPeriod(start, 'monthly');
+      expect(start).toEqual(new Date(2025, 0, 15));
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { calculateOrderTotals, SALES_ORDER_STATUS_TRANSITIONS } from '@/lib/database/models/SalesOrder';
+
+describe('SalesOrder Model', () => {
+  describe('calculateOrderTotals', () => {
+    const items = [
+      { quantity: 2, unitPrice: 12.5 },
+      { quantity: 1, unitPrice: 30 }
+    ];
+
+    it('should sum line items without discount or tax', () => {
+      expect(calculateOrderTotals(items)).toEqual({
+        subtotal: 55,
+        discountAmount: 0,
+        taxAmount: 0,
+        total: 55
+      });
+    });
+
+    it('should apply a percentage discount before tax', () => {
+      expect(calculateOrderTotals(items, 10, 'percentage', 15)).toEqual({
+        subtotal: 55,
+        discountAmount: 5.5,
+        taxAmount: 7.43,
+        total: 56.93
+      });
+    });
+
+    it('should cap a fixed discount at the subtotal', () => {
+      const totals = calculateOrderTotals(items, 80, 'fixed', 10);
+
+      expect(totals.discountAmount).toBe(55);
+      expect(totals.taxAmount).toBe(0);
+      expect(totals.total).toBe(0);
+    });
+  });
+
+  describe('status workflow', () => {
+    it('should treat cancelled and refunded orders as final', () => {
+      expect(SALES_ORDER_STATUS_TRANSITIONS.pending).toEqual(['completed', 'cancelled']);
+      expect(SALES_ORDER_STATUS_TRANSITIONS.completed).toEqual(['refunded']);
+      expect(SALES_ORDER_STATUS_TRANSITIONS.cancelled).toHaveLength(0);
+      expect(SALES_ORDER_STATUS_TRANSITIONS.refunded).toHaveLength(0);
+    });
+  });
+});
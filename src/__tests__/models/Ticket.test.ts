@@ -0,0 +1,43 @@
+import { Types } from 'mongoose';
+import Ticket from '@/lib/database/models/Ticket';
+
+describe('Ticket Model', () => {
+  describe('accessibleBy', () => {
+    it('should match tickets the user raised or is assigned to', () => {
+      const userId = new Types.ObjectId().toString();
+
+      expect(Ticket.accessibleBy(userId)).toEqual({
+        isDeleted: false,
+        $or: [{ userId }, { assignedTo: new Types.ObjectId(userId) }]
+      });
+    });
+
+    it('should match workspace tickets and the ones assigned to the member', () => {
+      const ownerId = new Types.ObjectId().toString();
+      const memberId = new Types.ObjectId().toString();
+
+      expect(Ticket.accessibleBy(ownerId, memberId)).toEqual({
+        isDeleted: false,
+        $or: [{ userId: ownerId }, { assignedTo: new Types.ObjectId(memberId) }]
+      });
+    });
+
+    it('should not match unassigned tickets for ids that are not ObjectIds', () => {
+      expect(Ticket.accessibleBy('dev-user-123')).toEqual({
+        isDeleted: false,
+        $or: [{ userId: 'dev-user-123' }]
+      });
+    });
+  });
+
+  describe('isOwnedBy', () => {
+    it('should only recognise the user who raised the ticket', () => {
+      const ownerId = new Types.ObjectId().toString();
+      const agentId = new Types.ObjectId();
+      const ticket = new Ticket({ title: 'Printer', description: 'Jammed', userId: ownerId, assignedTo: agentId });
+
+      expect(ticket.isOwnedBy(ownerId)).toBe(true);
+      expect(ticket.isOwnedBy(agentId.toString())).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import mongoose, { Types } from 'mongoose';
+import Vendor from '@/lib/database/models/Vendor';
+import { diffRecords, setAuditActor, auditActor } from '@/lib/database/audit-trail';
+import { SubscriptionLogger } from '@/lib/utils/subscription-logger';
+import { AuditTrailService } from '@/lib/services/AuditTrailService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+jest.mock('@/lib/database/connection', () => ({
+  connectDB: jest.fn(),
+  connectToDatabase: jest.fn()
+}));
+
+const userId = new Types.ObjectId().toString();
+const actorId = new Types.ObjectId().toString();
+
+describe('Audit trail', () => {
+  let logChange: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    logChange = jest.spyOn(SubscriptionLogger, 'logChangeActivity').mockResolvedValue(undefined);
+    jest.spyOn(Vendor.collection, 'insertOne').mockResolvedValue({ acknowledged: true, insertedId: new Types.ObjectId() } as any);
+    jest.spyOn(Vendor.collection, 'updateOne').mockResolvedValue({ acknowledged: true, matchedCount: 1, modifiedCount: 1 } as any);
+    // Vendor names are unique per user
+    jest.spyOn(Vendor, 'findOne').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const savedVendor = async () => {
+    const vendor = new Vendor({ name: 'Acme', contactEmail: 'billing@acme.com', userId });
+    await vendor.save();
+    const before = vendor.toObject();
+    jest.spyOn(Vendor, 'findById').mockReturnValue({ lean: () => Promise.resolve(before) } as any);
+    logChange.mockClear();
+    return vendor;
+  };
+
+  it('should diff nested fields and ignore bookkeeping fields', () => {
+    const id = new Types.ObjectId();
+    const before = { _id: id, name: 'Acme', address: { city: 'Accra', zip: '00233' }, tags: ['a'], updatedAt: new Date(1) };
+    const after = { _id: id, name: 'Acme', address: { city: 'Kumasi', zip: '00233' }, tags: ['a', 'b'], notes: 'New', updatedAt: new Date(2) };
+
+    expect(diffRecords(before, after)).toEqual([
+      { field: 'address.city', from: 'Accra', to: 'Kumasi' },
+      { field: 'notes', from: null, to: 'New' },
+      { field: 'tags', from: ['a'], to: ['a', 'b'] }
+    ]);
+    expect(diffRecords(before, after, ['address', 'tags'])).toEqual([{ field: 'notes', from: null, to: 'New' }]);
+  });
+
+  it('should record creation and the fields an update changed, with the acting user', async () => {
+    const vendor = new Vendor({ name: 'Acme', userId });
+    await setAuditActor(vendor, actorId).save();
+
+    expect(logChange).toHaveBeenCalledWith(
+      'vendor_created',
+      { label: 'Acme', changes: undefined },
+      { userId: actorId, resource: 'vendor', recordId: String(vendor._id), ownerId: userId }
+    );
+
+    const before = vendor.toObject();
+    jest.spyOn(Vendor, 'findById').mockReturnValue({ lean: () => Promise.resolve(before) } as any);
+    vendor.name = 'Acme Ltd';
+    vendor.contactPhone = '+233200000000';
+    await vendor.save();
+
+    expect(logChange).toHaveBeenLastCalledWith(
+      'vendor_updated',
+      {
+        label: 'Acme Ltd',
+        changes: [
+          { field: 'contactPhone', from: null, to: '+233200000000' },
+          { field: 'name', from: 'Acme', to: 'Acme Ltd' }
+        ]
+      },
+      { userId: actorId, resource: 'vendor', recordId: String(vendor._id), ownerId: userId }
+    );
+  });
+
+  it('should not record saves that change nothing', async () => {
+    const vendor = await savedVendor();
+    // Saving an unmodified document only checks it still exists
+    jest.spyOn(Vendor.collection, 'findOne').mockResolvedValue({ _id: vendor._id } as any);
+
+    vendor.name = 'Acme';
+    await vendor.save();
+
+    expect(logChange).not.toHaveBeenCalled();
+  });
+
+  it('should record query updates and deletes with the actor from the query options', async () => {
+    const vendor = await savedVendor();
+    const before = vendor.toObject();
+    const after = { ...before, contactEmail: 'accounts@acme.com' };
+
+    jest.spyOn(Vendor, 'findOne').mockReturnValue({ lean: () => Promise.resolve(before) } as any);
+    jest.spyOn(Vendor, 'findById').mockReturnValue({ lean: () => Promise.resolve(after) } as any);
+    jest.spyOn(Vendor.collection, 'findOneAndUpdate').mockResolvedValue(after as any);
+
+    await Vendor.findOneAndUpdate({ _id: vendor._id, userId }, { contactEmail: 'accounts@acme.com' }, auditActor(actorId));
+
+    expect(logChange).toHaveBeenCalledWith(
+      'vendor_updated',
+      { label: 'Acme', changes: [{ field: 'contactEmail', from: 'billing@acme.com', to: 'accounts@acme.com' }] },
+      { userId: actorId, resource: 'vendor', recordId: String(vendor._id), ownerId: userId }
+    );
+
+    jest.spyOn(Vendor.collection, 'findOneAndDelete').mockResolvedValue(after as any);
+
+    await Vendor.findByIdAndDelete(vendor._id, auditActor(actorId));
+
+    expect(logChange).toHaveBeenLastCalledWith(
+      'vendor_deleted',
+      { label: 'Acme', changes: undefined },
+      { userId: actorId, resource: 'vendor', recordId: String(vendor._id), ownerId: userId }
+    );
+  });
+
+  it('should redact values of sensitive fields', async () => {
+    logChange.mockRestore();
+    const save = jest.spyOn(mongoose.models.AuditLog.prototype, 'save').mockResolvedValue(undefined);
+
+    await SubscriptionLogger.logChangeActivity(
+      'vendor_updated',
+      { label: 'Acme', changes: [{ field: 'taxId', from: 'GH-1', to: 'GH-2' }, { field: 'name', from: 'A', to: 'B' }] },
+      { userId: actorId, resource: 'vendor', recordId: new Types.ObjectId().toString() }
+    );
+
+    const entry = save.mock.contexts[0] as any;
+    expect(entry.category).toBe('change');
+    expect(entry.details.changes).toEqual([
+      { field: 'taxId', from: '***REDACTED***', to: '***REDACTED***' },
+      { field: 'name', from: 'A', to: 'B' }
+    ]);
+  });
+
+  it('should only show history kept for the user\'s workspace, including deleted records', async () => {
+    jest.spyOn(WorkspaceService, 'getScopeUserId').mockResolvedValue(userId);
+    const history = { logs: [], total: 0, limit: 50, offset: 0, hasMore: false };
+    const getAuditLogs = jest.spyOn(SubscriptionLogger, 'getAuditLogs').mockResolvedValue(history);
+
+    const recordId = new Types.ObjectId().toString();
+    const result = await AuditTrailService.getRecordHistory(actorId, 'expense', recordId);
+
+    expect(result).toEqual({ success: true, history });
+    expect(getAuditLogs).toHaveBeenCalledWith(expect.objectContaining({ resource: 'expense', recordId, ownerId: userId }));
+
+    expect(await AuditTrailService.getRecordHistory(userId, 'customer', recordId))
+      .toMatchObject({ success: false, error: { code: 'INVALID_RESOURCE' } });
+  });
+});
@@ -0,0 +1,100 @@
+import { BudgetService } from '@/lib/services/BudgetService';
+import { FinancialCalculator } from '@/lib/services/FinancialCalculator';
+import Budget from '@/lib/database/models/Budget';
+import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
+import { notificationService } from '@/lib/notifications/notification-service';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn(), connectToDatabase: jest.fn() }));
+jest.mock('@/lib/notifications/notification-service', () => ({
+  notificationService: { triggerNotification: jest.fn() }
+}));
+
+const march = new Date(2025, 2, 15);
+
+const budget = (overrides: object = {}) => new Budget({
+  categoryId: 'travel',
+  period: 'monthly',
+  amount: 500,
+  thresholds: [80, 100],
+  userId: 'user-1',
+  ...overrides
+});
+
+const mockSpending = (amount: number) => {
+  jest.spyOn(FinancialCalculator, 'getExpensesByCategory').mockResolvedValue([
+    { categoryId: 'travel', categoryName: 'Travel', amount, percentage: 100, transactionCount: 3 }
+  ]);
+  jest.spyOn(ExpenseCategory, 'find').mockReturnValue({
+    select: () => ({ lean: jest.fn().mockResolvedValue([{ _id: 'travel', name: 'Travel' }]) })
+  } as any);
+};
+
+describe('BudgetService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('returns the month or quarter containing a date', () => {
+    const monthly = BudgetService.getPeriodRange('monthly', march);
+    expect(monthly.key).toBe('2025-03');
+    expect(monthly.start).toEqual(new Date(2025, 2, 1));
+    expect(monthly.end).toEqual(new Date(new Date(2025, 3, 1).getTime() - 1));
+
+    const quarterly = BudgetService.getPeriodRange('quarterly', new Date(2025, 10, 2));
+    expect(quarterly.key).toBe('2025-Q4');
+    expect(quarterly.start).toEqual(new Date(2025, 9, 1));
+    expect(quarterly.end).toEqual(new Date(new Date(2026, 0, 1).getTime() - 1));
+  });
+
+  it('compares spending with the budget for the period', async () => {
+    mockSpending(450);
+
+    const [status] = await BudgetService.getBudgetStatuses('user-1', march, [budget()] as any);
+
+    expect(status).toMatchObject({
+      categoryName: 'Travel',
+      periodLabel: 'March 2025',
+      spent: 450,
+      remaining: 50,
+      percentUsed: 90,
+      crossedThreshold: 80
+    });
+  });
+
+  it('announces only the highest newly crossed threshold and records all of them', async () => {
+    mockSpending(520);
+    const travel = budget();
+    jest.spyOn(Budget, 'findActiveForCategory').mockResolvedValue([travel] as any);
+    const updateOne = jest.spyOn(Budget, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+
+    const sent = await BudgetService.checkBudgetAlerts('user-1', 'travel', march);
+
+    expect(sent).toBe(1);
+    expect(updateOne.mock.calls[0][1]).toEqual({
+      $push: { alertsSent: { $each: [
+        expect.objectContaining({ periodKey: '2025-03', threshold: 80 }),
+        expect.objectContaining({ periodKey: '2025-03', threshold: 100 })
+      ] } }
+    });
+    expect(notificationService.triggerNotification).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'financial_alert',
+      userId: 'user-1',
+      priority: 'high',
+      data: expect.objectContaining({ alertTitle: 'Travel is over budget' })
+    }));
+  });
+
+  it('does not repeat an alert already sent this period', async () => {
+    mockSpending(420);
+    const travel = budget({ alertsSent: [{ periodKey: '2025-03', threshold: 80, sentAt: new Date() }] });
+    jest.spyOn(Budget, 'findActiveForCategory').mockResolvedValue([travel] as any);
+    const updateOne = jest.spyOn(Budget, 'updateOne');
+
+    const sent = await BudgetService.checkBudgetAlerts('user-1', 'travel', march);
+
+    expect(sent).toBe(0);
+    expect(updateOne).not.toHaveBeenCalled();
+    expect(notificationService.triggerNotification).not.toHaveBeenCalled();
+  });
+});
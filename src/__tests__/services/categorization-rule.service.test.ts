@@ -0,0 +1,71 @@
+import { CategorizationRuleService } from '@/lib/services/CategorizationRuleService';
+import CategorizationRule from '@/lib/database/models/CategorizationRule';
+import Expense from '@/lib/database/models/Expense';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn(), connectToDatabase: jest.fn() }));
+
+const rule = (name: string, conditions: object, assign: { categoryId?: string; vendorId?: string }) => ({
+  name,
+  conditions,
+  ...assign
+});
+
+describe('CategorizationRuleService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('requires every condition a rule sets to match', () => {
+    const fuel = rule('Fuel', { descriptionContains: 'shell', minAmount: 20, maxAmount: 200 }, { categoryId: 'fuel' });
+
+    expect(CategorizationRuleService.matchesRule(fuel, { description: 'SHELL 1234 ACCRA', amount: 80 })).toBe(true);
+    expect(CategorizationRuleService.matchesRule(fuel, { description: 'SHELL 1234 ACCRA', amount: 5 })).toBe(false);
+    expect(CategorizationRuleService.matchesRule(fuel, { description: 'Total Energies', amount: 80 })).toBe(false);
+    expect(CategorizationRuleService.matchesRule(rule('Regex', { descriptionPattern: '^aws\\b' }, {}), { description: 'AWS EMEA' })).toBe(true);
+    expect(CategorizationRuleService.matchesRule(rule('Vendor', { vendorId: 'v1' }, {}), { description: 'x', vendorId: 'v2' })).toBe(false);
+  });
+
+  it('lets the first matching rule set each field', () => {
+    const rules = [
+      rule('Office vendor', { descriptionContains: 'depot' }, { vendorId: 'office-depot' }),
+      rule('Supplies', { descriptionContains: 'depot' }, { categoryId: 'supplies' }),
+      rule('Catch-all', { minAmount: 0 }, { categoryId: 'other', vendorId: 'misc' })
+    ];
+
+    expect(CategorizationRuleService.applyRules(rules, { description: 'OFFICE DEPOT #12', amount: 40 })).toEqual({
+      categoryId: 'supplies',
+      vendorId: 'office-depot',
+      rules: ['Office vendor', 'Supplies']
+    });
+    expect(CategorizationRuleService.applyRules(rules, { description: 'Lunch', amount: 12, vendorId: 'cafe' })).toEqual({
+      categoryId: 'other',
+      rules: ['Catch-all']
+    });
+  });
+
+  it('previews only the records a re-run would change', async () => {
+    jest.spyOn(CategorizationRule, 'findActiveByUser').mockResolvedValue([
+      rule('Software', { descriptionContains: 'github' }, { categoryId: 'software' })
+    ] as any);
+    const lean = jest.fn().mockResolvedValue([
+      { _id: 'e1', description: 'GitHub subscription', amount: 4, date: new Date(), categoryId: null },
+      { _id: 'e2', description: 'Coffee', amount: 3, date: new Date(), categoryId: null }
+    ]);
+    const find = jest.spyOn(Expense, 'find').mockReturnValue({
+      sort: () => ({ limit: () => ({ select: () => ({ lean }) }) })
+    } as any);
+
+    const changes = await CategorizationRuleService.previewRerun('user-1', { type: 'expense' });
+
+    expect(find).toHaveBeenCalledWith({ userId: 'user-1', categoryId: { $in: [null, ''] } });
+    expect(changes).toEqual([
+      expect.objectContaining({ recordId: 'e1', categoryId: { from: null, to: 'software' }, rules: ['Software'] })
+    ]);
+  });
+
+  it('rejects rules without a condition', async () => {
+    const invalid = new CategorizationRule({ name: 'Empty', type: 'expense', conditions: {}, categoryId: 'c1', userId: 'user-1' });
+
+    await expect(invalid.validate()).rejects.toThrow('A rule needs at least one condition');
+  });
+});
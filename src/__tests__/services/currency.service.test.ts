@@ -0,0 +1,47 @@
+import { createRateTable } from '@/lib/services/CurrencyService';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn() }));
+
+describe('createRateTable', () => {
+  const rates = [
+    { fromCurrency: 'USD' as const, toCurrency: 'GHS' as const, rate: 12, effectiveDate: new Date('2025-01-01') },
+    { fromCurrency: 'USD' as const, toCurrency: 'GHS' as const, rate: 15, effectiveDate: new Date('2025-03-01') },
+    { fromCurrency: 'NGN' as const, toCurrency: 'USD' as const, rate: 0.0008, effectiveDate: new Date('2025-01-01') }
+  ];
+
+  it('uses the latest rate in effect on the given date', () => {
+    const table = createRateTable(rates);
+
+    expect(table.convert(10, 'USD', 'GHS', new Date('2025-02-15'))).toBe(120);
+    expect(table.convert(10, 'USD', 'GHS', new Date('2025-03-01'))).toBe(150);
+  });
+
+  it('falls back to the earliest rate for dates before the first entry', () => {
+    const table = createRateTable(rates);
+
+    expect(table.convert(10, 'USD', 'GHS', new Date('2024-06-01'))).toBe(120);
+  });
+
+  it('derives the inverse rate when only one direction was entered', () => {
+    const table = createRateTable(rates);
+
+    expect(table.convert(8, 'USD', 'NGN', new Date('2025-02-01'))).toBeCloseTo(10000);
+    expect(table.convert(150, 'GHS', 'USD', new Date('2025-04-01'))).toBeCloseTo(10);
+  });
+
+  it('prefers an entered rate over a derived inverse', () => {
+    const table = createRateTable([
+      ...rates,
+      { fromCurrency: 'GHS' as const, toCurrency: 'USD' as const, rate: 0.07, effectiveDate: new Date('2025-03-01') }
+    ]);
+
+    expect(table.convert(100, 'GHS', 'USD', new Date('2025-03-10'))).toBeCloseTo(7);
+  });
+
+  it('returns null when no rate links the currencies', () => {
+    const table = createRateTable(rates);
+
+    expect(table.convert(10, 'KES', 'USD')).toBeNull();
+    expect(table.convert(10, 'KES', 'KES')).toBe(10);
+  });
+});
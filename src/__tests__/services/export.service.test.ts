@@ -0,0 +1,103 @@
+import { exportService, signExportDownload, verifyExportDownload } from '@/lib/services/exportService';
+import { addExportPeriod } from '@/lib/database/models/ScheduledExport';
+import Invoice from '@/lib/database/models/Invoice';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn(), connectToDatabase: jest.fn() }));
+
+describe('signed export download links', () => {
+  const originalSecret = process.env.EXPORT_LINK_SECRET;
+  const now = Date.parse('2025-03-01T10:00:00Z');
+  const expires = now + 60 * 60 * 1000;
+
+  beforeEach(() => {
+    process.env.EXPORT_LINK_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    process.env.EXPORT_LINK_SECRET = originalSecret;
+  });
+
+  it('accepts a link signed for the same job and expiry', () => {
+    const signature = signExportDownload('export_1', expires);
+
+    expect(verifyExportDownload('export_1', String(expires), signature, now)).toBe(true);
+  });
+
+  it('rejects links for another job or with a changed expiry', () => {
+    const signature = signExportDownload('export_1', expires);
+
+    expect(verifyExportDownload('export_2', expires, signature, now)).toBe(false);
+    expect(verifyExportDownload('export_1', expires + 1000, signature, now)).toBe(false);
+  });
+
+  it('rejects expired links', () => {
+    const signature = signExportDownload('export_1', expires);
+
+    expect(verifyExportDownload('export_1', expires, signature, expires + 1)).toBe(false);
+  });
+});
+
+describe('addExportPeriod', () => {
+  it('advances and rewinds by the schedule frequency', () => {
+    const date = new Date('2025-01-31T08:00:00Z');
+
+    expect(addExportPeriod(date, 'daily').toISOString()).toBe('2025-02-01T08:00:00.000Z');
+    expect(addExportPeriod(date, 'weekly', -1).toISOString()).toBe('2025-01-24T08:00:00.000Z');
+    expect(addExportPeriod(new Date('2025-03-15T08:00:00Z'), 'monthly', -1).toISOString()).toBe('2025-02-15T08:00:00.000Z');
+  });
+});
+
+describe('invoice export', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('scopes the query to the user and applies the status, SKU and date filters', async () => {
+    const lean = jest.fn().mockResolvedValue([]);
+    const find = jest.spyOn(Invoice, 'find').mockReturnValue({ sort: () => ({ lean }) } as any);
+
+    await (exportService as any).getInvoiceData(
+      { status: 'Paid', sku: 'ab-1', dateRange: { start: '2025-01-01', end: '2025-01-31' } },
+      'user-1'
+    );
+
+    expect(find).toHaveBeenCalledWith({
+      userId: 'user-1',
+      status: 'Paid',
+      'orders.sku': { $regex: '^ab-1$', $options: 'i' },
+      orderDate: { $gte: new Date('2025-01-01'), $lte: new Date('2025-01-31') }
+    });
+  });
+
+  it('outputs the same columns for every invoice', async () => {
+    jest.spyOn(Invoice, 'find').mockReturnValue({
+      sort: () => ({
+        lean: jest.fn().mockResolvedValue([
+          {
+            _id: 'inv-1',
+            invoiceNumber: 'INV-001',
+            status: 'Paid',
+            billTo: 'Acme',
+            billToEmail: 'ap@acme.test',
+            orderDate: new Date('2025-01-10T00:00:00Z'),
+            orders: [{ itemName: 'Widget' }],
+            totalCost: 100,
+            vatRate: 15,
+            vat: 15,
+            grandTotal: 115,
+            amountPaid: 115,
+            balanceDue: 0,
+            createdAt: new Date('2025-01-10T00:00:00Z')
+          },
+          { _id: 'inv-2', invoiceNumber: 'INV-002', status: 'Draft', grandTotal: 50, orders: [] }
+        ])
+      })
+    } as any);
+
+    const rows = await (exportService as any).getInvoiceData({}, 'user-1');
+
+    expect(Object.keys(rows[0])).toEqual(Object.keys(rows[1]));
+    expect(rows[0]).toMatchObject({ invoiceNumber: 'INV-001', items: 1, orderDate: '2025-01-10T00:00:00.000Z', dueDate: '' });
+    expect(rows[1]).toMatchObject({ amountPaid: 0, balanceDue: 50, currency: '' });
+  });
+});
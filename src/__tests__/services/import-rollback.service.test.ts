@@ -0,0 +1,66 @@
+import { ImportRollbackService } from '@/lib/services/ImportRollbackService';
+import ImportJob from '@/lib/database/models/ImportJob';
+import Income from '@/lib/database/models/Income';
+import InventoryLog from '@/lib/database/models/InventoryLog';
+import Product from '@/lib/database/models/Product';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn(), connectToDatabase: jest.fn() }));
+
+describe('ImportRollbackService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('snapshots unset fields as null so restoring clears them', () => {
+    const product = new Product({ title: 'Mug', price: 12 });
+
+    expect(ImportRollbackService.snapshot(product, ['title', 'price', 'brand'])).toEqual({
+      title: 'Mug',
+      price: 12,
+      brand: null
+    });
+  });
+
+  it.each([
+    [{ userId: 'someone-else', status: 'completed' }, 'NOT_FOUND'],
+    [{ userId: 'user-1', status: 'processing' }, 'INVALID_STATUS'],
+    [{ userId: 'user-1', status: 'rolled_back' }, 'ALREADY_ROLLED_BACK']
+  ])('refuses to roll back %o', async (job: Record<string, string>, code: string) => {
+    jest.spyOn(ImportJob, 'findOne').mockResolvedValue({ jobId: 'job-1', type: 'income', ...job } as any);
+    const updateOne = jest.spyOn(ImportJob, 'updateOne');
+
+    const result = await ImportRollbackService.rollbackImportJob('job-1', 'user-1');
+
+    expect(result).toMatchObject({ success: false, error: { code } });
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('deletes the records a finance import created and keeps categories still in use', async () => {
+    jest.spyOn(ImportJob, 'findOne').mockResolvedValue({
+      jobId: 'job-1',
+      userId: 'user-1',
+      status: 'completed',
+      type: 'income',
+      createdRecords: [{ model: 'IncomeCategory', recordId: 'category-1' }],
+      updatedRecords: []
+    } as any);
+    const updateOne = jest.spyOn(ImportJob, 'updateOne').mockResolvedValue({ modifiedCount: 1 } as any);
+    const deleteMany = jest.spyOn(Income, 'deleteMany').mockResolvedValue({ deletedCount: 3 } as any);
+    jest.spyOn(Income, 'exists').mockResolvedValue({ _id: 'income-9' } as any);
+    jest.spyOn(InventoryLog, 'find').mockReturnValue({ sort: () => Promise.resolve([]) } as any);
+
+    const result = await ImportRollbackService.rollbackImportJob('job-1', 'user-1');
+
+    expect(deleteMany).toHaveBeenCalledWith({ userId: 'user-1', importJobId: 'job-1' });
+    expect(result.success).toBe(true);
+    expect(result.rollback).toMatchObject({
+      rolledBackBy: 'user-1',
+      deleted: 3,
+      restored: 0,
+      inventoryReversed: 0,
+      failures: ['IncomeCategory category-1 is still in use and was kept']
+    });
+    expect(updateOne).toHaveBeenCalledWith({ jobId: 'job-1', status: 'completed' }, { $set: { status: 'rolled_back' } });
+    expect(updateOne).toHaveBeenLastCalledWith({ jobId: 'job-1' }, { $set: { rollback: result.rollback } });
+  });
+});
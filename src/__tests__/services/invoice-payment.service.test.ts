@@ -0,0 +1,94 @@
+import { Types } from 'mongoose';
+import { InvoicePaymentService } from '@/lib/services/InvoicePaymentService';
+import { WebhookService } from '@/lib/services/WebhookService';
+import Invoice from '@/lib/database/models/Invoice';
+import Income from '@/lib/database/models/Income';
+import IncomeCategory from '@/lib/database/models/IncomeCategory';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn(), connectToDatabase: jest.fn() }));
+
+const userId = new Types.ObjectId().toString();
+
+const sentInvoice = () => {
+  const invoice = new Invoice({
+    invoiceNumber: 'INV-1001',
+    grandTotal: 500,
+    status: 'Sent',
+    currency: 'USD',
+    userId
+  });
+  invoice.isNew = false;
+  return invoice;
+};
+
+// Applies the pushed payment the way the stored update would
+const applyUpdate = (invoice: InstanceType<typeof Invoice>) => async (_filter: any, pipeline: any) => {
+  const updated = new Invoice(invoice.toObject());
+  updated.payments.push(pipeline[0].$set.payments.$concatArrays[1][0].$literal);
+  updated.applyPayments();
+  return updated;
+};
+
+describe('InvoicePaymentService', () => {
+  let findOneAndUpdate: ReturnType<typeof jest.spyOn>;
+  let updateOne: ReturnType<typeof jest.spyOn>;
+  let incomeSave: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    findOneAndUpdate = jest.spyOn(Invoice, 'findOneAndUpdate');
+    updateOne = jest.spyOn(Invoice, 'updateOne').mockResolvedValue({} as any);
+    incomeSave = jest.spyOn(Income.prototype, 'save').mockImplementation(function(this: any) {
+      return Promise.resolve(this);
+    });
+    jest.spyOn(IncomeCategory, 'findOne').mockResolvedValue({ _id: new Types.ObjectId() } as any);
+    jest.spyOn(WebhookService, 'dispatchInBackground').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should save the payment against the stored balance before recording its income', async () => {
+    const invoice = sentInvoice();
+    findOneAndUpdate.mockImplementation(applyUpdate(invoice) as any);
+
+    const result = await InvoicePaymentService.recordPayment(invoice, { amount: 200, reference: 'TX-1' }, 'owner@example.com');
+
+    expect(result.success).toBe(true);
+    expect(result.invoice).toMatchObject({ status: 'Partially Paid', amountPaid: 200, balanceDue: 300 });
+    expect(findOneAndUpdate.mock.calls[0][0]).toMatchObject({
+      _id: invoice._id,
+      userId,
+      $expr: { $gte: [expect.anything(), 200] }
+    });
+    expect(findOneAndUpdate.mock.invocationCallOrder[0]).toBeLessThan(incomeSave.mock.invocationCallOrder[0]);
+    expect(incomeSave.mock.instances[0]).toMatchObject({ amount: 200, currency: 'USD' });
+    expect(updateOne).toHaveBeenCalledWith(
+      { _id: invoice._id, 'payments._id': result.payment!._id },
+      { $set: { 'payments.$.incomeId': result.payment!.incomeId } }
+    );
+  });
+
+  it('should not record income when another payment has taken the balance', async () => {
+    findOneAndUpdate.mockResolvedValue(null);
+
+    const result = await InvoicePaymentService.recordPayment(sentInvoice(), { amount: 500 });
+
+    expect(result).toMatchObject({ success: false, error: { code: 'BALANCE_CHANGED' } });
+    expect(incomeSave).not.toHaveBeenCalled();
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('should mark an invoice paid by recording its balance as a payment', async () => {
+    const invoice = sentInvoice();
+    findOneAndUpdate.mockImplementation(applyUpdate(invoice) as any);
+
+    const result = await InvoicePaymentService.markAsPaid(invoice, 'owner@example.com');
+
+    expect(result.success).toBe(true);
+    expect(result.invoice!.status).toBe('Paid');
+    expect(result.payment).toMatchObject({ amount: 500, method: 'other', reference: 'Marked as paid' });
+    expect(incomeSave.mock.instances[0]).toMatchObject({ amount: 500 });
+    expect(WebhookService.dispatchInBackground).toHaveBeenCalledTimes(1);
+  });
+});
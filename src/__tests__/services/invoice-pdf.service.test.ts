@@ -0,0 +1,60 @@
+import { InvoicePdfService } from '@/lib/services/InvoicePdfService';
+import { IInvoice } from '@/lib/database/models/Invoice';
+
+const buildInvoice = (overrides: Partial<IInvoice> = {}): IInvoice => ({
+  invoiceNumber: 'INV-2025-0001',
+  billFrom: 'Boami Store',
+  billFromEmail: 'billing@boami.test',
+  billTo: 'Ama Mensah',
+  billToEmail: 'ama@example.com',
+  billToAddress: '12 Ring Road, Accra',
+  orders: [
+    { itemName: 'Shea Butter 250ml', sku: 'SHEA-250', unitPrice: 40, units: 2, unitTotalPrice: 80 },
+    { itemName: 'Black Soap', unitPrice: 20, units: 1, unitTotalPrice: 20 }
+  ],
+  orderDate: new Date('2025-01-15'),
+  dueDate: new Date('2025-02-15'),
+  totalCost: 100,
+  vat: 15,
+  vatRate: 15,
+  grandTotal: 115,
+  payments: [],
+  amountPaid: 0,
+  balanceDue: 115,
+  history: [],
+  status: 'Sent',
+  completed: false,
+  userId: 'user-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const company = { name: 'Boami Store', email: 'billing@boami.test', address: 'Accra, Ghana' };
+
+describe('InvoicePdfService', () => {
+  it('should render a PDF document', async () => {
+    const pdf = await InvoicePdfService.generate(buildInvoice(), company);
+
+    expect(Buffer.isBuffer(pdf)).toBe(true);
+    expect(pdf.subarray(0, 4).toString()).toBe('%PDF');
+  });
+
+  it('should continue long item lists onto further pages', async () => {
+    const orders = Array.from({ length: 80 }, (_, index) => ({
+      itemName: `Item ${index + 1}`,
+      unitPrice: 1,
+      units: 1,
+      unitTotalPrice: 1
+    }));
+
+    const pdf = await InvoicePdfService.generate(buildInvoice({ orders }), company);
+    const pageCount = (pdf.toString('latin1').match(/\/Type \/Page\b/g) || []).length;
+
+    expect(pageCount).toBeGreaterThan(1);
+  });
+
+  it('should build a filesystem-safe filename', () => {
+    expect(InvoicePdfService.getFilename({ invoiceNumber: 'INV/2025 #7' })).toBe('invoice-INV_2025__7.pdf');
+  });
+});
@@ -0,0 +1,113 @@
+import { Types } from 'mongoose';
+import { PurchaseOrderService } from '@/lib/services/PurchaseOrderService';
+import { WarehouseService, LocationAdjustmentInput } from '@/lib/services/WarehouseService';
+import PurchaseOrder from '@/lib/database/models/PurchaseOrder';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn(), connectToDatabase: jest.fn() }));
+
+const userId = new Types.ObjectId().toString();
+const mugId = new Types.ObjectId().toString();
+const bowlId = new Types.ObjectId().toString();
+
+const sentOrder = () => new PurchaseOrder({
+  poNumber: 'PO-0001',
+  vendorId: new Types.ObjectId().toString(),
+  items: [
+    { productId: mugId, name: 'Mug', quantityOrdered: 10, quantityReceived: 0, unitCost: 4, lineTotal: 40 },
+    { productId: bowlId, name: 'Bowl', quantityOrdered: 5, quantityReceived: 0, unitCost: 6, lineTotal: 30 }
+  ],
+  shippingCost: 5,
+  status: 'sent',
+  warehouseId: new Types.ObjectId().toString(),
+  userId
+});
+
+describe('PurchaseOrderService', () => {
+  beforeEach(() => {
+    jest.spyOn(PurchaseOrderService as any, 'validateReferences').mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('receiveOrder', () => {
+    it('should only receive and pay for the lines whose stock was added', async () => {
+      const order = sentOrder();
+      jest.spyOn(order, 'save').mockResolvedValue(order);
+      jest.spyOn(WarehouseService, 'adjustStock').mockImplementation(async (_userId: string, input: LocationAdjustmentInput) =>
+        input.productId === mugId
+          ? { success: true }
+          : { success: false, error: { code: 'NOT_FOUND', message: 'Product not found' } }
+      );
+      const recordExpense = jest.spyOn(PurchaseOrderService, 'recordExpense').mockResolvedValue('expense-1');
+
+      const result = await PurchaseOrderService.receiveOrder(order);
+
+      expect(result.success).toBe(true);
+      expect(result.failedItems).toEqual([
+        expect.objectContaining({ productId: bowlId, quantity: 5, error: { code: 'NOT_FOUND', message: 'Product not found' } })
+      ]);
+      expect(order.receipts).toHaveLength(1);
+      expect(order.receipts[0].items).toEqual([expect.objectContaining({ productId: mugId, quantity: 10 })]);
+      expect(order.receipts[0].amount).toBe(45);
+      expect(recordExpense).toHaveBeenCalledWith(order, expect.objectContaining({ amount: 45 }));
+      expect(order.items.map(item => item.quantityReceived)).toEqual([10, 0]);
+      expect(order.status).toBe('partially_received');
+    });
+
+    it('should fail without recording a receipt when no stock could be added', async () => {
+      const order = sentOrder();
+      const save = jest.spyOn(order, 'save');
+      jest.spyOn(WarehouseService, 'adjustStock').mockResolvedValue({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Warehouse not found or inactive' }
+      });
+      const recordExpense = jest.spyOn(PurchaseOrderService, 'recordExpense');
+
+      const result = await PurchaseOrderService.receiveOrder(order);
+
+      expect(result).toMatchObject({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Warehouse not found or inactive' }
+      });
+      expect(result.failedItems!.map(item => item.productId)).toEqual([mugId, bowlId]);
+      expect(order.receipts).toHaveLength(0);
+      expect(recordExpense).not.toHaveBeenCalled();
+      expect(save).not.toHaveBeenCalled();
+    });
+
+    it('should check lines listing the same item against the quantity outstanding together', async () => {
+      const order = sentOrder();
+      const adjustStock = jest.spyOn(WarehouseService, 'adjustStock');
+
+      const result = await PurchaseOrderService.receiveOrder(order, {
+        items: [{ productId: bowlId, quantity: 3 }, { productId: bowlId, quantity: 3 }]
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: { code: 'OVER_RECEIPT', message: 'Only 5 of Bowl remain to be received' }
+      });
+      expect(adjustStock).not.toHaveBeenCalled();
+      expect(order.items[1].quantityReceived).toBe(0);
+    });
+
+    it('should receive lines listing the same item as one receipt line', async () => {
+      const order = sentOrder();
+      jest.spyOn(order, 'save').mockResolvedValue(order);
+      const adjustStock = jest.spyOn(WarehouseService, 'adjustStock').mockResolvedValue({ success: true });
+      jest.spyOn(PurchaseOrderService, 'recordExpense').mockResolvedValue('expense-1');
+
+      const result = await PurchaseOrderService.receiveOrder(order, {
+        items: [{ productId: bowlId, quantity: 2 }, { productId: bowlId, quantity: 3 }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(adjustStock).toHaveBeenCalledTimes(1);
+      expect(adjustStock).toHaveBeenCalledWith(order.userId, expect.objectContaining({ productId: bowlId, quantityChange: 5 }));
+      expect(order.receipts[0].items).toEqual([expect.objectContaining({ productId: bowlId, quantity: 5 })]);
+      expect(order.items[1].quantityReceived).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { Types } from 'mongoose';
+import { SalesOrderService } from '@/lib/services/SalesOrderService';
+import { InventoryService } from '@/lib/services/InventoryService';
+import { CurrencyService } from '@/lib/services/CurrencyService';
+import { WebhookService } from '@/lib/services/WebhookService';
+import SalesOrder from '@/lib/database/models/SalesOrder';
+import Sale from '@/lib/database/models/Sale';
+import Income from '@/lib/database/models/Income';
+import IncomeCategory from '@/lib/database/models/IncomeCategory';
+import Product from '@/lib/database/models/Product';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn(), connectToDatabase: jest.fn() }));
+
+const userId = new Types.ObjectId().toString();
+const mugId = new Types.ObjectId().toString();
+
+const resolveSelf = function(this: any) {
+  return Promise.resolve(this);
+};
+
+describe('SalesOrderService', () => {
+  let saleSave: ReturnType<typeof jest.spyOn>;
+  let incomeSave: ReturnType<typeof jest.spyOn>;
+  let updateInventory: ReturnType<typeof jest.spyOn>;
+
+  beforeEach(() => {
+    jest.spyOn(Product, 'findById').mockResolvedValue({ _id: mugId, title: 'Mug', sku: 'MUG-1', price: 12 } as any);
+    jest.spyOn(InventoryService, 'validateInventoryForSale').mockResolvedValue({ isValid: true, message: '' } as any);
+    updateInventory = jest.spyOn(InventoryService, 'updateInventoryForSale').mockResolvedValue({ success: true } as any);
+    jest.spyOn(CurrencyService, 'getBaseCurrency').mockResolvedValue('NGN');
+    jest.spyOn(WebhookService, 'dispatchInBackground').mockImplementation(() => {});
+    jest.spyOn(SalesOrder.prototype, 'save').mockImplementation(function(this: any) {
+      this.recalculateTotals();
+      return Promise.resolve(this);
+    });
+    saleSave = jest.spyOn(Sale.prototype, 'save').mockImplementation(resolveSelf);
+    incomeSave = jest.spyOn(Income.prototype, 'save').mockImplementation(resolveSelf);
+    jest.spyOn(IncomeCategory, 'findOne').mockResolvedValue({ _id: new Types.ObjectId() } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should not take pending orders out of stock or book income', async () => {
+    const result = await SalesOrderService.createOrder(userId, {
+      items: [{ productId: mugId, quantity: 2 }],
+      status: 'pending'
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.order!.currency).toBe('NGN');
+    expect(result.order!.items[0].saleId).toBeFalsy();
+    expect(saleSave).not.toHaveBeenCalled();
+    expect(updateInventory).not.toHaveBeenCalled();
+    expect(incomeSave).not.toHaveBeenCalled();
+  });
+
+  it('should record sales, stock and income in the order currency once the order is completed', async () => {
+    const { order } = await SalesOrderService.createOrder(userId, {
+      items: [{ productId: mugId, quantity: 2 }],
+      currency: 'usd',
+      status: 'pending'
+    });
+
+    const result = await SalesOrderService.updateStatus(order!, 'completed');
+
+    expect(result.success).toBe(true);
+    expect(order!.status).toBe('completed');
+    expect(updateInventory).toHaveBeenCalledWith(mugId, 2, null);
+    expect(saleSave.mock.instances[0]).toMatchObject({ quantity: 2, totalAmount: 24, currency: 'USD' });
+    expect(incomeSave.mock.instances[0]).toMatchObject({ amount: 24, currency: 'USD' });
+    expect(order!.items[0].saleId).toBeTruthy();
+    expect(order!.incomeId).toBeTruthy();
+  });
+
+  it('should keep the order pending when the stock has run out', async () => {
+    const { order } = await SalesOrderService.createOrder(userId, {
+      items: [{ productId: mugId, quantity: 2 }],
+      status: 'pending'
+    });
+    jest.spyOn(InventoryService, 'validateInventoryForSale')
+      .mockResolvedValue({ isValid: false, message: 'Only 1 Mug left in stock' } as any);
+
+    const result = await SalesOrderService.updateStatus(order!, 'completed');
+
+    expect(result).toEqual({
+      success: false,
+      error: { code: 'INSUFFICIENT_INVENTORY', message: 'Only 1 Mug left in stock' }
+    });
+    expect(order!.status).toBe('pending');
+    expect(saleSave).not.toHaveBeenCalled();
+    expect(updateInventory).not.toHaveBeenCalled();
+  });
+
+  it('should book income for completed orders in the base currency', async () => {
+    const result = await SalesOrderService.createOrder(userId, {
+      items: [{ productId: mugId, quantity: 1 }]
+    });
+
+    expect(result.success).toBe(true);
+    expect(updateInventory).toHaveBeenCalledTimes(1);
+    expect(incomeSave.mock.instances[0]).toMatchObject({ amount: 12, currency: 'NGN' });
+  });
+});
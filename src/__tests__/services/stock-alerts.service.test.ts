@@ -0,0 +1,94 @@
+import mongoose, { Types } from 'mongoose';
+import { StockAlertsService } from '@/lib/services/stock-alerts';
+import { WarehouseService } from '@/lib/services/WarehouseService';
+import { WebhookService } from '@/lib/services/WebhookService';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn(), connectToDatabase: jest.fn() }));
+
+const userId = new Types.ObjectId().toString();
+const productId = new Types.ObjectId().toString();
+const mainId = new Types.ObjectId().toString();
+const shopId = new Types.ObjectId().toString();
+const product = { _id: new Types.ObjectId(productId), title: 'Mug', sku: 'MUG-1', qty: 4, lowStockThreshold: 5 };
+
+const toArray = (items: any[]) => ({ toArray: async () => items });
+
+describe('StockAlertsService', () => {
+  let insertMany: ReturnType<typeof jest.fn>;
+  let originalDb: any;
+
+  beforeEach(() => {
+    insertMany = jest.fn(async (alerts: any[]) => ({ insertedIds: alerts.map((_, index) => index) }));
+    const collections: Record<string, any> = {
+      stocklevels: {
+        distinct: async () => [productId],
+        aggregate: () => toArray([{ _id: { userId, productId, variantId: null } }]),
+        find: () => toArray([{ quantity: 2 }, { quantity: 6 }])
+      },
+      products: {
+        // Located products are left out of the product-wide query
+        find: (filter: any) => toArray(filter._id.$in ? [product] : []),
+        findOne: async () => product
+      },
+      stockalerts: {
+        findOne: async () => null,
+        find: () => toArray([]),
+        updateOne: jest.fn(),
+        insertMany
+      }
+    };
+
+    originalDb = mongoose.connection.db;
+    (mongoose.connection as any).db = { collection: (name: string) => collections[name] };
+    jest.spyOn(WebhookService, 'dispatchInBackground').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (mongoose.connection as any).db = originalDb;
+    jest.restoreAllMocks();
+  });
+
+  it('should raise a product alert when the locations hold stock that has been sold', async () => {
+    jest.spyOn(WarehouseService, 'getStockByLocation').mockResolvedValue({
+      success: true,
+      data: {
+        sku: 'MUG-1',
+        totalQuantity: 4,
+        missingQuantity: 4,
+        lowStockThreshold: 5,
+        locations: [
+          { warehouseId: mainId, warehouseName: 'Main', warehouseCode: 'MAIN', isDefault: true, quantity: 2, lowStockThreshold: 5, isLowStock: true },
+          { warehouseId: shopId, warehouseName: 'Shop', warehouseCode: 'SHOP', isDefault: false, quantity: 6, lowStockThreshold: 5, isLowStock: false }
+        ]
+      }
+    });
+
+    const alerts = await StockAlertsService.generateAlertsFromProducts();
+
+    expect(alerts).toEqual([
+      expect.objectContaining({ productName: 'Mug', currentStock: 4, threshold: 5, alertType: 'low_stock' }),
+      expect.objectContaining({ productName: 'Mug (Main)', warehouseId: mainId, currentStock: 2 })
+    ]);
+    expect(alerts[0].warehouseId).toBeUndefined();
+    expect(insertMany).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave located products to their location alerts while the locations add up', async () => {
+    jest.spyOn(WarehouseService, 'getStockByLocation').mockResolvedValue({
+      success: true,
+      data: {
+        sku: 'MUG-1',
+        totalQuantity: 4,
+        missingQuantity: 0,
+        lowStockThreshold: 5,
+        locations: [
+          { warehouseId: shopId, warehouseName: 'Shop', warehouseCode: 'SHOP', isDefault: false, quantity: 4, lowStockThreshold: 5, isLowStock: true }
+        ]
+      }
+    });
+
+    const alerts = await StockAlertsService.generateAlertsFromProducts();
+
+    expect(alerts).toEqual([expect.objectContaining({ productName: 'Mug (Shop)', warehouseId: shopId })]);
+  });
+});
@@ -0,0 +1,148 @@
+import { Types } from 'mongoose';
+import { WarehouseService } from '@/lib/services/WarehouseService';
+import Product from '@/lib/database/models/Product';
+import StockLevel from '@/lib/database/models/StockLevel';
+import Warehouse from '@/lib/database/models/Warehouse';
+import InventoryLog from '@/lib/database/models/InventoryLog';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn(), connectToDatabase: jest.fn() }));
+
+const userId = new Types.ObjectId().toString();
+const productId = new Types.ObjectId().toString();
+const mainWarehouse = new Warehouse({ name: 'Main', code: 'MAIN', isDefault: true, userId });
+const shop = new Warehouse({ name: 'Shop', code: 'SHOP', userId });
+
+const stockAt = (warehouse: InstanceType<typeof Warehouse>, quantity: number) => new StockLevel({
+  productId,
+  warehouseId: warehouse._id.toString(),
+  sku: 'MUG-1',
+  quantity,
+  userId
+});
+
+const mockStock = (globalQuantity: number, levels: InstanceType<typeof StockLevel>[]) => {
+  const product = { _id: productId, sku: 'MUG-1', qty: globalQuantity, save: jest.fn() };
+  jest.spyOn(Product, 'findById').mockResolvedValue(product as any);
+  jest.spyOn(StockLevel, 'findByProduct').mockImplementation(async () => levels);
+  jest.spyOn(Warehouse, 'getDefaultWarehouse').mockResolvedValue(mainWarehouse);
+  jest.spyOn(Warehouse, 'find').mockResolvedValue([mainWarehouse, shop] as any);
+  jest.spyOn(Warehouse, 'findOne').mockImplementation((filter: any) =>
+    [mainWarehouse, shop].find(warehouse => warehouse._id.toString() === filter._id) as any
+  );
+  jest.spyOn(InventoryLog, 'createLog').mockImplementation(async (data: any) => data);
+  levels.forEach(level => jest.spyOn(level, 'save').mockResolvedValue(level));
+  return product;
+};
+
+describe('WarehouseService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getStockByLocation', () => {
+    it('should put unallocated stock in the default warehouse', async () => {
+      const main = stockAt(mainWarehouse, 2);
+      mockStock(10, [main, stockAt(shop, 3)]);
+
+      const result = await WarehouseService.getStockByLocation(userId, { productId });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.locations.map(location => [location.warehouseCode, location.quantity])).toEqual([
+        ['MAIN', 7],
+        ['SHOP', 3]
+      ]);
+      expect(main.save).toHaveBeenCalled();
+    });
+
+    it('should report stock missing from other locations instead of zeroing the default warehouse', async () => {
+      const main = stockAt(mainWarehouse, 2);
+      mockStock(4, [main, stockAt(shop, 6)]);
+
+      const result = await WarehouseService.getStockByLocation(userId, { productId });
+
+      expect(result.success).toBe(true);
+      expect(result.data).toMatchObject({ totalQuantity: 4, missingQuantity: 4 });
+      expect(result.data!.locations.map(location => location.quantity)).toEqual([2, 6]);
+      expect(main.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('adjustStock', () => {
+    it('should keep receiving stock at a location while stock is missing', async () => {
+      const shopLevel = stockAt(shop, 6);
+      const product = mockStock(4, [stockAt(mainWarehouse, 2), shopLevel]);
+
+      const result = await WarehouseService.adjustStock(userId, {
+        productId,
+        warehouseId: shop._id.toString(),
+        quantityChange: 5
+      });
+
+      expect(result.success).toBe(true);
+      expect(shopLevel.quantity).toBe(11);
+      expect(product.qty).toBe(9);
+    });
+
+    it('should not take the product below zero when its locations hold sold stock', async () => {
+      mockStock(4, [stockAt(mainWarehouse, 2), stockAt(shop, 6)]);
+
+      const result = await WarehouseService.adjustStock(userId, {
+        productId,
+        warehouseId: shop._id.toString(),
+        quantityChange: -6
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: { code: 'INSUFFICIENT_STOCK', message: 'Insufficient stock for MUG-1. Available: 4, Requested: 6' }
+      });
+    });
+  });
+
+  describe('countStock', () => {
+    it('should place sold stock by counting the location it left from', async () => {
+      const main = stockAt(mainWarehouse, 2);
+      const shopLevel = stockAt(shop, 6);
+      const product = mockStock(4, [main, shopLevel]);
+
+      const result = await WarehouseService.countStock(userId, {
+        productId,
+        counts: [{ warehouseId: shop._id.toString(), quantity: 2 }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.missingQuantity).toBe(0);
+      expect(result.data!.logs).toEqual([
+        expect.objectContaining({ location: 'SHOP', quantityBefore: 6, quantityChange: -4, reason: 'Stock count' })
+      ]);
+      expect([main.quantity, shopLevel.quantity]).toEqual([2, 2]);
+      expect(product.qty).toBe(4);
+    });
+
+    it('should set the product total when the default warehouse is counted', async () => {
+      const main = stockAt(mainWarehouse, 2);
+      const product = mockStock(4, [main, stockAt(shop, 6)]);
+
+      const result = await WarehouseService.countStock(userId, {
+        productId,
+        counts: [{ warehouseId: mainWarehouse._id.toString(), quantity: 0 }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data!.missingQuantity).toBe(0);
+      expect(product.qty).toBe(6);
+      expect(product.save).toHaveBeenCalled();
+    });
+
+    it('should reject negative and repeated counts', async () => {
+      const warehouseId = shop._id.toString();
+
+      expect(await WarehouseService.countStock(userId, { productId, counts: [{ warehouseId, quantity: -1 }] }))
+        .toMatchObject({ success: false, error: { code: 'VALIDATION_ERROR' } });
+      expect(await WarehouseService.countStock(userId, {
+        productId,
+        counts: [{ warehouseId, quantity: 1 }, { warehouseId, quantity: 2 }]
+      })).toMatchObject({ success: false, error: { message: 'Each warehouse can only be counted once' } });
+    });
+  });
+});
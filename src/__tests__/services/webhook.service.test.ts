@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import { Types } from 'mongoose';
+import { WebhookService } from '@/lib/services/WebhookService';
+import WebhookEndpoint from '@/lib/database/models/WebhookEndpoint';
+import WebhookDelivery from '@/lib/database/models/WebhookDelivery';
+import Product from '@/lib/database/models/Product';
+import { SubscriptionLogger } from '@/lib/utils/subscription-logger';
+import { WEBHOOK_EVENTS } from '@/lib/constants/webhook-events';
+
+jest.mock('@/lib/database/connection', () => ({
+  connectDB: jest.fn(),
+  connectToDatabase: jest.fn()
+}));
+
+const userId = new Types.ObjectId().toString();
+
+const mockEndpoint = () => {
+  const endpoint = new WebhookEndpoint({
+    userId,
+    url: 'https://example.com/hooks',
+    events: [WEBHOOK_EVENTS.SALE_CREATED],
+    secret: 'whsec_test'
+  });
+  jest.spyOn(WebhookEndpoint, 'findSubscribed').mockResolvedValue([endpoint]);
+  return endpoint;
+};
+
+const resolveTo = (...addresses: string[]) =>
+  jest.spyOn(dns.promises, 'lookup').mockResolvedValue(
+    addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 })) as any
+  );
+
+const mockResponse = (status: number, body = '') => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: jest.fn().mockResolvedValue(body)
+});
+
+describe('WebhookService', () => {
+  let fetchMock: ReturnType<typeof jest.fn>;
+  let deliveries: any[];
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    resolveTo('93.184.216.34');
+
+    deliveries = [];
+    jest.spyOn(WebhookDelivery, 'create').mockImplementation(async (doc: any) => {
+      const delivery = new WebhookDelivery(doc);
+      deliveries.push(delivery);
+      return delivery as any;
+    });
+    jest.spyOn(WebhookDelivery.prototype, 'save').mockImplementation(function(this: any) {
+      return Promise.resolve(this);
+    });
+    jest.spyOn(WebhookEndpoint, 'updateOne').mockResolvedValue({} as any);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const run = async <T>(promise: Promise<T>): Promise<T> => {
+    await jest.runAllTimersAsync();
+    return promise;
+  };
+
+  it('should sign the timestamped body with the endpoint secret', () => {
+    const body = JSON.stringify({ id: 'evt_1' });
+    const expected = crypto.createHmac('sha256', 'whsec_test').update(`1700000000.${body}`).digest('hex');
+
+    expect(WebhookService.sign('whsec_test', body, 1700000000)).toBe(`t=1700000000,v1=${expected}`);
+  });
+
+  it('should deliver signed payloads to subscribed endpoints', async () => {
+    mockEndpoint();
+    fetchMock.mockResolvedValue(mockResponse(200, 'ok'));
+
+    await run(WebhookService.dispatch(WEBHOOK_EVENTS.SALE_CREATED, { _id: 'sale1', amount: 25 }, userId));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    const timestamp = Number(init.headers['X-Boami-Signature'].match(/^t=(\d+),/)[1]);
+
+    expect(url).toBe('https://example.com/hooks');
+    expect(init.redirect).toBe('manual');
+    expect(init.headers['X-Boami-Event']).toBe(WEBHOOK_EVENTS.SALE_CREATED);
+    expect(init.headers['X-Boami-Signature']).toBe(WebhookService.sign('whsec_test', init.body, timestamp));
+    expect(JSON.parse(init.body)).toMatchObject({ type: WEBHOOK_EVENTS.SALE_CREATED, data: { _id: 'sale1', amount: 25 } });
+    expect(deliveries[0]).toMatchObject({ status: 'succeeded', attempts: 1, responseStatus: 200, responseBody: 'ok' });
+  });
+
+  it('should retry server errors and record the final attempt', async () => {
+    mockEndpoint();
+    fetchMock
+      .mockResolvedValueOnce(mockResponse(500))
+      .mockResolvedValueOnce(mockResponse(503))
+      .mockResolvedValueOnce(mockResponse(200));
+
+    await run(WebhookService.dispatch(WEBHOOK_EVENTS.SALE_CREATED, { _id: 'sale1' }, userId));
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(deliveries[0]).toMatchObject({ status: 'succeeded', attempts: 3, responseStatus: 200 });
+  });
+
+  it('should not retry client errors', async () => {
+    mockEndpoint();
+    fetchMock.mockResolvedValue(mockResponse(410, 'gone'));
+
+    await run(WebhookService.dispatch(WEBHOOK_EVENTS.SALE_CREATED, { _id: 'sale1' }, userId));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(deliveries[0]).toMatchObject({ status: 'failed', attempts: 1, responseStatus: 410, error: 'Endpoint responded with 410' });
+    expect(deliveries[0].responseBody).toBeNull();
+    expect(WebhookEndpoint.updateOne).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ lastDeliveryStatus: 'failed' })
+    );
+  });
+
+  it('should redeliver with the original event id', async () => {
+    const endpoint = mockEndpoint();
+    const original = new WebhookDelivery({
+      userId,
+      endpointId: endpoint._id,
+      event: WEBHOOK_EVENTS.SALE_CREATED,
+      eventId: 'evt_original',
+      payload: { id: 'evt_original', type: WEBHOOK_EVENTS.SALE_CREATED, data: {} },
+      status: 'failed'
+    });
+    jest.spyOn(WebhookDelivery, 'findOne').mockResolvedValue(original);
+    jest.spyOn(WebhookEndpoint, 'findOne').mockReturnValue({ select: jest.fn().mockResolvedValue(endpoint) } as any);
+    fetchMock.mockResolvedValue(mockResponse(200));
+
+    const result = await run(WebhookService.redeliver(userId, String(original._id)));
+
+    expect(result.success).toBe(true);
+    expect(result.delivery).toMatchObject({ eventId: 'evt_original', status: 'succeeded' });
+    expect(String(result.delivery?.redeliveryOf)).toBe(String(original._id));
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).id).toBe('evt_original');
+  });
+
+  it('should reject insecure URLs in production and unknown events', async () => {
+    const count = jest.spyOn(WebhookEndpoint, 'countDocuments').mockResolvedValue(0);
+    const env = process.env as Record<string, string | undefined>;
+    const nodeEnv = env.NODE_ENV;
+    env.NODE_ENV = 'production';
+
+    try {
+      expect(await WebhookService.createEndpoint(userId, { url: 'http://example.com/hooks', events: [WEBHOOK_EVENTS.SALE_CREATED] }))
+        .toMatchObject({ success: false, error: { code: 'VALIDATION_ERROR' } });
+      expect(await WebhookService.createEndpoint(userId, { url: 'https://example.com/hooks', events: ['order.shipped'] }))
+        .toMatchObject({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Unknown event: order.shipped' } });
+    } finally {
+      env.NODE_ENV = nodeEnv;
+    }
+
+    expect(count).not.toHaveBeenCalled();
+  });
+
+  it('should reject endpoints on loopback, private or metadata addresses', async () => {
+    const count = jest.spyOn(WebhookEndpoint, 'countDocuments').mockResolvedValue(0);
+    const create = (url: string) => WebhookService.createEndpoint(userId, { url, events: [WEBHOOK_EVENTS.SALE_CREATED] });
+
+    for (const address of ['127.0.0.1', '10.1.2.3', '169.254.169.254', '::1', 'fd00:ec2::254', '::ffff:192.168.1.1']) {
+      resolveTo(address);
+      expect(await create('https://hooks.example.com/boami'))
+        .toMatchObject({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Endpoint URL must point to a public address' } });
+    }
+
+    // Any private address among the host's records is enough to refuse it
+    resolveTo('93.184.216.34', '192.168.0.10');
+    expect(await create('https://hooks.example.com/boami')).toMatchObject({ success: false });
+
+    jest.spyOn(dns.promises, 'lookup').mockRejectedValue(new Error('ENOTFOUND'));
+    expect(await create('https://missing.example.com/boami'))
+      .toMatchObject({ success: false, error: { message: 'Endpoint host could not be resolved' } });
+
+    expect(count).not.toHaveBeenCalled();
+  });
+
+  it('should not deliver once the host resolves to a private address', async () => {
+    mockEndpoint();
+    resolveTo('127.0.0.1');
+
+    await run(WebhookService.dispatch(WEBHOOK_EVENTS.SALE_CREATED, { _id: 'sale1' }, userId));
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(deliveries[0]).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      responseStatus: null,
+      error: 'Endpoint URL must point to a public address'
+    });
+  });
+});
+
+describe('Product webhooks', () => {
+  let dispatch: ReturnType<typeof jest.spyOn>;
+
+  // Events are sent after a lazy import of the webhook service
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    dispatch = jest.spyOn(WebhookService, 'dispatchInBackground').mockImplementation(() => {});
+    jest.spyOn(SubscriptionLogger, 'logChangeActivity').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should raise created, updated and deleted events from any write', async () => {
+    const product = new Product({ title: 'Mug', description: 'Blue mug', price: 10, category: ['Kitchen'], photo: 'mug.png', sku: 'MUG-1' });
+    const stored = { ...product.toObject(), qty: 4 };
+    jest.spyOn(Product.collection, 'insertOne').mockResolvedValue({ acknowledged: true, insertedId: product._id } as any);
+    jest.spyOn(Product.collection, 'updateOne').mockResolvedValue({ acknowledged: true, matchedCount: 1, modifiedCount: 1 } as any);
+    jest.spyOn(Product.collection, 'findOne').mockResolvedValue(stored as any);
+    jest.spyOn(Product.collection, 'findOneAndDelete').mockResolvedValue(stored as any);
+
+    await product.save();
+    await Product.updateOne({ _id: product._id }, { $set: { qty: 4 } });
+    await Product.findOneAndDelete({ _id: product._id });
+    await flush();
+
+    expect(dispatch.mock.calls.map(([event]: unknown[]) => event)).toEqual([
+      WEBHOOK_EVENTS.PRODUCT_CREATED,
+      WEBHOOK_EVENTS.PRODUCT_UPDATED,
+      WEBHOOK_EVENTS.PRODUCT_DELETED
+    ]);
+    expect(dispatch.mock.calls[1][1]).toMatchObject({ _id: String(product._id), qty: 4 });
+  });
+
+  it('should not raise an event when nothing changed', async () => {
+    jest.spyOn(Product.collection, 'updateOne').mockResolvedValue({ acknowledged: true, matchedCount: 1, modifiedCount: 0 } as any);
+    jest.spyOn(Product.collection, 'findOne').mockResolvedValue(null);
+
+    await Product.updateOne({ _id: new Types.ObjectId() }, { $set: { qty: 4 } });
+    await flush();
+
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+});
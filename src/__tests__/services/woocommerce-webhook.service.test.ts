@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+import { verifyWebhookSignature } from '@/lib/services/WooCommerceWebhookService';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn() }));
+
+describe('verifyWebhookSignature', () => {
+  const secret = 'whsec_test';
+  const payload = JSON.stringify({ id: 42, stock_quantity: 7, date_modified_gmt: '2025-03-01T10:15:00' });
+  const sign = (body: string, key: string) => crypto.createHmac('sha256', key).update(body, 'utf8').digest('base64');
+
+  it('accepts the base64 HMAC-SHA256 WooCommerce sends', () => {
+    expect(verifyWebhookSignature(payload, sign(payload, secret), secret)).toBe(true);
+  });
+
+  it('rejects signatures made with another secret', () => {
+    expect(verifyWebhookSignature(payload, sign(payload, 'other'), secret)).toBe(false);
+  });
+
+  it('rejects a payload changed after signing', () => {
+    const signature = sign(payload, secret);
+
+    expect(verifyWebhookSignature(payload.replace('7', '70'), signature, secret)).toBe(false);
+    expect(verifyWebhookSignature(payload, 'not-a-signature', secret)).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+import { Types } from 'mongoose';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import Workspace from '@/lib/database/models/Workspace';
+import { User } from '@/lib/database/models/User';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn(), connectToDatabase: jest.fn() }));
+
+const ownerId = new Types.ObjectId().toString();
+const memberId = new Types.ObjectId().toString();
+const staffRole = new Types.ObjectId();
+
+const workspace = () => new Workspace({
+  name: 'Acme Ltd',
+  ownerId,
+  members: [{ userId: memberId, role: staffRole, joinedAt: new Date() }]
+});
+
+const mockUser = (activeWorkspace: Types.ObjectId | null) => {
+  jest.spyOn(User, 'findById').mockReturnValue({
+    select: jest.fn().mockResolvedValue({ _id: memberId, firstName: 'Sam', activeWorkspace })
+  } as any);
+  return jest.spyOn(User, 'updateOne').mockResolvedValue({} as any);
+};
+
+describe('WorkspaceService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('gives members the workspace role and the owner their own', () => {
+    const acme = workspace();
+
+    expect(acme.hasMember(memberId)).toBe(true);
+    expect(acme.hasMember(ownerId)).toBe(true);
+    expect(acme.hasMember(new Types.ObjectId().toString())).toBe(false);
+    expect(acme.getMemberRole(memberId)).toEqual(staffRole);
+    expect(acme.getMemberRole(ownerId)).toBeNull();
+  });
+
+  it("scopes a member's records to the active workspace owner", async () => {
+    const acme = workspace();
+    const updateOne = mockUser(acme._id as Types.ObjectId);
+    jest.spyOn(Workspace, 'findById').mockResolvedValue(acme);
+
+    await expect(WorkspaceService.getScopeUserId(memberId)).resolves.toBe(ownerId);
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a joined workspace when the active one was left', async () => {
+    const acme = workspace();
+    const updateOne = mockUser(new Types.ObjectId());
+    jest.spyOn(Workspace, 'findById').mockResolvedValue(null);
+    jest.spyOn(Workspace, 'findForUser').mockResolvedValue([acme]);
+
+    await expect(WorkspaceService.getScopeUserId(memberId)).resolves.toBe(ownerId);
+    expect(updateOne).toHaveBeenCalledWith({ _id: memberId }, { activeWorkspace: acme._id });
+  });
+
+  it('refuses to switch to a workspace the user does not belong to', async () => {
+    const updateOne = jest.spyOn(User, 'updateOne').mockResolvedValue({} as any);
+    jest.spyOn(Workspace, 'findById').mockResolvedValue(workspace());
+
+    const result = await WorkspaceService.switchWorkspace(new Types.ObjectId().toString(), new Types.ObjectId().toString());
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('NOT_FOUND');
+    expect(updateOne).not.toHaveBeenCalled();
+  });
+});
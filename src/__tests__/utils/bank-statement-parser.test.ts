@@ -0,0 +1,109 @@
+import {
+  detectDateOrder,
+  detectStatementFormat,
+  parseBankStatement,
+  parseStatementDate
+} from '@/lib/utils/bank-statement-parser';
+import { BankReconciliationService } from '@/lib/services/BankReconciliationService';
+
+jest.mock('@/lib/database/connection', () => ({ connectDB: jest.fn(), connectToDatabase: jest.fn() }));
+
+const ymd = (date: Date | null) => date && [date.getFullYear(), date.getMonth() + 1, date.getDate()].join('-');
+
+describe('bank statement parser', () => {
+  it('detects the format from the extension or content', () => {
+    expect(detectStatementFormat('march.qfx', '')).toBe('ofx');
+    expect(detectStatementFormat('export.txt', '!Type:Bank\n')).toBe('qif');
+    expect(detectStatementFormat('export.txt', 'Date,Amount')).toBe('csv');
+  });
+
+  it('parses dates in the formats banks export', () => {
+    expect(ymd(parseStatementDate('2025-03-14'))).toBe('2025-3-14');
+    expect(ymd(parseStatementDate('20250314120000[-5:EST]'))).toBe('2025-3-14');
+    expect(ymd(parseStatementDate('03/04/2025', 'DMY'))).toBe('2025-4-3');
+    expect(ymd(parseStatementDate('03/04/2025', 'MDY'))).toBe('2025-3-4');
+    expect(ymd(parseStatementDate("3/14'25", 'MDY'))).toBe('2025-3-14');
+    expect(ymd(parseStatementDate('14 Mar 2025'))).toBe('2025-3-14');
+    expect(parseStatementDate('31/02/2025')).toBeNull();
+  });
+
+  it('infers the date order from an unambiguous value', () => {
+    expect(detectDateOrder(['01/02/2025', '03/25/2025'])).toBe('MDY');
+    expect(detectDateOrder(['01/02/2025', '25/03/2025'])).toBe('DMY');
+    expect(detectDateOrder(['01/02/2025'], 'MDY')).toBe('MDY');
+  });
+
+  it('reads CSV statements with separate debit and credit columns', () => {
+    const statement = parseBankStatement([
+      'Transaction Date,Details,Debit Amount,Credit Amount,Balance',
+      '14/03/2025,ACME LTD INV-1001,,"1,250.00",2250.00',
+      '15/03/2025,OFFICE DEPOT,45.99,,2204.01',
+      'not a date,BROKEN,1.00,,'
+    ].join('\n'), { fileName: 'statement.csv' });
+
+    expect(statement.lines).toEqual([
+      expect.objectContaining({ amount: 1250, description: 'ACME LTD INV-1001', balance: 2250 }),
+      expect.objectContaining({ amount: -45.99, description: 'OFFICE DEPOT' })
+    ]);
+    expect(statement.errors).toEqual([{ line: 4, message: 'Invalid date "not a date"' }]);
+  });
+
+  it('reads signed and DR/CR amounts', () => {
+    const statement = parseBankStatement('Date,Description,Amount\n2025-03-01,Rent,500.00 DR\n2025-03-02,Refund,-20');
+
+    expect(statement.lines.map(line => line.amount)).toEqual([-500, -20]);
+  });
+
+  it('reads SGML OFX transactions', () => {
+    const statement = parseBankStatement([
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>usd',
+      '<BANKACCTFROM><ACCTID>123456789</BANKACCTFROM>',
+      '<BANKTRANLIST>',
+      '<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250305<TRNAMT>-12.50<FITID>T1<NAME>COFFEE SHOP<MEMO>Card 1234</STMTTRN>',
+      '<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250306<TRNAMT>300<FITID>T2<NAME>CLIENT</STMTTRN>',
+      '</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>'
+    ].join('\n'), { fileName: 'bank.ofx' });
+
+    expect(statement.currency).toBe('USD');
+    expect(statement.accountNumber).toBe('123456789');
+    expect(statement.lines).toEqual([
+      expect.objectContaining({ amount: -12.5, description: 'COFFEE SHOP - Card 1234', reference: 'T1' }),
+      expect.objectContaining({ amount: 300, description: 'CLIENT', reference: 'T2' })
+    ]);
+  });
+
+  it('reads QIF records', () => {
+    const statement = parseBankStatement("!Type:Bank\nD 3/ 4'25\nT-1,000.00\nPLANDLORD\nN101\n^\nD3/5'25\nPNO AMOUNT\n^\n", {
+      fileName: 'bank.qif'
+    });
+
+    expect(statement.lines).toEqual([
+      expect.objectContaining({ amount: -1000, description: 'LANDLORD', reference: '101' })
+    ]);
+    expect(ymd(statement.lines[0].date)).toBe('2025-3-4');
+    expect(statement.errors).toHaveLength(1);
+  });
+});
+
+describe('BankReconciliationService matching', () => {
+  const line = { date: new Date(2025, 2, 14), description: 'ACME LTD INV-1001 TRANSFER' };
+
+  it('scores same-day records with matching descriptions highest', () => {
+    const candidate = { type: 'income' as const, recordId: 'a', amount: 1250, description: 'Acme invoice INV-1001', date: new Date(2025, 2, 14) };
+
+    expect(BankReconciliationService.scoreCandidate(line, candidate)).toBe(0.9);
+    expect(BankReconciliationService.scoreCandidate(line, { ...candidate, date: new Date(2025, 2, 17) }))
+      .toBeLessThan(BankReconciliationService.scoreCandidate(line, { ...candidate, date: new Date(2025, 2, 15) }));
+    expect(BankReconciliationService.scoreCandidate(line, { ...candidate, description: 'Consulting' })).toBe(0.6);
+  });
+
+  it('fingerprints repeated identical transactions separately', () => {
+    const coffee = { date: new Date(2025, 2, 14), amount: -4.5, description: 'COFFEE' };
+    const [first, second] = BankReconciliationService.fingerprintLines('Checking', [coffee, coffee]);
+    const [again] = BankReconciliationService.fingerprintLines('Checking', [coffee]);
+
+    expect(first).not.toBe(second);
+    expect(again).toBe(first);
+  });
+});
@@ -0,0 +1,51 @@
+import {
+  MAX_ATTACHMENT_SIZE,
+  validateAttachmentFile,
+  isChatAttachmentUrl,
+  formatFileSize
+} from '@/lib/utils/file-upload';
+
+describe('file-upload utilities', () => {
+  describe('validateAttachmentFile', () => {
+    it('should accept images and documents', () => {
+      expect(validateAttachmentFile({ type: 'image/png', size: 1024 }).valid).toBe(true);
+      expect(validateAttachmentFile({ type: 'application/pdf', size: 1024 }).valid).toBe(true);
+      expect(validateAttachmentFile({ type: 'text/csv', size: 1024 }).valid).toBe(true);
+    });
+
+    it('should reject unsupported file types', () => {
+      const result = validateAttachmentFile({ type: 'application/x-msdownload', size: 1024 });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Invalid file type');
+    });
+
+    it('should reject files over the size limit', () => {
+      const result = validateAttachmentFile({ type: 'application/pdf', size: MAX_ATTACHMENT_SIZE + 1 });
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('File too large');
+    });
+  });
+
+  describe('isChatAttachmentUrl', () => {
+    it('should only accept URLs under the chat upload path', () => {
+      expect(isChatAttachmentUrl('/uploads/chat/chat-123-abc.pdf')).toBe(true);
+      expect(isChatAttachmentUrl('/uploads/products/product-1.png')).toBe(false);
+      expect(isChatAttachmentUrl('https://example.com/file.pdf')).toBe(false);
+    });
+
+    it('should reject path traversal and empty values', () => {
+      expect(isChatAttachmentUrl('/uploads/chat/../../.env')).toBe(false);
+      expect(isChatAttachmentUrl(null)).toBe(false);
+      expect(isChatAttachmentUrl('')).toBe(false);
+    });
+  });
+
+  describe('formatFileSize', () => {
+    it('should format byte counts', () => {
+      expect(formatFileSize(0)).toBe('0 Bytes');
+      expect(formatFileSize(2048)).toBe('2 KB');
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  applyImportTransform,
+  getMissingRequiredFields,
+  mapImportRow,
+  parseAttributes,
+  parseBooleanFlag,
+  parseCurrency,
+  suggestFieldMapping
+} from '@/lib/utils/product-import-mapping';
+
+describe('suggestFieldMapping', () => {
+  it('matches supplier headers to product fields by name similarity', () => {
+    const suggestions = suggestFieldMapping(['Item Name', 'Unit Price', 'Product Code', 'Qty On Hand', 'Image URL', 'Notes']);
+    const mapping = Object.fromEntries(suggestions.map(suggestion => [suggestion.header, suggestion.field]));
+
+    expect(mapping).toEqual({
+      'Item Name': 'title',
+      'Unit Price': 'price',
+      'Product Code': 'sku',
+      'Qty On Hand': 'qty',
+      'Image URL': 'photo'
+    });
+  });
+
+  it('suggests each field for one column only', () => {
+    const suggestions = suggestFieldMapping(['Price', 'price ']);
+
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ header: 'Price', field: 'price', score: 1 });
+  });
+});
+
+describe('value transforms', () => {
+  it('parses currency strings in either separator style', () => {
+    expect(parseCurrency('$1,299.99')).toBe(1299.99);
+    expect(parseCurrency('1.299,99 €')).toBe(1299.99);
+    expect(parseCurrency('GHS 45')).toBe(45);
+    expect(parseCurrency('(12.50)')).toBe(-12.5);
+    expect(parseCurrency('n/a')).toBeNull();
+  });
+
+  it('parses yes/no flags', () => {
+    expect(parseBooleanFlag('Yes')).toBe(true);
+    expect(parseBooleanFlag('n')).toBe(false);
+    expect(parseBooleanFlag('maybe')).toBeNull();
+  });
+
+  it('splits lists and variant attributes', () => {
+    expect(applyImportTransform('summer, sale ;new', 'list')).toEqual({ value: ['summer', 'sale', 'new'] });
+    expect(parseAttributes('Color: Red; Size=L')).toEqual([
+      { name: 'Color', value: 'Red' },
+      { name: 'Size', value: 'L' }
+    ]);
+    expect(applyImportTransform('Red', 'attributes').error).toBeDefined();
+  });
+});
+
+describe('mapImportRow', () => {
+  const mapping = {
+    'Name': 'title',
+    'Details': 'description',
+    'Cost': 'price',
+    'Cats': 'category',
+    'Image': 'photo',
+    'Featured?': 'featured'
+  };
+
+  it('applies field defaults and per-column transforms', () => {
+    const mapped = mapImportRow(
+      { Name: ' Mug ', Details: 'Ceramic', Cost: '$12.00', Cats: 'Kitchen', Image: 'https://x.test/mug.jpg', 'Featured?': 'Y' },
+      mapping,
+      { Cats: 'text' }
+    );
+
+    expect(mapped.errors).toEqual([]);
+    expect(mapped.product).toEqual({
+      title: 'Mug',
+      description: 'Ceramic',
+      price: 12,
+      category: 'Kitchen',
+      photo: 'https://x.test/mug.jpg',
+      featured: true
+    });
+    expect(getMissingRequiredFields(mapped)).toEqual([]);
+  });
+
+  it('reports values that cannot be converted and missing required fields', () => {
+    const mapped = mapImportRow({ Name: 'Mug', Cost: 'free', 'Featured?': 'sometimes' }, mapping);
+
+    expect(mapped.errors).toEqual([
+      'Price: "free" is not a valid amount',
+      'Featured: "sometimes" is not a yes/no value'
+    ]);
+    expect(getMissingRequiredFields(mapped)).toEqual(['Description', 'Price', 'Category', 'Photo URL']);
+  });
+
+  it('treats rows with a parent SKU as variants', () => {
+    const mapped = mapImportRow(
+      { Parent: 'mug-1', SKU: 'mug-1-red', Options: 'Color: Red', Price: '14' },
+      { Parent: 'parentSku', SKU: 'variantSku', Options: 'variantAttributes', Price: 'variantPrice' }
+    );
+
+    expect(mapped.parentSku).toBe('MUG-1');
+    expect(mapped.variant).toEqual({
+      variantSku: 'mug-1-red',
+      variantAttributes: [{ name: 'Color', value: 'Red' }],
+      variantPrice: 14
+    });
+    expect(getMissingRequiredFields(mapped)).toEqual([]);
+  });
+});
@@ -0,0 +1,108 @@
+import axios from 'axios';
+import { WordPressAPI, parseWooCommerceDate } from '@/lib/utils/wordpress-api';
+
+jest.mock('axios');
+
+const mockClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+  interceptors: { response: { use: jest.fn() } },
+  defaults: {}
+};
+
+jest.mocked(axios.create).mockReturnValue(mockClient as any);
+
+const buildApi = () => new WordPressAPI({
+  siteUrl: 'https://store.example.com/',
+  consumerKey: 'ck_test',
+  consumerSecret: 'cs_test',
+  version: 'wc/v3',
+  isWooCommerce: true,
+  isActive: true
+});
+
+describe('WordPressAPI outbound updates', () => {
+  beforeEach(() => {
+    mockClient.get.mockReset();
+    mockClient.post.mockReset();
+  });
+
+  it('sends stock updates through the batch endpoint and maps per-item results', async () => {
+    mockClient.post.mockResolvedValue({
+      data: {
+        update: [
+          { id: 11, date_modified_gmt: '2025-03-01T10:15:00' },
+          { id: 12, error: { code: 'woocommerce_rest_product_invalid_id', message: 'Invalid ID.' } }
+        ]
+      }
+    });
+
+    const results = await buildApi().batchUpdateProducts([
+      { id: 11, manage_stock: true, stock_quantity: 4, stock_status: 'instock' },
+      { id: 12, manage_stock: true, stock_quantity: 0, stock_status: 'outofstock' }
+    ]);
+
+    expect(mockClient.post).toHaveBeenCalledWith('/products/batch', {
+      update: expect.arrayContaining([expect.objectContaining({ id: 11, stock_quantity: 4 })])
+    });
+    expect(results).toEqual([
+      { id: 11, success: true, dateModified: new Date('2025-03-01T10:15:00Z') },
+      { id: 12, success: false, error: 'Invalid ID.' }
+    ]);
+  });
+
+  it('targets the parent product when updating variations', async () => {
+    mockClient.post.mockResolvedValue({ data: { update: [{ id: 31, date_modified_gmt: '2025-03-01T10:15:00' }] } });
+
+    await buildApi().batchUpdateVariations(30, [{ id: 31, stock_quantity: 2 }]);
+
+    expect(mockClient.post).toHaveBeenCalledWith('/products/30/variations/batch', { update: [{ id: 31, stock_quantity: 2 }] });
+  });
+
+  it('rejects batches larger than WooCommerce allows', async () => {
+    const updates = Array.from({ length: 101 }, (_, index) => ({ id: index + 1 }));
+
+    await expect(buildApi().batchUpdateProducts(updates)).rejects.toThrow('limited to 100 items');
+    expect(mockClient.post).not.toHaveBeenCalled();
+  });
+});
+
+describe('parseWooCommerceDate', () => {
+  it('treats GMT timestamps without a suffix as UTC', () => {
+    expect(parseWooCommerceDate('2025-03-01T10:15:00')?.toISOString()).toBe('2025-03-01T10:15:00.000Z');
+    expect(parseWooCommerceDate('2025-03-01T10:15:00Z')?.toISOString()).toBe('2025-03-01T10:15:00.000Z');
+  });
+
+  it('returns undefined for missing or invalid values', () => {
+    expect(parseWooCommerceDate(undefined)).toBeUndefined();
+    expect(parseWooCommerceDate('not a date')).toBeUndefined();
+  });
+});
+
+describe('WordPressAPI.getOrders', () => {
+  beforeEach(() => {
+    mockClient.get.mockReset();
+  });
+
+  it('fetches orders oldest first and reads paging headers', async () => {
+    mockClient.get.mockResolvedValue({
+      data: [{ id: 101 }, { id: 102 }],
+      headers: { 'x-wp-total': '52', 'x-wp-totalpages': '2' }
+    });
+
+    const result = await buildApi().getOrders({ status: 'processing,completed', after: '2025-03-01T00:00:00.000Z', dates_are_gmt: true });
+
+    expect(mockClient.get).toHaveBeenCalledWith('/orders', {
+      params: {
+        per_page: 50,
+        page: 1,
+        orderby: 'date',
+        order: 'asc',
+        status: 'processing,completed',
+        after: '2025-03-01T00:00:00.000Z',
+        dates_are_gmt: true
+      }
+    });
+    expect(result).toEqual({ orders: [{ id: 101 }, { id: 102 }], total: 52, totalPages: 2, currentPage: 1 });
+  });
+});
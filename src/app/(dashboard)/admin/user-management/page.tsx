@@ -400,7 +400,7 @@ export default function UserManagementPage() {
     }
   };
 
-  const handleUpdateRole = async (roleId: string, updates: { name?: string; description?: string; permissions?: string[] }) => {
+  const handleUpdateRole = async (roleId: string, updates: { name?: string; description?: string; permissions?: string[]; requireTwoFactor?: boolean }) => {
     try {
       setOperationLoading(true);
       clearError();
@@ -55,6 +55,9 @@ interface SimpleExportOptions {
     end: Date | null;
   };
   category?: string;
+  status?: string;
+  sku?: string;
+  vendorId?: string;
 }
 
 
@@ -125,6 +128,9 @@ const BulkExportPage = () => {
             end: options.dateRange.end.toISOString(),
           } : undefined,
           category: options.category,
+          status: options.status,
+          sku: options.sku,
+          vendorId: options.vendorId,
         }),
       });
 
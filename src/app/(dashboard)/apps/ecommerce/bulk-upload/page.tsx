@@ -1,14 +1,16 @@
 'use client';
 
-import { useState } from 'react';
-import { Grid, Box, Typography, Button, Card, CardContent, Stepper, Step, StepLabel, Alert } from '@mui/material';
-import { IconUpload, IconDownload, IconFile, IconCheck } from '@tabler/icons-react';
+import { useCallback, useState } from 'react';
+import { Grid, Box, Typography, Button, Card, CardContent, Stepper, Step, StepLabel, Alert, FormControlLabel, Switch, CircularProgress } from '@mui/material';
+import { IconUpload, IconDownload, IconFile, IconCheck, IconArrowBackUp } from '@tabler/icons-react';
 import PageContainer from '@/app/components/container/PageContainer';
 import Breadcrumb from '@/app/(dashboard)/layout/shared/breadcrumb/Breadcrumb';
 import BlankCard from '@/app/components/shared/BlankCard';
 import BulkUploadDropzone from '@/app/components/apps/ecommerce/bulkUpload/BulkUploadDropzone';
 import ImportProgressTracker from '@/app/components/apps/ecommerce/bulkUpload/ImportProgressTracker';
 import FieldMappingTable from '@/app/components/apps/ecommerce/bulkUpload/FieldMappingTable';
+import ImportDryRunPreview, { DryRunResult } from '@/app/components/apps/ecommerce/bulkUpload/ImportDryRunPreview';
+import { ProductImportMapping, ProductImportTransforms } from '@/lib/utils/product-import-mapping';
 
 const BCrumb = [
   {
@@ -23,7 +25,7 @@ const BCrumb = [
 const steps = [
   'Upload File',
   'Map Fields',
-  'Validate Data',
+  'Preview Import',
   'Import Products',
 ];
 
@@ -63,10 +65,17 @@ const BulkUploadPage = () => {
   const [activeStep, setActiveStep] = useState(0);
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [parsedData, setParsedData] = useState<ParsedData | null>(null);
-  const [fieldMapping, setFieldMapping] = useState<{ [key: string]: string }>({});
+  const [fieldMapping, setFieldMapping] = useState<ProductImportMapping>({});
+  const [transforms, setTransforms] = useState<ProductImportTransforms>({});
+  const [profileId, setProfileId] = useState<string | undefined>();
+  const [updateExisting, setUpdateExisting] = useState(false);
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+  const [dryRunError, setDryRunError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [importJob, setImportJob] = useState<ImportJob | null>(null);
-  const [validationErrors, setValidationErrors] = useState<any[]>([]);
   const [isImporting, setIsImporting] = useState(false);
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const [rollbackResult, setRollbackResult] = useState<{ severity: 'info' | 'warning' | 'error'; message: string } | null>(null);
 
   const handleFileUpload = (file: File, data: ParsedData) => {
     setUploadedFile(file);
@@ -74,19 +83,62 @@ const BulkUploadPage = () => {
     setActiveStep(1);
   };
 
-  const handleFieldMapping = (mapping: { [key: string]: string }) => {
+  const handleFieldMapping = useCallback((
+    mapping: ProductImportMapping,
+    columnTransforms: ProductImportTransforms,
+    selectedProfileId?: string
+  ) => {
     setFieldMapping(mapping);
+    setTransforms(columnTransforms);
+    setProfileId(selectedProfileId);
+  }, []);
+
+  const runDryRun = async (update: boolean = updateExisting) => {
+    if (!parsedData) return;
+
+    setIsPreviewing(true);
+    setDryRunError(null);
+
+    try {
+      const response = await fetch('/api/bulk-upload/import', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          data: parsedData.data,
+          fieldMapping,
+          transforms,
+          options: {
+            updateExisting: update,
+            dryRun: true,
+          },
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || result.message || `HTTP ${response.status}`);
+      }
+
+      setDryRun(result.results);
+    } catch (error) {
+      console.error('Dry run error:', error);
+      setDryRun(null);
+      setDryRunError(error instanceof Error ? error.message : 'Failed to preview import');
+    } finally {
+      setIsPreviewing(false);
+    }
   };
 
-  const handleProceedToValidation = () => {
+  const handleProceedToPreview = () => {
     setActiveStep(2);
+    runDryRun();
   };
 
-  const handleValidation = (errors: any[]) => {
-    setValidationErrors(errors);
-    if (errors.length === 0) {
-      setActiveStep(3);
-    }
+  const handleUpdateExistingChange = (checked: boolean) => {
+    setUpdateExisting(checked);
+    runDryRun(checked);
   };
 
   const handleImport = async () => {
@@ -128,8 +180,10 @@ const BulkUploadPage = () => {
         body: JSON.stringify({
           data: parsedData.data,
           fieldMapping,
+          transforms,
+          profileId,
           options: {
-            updateExisting: false,
+            updateExisting,
             createCategories: true,
             skipInvalidRows: true,
           },
@@ -151,6 +205,7 @@ const BulkUploadPage = () => {
         // Update job with real results
         setImportJob(prev => prev ? {
           ...prev,
+          id: result.results.jobId || prev.id,
           status: 'completed',
           progress: {
             totalRows: result.results.totalRows,
@@ -197,13 +252,46 @@ const BulkUploadPage = () => {
     }
   };
 
+  const handleRollback = async () => {
+    if (!importJob) return;
+    if (!window.confirm('Undo this import? Created products will be deleted and updated products restored.')) return;
+
+    setIsRollingBack(true);
+    try {
+      const response = await fetch(`/api/bulk-upload/import/${importJob.id}/rollback`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to undo import');
+      }
+
+      const { deleted, restored, failures } = result.data;
+      setRollbackResult({
+        severity: failures.length > 0 ? 'warning' : 'info',
+        message: `Import undone: ${deleted} record(s) deleted, ${restored} restored.${failures.length > 0 ? ` ${failures.join('; ')}` : ''}`,
+      });
+    } catch (error) {
+      setRollbackResult({
+        severity: 'error',
+        message: error instanceof Error ? error.message : 'Failed to undo import',
+      });
+    } finally {
+      setIsRollingBack(false);
+    }
+  };
+
   const handleReset = () => {
     setActiveStep(0);
     setUploadedFile(null);
     setParsedData(null);
     setFieldMapping({});
+    setTransforms({});
+    setProfileId(undefined);
+    setUpdateExisting(false);
+    setDryRun(null);
+    setDryRunError(null);
     setImportJob(null);
-    setValidationErrors([]);
+    setRollbackResult(null);
     setIsImporting(false);
   };
 
@@ -286,7 +374,7 @@ const BulkUploadPage = () => {
                 headers={parsedData.headers}
                 previewData={parsedData.previewData}
                 onMappingChange={handleFieldMapping}
-                onProceed={handleProceedToValidation}
+                onProceed={handleProceedToPreview}
               />
             </CardContent>
           </BlankCard>
@@ -296,38 +384,71 @@ const BulkUploadPage = () => {
           <BlankCard>
             <CardContent>
               <Typography variant="h5" mb={3}>
-                Validate Data
+                Preview Import
               </Typography>
               <Typography variant="body2" color="text.secondary" mb={3}>
-                Review your data for any validation errors before importing.
+                A dry run of your file with the current mapping. Nothing is saved until you start the import.
               </Typography>
-              
-              {validationErrors.length > 0 ? (
-                <Box>
-                  <Alert severity="error" sx={{ mb: 2 }}>
-                    Found {validationErrors.length} validation errors. Please fix them before proceeding.
-                  </Alert>
-                  {/* Add validation error display here */}
+
+              <Box display="flex" alignItems="center" gap={2} mb={3}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={updateExisting}
+                      onChange={(e) => handleUpdateExistingChange(e.target.checked)}
+                      disabled={isPreviewing}
+                    />
+                  }
+                  label="Update products that already exist"
+                />
+                <Button variant="text" onClick={() => setActiveStep(1)}>
+                  Back to Mapping
+                </Button>
+              </Box>
+
+              {isPreviewing && (
+                <Box display="flex" alignItems="center" gap={2} mb={3}>
+                  <CircularProgress size={24} />
+                  <Typography>Running dry run...</Typography>
                 </Box>
-              ) : (
+              )}
+
+              {dryRunError && (
+                <Alert severity="error" sx={{ mb: 2 }}>
+                  {dryRunError}
+                </Alert>
+              )}
+
+              {dryRun && !isPreviewing && (
                 <Box>
-                  <Alert severity="success" sx={{ mb: 2 }}>
-                    <Box display="flex" alignItems="center" gap={1}>
-                      <IconCheck size={20} />
-                      <Typography>
-                        All data validated successfully! Ready to import {parsedData.totalRows} products.
-                      </Typography>
-                    </Box>
-                  </Alert>
-                  <Button
-                    variant="contained"
-                    onClick={handleImport}
-                    startIcon={<IconUpload />}
-                    size="large"
-                    disabled={isImporting}
-                  >
-                    {isImporting ? 'Starting Import...' : 'Start Import'}
-                  </Button>
+                  {dryRun.failed === 0 ? (
+                    <Alert severity="success" sx={{ mb: 2 }}>
+                      <Box display="flex" alignItems="center" gap={1}>
+                        <IconCheck size={20} />
+                        <Typography>
+                          All {parsedData.totalRows} rows can be imported.
+                        </Typography>
+                      </Box>
+                    </Alert>
+                  ) : (
+                    <Alert severity="warning" sx={{ mb: 2 }}>
+                      {dryRun.failed} rows have errors and will not be imported. Fix the file or the mapping to include them.
+                    </Alert>
+                  )}
+
+                  <ImportDryRunPreview result={dryRun} />
+
+                  <Box mt={3}>
+                    <Button
+                      variant="contained"
+                      onClick={handleImport}
+                      startIcon={<IconUpload />}
+                      size="large"
+                      disabled={isImporting || dryRun.created + dryRun.updated === 0}
+                    >
+                      {isImporting ? 'Starting Import...' : 'Start Import'}
+                    </Button>
+                  </Box>
                 </Box>
               )}
             </CardContent>
@@ -342,8 +463,14 @@ const BulkUploadPage = () => {
               </Typography>
               <ImportProgressTracker importJob={importJob} />
               
+              {rollbackResult && (
+                <Alert severity={rollbackResult.severity} sx={{ mt: 3 }}>
+                  {rollbackResult.message}
+                </Alert>
+              )}
+
               {importJob.status === 'completed' && (
-                <Box mt={3}>
+                <Box mt={3} display="flex" gap={2}>
                   <Button
                     variant="contained"
                     onClick={handleReset}
@@ -351,6 +478,15 @@ const BulkUploadPage = () => {
                   >
                     Import Another File
                   </Button>
+                  <Button
+                    variant="outlined"
+                    color="error"
+                    onClick={handleRollback}
+                    disabled={isRollingBack || (!!rollbackResult && rollbackResult.severity !== 'error')}
+                    startIcon={isRollingBack ? <CircularProgress size={16} /> : <IconArrowBackUp />}
+                  >
+                    {isRollingBack ? 'Undoing...' : 'Undo Import'}
+                  </Button>
                 </Box>
               )}
             </CardContent>
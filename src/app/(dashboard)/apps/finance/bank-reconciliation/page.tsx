@@ -0,0 +1,27 @@
+'use client';
+
+import React from 'react';
+import Breadcrumb from "@/app/(dashboard)/layout/shared/breadcrumb/Breadcrumb";
+import PageContainer from "@/app/components/container/PageContainer";
+import { BankReconciliation } from '@/app/components/apps/finance/bank';
+
+const BCrumb = [
+  {
+    to: "/",
+    title: "Home",
+  },
+  {
+    title: "Bank Reconciliation",
+  },
+];
+
+const BankReconciliationPage = () => {
+  return (
+    <PageContainer title="Bank Reconciliation" description="Match bank statements against your income and expenses">
+      <Breadcrumb title="Bank Reconciliation" items={BCrumb} />
+      <BankReconciliation />
+    </PageContainer>
+  );
+};
+
+export default BankReconciliationPage;
\ No newline at end of file
@@ -0,0 +1,27 @@
+'use client';
+
+import React from 'react';
+import Breadcrumb from "@/app/(dashboard)/layout/shared/breadcrumb/Breadcrumb";
+import PageContainer from "@/app/components/container/PageContainer";
+import { CategorizationRules } from '@/app/components/apps/finance/rules';
+
+const BCrumb = [
+  {
+    to: "/",
+    title: "Home",
+  },
+  {
+    title: "Categorization Rules",
+  },
+];
+
+const CategorizationRulesPage = () => {
+  return (
+    <PageContainer title="Categorization Rules" description="Assign categories and vendors to income and expenses automatically">
+      <Breadcrumb title="Categorization Rules" items={BCrumb} />
+      <CategorizationRules />
+    </PageContainer>
+  );
+};
+
+export default CategorizationRulesPage;
\ No newline at end of file
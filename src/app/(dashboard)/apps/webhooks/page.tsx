@@ -0,0 +1,27 @@
+'use client';
+
+import React from 'react';
+import Breadcrumb from "@/app/(dashboard)/layout/shared/breadcrumb/Breadcrumb";
+import PageContainer from "@/app/components/container/PageContainer";
+import { WebhookEndpoints } from '@/app/components/apps/webhooks';
+
+const BCrumb = [
+  {
+    to: "/",
+    title: "Home",
+  },
+  {
+    title: "Webhooks",
+  },
+];
+
+const WebhooksPage = () => {
+  return (
+    <PageContainer title="Webhooks" description="Send signed event notifications to other systems">
+      <Breadcrumb title="Webhooks" items={BCrumb} />
+      <WebhookEndpoints />
+    </PageContainer>
+  );
+};
+
+export default WebhooksPage;
@@ -19,6 +19,7 @@ import Profile from "../../vertical/header/Profile";
 import Search from "../../vertical/header/Search";
 import Language from "../../vertical/header/Language";
 import Navigation from "../../vertical/header/Navigation";
+import WorkspaceSwitcher from "../../vertical/header/WorkspaceSwitcher";
 import Logo from "../../shared/logo/Logo";
 import { AppState } from "@/store/store";
 
@@ -100,6 +101,7 @@ const Header = () => {
               />
             )}
           </IconButton>
+          <WorkspaceSwitcher />
           <Notifications />
           <Profile />
         </Stack>
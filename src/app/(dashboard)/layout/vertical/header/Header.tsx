@@ -19,6 +19,7 @@ import Language from "./Language";
 import { AppState } from "@/store/store";
 import Navigation from "./Navigation";
 import MobileRightSidebar from "./MobileRightSidebar";
+import WorkspaceSwitcher from "./WorkspaceSwitcher";
 
 const Header = () => {
   const lgUp = useMediaQuery((theme: any) => theme.breakpoints.up("lg"));
@@ -77,6 +78,8 @@ const Header = () => {
           {/* End Ecommerce Dropdown */}
           {/* ------------------------------------------- */}
 
+          <WorkspaceSwitcher />
+
           <IconButton size="large" color="inherit">
             {customizer.activeMode === "light" ? (
               <IconMoon
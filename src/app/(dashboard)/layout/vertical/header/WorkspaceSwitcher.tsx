@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { Box, Button, Divider, Menu, MenuItem, Typography, ListItemIcon } from '@mui/material';
+import { IconBuildingStore, IconCheck, IconChevronDown } from '@tabler/icons-react';
+
+interface WorkspaceOption {
+  id: string;
+  name: string;
+  isOwner: boolean;
+  isActive: boolean;
+  role: string;
+}
+
+/**
+ * Lets users who belong to more than one workspace choose whose data they work with
+ * Hidden when the user only has one workspace; chat and notification settings stay personal
+ */
+const WorkspaceSwitcher = () => {
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [workspaces, setWorkspaces] = useState<WorkspaceOption[]>([]);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/workspaces')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setWorkspaces(data.data.workspaces);
+      })
+      .catch(error => console.error('Failed to load workspaces:', error));
+  }, []);
+
+  const handleSwitch = async (workspace: WorkspaceOption) => {
+    setAnchorEl(null);
+    if (workspace.isActive) return;
+
+    setSwitching(true);
+    try {
+      const response = await fetch('/api/workspaces/active', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workspaceId: workspace.id }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error?.message || 'Failed to switch workspace');
+
+      // Reload so every page refetches the new workspace's data and permissions
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to switch workspace:', error);
+      setSwitching(false);
+    }
+  };
+
+  if (workspaces.length < 2) {
+    return null;
+  }
+
+  const active = workspaces.find(workspace => workspace.isActive) || workspaces[0];
+
+  return (
+    <>
+      <Button
+        color="inherit"
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        disabled={switching}
+        startIcon={<IconBuildingStore size="20" stroke="1.5" />}
+        endIcon={<IconChevronDown size="16" />}
+        sx={{ textTransform: 'none', maxWidth: 220 }}
+      >
+        <Typography variant="subtitle2" noWrap>
+          {active.name}
+        </Typography>
+      </Button>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={() => setAnchorEl(null)}
+        sx={{
+          '& .MuiMenu-paper': {
+            width: '260px',
+          },
+        }}
+      >
+        {workspaces.map(workspace => (
+          <MenuItem key={workspace.id} sx={{ py: 1.5 }} onClick={() => handleSwitch(workspace)}>
+            <ListItemIcon>
+              {workspace.isActive && <IconCheck size="18" />}
+            </ListItemIcon>
+            <Box minWidth={0}>
+              <Typography variant="subtitle2" noWrap>{workspace.name}</Typography>
+              <Typography variant="caption" color="textSecondary">{workspace.role}</Typography>
+            </Box>
+          </MenuItem>
+        ))}
+        <Divider />
+        <Box px={2} py={1}>
+          <Typography variant="caption" color="textSecondary">
+            Chat and notification settings are personal and stay the same in every workspace.
+          </Typography>
+        </Box>
+      </Menu>
+    </>
+  );
+};
+
+export default WorkspaceSwitcher;
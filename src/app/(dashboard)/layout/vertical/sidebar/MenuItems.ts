@@ -80,9 +80,12 @@ import {
   IconTrendingUp,
   IconTag,
   IconRepeat,
+  IconBuildingBank,
+  IconWand,
   IconChartPie,
   IconUsers,
   IconShield,
+  IconWebhook,
 } from "@tabler/icons-react";
 
 const Menuitems: MenuitemsType[] = [
@@ -253,6 +256,12 @@ const Menuitems: MenuitemsType[] = [
     icon: IconTag,
     href: "/apps/finance/categories",
   },
+  {
+    id: uniqueId(),
+    title: "Categorization Rules",
+    icon: IconWand,
+    href: "/apps/finance/rules",
+  },
   {
     id: uniqueId(),
     title: "Vendors",
@@ -265,6 +274,12 @@ const Menuitems: MenuitemsType[] = [
     icon: IconRepeat,
     href: "/apps/finance/recurring",
   },
+  {
+    id: uniqueId(),
+    title: "Bank Reconciliation",
+    icon: IconBuildingBank,
+    href: "/apps/finance/bank-reconciliation",
+  },
 
   {
     navlabel: true,
@@ -290,6 +305,12 @@ const Menuitems: MenuitemsType[] = [
       action: "read"
     }
   },
+  {
+    id: uniqueId(),
+    title: "Webhooks",
+    icon: IconWebhook,
+    href: "/apps/webhooks",
+  },
 
   
 
@@ -1,25 +1,42 @@
-type attachType = {
-  icon?: string;
-  file?: string;
-  fileSize?: string;
+export type AttachType = {
+  url: string;
+  name: string;
+  size: number;
+  mimeType: string;
+};
+
+export type MessageType = {
+  _id: string;
+  conversationId: string;
+  senderId: string;
+  text: string;
+  type: 'text' | 'image' | 'file';
+  attachments: AttachType[];
+  createdAt: string;
 };
 
-type MessageType = {
-  createdAt?: any;
-  msg: string;
-  senderId: number | string;
-  type: string;
-  attachment: attachType[];
-  id: string;
+export type ChatParticipant = {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  name?: string;
+  email: string;
+  profileImage?: string;
+  avatar?: string;
+  designation?: string;
 };
 
 export interface ChatsType {
-  id: number | string;
-  name: string;
-  status: string;
-  thumb: string;
-  recent: boolean;
-  excerpt: string;
-  chatHistory?: any[];
-  messages: MessageType[];
+  _id: string;
+  type: 'direct' | 'group';
+  name?: string;
+  participants: ChatParticipant[];
+  lastMessage?: {
+    text: string;
+    senderId: string;
+    type: 'text' | 'image' | 'file';
+    createdAt: string;
+  } | null;
+  lastMessageAt: string;
+  unreadCount: number;
 }
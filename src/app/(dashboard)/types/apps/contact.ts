@@ -1,15 +1,62 @@
+export interface ContactAddress {
+  _id?: string;
+  type: 'billing' | 'shipping' | 'other';
+  street?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  isDefault: boolean;
+}
+
 export interface ContactType {
-  id: number | string;
-  firstname: string;
-  lastname: string;
-  image: string;
-  department: string;
-  company: string;
-  phone: string;
-  email: string;
-  address: string;
-  notes: string;
-  frequentlycontacted: boolean;
+  _id: string;
+  firstName: string;
+  lastName: string;
+  image?: string | null;
+  department?: string | null;
+  company?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  addresses: ContactAddress[];
+  tags: string[];
+  notes?: string | null;
+  frequentlyContacted: boolean;
   starred: boolean;
-  deleted: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContactSummary {
+  invoiceCount: number;
+  totalInvoiced: number;
+  totalPaid: number;
+  outstandingBalance: number;
+  salesCount: number;
+  totalSales: number;
+}
+
+export interface ContactInvoice {
+  _id: string;
+  invoiceNumber: string;
+  orderDate: string;
+  dueDate?: string;
+  grandTotal: number;
+  status: string;
+}
+
+export interface ContactSale {
+  _id: string;
+  productId: string;
+  quantity: number;
+  unitPrice: number;
+  totalAmount: number;
+  date: string;
+}
+
+export interface ContactActivity {
+  contactId: string;
+  summary: ContactSummary;
+  invoices: ContactInvoice[];
+  sales: ContactSale[];
 }
@@ -43,6 +43,26 @@ export interface CompanySettings {
 
 export type TemplateType = "modern" | "corporate" | "creative";
 
+export interface InvoicePayment {
+  _id: string;
+  amount: number;
+  date: string;
+  method: 'cash' | 'card' | 'bank_transfer' | 'mobile_money' | 'cheque' | 'other';
+  reference?: string;
+  notes?: string;
+  incomeId?: string;
+}
+
+export interface InvoiceHistoryEntry {
+  _id: string;
+  action: 'sent' | 'payment_recorded' | 'payment_removed';
+  date: string;
+  performedBy?: string;
+  recipient?: string;
+  messageId?: string;
+  note?: string;
+}
+
 export interface InvoiceList {
   id: number;
   billFrom: string;
@@ -61,6 +81,11 @@ export interface InvoiceList {
   vat: number; // Keep for backward compatibility, will be renamed to tax
   tax?: number; // New field for tax amount
   grandTotal: number;
+  payments?: InvoicePayment[];
+  amountPaid?: number;
+  balanceDue?: number;
+  history?: InvoiceHistoryEntry[];
+  lastSentAt?: string;
   status: string;
   completed: boolean;
   isSelected: boolean;
@@ -1,11 +1,41 @@
+export type TicketStatus = 'Open' | 'Pending' | 'Closed';
+
+export interface TicketAgent {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  name?: string;
+  email: string;
+  profileImage?: string;
+  avatar?: string;
+}
+
+export interface TicketReply {
+  _id: string;
+  authorId: string;
+  authorName: string;
+  message: string;
+  parentReplyId?: string | null;
+  createdAt: string;
+}
+
 export interface TicketType {
-  Id: number;
-  ticketTitle: string;
-  ticketDescription: string;
-  Status: string;
-  Label: string;
-  thumb: string;
-  AgentName: string;
-  Date: Date;
-  deleted: boolean;
+  _id: string;
+  ticketNumber: number;
+  title: string;
+  description: string;
+  status: TicketStatus;
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  assignedTo: TicketAgent | null;
+  replies: TicketReply[];
+  closedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TicketSummary {
+  Open: number;
+  Pending: number;
+  Closed: number;
+  total: number;
 }
@@ -33,6 +33,9 @@ export async function GET(request: NextRequest) {
       category: searchParams.get('category') || undefined,
       action: searchParams.get('action') || undefined,
       severity: searchParams.get('severity') || undefined,
+      resource: searchParams.get('resource') || undefined,
+      recordId: searchParams.get('recordId') || undefined,
+      field: searchParams.get('field') || undefined,
       startDate: searchParams.get('startDate') ? new Date(searchParams.get('startDate')!) : undefined,
       endDate: searchParams.get('endDate') ? new Date(searchParams.get('endDate')!) : undefined,
       limit: parseInt(searchParams.get('limit') || '50'),
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { AuditTrailService } from '@/lib/services/AuditTrailService';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+const STATUS_BY_CODE: Record<string, number> = {
+  FORBIDDEN: 403
+};
+
+/**
+ * GET /api/audit-trail/[resource]/[id]
+ * Returns who changed which fields of a record, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { resource: string; id: string } }
+) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const result = await AuditTrailService.getRecordHistory(authResult.user.id, params.resource, params.id, {
+      limit: parseInt(searchParams.get('limit') || '50') || 50,
+      offset: parseInt(searchParams.get('offset') || '0') || 0
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: STATUS_BY_CODE[result.error!.code] || 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.history
+    });
+
+  } catch (error) {
+    console.error('Audit trail GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch record history' } },
+      { status: 500 }
+    );
+  }
+}
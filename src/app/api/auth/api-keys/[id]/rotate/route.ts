@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { ApiKeyManager } from '@/lib/auth/api-keys';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
+
+/**
+ * POST /api/auth/api-keys/[id]/rotate
+ * Issues a new secret for an API key; the old one stops working immediately
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await ApiKeyManager.rotateKey(
+      session.user.id,
+      params.id,
+      TwoFactorManager.getRequestContext(request.headers)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: result.statusCode || 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message,
+      data: { key: result.key, secret: result.secret }
+    });
+
+  } catch (error) {
+    console.error('API key rotate error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
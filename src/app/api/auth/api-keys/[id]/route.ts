@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { ApiKeyManager } from '@/lib/auth/api-keys';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
+
+/**
+ * PATCH /api/auth/api-keys/[id]
+ * Renames an API key or changes its permissions
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { name, permissions } = await request.json();
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json(
+        { success: false, error: 'Key name cannot be empty' },
+        { status: 400 }
+      );
+    }
+
+    const result = await ApiKeyManager.updateKey(
+      session.user.id,
+      params.id,
+      { name, permissions },
+      TwoFactorManager.getRequestContext(request.headers)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: result.statusCode || 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message,
+      data: { key: result.key }
+    });
+
+  } catch (error) {
+    console.error('API key update error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/api-keys/[id]
+ * Revokes an API key
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await ApiKeyManager.revokeKey(
+      session.user.id,
+      params.id,
+      TwoFactorManager.getRequestContext(request.headers)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: result.statusCode || 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message
+    });
+
+  } catch (error) {
+    console.error('API key revoke error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { ApiKeyManager } from '@/lib/auth/api-keys';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/api-keys
+ * Lists the signed-in user's active API keys
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const keys = await ApiKeyManager.listKeys(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { keys }
+    });
+
+  } catch (error) {
+    console.error('API key list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/api-keys
+ * Creates an API key; the plain key is only returned in this response
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { name, permissions } = await request.json();
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'Key name is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await ApiKeyManager.createKey(
+      session.user.id,
+      name,
+      permissions,
+      TwoFactorManager.getRequestContext(request.headers)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: result.statusCode || 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message,
+      data: { key: result.key, secret: result.secret }
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('API key create error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
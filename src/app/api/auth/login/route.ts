@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { RateLimiter } from '@/lib/auth/rate-limiter';
 import { PasswordManager } from '@/lib/auth/password';
 import { JWTManager } from '@/lib/auth/jwt';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
 import { connectToDatabase } from '@/lib/database/connection';
 import { User } from '@/lib/database/models/User';
 import { Role } from '@/lib/database/models/Role';
@@ -34,6 +35,126 @@ interface LoginRequest {
   email: string;
   password: string;
   rememberMe?: boolean;
+  challengeToken?: string; // Second step: token from the password step
+  code?: string; // Second step: authenticator or recovery code
+}
+
+/**
+ * Issues the JWT cookies and login response for an authenticated user
+ */
+async function createLoginResponse(user: any): Promise<NextResponse> {
+  // Update last login timestamp
+  user.lastLogin = new Date();
+  user.updatedAt = new Date();
+  await user.save();
+
+  // Ensure role is populated and get role name
+  let roleName = 'user'; // Default fallback
+  
+  if (typeof user.role === 'object' && user.role !== null && 'name' in user.role) {
+    roleName = (user.role as any).name;
+  } else {
+    console.warn(`Role not properly populated for user ${user.email}, using default 'user' role`);
+  }
+  
+  console.log(`User ${user.email} logging in with role: ${roleName}`);
+
+  // Generate JWT tokens
+  const tokens = JWTManager.generateTokens({
+    userId: user._id?.toString() || '',
+    email: user.email,
+    role: roleName,
+    isEmailVerified: user.isEmailVerified
+  });
+
+  // Create response
+  const response = NextResponse.json(
+    {
+      success: true,
+      message: 'Login successful!',
+      data: {
+        user: {
+          id: user._id?.toString() || '',
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          isEmailVerified: user.isEmailVerified,
+          lastLogin: user.lastLogin
+        }
+      }
+    },
+    { status: 200 }
+  );
+
+  // Set HTTP-only cookies for secure token storage
+  JWTManager.setAuthCookiesInResponse(
+    response, 
+    tokens.accessToken, 
+    tokens.refreshToken
+  );
+
+  console.log(`✅ User logged in successfully: ${user.email}`);
+  return response;
+}
+
+/**
+ * Completes a login that needed a second factor
+ */
+async function completeTwoFactorLogin(request: NextRequest, body: LoginRequest): Promise<NextResponse> {
+  const challenge = TwoFactorManager.verifyChallengeToken(body.challengeToken!);
+  if (!challenge) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Your sign-in session expired. Please enter your password again.'
+      },
+      { status: 401 }
+    );
+  }
+
+  await connectToDatabase();
+
+  if (!challenge.verified) {
+    const result = await TwoFactorManager.verifyCode(
+      challenge.userId,
+      String(body.code || ''),
+      TwoFactorManager.getRequestContext(request.headers)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.message
+        },
+        { status: result.locked ? 429 : 401 }
+      );
+    }
+  }
+
+  const user = await User.findById(challenge.userId).populate('role');
+  // The account may have been deactivated since the password step
+  if (!user || !user.isActive) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Invalid email or password'
+      },
+      { status: 401 }
+    );
+  }
+
+  if (!await TwoFactorManager.consumeChallenge(challenge)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Your sign-in session expired. Please enter your password again.'
+      },
+      { status: 401 }
+    );
+  }
+
+  return createLoginResponse(user);
 }
 
 /**
@@ -57,6 +178,10 @@ export async function POST(request: NextRequest) {
 
     // Parse and validate request body
     const body: LoginRequest = await request.json();
+
+    if (body.challengeToken) {
+      return await completeTwoFactorLogin(request, body);
+    }
     
     try {
       await loginSchema.validate(body, { abortEarly: false });
@@ -125,58 +250,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update last login timestamp
-    user.lastLogin = new Date();
-    user.updatedAt = new Date();
-    await user.save();
-
-    // Ensure role is populated and get role name
-    let roleName = 'user'; // Default fallback
-    
-    if (typeof user.role === 'object' && user.role !== null && 'name' in user.role) {
-      roleName = (user.role as any).name;
-    } else {
-      console.warn(`Role not properly populated for user ${email}, using default 'user' role`);
+    // Users with two-factor finish signing in with a code and the challenge token
+    const twoFactor = await TwoFactorManager.getLoginRequirement(user);
+    if (twoFactor.required) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: twoFactor.setupRequired
+            ? 'Your role requires two-factor authentication. Please set it up to continue.'
+            : 'Enter the code from your authenticator app',
+          requiresTwoFactor: true,
+          setupRequired: twoFactor.setupRequired,
+          challengeToken: TwoFactorManager.createChallengeToken(user._id?.toString() || '')
+        },
+        { status: 401 }
+      );
     }
-    
-    console.log(`User ${email} logging in with role: ${roleName}`);
-
-    // Generate JWT tokens
-    const tokens = JWTManager.generateTokens({
-      userId: user._id?.toString() || '',
-      email: user.email,
-      role: roleName,
-      isEmailVerified: user.isEmailVerified
-    });
-
-    // Create response
-    const response = NextResponse.json(
-      {
-        success: true,
-        message: 'Login successful!',
-        data: {
-          user: {
-            id: user._id?.toString() || '',
-            email: user.email,
-            firstName: user.firstName,
-            lastName: user.lastName,
-            isEmailVerified: user.isEmailVerified,
-            lastLogin: user.lastLogin
-          }
-        }
-      },
-      { status: 200 }
-    );
-
-    // Set HTTP-only cookies for secure token storage
-    JWTManager.setAuthCookiesInResponse(
-      response, 
-      tokens.accessToken, 
-      tokens.refreshToken
-    );
 
-    console.log(`✅ User logged in successfully: ${email}`);
-    return response;
+    return await createLoginResponse(user);
 
   } catch (error) {
     console.error('Login error:', error);
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RateLimiter } from '@/lib/auth/rate-limiter';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
+import { connectToDatabase } from '@/lib/database/connection';
+import { User } from '@/lib/database/models/User';
+
+/**
+ * POST /api/auth/two-factor/challenge
+ * First login step: checks the password and reports whether a second step
+ * is needed. When it is, returns a short-lived challenge token to sign in
+ * with alongside the code (or to enroll with when the role enforces 2FA).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Apply rate limiting
+    const rateLimitResult = RateLimiter.checkRateLimit(request, 'login');
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Too many login attempts. Please try again later.',
+          retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
+        },
+        { status: 429 }
+      );
+    }
+
+    const { email, password } = await request.json();
+    if (!email || !password) {
+      return NextResponse.json(
+        { success: false, error: 'Email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+
+    const user = await User.findOne({ email: String(email).toLowerCase().trim() })
+      .select('+password')
+      .populate('role');
+
+    if (!user || !user.isActive || !(await user.comparePassword(String(password)))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    const requirement = await TwoFactorManager.getLoginRequirement(user);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        required: requirement.required,
+        setupRequired: requirement.setupRequired,
+        ...(requirement.required && { challengeToken: TwoFactorManager.createChallengeToken(String(user._id)) })
+      }
+    });
+
+  } catch (error) {
+    console.error('Two-factor challenge error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
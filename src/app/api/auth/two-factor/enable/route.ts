@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
+import { resolveEnrollingUser } from '../session';
+
+/**
+ * POST /api/auth/two-factor/enable
+ * Confirms enrollment with a code from the authenticator app and returns
+ * the one-time recovery codes. During login it also returns a verified
+ * challenge token that completes sign-in.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { user, viaChallenge } = await resolveEnrollingUser(body.challengeToken);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    if (!body.code) {
+      return NextResponse.json(
+        { success: false, error: 'Verification code is required' },
+        { status: 400 }
+      );
+    }
+
+    const userId = String(user._id);
+    const result = await TwoFactorManager.confirmEnrollment(
+      userId,
+      String(body.code),
+      TwoFactorManager.getRequestContext(request.headers)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message,
+      data: {
+        recoveryCodes: result.recoveryCodes,
+        ...(viaChallenge && { challengeToken: TwoFactorManager.createChallengeToken(userId, true) })
+      }
+    });
+
+  } catch (error) {
+    console.error('Two-factor enable error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
+
+/**
+ * POST /api/auth/two-factor/recovery-codes
+ * Replaces the recovery codes after checking a current code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { code } = await request.json();
+    if (!code) {
+      return NextResponse.json(
+        { success: false, error: 'Verification code is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await TwoFactorManager.regenerateRecoveryCodes(
+      session.user.id,
+      String(code),
+      TwoFactorManager.getRequestContext(request.headers)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: result.locked ? 429 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message,
+      data: {
+        recoveryCodes: result.recoveryCodes
+      }
+    });
+
+  } catch (error) {
+    console.error('Recovery code regeneration error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/two-factor
+ * Returns the signed-in user's two-factor status
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const status = await TwoFactorManager.getStatus(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: status
+    });
+
+  } catch (error) {
+    console.error('Two-factor status error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/two-factor
+ * Turns two-factor off after checking a current code
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { code } = await request.json();
+    if (!code) {
+      return NextResponse.json(
+        { success: false, error: 'Verification code is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await TwoFactorManager.disable(
+      session.user.id,
+      String(code),
+      TwoFactorManager.getRequestContext(request.headers)
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.message },
+        { status: result.locked ? 429 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message
+    });
+
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { connectToDatabase } from '@/lib/database/connection';
+import { User, IUserDocument } from '@/lib/database/models/User';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
+
+/**
+ * Finds the user setting up two-factor: the signed-in user, or during login
+ * a user whose role enforces two-factor and who holds a valid challenge token
+ */
+export async function resolveEnrollingUser(
+  challengeToken?: string
+): Promise<{ user: IUserDocument | null; viaChallenge: boolean }> {
+  await connectToDatabase();
+
+  if (challengeToken) {
+    const challenge = TwoFactorManager.verifyChallengeToken(challengeToken);
+    if (!challenge) {
+      return { user: null, viaChallenge: true };
+    }
+
+    const user = await User.findById(challenge.userId).populate('role');
+    if (!user || !(await TwoFactorManager.getLoginRequirement(user)).setupRequired) {
+      return { user: null, viaChallenge: true };
+    }
+
+    return { user, viaChallenge: true };
+  }
+
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return { user: null, viaChallenge: false };
+  }
+
+  return { user: await User.findById(session.user.id), viaChallenge: false };
+}
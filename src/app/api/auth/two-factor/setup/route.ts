@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
+import { resolveEnrollingUser } from '../session';
+
+/**
+ * POST /api/auth/two-factor/setup
+ * Generates a secret and QR code for the authenticator app
+ * Signed-in users enroll from their profile; users whose role enforces
+ * two-factor enroll during login with their challenge token
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { user } = await resolveEnrollingUser(body.challengeToken);
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const setup = await TwoFactorManager.beginEnrollment(String(user._id), user.email);
+    if (!setup) {
+      return NextResponse.json(
+        { success: false, error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: setup
+    });
+
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
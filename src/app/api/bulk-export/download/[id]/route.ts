@@ -1,6 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { exportService } from '@/lib/services/exportService';
+import { getToken } from 'next-auth/jwt';
+import { exportService, verifyExportDownload } from '@/lib/services/exportService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
+/**
+ * Resolves who may download the file: a valid signed link allows anyone,
+ * otherwise a signed-in member of the workspace that owns the export job
+ * @returns The workspace owner ID to scope the lookup to, null for a signed link, or undefined when unauthorized
+ */
+async function resolveDownloadAccess(request: NextRequest, jobId: string): Promise<string | null | undefined> {
+  const { searchParams } = new URL(request.url);
+  const expires = searchParams.get('expires');
+  const signature = searchParams.get('signature');
+
+  if (expires && signature) {
+    return verifyExportDownload(jobId, expires, signature) ? null : undefined;
+  }
+
+  const token = await getToken({ req: request });
+  return token?.sub ? WorkspaceService.getScopeUserId(token.sub) : undefined;
+}
 
 /**
  * GET /api/bulk-export/download/[id]
@@ -12,9 +31,7 @@ export async function GET(
 ) {
   try {
     const { id } = params;
-    
-    console.log('Download request for job ID:', id);
-    
+
     if (!id) {
       console.error('Download request missing job ID');
       return NextResponse.json({
@@ -23,25 +40,17 @@ export async function GET(
       }, { status: 400 });
     }
     
-    // Get the export job first to debug
-    const job = exportService.getExportJob(id);
-    console.log('Export job found:', {
-      exists: !!job,
-      status: job?.status,
-      fileName: job?.fileName,
-      filePath: job?.filePath,
-      downloadUrl: job?.downloadUrl
-    });
-    
+    const access = await resolveDownloadAccess(request, id);
+    if (access === undefined) {
+      return NextResponse.json({
+        success: false,
+        error: 'Download link is invalid or has expired',
+      }, { status: 403 });
+    }
+
     // Get the export file from the service
-    const fileData = await exportService.getFileStream(id);
-    
-    console.log('File data result:', {
-      exists: !!fileData,
-      fileName: fileData?.fileName,
-      streamLength: fileData?.stream?.length
-    });
-    
+    const fileData = await exportService.getFileStream(id, access ?? undefined);
+
     if (!fileData) {
       console.error('File data not found for job:', id);
       return NextResponse.json({
@@ -90,8 +99,13 @@ export async function HEAD(
       return new NextResponse(null, { status: 400 });
     }
     
-    const job = exportService.getExportJob(id);
-    
+    const access = await resolveDownloadAccess(request, id);
+    if (access === undefined) {
+      return new NextResponse(null, { status: 403 });
+    }
+
+    const job = await exportService.getExportJob(id, access ?? undefined);
+
     if (!job) {
       return new NextResponse(null, { status: 404 });
     }
@@ -100,7 +114,7 @@ export async function HEAD(
       return new NextResponse(null, { status: 404 });
     }
     
-    const contentType = job.format === 'excel' 
+    const contentType = job.format === 'excel'
       ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
       : job.format === 'csv'
       ? 'text/csv'
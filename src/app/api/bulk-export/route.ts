@@ -1,24 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { getToken } from 'next-auth/jwt';
 import { exportService } from '@/lib/services/exportService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { EXPORT_TYPES } from '@/lib/database/models/ExportJob';
 import { createFeatureProtectedRoute } from '@/lib/auth/feature-access-middleware';
 import { FEATURES } from '@/hooks/useFeatureAccess';
 
 // Validation schemas
 const createExportJobSchema = z.object({
-  type: z.enum(['products', 'sales', 'expenses', 'financial-summary']),
+  type: z.enum(EXPORT_TYPES),
   format: z.enum(['csv', 'excel', 'json']),
   dateRange: z.object({
     start: z.string().optional(),
     end: z.string().optional(),
   }).optional(),
   category: z.string().optional(),
+  status: z.string().optional(),
+  search: z.string().optional(),
+  sku: z.string().optional(),
+  vendorId: z.string().optional(),
 });
 
 const querySchema = z.object({
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(10),
-  status: z.enum(['pending', 'processing', 'completed', 'failed']).optional(),
+  status: z.enum(['pending', 'processing', 'completed', 'failed', 'expired']).optional(),
   sortBy: z.enum(['createdAt', 'fileName', 'status']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
@@ -36,9 +43,11 @@ export const GET = createFeatureProtectedRoute(
     const queryParams = Object.fromEntries(searchParams);
 
     const validatedQuery = querySchema.parse(queryParams);
+    const token = await getToken({ req: request });
+    const scopeUserId = await WorkspaceService.getScopeUserId(token!.sub!);
 
-    // Get all export jobs from the service
-    let allJobs = exportService.getAllExportJobs();
+    // Get the workspace's export jobs from the service
+    let allJobs = await exportService.getAllExportJobs(scopeUserId);
 
     // Apply filters
     let filteredJobs = allJobs.filter(job => {
@@ -139,6 +148,8 @@ export const POST = createFeatureProtectedRoute(
   try {
     const body = await request.json();
     const validatedData = createExportJobSchema.parse(body);
+    const token = await getToken({ req: request });
+    const scopeUserId = await WorkspaceService.getScopeUserId(token!.sub!);
 
     // Create the export job using the service
     const newExportJob = await exportService.createExportJob(
@@ -147,7 +158,12 @@ export const POST = createFeatureProtectedRoute(
       {
         dateRange: validatedData.dateRange,
         category: validatedData.category,
-      }
+        status: validatedData.status,
+        search: validatedData.search,
+        sku: validatedData.sku,
+        vendorId: validatedData.vendorId,
+      },
+      { userId: scopeUserId }
     );
 
     return NextResponse.json({
@@ -178,11 +194,21 @@ export const POST = createFeatureProtectedRoute(
  * DELETE /api/bulk-export
  * Cancels or deletes export jobs
  */
-// Force dynamic rendering for this route
-export const dynamic = 'force-dynamic';
-
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
 export async function DELETE(request: NextRequest) {
   try {
+    const token = await getToken({ req: request });
+    if (!token?.sub) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required',
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(token.sub);
+
     const body = await request.json();
     const { jobIds } = body;
 
@@ -197,16 +223,16 @@ export async function DELETE(request: NextRequest) {
     const cancelledJobs: string[] = [];
 
     for (const jobId of jobIds) {
-      const job = exportService.getExportJob(jobId);
+      const job = await exportService.getExportJob(jobId, scopeUserId);
       if (!job) continue;
 
       if (['pending', 'processing'].includes(job.status)) {
         // For now, we'll just delete pending/processing jobs
         // In a real implementation, you'd properly cancel running jobs
-        const deleted = await exportService.deleteExportJob(jobId);
+        const deleted = await exportService.deleteExportJob(jobId, scopeUserId);
         if (deleted) cancelledJobs.push(jobId);
-      } else if (['completed', 'failed'].includes(job.status)) {
-        const deleted = await exportService.deleteExportJob(jobId);
+      } else if (['completed', 'failed', 'expired'].includes(job.status)) {
+        const deleted = await exportService.deleteExportJob(jobId, scopeUserId);
         if (deleted) deletedJobs.push(jobId);
       }
     }
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import { getToken } from 'next-auth/jwt';
+import ScheduledExport from '@/lib/database/models/ScheduledExport';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { withFeatureAccess } from '@/lib/auth/feature-access-middleware';
+import { FEATURES } from '@/hooks/useFeatureAccess';
+import { scheduledExportSchema } from '../validation';
+
+interface RouteParams {
+  params: { id: string }
+}
+
+const updateScheduledExportSchema = scheduledExportSchema.partial();
+
+/**
+ * Loads a schedule owned by the signed-in user's workspace
+ */
+async function findUserSchedule(request: NextRequest, id: string) {
+  const token = await getToken({ req: request });
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return null;
+  }
+
+  const scopeUserId = await WorkspaceService.getScopeUserId(token!.sub!);
+  return ScheduledExport.findOne({ _id: id, userId: scopeUserId });
+}
+
+const notFound = () => NextResponse.json({
+  success: false,
+  error: 'Scheduled export not found',
+}, { status: 404 });
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/bulk-export/schedules/[id]
+ * Gets a scheduled export
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withFeatureAccess(request, { feature: FEATURES.BULK_OPERATIONS, returnJson: true }, async () => {
+    try {
+      const schedule = await findUserSchedule(request, params.id);
+      if (!schedule) return notFound();
+
+      return NextResponse.json({
+        success: true,
+        data: schedule,
+      });
+
+    } catch (error) {
+      console.error('Error fetching scheduled export:', error);
+
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to fetch scheduled export',
+      }, { status: 500 });
+    }
+  });
+}
+
+/**
+ * PUT /api/bulk-export/schedules/[id]
+ * Updates a scheduled export; changing startAt or the frequency moves the next run
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  return withFeatureAccess(request, { feature: FEATURES.BULK_OPERATIONS, returnJson: true }, async () => {
+    try {
+      const schedule = await findUserSchedule(request, params.id);
+      if (!schedule) return notFound();
+
+      const body = await request.json();
+      const { startAt, ...validatedData } = updateScheduledExportSchema.parse(body);
+
+      schedule.set(validatedData);
+      if (startAt) {
+        schedule.nextRunAt = startAt;
+      } else if (validatedData.frequency && schedule.isModified('frequency') && schedule.lastRunAt) {
+        schedule.nextRunAt = schedule.calculateNextRun(schedule.lastRunAt);
+      }
+      await schedule.save();
+
+      return NextResponse.json({
+        success: true,
+        data: schedule,
+        message: 'Scheduled export updated successfully',
+      });
+
+    } catch (error) {
+      console.error('Error updating scheduled export:', error);
+
+      if (error instanceof z.ZodError) {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid request data',
+          details: error.issues,
+        }, { status: 400 });
+      }
+
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to update scheduled export',
+      }, { status: 500 });
+    }
+  });
+}
+
+/**
+ * DELETE /api/bulk-export/schedules/[id]
+ * Deletes a scheduled export; files it already produced are kept until they expire
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withFeatureAccess(request, { feature: FEATURES.BULK_OPERATIONS, returnJson: true }, async () => {
+    try {
+      const schedule = await findUserSchedule(request, params.id);
+      if (!schedule) return notFound();
+
+      await schedule.deleteOne();
+
+      return NextResponse.json({
+        success: true,
+        message: 'Scheduled export deleted successfully',
+      });
+
+    } catch (error) {
+      console.error('Error deleting scheduled export:', error);
+
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to delete scheduled export',
+      }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { getToken } from 'next-auth/jwt';
+import ScheduledExport from '@/lib/database/models/ScheduledExport';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { ScheduledExportService } from '@/lib/services/ScheduledExportService';
+import { withFeatureAccess } from '@/lib/auth/feature-access-middleware';
+import { FEATURES } from '@/hooks/useFeatureAccess';
+
+interface RouteParams {
+  params: { id: string }
+}
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/bulk-export/schedules/[id]/run
+ * Runs a scheduled export now and delivers it, without moving the next scheduled run
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withFeatureAccess(request, { feature: FEATURES.BULK_OPERATIONS, returnJson: true }, async () => {
+    try {
+      const token = await getToken({ req: request });
+      const scopeUserId = await WorkspaceService.getScopeUserId(token!.sub!);
+      const schedule = mongoose.Types.ObjectId.isValid(params.id)
+        ? await ScheduledExport.findOne({ _id: params.id, userId: scopeUserId })
+        : null;
+
+      if (!schedule) {
+        return NextResponse.json({
+          success: false,
+          error: 'Scheduled export not found',
+        }, { status: 404 });
+      }
+
+      const result = await ScheduledExportService.runNow(schedule);
+
+      return NextResponse.json({
+        success: result.delivered,
+        data: {
+          jobId: result.job.jobId,
+          status: result.job.status,
+          totalRecords: result.job.totalRecords,
+          delivered: result.delivered,
+        },
+        ...(result.error
+          ? { error: result.error }
+          : { message: `Export sent to ${schedule.recipients.length} recipient(s)` }),
+      }, { status: result.delivered ? 200 : 422 });
+
+    } catch (error) {
+      console.error('Error running scheduled export:', error);
+
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to run scheduled export',
+      }, { status: 500 });
+    }
+  });
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getToken } from 'next-auth/jwt';
+import ScheduledExport from '@/lib/database/models/ScheduledExport';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { createFeatureProtectedRoute } from '@/lib/auth/feature-access-middleware';
+import { FEATURES } from '@/hooks/useFeatureAccess';
+import { scheduledExportSchema } from './validation';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/bulk-export/schedules
+ * Lists the workspace's scheduled exports
+ */
+export const GET = createFeatureProtectedRoute(
+  FEATURES.BULK_OPERATIONS,
+  async (request: NextRequest) => {
+  try {
+    const token = await getToken({ req: request });
+    const scopeUserId = await WorkspaceService.getScopeUserId(token!.sub!);
+    const schedules = await ScheduledExport.findByUser(scopeUserId);
+
+    return NextResponse.json({
+      success: true,
+      data: schedules,
+    });
+
+  } catch (error) {
+    console.error('Error fetching scheduled exports:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch scheduled exports',
+    }, { status: 500 });
+  }
+});
+
+/**
+ * POST /api/bulk-export/schedules
+ * Creates a scheduled export; the first run is at startAt, or now when omitted
+ */
+export const POST = createFeatureProtectedRoute(
+  FEATURES.BULK_OPERATIONS,
+  async (request: NextRequest) => {
+  try {
+    const token = await getToken({ req: request });
+    const scopeUserId = await WorkspaceService.getScopeUserId(token!.sub!);
+    const body = await request.json();
+    const { startAt, ...validatedData } = scheduledExportSchema.parse(body);
+
+    const schedule = await ScheduledExport.create({
+      ...validatedData,
+      nextRunAt: startAt || new Date(),
+      userId: scopeUserId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+      message: 'Scheduled export created successfully',
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error creating scheduled export:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.issues,
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create scheduled export',
+    }, { status: 500 });
+  }
+});
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { EXPORT_TYPES } from '@/lib/database/models/ExportJob';
+
+/**
+ * Request body for creating a scheduled export
+ */
+export const scheduledExportSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  type: z.enum(EXPORT_TYPES),
+  format: z.enum(['csv', 'excel', 'json']),
+  filters: z.object({
+    category: z.string().optional(),
+    status: z.string().optional(),
+    search: z.string().optional(),
+    sku: z.string().optional(),
+    vendorId: z.string().optional(),
+  }).default({}),
+  rollingDateRange: z.boolean().default(true),
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  startAt: z.coerce.date().optional(),
+  deliveryMethod: z.enum(['email', 'link']).default('email'),
+  recipients: z.array(z.string().email()).min(1, 'At least one recipient is required').max(10),
+  retentionDays: z.number().int().min(1).max(90).default(7),
+  isActive: z.boolean().default(true),
+});
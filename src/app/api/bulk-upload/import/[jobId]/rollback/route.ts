@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { ImportRollbackService } from '@/lib/services/ImportRollbackService';
+
+interface RouteParams {
+  params: { jobId: string }
+}
+
+/**
+ * POST /api/bulk-upload/import/[jobId]/rollback
+ * Undoes a bulk upload: deletes the products and variants it created, restores
+ * the ones it updated and reverses their stock changes
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const result = await ImportRollbackService.rollbackImportJob(params.jobId, authResult.user.id);
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error?.message
+      }, { status: result.error?.code === 'NOT_FOUND' ? 404 : 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Bulk import rolled back',
+      data: result.rollback
+    });
+
+  } catch (error) {
+    console.error('Bulk import rollback error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to roll back bulk import'
+    }, { status: 500 });
+  }
+}
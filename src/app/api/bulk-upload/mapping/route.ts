@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { connectDB } from '@/lib/database/connection';
+import ProductImportProfile from '@/lib/database/models/ProductImportProfile';
+import {
+  PRODUCT_IMPORT_FIELDS,
+  ProductImportMapping,
+  ProductImportTransforms,
+  suggestFieldMapping
+} from '@/lib/utils/product-import-mapping';
+
+const suggestMappingSchema = z.object({
+  headers: z.array(z.string()).min(1, 'At least one column header is required').max(200),
+});
+
+/**
+ * POST /api/bulk-upload/mapping
+ * Suggests a field for each uploaded column; a saved profile matching the
+ * file's columns takes precedence over name-similarity suggestions
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const body = await request.json();
+    const { headers } = suggestMappingSchema.parse(body);
+
+    await connectDB();
+
+    const suggestions = suggestFieldMapping(headers);
+    const profile = await ProductImportProfile.findBestMatch(authResult.user.id, headers);
+
+    let mapping: ProductImportMapping = Object.fromEntries(suggestions.map(suggestion => [suggestion.header, suggestion.field]));
+    let transforms: ProductImportTransforms = {};
+
+    if (profile) {
+      // Profile headers are matched case-insensitively; key the result by the uploaded headers
+      const byLowerCase = new Map(headers.map(header => [header.trim().toLowerCase(), header]));
+      mapping = {};
+      for (const [header, field] of Object.entries(profile.mapping)) {
+        const uploaded = byLowerCase.get(header.trim().toLowerCase());
+        if (uploaded) mapping[uploaded] = field;
+      }
+      for (const [header, transform] of Object.entries(profile.transforms || {})) {
+        const uploaded = byLowerCase.get(header.trim().toLowerCase());
+        if (uploaded) transforms[uploaded] = transform;
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        fields: PRODUCT_IMPORT_FIELDS,
+        suggestions,
+        mapping,
+        transforms,
+        profile: profile ? { id: String(profile._id), name: profile.name, vendorId: profile.vendorId } : null,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error suggesting field mapping:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.issues,
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to suggest field mapping',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { connectDB } from '@/lib/database/connection';
+import ProductImportProfile from '@/lib/database/models/ProductImportProfile';
+import { importProfileSchema } from '../validation';
+
+interface RouteParams {
+  params: { id: string }
+}
+
+const updateImportProfileSchema = importProfileSchema.partial();
+
+const notFound = () => NextResponse.json({
+  success: false,
+  error: 'Import profile not found',
+}, { status: 404 });
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/bulk-upload/profiles/[id]
+ * Updates a saved import profile
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) return notFound();
+
+    const body = await request.json();
+    const validatedData = updateImportProfileSchema.parse(body);
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const profile = await ProductImportProfile.findOne({ _id: params.id, userId: scopeUserId });
+    if (!profile) return notFound();
+
+    profile.set(validatedData);
+    await profile.save();
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+      message: 'Import profile updated',
+    });
+
+  } catch (error: any) {
+    console.error('Error updating import profile:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.issues,
+      }, { status: 400 });
+    }
+
+    if (error?.code === 11000) {
+      return NextResponse.json({
+        success: false,
+        error: 'An import profile with this name already exists',
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update import profile',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/bulk-upload/profiles/[id]
+ * Deletes a saved import profile
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) return notFound();
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const profile = await ProductImportProfile.findOneAndDelete({ _id: params.id, userId: scopeUserId });
+    if (!profile) return notFound();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Import profile deleted',
+    });
+
+  } catch (error) {
+    console.error('Error deleting import profile:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete import profile',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { connectDB } from '@/lib/database/connection';
+import ProductImportProfile from '@/lib/database/models/ProductImportProfile';
+import { importProfileSchema } from './validation';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/bulk-upload/profiles
+ * Lists the user's saved import mapping profiles, optionally for one supplier (?vendorId=)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const vendorId = new URL(request.url).searchParams.get('vendorId') || undefined;
+    const profiles = await ProductImportProfile.findByUser(scopeUserId, vendorId);
+
+    return NextResponse.json({
+      success: true,
+      data: profiles,
+    });
+
+  } catch (error) {
+    console.error('Error fetching import profiles:', error);
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch import profiles',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/bulk-upload/profiles
+ * Saves a column mapping and its value transforms as a reusable profile
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const body = await request.json();
+    const validatedData = importProfileSchema.parse(body);
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const profile = await ProductImportProfile.create({
+      ...validatedData,
+      userId: scopeUserId,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+      message: 'Import profile saved',
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('Error saving import profile:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid request data',
+        details: error.issues,
+      }, { status: 400 });
+    }
+
+    if (error?.code === 11000) {
+      return NextResponse.json({
+        success: false,
+        error: 'An import profile with this name already exists',
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to save import profile',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+import { IMPORT_VALUE_TRANSFORMS, PRODUCT_IMPORT_FIELDS } from '@/lib/utils/product-import-mapping';
+
+const IMPORT_FIELD_VALUES = PRODUCT_IMPORT_FIELDS.map(field => field.value);
+
+/**
+ * Request body for saving a product import mapping profile
+ */
+export const importProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  vendorId: z.string().optional(),
+  headers: z.array(z.string()).max(200).default([]),
+  mapping: z.record(z.string(), z.string()).refine(
+    mapping => Object.values(mapping).every(field => field === '' || IMPORT_FIELD_VALUES.includes(field)),
+    'Mapping contains an unknown product field'
+  ),
+  transforms: z.record(z.string(), z.enum(IMPORT_VALUE_TRANSFORMS)).default({}),
+});
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { CHAT_ATTACHMENT_PATH, validateAttachmentFile } from '@/lib/utils/file-upload';
+
+/**
+ * POST /api/chat/attachments
+ * Stores a chat attachment and returns its public URL for use in a message
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'No file provided' } },
+        { status: 400 }
+      );
+    }
+
+    const validation = validateAttachmentFile(file);
+    if (!validation.valid) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: validation.error } },
+        { status: 400 }
+      );
+    }
+
+    // Generate unique filename
+    const randomString = crypto.randomBytes(8).toString('hex');
+    const fileExtension = path.extname(file.name).replace(/[^a-zA-Z0-9.]/g, '');
+    const uniqueFilename = `chat-${Date.now()}-${randomString}${fileExtension}`;
+
+    // Ensure upload directory exists
+    const uploadDir = path.join(process.cwd(), 'public', 'uploads', 'chat');
+    if (!existsSync(uploadDir)) {
+      await mkdir(uploadDir, { recursive: true });
+    }
+
+    const bytes = await file.arrayBuffer();
+    await writeFile(path.join(uploadDir, uniqueFilename), Buffer.from(bytes));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        attachment: {
+          url: `${CHAT_ATTACHMENT_PATH}${uniqueFilename}`,
+          name: file.name,
+          size: file.size,
+          mimeType: file.type
+        }
+      },
+      message: 'Attachment uploaded successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Chat attachment upload error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to upload attachment' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Conversation from '@/lib/database/models/Conversation';
+import Message from '@/lib/database/models/Message';
+import { ChatService } from '@/lib/services/ChatService';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+
+/**
+ * GET /api/chat/conversations/[id]/messages
+ * Retrieves messages in a conversation, paging backwards with `before`
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid conversation ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const conversation = await Conversation.findById(params.id);
+    if (!conversation || !conversation.isParticipant(authResult.user.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Conversation not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const before = searchParams.get('before');
+    const after = searchParams.get('after');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+
+    const messages = await Message.findByConversation(params.id, {
+      before: before ? new Date(before) : undefined,
+      after: after ? new Date(after) : undefined,
+      limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        messages,
+        hasMore: messages.length === limit
+      }
+    });
+
+  } catch (error) {
+    console.error('Messages GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve messages' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/chat/conversations/[id]/messages
+ * Sends a message with optional attachments
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid conversation ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const conversation = await Conversation.findById(params.id);
+    if (!conversation || !conversation.isParticipant(authResult.user.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Conversation not found' } },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { text, attachments } = body;
+
+    if (!text?.trim() && (!Array.isArray(attachments) || attachments.length === 0)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Message text or an attachment is required' } },
+        { status: 400 }
+      );
+    }
+
+    if (attachments !== undefined && !Array.isArray(attachments)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Attachments must be an array' } },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const message = await ChatService.sendMessage(conversation, authResult.user.id, { text, attachments });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          message: message.toJSON()
+        },
+        message: 'Message sent successfully'
+      }, { status: 201 });
+    } catch (sendError: any) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: sendError.message } },
+        { status: 400 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Messages POST error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to send message' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Conversation from '@/lib/database/models/Conversation';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+
+/**
+ * POST /api/chat/conversations/[id]/read
+ * Marks a conversation as read for the authenticated user
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid conversation ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const conversation = await Conversation.findById(params.id);
+    if (!conversation || !conversation.isParticipant(authResult.user.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Conversation not found' } },
+        { status: 404 }
+      );
+    }
+
+    await conversation.markAsRead(authResult.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        conversationId: params.id,
+        unreadCount: 0
+      }
+    });
+
+  } catch (error) {
+    console.error('Conversation read POST error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to mark conversation as read' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Conversation from '@/lib/database/models/Conversation';
+import User from '@/lib/database/models/User';
+import { ChatService } from '@/lib/services/ChatService';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+
+/**
+ * GET /api/chat/conversations
+ * Lists the authenticated user's conversations with unread counts
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const conversations = await ChatService.getConversationsForUser(authResult.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        conversations,
+        currentUserId: authResult.user.id,
+        serverTime: new Date().toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Conversations GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve conversations' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/chat/conversations
+ * Opens a direct conversation with another user, or creates a group conversation
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const body = await request.json();
+    const { participantIds, name } = body;
+    const userId = authResult.user.id;
+
+    if (!Array.isArray(participantIds) || participantIds.length === 0) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'At least one participant is required' } },
+        { status: 400 }
+      );
+    }
+
+    const otherIds: string[] = Array.from(new Set<string>(participantIds.map(String))).filter(id => id !== userId);
+    if (otherIds.length === 0 || otherIds.some(id => !Types.ObjectId.isValid(id))) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid participants' } },
+        { status: 400 }
+      );
+    }
+
+    // Participants must be active users of this deployment
+    const activeCount = await User.countDocuments({ _id: { $in: otherIds }, isActive: true });
+    if (activeCount !== otherIds.length) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'One or more participants were not found' } },
+        { status: 400 }
+      );
+    }
+
+    let conversation;
+    let created = true;
+
+    if (otherIds.length === 1 && !name) {
+      ({ conversation, created } = await ChatService.findOrCreateDirect(userId, otherIds[0]));
+    } else {
+      if (!name?.trim()) {
+        return NextResponse.json(
+          { success: false, error: { code: 'VALIDATION_ERROR', message: 'Group conversations need a name' } },
+          { status: 400 }
+        );
+      }
+
+      conversation = await new Conversation({
+        type: 'group',
+        name: name.trim(),
+        participants: [userId, ...otherIds],
+        readState: [{ userId, lastReadAt: new Date() }],
+        createdBy: userId
+      }).save();
+    }
+
+    const participantMap = await ChatService.getParticipantMap([conversation]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        conversation: ChatService.toSummary(conversation, participantMap)
+      },
+      message: created ? 'Conversation created successfully' : 'Conversation already exists'
+    }, { status: created ? 201 : 200 });
+
+  } catch (error) {
+    console.error('Conversations POST error:', error);
+
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create conversation' } },
+      { status: 500 }
+    );
+  }
+}
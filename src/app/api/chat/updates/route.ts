@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChatService } from '@/lib/services/ChatService';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+
+/**
+ * GET /api/chat/updates?since=<ISO date>
+ * Polling endpoint returning new messages, changed conversations and unread counts
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const sinceParam = searchParams.get('since');
+    const since = sinceParam ? new Date(sinceParam) : new Date(Date.now() - 60 * 1000);
+
+    if (isNaN(since.getTime())) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid since timestamp' } },
+        { status: 400 }
+      );
+    }
+
+    // Capture server time before querying so no message falls between polls
+    const serverTime = new Date();
+    const updates = await ChatService.getUpdates(authResult.user.id, since);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...updates,
+        serverTime: serverTime.toISOString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Chat updates GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve chat updates' } },
+      { status: 500 }
+    );
+  }
+}
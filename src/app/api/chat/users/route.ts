@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/database/connection';
+import User from '@/lib/database/models/User';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+
+/**
+ * GET /api/chat/users
+ * Lists active users the authenticated user can start a conversation with
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const users = await User.find({
+      _id: { $ne: authResult.user.id },
+      isActive: true,
+      status: 'active'
+    })
+      .select('firstName lastName name email profileImage avatar designation')
+      .sort({ firstName: 1, lastName: 1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        users
+      }
+    });
+
+  } catch (error) {
+    console.error('Chat users GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve users' } },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import * as yup from 'yup';
 import { JWTManager } from '@/lib/auth/jwt';
 import { connectToDatabase } from '@/lib/database/connection';
-import fs from 'fs/promises';
-import path from 'path';
+import { loadCompanySettings, saveCompanySettings } from '@/lib/utils/company-settings';
 
 const companySettingsSchema = yup.object({
   name: yup.string().required('Company name is required').max(100, 'Company name cannot exceed 100 characters'),
@@ -15,44 +14,6 @@ const companySettingsSchema = yup.object({
   logoUrl: yup.string().nullable().transform((value) => value || null)
 });
 
-const COMPANY_SETTINGS_FILE = path.join(process.cwd(), 'data', 'company-settings.json');
-
-// Ensure data directory exists
-async function ensureDataDirectory() {
-  const dataDir = path.dirname(COMPANY_SETTINGS_FILE);
-  try {
-    await fs.access(dataDir);
-  } catch {
-    await fs.mkdir(dataDir, { recursive: true });
-  }
-}
-
-// Load company settings from file
-async function loadCompanySettings() {
-  try {
-    await ensureDataDirectory();
-    const data = await fs.readFile(COMPANY_SETTINGS_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch {
-    // Return default settings if file doesn't exist
-    return {
-      name: '',
-      email: '',
-      phone: '',
-      address: '',
-      website: '',
-      taxNumber: '',
-      logoUrl: ''
-    };
-  }
-}
-
-// Save company settings to file
-async function saveCompanySettings(settings: any) {
-  await ensureDataDirectory();
-  await fs.writeFile(COMPANY_SETTINGS_FILE, JSON.stringify(settings, null, 2));
-}
-
 /**
  * GET /api/company - Get company settings
  */
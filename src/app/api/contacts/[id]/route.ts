@@ -0,0 +1,243 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Customer from '@/lib/database/models/Customer';
+import Invoice from '@/lib/database/models/Invoice';
+import Sale from '@/lib/database/models/Sale';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const CONTACT_FIELDS = [
+  'firstName', 'lastName', 'email', 'phone', 'company', 'department',
+  'image', 'addresses', 'tags', 'notes', 'starred', 'frequentlyContacted'
+];
+const RECENT_ACTIVITY_LIMIT = 10;
+
+/**
+ * GET /api/contacts/[id]
+ * Retrieves a customer with their lifetime invoices, sales totals and outstanding balance
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid contact ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const userId = await WorkspaceService.getScopeUserId(authResult.user.id);
+    const contact = await Customer.findOne({ _id: params.id, userId, isDeleted: false }).lean();
+
+    if (!contact) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Contact not found' } },
+        { status: 404 }
+      );
+    }
+
+    const [invoiceSummary, salesSummary, invoices, sales] = await Promise.all([
+      Invoice.getCustomerSummary(params.id, userId),
+      Sale.getCustomerSalesSummary(params.id, userId),
+      Invoice.find({ customerId: params.id, userId })
+        .select('invoiceNumber orderDate dueDate grandTotal status')
+        .sort({ orderDate: -1 })
+        .limit(RECENT_ACTIVITY_LIMIT)
+        .lean(),
+      Sale.find({ customerId: params.id, userId })
+        .select('productId quantity unitPrice totalAmount date')
+        .sort({ date: -1 })
+        .limit(RECENT_ACTIVITY_LIMIT)
+        .lean()
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        contact,
+        summary: {
+          ...invoiceSummary,
+          ...salesSummary
+        },
+        invoices,
+        sales
+      }
+    });
+
+  } catch (error) {
+    console.error('Contact GET by ID error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve contact' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/contacts/[id]
+ * Updates customer details
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid contact ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const contact = await Customer.findOne({
+      _id: params.id,
+      userId: scopeUserId,
+      isDeleted: false
+    });
+
+    if (!contact) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Contact not found' } },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (body.firstName !== undefined && !body.firstName?.trim()) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'First name cannot be empty' } },
+        { status: 400 }
+      );
+    }
+
+    // Prevent duplicate customers with the same email
+    if (body.email?.trim() && body.email.trim().toLowerCase() !== contact.email) {
+      const existing = await Customer.findByEmailAndUser(body.email, scopeUserId);
+      if (existing && existing._id?.toString() !== contact._id?.toString()) {
+        return NextResponse.json(
+          { success: false, error: { code: 'DUPLICATE_CONTACT', message: 'A contact with this email already exists' } },
+          { status: 409 }
+        );
+      }
+    }
+
+    CONTACT_FIELDS.forEach((field) => {
+      if (body[field] !== undefined) contact.set(field, body[field]);
+    });
+
+    const updatedContact = await contact.save();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        contact: updatedContact.toJSON()
+      },
+      message: 'Contact updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Contact PATCH error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update contact' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/contacts/[id]
+ * Soft deletes a customer so existing invoices and sales keep their reference
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid contact ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const contact = await Customer.findOne({
+      _id: params.id,
+      userId: scopeUserId,
+      isDeleted: false
+    });
+
+    if (!contact) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Contact not found' } },
+        { status: 404 }
+      );
+    }
+
+    await contact.softDelete();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Contact deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Contact DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete contact' } },
+      { status: 500 }
+    );
+  }
+}
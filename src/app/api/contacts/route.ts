@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/database/connection';
+import Customer from '@/lib/database/models/Customer';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const CONTACT_FIELDS = [
+  'firstName', 'lastName', 'email', 'phone', 'company', 'department',
+  'image', 'addresses', 'tags', 'notes', 'starred', 'frequentlyContacted'
+];
+
+/**
+ * Escape user input for use inside a regular expression
+ */
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * GET /api/contacts
+ * Retrieves customers for the authenticated user with optional search and filters
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(parseInt(searchParams.get('page') || '1'), 1);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500);
+    const search = searchParams.get('search');
+    const tag = searchParams.get('tag');
+    const starred = searchParams.get('starred');
+    const department = searchParams.get('department');
+
+    // Build query
+    const query: any = { userId: scopeUserId, isDeleted: false };
+
+    if (search?.trim()) {
+      const pattern = new RegExp(escapeRegex(search.trim()), 'i');
+      query.$or = [
+        { firstName: pattern },
+        { lastName: pattern },
+        { email: pattern },
+        { phone: pattern },
+        { company: pattern },
+        { tags: pattern }
+      ];
+    }
+
+    if (tag) {
+      query.tags = tag.trim().toLowerCase();
+    }
+
+    if (starred === 'true') {
+      query.starred = true;
+    }
+
+    if (department) {
+      query.department = department;
+    }
+
+    // Execute query with pagination
+    const skip = (page - 1) * limit;
+    const [contacts, total, tags] = await Promise.all([
+      Customer.find(query)
+        .sort({ firstName: 1, lastName: 1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      Customer.countDocuments(query),
+      Customer.getTagsByUser(scopeUserId)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        contacts,
+        tags,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Contacts GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve contacts' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/contacts
+ * Creates a new customer
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    // Parse request body
+    const body = await request.json();
+
+    // Validate required fields
+    if (!body.firstName?.trim()) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'First name is required' } },
+        { status: 400 }
+      );
+    }
+
+    // Prevent duplicate customers with the same email
+    if (body.email?.trim()) {
+      const existing = await Customer.findByEmailAndUser(body.email, scopeUserId);
+      if (existing) {
+        return NextResponse.json(
+          { success: false, error: { code: 'DUPLICATE_CONTACT', message: 'A contact with this email already exists' } },
+          { status: 409 }
+        );
+      }
+    }
+
+    const contactData: Record<string, any> = {
+      userId: scopeUserId,
+      createdBy: authResult.user.email
+    };
+    CONTACT_FIELDS.forEach((field) => {
+      if (body[field] !== undefined) contactData[field] = body[field];
+    });
+
+    const contact = new Customer(contactData);
+    const savedContact = await contact.save();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        contact: savedContact.toJSON()
+      },
+      message: 'Contact created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Contacts POST error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create contact' } },
+      { status: 500 }
+    );
+  }
+}
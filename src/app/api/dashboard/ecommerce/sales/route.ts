@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { EcommerceDashboardService } from '@/lib/services/ecommerce-dashboard';
 import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
@@ -15,7 +16,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(response, { status });
     }
 
-    const userId = authResult.user.id;
+    const userId = await WorkspaceService.getScopeUserId(authResult.user.id);
 
     // Get sales data
     const salesData = await EcommerceDashboardService.getSalesData(userId);
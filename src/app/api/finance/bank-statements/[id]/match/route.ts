@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { BankReconciliationService } from '@/lib/services/BankReconciliationService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * POST /api/finance/bank-statements/[id]/match
+ * Re-run automatic matching for the statement's unmatched lines
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const matched = await BankReconciliationService.rematchStatement(scopeUserId, params.id);
+    if (matched === null) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Bank statement not found'
+        }
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { matched },
+      message: `${matched} lines matched`
+    });
+
+  } catch (error) {
+    console.error('Match bank statement error:', error);
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to match bank statement',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, { status: 500 });
+  }
+}
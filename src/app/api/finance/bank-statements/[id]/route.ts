@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { BankReconciliationService } from '@/lib/services/BankReconciliationService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/finance/bank-statements/[id]
+ * Retrieve a statement with its staged lines
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const result = await BankReconciliationService.getStatement(scopeUserId, params.id);
+    if (!result) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Bank statement not found'
+        }
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('Get bank statement error:', error);
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch bank statement',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/finance/bank-statements/[id]
+ * Delete a statement and its lines; income and expenses created from it are kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const deleted = await BankReconciliationService.deleteStatement(scopeUserId, params.id);
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'Bank statement not found'
+        }
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Bank statement deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete bank statement error:', error);
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to delete bank statement',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, { status: 500 });
+  }
+}
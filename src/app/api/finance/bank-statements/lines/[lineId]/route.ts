@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { BankReconciliationService, BankLineResult } from '@/lib/services/BankReconciliationService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const STATUS_BY_ERROR: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  NOT_FOUND: 404,
+  INVALID_STATUS: 409,
+  CONFLICT: 409
+};
+
+/**
+ * PATCH /api/finance/bank-statements/lines/[lineId]
+ * Reconcile one line: match it to a record, create a record from it,
+ * ignore it, or reset it back to unmatched
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { lineId: string } }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const userId = await WorkspaceService.getScopeUserId(authResult.userId);
+    let result: BankLineResult;
+
+    switch (body.action) {
+      case 'match':
+        if (!['income', 'expense', 'invoice_payment'].includes(body.type) || !body.recordId) {
+          return NextResponse.json({
+            success: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Record type and ID are required to match a line'
+            }
+          }, { status: 400 });
+        }
+        result = await BankReconciliationService.matchLine(userId, params.lineId, {
+          type: body.type,
+          recordId: body.recordId,
+          invoiceId: body.invoiceId
+        });
+        break;
+      case 'create':
+        result = await BankReconciliationService.createRecord(userId, params.lineId, {
+          categoryId: body.categoryId,
+          vendorId: body.vendorId,
+          description: body.description
+        });
+        break;
+      case 'ignore':
+        result = await BankReconciliationService.ignoreLine(userId, params.lineId);
+        break;
+      case 'reset':
+        result = await BankReconciliationService.resetLine(userId, params.lineId);
+        break;
+      default:
+        return NextResponse.json({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Action must be one of: match, create, ignore, reset'
+          }
+        }, { status: 400 });
+    }
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: STATUS_BY_ERROR[result.error?.code || ''] || 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.line
+    });
+
+  } catch (error) {
+    console.error('Update bank statement line error:', error);
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to update bank statement line',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { BankReconciliationService } from '@/lib/services/BankReconciliationService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/finance/bank-statements/reconciliation?month=YYYY-MM&accountName=
+ * Month-end reconciliation summary for a bank account
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const { searchParams } = request.nextUrl;
+    const month = searchParams.get('month') || new Date().toISOString().slice(0, 7);
+    const accountName = searchParams.get('accountName') || undefined;
+
+    const reconciliation = await BankReconciliationService.getMonthlyReconciliation(scopeUserId, month, accountName);
+    if (!reconciliation) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Month must be in YYYY-MM format'
+        }
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: reconciliation
+    });
+
+  } catch (error) {
+    console.error('Bank reconciliation summary error:', error);
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to build reconciliation summary',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, { status: 500 });
+  }
+}
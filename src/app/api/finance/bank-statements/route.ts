@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { connectDB } from '@/lib/database/connection';
+import BankStatement from '@/lib/database/models/BankStatement';
+import { BankReconciliationService } from '@/lib/services/BankReconciliationService';
+import { BANK_STATEMENT_FORMATS } from '@/lib/utils/bank-statement-parser';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+// Statement files are sent as text; larger files are split by month first
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+/**
+ * GET /api/finance/bank-statements
+ * List the user's imported bank statements, optionally for one account
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    await connectDB();
+
+    const accountName = request.nextUrl.searchParams.get('accountName') || undefined;
+    const statements = await BankStatement.findByUser(scopeUserId, accountName);
+    const accounts = await BankStatement.distinct('accountName', { userId: scopeUserId });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        statements,
+        accounts
+      }
+    });
+
+  } catch (error) {
+    console.error('List bank statements error:', error);
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to fetch bank statements',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/finance/bank-statements
+ * Import a bank CSV, OFX/QFX or QIF statement and auto-match its lines
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const body = await request.json();
+    const { fileName, content, accountName, format, dateOrder } = body;
+
+    if (typeof content !== 'string' || !content.trim() || typeof fileName !== 'string' || !fileName.trim()) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Statement file name and content are required'
+        }
+      }, { status: 400 });
+    }
+
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Statement file is too large. Maximum size is 5MB'
+        }
+      }, { status: 400 });
+    }
+
+    if (format && !BANK_STATEMENT_FORMATS.includes(format)) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: `Format must be one of: ${BANK_STATEMENT_FORMATS.join(', ')}`
+        }
+      }, { status: 400 });
+    }
+
+    if (dateOrder && dateOrder !== 'DMY' && dateOrder !== 'MDY') {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Date order must be DMY or MDY'
+        }
+      }, { status: 400 });
+    }
+
+    const result = await BankReconciliationService.importStatement(scopeUserId, {
+      fileName: fileName.trim(),
+      content,
+      accountName,
+      format,
+      dateOrder
+    });
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error,
+        parseErrors: result.parseErrors
+      }, { status: result.error?.code === 'DUPLICATE_STATEMENT' ? 409 : 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        statement: result.statement,
+        imported: result.imported,
+        duplicates: result.duplicates,
+        matched: result.matched,
+        parseErrors: result.parseErrors
+      },
+      message: `Imported ${result.imported} transactions, ${result.matched} matched automatically`
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Import bank statement error:', error);
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to import bank statement',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/database/connection';
+import Budget from '@/lib/database/models/Budget';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { BudgetService } from '@/lib/services/BudgetService';
+import { pickBudgetInput } from '../validation';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * PUT /api/finance/budgets/[id]
+ * Updates a budget's amount, thresholds or active state
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const body = await request.json();
+    const result = await BudgetService.updateBudget(scopeUserId, params.id, pickBudgetInput(body));
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error?.code === 'NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    BudgetService.checkBudgetAlertsInBackground(scopeUserId, result.budget!.categoryId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        budget: result.budget
+      },
+      message: 'Budget updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Budget PUT error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update budget' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/finance/budgets/[id]
+ * Deletes a budget
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    await connectDB();
+
+    const budget = await Budget.findOneAndDelete({
+      _id: params.id,
+      userId: scopeUserId
+    });
+
+    if (!budget) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Budget not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Budget deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Budget DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete budget' } },
+      { status: 500 }
+    );
+  }
+}
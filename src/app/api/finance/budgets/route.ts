@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { BudgetService } from '@/lib/services/BudgetService';
+import { pickBudgetInput } from './validation';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * GET /api/finance/budgets
+ * Retrieves the user's budgets with spending for the current month or quarter
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    // Optional date to look at the periods containing it
+    const dateParam = request.nextUrl.searchParams.get('date');
+    const date = dateParam ? new Date(dateParam) : new Date();
+    if (isNaN(date.getTime())) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid date' } },
+        { status: 400 }
+      );
+    }
+
+    const budgets = await BudgetService.getBudgetStatuses(scopeUserId, date);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        budgets
+      }
+    });
+
+  } catch (error) {
+    console.error('Budgets GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch budgets' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/finance/budgets
+ * Creates a monthly or quarterly budget for an expense category
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const body = await request.json();
+    const result = await BudgetService.createBudget(scopeUserId, pickBudgetInput(body));
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error?.code === 'DUPLICATE_BUDGET' ? 409 : 400 }
+      );
+    }
+
+    // Spending may already be past a threshold
+    BudgetService.checkBudgetAlertsInBackground(scopeUserId, result.budget!.categoryId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        budget: result.budget
+      },
+      message: 'Budget created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Budgets POST error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create budget' } },
+      { status: 500 }
+    );
+  }
+}
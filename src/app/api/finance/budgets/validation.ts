@@ -0,0 +1,19 @@
+import { BudgetInput } from '@/lib/services/BudgetService';
+
+/**
+ * Picks the fields a client may set on a budget
+ */
+export function pickBudgetInput(body: any): BudgetInput {
+  const input: BudgetInput = {};
+
+  if (body.categoryId !== undefined) input.categoryId = body.categoryId || undefined;
+  if (body.period !== undefined) input.period = body.period;
+  if (body.amount !== undefined) input.amount = Number(body.amount);
+  if (body.isActive !== undefined) input.isActive = Boolean(body.isActive);
+
+  if (Array.isArray(body.thresholds)) {
+    input.thresholds = body.thresholds.map(Number);
+  }
+
+  return input;
+}
@@ -3,6 +3,7 @@ import { connectDB } from '@/lib/database/connection';
 import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
 import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
 import { ensureDefaultCategories } from '@/lib/database/seeders/default-categories';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/finance/categories/expense
@@ -22,17 +23,19 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectDB();
 
     // Ensure default categories exist for this user
-    await ensureDefaultCategories(authResult.user.id);
+    await ensureDefaultCategories(scopeUserId);
 
     // Parse query parameters
     const { searchParams } = new URL(request.url);
     const includeDefaults = searchParams.get('includeDefaults') !== 'false'; // Default to true
     const search = searchParams.get('search');
 
-    let query: any = { userId: authResult.user.id };
+    let query: any = { userId: scopeUserId };
 
     // Add search filter if provided
     if (search) {
@@ -84,6 +87,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectDB();
 
     // Parse request body
@@ -99,7 +104,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check for duplicate category name
-    const existingCategory = await ExpenseCategory.findByNameAndUser(name.trim(), authResult.user.id);
+    const existingCategory = await ExpenseCategory.findByNameAndUser(name.trim(), scopeUserId);
     if (existingCategory) {
       return NextResponse.json(
         { success: false, error: { code: 'DUPLICATE_ERROR', message: 'Category name already exists' } },
@@ -111,7 +116,7 @@ export async function POST(request: NextRequest) {
     const categoryData = {
       name: name.trim(),
       description: description?.trim() || null,
-      userId: authResult.user.id,
+      userId: scopeUserId,
       isDefault: false
     };
 
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/database/connection';
+import CategorizationRule from '@/lib/database/models/CategorizationRule';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { CategorizationRuleService } from '@/lib/services/CategorizationRuleService';
+import { pickRuleInput } from '../validation';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * PUT /api/finance/categorization-rules/[id]
+ * Updates a categorization rule
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const body = await request.json();
+    const result = await CategorizationRuleService.updateRule(scopeUserId, params.id, pickRuleInput(body));
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error?.code === 'NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rule: result.rule
+      },
+      message: 'Categorization rule updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Categorization rule PUT error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update categorization rule' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/finance/categorization-rules/[id]
+ * Deletes a categorization rule; records it already categorized keep their category
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    await connectDB();
+
+    const rule = await CategorizationRule.findOneAndDelete({
+      _id: params.id,
+      userId: scopeUserId
+    });
+
+    if (!rule) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Categorization rule not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Categorization rule deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Categorization rule DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete categorization rule' } },
+      { status: 500 }
+    );
+  }
+}
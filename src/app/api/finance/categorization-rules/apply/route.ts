@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { CategorizationRuleService, RerunOptions } from '@/lib/services/CategorizationRuleService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * POST /api/finance/categorization-rules/apply
+ * Re-runs the active rules over existing records
+ * With dryRun (the default) it only returns the changes it would make
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const body = await request.json();
+    const { type, onlyUncategorized, startDate, endDate, dryRun = true } = body;
+
+    if (type !== 'income' && type !== 'expense') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Type must be income or expense' } },
+        { status: 400 }
+      );
+    }
+
+    const options: RerunOptions = {
+      type,
+      onlyUncategorized: onlyUncategorized !== false,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined
+    };
+
+    if ([options.startDate, options.endDate].some(date => date && isNaN(date.getTime()))) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid date range' } },
+        { status: 400 }
+      );
+    }
+
+    if (dryRun) {
+      const changes = await CategorizationRuleService.previewRerun(scopeUserId, options);
+      return NextResponse.json({
+        success: true,
+        data: {
+          changes,
+          count: changes.length
+        }
+      });
+    }
+
+    const updated = await CategorizationRuleService.rerun(scopeUserId, options);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        updated
+      },
+      message: `${updated} ${type} records recategorized`
+    });
+
+  } catch (error) {
+    console.error('Categorization rules apply error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to apply categorization rules' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/database/connection';
+import CategorizationRule from '@/lib/database/models/CategorizationRule';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { CategorizationRuleService } from '@/lib/services/CategorizationRuleService';
+import { pickRuleInput } from './validation';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * GET /api/finance/categorization-rules
+ * Retrieves the user's categorization rules in the order they run
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    await connectDB();
+
+    const type = request.nextUrl.searchParams.get('type');
+    const rules = await CategorizationRule.findByUser(
+      scopeUserId,
+      type === 'income' || type === 'expense' ? type : undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rules
+      }
+    });
+
+  } catch (error) {
+    console.error('Categorization rules GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch categorization rules' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/finance/categorization-rules
+ * Creates a categorization rule
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const body = await request.json();
+    const result = await CategorizationRuleService.createRule(scopeUserId, pickRuleInput(body));
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rule: result.rule
+      },
+      message: 'Categorization rule created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Categorization rules POST error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create categorization rule' } },
+      { status: 500 }
+    );
+  }
+}
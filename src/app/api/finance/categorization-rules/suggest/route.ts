@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { CategorizationRuleService } from '@/lib/services/CategorizationRuleService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * POST /api/finance/categorization-rules/suggest
+ * Returns the category and vendor the rules would assign to a record being entered
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const body = await request.json();
+    const { type, description, amount, vendorId } = body;
+
+    if (type !== 'income' && type !== 'expense') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Type must be income or expense' } },
+        { status: 400 }
+      );
+    }
+
+    const assignment = await CategorizationRuleService.categorize(scopeUserId, type, {
+      description: typeof description === 'string' ? description : '',
+      amount: amount === undefined || amount === '' ? undefined : Number(amount),
+      vendorId: vendorId || null
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: assignment
+    });
+
+  } catch (error) {
+    console.error('Categorization rules suggest error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to suggest a category' } },
+      { status: 500 }
+    );
+  }
+}
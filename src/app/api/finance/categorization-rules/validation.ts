@@ -0,0 +1,28 @@
+import { RuleInput } from '@/lib/services/CategorizationRuleService';
+
+/**
+ * Picks the fields a client may set on a categorization rule
+ */
+export function pickRuleInput(body: any): RuleInput {
+  const input: RuleInput = {};
+
+  if (body.name !== undefined) input.name = String(body.name);
+  if (body.type !== undefined) input.type = body.type;
+  if (body.categoryId !== undefined) input.categoryId = body.categoryId || undefined;
+  if (body.vendorId !== undefined) input.vendorId = body.vendorId || undefined;
+  if (body.priority !== undefined) input.priority = Number(body.priority);
+  if (body.isActive !== undefined) input.isActive = Boolean(body.isActive);
+
+  if (body.conditions && typeof body.conditions === 'object') {
+    const { descriptionContains, descriptionPattern, minAmount, maxAmount, vendorId } = body.conditions;
+    input.conditions = {
+      descriptionContains: descriptionContains || undefined,
+      descriptionPattern: descriptionPattern || undefined,
+      minAmount: minAmount === '' || minAmount == null ? undefined : Number(minAmount),
+      maxAmount: maxAmount === '' || maxAmount == null ? undefined : Number(maxAmount),
+      vendorId: vendorId || undefined
+    };
+  }
+
+  return input;
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { CurrencyService } from '@/lib/services/CurrencyService';
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from '@/lib/constants/currencies';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * GET /api/finance/currency
+ * Retrieves the reporting currency for the authenticated user
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const baseCurrency = await CurrencyService.getBaseCurrency(scopeUserId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        baseCurrency,
+        supportedCurrencies: SUPPORTED_CURRENCIES
+      }
+    });
+
+  } catch (error) {
+    console.error('Currency GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve currency settings' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/finance/currency
+ * Changes the reporting currency that finance summaries are converted to
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const body = await request.json();
+
+    if (!isSupportedCurrency(body.baseCurrency)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: `Base currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
+    const baseCurrency = await CurrencyService.setBaseCurrency(scopeUserId, body.baseCurrency);
+
+    return NextResponse.json({
+      success: true,
+      data: { baseCurrency },
+      message: `Reporting currency set to ${baseCurrency}`
+    });
+
+  } catch (error) {
+    console.error('Currency PUT error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update currency settings' } },
+      { status: 500 }
+    );
+  }
+}
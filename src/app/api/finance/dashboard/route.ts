@@ -8,6 +8,7 @@ import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
 import RecurringPayment from '@/lib/database/models/RecurringPayment';
 import Product from '@/lib/database/models/Product';
 import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/finance/dashboard
@@ -32,7 +33,7 @@ export async function GET(request: NextRequest) {
 
     await connectDB();
 
-    const userId = authResult.user.id;
+    const userId = await WorkspaceService.getScopeUserId(authResult.user.id);
 
     // Parse query parameters
     const { searchParams } = new URL(request.url);
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import ExchangeRate from '@/lib/database/models/ExchangeRate';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * PUT /api/finance/exchange-rates/[id]
+ * Updates the rate or notes of an exchange rate
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid exchange rate ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const exchangeRate = await ExchangeRate.findOne({ _id: params.id, userId: scopeUserId });
+    if (!exchangeRate) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Exchange rate not found' } },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { rate, notes } = body;
+
+    if (rate !== undefined) {
+      if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+        return NextResponse.json(
+          { success: false, error: { code: 'VALIDATION_ERROR', message: 'Rate must be a positive number' } },
+          { status: 400 }
+        );
+      }
+      exchangeRate.rate = rate;
+    }
+
+    if (notes !== undefined) {
+      exchangeRate.notes = notes?.trim() || undefined;
+    }
+
+    await exchangeRate.save();
+
+    return NextResponse.json({
+      success: true,
+      data: { rate: exchangeRate },
+      message: 'Exchange rate updated successfully'
+    });
+
+  } catch (error: any) {
+    console.error('Exchange rate PUT error:', error);
+
+    if (error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update exchange rate' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/finance/exchange-rates/[id]
+ * Deletes an exchange rate
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid exchange rate ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const exchangeRate = await ExchangeRate.findOneAndDelete({ _id: params.id, userId: scopeUserId });
+    if (!exchangeRate) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Exchange rate not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Exchange rate deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Exchange rate DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete exchange rate' } },
+      { status: 500 }
+    );
+  }
+}
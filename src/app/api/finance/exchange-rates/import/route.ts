@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { CurrencyService } from '@/lib/services/CurrencyService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+// Rate files are small; anything larger is almost certainly the wrong file
+const MAX_CSV_SIZE = 1024 * 1024;
+
+/**
+ * POST /api/finance/exchange-rates/import
+ * Imports exchange rates from a CSV upload (multipart `file`) or a JSON body `{ csv }`
+ * Expected columns: from_currency, to_currency, rate, date (optional notes)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    let csv = '';
+    if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+      if (file && typeof file !== 'string') {
+        if (file.size > MAX_CSV_SIZE) {
+          return NextResponse.json(
+            { success: false, error: { code: 'FILE_TOO_LARGE', message: 'CSV file cannot exceed 1MB' } },
+            { status: 400 }
+          );
+        }
+        csv = await file.text();
+      }
+    } else {
+      const body = await request.json();
+      csv = typeof body.csv === 'string' ? body.csv : '';
+    }
+
+    if (!csv.trim()) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'A CSV file with exchange rates is required' } },
+        { status: 400 }
+      );
+    }
+
+    if (csv.length > MAX_CSV_SIZE) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FILE_TOO_LARGE', message: 'CSV file cannot exceed 1MB' } },
+        { status: 400 }
+      );
+    }
+
+    const result = await CurrencyService.importRatesFromCsv(scopeUserId, csv);
+
+    return NextResponse.json({
+      success: result.failed < result.totalRows,
+      data: result,
+      message: `Imported ${result.created + result.updated} of ${result.totalRows} exchange rates`
+    }, { status: result.failed < result.totalRows ? 200 : 400 });
+
+  } catch (error) {
+    console.error('Exchange rate import error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to import exchange rates' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/database/connection';
+import ExchangeRate from '@/lib/database/models/ExchangeRate';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { CurrencyService } from '@/lib/services/CurrencyService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * GET /api/finance/exchange-rates
+ * Retrieves exchange rates for the authenticated user
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    await connectDB();
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const fromCurrency = searchParams.get('fromCurrency');
+    const toCurrency = searchParams.get('toCurrency');
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+
+    const query: any = { userId: scopeUserId };
+    if (fromCurrency) query.fromCurrency = fromCurrency.toUpperCase();
+    if (toCurrency) query.toCurrency = toCurrency.toUpperCase();
+
+    const skip = (page - 1) * limit;
+    const [rates, total, baseCurrency] = await Promise.all([
+      ExchangeRate.find(query)
+        .sort({ effectiveDate: -1, fromCurrency: 1, toCurrency: 1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      ExchangeRate.countDocuments(query),
+      CurrencyService.getBaseCurrency(scopeUserId)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        rates,
+        baseCurrency,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Exchange rates GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve exchange rates' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/finance/exchange-rates
+ * Records an exchange rate; a rate already entered for the same pair and day is replaced
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const body = await request.json();
+    const { fromCurrency, toCurrency, rate, effectiveDate, notes } = body;
+
+    const result = await CurrencyService.saveRate(scopeUserId, {
+      fromCurrency,
+      toCurrency,
+      rate,
+      effectiveDate,
+      notes
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { rate: result.rate },
+      message: result.created ? 'Exchange rate created successfully' : 'Exchange rate updated successfully'
+    }, { status: result.created ? 201 : 200 });
+
+  } catch (error: any) {
+    console.error('Exchange rates POST error:', error);
+
+    if (error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to save exchange rate' } },
+      { status: 500 }
+    );
+  }
+}
@@ -3,7 +3,13 @@ import { connectDB } from '@/lib/database/connection';
 import Expense from '@/lib/database/models/Expense';
 import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
 import Vendor from '@/lib/database/models/Vendor';
-import { verifyJWT } from '@/lib/auth/jwt';
+import { setAuditActor, auditActor } from '@/lib/database/audit-trail';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+import { BudgetService } from '@/lib/services/BudgetService';
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from '@/lib/constants/currencies';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/finance/expenses/[id]
@@ -12,34 +18,20 @@ import { verifyJWT } from '@/lib/auth/jwt';
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-export async function GET(
+async function handleGetExpense(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find expense record
     const expense = await Expense.findOne({
       _id: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     }).lean();
 
     if (!expense) {
@@ -81,34 +73,20 @@ export async function GET(
  * PUT /api/finance/expenses/[id]
  * Updates a specific expense record
  */
-export async function PUT(
+async function handleUpdateExpense(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find existing expense record
     const existingExpense = await Expense.findOne({
       _id: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     });
 
     if (!existingExpense) {
@@ -120,7 +98,7 @@ export async function PUT(
 
     // Parse request body
     const body = await request.json();
-    const { amount, description, date, categoryId, vendorId, isRecurring, recurringPaymentId } = body;
+    const { amount, description, date, categoryId, vendorId, isRecurring, recurringPaymentId, currency } = body;
 
     // Validate amount if provided
     if (amount !== undefined && (typeof amount !== 'number' || amount <= 0)) {
@@ -130,12 +108,20 @@ export async function PUT(
       );
     }
 
+    // Validate currency if provided
+    if (currency !== undefined && !isSupportedCurrency(currency)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
     // Validate category if provided
     let category = null;
     if (categoryId && categoryId !== existingExpense.categoryId) {
       category = await ExpenseCategory.findOne({
         _id: categoryId,
-        userId: decoded.userId
+        userId: scopeUserId
       });
 
       if (!category) {
@@ -151,7 +137,7 @@ export async function PUT(
     if (vendorId && vendorId !== existingExpense.vendorId) {
       vendor = await Vendor.findOne({
         _id: vendorId,
-        userId: decoded.userId
+        userId: scopeUserId
       });
 
       if (!vendor) {
@@ -164,6 +150,7 @@ export async function PUT(
 
     // Update fields
     if (amount !== undefined) existingExpense.amount = amount;
+    if (currency !== undefined) existingExpense.currency = currency.toUpperCase();
     if (description !== undefined) existingExpense.description = description.trim();
     if (date !== undefined) existingExpense.date = new Date(date);
     if (categoryId !== undefined) existingExpense.categoryId = categoryId;
@@ -171,7 +158,10 @@ export async function PUT(
     if (isRecurring !== undefined) existingExpense.isRecurring = Boolean(isRecurring);
     if (recurringPaymentId !== undefined) existingExpense.recurringPaymentId = recurringPaymentId;
 
-    const updatedExpense = await existingExpense.save();
+    const updatedExpense = await setAuditActor(existingExpense, user.id).save();
+
+    // A larger amount or a new category can push a budget past a threshold
+    BudgetService.checkBudgetAlertsInBackground(scopeUserId, updatedExpense.categoryId);
 
     // Get enriched data for response
     const [finalCategory, finalVendor] = await Promise.all([
@@ -215,35 +205,21 @@ export async function PUT(
  * DELETE /api/finance/expenses/[id]
  * Deletes a specific expense record
  */
-export async function DELETE(
+async function handleDeleteExpense(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find and delete expense record
     const deletedExpense = await Expense.findOneAndDelete({
       _id: params.id,
-      userId: decoded.userId
-    });
+      userId: scopeUserId
+    }, auditActor(user.id));
 
     if (!deletedExpense) {
       return NextResponse.json(
@@ -267,4 +243,9 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching finance scope
+export const GET = withApiPermission(PERMISSIONS.FINANCE_READ, handleGetExpense);
+export const PUT = withApiPermission(PERMISSIONS.FINANCE_UPDATE, handleUpdateExpense);
+export const DELETE = withApiPermission(PERMISSIONS.FINANCE_DELETE, handleDeleteExpense);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/database/connection';
 import { authenticateRequest } from '@/lib/auth/api-auth';
 import { FinanceImportService } from '@/lib/services/financeImportService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 // Basic validation functions to replace Zod
 function validateImportRequest(body: any): { success: boolean; data?: any; error?: any } {
@@ -75,6 +76,8 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const body = await request.json();
@@ -154,7 +157,7 @@ export async function POST(request: NextRequest) {
       data,
       mapping,
       'expense',
-      authResult.userId,
+      scopeUserId,
       options
     );
 
@@ -205,6 +208,8 @@ export async function PUT(request: NextRequest) {
         }
       }, { status: 401 });
     }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
     
     console.log('✅ [Expense Validation] Authentication successful, userId:', authResult.userId);
 
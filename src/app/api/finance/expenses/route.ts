@@ -3,8 +3,17 @@ import { connectDB } from '@/lib/database/connection';
 import Expense from '@/lib/database/models/Expense';
 import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
 import Vendor from '@/lib/database/models/Vendor';
-import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { setAuditActor } from '@/lib/database/audit-trail';
+import { createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
 import { ensureDefaultCategories } from '@/lib/database/seeders/default-categories';
+import { CurrencyService } from '@/lib/services/CurrencyService';
+import { CategorizationRuleService } from '@/lib/services/CategorizationRuleService';
+import { BudgetService } from '@/lib/services/BudgetService';
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from '@/lib/constants/currencies';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/finance/expenses
@@ -13,21 +22,14 @@ import { ensureDefaultCategories } from '@/lib/database/seeders/default-categori
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
+async function handleGetExpenses(request: NextRequest, user: AuthenticatedUser) {
   try {
-    // Verify authentication
-    const authResult = await authenticateApiRequest(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json(
-        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Ensure default categories exist for this user
-    await ensureDefaultCategories(authResult.user.id);
+    await ensureDefaultCategories(scopeUserId);
 
     // Parse query parameters
     const { searchParams } = new URL(request.url);
@@ -40,7 +42,7 @@ export async function GET(request: NextRequest) {
     const isRecurring = searchParams.get('isRecurring');
 
     // Build query
-    const query: any = { userId: authResult.user.id };
+    const query: any = { userId: scopeUserId };
 
     if (categoryId) {
       query.categoryId = categoryId;
@@ -98,7 +100,7 @@ export async function GET(request: NextRequest) {
     }));
 
     // Calculate totals
-    const totalAmount = await Expense.getTotalByUser(authResult.user.id);
+    const totalAmount = await Expense.getTotalByUser(scopeUserId);
 
     return NextResponse.json({
       success: true,
@@ -130,22 +132,16 @@ export async function GET(request: NextRequest) {
  * POST /api/finance/expenses
  * Creates a new expense record
  */
-export async function POST(request: NextRequest) {
+async function handleCreateExpense(request: NextRequest, user: AuthenticatedUser) {
   try {
-    // Verify authentication
-    const authResult = await authenticateApiRequest(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json(
-        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Parse request body
     const body = await request.json();
-    const { amount, description, date, categoryId, vendorId, isRecurring, recurringPaymentId } = body;
+    const { amount, description, date, isRecurring, recurringPaymentId, currency } = body;
+    let { categoryId, vendorId } = body;
 
     // Validate required fields
     if (!amount || !description) {
@@ -155,6 +151,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Fill a missing category or vendor from the user's categorization rules
+    if (!categoryId || !vendorId) {
+      const assignment = await CategorizationRuleService.categorize(scopeUserId, 'expense', { description, amount, vendorId });
+      categoryId = categoryId || assignment.categoryId;
+      vendorId = vendorId || assignment.vendorId;
+    }
+
     // Validate that either category or vendor is provided
     if (!categoryId && !vendorId) {
       return NextResponse.json(
@@ -171,12 +174,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate currency if provided
+    if (currency !== undefined && currency !== null && !isSupportedCurrency(currency)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
     // Validate category if provided
     let category = null;
     if (categoryId) {
       category = await ExpenseCategory.findOne({
         _id: categoryId,
-        userId: authResult.user.id
+        userId: scopeUserId
       });
 
       if (!category) {
@@ -192,7 +203,7 @@ export async function POST(request: NextRequest) {
     if (vendorId) {
       vendor = await Vendor.findOne({
         _id: vendorId,
-        userId: authResult.user.id
+        userId: scopeUserId
       });
 
       if (!vendor) {
@@ -206,17 +217,21 @@ export async function POST(request: NextRequest) {
     // Create expense record
     const expenseData = {
       amount,
+      currency: currency ? currency.toUpperCase() : await CurrencyService.getBaseCurrency(scopeUserId),
       description: description.trim(),
       date: date ? new Date(date) : new Date(),
       categoryId: categoryId || null,
       vendorId: vendorId || null,
       isRecurring: Boolean(isRecurring),
       recurringPaymentId: recurringPaymentId || null,
-      userId: authResult.user.id
+      userId: scopeUserId
     };
 
     const expense = new Expense(expenseData);
-    const savedExpense = await expense.save();
+    const savedExpense = await setAuditActor(expense, user.id).save();
+
+    // Alert if this expense takes its category past a budget threshold
+    BudgetService.checkBudgetAlertsInBackground(scopeUserId, savedExpense.categoryId);
 
     // Return the created expense with enriched data
     const enrichedExpense = {
@@ -249,4 +264,8 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching finance scope
+export const GET = withApiPermission(PERMISSIONS.FINANCE_READ, handleGetExpenses);
+export const POST = withApiPermission(PERMISSIONS.FINANCE_CREATE, handleCreateExpense);
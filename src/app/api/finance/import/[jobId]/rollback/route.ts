@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { ImportRollbackService } from '@/lib/services/ImportRollbackService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * POST /api/finance/import/[jobId]/rollback
+ * Undo a completed import: deletes the records it created, along with any
+ * categories and vendors it created that nothing else uses
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required'
+        }
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    const result = await ImportRollbackService.rollbackImportJob(params.jobId, scopeUserId);
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.error?.code === 'NOT_FOUND' ? 404 : 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.rollback,
+      message: 'Import rolled back successfully'
+    });
+
+  } catch (error) {
+    console.error('Rollback import job error:', error);
+    return NextResponse.json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to roll back import job',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }, { status: 500 });
+  }
+}
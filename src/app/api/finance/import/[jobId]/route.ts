@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { authenticateRequest } from '@/lib/auth/api-auth';
 import { FinanceImportService } from '@/lib/services/financeImportService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/finance/import/[jobId]
@@ -23,6 +24,8 @@ export async function GET(
       }, { status: 401 });
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     const { jobId } = params;
 
     if (!jobId) {
@@ -49,7 +52,7 @@ export async function GET(
     }
 
     // Check if user owns this job
-    if (jobStatus.userId !== authResult.userId) {
+    if (jobStatus.userId !== scopeUserId) {
       return NextResponse.json({
         success: false,
         error: {
@@ -98,6 +101,8 @@ export async function DELETE(
       }, { status: 401 });
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     const { jobId } = params;
 
     if (!jobId) {
@@ -124,7 +129,7 @@ export async function DELETE(
     }
 
     // Check if user owns this job
-    if (jobStatus.userId !== authResult.userId) {
+    if (jobStatus.userId !== scopeUserId) {
       return NextResponse.json({
         success: false,
         error: {
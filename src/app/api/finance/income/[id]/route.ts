@@ -2,7 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/database/connection';
 import Income from '@/lib/database/models/Income';
 import IncomeCategory from '@/lib/database/models/IncomeCategory';
-import { verifyJWT } from '@/lib/auth/jwt';
+import { setAuditActor, auditActor } from '@/lib/database/audit-trail';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from '@/lib/constants/currencies';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/finance/income/[id]
@@ -11,34 +16,20 @@ import { verifyJWT } from '@/lib/auth/jwt';
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-export async function GET(
+async function handleGetIncome(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find income record
     const income = await Income.findOne({
       _id: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     }).lean();
 
     if (!income) {
@@ -76,34 +67,20 @@ export async function GET(
  * PUT /api/finance/income/[id]
  * Updates a specific income record
  */
-export async function PUT(
+async function handleUpdateIncome(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find existing income record
     const existingIncome = await Income.findOne({
       _id: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     });
 
     if (!existingIncome) {
@@ -115,7 +92,7 @@ export async function PUT(
 
     // Parse request body
     const body = await request.json();
-    const { amount, description, date, categoryId, saleId, isRecurring, recurringPaymentId } = body;
+    const { amount, description, date, categoryId, saleId, isRecurring, recurringPaymentId, currency } = body;
 
     // Validate required fields
     if (amount !== undefined && (typeof amount !== 'number' || amount <= 0)) {
@@ -125,11 +102,19 @@ export async function PUT(
       );
     }
 
+    // Validate currency if provided
+    if (currency !== undefined && !isSupportedCurrency(currency)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
     // Validate category if provided
     if (categoryId && categoryId !== existingIncome.categoryId) {
       const category = await IncomeCategory.findOne({
         _id: categoryId,
-        userId: decoded.userId
+        userId: scopeUserId
       });
 
       if (!category) {
@@ -142,6 +127,7 @@ export async function PUT(
 
     // Update fields
     if (amount !== undefined) existingIncome.amount = amount;
+    if (currency !== undefined) existingIncome.currency = currency.toUpperCase();
     if (description !== undefined) existingIncome.description = description.trim();
     if (date !== undefined) existingIncome.date = new Date(date);
     if (categoryId !== undefined) existingIncome.categoryId = categoryId;
@@ -149,7 +135,7 @@ export async function PUT(
     if (isRecurring !== undefined) existingIncome.isRecurring = Boolean(isRecurring);
     if (recurringPaymentId !== undefined) existingIncome.recurringPaymentId = recurringPaymentId;
 
-    const updatedIncome = await existingIncome.save();
+    const updatedIncome = await setAuditActor(existingIncome, user.id).save();
 
     // Get category information
     const category = await IncomeCategory.findById(updatedIncome.categoryId).lean();
@@ -189,35 +175,21 @@ export async function PUT(
  * DELETE /api/finance/income/[id]
  * Deletes a specific income record
  */
-export async function DELETE(
+async function handleDeleteIncome(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find and delete income record
     const deletedIncome = await Income.findOneAndDelete({
       _id: params.id,
-      userId: decoded.userId
-    });
+      userId: scopeUserId
+    }, auditActor(user.id));
 
     if (!deletedIncome) {
       return NextResponse.json(
@@ -241,4 +213,9 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching finance scope
+export const GET = withApiPermission(PERMISSIONS.FINANCE_READ, handleGetIncome);
+export const PUT = withApiPermission(PERMISSIONS.FINANCE_UPDATE, handleUpdateIncome);
+export const DELETE = withApiPermission(PERMISSIONS.FINANCE_DELETE, handleDeleteIncome);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/database/connection';
 import { authenticateRequest } from '@/lib/auth/api-auth';
 import { FinanceImportService } from '@/lib/services/financeImportService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 // Basic validation functions to replace Zod
 function validateImportRequest(body: any): { success: boolean; data?: any; error?: any } {
@@ -74,6 +75,8 @@ export async function POST(request: NextRequest) {
       }, { status: 401 });
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const body = await request.json();
@@ -141,7 +144,7 @@ export async function POST(request: NextRequest) {
       data,
       mapping,
       'income',
-      authResult.userId,
+      scopeUserId,
       options
     );
 
@@ -2,7 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/database/connection';
 import Income from '@/lib/database/models/Income';
 import IncomeCategory from '@/lib/database/models/IncomeCategory';
-import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { setAuditActor } from '@/lib/database/audit-trail';
+import { createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+import { CurrencyService } from '@/lib/services/CurrencyService';
+import { CategorizationRuleService } from '@/lib/services/CategorizationRuleService';
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from '@/lib/constants/currencies';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/finance/income
@@ -11,16 +19,9 @@ import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-m
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
+async function handleGetIncome(request: NextRequest, user: AuthenticatedUser) {
   try {
-    // Verify authentication
-    const authResult = await authenticateApiRequest(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json(
-        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
@@ -34,7 +35,7 @@ export async function GET(request: NextRequest) {
     const isRecurring = searchParams.get('isRecurring');
 
     // Build query
-    const query: any = { userId: authResult.user.id };
+    const query: any = { userId: scopeUserId };
 
     if (categoryId) {
       query.categoryId = categoryId;
@@ -79,7 +80,7 @@ export async function GET(request: NextRequest) {
     }));
 
     // Calculate totals
-    const totalAmount = await Income.getTotalByUser(authResult.user.id);
+    const totalAmount = await Income.getTotalByUser(scopeUserId);
 
     return NextResponse.json({
       success: true,
@@ -111,22 +112,22 @@ export async function GET(request: NextRequest) {
  * POST /api/finance/income
  * Creates a new income record
  */
-export async function POST(request: NextRequest) {
+async function handleCreateIncome(request: NextRequest, user: AuthenticatedUser) {
   try {
-    // Verify authentication
-    const authResult = await authenticateApiRequest(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json(
-        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Parse request body
     const body = await request.json();
-    const { amount, description, date, categoryId, saleId, isRecurring, recurringPaymentId } = body;
+    const { amount, description, date, saleId, isRecurring, recurringPaymentId, currency } = body;
+    let { categoryId } = body;
+
+    // Fall back to the user's categorization rules when no category was picked
+    if (!categoryId && description) {
+      const assignment = await CategorizationRuleService.categorize(scopeUserId, 'income', { description, amount });
+      categoryId = assignment.categoryId;
+    }
 
     // Validate required fields
     if (!amount || !description || !categoryId) {
@@ -144,10 +145,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate currency if provided
+    if (currency !== undefined && currency !== null && !isSupportedCurrency(currency)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
     // Validate category exists and belongs to user
     const category = await IncomeCategory.findOne({
       _id: categoryId,
-      userId: authResult.user.id
+      userId: scopeUserId
     });
 
     if (!category) {
@@ -160,17 +169,18 @@ export async function POST(request: NextRequest) {
     // Create income record
     const incomeData = {
       amount,
+      currency: currency ? currency.toUpperCase() : await CurrencyService.getBaseCurrency(scopeUserId),
       description: description.trim(),
       date: date ? new Date(date) : new Date(),
       categoryId,
       saleId: saleId || null,
       isRecurring: Boolean(isRecurring),
       recurringPaymentId: recurringPaymentId || null,
-      userId: authResult.user.id
+      userId: scopeUserId
     };
 
     const income = new Income(incomeData);
-    const savedIncome = await income.save();
+    const savedIncome = await setAuditActor(income, user.id).save();
 
     // Return the created income with category information
     const enrichedIncome = {
@@ -202,4 +212,8 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching finance scope
+export const GET = withApiPermission(PERMISSIONS.FINANCE_READ, handleGetIncome);
+export const POST = withApiPermission(PERMISSIONS.FINANCE_CREATE, handleCreateIncome);
@@ -0,0 +1,218 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import SalesOrder, { SalesOrderStatus } from '@/lib/database/models/SalesOrder';
+import { SalesOrderService } from '@/lib/services/SalesOrderService';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const VALID_PAYMENT_METHODS = ['cash', 'card', 'bank_transfer', 'mobile_money', 'other'];
+
+/**
+ * GET /api/finance/orders/[id]
+ * Retrieves a specific sales order with its line items
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid sales order ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const order = await SalesOrder.findOne({ _id: params.id, userId: scopeUserId })
+      .populate('customerId', 'firstName lastName email company phone')
+      .lean();
+
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Sales order not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order
+      }
+    });
+
+  } catch (error) {
+    console.error('Sales order GET by ID error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve sales order' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/finance/orders/[id]
+ * Updates payment details and notes or moves the order through its status workflow
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid sales order ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const order = await SalesOrder.findOne({ _id: params.id, userId: scopeUserId });
+
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Sales order not found' } },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { status, paymentMethod, notes, createIncomeRecord = true } = body;
+
+    if (paymentMethod !== undefined) {
+      if (!VALID_PAYMENT_METHODS.includes(paymentMethod)) {
+        return NextResponse.json(
+          { success: false, error: { code: 'VALIDATION_ERROR', message: `Payment method must be one of: ${VALID_PAYMENT_METHODS.join(', ')}` } },
+          { status: 400 }
+        );
+      }
+      order.paymentMethod = paymentMethod;
+    }
+
+    if (notes !== undefined) {
+      order.notes = notes?.trim() || undefined;
+    }
+
+    // Status changes must follow the order workflow
+    if (status !== undefined && status !== order.status) {
+      const result = await SalesOrderService.updateStatus(order, status as SalesOrderStatus, createIncomeRecord);
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        );
+      }
+    } else {
+      await order.save();
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order: order.toJSON()
+      },
+      message: 'Sales order updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Sales order PATCH error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update sales order' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/finance/orders/[id]
+ * Deletes a sales order, restoring inventory and removing its sales and income records
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid sales order ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const order = await SalesOrder.findOne({ _id: params.id, userId: scopeUserId });
+
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Sales order not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Cancelled and refunded orders have already been reversed
+    await SalesOrderService.reverseOrder(order);
+    await order.deleteOne();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Sales order deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Sales order DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete sales order' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/database/connection';
+import SalesOrder from '@/lib/database/models/SalesOrder';
+import { SalesOrderService } from '@/lib/services/SalesOrderService';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const VALID_STATUSES = ['pending', 'completed', 'cancelled', 'refunded'];
+
+/**
+ * GET /api/finance/orders
+ * Retrieves sales orders for the authenticated user
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    await connectDB();
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+    const status = searchParams.get('status');
+    const customerId = searchParams.get('customerId');
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    // Build query
+    const query: any = { userId: scopeUserId };
+
+    if (status && VALID_STATUSES.includes(status)) {
+      query.status = status;
+    }
+
+    if (customerId) {
+      query.customerId = customerId;
+    }
+
+    if (startDate || endDate) {
+      query.date = {};
+      if (startDate) query.date.$gte = new Date(startDate);
+      if (endDate) query.date.$lte = new Date(endDate);
+    }
+
+    // Execute query with pagination
+    const skip = (page - 1) * limit;
+    const [orders, total, analytics] = await Promise.all([
+      SalesOrder.find(query)
+        .sort({ date: -1, createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('customerId', 'firstName lastName email company')
+        .lean(),
+      SalesOrder.countDocuments(query),
+      SalesOrder.getOrderAnalytics(scopeUserId)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        orders,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        analytics
+      }
+    });
+
+  } catch (error) {
+    console.error('Sales orders GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve sales orders' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/finance/orders
+ * Creates a multi-line sales order with inventory and income integration
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    // Parse request body
+    const body = await request.json();
+    const { discount, taxRate } = body;
+
+    if (discount !== undefined && (typeof discount !== 'number' || discount < 0)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Discount must be a non-negative number' } },
+        { status: 400 }
+      );
+    }
+
+    if (taxRate !== undefined && (typeof taxRate !== 'number' || taxRate < 0 || taxRate > 100)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Tax rate must be between 0 and 100' } },
+        { status: 400 }
+      );
+    }
+
+    const result = await SalesOrderService.createOrder(scopeUserId, body);
+
+    if (!result.success || !result.order) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order: result.order.toJSON()
+      },
+      message: 'Sales order recorded successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Sales orders POST error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create sales order' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import PurchaseOrder from '@/lib/database/models/PurchaseOrder';
+import { PurchaseOrderService } from '@/lib/services/PurchaseOrderService';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * POST /api/finance/purchase-orders/[id]/receive
+ * Receives all or part of a purchase order into stock and records the vendor expense
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid purchase order ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const order = await PurchaseOrder.findOne({ _id: params.id, userId: scopeUserId });
+
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Purchase order not found' } },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const result = await PurchaseOrderService.receiveOrder(order, body);
+
+    if (!result.success || !result.order) {
+      return NextResponse.json(
+        { success: false, error: result.error, failedItems: result.failedItems },
+        { status: 400 }
+      );
+    }
+
+    const failedItems = result.failedItems || [];
+    return NextResponse.json({
+      success: true,
+      data: {
+        order: result.order.toJSON(),
+        receipt: result.order.receipts[result.order.receipts.length - 1],
+        failedItems
+      },
+      message: failedItems.length > 0
+        ? `Purchase order partially received; ${failedItems.length} line(s) could not be added to stock`
+        : result.order.status === 'received'
+          ? 'Purchase order fully received'
+          : 'Purchase order partially received'
+    });
+
+  } catch (error) {
+    console.error('Purchase order receive error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to receive purchase order' } },
+      { status: 500 }
+    );
+  }
+}
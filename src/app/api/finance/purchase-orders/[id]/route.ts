@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import PurchaseOrder, { PurchaseOrderStatus } from '@/lib/database/models/PurchaseOrder';
+import { PurchaseOrderService } from '@/lib/services/PurchaseOrderService';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * GET /api/finance/purchase-orders/[id]
+ * Retrieves a purchase order with its lines and receipts
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid purchase order ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const order = await PurchaseOrder.findOne({ _id: params.id, userId: scopeUserId })
+      .populate('vendorId', 'name contactEmail contactPhone address')
+      .lean();
+
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Purchase order not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order
+      }
+    });
+
+  } catch (error) {
+    console.error('Purchase order GET by ID error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve purchase order' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/finance/purchase-orders/[id]
+ * Edits a draft purchase order or sends / cancels it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid purchase order ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const order = await PurchaseOrder.findOne({ _id: params.id, userId: scopeUserId });
+
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Purchase order not found' } },
+        { status: 404 }
+      );
+    }
+
+    const { status, ...changes } = await request.json();
+
+    if (Object.keys(changes).length > 0) {
+      const result = await PurchaseOrderService.updateOrder(order, changes);
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Status changes must follow the purchase order workflow
+    if (status !== undefined && status !== order.status) {
+      const result = await PurchaseOrderService.updateStatus(order, status as PurchaseOrderStatus);
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order: order.toJSON()
+      },
+      message: 'Purchase order updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Purchase order PATCH error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update purchase order' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/finance/purchase-orders/[id]
+ * Deletes a draft or cancelled purchase order that has not received any stock
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid purchase order ID' } },
+        { status: 400 }
+      );
+    }
+
+    await connectDB();
+
+    const order = await PurchaseOrder.findOne({ _id: params.id, userId: scopeUserId });
+
+    if (!order) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Purchase order not found' } },
+        { status: 404 }
+      );
+    }
+
+    // Received stock and its expenses are part of the books, so those orders are kept
+    if (!['draft', 'cancelled'].includes(order.status) || order.receipts.length > 0) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_DELETABLE', message: 'Only draft or cancelled purchase orders without receipts can be deleted' } },
+        { status: 400 }
+      );
+    }
+
+    await order.deleteOne();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Purchase order deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Purchase order DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete purchase order' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/database/connection';
+import PurchaseOrder from '@/lib/database/models/PurchaseOrder';
+import { PurchaseOrderService } from '@/lib/services/PurchaseOrderService';
+import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const VALID_STATUSES = ['draft', 'sent', 'partially_received', 'received', 'cancelled'];
+
+/**
+ * GET /api/finance/purchase-orders
+ * Retrieves purchase orders for the authenticated user
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    await connectDB();
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
+    const status = searchParams.get('status');
+    const vendorId = searchParams.get('vendorId');
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+
+    // Build query
+    const query: any = { userId: scopeUserId };
+
+    if (status && VALID_STATUSES.includes(status)) {
+      query.status = status;
+    }
+
+    if (vendorId) {
+      query.vendorId = vendorId;
+    }
+
+    if (startDate || endDate) {
+      query.orderDate = {};
+      if (startDate) query.orderDate.$gte = new Date(startDate);
+      if (endDate) query.orderDate.$lte = new Date(endDate);
+    }
+
+    // Execute query with pagination
+    const skip = (page - 1) * limit;
+    const [orders, total] = await Promise.all([
+      PurchaseOrder.find(query)
+        .sort({ orderDate: -1, createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('vendorId', 'name contactEmail contactPhone')
+        .lean(),
+      PurchaseOrder.countDocuments(query)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        orders,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        }
+      }
+    });
+
+  } catch (error) {
+    console.error('Purchase orders GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve purchase orders' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/finance/purchase-orders
+ * Raises a purchase order against a vendor
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success || !authResult.userId) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
+    // Parse request body
+    const body = await request.json();
+
+    if (!body.vendorId) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Vendor is required' } },
+        { status: 400 }
+      );
+    }
+
+    if (body.shippingCost !== undefined && (typeof body.shippingCost !== 'number' || body.shippingCost < 0)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Shipping cost must be a non-negative number' } },
+        { status: 400 }
+      );
+    }
+
+    const result = await PurchaseOrderService.createOrder(scopeUserId, body);
+
+    if (!result.success || !result.order) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        order: result.order.toJSON()
+      },
+      message: 'Purchase order created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Purchase orders POST error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create purchase order' } },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/database/connection';
 import { RecurringPaymentProcessor } from '@/lib/services/RecurringPaymentProcessor';
 import { verifyJWT } from '@/lib/auth/jwt';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * POST /api/finance/recurring/process
@@ -39,7 +40,7 @@ export async function POST(request: NextRequest) {
           { status: 401 }
         );
       }
-      userId = decoded.userId;
+      userId = await WorkspaceService.getScopeUserId(decoded.userId);
     } else {
       return NextResponse.json(
         { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
@@ -139,6 +140,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(decoded.userId);
+
     await connectDB();
 
     // Parse query parameters
@@ -148,14 +151,14 @@ export async function GET(request: NextRequest) {
 
     // Get upcoming schedule
     const upcomingSchedule = await RecurringPaymentProcessor.getUpcomingSchedule(
-      decoded.userId,
+      scopeUserId,
       daysAhead
     );
 
     // Get overdue payments if requested
     let overduePayments: any[] = [];
     if (includeOverdue) {
-      overduePayments = await RecurringPaymentProcessor.getOverduePayments(decoded.userId);
+      overduePayments = await RecurringPaymentProcessor.getOverduePayments(scopeUserId);
     }
 
     // Calculate summary statistics
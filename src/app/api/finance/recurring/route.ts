@@ -5,6 +5,7 @@ import IncomeCategory from '@/lib/database/models/IncomeCategory';
 import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
 import Vendor from '@/lib/database/models/Vendor';
 import { verifyJWT } from '@/lib/auth/jwt';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/finance/recurring
@@ -32,6 +33,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(decoded.userId);
+
     await connectDB();
 
     // Parse query parameters
@@ -41,7 +44,7 @@ export async function GET(request: NextRequest) {
     const isDue = searchParams.get('isDue') === 'true';
 
     // Build query
-    let query: any = { userId: decoded.userId };
+    let query: any = { userId: scopeUserId };
 
     if (type && ['income', 'expense'].includes(type)) {
       query.type = type;
@@ -156,6 +159,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(decoded.userId);
+
     await connectDB();
 
     // Parse request body
@@ -230,7 +235,7 @@ export async function POST(request: NextRequest) {
       const CategoryModel = type === 'income' ? IncomeCategory : ExpenseCategory;
       category = await CategoryModel.findOne({
         _id: categoryId,
-        userId: decoded.userId
+        userId: scopeUserId
       });
 
       if (!category) {
@@ -253,7 +258,7 @@ export async function POST(request: NextRequest) {
 
       vendor = await Vendor.findOne({
         _id: vendorId,
-        userId: decoded.userId
+        userId: scopeUserId
       });
 
       if (!vendor) {
@@ -276,7 +281,7 @@ export async function POST(request: NextRequest) {
       isActive: Boolean(isActive),
       categoryId: categoryId || null,
       vendorId: vendorId || null,
-      userId: decoded.userId
+      userId: scopeUserId
     };
 
     const recurringPayment = new RecurringPayment(recurringPaymentData);
@@ -3,7 +3,11 @@ import { connectDB } from '@/lib/database/connection';
 import Sale from '@/lib/database/models/Sale';
 import Product from '@/lib/database/models/Product';
 import Income from '@/lib/database/models/Income';
-import { verifyJWT } from '@/lib/auth/jwt';
+import { setAuditActor, auditActor } from '@/lib/database/audit-trail';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/finance/sales/[id]
@@ -12,34 +16,20 @@ import { verifyJWT } from '@/lib/auth/jwt';
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-export async function GET(
+async function handleGetSale(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find sale record
     const sale = await Sale.findOne({
       _id: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     }).lean();
 
     if (!sale) {
@@ -81,34 +71,20 @@ export async function GET(
  * PUT /api/finance/sales/[id]
  * Updates a specific sale record (with inventory adjustment)
  */
-export async function PUT(
+async function handleUpdateSale(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find existing sale record
     const existingSale = await Sale.findOne({
       _id: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     });
 
     if (!existingSale) {
@@ -118,6 +94,14 @@ export async function PUT(
       );
     }
 
+    // Order lines are managed through their sales order so totals, stock and income stay consistent
+    if (existingSale.orderId) {
+      return NextResponse.json(
+        { success: false, error: { code: 'ORDER_LINE', message: 'This sale is part of a sales order; update the order instead' } },
+        { status: 400 }
+      );
+    }
+
     // Parse request body
     const body = await request.json();
     const { quantity, unitPrice, date, notes } = body;
@@ -166,7 +150,7 @@ export async function PUT(
           product.stock = true;
         }
 
-        await product.save();
+        await setAuditActor(product, user.id).save();
 
         inventoryAdjustment = {
           productId: product._id,
@@ -198,7 +182,7 @@ export async function PUT(
     // Recalculate total amount
     existingSale.totalAmount = Math.round(existingSale.quantity * existingSale.unitPrice * 100) / 100;
 
-    const updatedSale = await existingSale.save();
+    const updatedSale = await setAuditActor(existingSale, user.id).save();
 
     // Update related income record if it exists
     const relatedIncome = await Income.findOne({ saleId: existingSale._id?.toString() });
@@ -206,7 +190,7 @@ export async function PUT(
       relatedIncome.amount = updatedSale.totalAmount;
       relatedIncome.description = `Sale of ${updatedSale.quantity}x ${product.title}`;
       if (date !== undefined) relatedIncome.date = updatedSale.date;
-      await relatedIncome.save();
+      await setAuditActor(relatedIncome, user.id).save();
     }
 
     // Return enriched response
@@ -247,34 +231,20 @@ export async function PUT(
  * DELETE /api/finance/sales/[id]
  * Deletes a specific sale record (with inventory restoration)
  */
-export async function DELETE(
+async function handleDeleteSale(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find sale record
     const sale = await Sale.findOne({
       _id: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     });
 
     if (!sale) {
@@ -284,6 +254,14 @@ export async function DELETE(
       );
     }
 
+    // Order lines are managed through their sales order so totals, stock and income stay consistent
+    if (sale.orderId) {
+      return NextResponse.json(
+        { success: false, error: { code: 'ORDER_LINE', message: 'This sale is part of a sales order; update the order instead' } },
+        { status: 400 }
+      );
+    }
+
     // Get product for inventory restoration
     const product = await Product.findById(sale.productId);
     let inventoryRestoration = null;
@@ -298,7 +276,7 @@ export async function DELETE(
         product.stock = true;
       }
 
-      await product.save();
+      await setAuditActor(product, user.id).save();
 
       inventoryRestoration = {
         productId: product._id,
@@ -310,10 +288,10 @@ export async function DELETE(
     }
 
     // Delete related income record if it exists
-    const deletedIncome = await Income.findOneAndDelete({ saleId: sale._id?.toString() });
+    const deletedIncome = await Income.findOneAndDelete({ saleId: sale._id?.toString() }, auditActor(user.id));
 
     // Delete the sale record
-    await Sale.findByIdAndDelete(sale._id);
+    await Sale.findByIdAndDelete(sale._id, auditActor(user.id));
 
     return NextResponse.json({
       success: true,
@@ -332,4 +310,9 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching finance scope
+export const GET = withApiPermission(PERMISSIONS.FINANCE_READ, handleGetSale);
+export const PUT = withApiPermission(PERMISSIONS.FINANCE_UPDATE, handleUpdateSale);
+export const DELETE = withApiPermission(PERMISSIONS.FINANCE_DELETE, handleDeleteSale);
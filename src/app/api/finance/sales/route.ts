@@ -1,10 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
 import { connectDB } from '@/lib/database/connection';
 import Sale from '@/lib/database/models/Sale';
 import Income from '@/lib/database/models/Income';
 import IncomeCategory from '@/lib/database/models/IncomeCategory';
 import Product from '@/lib/database/models/Product';
-import { authenticateRequest } from '@/lib/auth/api-auth';
+import Customer from '@/lib/database/models/Customer';
+import { setAuditActor } from '@/lib/database/audit-trail';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+import { CurrencyService } from '@/lib/services/CurrencyService';
+import { SUPPORTED_CURRENCIES, isSupportedCurrency } from '@/lib/constants/currencies';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { WebhookService } from '@/lib/services/WebhookService';
+import { WEBHOOK_EVENTS } from '@/lib/constants/webhook-events';
 
 /**
  * GET /api/finance/sales
@@ -13,16 +23,9 @@ import { authenticateRequest } from '@/lib/auth/api-auth';
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
+async function handleGetSales(request: NextRequest, user: AuthenticatedUser) {
   try {
-    // Verify authentication
-    const authResult = await authenticateRequest(request);
-    if (!authResult.success || !authResult.userId) {
-      return NextResponse.json(
-        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
@@ -31,16 +34,21 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1');
     const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
     const productId = searchParams.get('productId');
+    const customerId = searchParams.get('customerId');
     const startDate = searchParams.get('startDate');
     const endDate = searchParams.get('endDate');
 
     // Build query
-    const query: any = { userId: authResult.userId };
+    const query: any = { userId: scopeUserId };
 
     if (productId) {
       query.productId = productId;
     }
 
+    if (customerId) {
+      query.customerId = customerId;
+    }
+
     if (startDate || endDate) {
       query.date = {};
       if (startDate) query.date.$gte = new Date(startDate);
@@ -76,7 +84,7 @@ export async function GET(request: NextRequest) {
     }));
 
     // Calculate analytics
-    const analytics = await Sale.getSalesAnalytics(authResult.userId);
+    const analytics = await Sale.getSalesAnalytics(scopeUserId);
 
     return NextResponse.json({
       success: true,
@@ -105,22 +113,15 @@ export async function GET(request: NextRequest) {
  * POST /api/finance/sales
  * Creates a new sale record with inventory integration
  */
-export async function POST(request: NextRequest) {
+async function handleCreateSale(request: NextRequest, user: AuthenticatedUser) {
   try {
-    // Verify authentication
-    const authResult = await authenticateRequest(request);
-    if (!authResult.success || !authResult.userId) {
-      return NextResponse.json(
-        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Parse request body
     const body = await request.json();
-    const { productId, quantity, unitPrice, date, notes, createIncomeRecord = true } = body;
+    const { productId, customerId, quantity, unitPrice, date, notes, currency, createIncomeRecord = true } = body;
 
     // Validate required fields
     if (!productId || !quantity || !unitPrice) {
@@ -145,6 +146,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Validate currency if provided
+    if (currency !== undefined && currency !== null && !isSupportedCurrency(currency)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
     // Find and validate product
     const product = await Product.findById(productId);
     if (!product) {
@@ -154,6 +163,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Linked customer must belong to the current user
+    if (customerId) {
+      const customer = Types.ObjectId.isValid(customerId)
+        ? await Customer.findOne({ _id: customerId, userId: scopeUserId, isDeleted: false })
+        : null;
+      if (!customer) {
+        return NextResponse.json(
+          { success: false, error: { code: 'VALIDATION_ERROR', message: 'Customer not found' } },
+          { status: 400 }
+        );
+      }
+    }
+
     // Check inventory availability
     if (product.manageStock && product.qty < quantity) {
       return NextResponse.json(
@@ -168,16 +190,18 @@ export async function POST(request: NextRequest) {
     // Create sale record
     const saleData = {
       productId,
+      customerId: customerId || null,
       quantity,
       unitPrice,
       totalAmount,
+      currency: currency ? currency.toUpperCase() : await CurrencyService.getBaseCurrency(scopeUserId),
       date: date ? new Date(date) : new Date(),
       notes: notes?.trim() || null,
-      userId: authResult.userId
+      userId: scopeUserId
     };
 
     const sale = new Sale(saleData);
-    const savedSale = await sale.save();
+    const savedSale = await setAuditActor(sale, user.id).save();
 
     // Update product inventory
     if (product.manageStock) {
@@ -191,7 +215,7 @@ export async function POST(request: NextRequest) {
         product.stockStatus = 'instock'; // Still in stock but low
       }
 
-      await product.save();
+      await setAuditActor(product, user.id).save();
     }
 
     // Create income record if requested
@@ -201,14 +225,14 @@ export async function POST(request: NextRequest) {
         // Find or create "Product Sales" category
         let productSalesCategory = await IncomeCategory.findOne({
           name: 'Product Sales',
-          userId: authResult.userId
+          userId: scopeUserId
         });
 
         if (!productSalesCategory) {
           productSalesCategory = new IncomeCategory({
             name: 'Product Sales',
             description: 'Revenue from product sales',
-            userId: authResult.userId,
+            userId: scopeUserId,
             isDefault: false
           });
           await productSalesCategory.save();
@@ -217,22 +241,25 @@ export async function POST(request: NextRequest) {
         // Create income record
         const incomeData = {
           amount: totalAmount,
+          currency: saleData.currency,
           description: `Sale of ${quantity}x ${product.title}`,
           date: saleData.date,
           categoryId: productSalesCategory._id?.toString(),
           saleId: savedSale._id?.toString(),
           isRecurring: false,
-          userId: authResult.userId
+          userId: scopeUserId
         };
 
         const income = new Income(incomeData);
-        incomeRecord = await income.save();
+        incomeRecord = await setAuditActor(income, user.id).save();
       } catch (incomeError) {
         console.error('Failed to create income record:', incomeError);
         // Don't fail the sale if income creation fails
       }
     }
 
+    WebhookService.dispatchInBackground(WEBHOOK_EVENTS.SALE_CREATED, savedSale.toJSON(), scopeUserId);
+
     // Return enriched sale data
     const enrichedSale = {
       ...savedSale.toJSON(),
@@ -270,4 +297,8 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching finance scope
+export const GET = withApiPermission(PERMISSIONS.FINANCE_READ, handleGetSales);
+export const POST = withApiPermission(PERMISSIONS.FINANCE_CREATE, handleCreateSale);
@@ -2,7 +2,12 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/database/connection';
 import Vendor from '@/lib/database/models/Vendor';
 import Expense from '@/lib/database/models/Expense';
-import { verifyJWT } from '@/lib/auth/jwt';
+import PurchaseOrder from '@/lib/database/models/PurchaseOrder';
+import { setAuditActor, auditActor } from '@/lib/database/audit-trail';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/finance/vendors/[id]
@@ -11,34 +16,20 @@ import { verifyJWT } from '@/lib/auth/jwt';
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-export async function GET(
+async function handleGetVendor(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find vendor
     const vendor = await Vendor.findOne({
       _id: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     }).lean();
 
     if (!vendor) {
@@ -50,7 +41,7 @@ export async function GET(
 
     // Get expense statistics for this vendor
     const expenseStats = await Expense.aggregate([
-      { $match: { vendorId: params.id, userId: decoded.userId } },
+      { $match: { vendorId: params.id, userId: scopeUserId } },
       {
         $group: {
           _id: null,
@@ -66,7 +57,7 @@ export async function GET(
     // Get recent expenses for this vendor
     const recentExpenses = await Expense.find({
       vendorId: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     })
     .sort({ date: -1 })
     .limit(5)
@@ -102,34 +93,20 @@ export async function GET(
  * PUT /api/finance/vendors/[id]
  * Updates a specific vendor
  */
-export async function PUT(
+async function handleUpdateVendor(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find existing vendor
     const existingVendor = await Vendor.findOne({
       _id: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     });
 
     if (!existingVendor) {
@@ -154,7 +131,7 @@ export async function PUT(
 
       // Check for duplicate name (excluding current vendor)
       if (name.trim() !== existingVendor.name) {
-        const duplicateVendor = await Vendor.findByNameAndUser(name.trim(), decoded.userId);
+        const duplicateVendor = await Vendor.findByNameAndUser(name.trim(), scopeUserId);
         if (duplicateVendor && (duplicateVendor._id as any).toString() !== params.id) {
           return NextResponse.json(
             { success: false, error: { code: 'DUPLICATE_ERROR', message: 'Vendor name already exists' } },
@@ -187,11 +164,11 @@ export async function PUT(
     if (address !== undefined) existingVendor.address = address?.trim() || null;
     if (notes !== undefined) existingVendor.notes = notes?.trim() || null;
 
-    const updatedVendor = await existingVendor.save();
+    const updatedVendor = await setAuditActor(existingVendor, user.id).save();
 
     // Get expense statistics
     const expenseStats = await Expense.aggregate([
-      { $match: { vendorId: params.id, userId: decoded.userId } },
+      { $match: { vendorId: params.id, userId: scopeUserId } },
       { $group: { _id: null, count: { $sum: 1 }, totalAmount: { $sum: '$amount' } } }
     ]);
 
@@ -235,34 +212,20 @@ export async function PUT(
  * DELETE /api/finance/vendors/[id]
  * Deletes a specific vendor (with dependency check)
  */
-export async function DELETE(
+async function handleDeleteVendor(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication
-    const token = request.headers.get('authorization')?.replace('Bearer ', '');
-    if (!token) {
-      return NextResponse.json(
-        { success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
-
-    const decoded = verifyJWT(token);
-    if (!decoded || !decoded.userId) {
-      return NextResponse.json(
-        { success: false, error: { code: 'INVALID_TOKEN', message: 'Invalid authentication token' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
     // Find vendor
     const vendor = await Vendor.findOne({
       _id: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     });
 
     if (!vendor) {
@@ -275,7 +238,7 @@ export async function DELETE(
     // Check for dependent expenses
     const expenseCount = await Expense.countDocuments({
       vendorId: params.id,
-      userId: decoded.userId
+      userId: scopeUserId
     });
 
     if (expenseCount > 0) {
@@ -285,8 +248,21 @@ export async function DELETE(
       );
     }
 
+    // Check for purchase orders raised against the vendor
+    const purchaseOrderCount = await PurchaseOrder.countDocuments({
+      vendorId: params.id,
+      userId: scopeUserId
+    });
+
+    if (purchaseOrderCount > 0) {
+      return NextResponse.json(
+        { success: false, error: { code: 'DEPENDENCY_ERROR', message: `Cannot delete vendor. ${purchaseOrderCount} purchase order(s) are associated with this vendor.` } },
+        { status: 409 }
+      );
+    }
+
     // Delete the vendor
-    await Vendor.findByIdAndDelete(params.id);
+    await Vendor.findByIdAndDelete(params.id, auditActor(user.id));
 
     return NextResponse.json({
       success: true,
@@ -303,4 +279,9 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching finance scope
+export const GET = withApiPermission(PERMISSIONS.FINANCE_READ, handleGetVendor);
+export const PUT = withApiPermission(PERMISSIONS.FINANCE_UPDATE, handleUpdateVendor);
+export const DELETE = withApiPermission(PERMISSIONS.FINANCE_DELETE, handleDeleteVendor);
@@ -2,7 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/database/connection';
 import Vendor from '@/lib/database/models/Vendor';
 import Expense from '@/lib/database/models/Expense';
-import { authenticateRequest } from '@/lib/auth/api-auth';
+import { setAuditActor } from '@/lib/database/audit-trail';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/finance/vendors
@@ -11,16 +15,9 @@ import { authenticateRequest } from '@/lib/auth/api-auth';
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
+async function handleGetVendors(request: NextRequest, user: AuthenticatedUser) {
   try {
-    // Verify authentication
-    const authResult = await authenticateRequest(request);
-    if (!authResult.success || !authResult.userId) {
-      return NextResponse.json(
-        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
@@ -30,7 +27,7 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1');
     const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 100);
 
-    let query: any = { userId: authResult.userId };
+    let query: any = { userId: scopeUserId };
 
     // Add search filter if provided
     if (search) {
@@ -51,7 +48,7 @@ export async function GET(request: NextRequest) {
     // Get expense counts for each vendor
     const vendorIds = vendors.map(v => v._id.toString());
     const expenseCounts = await Expense.aggregate([
-      { $match: { vendorId: { $in: vendorIds }, userId: authResult.userId } },
+      { $match: { vendorId: { $in: vendorIds }, userId: scopeUserId } },
       { $group: { _id: '$vendorId', count: { $sum: 1 }, totalAmount: { $sum: '$amount' } } }
     ]);
 
@@ -97,16 +94,9 @@ export async function GET(request: NextRequest) {
  * POST /api/finance/vendors
  * Creates a new vendor
  */
-export async function POST(request: NextRequest) {
+async function handleCreateVendor(request: NextRequest, user: AuthenticatedUser) {
   try {
-    // Verify authentication
-    const authResult = await authenticateRequest(request);
-    if (!authResult.success || !authResult.userId) {
-      return NextResponse.json(
-        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
-        { status: 401 }
-      );
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
 
@@ -123,7 +113,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check for duplicate vendor name
-    const existingVendor = await Vendor.findByNameAndUser(name.trim(), authResult.userId);
+    const existingVendor = await Vendor.findByNameAndUser(name.trim(), scopeUserId);
     if (existingVendor) {
       return NextResponse.json(
         { success: false, error: { code: 'DUPLICATE_ERROR', message: 'Vendor name already exists' } },
@@ -154,11 +144,11 @@ export async function POST(request: NextRequest) {
       contactPhone: contactPhone?.trim() || null,
       address: address?.trim() || null,
       notes: notes?.trim() || null,
-      userId: authResult.userId
+      userId: scopeUserId
     };
 
     const vendor = new Vendor(vendorData);
-    const savedVendor = await vendor.save();
+    const savedVendor = await setAuditActor(vendor, user.id).save();
 
     return NextResponse.json({
       success: true,
@@ -195,4 +185,8 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching finance scope
+export const GET = withApiPermission(PERMISSIONS.FINANCE_READ, handleGetVendors);
+export const POST = withApiPermission(PERMISSIONS.FINANCE_CREATE, handleCreateVendor);
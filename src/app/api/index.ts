@@ -1,9 +1,6 @@
 import mock from './mock';
 import './blog/blogData';
-import './contacts/ContactsData';
-import './chat/Chatdata';
 import './notes/NotesData';
-import './ticket/TicketData';
 import './eCommerce/ProductsData';
 import './email/EmailData';
 import './userprofile/PostData';
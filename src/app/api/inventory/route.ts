@@ -6,6 +6,8 @@ import ProductVariant from '@/lib/database/models/ProductVariant';
 import InventoryLog from '@/lib/database/models/InventoryLog';
 import StockAlert from '@/lib/database/models/StockAlert';
 import { InventoryManager } from '@/lib/utils/inventory-manager';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 const inventoryUpdateSchema = yup.object({
   sku: yup.string().required('SKU is required'),
@@ -42,6 +44,16 @@ export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
   try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectToDatabase();
 
     const url = new URL(request.url);
@@ -74,13 +86,17 @@ export async function GET(request: NextRequest) {
     const lowStockItems = await InventoryManager.getLowStockItems(20);
 
     // Get recent inventory logs
-    const recentLogs = await InventoryLog.find()
+    const recentLogs = await InventoryLog.find({ userId: scopeUserId })
       .sort({ createdAt: -1 })
       .limit(50)
       .lean();
 
-    // Get active stock alerts
-    const activeAlerts = await StockAlert.findActiveAlerts();
+    // Get active stock alerts for the workspace's products
+    const productIds = await Product.find({ createdBy: scopeUserId }).distinct('_id');
+    const activeAlerts = await StockAlert.find({
+      status: 'active',
+      productId: { $in: productIds.map(String) }
+    }).sort({ severity: -1, createdAt: -1 });
 
     return NextResponse.json({
       success: true,
@@ -115,15 +131,25 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectToDatabase();
 
     const body = await request.json();
     
     // Check if this is a bulk update or single update
     if (Array.isArray(body.transactions)) {
-      return await handleBulkInventoryUpdate(body);
+      return await handleBulkInventoryUpdate(body, scopeUserId);
     } else {
-      return await handleSingleInventoryUpdate(body);
+      return await handleSingleInventoryUpdate(body, scopeUserId);
     }
 
   } catch (error) {
@@ -147,7 +173,7 @@ export async function POST(request: NextRequest) {
 /**
  * Handle single inventory update
  */
-async function handleSingleInventoryUpdate(body: any) {
+async function handleSingleInventoryUpdate(body: any, userId: string) {
   const validatedData = await inventoryUpdateSchema.validate(body);
 
   // Validate the transaction
@@ -155,7 +181,7 @@ async function handleSingleInventoryUpdate(body: any) {
     ...validatedData,
     type: validatedData.type as 'adjustment' | 'sale' | 'return' | 'damage' | 'restock' | 'reservation' | 'release',
     source: validatedData.source as 'manual' | 'order' | 'import' | 'api' | 'system',
-    userId: 'system' // TODO: Get from JWT token
+    userId
   };
 
   const validation = InventoryManager.validateInventoryOperation(inventoryTransaction);
@@ -193,7 +219,7 @@ async function handleSingleInventoryUpdate(body: any) {
 /**
  * Handle bulk inventory update
  */
-async function handleBulkInventoryUpdate(body: any) {
+async function handleBulkInventoryUpdate(body: any, userId: string) {
   const validatedData = await bulkInventoryUpdateSchema.validate(body);
 
   // Add user ID to all transactions
@@ -201,7 +227,7 @@ async function handleBulkInventoryUpdate(body: any) {
     ...transaction,
     type: transaction.type as 'adjustment' | 'sale' | 'return' | 'damage' | 'restock' | 'reservation' | 'release',
     source: transaction.source as 'manual' | 'order' | 'import' | 'api' | 'system',
-    userId: 'system' // TODO: Get from JWT token
+    userId
   }));
 
   // Execute bulk update
@@ -227,6 +253,16 @@ async function handleBulkInventoryUpdate(body: any) {
  */
 export async function PUT(request: NextRequest) {
   try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectToDatabase();
 
     const body = await request.json();
@@ -243,11 +279,11 @@ export async function PUT(request: NextRequest) {
     
     switch (operation) {
       case 'adjust_all_stock':
-        result = await handleBulkStockAdjustment(filters, data);
+        result = await handleBulkStockAdjustment(filters, data, scopeUserId);
         break;
         
       case 'update_thresholds':
-        result = await handleBulkThresholdUpdate(filters, data);
+        result = await handleBulkThresholdUpdate(filters, data, scopeUserId);
         break;
         
       case 'release_expired_reservations':
@@ -280,15 +316,15 @@ export async function PUT(request: NextRequest) {
 /**
  * Handle bulk stock adjustment
  */
-async function handleBulkStockAdjustment(filters: any, data: any) {
+async function handleBulkStockAdjustment(filters: any, data: any, userId: string) {
   const { adjustment, reason } = data;
   
   if (!adjustment || adjustment === 0) {
     throw new Error('Adjustment value is required and cannot be zero');
   }
 
-  // Build query based on filters
-  const query: any = {};
+  // Build query based on filters, within the workspace's products
+  const query: any = { createdBy: userId };
   
   if (filters.category && filters.category.length > 0) {
     query.category = { $in: filters.category };
@@ -312,7 +348,7 @@ async function handleBulkStockAdjustment(filters: any, data: any) {
       type: 'adjustment' as const,
       quantity: adjustment,
       reason: reason || 'Bulk stock adjustment',
-      userId: 'system', // TODO: Get from JWT token
+      userId,
       source: 'manual' as const
     }));
 
@@ -338,15 +374,15 @@ async function handleBulkStockAdjustment(filters: any, data: any) {
 /**
  * Handle bulk threshold update
  */
-async function handleBulkThresholdUpdate(filters: any, data: any) {
+async function handleBulkThresholdUpdate(filters: any, data: any, userId: string) {
   const { lowStockThreshold } = data;
   
   if (!lowStockThreshold || lowStockThreshold < 0) {
     throw new Error('Valid low stock threshold is required');
   }
 
-  // Build query based on filters
-  const query: any = {};
+  // Build query based on filters, within the workspace's products
+  const query: any = { createdBy: userId };
   
   if (filters.category && filters.category.length > 0) {
     query.category = { $in: filters.category };
@@ -357,14 +393,15 @@ async function handleBulkThresholdUpdate(filters: any, data: any) {
   }
 
   // Update products
+  const productIds = await Product.find(query).distinct('_id');
   const productResult = await Product.updateMany(
     query,
     { $set: { lowStockThreshold, updatedAt: new Date() } }
   );
 
-  // Update variants
+  // Update the variants of those products
   const variantResult = await ProductVariant.updateMany(
-    {}, // You might want to add filters for variants based on their parent products
+    { productId: { $in: productIds.map(String) } },
     { $set: { 'inventory.lowStockThreshold': lowStockThreshold, updatedAt: new Date() } }
   );
 
@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WarehouseService } from '@/lib/services/WarehouseService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const ERROR_STATUS: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  NOT_FOUND: 404,
+  INSUFFICIENT_STOCK: 409
+};
+
+/**
+ * GET /api/inventory/stock-levels?productId=&variantId=
+ * Retrieves a product's (or variant's) stock broken down by warehouse
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const productId = searchParams.get('productId');
+    if (!productId) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Product ID is required' } },
+        { status: 400 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    const result = await WarehouseService.getStockByLocation(scopeUserId, {
+      productId,
+      variantId: searchParams.get('variantId')
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: ERROR_STATUS[result.error!.code] || 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    });
+
+  } catch (error) {
+    console.error('Stock levels GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve stock levels' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/inventory/stock-levels
+ * Adjusts stock at a single warehouse (receiving, counts, damage)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (!body.warehouseId || !body.productId) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Warehouse and product are required' } },
+        { status: 400 }
+      );
+    }
+
+    if (body.type && !['adjustment', 'damage', 'restock', 'return'].includes(body.type)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Type must be one of: adjustment, damage, restock, return' } },
+        { status: 400 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    const result = await WarehouseService.adjustStock(scopeUserId, {
+      warehouseId: body.warehouseId,
+      productId: body.productId,
+      variantId: body.variantId || null,
+      quantityChange: Number(body.quantityChange),
+      type: body.type,
+      reason: body.reason?.trim(),
+      batchNumber: body.batchNumber?.trim()
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: ERROR_STATUS[result.error!.code] || 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        stockLevel: result.data!.stockLevel.toJSON(),
+        log: result.data!.log.toJSON()
+      },
+      message: 'Stock adjusted successfully'
+    });
+
+  } catch (error) {
+    console.error('Stock levels POST error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to adjust stock' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/inventory/stock-levels
+ * Records a stock count at one or more warehouses, e.g. to place sales that were not taken from a location
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (!body.productId || !Array.isArray(body.counts)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Product and warehouse counts are required' } },
+        { status: 400 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    const result = await WarehouseService.countStock(scopeUserId, {
+      productId: body.productId,
+      variantId: body.variantId || null,
+      counts: body.counts.map((count: any) => ({
+        warehouseId: count?.warehouseId,
+        quantity: Number(count?.quantity)
+      })),
+      reason: body.reason?.trim()
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: ERROR_STATUS[result.error!.code] || 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        stockLevels: result.data!.levels.map(level => level.toJSON()),
+        logs: result.data!.logs.map(log => log.toJSON()),
+        missingQuantity: result.data!.missingQuantity
+      },
+      message: 'Stock count recorded successfully'
+    });
+
+  } catch (error) {
+    console.error('Stock levels PUT error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to record stock count' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WarehouseService } from '@/lib/services/WarehouseService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const ERROR_STATUS: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  NOT_FOUND: 404,
+  INSUFFICIENT_STOCK: 409
+};
+
+/**
+ * GET /api/inventory/transfers
+ * Lists stock transfers between warehouses, optionally for one warehouse code
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    const transfers = await WarehouseService.getTransfers(scopeUserId, {
+      warehouseCode: searchParams.get('warehouse') || undefined,
+      limit: Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        transfers
+      }
+    });
+
+  } catch (error) {
+    console.error('Transfers GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve transfers' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/inventory/transfers
+ * Moves stock from one warehouse to another
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (!body.fromWarehouseId || !body.toWarehouseId || !body.productId) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Source warehouse, destination warehouse and product are required' } },
+        { status: 400 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    const result = await WarehouseService.transferStock(scopeUserId, {
+      fromWarehouseId: body.fromWarehouseId,
+      toWarehouseId: body.toWarehouseId,
+      productId: body.productId,
+      variantId: body.variantId || null,
+      quantity: Number(body.quantity),
+      reason: body.reason?.trim()
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: ERROR_STATUS[result.error!.code] || 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        transferId: result.data!.transferId,
+        logs: result.data!.logs.map(log => log.toJSON())
+      },
+      message: 'Stock transferred successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Transfers POST error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to transfer stock' } },
+      { status: 500 }
+    );
+  }
+}
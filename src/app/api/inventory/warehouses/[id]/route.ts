@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Warehouse from '@/lib/database/models/Warehouse';
+import StockLevel from '@/lib/database/models/StockLevel';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const WAREHOUSE_FIELDS = ['name', 'address', 'contactName', 'phone', 'isDefault', 'isActive', 'notes'];
+
+/**
+ * GET /api/inventory/warehouses/[id]
+ * Retrieves a warehouse with the stock held there
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid warehouse ID' } },
+        { status: 400 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const warehouse = await Warehouse.findOne({ _id: params.id, userId: scopeUserId }).lean();
+    if (!warehouse) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Warehouse not found' } },
+        { status: 404 }
+      );
+    }
+
+    const stockLevels = await StockLevel.findByWarehouse(params.id, scopeUserId);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        warehouse,
+        stockLevels,
+        totalUnits: stockLevels.reduce((total, level) => total + level.quantity, 0)
+      }
+    });
+
+  } catch (error) {
+    console.error('Warehouse GET by ID error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve warehouse' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/inventory/warehouses/[id]
+ * Updates warehouse details; the code is fixed because inventory logs reference it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid warehouse ID' } },
+        { status: 400 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const warehouse = await Warehouse.findOne({ _id: params.id, userId: scopeUserId });
+    if (!warehouse) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Warehouse not found' } },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (body.isActive === false || body.isDefault === false) {
+      if (warehouse.isDefault) {
+        return NextResponse.json(
+          { success: false, error: { code: 'DEFAULT_WAREHOUSE', message: 'Make another warehouse the default first' } },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (body.isActive === false) {
+      const heldUnits = await StockLevel.countDocuments({ warehouseId: params.id, quantity: { $gt: 0 } });
+      if (heldUnits > 0) {
+        return NextResponse.json(
+          { success: false, error: { code: 'WAREHOUSE_NOT_EMPTY', message: 'Transfer remaining stock out before deactivating this warehouse' } },
+          { status: 409 }
+        );
+      }
+    }
+
+    WAREHOUSE_FIELDS.forEach((field) => {
+      if (body[field] !== undefined) warehouse.set(field, body[field]);
+    });
+
+    const updatedWarehouse = await warehouse.save();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        warehouse: updatedWarehouse.toJSON()
+      },
+      message: 'Warehouse updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Warehouse PATCH error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update warehouse' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/inventory/warehouses/[id]
+ * Deletes an empty, non-default warehouse
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid warehouse ID' } },
+        { status: 400 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const warehouse = await Warehouse.findOne({ _id: params.id, userId: scopeUserId });
+    if (!warehouse) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Warehouse not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (warehouse.isDefault) {
+      return NextResponse.json(
+        { success: false, error: { code: 'DEFAULT_WAREHOUSE', message: 'The default warehouse cannot be deleted' } },
+        { status: 400 }
+      );
+    }
+
+    const heldUnits = await StockLevel.countDocuments({ warehouseId: params.id, quantity: { $gt: 0 } });
+    if (heldUnits > 0) {
+      return NextResponse.json(
+        { success: false, error: { code: 'WAREHOUSE_NOT_EMPTY', message: 'Transfer remaining stock out before deleting this warehouse' } },
+        { status: 409 }
+      );
+    }
+
+    await StockLevel.deleteMany({ warehouseId: params.id, userId: scopeUserId });
+    await warehouse.deleteOne();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Warehouse deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Warehouse DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete warehouse' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/database/connection';
+import Warehouse from '@/lib/database/models/Warehouse';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const WAREHOUSE_FIELDS = ['name', 'code', 'address', 'contactName', 'phone', 'isDefault', 'notes'];
+
+/**
+ * GET /api/inventory/warehouses
+ * Retrieves the authenticated user's stock locations
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const { searchParams } = new URL(request.url);
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    // Make sure every user has a default location to fall back to
+    await Warehouse.getDefaultWarehouse(scopeUserId);
+    const warehouses = await Warehouse.findByUser(scopeUserId, includeInactive);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        warehouses
+      }
+    });
+
+  } catch (error) {
+    console.error('Warehouses GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve warehouses' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/inventory/warehouses
+ * Creates a new stock location
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const body = await request.json();
+
+    if (!body.name?.trim() || !body.code?.trim()) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Warehouse name and code are required' } },
+        { status: 400 }
+      );
+    }
+
+    const existing = await Warehouse.findByCode(body.code, scopeUserId);
+    if (existing) {
+      return NextResponse.json(
+        { success: false, error: { code: 'DUPLICATE_WAREHOUSE', message: 'A warehouse with this code already exists' } },
+        { status: 409 }
+      );
+    }
+
+    const warehouseData: Record<string, any> = { userId: scopeUserId };
+    WAREHOUSE_FIELDS.forEach((field) => {
+      if (body[field] !== undefined) warehouseData[field] = body[field];
+    });
+
+    const warehouse = await new Warehouse(warehouseData).save();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        warehouse: warehouse.toJSON()
+      },
+      message: 'Warehouse created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Warehouses POST error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create warehouse' } },
+      { status: 500 }
+    );
+  }
+}
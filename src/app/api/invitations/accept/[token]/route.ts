@@ -4,6 +4,7 @@ import { connectToDatabase } from '@/lib/database/connection';
 import { Invitation } from '@/lib/database/models/Invitation';
 import { User } from '@/lib/database/models/User';
 import { InvitationValidator } from '@/lib/utils/invitation-validation';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 interface AcceptInvitationRequest {
   firstName: string;
@@ -110,6 +111,9 @@ export async function POST(
       acceptedAt: new Date()
     });
 
+    // Join the inviter's workspace so the new user sees the company's data
+    const workspace = await WorkspaceService.joinFromInvitation(String(newUser._id), invitation);
+
     // Log the successful account creation
     console.log(`User account created successfully for ${invitation.email} with role ${(invitation.role as any)?.name}`);
 
@@ -124,7 +128,8 @@ export async function POST(
           name: (invitation.role as any)?.name,
           description: (invitation.role as any)?.description
         },
-        status: newUser.status
+        status: newUser.status,
+        workspace: workspace ? { id: workspace._id, name: workspace.name } : null
       }
     });
 
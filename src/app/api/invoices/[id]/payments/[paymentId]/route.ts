@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { connectToDatabase } from '@/lib/database/connection';
+import Invoice from '@/lib/database/models/Invoice';
+import { InvoicePaymentService } from '@/lib/services/InvoicePaymentService';
+import mongoose from 'mongoose';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * DELETE /api/invoices/[id]/payments/[paymentId] - Remove a payment recorded in error
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; paymentId: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(session.user.id);
+
+    await connectToDatabase();
+
+    // Validate MongoDB ObjectIds
+    if (!mongoose.Types.ObjectId.isValid(params.id) || !mongoose.Types.ObjectId.isValid(params.paymentId)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid invoice or payment ID'
+      }, { status: 400 });
+    }
+
+    const invoice = await Invoice.findOne({
+      _id: params.id,
+      userId: scopeUserId
+    });
+
+    if (!invoice) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invoice not found'
+      }, { status: 404 });
+    }
+
+    const result = await InvoicePaymentService.removePayment(
+      invoice,
+      params.paymentId,
+      session.user.email || undefined
+    );
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        message: result.error?.message || 'Failed to remove payment'
+      }, { status: result.error?.code === 'NOT_FOUND' ? 404 : 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Payment removed successfully',
+      data: result.invoice
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error removing invoice payment:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal Server Error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as yup from 'yup';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { connectToDatabase } from '@/lib/database/connection';
+import Invoice from '@/lib/database/models/Invoice';
+import { InvoicePaymentService } from '@/lib/services/InvoicePaymentService';
+import mongoose from 'mongoose';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+// Validation schema for recording a payment
+const paymentSchema = yup.object({
+  amount: yup.number().moreThan(0, 'Payment amount must be greater than 0').required('Payment amount is required'),
+  date: yup.date().optional(),
+  method: yup.string().oneOf(['cash', 'card', 'bank_transfer', 'mobile_money', 'cheque', 'other']).default('bank_transfer'),
+  reference: yup.string().max(100).optional(),
+  notes: yup.string().max(500).optional(),
+  createIncomeRecord: yup.boolean().default(true)
+});
+
+/**
+ * GET /api/invoices/[id]/payments - List the payments recorded against an invoice
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(session.user.id);
+
+    await connectToDatabase();
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid invoice ID'
+      }, { status: 400 });
+    }
+
+    const invoice = await Invoice.findOne({
+      _id: params.id,
+      userId: scopeUserId
+    }).select('invoiceNumber grandTotal amountPaid balanceDue status payments').lean();
+
+    if (!invoice) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invoice not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        invoiceNumber: invoice.invoiceNumber,
+        grandTotal: invoice.grandTotal,
+        amountPaid: invoice.amountPaid || 0,
+        balanceDue: invoice.balanceDue ?? invoice.grandTotal,
+        status: invoice.status,
+        payments: [...(invoice.payments || [])].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      }
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error fetching invoice payments:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal Server Error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/invoices/[id]/payments - Record a full or partial payment
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(session.user.id);
+
+    await connectToDatabase();
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid invoice ID'
+      }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const validatedData = await paymentSchema.validate(body);
+
+    const invoice = await Invoice.findOne({
+      _id: params.id,
+      userId: scopeUserId
+    });
+
+    if (!invoice) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invoice not found'
+      }, { status: 404 });
+    }
+
+    const result = await InvoicePaymentService.recordPayment(
+      invoice,
+      validatedData as any,
+      session.user.email || undefined
+    );
+
+    if (!result.success || !result.invoice) {
+      return NextResponse.json({
+        success: false,
+        message: result.error?.message || 'Failed to record payment',
+        code: result.error?.code
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.invoice.status === 'Paid' ? 'Invoice paid in full' : 'Payment recorded successfully',
+      data: {
+        invoice: result.invoice,
+        payment: result.payment
+      }
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error recording invoice payment:', error);
+
+    if (error instanceof yup.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      message: 'Internal Server Error'
+    }, { status: 500 });
+  }
+}
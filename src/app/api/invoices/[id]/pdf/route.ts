@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { connectToDatabase } from '@/lib/database/connection';
+import Invoice from '@/lib/database/models/Invoice';
+import { InvoicePdfService } from '@/lib/services/InvoicePdfService';
+import { loadCompanySettings } from '@/lib/utils/company-settings';
+import mongoose from 'mongoose';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * GET /api/invoices/[id]/pdf - Download the invoice as a PDF
+ * Pass ?inline=true to open it in the browser instead of downloading
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(session.user.id);
+
+    await connectToDatabase();
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid invoice ID'
+      }, { status: 400 });
+    }
+
+    const invoice = await Invoice.findOne({
+      _id: params.id,
+      userId: scopeUserId
+    }).lean();
+
+    if (!invoice) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invoice not found'
+      }, { status: 404 });
+    }
+
+    const company = await loadCompanySettings();
+    const pdf = await InvoicePdfService.generate(invoice, company);
+    const disposition = req.nextUrl.searchParams.get('inline') === 'true' ? 'inline' : 'attachment';
+
+    return new NextResponse(pdf, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `${disposition}; filename="${InvoicePdfService.getFilename(invoice)}"`,
+        'Content-Length': pdf.length.toString(),
+        'Cache-Control': 'private, no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error generating invoice PDF:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal Server Error'
+    }, { status: 500 });
+  }
+}
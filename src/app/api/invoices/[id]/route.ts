@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as yup from 'yup';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth/nextauth.config';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+import { SUPPORTED_CURRENCIES } from '@/lib/constants/currencies';
 import { connectToDatabase } from '@/lib/database/connection';
-import Invoice from '@/lib/database/models/Invoice';
+import Invoice, { IInvoiceDocument } from '@/lib/database/models/Invoice';
+import { setAuditActor, auditActor } from '@/lib/database/audit-trail';
+import Customer from '@/lib/database/models/Customer';
+import Income from '@/lib/database/models/Income';
 import mongoose from 'mongoose';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { InvoicePaymentService } from '@/lib/services/InvoicePaymentService';
 
 // Validation schema for invoice updates
 const invoiceItemSchema = yup.object({
@@ -30,6 +37,7 @@ const updateInvoiceSchema = yup.object({
   billToAddress: yup.string().optional(),
   billToPhone: yup.number().optional(),
   billToFax: yup.number().optional(),
+  customerId: yup.string().nullable().optional(),
   
   orders: yup.array().of(invoiceItemSchema).min(1, 'At least one item is required'),
   
@@ -39,8 +47,9 @@ const updateInvoiceSchema = yup.object({
   vatRate: yup.number().min(0).max(100),
   discount: yup.number().min(0).default(0),
   discountType: yup.string().oneOf(['percentage', 'fixed']),
+  currency: yup.string().uppercase().oneOf([...SUPPORTED_CURRENCIES], `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`).optional(),
   
-  status: yup.string().oneOf(['Draft', 'Pending', 'Sent', 'Paid', 'Overdue', 'Cancelled']),
+  status: yup.string().oneOf(['Draft', 'Pending', 'Sent', 'Partially Paid', 'Paid', 'Overdue', 'Cancelled']),
   notes: yup.string().optional(),
   terms: yup.string().optional()
 });
@@ -48,20 +57,13 @@ const updateInvoiceSchema = yup.object({
 /**
  * GET /api/invoices/[id] - Get a specific invoice by ID
  */
-export async function GET(
+async function handleGetInvoice(
   req: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ 
-        success: false,
-        message: 'Unauthorized' 
-      }, { status: 401 });
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectToDatabase();
 
@@ -78,7 +80,7 @@ export async function GET(
     // Find invoice and ensure it belongs to the current user
     const invoice = await Invoice.findOne({ 
       _id: id, 
-      userId: session.user.id 
+      userId: scopeUserId 
     }).lean();
 
     if (!invoice) {
@@ -105,20 +107,13 @@ export async function GET(
 /**
  * PUT /api/invoices/[id] - Update a specific invoice
  */
-export async function PUT(
+async function handleUpdateInvoice(
   req: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ 
-        success: false,
-        message: 'Unauthorized' 
-      }, { status: 401 });
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectToDatabase();
 
@@ -135,14 +130,38 @@ export async function PUT(
     const body = await req.json();
     const validatedData = await updateInvoiceSchema.validate(body);
 
+    // Payments and send history are recorded through their own endpoints
+    const { payments, amountPaid, balanceDue, history, lastSentAt, ...invoiceFields } = validatedData as any;
+
+    // Marking an invoice paid records its balance as a payment, so the status follows the ledger
+    const markAsPaid = invoiceFields.status === 'Paid';
+    if (markAsPaid) {
+      delete invoiceFields.status;
+    }
+
+    // Linked customer must belong to the current user
+    if (validatedData.customerId) {
+      const customer = mongoose.Types.ObjectId.isValid(validatedData.customerId)
+        ? await Customer.findOne({ _id: validatedData.customerId, userId: scopeUserId, isDeleted: false })
+        : null;
+      if (!customer) {
+        return NextResponse.json({
+          success: false,
+          message: 'Customer not found'
+        }, { status: 400 });
+      }
+    }
+
+    const previous = await Invoice.findOne({ _id: id, userId: scopeUserId }).select('status');
+
     // Find and update invoice, ensuring it belongs to the current user
-    const invoice = await Invoice.findOneAndUpdate(
-      { _id: id, userId: session.user.id },
+    let invoice: IInvoiceDocument | null = await Invoice.findOneAndUpdate(
+      { _id: id, userId: scopeUserId },
       { 
-        ...validatedData,
-        updatedBy: session.user.email
+        ...invoiceFields,
+        updatedBy: user.email
       },
-      { new: true, runValidators: true }
+      { new: true, runValidators: true, ...auditActor(user.id) }
     );
 
     if (!invoice) {
@@ -152,6 +171,26 @@ export async function PUT(
       }, { status: 404 });
     }
 
+    // Totals may have changed, so the balance and payment status follow the ledger again
+    if (invoice.payments.length > 0) {
+      invoice.applyPayments();
+      await setAuditActor(invoice, user.id).save();
+    }
+
+    if (markAsPaid) {
+      const result = await InvoicePaymentService.markAsPaid(invoice, user.email);
+      if (!result.success || !result.invoice) {
+        return NextResponse.json({
+          success: false,
+          message: result.error?.message || 'Failed to mark invoice as paid',
+          code: result.error?.code
+        }, { status: 400 });
+      }
+      invoice = result.invoice;
+    } else {
+      InvoicePaymentService.notifyIfPaid(invoice, previous?.status || invoice.status);
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Invoice updated successfully',
@@ -179,20 +218,13 @@ export async function PUT(
 /**
  * DELETE /api/invoices/[id] - Delete a specific invoice
  */
-export async function DELETE(
+async function handleDeleteInvoice(
   req: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ 
-        success: false,
-        message: 'Unauthorized' 
-      }, { status: 401 });
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectToDatabase();
 
@@ -209,8 +241,8 @@ export async function DELETE(
     // Find and delete invoice, ensuring it belongs to the current user
     const invoice = await Invoice.findOneAndDelete({ 
       _id: id, 
-      userId: session.user.id 
-    });
+      userId: scopeUserId 
+    }, auditActor(user.id));
 
     if (!invoice) {
       return NextResponse.json({
@@ -219,6 +251,9 @@ export async function DELETE(
       }, { status: 404 });
     }
 
+    // Remove income recorded for the invoice's payments
+    await Income.deleteMany({ invoiceId: id, userId: scopeUserId });
+
     return NextResponse.json({
       success: true,
       message: 'Invoice deleted successfully'
@@ -231,4 +266,9 @@ export async function DELETE(
       message: 'Internal Server Error' 
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching finance scope
+export const GET = withApiPermission(PERMISSIONS.FINANCE_READ, handleGetInvoice);
+export const PUT = withApiPermission(PERMISSIONS.FINANCE_UPDATE, handleUpdateInvoice);
+export const DELETE = withApiPermission(PERMISSIONS.FINANCE_DELETE, handleDeleteInvoice);
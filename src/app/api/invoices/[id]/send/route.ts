@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as yup from 'yup';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { connectToDatabase } from '@/lib/database/connection';
+import Invoice from '@/lib/database/models/Invoice';
+import { InvoiceDeliveryService } from '@/lib/services/InvoiceDeliveryService';
+import mongoose from 'mongoose';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+// Validation schema for sending an invoice
+const sendSchema = yup.object({
+  to: yup.string().email('Please enter a valid recipient email').optional(),
+  cc: yup.array().of(yup.string().email('Please enter valid CC emails').required()).max(5).optional(),
+  message: yup.string().max(2000).optional()
+});
+
+/**
+ * POST /api/invoices/[id]/send - Email the invoice PDF to the client
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(session.user.id);
+
+    await connectToDatabase();
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid invoice ID'
+      }, { status: 400 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const validatedData = await sendSchema.validate(body);
+
+    const invoice = await Invoice.findOne({
+      _id: params.id,
+      userId: scopeUserId
+    });
+
+    if (!invoice) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invoice not found'
+      }, { status: 404 });
+    }
+
+    const result = await InvoiceDeliveryService.sendInvoice(
+      invoice,
+      validatedData,
+      session.user.email || undefined
+    );
+
+    if (!result.success || !result.invoice) {
+      return NextResponse.json({
+        success: false,
+        message: result.error?.message || 'Failed to send invoice',
+        code: result.error?.code
+      }, { status: result.error?.code === 'EMAIL_FAILED' ? 502 : 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Invoice sent to ${validatedData.to || invoice.billToEmail}`,
+      data: result.invoice
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error sending invoice:', error);
+
+    if (error instanceof yup.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      message: 'Internal Server Error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { connectToDatabase } from '@/lib/database/connection';
+import mongoose from 'mongoose';
+import RecurringInvoice from '@/lib/database/models/RecurringInvoice';
+import { RecurringInvoiceProcessor } from '@/lib/services/RecurringInvoiceProcessor';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * POST /api/invoices/recurring/[id]/generate - Issue the next invoice in the schedule now
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(session.user.id);
+
+    await connectToDatabase();
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid recurring invoice ID'
+      }, { status: 400 });
+    }
+
+    const schedule = await RecurringInvoice.findOne({
+      _id: params.id,
+      userId: scopeUserId
+    });
+
+    if (!schedule) {
+      return NextResponse.json({
+        success: false,
+        message: 'Recurring invoice not found'
+      }, { status: 404 });
+    }
+
+    const result = await RecurringInvoiceProcessor.generateNow(schedule, session.user.email || undefined);
+
+    if (!result) {
+      return NextResponse.json({
+        success: false,
+        message: 'This schedule is inactive or has ended'
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.sent
+        ? `Invoice ${result.invoice.invoiceNumber} generated and sent`
+        : `Invoice ${result.invoice.invoiceNumber} generated`,
+      data: {
+        invoice: result.invoice,
+        sent: result.sent,
+        nextInvoiceDate: schedule.nextInvoiceDate
+      }
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error generating recurring invoice:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal Server Error'
+    }, { status: 500 });
+  }
+}
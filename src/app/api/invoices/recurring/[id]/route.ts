@@ -0,0 +1,279 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as yup from 'yup';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { connectToDatabase } from '@/lib/database/connection';
+import mongoose from 'mongoose';
+import Invoice from '@/lib/database/models/Invoice';
+import RecurringInvoice from '@/lib/database/models/RecurringInvoice';
+import Customer from '@/lib/database/models/Customer';
+import { SUPPORTED_CURRENCIES } from '@/lib/constants/currencies';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+// Validation schema for recurring invoice updates
+const invoiceItemSchema = yup.object({
+  productId: yup.string().optional(),
+  itemName: yup.string().required('Item name is required'),
+  sku: yup.string().optional(),
+  description: yup.string().optional(),
+  unitPrice: yup.number().min(0, 'Unit price must be positive').required('Unit price is required'),
+  units: yup.number().min(0.01, 'Units must be positive').required('Units are required')
+});
+
+const updateRecurringInvoiceSchema = yup.object({
+  name: yup.string().max(100).optional(),
+
+  customerId: yup.string().nullable().optional(),
+  billFrom: yup.string().optional(),
+  billFromEmail: yup.string().email('Invalid email format').optional(),
+  billFromAddress: yup.string().optional(),
+  billTo: yup.string().optional(),
+  billToEmail: yup.string().email('Invalid email format').optional(),
+  billToAddress: yup.string().optional(),
+
+  orders: yup.array().of(invoiceItemSchema).min(1, 'At least one item is required').optional(),
+  vatRate: yup.number().min(0).max(100).optional(),
+  discount: yup.number().min(0).optional(),
+  discountType: yup.string().oneOf(['percentage', 'fixed']).optional(),
+  currency: yup.string().uppercase().oneOf([...SUPPORTED_CURRENCIES], `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`).optional(),
+  notes: yup.string().optional(),
+  terms: yup.string().optional(),
+
+  frequency: yup.string().oneOf(['weekly', 'monthly', 'quarterly', 'yearly']).optional(),
+  startDate: yup.date().optional(),
+  endDate: yup.date().nullable().optional(),
+  nextInvoiceDate: yup.date().optional(),
+  paymentTermsDays: yup.number().integer().min(0).max(365).optional(),
+  autoSend: yup.boolean().optional(),
+  isActive: yup.boolean().optional()
+});
+
+/**
+ * GET /api/invoices/recurring/[id] - Get a recurring invoice schedule and the invoices it generated
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(session.user.id);
+
+    await connectToDatabase();
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid recurring invoice ID'
+      }, { status: 400 });
+    }
+
+    const schedule = await RecurringInvoice.findOne({
+      _id: params.id,
+      userId: scopeUserId
+    }).lean();
+
+    if (!schedule) {
+      return NextResponse.json({
+        success: false,
+        message: 'Recurring invoice not found'
+      }, { status: 404 });
+    }
+
+    const invoices = await Invoice.find({
+      recurringInvoiceId: params.id,
+      userId: scopeUserId
+    })
+      .select('invoiceNumber orderDate dueDate grandTotal balanceDue status lastSentAt')
+      .sort({ orderDate: -1 })
+      .limit(24)
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...schedule,
+        invoices
+      }
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error fetching recurring invoice:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal Server Error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/invoices/recurring/[id] - Update a recurring invoice schedule
+ * Changes apply to invoices generated from now on; issued invoices are not touched
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(session.user.id);
+
+    await connectToDatabase();
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid recurring invoice ID'
+      }, { status: 400 });
+    }
+
+    const body = await req.json();
+    const validatedData = await updateRecurringInvoiceSchema.validate(body, { stripUnknown: true });
+
+    // Linked customer must belong to the current user
+    if (validatedData.customerId) {
+      const customer = mongoose.Types.ObjectId.isValid(validatedData.customerId)
+        ? await Customer.findOne({ _id: validatedData.customerId, userId: scopeUserId, isDeleted: false })
+        : null;
+      if (!customer) {
+        return NextResponse.json({
+          success: false,
+          message: 'Customer not found'
+        }, { status: 400 });
+      }
+    }
+
+    const schedule = await RecurringInvoice.findOne({
+      _id: params.id,
+      userId: scopeUserId
+    });
+
+    if (!schedule) {
+      return NextResponse.json({
+        success: false,
+        message: 'Recurring invoice not found'
+      }, { status: 404 });
+    }
+
+    // Billing dates cannot be moved behind the last issued invoice
+    if (validatedData.nextInvoiceDate && schedule.lastGeneratedAt) {
+      const lastIssued = await Invoice.findById(schedule.lastInvoiceId).select('orderDate').lean();
+      if (lastIssued && validatedData.nextInvoiceDate <= lastIssued.orderDate) {
+        return NextResponse.json({
+          success: false,
+          message: 'Next invoice date must be after the last generated invoice'
+        }, { status: 400 });
+      }
+    }
+
+    schedule.set(validatedData);
+    await schedule.save();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Recurring invoice updated successfully',
+      data: schedule
+    }, { status: 200 });
+
+  } catch (error: any) {
+    console.error('Error updating recurring invoice:', error);
+
+    if (error instanceof yup.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      }, { status: 400 });
+    }
+
+    if (error.name === 'ValidationError') {
+      return NextResponse.json({
+        success: false,
+        message: 'Validation error',
+        errors: Object.values(error.errors).map((err: any) => err.message)
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      message: 'Internal Server Error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/invoices/recurring/[id] - Delete a recurring invoice schedule
+ * Invoices already generated from the schedule are kept
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(session.user.id);
+
+    await connectToDatabase();
+
+    // Validate MongoDB ObjectId
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid recurring invoice ID'
+      }, { status: 400 });
+    }
+
+    const schedule = await RecurringInvoice.findOneAndDelete({
+      _id: params.id,
+      userId: scopeUserId
+    });
+
+    if (!schedule) {
+      return NextResponse.json({
+        success: false,
+        message: 'Recurring invoice not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Recurring invoice deleted successfully'
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error deleting recurring invoice:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal Server Error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as yup from 'yup';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth/nextauth.config';
+import { connectToDatabase } from '@/lib/database/connection';
+import mongoose from 'mongoose';
+import RecurringInvoice from '@/lib/database/models/RecurringInvoice';
+import Customer from '@/lib/database/models/Customer';
+import { CurrencyService } from '@/lib/services/CurrencyService';
+import { SUPPORTED_CURRENCIES } from '@/lib/constants/currencies';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+// Validation schema for recurring invoice creation
+const invoiceItemSchema = yup.object({
+  productId: yup.string().optional(),
+  itemName: yup.string().required('Item name is required'),
+  sku: yup.string().optional(),
+  description: yup.string().optional(),
+  unitPrice: yup.number().min(0, 'Unit price must be positive').required('Unit price is required'),
+  units: yup.number().min(0.01, 'Units must be positive').required('Units are required')
+});
+
+const recurringInvoiceSchema = yup.object({
+  name: yup.string().max(100).required('Schedule name is required'),
+
+  customerId: yup.string().nullable().optional(),
+  billFrom: yup.string().required('Bill from name is required'),
+  billFromEmail: yup.string().email('Invalid email format').required('Bill from email is required'),
+  billFromAddress: yup.string().optional(),
+  billTo: yup.string().required('Bill to name is required'),
+  billToEmail: yup.string().email('Invalid email format').required('Bill to email is required'),
+  billToAddress: yup.string().optional(),
+
+  orders: yup.array().of(invoiceItemSchema).min(1, 'At least one item is required').required(),
+  vatRate: yup.number().min(0).max(100).default(0),
+  discount: yup.number().min(0).default(0),
+  discountType: yup.string().oneOf(['percentage', 'fixed']).default('percentage'),
+  currency: yup.string().uppercase().oneOf([...SUPPORTED_CURRENCIES], `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`).optional(),
+  notes: yup.string().optional(),
+  terms: yup.string().optional(),
+
+  frequency: yup.string().oneOf(['weekly', 'monthly', 'quarterly', 'yearly']).required('Frequency is required'),
+  startDate: yup.date().required('Start date is required'),
+  endDate: yup.date().nullable().optional().min(yup.ref('startDate'), 'End date must be after start date'),
+  paymentTermsDays: yup.number().integer().min(0).max(365).default(30),
+  autoSend: yup.boolean().default(false),
+  isActive: yup.boolean().default(true)
+});
+
+/**
+ * GET /api/invoices/recurring - Get recurring invoice schedules for the authenticated user
+ */
+export async function GET(req: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(session.user.id);
+
+    await connectToDatabase();
+
+    const { searchParams } = new URL(req.url);
+    const isActive = searchParams.get('isActive');
+    const customerId = searchParams.get('customerId');
+
+    // Build query
+    const query: any = { userId: scopeUserId };
+
+    if (isActive !== null) {
+      query.isActive = isActive === 'true';
+    }
+
+    if (customerId) {
+      query.customerId = customerId;
+    }
+
+    const schedules = await RecurringInvoice.find(query)
+      .sort({ isActive: -1, nextInvoiceDate: 1 })
+      .lean();
+
+    const now = new Date();
+    const data = schedules.map(schedule => ({
+      ...schedule,
+      isDue: schedule.isActive && schedule.nextInvoiceDate <= now &&
+        (!schedule.endDate || schedule.nextInvoiceDate <= schedule.endDate)
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data,
+      summary: {
+        total: data.length,
+        active: data.filter(schedule => schedule.isActive).length,
+        due: data.filter(schedule => schedule.isDue).length
+      }
+    }, { status: 200 });
+
+  } catch (error) {
+    console.error('Error fetching recurring invoices:', error);
+    return NextResponse.json({
+      success: false,
+      message: 'Internal Server Error'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/invoices/recurring - Create a recurring invoice schedule
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        message: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(session.user.id);
+
+    await connectToDatabase();
+
+    const body = await req.json();
+    const validatedData = await recurringInvoiceSchema.validate(body, { stripUnknown: true });
+
+    // Linked customer must belong to the current user
+    if (validatedData.customerId) {
+      const customer = mongoose.Types.ObjectId.isValid(validatedData.customerId)
+        ? await Customer.findOne({ _id: validatedData.customerId, userId: scopeUserId, isDeleted: false })
+        : null;
+      if (!customer) {
+        return NextResponse.json({
+          success: false,
+          message: 'Customer not found'
+        }, { status: 400 });
+      }
+    }
+
+    const schedule = new RecurringInvoice({
+      ...validatedData,
+      currency: validatedData.currency || await CurrencyService.getBaseCurrency(scopeUserId),
+      userId: scopeUserId,
+      createdBy: session.user.email
+    });
+    await schedule.save();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Recurring invoice created successfully',
+      data: schedule
+    }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('Error creating recurring invoice:', error);
+
+    if (error instanceof yup.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        message: 'Validation error',
+        errors: error.errors
+      }, { status: 400 });
+    }
+
+    if (error.name === 'ValidationError') {
+      return NextResponse.json({
+        success: false,
+        message: 'Validation error',
+        errors: Object.values(error.errors).map((err: any) => err.message)
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      message: 'Internal Server Error'
+    }, { status: 500 });
+  }
+}
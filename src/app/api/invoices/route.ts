@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import * as yup from 'yup';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth/nextauth.config';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
 import { connectToDatabase } from '@/lib/database/connection';
+import mongoose from 'mongoose';
 import Invoice, { IInvoice } from '@/lib/database/models/Invoice';
+import { setAuditActor } from '@/lib/database/audit-trail';
+import Customer from '@/lib/database/models/Customer';
+import { CurrencyService } from '@/lib/services/CurrencyService';
+import { SUPPORTED_CURRENCIES } from '@/lib/constants/currencies';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 // Validation schema for invoice creation/update
 const invoiceItemSchema = yup.object({
@@ -30,6 +37,7 @@ const invoiceSchema = yup.object({
   billToAddress: yup.string().optional(),
   billToPhone: yup.number().optional(),
   billToFax: yup.number().optional(),
+  customerId: yup.string().nullable().optional(),
   
   orders: yup.array().of(invoiceItemSchema).min(1, 'At least one item is required'),
   
@@ -43,8 +51,9 @@ const invoiceSchema = yup.object({
   discount: yup.number().min(0).default(0),
   discountType: yup.string().oneOf(['percentage', 'fixed']).default('percentage'),
   grandTotal: yup.number().min(0).required('Grand total is required'),
+  currency: yup.string().uppercase().oneOf([...SUPPORTED_CURRENCIES], `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`).optional(),
   
-  status: yup.string().oneOf(['Draft', 'Pending', 'Sent', 'Paid', 'Overdue', 'Cancelled']).default('Draft'),
+  status: yup.string().oneOf(['Draft', 'Pending', 'Sent', 'Partially Paid', 'Paid', 'Overdue', 'Cancelled']).default('Draft'),
   completed: yup.boolean().default(false),
   notes: yup.string().optional(),
   terms: yup.string().optional()
@@ -53,33 +62,30 @@ const invoiceSchema = yup.object({
 /**
  * GET /api/invoices - Get all invoices for the authenticated user
  */
-export async function GET(req: NextRequest) {
+async function handleGetInvoices(req: NextRequest, user: AuthenticatedUser) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ 
-        success: false,
-        message: 'Unauthorized' 
-      }, { status: 401 });
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectToDatabase();
 
     const { searchParams } = new URL(req.url);
     const status = searchParams.get('status');
+    const customerId = searchParams.get('customerId');
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
     const skip = (page - 1) * limit;
 
     // Build query
-    let query: any = { userId: session.user.id };
+    let query: any = { userId: scopeUserId };
     
     if (status && status !== 'all') {
       query.status = status;
     }
 
+    if (customerId) {
+      query.customerId = customerId;
+    }
+
     // Get invoices with pagination
     const [invoices, total] = await Promise.all([
       Invoice.find(query)
@@ -113,32 +119,41 @@ export async function GET(req: NextRequest) {
 /**
  * POST /api/invoices - Create a new invoice
  */
-export async function POST(req: NextRequest) {
+async function handleCreateInvoice(req: NextRequest, user: AuthenticatedUser) {
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json({ 
-        success: false,
-        message: 'Unauthorized' 
-      }, { status: 401 });
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectToDatabase();
 
     const body = await req.json();
     const validatedData = await invoiceSchema.validate(body);
 
+    // Linked customer must belong to the current user
+    if (validatedData.customerId) {
+      const customer = mongoose.Types.ObjectId.isValid(validatedData.customerId)
+        ? await Customer.findOne({ _id: validatedData.customerId, userId: scopeUserId, isDeleted: false })
+        : null;
+      if (!customer) {
+        return NextResponse.json({
+          success: false,
+          message: 'Customer not found'
+        }, { status: 400 });
+      }
+    }
+
+    // Payments and send history are recorded through their own endpoints
+    const { payments, amountPaid, balanceDue, history, lastSentAt, ...invoiceFields } = validatedData as any;
+
     // Create invoice with user data  
     const invoiceData = {
-      ...validatedData,
-      userId: session.user.id,
-      createdBy: session.user.email
+      ...invoiceFields,
+      currency: invoiceFields.currency || await CurrencyService.getBaseCurrency(scopeUserId),
+      userId: scopeUserId,
+      createdBy: user.email
     };
 
     const invoice = new Invoice(invoiceData);
-    await invoice.save();
+    await setAuditActor(invoice, user.id).save();
 
     return NextResponse.json({
       success: true,
@@ -162,4 +177,8 @@ export async function POST(req: NextRequest) {
       message: 'Internal Server Error' 
     }, { status: 500 });
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching finance scope
+export const GET = withApiPermission(PERMISSIONS.FINANCE_READ, handleGetInvoices);
+export const POST = withApiPermission(PERMISSIONS.FINANCE_CREATE, handleCreateInvoice);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/database/connection';
 import CalendarEvent from '@/lib/database/models/CalendarEvent';
 import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/productivity/calendar/events/[id]
@@ -21,6 +22,8 @@ export async function GET(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -28,7 +31,7 @@ export async function GET(
     // Find event by ID and verify ownership
     const event = await CalendarEvent.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!event) {
@@ -81,6 +84,8 @@ export async function PUT(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -88,7 +93,7 @@ export async function PUT(
     // Find event by ID and verify ownership
     const existingEvent = await CalendarEvent.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!existingEvent) {
@@ -231,6 +236,8 @@ export async function DELETE(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -238,7 +245,7 @@ export async function DELETE(
     // Find event by ID and verify ownership
     const event = await CalendarEvent.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!event) {
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/database/connection';
 import CalendarEvent from '@/lib/database/models/CalendarEvent';
 import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/productivity/calendar/events
@@ -21,6 +22,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectDB();
 
     // Parse query parameters
@@ -40,7 +43,7 @@ export async function GET(request: NextRequest) {
 
     if (search) {
       // Use text search
-      events = await CalendarEvent.searchEvents(search, authResult.user.id);
+      events = await CalendarEvent.searchEvents(search, scopeUserId);
       total = events.length;
 
       // Apply pagination to search results
@@ -48,12 +51,12 @@ export async function GET(request: NextRequest) {
       events = events.slice(skip, skip + limit);
     } else if (today) {
       // Get today's events
-      events = await CalendarEvent.findToday(authResult.user.id);
+      events = await CalendarEvent.findToday(scopeUserId);
       total = events.length;
     } else if (upcoming) {
       // Get upcoming events
       const upcomingLimit = limit || 10;
-      events = await CalendarEvent.findUpcoming(authResult.user.id, upcomingLimit);
+      events = await CalendarEvent.findUpcoming(scopeUserId, upcomingLimit);
       total = events.length;
     } else if (year && month) {
       // Get events for specific month
@@ -67,7 +70,7 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      events = await CalendarEvent.findByMonth(yearNum, monthNum, authResult.user.id);
+      events = await CalendarEvent.findByMonth(yearNum, monthNum, scopeUserId);
       total = events.length;
     } else if (startDate || endDate) {
       // Get events by date range
@@ -114,25 +117,25 @@ export async function GET(request: NextRequest) {
         end = new Date(start.getFullYear(), start.getMonth() + 1, 0, 23, 59, 59, 999);
       }
 
-      events = await CalendarEvent.findByDateRange(start!, end!, authResult.user.id);
+      events = await CalendarEvent.findByDateRange(start!, end!, scopeUserId);
       total = events.length;
     } else {
       // Regular query with pagination
       const skip = (page - 1) * limit;
       [events, total] = await Promise.all([
-        CalendarEvent.find({ userId: authResult.user.id })
+        CalendarEvent.find({ userId: scopeUserId })
           .sort({ startDate: 1 })
           .skip(skip)
           .limit(limit)
           .lean(),
-        CalendarEvent.countDocuments({ userId: authResult.user.id })
+        CalendarEvent.countDocuments({ userId: scopeUserId })
       ]);
     }
 
     // Get summary statistics
-    const totalEvents = await CalendarEvent.getTotalByUser(authResult.user.id);
-    const upcomingEvents = await CalendarEvent.findUpcoming(authResult.user.id, 5);
-    const todayEvents = await CalendarEvent.findToday(authResult.user.id);
+    const totalEvents = await CalendarEvent.getTotalByUser(scopeUserId);
+    const upcomingEvents = await CalendarEvent.findUpcoming(scopeUserId, 5);
+    const todayEvents = await CalendarEvent.findToday(scopeUserId);
 
     return NextResponse.json({
       success: true,
@@ -177,6 +180,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectDB();
 
     // Parse request body
@@ -241,7 +246,7 @@ export async function POST(request: NextRequest) {
       isAllDay: Boolean(isAllDay),
       color: color || '#1976d2',
       location: location?.trim() || null,
-      userId: authResult.user.id
+      userId: scopeUserId
     };
 
     const event = new CalendarEvent(eventData);
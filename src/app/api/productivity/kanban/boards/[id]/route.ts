@@ -3,6 +3,7 @@ import { connectDB } from '@/lib/database/connection';
 import KanbanBoard from '@/lib/database/models/KanbanBoard';
 import KanbanTask from '@/lib/database/models/KanbanTask';
 import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/productivity/kanban/boards/[id]
@@ -25,6 +26,8 @@ export async function GET(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -34,7 +37,7 @@ export async function GET(
     // Find board by ID and verify ownership
     const board = await KanbanBoard.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!board) {
@@ -49,7 +52,7 @@ export async function GET(
     // If includeTasks is true, fetch tasks for the board
     if (includeTasks) {
       const tasks = await KanbanTask.find({
-        userId: authResult.userId,
+        userId: scopeUserId,
         boardId: id
       }).sort({ columnId: 1, order: 1 }).lean();
 
@@ -112,6 +115,8 @@ export async function PUT(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -119,7 +124,7 @@ export async function PUT(
     // Find board by ID and verify ownership
     const existingBoard = await KanbanBoard.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!existingBoard) {
@@ -176,7 +181,7 @@ export async function PUT(
       if (removedColumnIds.length > 0) {
         // Delete tasks from removed columns
         await KanbanTask.deleteMany({
-          userId: authResult.userId,
+          userId: scopeUserId,
           boardId: id,
           columnId: { $in: removedColumnIds }
         });
@@ -239,6 +244,8 @@ export async function DELETE(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -246,7 +253,7 @@ export async function DELETE(
     // Find board by ID and verify ownership
     const board = await KanbanBoard.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!board) {
@@ -257,7 +264,7 @@ export async function DELETE(
     }
 
     // Delete all tasks associated with this board
-    const deletedTasksCount = await KanbanTask.deleteByBoard(id, authResult.userId);
+    const deletedTasksCount = await KanbanTask.deleteByBoard(id, scopeUserId);
 
     // Delete the board
     await KanbanBoard.findByIdAndDelete(id);
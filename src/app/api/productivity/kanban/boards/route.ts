@@ -3,6 +3,7 @@ import { connectDB } from '@/lib/database/connection';
 import KanbanBoard from '@/lib/database/models/KanbanBoard';
 import KanbanTask from '@/lib/database/models/KanbanTask';
 import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/productivity/kanban/boards
@@ -22,6 +23,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectDB();
 
     // Parse query parameters
@@ -36,7 +39,7 @@ export async function GET(request: NextRequest) {
 
     if (search) {
       // Use text search
-      boards = await KanbanBoard.searchBoards(search, authResult.user.id);
+      boards = await KanbanBoard.searchBoards(search, scopeUserId);
       total = boards.length;
 
       // Apply pagination to search results
@@ -46,12 +49,12 @@ export async function GET(request: NextRequest) {
       // Regular query with pagination
       const skip = (page - 1) * limit;
       [boards, total] = await Promise.all([
-        KanbanBoard.find({ userId: authResult.user.id })
+        KanbanBoard.find({ userId: scopeUserId })
           .sort({ createdAt: -1 })
           .skip(skip)
           .limit(limit)
           .lean(),
-        KanbanBoard.countDocuments({ userId: authResult.user.id })
+        KanbanBoard.countDocuments({ userId: scopeUserId })
       ]);
     }
 
@@ -59,7 +62,7 @@ export async function GET(request: NextRequest) {
     if (includeTasks && boards.length > 0) {
       const boardIds = boards.map(board => (board._id as any).toString());
       const tasks = await KanbanTask.find({
-        userId: authResult.user.id,
+        userId: scopeUserId,
         boardId: { $in: boardIds }
       }).sort({ columnId: 1, order: 1 }).lean();
 
@@ -91,8 +94,8 @@ export async function GET(request: NextRequest) {
     }
 
     // Get summary statistics
-    const totalBoards = await KanbanBoard.getTotalByUser(authResult.user.id);
-    const totalTasks = await KanbanTask.getTotalByUser(authResult.user.id);
+    const totalBoards = await KanbanBoard.getTotalByUser(scopeUserId);
+    const totalTasks = await KanbanTask.getTotalByUser(scopeUserId);
 
     return NextResponse.json({
       success: true,
@@ -136,6 +139,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectDB();
 
     // Parse request body
@@ -161,7 +166,7 @@ export async function POST(request: NextRequest) {
     // Check if user wants default board or custom columns
     if (useDefaults || !columns) {
       // Create board with default columns
-      const board = await KanbanBoard.createDefaultBoard(authResult.user.id, name.trim());
+      const board = await KanbanBoard.createDefaultBoard(scopeUserId, name.trim());
 
       if (description) {
         board.description = description.trim();
@@ -201,7 +206,7 @@ export async function POST(request: NextRequest) {
         name: name.trim(),
         description: description?.trim() || null,
         columns: processedColumns,
-        userId: authResult.user.id
+        userId: scopeUserId
       };
 
       const board = new KanbanBoard(boardData);
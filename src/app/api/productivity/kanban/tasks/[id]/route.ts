@@ -3,6 +3,7 @@ import { connectDB } from '@/lib/database/connection';
 import KanbanTask from '@/lib/database/models/KanbanTask';
 import KanbanBoard from '@/lib/database/models/KanbanBoard';
 import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/productivity/kanban/tasks/[id]
@@ -22,6 +23,8 @@ export async function GET(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -29,7 +32,7 @@ export async function GET(
     // Find task by ID and verify ownership
     const task = await KanbanTask.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!task) {
@@ -82,6 +85,8 @@ export async function PUT(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -89,7 +94,7 @@ export async function PUT(
     // Find task by ID and verify ownership
     const existingTask = await KanbanTask.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!existingTask) {
@@ -141,7 +146,7 @@ export async function PUT(
       // Verify the new column exists in the board
       const board = await KanbanBoard.findOne({
         _id: existingTask.boardId,
-        userId: authResult.userId
+        userId: scopeUserId
       });
 
       if (!board) {
@@ -163,7 +168,7 @@ export async function PUT(
       const newOrder = order !== undefined ? order : 0;
 
       // Use the static method to move the task
-      const moveSuccess = await KanbanTask.moveTask(id, columnId, newOrder, authResult.userId);
+      const moveSuccess = await KanbanTask.moveTask(id, columnId, newOrder, scopeUserId);
 
       if (!moveSuccess) {
         return NextResponse.json(
@@ -241,6 +246,8 @@ export async function DELETE(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -248,7 +255,7 @@ export async function DELETE(
     // Find task by ID and verify ownership
     const task = await KanbanTask.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!task) {
@@ -271,7 +278,7 @@ export async function DELETE(
     // Reorder remaining tasks in the column
     await KanbanTask.updateMany(
       {
-        userId: authResult.userId,
+        userId: scopeUserId,
         boardId: taskInfo.boardId,
         columnId: taskInfo.columnId,
         order: { $gt: taskInfo.order }
@@ -3,6 +3,7 @@ import { connectDB } from '@/lib/database/connection';
 import KanbanTask from '@/lib/database/models/KanbanTask';
 import KanbanBoard from '@/lib/database/models/KanbanBoard';
 import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * POST /api/productivity/kanban/tasks/reorder
@@ -19,6 +20,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     // Parse request body
@@ -38,7 +41,7 @@ export async function POST(request: NextRequest) {
       // Verify board exists and belongs to user
       const board = await KanbanBoard.findOne({
         _id: boardId,
-        userId: authResult.userId
+        userId: scopeUserId
       });
 
       if (!board) {
@@ -58,7 +61,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Reorder tasks
-      const success = await KanbanTask.reorderTasks(boardId, columnId, taskIds, authResult.userId);
+      const success = await KanbanTask.reorderTasks(boardId, columnId, taskIds, scopeUserId);
 
       if (!success) {
         return NextResponse.json(
@@ -74,7 +77,7 @@ export async function POST(request: NextRequest) {
 
     } else if (taskId && targetColumnId && newOrder !== undefined) {
       // Move single task to different column
-      const success = await KanbanTask.moveTask(taskId, targetColumnId, newOrder, authResult.userId);
+      const success = await KanbanTask.moveTask(taskId, targetColumnId, newOrder, scopeUserId);
 
       if (!success) {
         return NextResponse.json(
@@ -86,7 +89,7 @@ export async function POST(request: NextRequest) {
       // Get updated task
       const updatedTask = await KanbanTask.findOne({
         _id: taskId,
-        userId: authResult.userId
+        userId: scopeUserId
       });
 
       return NextResponse.json({
@@ -3,6 +3,7 @@ import { connectDB } from '@/lib/database/connection';
 import KanbanTask from '@/lib/database/models/KanbanTask';
 import KanbanBoard from '@/lib/database/models/KanbanBoard';
 import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/productivity/kanban/tasks
@@ -22,6 +23,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     // Parse query parameters
@@ -38,7 +41,7 @@ export async function GET(request: NextRequest) {
 
     if (search) {
       // Use text search
-      tasks = await KanbanTask.searchTasks(search, authResult.userId);
+      tasks = await KanbanTask.searchTasks(search, scopeUserId);
       total = tasks.length;
 
       // Apply pagination to search results
@@ -46,34 +49,34 @@ export async function GET(request: NextRequest) {
       tasks = tasks.slice(skip, skip + limit);
     } else if (boardId && columnId) {
       // Get tasks for specific board and column
-      tasks = await KanbanTask.findByColumn(boardId, columnId, authResult.userId);
+      tasks = await KanbanTask.findByColumn(boardId, columnId, scopeUserId);
       total = tasks.length;
     } else if (boardId) {
       // Get tasks for specific board
-      tasks = await KanbanTask.findByBoard(boardId, authResult.userId);
+      tasks = await KanbanTask.findByBoard(boardId, scopeUserId);
       total = tasks.length;
     } else if (taskProperty) {
       // Get tasks by property
-      tasks = await KanbanTask.findByProperty(taskProperty, authResult.userId);
+      tasks = await KanbanTask.findByProperty(taskProperty, scopeUserId);
       total = tasks.length;
     } else {
       // Regular query with pagination
       const skip = (page - 1) * limit;
       [tasks, total] = await Promise.all([
-        KanbanTask.find({ userId: authResult.userId })
+        KanbanTask.find({ userId: scopeUserId })
           .sort({ createdAt: -1 })
           .skip(skip)
           .limit(limit)
           .lean(),
-        KanbanTask.countDocuments({ userId: authResult.userId })
+        KanbanTask.countDocuments({ userId: scopeUserId })
       ]);
     }
 
     // Get summary statistics
-    const totalTasks = await KanbanTask.getTotalByUser(authResult.userId);
+    const totalTasks = await KanbanTask.getTotalByUser(scopeUserId);
     let boardTaskCount = 0;
     if (boardId) {
-      boardTaskCount = await KanbanTask.getTotalByBoard(boardId, authResult.userId);
+      boardTaskCount = await KanbanTask.getTotalByBoard(boardId, scopeUserId);
     }
 
     return NextResponse.json({
@@ -118,6 +121,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     // Parse request body
@@ -143,7 +148,7 @@ export async function POST(request: NextRequest) {
     // Verify board exists and belongs to user
     const board = await KanbanBoard.findOne({
       _id: boardId,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!board) {
@@ -175,7 +180,7 @@ export async function POST(request: NextRequest) {
     if (taskOrder === undefined) {
       // Get the highest order in the column and add 1
       const lastTask = await KanbanTask.findOne({
-        userId: authResult.userId,
+        userId: scopeUserId,
         boardId: boardId,
         columnId: columnId
       }).sort({ order: -1 });
@@ -193,7 +198,7 @@ export async function POST(request: NextRequest) {
       boardId: boardId,
       columnId: columnId,
       order: taskOrder,
-      userId: authResult.userId
+      userId: scopeUserId
     };
 
     const task = new KanbanTask(taskData);
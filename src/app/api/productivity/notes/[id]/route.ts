@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/database/connection';
 import Note from '@/lib/database/models/Note';
 import { authenticateRequest } from '@/lib/auth/api-auth';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/productivity/notes/[id]
@@ -24,6 +25,8 @@ export async function GET(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -31,7 +34,7 @@ export async function GET(
     // Find note by ID and verify ownership
     const note = await Note.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!note) {
@@ -84,6 +87,8 @@ export async function PUT(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -91,7 +96,7 @@ export async function PUT(
     // Find note by ID and verify ownership
     const existingNote = await Note.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!existingNote) {
@@ -201,6 +206,8 @@ export async function DELETE(
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId);
+
     await connectDB();
 
     const { id } = params;
@@ -212,7 +219,7 @@ export async function DELETE(
     // Find note by ID and verify ownership
     const note = await Note.findOne({
       _id: id,
-      userId: authResult.userId
+      userId: scopeUserId
     });
 
     if (!note) {
@@ -12,6 +12,7 @@ import {
   ProductivityValidator,
   handleProductivityError
 } from '@/lib/utils/productivity-error-handler';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
@@ -23,6 +24,8 @@ export const dynamic = 'force-dynamic';
 async function handleGetNotes(request: NextRequest, authResult: ProductivityAuthResult) {
   await connectDB();
 
+  const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId!);
+
   // Parse query parameters
   const { searchParams } = new URL(request.url);
   const page = parseInt(searchParams.get('page') || '1');
@@ -42,7 +45,7 @@ async function handleGetNotes(request: NextRequest, authResult: ProductivityAuth
   }
 
   // Build query
-  const query: any = { userId: authResult.userId };
+  const query: any = { userId: scopeUserId };
 
   if (!includeDeleted) {
     query.isDeleted = false;
@@ -58,7 +61,7 @@ async function handleGetNotes(request: NextRequest, authResult: ProductivityAuth
   if (search) {
     // Advanced search for premium users
     if (hasPermission(authResult, 'advanced_search')) {
-      notes = await Note.searchNotes(search, authResult.userId!);
+      notes = await Note.searchNotes(search, scopeUserId);
     } else {
       // Basic search for regular users
       notes = await Note.find({
@@ -85,7 +88,7 @@ async function handleGetNotes(request: NextRequest, authResult: ProductivityAuth
 
   // Get summary statistics
   const totalActive = await Note.countDocuments({
-    userId: authResult.userId,
+    userId: scopeUserId,
     isDeleted: false
   });
 
@@ -111,7 +114,7 @@ async function handleGetNotes(request: NextRequest, authResult: ProductivityAuth
   // Add analytics for admin users
   if (hasPermission(authResult, 'admin')) {
     const analytics = await Note.aggregate([
-      { $match: { userId: authResult.userId } },
+      { $match: { userId: scopeUserId } },
       {
         $group: {
           _id: '$color',
@@ -132,6 +135,8 @@ async function handleGetNotes(request: NextRequest, authResult: ProductivityAuth
 async function handleCreateNote(request: NextRequest, authResult: ProductivityAuthResult) {
   await connectDB();
 
+  const scopeUserId = await WorkspaceService.getScopeUserId(authResult.userId!);
+
   // Check write permission
   requirePermission(authResult, 'write');
 
@@ -162,7 +167,7 @@ async function handleCreateNote(request: NextRequest, authResult: ProductivityAu
     title: title.trim(),
     content: content.trim(),
     color: color || 'info',
-    userId: authResult.userId
+    userId: scopeUserId
   };
 
   // Add premium fields if user has access
@@ -17,6 +17,7 @@ import {
   PerformanceMonitor
 } from '@/lib/utils/productivity-performance';
 import { NotesCache } from '@/lib/utils/productivity-cache';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/productivity/notes
@@ -41,6 +42,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectDB();
 
     // Parse and validate query parameters
@@ -64,7 +67,7 @@ export async function GET(request: NextRequest) {
     if (search) {
       // Use cached search with performance monitoring
       const cacheKey = { search, includeDeleted, color };
-      const cached = NotesCache.get(authResult.user.id, cacheKey);
+      const cached = NotesCache.get(scopeUserId, cacheKey);
 
       if (cached) {
         // Apply pagination to cached search results
@@ -82,7 +85,7 @@ export async function GET(request: NextRequest) {
         };
       } else {
         // Execute search query
-        const searchResults = await Note.searchNotes(search, authResult.user.id);
+        const searchResults = await Note.searchNotes(search, scopeUserId);
 
         // Filter by color and deleted status if needed
         let filteredResults = searchResults;
@@ -94,7 +97,7 @@ export async function GET(request: NextRequest) {
         }
 
         // Cache the search results
-        NotesCache.set(authResult.user.id, filteredResults, cacheKey);
+        NotesCache.set(scopeUserId, filteredResults, cacheKey);
 
         // Apply pagination
         const skip = (paginationOptions.page - 1) * paginationOptions.limit;
@@ -113,7 +116,7 @@ export async function GET(request: NextRequest) {
     } else {
       // Use optimized query builder with caching
       const queryBuilder = new ProductivityQueryBuilder(Note)
-        .forUser(authResult.user.id)
+        .forUser(scopeUserId)
         .lean();
 
       // Add filters
@@ -128,7 +131,7 @@ export async function GET(request: NextRequest) {
       const cachedQuery = new CachedProductivityQuery(
         'notes',
         queryBuilder,
-        authResult.user.id
+        scopeUserId
       );
 
       result = await cachedQuery.paginate(paginationOptions);
@@ -137,8 +140,8 @@ export async function GET(request: NextRequest) {
     // Get summary statistics with caching
     const totalActive = await new CachedProductivityQuery(
       'notes',
-      new ProductivityQueryBuilder(Note).forUser(authResult.user.id).where({ isDeleted: false }),
-      authResult.user.id
+      new ProductivityQueryBuilder(Note).forUser(scopeUserId).where({ isDeleted: false }),
+      scopeUserId
     ).count();
 
     // End performance monitoring
@@ -179,6 +182,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectDB();
 
     // Parse request body
@@ -199,14 +204,14 @@ export async function POST(request: NextRequest) {
       title: title.trim(),
       content: content.trim(),
       color: color || 'info',
-      userId: authResult.user.id
+      userId: scopeUserId
     };
 
     const note = new Note(noteData);
     const savedNote = await note.save();
 
     // Invalidate cache for this user since we added a new note
-    NotesCache.invalidate(authResult.user.id);
+    NotesCache.invalidate(scopeUserId);
 
     return createSuccessResponse({
       note: savedNote.toJSON()
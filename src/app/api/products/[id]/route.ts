@@ -2,12 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import * as yup from 'yup';
 import mongoose from 'mongoose';
 import { connectToDatabase } from '@/lib/database/connection';
-import Product from '@/lib/database/models/Product';
+import Product, { WORDPRESS_SYNCED_FIELDS } from '@/lib/database/models/Product';
 import ProductVariant from '@/lib/database/models/ProductVariant';
 import InventoryLog from '@/lib/database/models/InventoryLog';
 import StockAlert from '@/lib/database/models/StockAlert';
 import { InventoryManager } from '@/lib/utils/inventory-manager';
-import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+import { auditActor } from '@/lib/database/audit-trail';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 const productUpdateSchema = yup.object({
   title: yup.string().max(200),
@@ -51,7 +56,7 @@ function isValidObjectId(id: string): boolean {
 async function findProductById(id: string, userId?: string) {
   let product = null;
 
-  // Base query with user ownership filter
+  // Base query with workspace ownership filter
   const baseQuery = userId ? { createdBy: userId } : {};
 
   // Strategy 1: Try as MongoDB ObjectId first (most common case)
@@ -111,18 +116,13 @@ async function findProductById(id: string, userId?: string) {
  * GET /api/products/[id] - Get single product with variants and inventory details
  * Supports multiple ID formats: MongoDB ObjectId, WordPress ID, numeric ID, SKU, etc.
  */
-export async function GET(
+async function handleGetProduct(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication using unified middleware
-    const authResult = await authenticateApiRequest(request);
-    if (!authResult.success || !authResult.user) {
-      console.log('❌ Authentication failed:', authResult.error);
-      const { response, status } = createApiResponse(false, null, authResult.error, 401);
-      return NextResponse.json(response, { status });
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectToDatabase();
 
@@ -138,8 +138,8 @@ export async function GET(
       return NextResponse.json(response, { status });
     }
 
-    // Use flexible product lookup with user ownership filter
-    const product = await findProductById(productId.trim(), authResult.user.id);
+    // Use flexible product lookup with workspace ownership filter
+    const product = await findProductById(productId.trim(), scopeUserId);
     
     if (!product) {
       const { response, status } = createApiResponse(
@@ -202,18 +202,13 @@ export async function GET(
 /**
  * PUT /api/products/[id] - Update product
  */
-export async function PUT(
+async function handleUpdateProduct(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication using unified middleware
-    const authResult = await authenticateApiRequest(request);
-    if (!authResult.success || !authResult.user) {
-      console.log('❌ Authentication failed:', authResult.error);
-      const { response, status } = createApiResponse(false, null, authResult.error, 401);
-      return NextResponse.json(response, { status });
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectToDatabase();
 
@@ -239,7 +234,7 @@ export async function PUT(
     console.log('PUT /api/products/[id] - Raw request body:', JSON.stringify(body, null, 2));
 
     // Validate request body
-    let validatedData;
+    let validatedData: yup.InferType<typeof productUpdateSchema>;
     try {
       validatedData = await productUpdateSchema.validate(body);
       console.log('PUT /api/products/[id] - Validation successful:', Object.keys(validatedData));
@@ -248,8 +243,8 @@ export async function PUT(
       throw validationError;
     }
 
-    // Find existing product using flexible lookup with user ownership filter
-    const existingProduct = await findProductById(productId.trim(), authResult.user.id);
+    // Find existing product using flexible lookup with workspace ownership filter
+    const existingProduct = await findProductById(productId.trim(), scopeUserId);
     
     console.log('PUT /api/products/[id] - Product lookup result:', {
       found: !!existingProduct,
@@ -302,6 +297,11 @@ export async function PUT(
       (validatedData as any).salesPrice = validatedData.price;
     }
 
+    // Stock and price edits on WooCommerce-linked products are queued for outbound sync
+    if (existingProduct.wordpress?.id && WORDPRESS_SYNCED_FIELDS.some(field => field in validatedData)) {
+      (validatedData as any)['wordpress.syncStatus'] = 'pending';
+    }
+
     // Log final update data
     console.log('PUT /api/products/[id] - Final update data:', {
       productId: existingProduct._id,
@@ -317,10 +317,10 @@ export async function PUT(
         existingProduct._id,
         {
           ...validatedData,
-          updatedBy: authResult.user.id,
+          updatedBy: user.id,
           updatedAt: new Date()
         },
-        { new: true, runValidators: true }
+        { new: true, runValidators: true, ...auditActor(user.id) }
       );
       
       console.log('PUT /api/products/[id] - Product updated successfully:', {
@@ -370,18 +370,13 @@ export async function PUT(
 /**
  * DELETE /api/products/[id] - Delete product
  */
-export async function DELETE(
+async function handleDeleteProduct(
   request: NextRequest,
+  user: AuthenticatedUser,
   { params }: { params: { id: string } }
 ) {
   try {
-    // Verify authentication using unified middleware
-    const authResult = await authenticateApiRequest(request);
-    if (!authResult.success || !authResult.user) {
-      console.log('❌ Authentication failed:', authResult.error);
-      const { response, status } = createApiResponse(false, null, authResult.error, 401);
-      return NextResponse.json(response, { status });
-    }
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectToDatabase();
 
@@ -397,8 +392,8 @@ export async function DELETE(
       return NextResponse.json(response, { status });
     }
 
-    // Find product using flexible lookup with user ownership filter
-    const product = await findProductById(productId.trim(), authResult.user.id);
+    // Find product using flexible lookup with workspace ownership filter
+    const product = await findProductById(productId.trim(), scopeUserId);
     
     if (!product) {
       const { response, status } = createApiResponse(
@@ -436,7 +431,7 @@ export async function DELETE(
         }
         
         // Delete the product (inventory logs are kept for audit purposes)
-        await Product.findByIdAndDelete(product._id, { session });
+        await Product.findByIdAndDelete(product._id, { session, ...auditActor(user.id) });
       });
 
       const { response, status } = createApiResponse(true, {
@@ -458,4 +453,9 @@ export async function DELETE(
     );
     return NextResponse.json(response, { status });
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching products scope
+export const GET = withApiPermission(PERMISSIONS.PRODUCTS_READ, handleGetProduct);
+export const PUT = withApiPermission(PERMISSIONS.PRODUCTS_UPDATE, handleUpdateProduct);
+export const DELETE = withApiPermission(PERMISSIONS.PRODUCTS_DELETE, handleDeleteProduct);
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { connectDB } from '@/lib/database/connection';
 import Product from '@/lib/database/models/Product';
-import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { withApiPermission } from '@/lib/auth/api-auth-middleware';
+import { AuthenticatedUser } from '@/lib/auth/subscription-auth';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+import { setAuditActor } from '@/lib/database/audit-trail';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
 
 /**
  * GET /api/products - Get products for invoice creation
@@ -9,21 +14,14 @@ import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-m
 // Force dynamic rendering for this route
 export const dynamic = 'force-dynamic';
 
-export async function GET(req: NextRequest) {
+async function handleGetProducts(req: NextRequest, user: AuthenticatedUser) {
   try {
     console.log('🛍️ Products API called');
-
-    // Verify authentication using unified middleware
-    const authResult = await authenticateApiRequest(req);
-    if (!authResult.success || !authResult.user) {
-      console.log('❌ Authentication failed:', authResult.error);
-      const { response, status } = createApiResponse(false, null, authResult.error, 401);
-      return NextResponse.json(response, { status });
-    }
-
-    console.log('✅ User authenticated:', authResult.user.email);
+    console.log('✅ User authenticated:', user.email);
 
     console.log('🔌 Connecting to database...');
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
+
     await connectDB();
     console.log('✅ Database connected');
 
@@ -35,10 +33,10 @@ export async function GET(req: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '20');
     const skip = (page - 1) * limit;
 
-    // Build query - filter by user
+    // Build query - filter by workspace
     let query: any = { 
       status: 'publish',
-      createdBy: authResult.user.id
+      createdBy: scopeUserId
     };
 
     // Add search filter
@@ -127,19 +125,12 @@ export async function GET(req: NextRequest) {
 /**
  * POST /api/products - Create a new product
  */
-export async function POST(req: NextRequest) {
+async function handleCreateProduct(req: NextRequest, user: AuthenticatedUser) {
   try {
     console.log('🛍️ Create Product API called');
+    console.log('✅ User authenticated:', user.email);
 
-    // Verify authentication using unified middleware
-    const authResult = await authenticateApiRequest(req);
-    if (!authResult.success || !authResult.user) {
-      console.log('❌ Authentication failed:', authResult.error);
-      const { response, status } = createApiResponse(false, null, authResult.error, 401);
-      return NextResponse.json(response, { status });
-    }
-
-    console.log('✅ User authenticated:', authResult.user.email);
+    const scopeUserId = await WorkspaceService.getScopeUserId(user.id);
 
     await connectDB();
     
@@ -160,8 +151,8 @@ export async function POST(req: NextRequest) {
     // Create product with user association
     const productData = {
       ...body,
-      createdBy: authResult.user.id,
-      updatedBy: authResult.user.id,
+      createdBy: scopeUserId,
+      updatedBy: user.id,
       sku: body.sku || `SKU-${Date.now()}`,
       status: body.status || 'publish',
       type: body.type || 'simple',
@@ -185,7 +176,7 @@ export async function POST(req: NextRequest) {
     };
 
     const product = new Product(productData);
-    await product.save();
+    await setAuditActor(product, user.id).save();
 
     console.log('✅ Product created successfully:', product._id);
 
@@ -227,4 +218,8 @@ export async function POST(req: NextRequest) {
     );
     return NextResponse.json(response, { status });
   }
-}
\ No newline at end of file
+}
+
+// API keys need the matching products scope
+export const GET = withApiPermission(PERMISSIONS.PRODUCTS_READ, handleGetProducts);
+export const POST = withApiPermission(PERMISSIONS.PRODUCTS_CREATE, handleCreateProduct);
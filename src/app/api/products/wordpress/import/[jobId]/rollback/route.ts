@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+import { ImportRollbackService } from '@/lib/services/ImportRollbackService';
+
+interface RouteParams {
+  params: { jobId: string }
+}
+
+/**
+ * POST /api/products/wordpress/import/[jobId]/rollback - Undo a WordPress product or order import
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const result = await ImportRollbackService.rollbackWordPressImportJob(params.jobId, authResult.user.id);
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error?.message
+      }, { status: result.error?.code === 'NOT_FOUND' ? 404 : 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'WordPress import rolled back',
+      data: result.rollback
+    });
+
+  } catch (error) {
+    console.error('WordPress import rollback error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to roll back WordPress import'
+    }, { status: 500 });
+  }
+}
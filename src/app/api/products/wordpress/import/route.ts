@@ -5,9 +5,13 @@ import Product from '@/lib/database/models/Product';
 import ProductVariant from '@/lib/database/models/ProductVariant';
 import WordPressConnection from '@/lib/database/models/WordPressConnection';
 import WordPressImportJob from '@/lib/database/models/WordPressImportJob';
-import { WordPressAPI } from '@/lib/utils/wordpress-api';
+import InventoryLog from '@/lib/database/models/InventoryLog';
+import { WordPressAPI, parseWooCommerceDate } from '@/lib/utils/wordpress-api';
 import { SKUGenerator } from '@/lib/utils/sku-generator';
 import { InventoryManager } from '@/lib/utils/inventory-manager';
+import { ImportRollbackService } from '@/lib/services/ImportRollbackService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
 import { WordPressProduct } from '@/app/(dashboard)/types/apps/eCommerce';
 
 const importRequestSchema = yup.object({
@@ -39,6 +43,14 @@ const importRequestSchema = yup.object({
  */
 export async function POST(request: NextRequest) {
   try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectToDatabase();
 
     const body = await request.json();
@@ -83,7 +95,7 @@ export async function POST(request: NextRequest) {
         pageSize: validatedData.options.batchSize
       },
       triggeredBy: 'manual',
-      userId: 'system', // TODO: Get from JWT token
+      userId: scopeUserId,
       notes: 'WordPress product import'
     });
 
@@ -127,14 +139,24 @@ export async function POST(request: NextRequest) {
  */
 export async function GET(request: NextRequest) {
   try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
     await connectToDatabase();
 
     const url = new URL(request.url);
     const jobId = url.searchParams.get('jobId');
 
     if (!jobId) {
-      // Return recent import jobs
-      const recentJobs = await WordPressImportJob.findRecentJobs(10);
+      // Return the workspace's recent import jobs
+      const recentJobs = await WordPressImportJob.find({ userId: scopeUserId })
+        .sort({ startedAt: -1 })
+        .limit(10);
       return NextResponse.json({
         success: true,
         data: recentJobs
@@ -142,7 +164,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Find specific job
-    const job = await WordPressImportJob.findByJobId(jobId);
+    const job = await WordPressImportJob.findOne({ jobId, userId: scopeUserId });
     if (!job) {
       return NextResponse.json({
         success: false,
@@ -212,7 +234,7 @@ async function processWordPressImport(
     for (let index = 0; index < products.length; index++) {
       const wpProduct = products[index];
       try {
-        await processWordPressProduct(wpProduct, job, config);
+        await processWordPressProduct(wpProduct, job, config, connection.siteUrl);
         job.progress.processed = index + 1;
         job.progress.imported++;
         
@@ -260,7 +282,8 @@ async function processWordPressImport(
 async function processWordPressProduct(
   wpProduct: WordPressProduct,
   job: any,
-  config: any
+  config: any,
+  sourceUrl: string
 ): Promise<void> {
   // Check if product already exists
   const existingProduct = await Product.findByWordPressId(wpProduct.id);
@@ -271,7 +294,7 @@ async function processWordPressProduct(
   }
 
   // Transform WordPress product to our format
-  const productData = transformWordPressProduct(wpProduct, config);
+  const productData = transformWordPressProduct(wpProduct, config, sourceUrl);
 
   if (existingProduct) {
     // Update existing product
@@ -287,7 +310,7 @@ async function processWordPressProduct(
 /**
  * Transform WordPress product to our product format
  */
-function transformWordPressProduct(wpProduct: WordPressProduct, config: any): any {
+function transformWordPressProduct(wpProduct: WordPressProduct, config: any, sourceUrl: string): any {
   const categories = wpProduct.categories?.map(cat => cat.name) || [];
   const tags = wpProduct.tags?.map(tag => tag.name) || [];
   
@@ -316,12 +339,13 @@ function transformWordPressProduct(wpProduct: WordPressProduct, config: any): an
     tags: tags,
     wordpress: {
       id: wpProduct.id,
-      sourceUrl: '', // Will be set from connection
+      sourceUrl: sourceUrl.replace(/\/$/, ''), // Links the product to its connection for outbound sync
       slug: wpProduct.slug,
       lastSync: new Date(),
       syncStatus: 'synced',
       dateCreated: new Date(wpProduct.dateCreated),
-      dateModified: new Date(wpProduct.dateModified),
+      // Baseline for detecting remote edits during outbound sync
+      dateModified: parseWooCommerceDate((wpProduct as any).date_modified_gmt) || new Date(wpProduct.dateModified),
       totalSales: wpProduct.totalSales
     }
   };
@@ -336,6 +360,15 @@ async function updateExistingProduct(
   wpProduct: WordPressProduct,
   job: any
 ): Promise<void> {
+  // Snapshot the fields about to change so the import can be rolled back; stock is logged instead
+  const changedPaths = Object.keys(productData).filter(path => path !== 'qty');
+  job.results.previousValues.push({
+    productId: String(existingProduct._id),
+    values: ImportRollbackService.snapshot(existingProduct, changedPaths)
+  });
+  job.results.updatedProducts.push(String(existingProduct._id));
+  const quantityBefore = existingProduct.qty;
+
   // Update product fields
   Object.assign(existingProduct, {
     ...productData,
@@ -344,6 +377,22 @@ async function updateExistingProduct(
 
   await existingProduct.save();
 
+  if (existingProduct.qty !== quantityBefore) {
+    await InventoryLog.createLog({
+      productId: String(existingProduct._id),
+      sku: existingProduct.sku || String(existingProduct._id),
+      type: 'import',
+      quantityBefore,
+      quantityChange: existingProduct.qty - quantityBefore,
+      quantityAfter: existingProduct.qty,
+      importJobId: job.jobId,
+      userId: job.userId,
+      reason: 'WordPress import - stock update',
+      source: 'import',
+      metadata: { wordpressProductId: wpProduct.id }
+    });
+  }
+
   // Update WordPress sync status
   await existingProduct.markAsSynced();
 }
@@ -379,10 +428,12 @@ async function createNewProduct(
     relatedIds: [],
     upsellIds: [],
     crossSellIds: [],
-    colors: []
+    colors: [],
+    createdBy: job.userId
   });
 
   await product.save();
+  job.results.newProducts.push(String(product._id));
 
   // Create initial inventory log
   if (productData.qty > 0 && productData.sku) {
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as yup from 'yup';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/lib/database/connection';
+import Product from '@/lib/database/models/Product';
+import WordPressConnection from '@/lib/database/models/WordPressConnection';
+import { WooCommerceSyncService } from '@/lib/services/WooCommerceSyncService';
+import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+
+const syncRequestSchema = yup.object({
+  connectionId: yup.string().required('Connection ID is required'),
+  productIds: yup.array().of(yup.string().required()).max(500, 'At most 500 products can be synced at once'),
+  conflictStrategy: yup.string().oneOf(['skip', 'overwrite']).default('skip')
+});
+
+/**
+ * POST /api/products/wordpress/sync - Push local stock and price changes to WooCommerce
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const body = await request.json();
+    const validatedData = await syncRequestSchema.validate(body);
+
+    const invalidId = validatedData.productIds?.find(id => !mongoose.Types.ObjectId.isValid(id));
+    if (invalidId) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid product ID: ${invalidId}`
+      }, { status: 400 });
+    }
+
+    const result = await WooCommerceSyncService.syncConnection(validatedData.connectionId, {
+      productIds: validatedData.productIds,
+      conflictStrategy: validatedData.conflictStrategy as 'skip' | 'overwrite'
+    });
+
+    if (result.error) {
+      return NextResponse.json({
+        success: false,
+        error: result.error.message
+      }, { status: result.error.code === 'NOT_FOUND' ? 404 : 400 });
+    }
+
+    return NextResponse.json({
+      success: result.success,
+      message: `${result.pushed} item(s) synced to WooCommerce`,
+      data: {
+        pushed: result.pushed,
+        conflicts: result.conflicts,
+        errors: result.errors
+      }
+    });
+
+  } catch (error) {
+    console.error('WordPress sync error:', error);
+
+    if (error instanceof yup.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to sync products to WordPress'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/products/wordpress/sync - Get outbound sync status for a connection
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    await connectToDatabase();
+
+    const url = new URL(request.url);
+    const connectionId = url.searchParams.get('connectionId');
+
+    if (!connectionId || !mongoose.Types.ObjectId.isValid(connectionId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Connection ID is required'
+      }, { status: 400 });
+    }
+
+    const connection = await WordPressConnection.findById(connectionId);
+    if (!connection) {
+      return NextResponse.json({
+        success: false,
+        error: 'WordPress connection not found'
+      }, { status: 404 });
+    }
+
+    const linked = {
+      'wordpress.id': { $exists: true },
+      'wordpress.sourceUrl': connection.siteUrl.replace(/\/$/, '')
+    };
+
+    const [statusCounts, attention] = await Promise.all([
+      Product.aggregate([
+        { $match: linked },
+        { $group: { _id: '$wordpress.syncStatus', count: { $sum: 1 } } }
+      ]),
+      // Products that need a decision before they can sync again
+      Product.find({ ...linked, 'wordpress.syncStatus': { $in: ['conflict', 'error'] } })
+        .select('title sku qty price wordpress.id wordpress.syncStatus wordpress.errorMessage wordpress.lastSync')
+        .sort({ 'wordpress.lastSync': 1 })
+        .limit(100)
+        .lean()
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        lastSyncDate: connection.lastSyncDate,
+        counts: Object.fromEntries(statusCounts.map(entry => [entry._id || 'never', entry.count])),
+        attention
+      }
+    });
+
+  } catch (error) {
+    console.error('WordPress sync status error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get sync status'
+    }, { status: 500 });
+  }
+}
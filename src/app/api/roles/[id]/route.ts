@@ -6,13 +6,15 @@ import type { IRoleDocument } from '@/lib/database/models';
 import { Types } from 'mongoose';
 import { PermissionService } from '@/lib/services/permission.service';
 import { RoleUtils } from '@/lib/utils/role.utils';
+import { auditActor } from '@/lib/database/audit-trail';
 import { z } from 'zod';
 
 // Validation schemas
 const updateRoleSchema = z.object({
   name: z.string().min(1, 'Role name is required').max(50, 'Role name too long').optional(),
   description: z.string().min(1, 'Description is required').max(255, 'Description too long').optional(),
-  permissions: z.array(z.string()).min(1, 'At least one permission is required').optional()
+  permissions: z.array(z.string()).min(1, 'At least one permission is required').optional(),
+  requireTwoFactor: z.boolean().optional()
 });
 
 /**
@@ -60,6 +62,7 @@ export async function GET(
       name: role.name,
       description: role.description,
       isSystem: role.isSystem,
+      requireTwoFactor: role.requireTwoFactor,
       permissions: role.permissions,
       userCount,
       users: users.map(user => ({
@@ -124,8 +127,9 @@ export async function PUT(
       return NextResponse.json({ error: 'Role not found' }, { status: 404 });
     }
 
-    // Prevent modification of system roles
-    if (role.isSystem) {
+    // Prevent modification of system roles (two-factor enforcement can still be toggled)
+    const modifiesDefinition = Boolean(updateData.name || updateData.description || updateData.permissions);
+    if (role.isSystem && modifiesDefinition) {
       return NextResponse.json(
         { error: 'Cannot modify system role' },
         { status: 400 }
@@ -173,9 +177,10 @@ export async function PUT(
       {
         ...(updateData.name && { name: updateData.name }),
         ...(updateData.description && { description: updateData.description }),
-        ...(updateData.permissions && { permissions: updateData.permissions })
+        ...(updateData.permissions && { permissions: updateData.permissions }),
+        ...(updateData.requireTwoFactor !== undefined && { requireTwoFactor: updateData.requireTwoFactor })
       },
-      { new: true, runValidators: true }
+      { new: true, runValidators: true, ...auditActor(session.user.id) }
     ).populate('permissions', 'name resource action description') as IRoleDocument | null;
 
     if (!updatedRole) {
@@ -190,6 +195,7 @@ export async function PUT(
         name: updatedRole.name,
         description: updatedRole.description,
         isSystem: updatedRole.isSystem,
+        requireTwoFactor: updatedRole.requireTwoFactor,
         permissions: updatedRole.permissions,
         updatedAt: updatedRole.updatedAt
       }
@@ -245,7 +251,7 @@ export async function DELETE(
       return NextResponse.json({ error: 'Role not found' }, { status: 404 });
     }
 
-    await Role.findByIdAndDelete(params.id);
+    await Role.findByIdAndDelete(params.id, auditActor(session.user.id));
 
     return NextResponse.json({
       success: true,
@@ -40,6 +40,7 @@ export async function GET(request: NextRequest) {
           name: roleObj.name,
           description: roleObj.description,
           isSystem: roleObj.isSystem,
+          requireTwoFactor: roleObj.requireTwoFactor,
           permissions: roleObj.permissions || [],
           userCount,
           createdAt: roleObj.createdAt,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { connectDB } from '@/lib/database/connection';
 import mongoose from 'mongoose';
+import Product from '@/lib/database/models/Product';
 
 // Validation schema for restock request
 const restockSchema = z.object({
@@ -106,8 +107,8 @@ export async function POST(
       isAboveThreshold: newStock > threshold
     });
 
-    // Step 3: Update product stock
-    const updateProductResult = await db.collection('products').updateOne(
+    // Step 3: Update product stock (through the model, so the product.updated webhook fires)
+    const updateProductResult = await Product.updateOne(
       { _id: new mongoose.Types.ObjectId(stockAlert.productId) },
       { 
         $set: { 
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { StockAlertsService } from '@/lib/services/stock-alerts';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
 
 // Validation schemas
 const updateStockAlertSchema = z.object({
@@ -34,6 +36,22 @@ export async function GET(
       }, { status: 400 });
     }
     
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required',
+      }, { status: 401 });
+    }
+    
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+    if (!await StockAlertsService.isInWorkspace(id, scopeUserId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Stock alert not found',
+      }, { status: 404 });
+    }
+    
     // Get alert from database using StockAlertsService
     const alert = await StockAlertsService.getStockAlertById(id);
     
@@ -77,6 +95,22 @@ export async function PUT(
       }, { status: 400 });
     }
     
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required',
+      }, { status: 401 });
+    }
+    
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+    if (!await StockAlertsService.isInWorkspace(id, scopeUserId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Stock alert not found',
+      }, { status: 404 });
+    }
+    
     const body = await request.json();
     const validation = updateStockAlertSchema.safeParse(body);
     if (!validation.success) {
@@ -146,6 +180,22 @@ export async function DELETE(
       }, { status: 400 });
     }
     
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required',
+      }, { status: 401 });
+    }
+    
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+    if (!await StockAlertsService.isInWorkspace(id, scopeUserId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Stock alert not found',
+      }, { status: 404 });
+    }
+    
     // In a real implementation, you would:
     // 1. Validate alert exists
     // 2. Delete alert from database
@@ -187,6 +237,22 @@ export async function POST(
       }, { status: 400 });
     }
     
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required',
+      }, { status: 401 });
+    }
+    
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+    if (!await StockAlertsService.isInWorkspace(id, scopeUserId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Stock alert not found',
+      }, { status: 404 });
+    }
+    
     const body = await request.json();
     const { note, userId } = body;
     
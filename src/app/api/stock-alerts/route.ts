@@ -27,6 +27,7 @@ const querySchema = z.object({
   priority: z.enum(['critical', 'high', 'medium', 'low']).optional(),
   status: z.enum(['active', 'acknowledged', 'resolved']).optional(),
   alertType: z.enum(['low_stock', 'out_of_stock', 'overstock', 'high_demand']).optional(),
+  warehouseId: z.string().optional(),
   sortBy: z.enum(['createdAt', 'priority', 'productName', 'currentStock']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
@@ -61,6 +62,7 @@ export async function GET(request: NextRequest) {
       priority: validatedQuery.priority,
       status: validatedQuery.status,
       alertType: validatedQuery.alertType as any,
+      warehouseId: validatedQuery.warehouseId,
       page: validatedQuery.page,
       limit: validatedQuery.limit,
       sortBy: validatedQuery.sortBy,
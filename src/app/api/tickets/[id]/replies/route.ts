@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Ticket from '@/lib/database/models/Ticket';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * POST /api/tickets/[id]/replies
+ * Adds a reply to a ticket thread, optionally answering an earlier reply
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid ticket ID' } },
+        { status: 400 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const body = await request.json();
+    const { message, parentReplyId } = body;
+
+    if (!message?.trim()) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Reply message is required' } },
+        { status: 400 }
+      );
+    }
+
+    const ticket = await Ticket.findOne({
+      _id: params.id,
+      ...Ticket.accessibleBy(scopeUserId, authResult.user.id)
+    });
+
+    if (!ticket) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Ticket not found' } },
+        { status: 404 }
+      );
+    }
+
+    if (ticket.status === 'Closed') {
+      return NextResponse.json(
+        { success: false, error: { code: 'TICKET_CLOSED', message: 'Reopen the ticket before replying' } },
+        { status: 400 }
+      );
+    }
+
+    const authorName = authResult.user.name ||
+      `${authResult.user.firstName || ''} ${authResult.user.lastName || ''}`.trim() ||
+      authResult.user.email;
+
+    try {
+      const reply = await ticket.addReply(authResult.user.id, authorName, message.trim(), parentReplyId);
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          reply,
+          replyCount: ticket.replies.length
+        },
+        message: 'Reply added successfully'
+      }, { status: 201 });
+    } catch (replyError: any) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: replyError.message } },
+        { status: 400 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Ticket reply POST error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to add reply' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,269 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Ticket, { TicketStatus } from '@/lib/database/models/Ticket';
+import User from '@/lib/database/models/User';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const AGENT_FIELDS = 'firstName lastName name email profileImage avatar';
+const VALID_PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+
+/**
+ * GET /api/tickets/[id]
+ * Retrieves a specific ticket with its reply thread
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid ticket ID' } },
+        { status: 400 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const ticket = await Ticket.findOne({
+      _id: params.id,
+      ...Ticket.accessibleBy(scopeUserId, authResult.user.id)
+    })
+      .populate('assignedTo', AGENT_FIELDS)
+      .lean();
+
+    if (!ticket) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Ticket not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ticket
+      }
+    });
+
+  } catch (error) {
+    console.error('Ticket GET by ID error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve ticket' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/tickets/[id]
+ * Updates ticket details, moves it through the status workflow or reassigns it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid ticket ID' } },
+        { status: 400 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const ticket = await Ticket.findOne({
+      _id: params.id,
+      ...Ticket.accessibleBy(scopeUserId, authResult.user.id)
+    });
+
+    if (!ticket) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Ticket not found' } },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { title, description, priority, status, assignedTo } = body;
+
+    // The assigned agent works the ticket through its status; the rest stays with the workspace that raised it
+    const ownerOnly = [title, description, priority, assignedTo].some(value => value !== undefined);
+    if (ownerOnly && !ticket.isOwnedBy(scopeUserId)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'FORBIDDEN', message: 'Only the workspace that raised the ticket can change its details or assignment' } },
+        { status: 403 }
+      );
+    }
+
+    if (title !== undefined) {
+      if (!title?.trim()) {
+        return NextResponse.json(
+          { success: false, error: { code: 'VALIDATION_ERROR', message: 'Title cannot be empty' } },
+          { status: 400 }
+        );
+      }
+      ticket.title = title.trim();
+    }
+
+    if (description !== undefined) {
+      if (!description?.trim()) {
+        return NextResponse.json(
+          { success: false, error: { code: 'VALIDATION_ERROR', message: 'Description cannot be empty' } },
+          { status: 400 }
+        );
+      }
+      ticket.description = description.trim();
+    }
+
+    if (priority !== undefined) {
+      if (!VALID_PRIORITIES.includes(priority)) {
+        return NextResponse.json(
+          { success: false, error: { code: 'VALIDATION_ERROR', message: `Priority must be one of: ${VALID_PRIORITIES.join(', ')}` } },
+          { status: 400 }
+        );
+      }
+      ticket.priority = priority;
+    }
+
+    // Status changes must follow the ticket workflow
+    if (status !== undefined && status !== ticket.status) {
+      if (!ticket.canTransitionTo(status as TicketStatus)) {
+        return NextResponse.json(
+          { success: false, error: { code: 'INVALID_TRANSITION', message: `Cannot move ticket from ${ticket.status} to ${status}` } },
+          { status: 400 }
+        );
+      }
+      ticket.status = status;
+    }
+
+    // Agent assignment accepts a User ID or null to unassign
+    if (assignedTo !== undefined) {
+      if (assignedTo) {
+        const agent = Types.ObjectId.isValid(assignedTo) ? await User.findById(assignedTo) : null;
+        if (!agent || !agent.isActive) {
+          return NextResponse.json(
+            { success: false, error: { code: 'VALIDATION_ERROR', message: 'Assigned agent not found' } },
+            { status: 400 }
+          );
+        }
+        ticket.assignedTo = agent._id as Types.ObjectId;
+      } else {
+        ticket.assignedTo = undefined;
+      }
+    }
+
+    const updatedTicket = await ticket.save();
+    await updatedTicket.populate('assignedTo', AGENT_FIELDS);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ticket: updatedTicket.toJSON()
+      },
+      message: 'Ticket updated successfully'
+    });
+
+  } catch (error) {
+    console.error('Ticket PATCH error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update ticket' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/tickets/[id]
+ * Soft deletes a ticket
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    if (!Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_ID', message: 'Invalid ticket ID' } },
+        { status: 400 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    const ticket = await Ticket.findOne({
+      _id: params.id,
+      userId: scopeUserId,
+      isDeleted: false
+    });
+
+    if (!ticket) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Ticket not found' } },
+        { status: 404 }
+      );
+    }
+
+    await ticket.softDelete();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Ticket deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Ticket DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete ticket' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectDB } from '@/lib/database/connection';
+import User from '@/lib/database/models/User';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+
+/**
+ * GET /api/tickets/agents
+ * Lists active users that tickets can be assigned to
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    await connectDB();
+
+    const agents = await User.find({ isActive: true, status: 'active' })
+      .select('firstName lastName name email profileImage avatar')
+      .sort({ firstName: 1, lastName: 1 })
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        agents
+      }
+    });
+
+  } catch (error) {
+    console.error('Ticket agents GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve agents' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Ticket from '@/lib/database/models/Ticket';
+import User from '@/lib/database/models/User';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+const AGENT_FIELDS = 'firstName lastName name email profileImage avatar';
+const VALID_STATUSES = ['Open', 'Pending', 'Closed'];
+const VALID_PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+
+/**
+ * GET /api/tickets
+ * Retrieves support tickets for the authenticated user
+ */
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(parseInt(searchParams.get('page') || '1'), 1);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '10'), 100);
+    const status = searchParams.get('status');
+    const priority = searchParams.get('priority');
+    const assignedTo = searchParams.get('assignedTo');
+    const search = searchParams.get('search');
+
+    // Build query
+    // Agents see the tickets assigned to them alongside their own
+    const query: any = Ticket.accessibleBy(scopeUserId, authResult.user.id);
+
+    if (status && status !== 'all') {
+      query.status = status;
+    }
+
+    if (priority) {
+      query.priority = priority;
+    }
+
+    if (assignedTo === 'unassigned') {
+      query.assignedTo = null;
+    } else if (assignedTo && Types.ObjectId.isValid(assignedTo)) {
+      query.assignedTo = assignedTo;
+    }
+
+    if (search) {
+      query.$text = { $search: search };
+    }
+
+    // Execute query with pagination
+    const skip = (page - 1) * limit;
+    const [tickets, total, counts] = await Promise.all([
+      Ticket.find(query)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .populate('assignedTo', AGENT_FIELDS)
+        .lean(),
+      Ticket.countDocuments(query),
+      Ticket.getStatusCounts(scopeUserId, authResult.user.id)
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        tickets,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit)
+        },
+        summary: counts
+      }
+    });
+
+  } catch (error) {
+    console.error('Tickets GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to retrieve tickets' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tickets
+ * Creates a new support ticket
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify authentication
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectDB();
+
+    // Parse request body
+    const body = await request.json();
+    const { title, description, priority, status, assignedTo } = body;
+
+    // Validate required fields
+    if (!title?.trim() || !description?.trim()) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Title and description are required' } },
+        { status: 400 }
+      );
+    }
+
+    if (priority && !VALID_PRIORITIES.includes(priority)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: `Priority must be one of: ${VALID_PRIORITIES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
+    if (status && !VALID_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: `Status must be one of: ${VALID_STATUSES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
+    // Validate assigned agent
+    if (assignedTo) {
+      const agent = Types.ObjectId.isValid(assignedTo) ? await User.findById(assignedTo) : null;
+      if (!agent || !agent.isActive) {
+        return NextResponse.json(
+          { success: false, error: { code: 'VALIDATION_ERROR', message: 'Assigned agent not found' } },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Create ticket
+    const ticket = new Ticket({
+      title: title.trim(),
+      description: description.trim(),
+      priority: priority || 'medium',
+      status: status || 'Open',
+      assignedTo: assignedTo || null,
+      userId: scopeUserId,
+      createdBy: authResult.user.email
+    });
+    const savedTicket = await ticket.save();
+    await savedTicket.populate('assignedTo', AGENT_FIELDS);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ticket: savedTicket.toJSON()
+      },
+      message: 'Ticket created successfully'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Tickets POST error:', error);
+
+    // Handle validation errors
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: error.message } },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create ticket' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookService } from '@/lib/services/WebhookService';
+import { resolveWebhookOwner } from '../../../owner';
+
+/**
+ * POST /api/webhooks/deliveries/[id]/redeliver
+ * Sends a delivery's payload to its endpoint again and returns the new delivery
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await resolveWebhookOwner(request);
+    if (!owner.userId) {
+      return NextResponse.json({ success: false, error: owner.error }, { status: owner.status });
+    }
+
+    const result = await WebhookService.redeliver(owner.userId, params.id);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error?.code === 'NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { delivery: result.delivery },
+      message: result.delivery?.status === 'succeeded' ? 'Webhook redelivered' : 'Redelivery failed'
+    });
+
+  } catch (error) {
+    console.error('Webhook redeliver POST error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to redeliver webhook' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookService } from '@/lib/services/WebhookService';
+import { resolveWebhookOwner } from '../../../owner';
+
+/**
+ * GET /api/webhooks/endpoints/[id]/deliveries
+ * Returns the endpoint's most recent deliveries, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await resolveWebhookOwner(request);
+    if (!owner.userId) {
+      return NextResponse.json({ success: false, error: owner.error }, { status: owner.status });
+    }
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50');
+    const deliveries = await WebhookService.listDeliveries(owner.userId, params.id, isNaN(limit) ? 50 : limit);
+
+    if (!deliveries) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Webhook endpoint not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { deliveries }
+    });
+
+  } catch (error) {
+    console.error('Webhook deliveries GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch webhook deliveries' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookService } from '@/lib/services/WebhookService';
+import { resolveWebhookOwner } from '../../owner';
+
+/**
+ * PATCH /api/webhooks/endpoints/[id]
+ * Updates an endpoint's URL, events or status, or rolls its signing secret
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await resolveWebhookOwner(request);
+    if (!owner.userId) {
+      return NextResponse.json({ success: false, error: owner.error }, { status: owner.status });
+    }
+
+    const { url, description, events, isActive, rotateSecret } = await request.json();
+    const result = await WebhookService.updateEndpoint(owner.userId, params.id, {
+      url,
+      description,
+      events,
+      isActive,
+      rotateSecret
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error?.code === 'NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { endpoint: result.endpoint, secret: result.secret },
+      message: 'Webhook endpoint updated'
+    });
+
+  } catch (error) {
+    console.error('Webhook endpoint PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to update webhook endpoint' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/webhooks/endpoints/[id]
+ * Removes an endpoint and its delivery log
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const owner = await resolveWebhookOwner(request);
+    if (!owner.userId) {
+      return NextResponse.json({ success: false, error: owner.error }, { status: owner.status });
+    }
+
+    const result = await WebhookService.deleteEndpoint(owner.userId, params.id);
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook endpoint deleted'
+    });
+
+  } catch (error) {
+    console.error('Webhook endpoint DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to delete webhook endpoint' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WebhookService } from '@/lib/services/WebhookService';
+import { resolveWebhookOwner } from '../owner';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/webhooks/endpoints
+ * Lists the workspace's webhook endpoints
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const owner = await resolveWebhookOwner(request);
+    if (!owner.userId) {
+      return NextResponse.json({ success: false, error: owner.error }, { status: owner.status });
+    }
+
+    const endpoints = await WebhookService.listEndpoints(owner.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: { endpoints }
+    });
+
+  } catch (error) {
+    console.error('Webhook endpoints GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch webhook endpoints' } },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/webhooks/endpoints
+ * Adds an endpoint; its signing secret is only returned in this response
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const owner = await resolveWebhookOwner(request);
+    if (!owner.userId) {
+      return NextResponse.json({ success: false, error: owner.error }, { status: owner.status });
+    }
+
+    const { url, description, events, isActive } = await request.json();
+    const result = await WebhookService.createEndpoint(owner.userId, { url, description, events, isActive });
+
+    if (!result.success) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { endpoint: result.endpoint, secret: result.secret },
+      message: 'Webhook endpoint created'
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Webhook endpoints POST error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to create webhook endpoint' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * Finds the user whose webhooks the request manages
+ * Webhooks send the whole workspace's data, so only the workspace owner manages them
+ */
+export async function resolveWebhookOwner(
+  request: NextRequest
+): Promise<{ userId?: string; status?: number; error?: { code: string; message: string } }> {
+  const authResult = await authenticateApiRequest(request);
+  if (!authResult.success || !authResult.user) {
+    return {
+      status: 401,
+      error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' }
+    };
+  }
+
+  const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+  if (scopeUserId !== authResult.user.id) {
+    return {
+      status: 403,
+      error: { code: 'FORBIDDEN', message: 'Only the workspace owner can manage webhooks' }
+    };
+  }
+
+  return { userId: scopeUserId };
+}
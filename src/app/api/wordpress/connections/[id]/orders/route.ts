@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server';
+import * as yup from 'yup';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/lib/database/connection';
+import WordPressConnection from '@/lib/database/models/WordPressConnection';
+import WordPressImportJob from '@/lib/database/models/WordPressImportJob';
+import { WooCommerceOrderImportService } from '@/lib/services/WooCommerceOrderImportService';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+
+interface RouteParams {
+  params: { id: string }
+}
+
+const orderImportSchema = yup.object({
+  statuses: yup.array().of(yup.string().required()),
+  dateFrom: yup.date(),
+  dateTo: yup.date(),
+  // Turns scheduled imports on or off for this connection, imported as the current user
+  autoImport: yup.boolean()
+});
+
+/**
+ * POST /api/wordpress/connections/[id]/orders - Import WooCommerce orders as sales
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const body = await request.json();
+    const validatedData = await orderImportSchema.validate(body);
+    const userId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    if (validatedData.autoImport !== undefined && mongoose.Types.ObjectId.isValid(params.id)) {
+      await connectToDatabase();
+      await WordPressConnection.updateOne(
+        { _id: params.id },
+        {
+          $set: {
+            'orderSync.enabled': validatedData.autoImport,
+            'orderSync.userId': userId,
+            ...(validatedData.statuses?.length ? { 'orderSync.statuses': validatedData.statuses } : {})
+          }
+        }
+      );
+    }
+
+    const result = await WooCommerceOrderImportService.startImport(params.id, userId, {
+      statuses: validatedData.statuses,
+      dateFrom: validatedData.dateFrom,
+      dateTo: validatedData.dateTo
+    });
+
+    if (!result.success || !result.job) {
+      return NextResponse.json({
+        success: false,
+        error: result.error?.message || 'Failed to start order import'
+      }, { status: result.error?.code === 'NOT_FOUND' ? 404 : 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'WooCommerce order import started successfully',
+      data: {
+        jobId: result.job.jobId,
+        status: result.job.status,
+        progress: result.job.progress
+      }
+    });
+
+  } catch (error) {
+    console.error('WooCommerce order import start error:', error);
+
+    if (error instanceof yup.ValidationError) {
+      return NextResponse.json({
+        success: false,
+        error: 'Validation error',
+        details: error.errors
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to start order import'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * GET /api/wordpress/connections/[id]/orders - Get order import job status
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    const scopeUserId = await WorkspaceService.getScopeUserId(authResult.user.id);
+
+    await connectToDatabase();
+
+    const url = new URL(request.url);
+    const jobId = url.searchParams.get('jobId');
+    const query = { connectionId: params.id, type: 'orders', userId: scopeUserId };
+
+    if (!jobId) {
+      // Return recent order imports for this connection
+      const recentJobs = await WordPressImportJob.find(query)
+        .sort({ startedAt: -1 })
+        .limit(10);
+
+      return NextResponse.json({
+        success: true,
+        data: recentJobs
+      });
+    }
+
+    const job = await WordPressImportJob.findOne({ ...query, jobId });
+    if (!job) {
+      return NextResponse.json({
+        success: false,
+        error: 'Import job not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: job
+    });
+
+  } catch (error) {
+    console.error('Order import job status error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get order import status'
+    }, { status: 500 });
+  }
+}
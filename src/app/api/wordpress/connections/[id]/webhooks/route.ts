@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { WooCommerceWebhookService } from '@/lib/services/WooCommerceWebhookService';
+
+interface RouteParams {
+  params: { id: string }
+}
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+const ERROR_STATUS: Record<string, number> = {
+  NOT_FOUND: 404,
+  INVALID_SIGNATURE: 401,
+  INVALID_PAYLOAD: 400,
+  WEBHOOK_NOT_CONFIGURED: 400
+};
+
+/**
+ * POST /api/wordpress/connections/[id]/webhooks - Receive WooCommerce product and order webhooks
+ * Authenticated by the HMAC signature WooCommerce computes with the connection's webhook secret
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const payload = await request.text();
+    const topic = request.headers.get('x-wc-webhook-topic');
+
+    // WooCommerce pings the delivery URL with an unsigned form body when a webhook is saved
+    if (!topic && /^webhook_id=\d+$/.test(payload.trim())) {
+      return NextResponse.json({
+        success: true,
+        message: 'Webhook endpoint is active'
+      });
+    }
+
+    const result = await WooCommerceWebhookService.receive(params.id, {
+      topic,
+      deliveryId: request.headers.get('x-wc-webhook-delivery-id'),
+      signature: request.headers.get('x-wc-webhook-signature'),
+      payload
+    });
+
+    if (!result.success) {
+      return NextResponse.json({
+        success: false,
+        error: result.error?.message
+      }, { status: ERROR_STATUS[result.error?.code || ''] || 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message,
+      data: { status: result.status }
+    });
+
+  } catch (error) {
+    console.error('WooCommerce webhook error:', error);
+
+    // A 5xx response makes WooCommerce deliver the webhook again
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to process webhook'
+    }, { status: 500 });
+  }
+}
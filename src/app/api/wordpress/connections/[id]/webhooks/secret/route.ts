@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import { connectToDatabase } from '@/lib/database/connection';
+import WordPressConnection from '@/lib/database/models/WordPressConnection';
+import { SUPPORTED_WEBHOOK_TOPICS } from '@/lib/services/WooCommerceWebhookService';
+import { authenticateApiRequest, createApiResponse } from '@/lib/auth/nextauth-middleware';
+
+interface RouteParams {
+  params: { id: string }
+}
+
+/**
+ * POST /api/wordpress/connections/[id]/webhooks/secret - Generate a new webhook secret
+ * Webhooks signed with the previous secret are rejected from then on
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      const { response, status } = createApiResponse(false, null, authResult.error, 401);
+      return NextResponse.json(response, { status });
+    }
+
+    await connectToDatabase();
+
+    if (!mongoose.Types.ObjectId.isValid(params.id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'WordPress connection not found'
+      }, { status: 404 });
+    }
+
+    const connection = await WordPressConnection.findById(params.id);
+    if (!connection) {
+      return NextResponse.json({
+        success: false,
+        error: 'WordPress connection not found'
+      }, { status: 404 });
+    }
+
+    connection.updatedBy = authResult.user.id;
+    const secret = await connection.generateWebhookSecret();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook secret generated. Enter it as the secret of each WooCommerce webhook.',
+      data: {
+        secret,
+        deliveryUrl: `${new URL(request.url).origin}/api/wordpress/connections/${params.id}/webhooks`,
+        topics: SUPPORTED_WEBHOOK_TOPICS
+      }
+    });
+
+  } catch (error) {
+    console.error('Webhook secret generation error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to generate webhook secret'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+/**
+ * PUT /api/workspaces/active
+ * Switches the workspace the user is working in
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const { workspaceId } = await request.json();
+    if (!workspaceId || typeof workspaceId !== 'string') {
+      return NextResponse.json(
+        { success: false, error: { code: 'VALIDATION_ERROR', message: 'Workspace ID is required' } },
+        { status: 400 }
+      );
+    }
+
+    const result = await WorkspaceService.switchWorkspace(authResult.user.id, workspaceId);
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error?.code === 'NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: result.workspace!._id,
+        name: result.workspace!.name
+      },
+      message: `Switched to ${result.workspace!.name}`
+    });
+
+  } catch (error) {
+    console.error('Workspace switch error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to switch workspace' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/workspaces/members
+ * Lists the owner and members of the active workspace
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const workspace = await WorkspaceService.getActiveWorkspace(authResult.user.id);
+    if (!workspace) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Workspace not found' } },
+        { status: 404 }
+      );
+    }
+
+    const members = await WorkspaceService.getMembers(workspace);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        workspace: { id: workspace._id, name: workspace.name },
+        canManage: workspace.isOwner(authResult.user.id),
+        members
+      }
+    });
+
+  } catch (error) {
+    console.error('Workspace members GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch workspace members' } },
+      { status: 500 }
+    );
+  }
+}
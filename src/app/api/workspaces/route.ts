@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest } from '@/lib/auth/nextauth-middleware';
+import { WorkspaceService } from '@/lib/services/WorkspaceService';
+
+// Force dynamic rendering for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/workspaces
+ * Lists the workspaces the user owns or was invited to
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateApiRequest(request);
+    if (!authResult.success || !authResult.user) {
+      return NextResponse.json(
+        { success: false, error: authResult.error || { code: 'UNAUTHORIZED', message: 'Authentication required' } },
+        { status: 401 }
+      );
+    }
+
+    const workspaces = await WorkspaceService.listForUser(authResult.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { workspaces }
+    });
+
+  } catch (error) {
+    console.error('Workspaces GET error:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to fetch workspaces' } },
+      { status: 500 }
+    );
+  }
+}
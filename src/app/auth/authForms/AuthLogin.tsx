@@ -23,6 +23,7 @@ import CustomCheckbox from "@/app/components/forms/theme-elements/CustomCheckbox
 import CustomTextField from "@/app/components/forms/theme-elements/CustomTextField";
 import CustomFormLabel from "@/app/components/forms/theme-elements/CustomFormLabel";
 import AuthSocialButtons from "./AuthSocialButtons";
+import AuthTwoFactor from "./AuthTwoFactor";
 import { useAuthContext } from "@/app/context/AuthContext";
 import { useLoadingContext } from "@/app/components/shared/loading/LoadingContext";
 import { LoadingAnimation } from "@/app/components/shared/loading/LoadingAnimation";
@@ -58,6 +59,47 @@ const AuthLogin = ({ title, subtitle, subtext }: loginType) => {
   const { startTransition, stopTransition } = useAuthTransition();
   const [verificationRequired, setVerificationRequired] = useState<string | null>(null);
   const [showPassword, setShowPassword] = useState(false);
+  const [twoFactor, setTwoFactor] = useState<{
+    email: string;
+    rememberMe: boolean;
+    challengeToken: string;
+    setupRequired: boolean;
+  } | null>(null);
+
+  const completeLogin = () => {
+    toast.success('Login successful! Welcome back!');
+
+    // Check for returnUrl parameter or use default dashboard
+    const urlParams = new URLSearchParams(window.location.search);
+    const returnUrl = urlParams.get('returnUrl') || '/dashboards/ecommerce';
+
+    console.log('Redirecting to:', returnUrl);
+
+    // Navigate immediately - the auth transition will show progress
+    // Loading will persist until page loads thanks to LoadingProvider
+    router.push(returnUrl);
+  };
+
+  // Second step: sign in with the challenge token and authenticator or recovery code
+  const handleTwoFactorVerify = async (challengeToken: string, code?: string) => {
+    if (!twoFactor) return;
+
+    startTransition('login');
+    const result = await login({
+      email: twoFactor.email,
+      password: '',
+      rememberMe: twoFactor.rememberMe,
+      challengeToken,
+      code,
+    });
+
+    if (!result.success) {
+      stopTransition();
+      throw new Error(result.message || 'Verification failed');
+    }
+
+    completeLogin();
+  };
 
   const handleSubmit = async (values: LoginFormValues, { setSubmitting }: { setSubmitting: (isSubmitting: boolean) => void }) => {
     // Start smooth auth transition
@@ -72,17 +114,14 @@ const AuthLogin = ({ title, subtitle, subtext }: loginType) => {
       });
 
       if (result.success) {
-        toast.success('Login successful! Welcome back!');
-
-        // Check for returnUrl parameter or use default dashboard
-        const urlParams = new URLSearchParams(window.location.search);
-        const returnUrl = urlParams.get('returnUrl') || '/dashboards/ecommerce';
-
-        console.log('Redirecting to:', returnUrl);
-
-        // Navigate immediately - the auth transition will show progress
-        // Loading will persist until page loads thanks to LoadingProvider
-        router.push(returnUrl);
+        completeLogin();
+      } else if (result.twoFactor) {
+        stopTransition();
+        setTwoFactor({
+          email: values.email,
+          rememberMe: values.rememberMe,
+          ...result.twoFactor,
+        });
       } else {
         // Stop loading on error
         stopTransition();
@@ -165,6 +204,14 @@ const AuthLogin = ({ title, subtitle, subtext }: loginType) => {
         </Alert>
       )}
 
+      {twoFactor ? (
+        <AuthTwoFactor
+          challengeToken={twoFactor.challengeToken}
+          setupRequired={twoFactor.setupRequired}
+          onVerify={handleTwoFactorVerify}
+          onCancel={() => setTwoFactor(null)}
+        />
+      ) : (
       <Formik
         initialValues={{
           email: '',
@@ -282,6 +329,7 @@ const AuthLogin = ({ title, subtitle, subtext }: loginType) => {
           </Form>
         )}
       </Formik>
+      )}
 
       {subtitle}
     </>
@@ -0,0 +1,214 @@
+'use client'
+import {
+  Box,
+  Typography,
+  Button,
+  Stack,
+  Alert,
+  Link as MuiLink,
+} from "@mui/material";
+import { useEffect, useState } from "react";
+import CustomTextField from "@/app/components/forms/theme-elements/CustomTextField";
+import CustomFormLabel from "@/app/components/forms/theme-elements/CustomFormLabel";
+import { LoadingAnimation } from "@/app/components/shared/loading/LoadingAnimation";
+
+interface AuthTwoFactorProps {
+  challengeToken: string;
+  setupRequired: boolean;
+  // Finishes signing in with the code, or with a verified token after enrolling
+  onVerify: (challengeToken: string, code?: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+interface SetupData {
+  secret: string;
+  qrCode: string;
+}
+
+const AuthTwoFactor = ({ challengeToken, setupRequired, onVerify, onCancel }: AuthTwoFactorProps) => {
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [verifiedToken, setVerifiedToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Users whose role enforces 2FA enroll before their first sign-in completes
+  useEffect(() => {
+    if (!setupRequired) return;
+
+    fetch('/api/auth/two-factor/setup', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ challengeToken }),
+    })
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Failed to start two-factor setup');
+        setSetup(data.data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to start two-factor setup'));
+  }, [challengeToken, setupRequired]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      if (setupRequired) {
+        const response = await fetch('/api/auth/two-factor/enable', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ challengeToken, code }),
+        });
+        const data = await response.json();
+        if (!data.success) throw new Error(data.error || 'Invalid verification code');
+
+        // Show the recovery codes before finishing sign-in
+        setRecoveryCodes(data.data.recoveryCodes);
+        setVerifiedToken(data.data.challengeToken);
+      } else {
+        await onVerify(challengeToken, code);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (recoveryCodes && verifiedToken) {
+    return (
+      <Box mt={3}>
+        <Typography variant="h5" mb={1}>Save your recovery codes</Typography>
+        <Typography variant="body2" color="textSecondary" mb={2}>
+          Each code signs you in once if you lose access to your authenticator app. They will not be shown again.
+        </Typography>
+        <Box
+          sx={{
+            display: 'grid',
+            gridTemplateColumns: 'repeat(2, 1fr)',
+            gap: 1,
+            p: 2,
+            mb: 3,
+            bgcolor: 'grey.100',
+            borderRadius: 1,
+            fontFamily: 'monospace',
+          }}
+        >
+          {recoveryCodes.map(recoveryCode => (
+            <Typography key={recoveryCode} fontFamily="monospace">{recoveryCode}</Typography>
+          ))}
+        </Box>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <Button
+          color="primary"
+          variant="contained"
+          size="large"
+          fullWidth
+          disabled={submitting}
+          onClick={async () => {
+            setError(null);
+            setSubmitting(true);
+            try {
+              await onVerify(verifiedToken);
+            } catch (err) {
+              setError(err instanceof Error ? err.message : 'Verification failed');
+            } finally {
+              setSubmitting(false);
+            }
+          }}
+        >
+          I have saved my codes — continue
+        </Button>
+      </Box>
+    );
+  }
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} mt={3}>
+      <Typography variant="h5" mb={1}>Two-factor authentication</Typography>
+
+      {setupRequired ? (
+        <>
+          <Typography variant="body2" color="textSecondary" mb={2}>
+            Your role requires two-factor authentication. Scan this QR code with an authenticator app,
+            then enter the 6-digit code it shows.
+          </Typography>
+          {setup && (
+            <Stack alignItems="center" spacing={1} mb={2}>
+              <img src={setup.qrCode} alt="Two-factor QR code" width={180} height={180} />
+              <Typography variant="caption" color="textSecondary">
+                Can&apos;t scan? Enter this key: <strong>{setup.secret}</strong>
+              </Typography>
+            </Stack>
+          )}
+        </>
+      ) : (
+        <Typography variant="body2" color="textSecondary" mb={2}>
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </Typography>
+      )}
+
+      {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+      <CustomFormLabel htmlFor="code">{useRecoveryCode ? 'Recovery Code' : 'Verification Code'}</CustomFormLabel>
+      <CustomTextField
+        id="code"
+        name="code"
+        variant="outlined"
+        fullWidth
+        autoFocus
+        autoComplete="one-time-code"
+        value={code}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCode(e.target.value)}
+        inputProps={useRecoveryCode ? {} : { inputMode: 'numeric', maxLength: 6 }}
+        disabled={submitting}
+      />
+
+      <Stack direction="row" justifyContent="space-between" my={2}>
+        {!setupRequired ? (
+          <MuiLink
+            component="button"
+            type="button"
+            underline="none"
+            onClick={() => {
+              setUseRecoveryCode(!useRecoveryCode);
+              setCode('');
+              setError(null);
+            }}
+          >
+            {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+          </MuiLink>
+        ) : <span />}
+        <MuiLink component="button" type="button" underline="none" onClick={onCancel}>
+          Back to sign in
+        </MuiLink>
+      </Stack>
+
+      <Button
+        type="submit"
+        color="primary"
+        variant="contained"
+        size="large"
+        fullWidth
+        disabled={submitting || !code.trim() || (setupRequired && !setup)}
+      >
+        {submitting ? (
+          <>
+            <LoadingAnimation type="circular" size="small" color="inherit" />
+            <Box sx={{ ml: 1 }}>Verifying...</Box>
+          </>
+        ) : (
+          'Verify'
+        )}
+      </Button>
+    </Box>
+  );
+};
+
+export default AuthTwoFactor;
@@ -1,9 +1,9 @@
 import React from "react";
 import Avatar from '@mui/material/Avatar'
-import Badge from '@mui/material/Badge'
 import Box from '@mui/material/Box'
 import Divider from '@mui/material/Divider'
 import IconButton from '@mui/material/IconButton'
+import Link from '@mui/material/Link'
 import ListItem from '@mui/material/ListItem'
 import ListItemAvatar from '@mui/material/ListItemAvatar'
 import ListItemText from '@mui/material/ListItemText'
@@ -13,31 +13,88 @@ import Typography from '@mui/material/Typography'
 import useMediaQuery from '@mui/material/useMediaQuery'
 import {
   IconDotsVertical,
+  IconFile,
   IconMenu2,
-  IconPhone,
-  IconVideo,
 } from "@tabler/icons-react";
 import { useSelector } from "@/store/hooks";
 
-import { ChatsType } from '../../../(dashboard)/types/apps/chat';
+import { ChatsType, MessageType } from '../../../(dashboard)/types/apps/chat';
 import { formatDistanceToNowStrict } from "date-fns";
 import ChatInsideSidebar from "./ChatInsideSidebar";
-import Scrollbar from "../../../components/custom-scroll/Scrollbar";
 import Image from "next/image";
+import { formatFileSize } from "@/lib/utils/file-upload";
+import { chatThumb, chatTitle, participantName, participantThumb } from "./chatUtils";
 
 interface ChatContentProps {
   toggleChatSidebar: () => void;
 }
 
+const MessageBody = ({ chat, align }: { chat: MessageType; align: 'left' | 'right' }) => (
+  <>
+    {chat.text ? (
+      <Box
+        mb={1}
+        sx={{
+          p: 1,
+          backgroundColor: align === 'left' ? "grey.100" : "primary.light",
+          [align === 'left' ? 'mr' : 'ml']: "auto",
+          maxWidth: "320px",
+          whiteSpace: "pre-wrap",
+        }}
+      >
+        {chat.text}
+      </Box>
+    ) : null}
+    {chat.attachments.map((attachment) =>
+      attachment.mimeType.startsWith("image/") ? (
+        <Box
+          key={attachment.url}
+          mb={1}
+          sx={{ overflow: "hidden", lineHeight: "0px" }}
+        >
+          <Image
+            src={attachment.url}
+            alt={attachment.name}
+            width={align === 'left' ? 150 : 250}
+            height={align === 'left' ? 150 : 165}
+          />
+        </Box>
+      ) : (
+        <Stack key={attachment.url} direction="row" gap={1} alignItems="center" mb={1}>
+          <IconFile stroke={1.5} size="20" />
+          <Link href={attachment.url} target="_blank" rel="noopener" underline="hover">
+            {attachment.name}
+          </Link>
+          <Typography variant="body2" color="textSecondary">
+            {formatFileSize(attachment.size)}
+          </Typography>
+        </Stack>
+      )
+    )}
+  </>
+);
+
 const ChatContent: React.FC<ChatContentProps> = ({
   toggleChatSidebar,
 }: any) => {
   const [open, setOpen] = React.useState(true);
   const lgUp = useMediaQuery((theme: Theme) => theme.breakpoints.up("lg"));
+  const bottomRef = React.useRef<HTMLDivElement>(null);
 
-  const chatDetails: ChatsType = useSelector(
-    (state) => state.chatReducer.chats[state.chatReducer.chatContent - 1]
+  const currentUserId = useSelector((state) => state.chatReducer.currentUserId);
+  const chatDetails: ChatsType | undefined = useSelector((state) =>
+    state.chatReducer.chats.find((chat) => chat._id === state.chatReducer.chatContent)
   );
+  const messages: MessageType[] = useSelector((state) =>
+    state.chatReducer.chatContent ? state.chatReducer.messages[state.chatReducer.chatContent] || [] : []
+  );
+
+  React.useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length]);
+
+  const sender = (senderId: string) =>
+    chatDetails?.participants.find((participant) => participant._id === senderId);
 
   return (
     <Box>
@@ -56,42 +113,26 @@ const ChatContent: React.FC<ChatContentProps> = ({
               >
                 <IconMenu2 stroke={1.5} onClick={toggleChatSidebar} />
               </Box>
-              <ListItem key={chatDetails.id} dense disableGutters>
+              <ListItem key={chatDetails._id} dense disableGutters>
                 <ListItemAvatar>
-                  <Badge
-                    color={
-                      chatDetails.status === "online"
-                        ? "success"
-                        : chatDetails.status === "busy"
-                        ? "error"
-                        : chatDetails.status === "away"
-                        ? "warning"
-                        : "secondary"
-                    }
-                    variant="dot"
-                    anchorOrigin={{
-                      vertical: "bottom",
-                      horizontal: "right",
-                    }}
-                    overlap="circular"
-                  >
-                    <Avatar alt={chatDetails.name} src={chatDetails.thumb} sx={{width: 40, height: 40}} />
-                  </Badge>
+                  <Avatar
+                    alt={chatTitle(chatDetails, currentUserId)}
+                    src={chatThumb(chatDetails, currentUserId)}
+                    sx={{width: 40, height: 40}}
+                  />
                 </ListItemAvatar>
                 <ListItemText
                   primary={
-                    <Typography variant="h5">{chatDetails.name}</Typography>
+                    <Typography variant="h5">{chatTitle(chatDetails, currentUserId)}</Typography>
+                  }
+                  secondary={
+                    chatDetails.type === "group"
+                      ? `${chatDetails.participants.length} members`
+                      : chatDetails.participants.find((p) => p._id !== currentUserId)?.email
                   }
-                  secondary={chatDetails.status}
                 />
               </ListItem>
               <Stack direction={"row"}>
-                <IconButton aria-label="phone">
-                  <IconPhone stroke={1.5} />
-                </IconButton>
-                <IconButton aria-label="video">
-                  <IconVideo stroke={1.5} />
-                </IconButton>
                 <IconButton aria-label="sidebar" onClick={() => setOpen(!open)}>
                   <IconDotsVertical stroke={1.5} />
                 </IconButton>
@@ -117,63 +158,34 @@ const ChatContent: React.FC<ChatContentProps> = ({
                 }}
               >
                 <Box p={3}>
-                  {chatDetails.messages.map((chat) => {
+                  {messages.map((chat) => {
                     return (
-                      <Box key={chat.id + chat.createdAt}>
-                        {chatDetails.id === chat.senderId ? (
+                      <Box key={chat._id}>
+                        {chat.senderId !== currentUserId ? (
                           <Box display="flex">
                             <ListItemAvatar>
                               <Avatar
-                                alt={chatDetails.name}
-                                src={chatDetails.thumb}
+                                alt={participantName(sender(chat.senderId))}
+                                src={participantThumb(sender(chat.senderId))}
                                 sx={{ width: 40, height: 40 }}
                               />
                             </ListItemAvatar>
                             <Box>
-                              {chat.createdAt ? (
-                                <Typography
-                                  variant="body2"
-                                  color="grey.400"
-                                  mb={1}
-                                >
-                                  {chatDetails.name},{" "}
-                                  {formatDistanceToNowStrict(
-                                    new Date(chat.createdAt),
-                                    {
-                                      addSuffix: false,
-                                    }
-                                  )}{" "}
-                                  ago
-                                </Typography>
-                              ) : null}
-                              {chat.type === "text" ? (
-                                <Box
-                                  mb={2}
-                                  sx={{
-                                    p: 1,
-                                    backgroundColor: "grey.100",
-                                    mr: "auto",
-                                    maxWidth: "320px",
-                                  }}
-                                >
-                                  {chat.msg}
-                                </Box>
-                              ) : null}
-                              {chat.type === "image" ? (
-                                <Box
-                                  mb={1}
-                                  sx={{
-                                    overflow: "hidden",
-                                    lineHeight: "0px",
-                                  }}
-                                >
-                                  <Image
-                                    src={chat.msg}
-                                    alt="attach"
-                                    width="150" height="150"
-                                  />
-                                </Box>
-                              ) : null}
+                              <Typography
+                                variant="body2"
+                                color="grey.400"
+                                mb={1}
+                              >
+                                {participantName(sender(chat.senderId))},{" "}
+                                {formatDistanceToNowStrict(
+                                  new Date(chat.createdAt),
+                                  {
+                                    addSuffix: false,
+                                  }
+                                )}{" "}
+                                ago
+                              </Typography>
+                              <MessageBody chat={chat} align="left" />
                             </Box>
                           </Box>
                         ) : (
@@ -188,52 +200,27 @@ const ChatContent: React.FC<ChatContentProps> = ({
                               display="flex"
                               flexDirection={"column"}
                             >
-                              {chat.createdAt ? (
-                                <Typography
-                                  variant="body2"
-                                  color="grey.400"
-                                  mb={1}
-                                >
-                                  {formatDistanceToNowStrict(
-                                    new Date(chat.createdAt),
-                                    {
-                                      addSuffix: false,
-                                    }
-                                  )}{" "}
-                                  ago
-                                </Typography>
-                              ) : null}
-                              {chat.type === "text" ? (
-                                <Box
-                                  mb={1}
-                                  sx={{
-                                    p: 1,
-                                    backgroundColor: "primary.light",
-                                    ml: "auto",
-                                    maxWidth: "320px",
-                                  }}
-                                >
-                                  {chat.msg}
-                                </Box>
-                              ) : null}
-                              {chat.type === "image" ? (
-                                <Box
-                                  mb={1}
-                                  sx={{ overflow: "hidden", lineHeight: "0px" }}
-                                >
-                                  <Image
-                                    src={chat.msg}
-                                    alt="attach"
-                                    width="250" height="165"
-                                  />
-                                </Box>
-                              ) : null}
+                              <Typography
+                                variant="body2"
+                                color="grey.400"
+                                mb={1}
+                              >
+                                {formatDistanceToNowStrict(
+                                  new Date(chat.createdAt),
+                                  {
+                                    addSuffix: false,
+                                  }
+                                )}{" "}
+                                ago
+                              </Typography>
+                              <MessageBody chat={chat} align="right" />
                             </Box>
                           </Box>
                         )}
                       </Box>
                     );
                   })}
+                  <div ref={bottomRef} />
                 </Box>
               </Box>
             </Box>
@@ -245,7 +232,7 @@ const ChatContent: React.FC<ChatContentProps> = ({
               <Box flexShrink={0}>
                 <ChatInsideSidebar
                   isInSidebar={lgUp ? open : !open}
-                  chat={chatDetails}
+                  messages={messages}
                 />
               </Box>
             ) : (
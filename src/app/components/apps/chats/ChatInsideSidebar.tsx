@@ -9,28 +9,25 @@ import { Theme } from '@mui/material/styles';
 import Typography from '@mui/material/Typography'
 import useMediaQuery from '@mui/material/useMediaQuery'
 import { styled } from '@mui/material/styles'
-import { ChatsType } from '../../../(dashboard)/types/apps/chat';
-import { uniq, flatten } from "lodash";
-import { IconDownload } from "@tabler/icons-react";
+import { MessageType } from '../../../(dashboard)/types/apps/chat';
+import { flatten } from "lodash";
+import { IconDownload, IconFile } from "@tabler/icons-react";
+import { formatFileSize } from "@/lib/utils/file-upload";
 
 interface chatType {
   isInSidebar?: boolean;
-  chat?: ChatsType;
+  messages: MessageType[];
 }
 
 const drawerWidth = 320;
 
-const ChatInsideSidebar = ({ isInSidebar, chat }: chatType) => {
+const ChatInsideSidebar = ({ isInSidebar, messages }: chatType) => {
   const lgUp = useMediaQuery((theme: Theme) => theme.breakpoints.up("lg"));
-  const totalAttachment = uniq(
-    flatten(chat?.messages.map((item) => item.attachment))
-  ).length;
-  const totalMedia =
-    uniq(
-      flatten(
-        chat?.messages.map((item) => (item?.type === "image" ? item.msg : null))
-      )
-    ).length - 1;
+  const allAttachments = flatten(messages.map((item) => item.attachments));
+  const media = allAttachments.filter((a) => a.mimeType.startsWith("image/"));
+  const files = allAttachments.filter((a) => !a.mimeType.startsWith("image/"));
+  const totalAttachment = files.length;
+  const totalMedia = media.length;
 
   const StyledStack = styled(Stack)(() => ({
     ".showOnHover": {
@@ -64,19 +61,15 @@ const ChatInsideSidebar = ({ isInSidebar, chat }: chatType) => {
           Media ({totalMedia})
         </Typography>
         <Grid container spacing={2}>
-          {chat?.messages.map((c) => {
+          {media.map((m) => {
             return (
-              <Grid item xs={12} lg={4} key={c.id}>
-                {c?.type === "image" ? (
-                  <Avatar
-                    src={c?.msg}
-                    alt="media"
-                    variant="rounded"
-                    sx={{ width: "72px", height: "72px" }}
-                  />
-                ) : (
-                  ""
-                )}
+              <Grid item xs={12} lg={4} key={m.url}>
+                <Avatar
+                  src={m.url}
+                  alt={m.name}
+                  variant="rounded"
+                  sx={{ width: "72px", height: "72px" }}
+                />
               </Grid>
             );
           })}
@@ -91,48 +84,40 @@ const ChatInsideSidebar = ({ isInSidebar, chat }: chatType) => {
           Attachments ({totalAttachment})
         </Typography>
         <Box>
-          {chat?.messages.map((c, index) => {
-            return (
-              <Stack spacing={2.5} key={index} direction="column">
-                {c?.attachment?.map((a, index) => {
-                  return (
-                    <StyledStack key={index} direction="row" gap={2}>
-                      <Avatar
-                        variant="rounded"
-                        sx={{
-                          width: "48px",
-                          height: "48px",
-                          bgcolor: (theme) => theme.palette.grey[100],
-                        }}
-                      >
-                        <Avatar
-                          src={a.icon}
-                          alt="av"
-                          variant="rounded"
-                          sx={{ width: "24px", height: "24px" }}
-                        ></Avatar>
-                      </Avatar>
-                      <Box mr={"auto"}>
-                        <Typography
-                          variant="subtitle2"
-                          fontWeight={600}
-                          mb={1}
-                        >
-                          {a.file}
-                        </Typography>
-                        <Typography variant="body2">{a.fileSize}</Typography>
-                      </Box>
-                      <Box className="showOnHover">
-                        <IconButton aria-label="delete">
-                          <IconDownload stroke={1.5} size="20" />
-                        </IconButton>
-                      </Box>
-                    </StyledStack>
-                  );
-                })}
-              </Stack>
-            );
-          })}
+          <Stack spacing={2.5} direction="column">
+            {files.map((a) => {
+              return (
+                <StyledStack key={a.url} direction="row" gap={2}>
+                  <Avatar
+                    variant="rounded"
+                    sx={{
+                      width: "48px",
+                      height: "48px",
+                      bgcolor: (theme) => theme.palette.grey[100],
+                      color: (theme) => theme.palette.text.secondary,
+                    }}
+                  >
+                    <IconFile stroke={1.5} size="24" />
+                  </Avatar>
+                  <Box mr={"auto"}>
+                    <Typography
+                      variant="subtitle2"
+                      fontWeight={600}
+                      mb={1}
+                    >
+                      {a.name}
+                    </Typography>
+                    <Typography variant="body2">{formatFileSize(a.size)}</Typography>
+                  </Box>
+                  <Box className="showOnHover">
+                    <IconButton aria-label="download" href={a.url} download={a.name}>
+                      <IconDownload stroke={1.5} size="20" />
+                    </IconButton>
+                  </Box>
+                </StyledStack>
+              );
+            })}
+          </Stack>
           {totalAttachment === 0 ? (
             <Alert severity="error">No Attachment Found!</Alert>
           ) : null}
@@ -16,53 +16,65 @@ import Typography from '@mui/material/Typography'
 import { useSelector, useDispatch } from "@/store/hooks";
 import Scrollbar from "../../custom-scroll/Scrollbar";
 import {
-  SelectChat,
+  openChat,
   fetchChats,
+  fetchChatUsers,
+  markAsRead,
   SearchChat,
+  startChat,
 } from "@/store/apps/chat/ChatSlice";
 import { ChatsType } from '../../../(dashboard)/types/apps/chat';
-import { last } from "lodash";
+import { useAuthContext } from "@/app/context/AuthContext";
 import { formatDistanceToNowStrict } from "date-fns";
-import { IconChevronDown, IconSearch } from "@tabler/icons-react";
+import { IconChevronDown, IconPlus, IconSearch } from "@tabler/icons-react";
+import { chatThumb, chatTitle, participantName, participantThumb } from "./chatUtils";
 
 const ChatListing = () => {
 
   const dispatch = useDispatch();
+  const { user } = useAuthContext();
   const activeChat = useSelector((state) => state.chatReducer.chatContent);
+  const currentUserId = useSelector((state) => state.chatReducer.currentUserId);
+  const users = useSelector((state) => state.chatReducer.users);
+  const [sortBy, setSortBy] = useState<'time' | 'unread'>('time');
 
   useEffect(() => {
     dispatch(fetchChats());
+    dispatch(fetchChatUsers());
   }, [dispatch]);
 
   const filterChats = (chats: ChatsType[], cSearch: string) => {
-    if (chats)
-      return chats.filter((t) =>
-        t.name.toLocaleLowerCase().includes(cSearch.toLocaleLowerCase())
-      );
+    const filtered = chats.filter((t) =>
+      chatTitle(t, currentUserId).toLocaleLowerCase().includes(cSearch.toLocaleLowerCase())
+    );
 
-    return chats;
+    return sortBy === 'unread'
+      ? [...filtered].sort((a, b) => b.unreadCount - a.unreadCount)
+      : filtered;
   };
 
-  const chats = useSelector((state) =>
-    filterChats(state.chatReducer.chats, state.chatReducer.chatSearch)
-  );
+  const chatSearch = useSelector((state) => state.chatReducer.chatSearch);
+  const allChats = useSelector((state) => state.chatReducer.chats);
+  const chats = filterChats(allChats, chatSearch);
 
-  const getDetails = (conversation: ChatsType) => {
-    let displayText = "";
+  // Users without an existing direct conversation who match the search
+  const newContacts = chatSearch
+    ? users.filter((contact) =>
+        participantName(contact).toLocaleLowerCase().includes(chatSearch.toLocaleLowerCase()) &&
+        !chats.some((chat) => chat.type === 'direct' && chat.participants.some((p) => p._id === contact._id))
+      )
+    : [];
 
-    const lastMessage = conversation.messages[conversation.messages.length - 1];
-    if (lastMessage) {
-      const sender = lastMessage.senderId === conversation.id ? "You: " : "";
-      const message =
-        lastMessage.type === "image" ? "Sent a photo" : lastMessage.msg;
-      displayText = `${sender}${message}`;
-    }
+  const getDetails = (conversation: ChatsType) => {
+    const lastMessage = conversation.lastMessage;
+    if (!lastMessage) return "No messages yet";
 
-    return displayText;
+    const sender = lastMessage.senderId === currentUserId ? "You: " : "";
+    const message =
+      lastMessage.type === "image" ? "Sent a photo" : lastMessage.text;
+    return `${sender}${message}`;
   };
 
-  const lastActivity = (chat: ChatsType) => last(chat.messages)?.createdAt;
-
   const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
   const open = Boolean(anchorEl);
   const handleClick = (event: React.MouseEvent<HTMLButtonElement>) => {
@@ -72,6 +84,13 @@ const ChatListing = () => {
     setAnchorEl(null);
   };
 
+  const handleMarkAllRead = () => {
+    chats
+      .filter((chat) => chat.unreadCount > 0)
+      .forEach((chat) => dispatch(markAsRead(chat._id)));
+    handleClose();
+  };
+
   return (
     <div>
       {/* ------------------------------------------- */}
@@ -88,16 +107,16 @@ const ChatListing = () => {
           color="success"
         >
           <Avatar
-            alt="Remy Sharp"
-            src="/images/profile/user-1.jpg"
+            alt={user ? `${user.firstName} ${user.lastName}` : ''}
+            src={user?.profileImage || user?.avatar}
             sx={{ width: 54, height: 54 }}
           />
         </Badge>
         <Box>
           <Typography variant="body1" fontWeight={600}>
-          Mathew Anderson
+            {user ? `${user.firstName} ${user.lastName}` : ''}
           </Typography>
-          <Typography variant="body2">Designer</Typography>
+          <Typography variant="body2">{user?.designation}</Typography>
         </Box>
       </Box>
       {/* ------------------------------------------- */}
@@ -145,9 +164,9 @@ const ChatListing = () => {
               "aria-labelledby": "basic-button",
             }}
           >
-            <MenuItem onClick={handleClose}>Sort By Time</MenuItem>
-            <MenuItem onClick={handleClose}>Sort By Unread</MenuItem>
-            <MenuItem onClick={handleClose}>Mark as all Read</MenuItem>
+            <MenuItem onClick={() => { setSortBy('time'); handleClose(); }}>Sort By Time</MenuItem>
+            <MenuItem onClick={() => { setSortBy('unread'); handleClose(); }}>Sort By Unread</MenuItem>
+            <MenuItem onClick={handleMarkAllRead}>Mark as all Read</MenuItem>
           </Menu>
         </Box>
         <Scrollbar
@@ -156,72 +175,82 @@ const ChatListing = () => {
             maxHeight: "600px",
           }}
         >
-          {chats && chats.length ? (
-            chats.map((chat) => (
-              <ListItemButton
-                key={chat.id}
-                onClick={() => dispatch(SelectChat(chat.id))}
-                sx={{
-                  mb: 0.5,
-                  py: 2,
-                  px: 3,
-                  alignItems: "start",
+          {chats.map((chat) => (
+            <ListItemButton
+              key={chat._id}
+              onClick={() => dispatch(openChat(chat._id))}
+              sx={{
+                mb: 0.5,
+                py: 2,
+                px: 3,
+                alignItems: "start",
+              }}
+              selected={activeChat === chat._id}
+            >
+              <ListItemAvatar>
+                <Avatar
+                  alt={chatTitle(chat, currentUserId)}
+                  src={chatThumb(chat, currentUserId)}
+                  sx={{ width: 42, height: 42 }}
+                />
+              </ListItemAvatar>
+              <ListItemText
+                primary={
+                  <Typography variant="subtitle2" fontWeight={600} mb={0.5}>
+                    {chatTitle(chat, currentUserId)}
+                  </Typography>
+                }
+                secondary={getDetails(chat)}
+                secondaryTypographyProps={{
+                  noWrap: true,
+                  fontWeight: chat.unreadCount > 0 ? 600 : undefined,
                 }}
-                selected={activeChat === chat.id}
-              >
-                <ListItemAvatar>
-                  <Badge
-                    color={
-                      chat.status === "online"
-                        ? "success"
-                        : chat.status === "busy"
-                        ? "error"
-                        : chat.status === "away"
-                        ? "warning"
-                        : "secondary"
-                    }
-                    variant="dot"
-                    anchorOrigin={{
-                      vertical: "bottom",
-                      horizontal: "right",
-                    }}
-                    overlap="circular"
-                  >
-                    <Avatar
-                      alt="Remy Sharp"
-                      src={chat.thumb}
-                      sx={{ width: 42, height: 42 }}
-                    />
-                  </Badge>
-                </ListItemAvatar>
-                <ListItemText
-                  primary={
-                    <Typography variant="subtitle2" fontWeight={600} mb={0.5}>
-                      {chat.name}
-                    </Typography>
-                  }
-                  secondary={getDetails(chat)}
-                  secondaryTypographyProps={{
-                    noWrap: true,
-                  }}
-                  sx={{ my: 0 }}
+                sx={{ my: 0 }}
+              />
+              <Box sx={{ flexShrink: "0" }} mt={0.5} textAlign="right">
+                <Typography variant="body2">
+                  {formatDistanceToNowStrict(new Date(chat.lastMessageAt), {
+                    addSuffix: false,
+                  })}
+                </Typography>
+                {chat.unreadCount > 0 ? (
+                  <Badge badgeContent={chat.unreadCount} color="primary" sx={{ mt: 1.5, mr: 1 }} />
+                ) : null}
+              </Box>
+            </ListItemButton>
+          ))}
+          {newContacts.map((contact) => (
+            <ListItemButton
+              key={contact._id}
+              onClick={() => dispatch(startChat([contact._id]))}
+              sx={{ mb: 0.5, py: 2, px: 3, alignItems: "start" }}
+            >
+              <ListItemAvatar>
+                <Avatar
+                  alt={participantName(contact)}
+                  src={participantThumb(contact)}
+                  sx={{ width: 42, height: 42 }}
                 />
-                <Box sx={{ flexShrink: "0" }} mt={0.5}>
-                  <Typography variant="body2">
-                    {formatDistanceToNowStrict(new Date(lastActivity(chat)), {
-                      addSuffix: false,
-                    })}
+              </ListItemAvatar>
+              <ListItemText
+                primary={
+                  <Typography variant="subtitle2" fontWeight={600} mb={0.5}>
+                    {participantName(contact)}
                   </Typography>
-                </Box>
-              </ListItemButton>
-            ))
-          ) : (
+                }
+                secondary="Start a conversation"
+                sx={{ my: 0 }}
+              />
+              <IconPlus size="16" />
+            </ListItemButton>
+          ))}
+          {chats.length === 0 && newContacts.length === 0 ? (
             <Box m={2}>
               <Alert severity="error" variant="filled" sx={{ color: "white" }}>
                 No Contacts Found!
               </Alert>
             </Box>
-          )}
+          ) : null}
         </Scrollbar>
       </List>
     </div>
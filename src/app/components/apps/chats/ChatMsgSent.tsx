@@ -1,35 +1,29 @@
 import React from "react";
 import { useSelector, useDispatch } from "@/store/hooks";
 import Box from "@mui/material/Box";
+import Chip from "@mui/material/Chip";
+import CircularProgress from "@mui/material/CircularProgress";
 import IconButton from "@mui/material/IconButton";
 import InputBase from "@mui/material/InputBase";
-import { EmojiClickData } from "emoji-picker-react";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
 import {
   IconPaperclip,
   IconPhoto,
   IconSend,
 } from "@tabler/icons-react";
 import { sendMsg } from "@/store/apps/chat/ChatSlice";
+import { AttachType } from '../../../(dashboard)/types/apps/chat';
+import { ALLOWED_IMAGE_TYPES, ALLOWED_ATTACHMENT_TYPES, uploadChatAttachment } from "@/lib/utils/file-upload";
 
 const ChatMsgSent = () => {
-  const [msg, setMsg] = React.useState<any>("");
+  const [msg, setMsg] = React.useState<string>("");
+  const [attachments, setAttachments] = React.useState<AttachType[]>([]);
+  const [uploading, setUploading] = React.useState(false);
+  const [uploadError, setUploadError] = React.useState<string | null>(null);
   const dispatch = useDispatch();
-  const [anchorEl, setAnchorEl] = React.useState<HTMLButtonElement | null>(
-    null
-  );
-  const [chosenEmoji, setChosenEmoji] = React.useState<string>("");
-
-  const onEmojiClick = (emojiData: EmojiClickData, event: MouseEvent) => {
-    setChosenEmoji(emojiData.unified);
-    setMsg(emojiData.emoji);
-  };
-
-  const handleClick = (event: React.MouseEvent<HTMLButtonElement>) => {
-    setAnchorEl(event.currentTarget);
-  };
-  const handleClose = () => {
-    setAnchorEl(null);
-  };
+  const imageInputRef = React.useRef<HTMLInputElement>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
 
   const id = useSelector((state) => state.chatReducer.chatContent);
 
@@ -37,17 +31,58 @@ const ChatMsgSent = () => {
     setMsg(e.target.value);
   };
 
-  const newMsg = { id, msg };
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setUploadError(null);
+
+    for (const file of files) {
+      const result = await uploadChatAttachment(file);
+      if (result.success && result.attachment) {
+        setAttachments((current) => [...current, result.attachment!]);
+      } else {
+        setUploadError(result.error || "Upload failed");
+      }
+    }
+
+    setUploading(false);
+  };
+
+  const onChatMsgSubmit = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    e?.stopPropagation();
+    if (!id || (!msg.trim() && attachments.length === 0)) return;
 
-  const onChatMsgSubmit = (e: any) => {
-    e.preventDefault();
-    e.stopPropagation();
-    dispatch(sendMsg(newMsg));
+    dispatch(sendMsg(id, msg, attachments));
     setMsg("");
+    setAttachments([]);
+    setUploadError(null);
   };
 
   return (
     <Box p={2}>
+      {attachments.length > 0 || uploadError ? (
+        <Stack direction="row" gap={1} mb={1} flexWrap="wrap" alignItems="center">
+          {attachments.map((attachment) => (
+            <Chip
+              key={attachment.url}
+              size="small"
+              label={attachment.name}
+              onDelete={() =>
+                setAttachments((current) => current.filter((a) => a.url !== attachment.url))
+              }
+            />
+          ))}
+          {uploadError ? (
+            <Typography variant="body2" color="error">
+              {uploadError}
+            </Typography>
+          ) : null}
+        </Stack>
+      ) : null}
       {/* ------------------------------------------- */}
       {/* sent chat */}
       {/* ------------------------------------------- */}
@@ -55,10 +90,6 @@ const ChatMsgSent = () => {
         onSubmit={onChatMsgSubmit}
         style={{ display: "flex", gap: "10px", alignItems: "center" }}
       >
-        {/* ------------------------------------------- */}
-        {/* Emoji picker */}
-        {/* ------------------------------------------- */}
-
         <InputBase
           id="msg-sent"
           fullWidth
@@ -68,24 +99,46 @@ const ChatMsgSent = () => {
           type="text"
           inputProps={{ "aria-label": "Type a Message" }}
           onChange={handleChatMsgChange.bind(null)}
+          disabled={!id}
         />
         <IconButton
-          aria-label="delete"
-          onClick={() => {
-            dispatch(sendMsg(newMsg));
-            setMsg("");
-          }}
-          disabled={!msg}
+          aria-label="send"
+          onClick={() => onChatMsgSubmit()}
+          disabled={!id || uploading || (!msg.trim() && attachments.length === 0)}
           color="primary"
         >
           <IconSend stroke={1.5} size="20" />
         </IconButton>
-        <IconButton aria-label="delete">
+        <IconButton
+          aria-label="attach photo"
+          disabled={!id || uploading}
+          onClick={() => imageInputRef.current?.click()}
+        >
           <IconPhoto stroke={1.5} size="20" />
         </IconButton>
-        <IconButton aria-label="delete">
-          <IconPaperclip stroke={1.5} size="20" />
+        <IconButton
+          aria-label="attach file"
+          disabled={!id || uploading}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          {uploading ? <CircularProgress size={20} /> : <IconPaperclip stroke={1.5} size="20" />}
         </IconButton>
+        <input
+          ref={imageInputRef}
+          type="file"
+          hidden
+          multiple
+          accept={ALLOWED_IMAGE_TYPES.join(",")}
+          onChange={handleFiles}
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          hidden
+          multiple
+          accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+          onChange={handleFiles}
+        />
       </form>
     </Box>
   );
@@ -0,0 +1,21 @@
+import { ChatParticipant, ChatsType } from '../../../(dashboard)/types/apps/chat';
+
+export const participantName = (participant?: ChatParticipant) =>
+  participant ? participant.name || `${participant.firstName} ${participant.lastName}`.trim() : 'Unknown user';
+
+export const participantThumb = (participant?: ChatParticipant) =>
+  participant?.profileImage || participant?.avatar || undefined;
+
+/**
+ * Other participants of a conversation, excluding the current user
+ */
+export const otherParticipants = (chat: ChatsType, currentUserId: string | null) =>
+  chat.participants.filter((participant) => participant._id !== currentUserId);
+
+export const chatTitle = (chat: ChatsType, currentUserId: string | null) => {
+  if (chat.type === 'group') return chat.name || 'Group chat';
+  return participantName(otherParticipants(chat, currentUserId)[0]);
+};
+
+export const chatThumb = (chat: ChatsType, currentUserId: string | null) =>
+  chat.type === 'group' ? undefined : participantThumb(otherParticipants(chat, currentUserId)[0]);
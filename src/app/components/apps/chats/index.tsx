@@ -1,14 +1,25 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import Box from "@mui/material/Box";
 import Divider from "@mui/material/Divider";
+import { useDispatch } from "@/store/hooks";
+import { pollChatUpdates } from "@/store/apps/chat/ChatSlice";
 import ChatSidebar from "@/app/components/apps/chats/ChatSidebar";
 import ChatContent from "@/app/components/apps/chats/ChatContent";
 import ChatMsgSent from "@/app/components/apps/chats/ChatMsgSent";
 
+// How often to poll for new messages
+const POLL_INTERVAL = 5000;
+
 const ChatsApp = () => {
   const [isMobileSidebarOpen, setMobileSidebarOpen] = useState(false);
+  const dispatch = useDispatch();
+
+  useEffect(() => {
+    const interval = setInterval(() => dispatch(pollChatUpdates()), POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [dispatch]);
 
   return (
     <>
@@ -8,46 +8,52 @@ import DialogTitle from '@mui/material/DialogTitle';
 import FormLabel from '@mui/material/FormLabel';
 import Grid from '@mui/material/Grid';
 import TextField from '@mui/material/TextField';
-import { useSelector, useDispatch } from '@/store/hooks';
+import { useDispatch } from '@/store/hooks';
 import { addContact } from '@/store/apps/contacts/ContactSlice';
-import user1 from '/public/images/profile/user-10.jpg';
+import { parseTags } from './contactUtils';
 
 const ContactAdd = () => {
   const dispatch = useDispatch();
-  const id = useSelector((state) => state.contactsReducer.contacts.length + 1);
   const [modal, setModal] = React.useState(false);
 
   const toggle = () => {
     setModal(!modal);
   };
 
-  const [values, setValues] = React.useState({
-    firstname: '',
-    lastname: '',
+  const emptyValues = {
+    firstName: '',
+    lastName: '',
     department: '',
     company: '',
     phone: '',
     email: '',
-    address: '',
+    street: '',
+    city: '',
+    country: '',
+    tags: '',
     notes: '',
-  });
+  };
+  const [values, setValues] = React.useState(emptyValues);
 
   const handleSubmit = (e: any) => {
     e.preventDefault();
+    const hasAddress = values.street || values.city || values.country;
     dispatch(
-      addContact(
-        id,
-        values.firstname,
-        values.lastname,
-        user1,
-        values.department,
-        values.company,
-        values.phone,
-        values.email,
-        values.address,
-        values.notes,
-      ),
+      addContact({
+        firstName: values.firstName,
+        lastName: values.lastName,
+        department: values.department,
+        company: values.company,
+        phone: values.phone,
+        email: values.email,
+        notes: values.notes,
+        tags: parseTags(values.tags),
+        addresses: hasAddress
+          ? [{ type: 'billing', street: values.street, city: values.city, country: values.country, isDefault: true }]
+          : [],
+      }),
     );
+    setValues(emptyValues);
     setModal(!modal);
   };
 
@@ -83,8 +89,8 @@ const ContactAdd = () => {
                     size="small"
                     variant="outlined"
                     fullWidth
-                    value={values.firstname}
-                    onChange={(e) => setValues({ ...values, firstname: e.target.value })}
+                    value={values.firstName}
+                    onChange={(e) => setValues({ ...values, firstName: e.target.value })}
                   />
                 </Grid>
                 <Grid item xs={12} lg={6}>
@@ -94,8 +100,8 @@ const ContactAdd = () => {
                     size="small"
                     variant="outlined"
                     fullWidth
-                    value={values.lastname}
-                    onChange={(e) => setValues({ ...values, lastname: e.target.value })}
+                    value={values.lastName}
+                    onChange={(e) => setValues({ ...values, lastName: e.target.value })}
                   />
                 </Grid>
                 <Grid item xs={12} lg={6}>
@@ -136,7 +142,6 @@ const ContactAdd = () => {
                   <TextField
                     id="email"
                     type="email"
-                    required
                     size="small"
                     variant="outlined"
                     fullWidth
@@ -150,11 +155,46 @@ const ContactAdd = () => {
                     id="address"
                     size="small"
                     multiline
-                    rows="3"
+                    rows="2"
+                    variant="outlined"
+                    fullWidth
+                    value={values.street}
+                    onChange={(e) => setValues({ ...values, street: e.target.value })}
+                  />
+                </Grid>
+                <Grid item xs={12} lg={6}>
+                  <FormLabel>City</FormLabel>
+                  <TextField
+                    id="city"
+                    size="small"
+                    variant="outlined"
+                    fullWidth
+                    value={values.city}
+                    onChange={(e) => setValues({ ...values, city: e.target.value })}
+                  />
+                </Grid>
+                <Grid item xs={12} lg={6}>
+                  <FormLabel>Country</FormLabel>
+                  <TextField
+                    id="country"
+                    size="small"
+                    variant="outlined"
+                    fullWidth
+                    value={values.country}
+                    onChange={(e) => setValues({ ...values, country: e.target.value })}
+                  />
+                </Grid>
+                <Grid item xs={12} lg={12}>
+                  <FormLabel>Tags</FormLabel>
+                  <TextField
+                    id="tags"
+                    size="small"
                     variant="outlined"
                     fullWidth
-                    value={values.address}
-                    onChange={(e) => setValues({ ...values, address: e.target.value })}
+                    placeholder="wholesale, vip"
+                    helperText="Separate tags with commas"
+                    value={values.tags}
+                    onChange={(e) => setValues({ ...values, tags: e.target.value })}
                   />
                 </Grid>
                 <Grid item xs={12} lg={12}>
@@ -176,7 +216,7 @@ const ContactAdd = () => {
                     color="primary"
                     sx={{ mr: 1 }}
                     type="submit"
-                    disabled={values.firstname.length === 0 || values.notes.length === 0}
+                    disabled={values.firstName.trim().length === 0}
                   >
                     Submit
                   </Button>
@@ -1,19 +1,26 @@
+import React from 'react';
 import { useSelector, useDispatch } from '@/store/hooks';
 import Avatar from '@mui/material/Avatar';
 import Box from '@mui/material/Box';
 import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
 import Divider from '@mui/material/Divider';
 import Grid from '@mui/material/Grid';
 import IconButton from '@mui/material/IconButton';
 import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
 import TextField from '@mui/material/TextField';
 import Tooltip from '@mui/material/Tooltip';
 import Typography from '@mui/material/Typography';
 import { useTheme } from '@mui/material/styles';
 import {
   isEdit,
-  UpdateContact,
-  DeleteContact,
+  updateContact,
+  deleteContact,
   toggleStarredContact,
 } from '@/store/apps/contacts/ContactSlice';
 import BlankCard from '../../shared/BlankCard';
@@ -21,82 +28,103 @@ import { ContactType } from '../../../(dashboard)/types/apps/contact';
 import { IconPencil, IconStar, IconTrash, IconDeviceFloppy } from '@tabler/icons-react';
 import Scrollbar from '../../../components/custom-scroll/Scrollbar';
 import Image from 'next/image';
+import { format } from 'date-fns';
+import { contactName, formatAddress, formatAmount, parseTags, primaryAddress } from './contactUtils';
+
+type FormValues = Record<'firstName' | 'lastName' | 'company' | 'department' | 'email' | 'phone' | 'street' | 'city' | 'country' | 'tags' | 'notes', string>;
+
+const toFormValues = (contact?: ContactType): FormValues => {
+  const address = contact ? primaryAddress(contact) : undefined;
+  return {
+    firstName: contact?.firstName || '',
+    lastName: contact?.lastName || '',
+    company: contact?.company || '',
+    department: contact?.department || '',
+    email: contact?.email || '',
+    phone: contact?.phone || '',
+    street: address?.street || '',
+    city: address?.city || '',
+    country: address?.country || '',
+    tags: contact?.tags.join(', ') || '',
+    notes: contact?.notes || '',
+  };
+};
 
 const ContactDetails = () => {
-  const contactDetail: ContactType = useSelector(
-    (state) => state.contactsReducer.contacts[state.contactsReducer.contactContent - 1],
+  const contactDetail: ContactType | undefined = useSelector((state) =>
+    state.contactsReducer.contacts.find((contact) => contact._id === state.contactsReducer.contactContent),
   );
+  const activity = useSelector((state) => state.contactsReducer.activity);
   const editContact = useSelector((state) => state.contactsReducer.editContact);
   const dispatch = useDispatch();
   const theme = useTheme();
+  const [values, setValues] = React.useState<FormValues>(toFormValues(contactDetail));
+
+  React.useEffect(() => {
+    if (editContact) {
+      setValues(toFormValues(contactDetail));
+    }
+  }, [editContact, contactDetail]);
 
   const warningColor = theme.palette.warning.main;
 
-  const tableData = [
-    {
-      id: 1,
-      title: 'Firstname',
-      alias: 'firstname',
-      gdata: contactDetail ? contactDetail.firstname : '',
-      type: 'text',
-    },
-    {
-      id: 2,
-      title: 'Lastname',
-      alias: 'lastname',
-      gdata: contactDetail ? contactDetail.lastname : '',
-      type: 'text',
-    },
-    {
-      id: 3,
-      title: 'Company',
-      alias: 'company',
-      gdata: contactDetail ? contactDetail.company : '',
-      type: 'text',
-    },
-    {
-      id: 4,
-      title: 'Department',
-      alias: 'department',
-      gdata: contactDetail ? contactDetail.department : '',
-      type: 'text',
-    },
-    {
-      id: 5,
-      title: 'Email',
-      alias: 'email',
-      gdata: contactDetail ? contactDetail.email : '',
-      type: 'email',
-    },
-    {
-      id: 6,
-      title: 'Phone',
-      alias: 'phone',
-      gdata: contactDetail ? contactDetail.phone : '',
-      type: 'phone',
-    },
-    {
-      id: 7,
-      title: 'Address',
-      alias: 'address',
-      gdata: contactDetail ? contactDetail.address : '',
-      type: 'text',
-    },
-    {
-      id: 8,
-      title: 'Notes',
-      alias: 'notes',
-      gdata: contactDetail ? contactDetail.notes : '',
-      type: 'text',
-    },
+  const tableData: { id: number; title: string; alias: keyof FormValues; type: string }[] = [
+    { id: 1, title: 'Firstname', alias: 'firstName', type: 'text' },
+    { id: 2, title: 'Lastname', alias: 'lastName', type: 'text' },
+    { id: 3, title: 'Company', alias: 'company', type: 'text' },
+    { id: 4, title: 'Department', alias: 'department', type: 'text' },
+    { id: 5, title: 'Email', alias: 'email', type: 'email' },
+    { id: 6, title: 'Phone', alias: 'phone', type: 'phone' },
+    { id: 7, title: 'Address', alias: 'street', type: 'text' },
+    { id: 8, title: 'City', alias: 'city', type: 'text' },
+    { id: 9, title: 'Country', alias: 'country', type: 'text' },
+    { id: 10, title: 'Tags', alias: 'tags', type: 'text' },
+    { id: 11, title: 'Notes', alias: 'notes', type: 'text' },
   ];
 
+  const handleSave = () => {
+    if (!contactDetail) return;
+
+    // Only the primary billing address is editable here; other addresses are kept as-is
+    const current = primaryAddress(contactDetail);
+    const edited = { street: values.street, city: values.city, country: values.country };
+    const addresses = current
+      ? contactDetail.addresses.map((address) => (address === current ? { ...address, ...edited } : address))
+      : values.street || values.city || values.country
+        ? [{ type: 'billing' as const, ...edited, isDefault: true }]
+        : [];
+
+    dispatch(
+      updateContact(contactDetail._id, {
+        firstName: values.firstName,
+        lastName: values.lastName,
+        company: values.company,
+        department: values.department,
+        email: values.email,
+        phone: values.phone,
+        notes: values.notes,
+        tags: parseTags(values.tags),
+        addresses,
+      }),
+    );
+    dispatch(isEdit());
+  };
+
+  const summaryCards = activity
+    ? [
+        { title: 'Invoices', value: activity.summary.invoiceCount.toString() },
+        { title: 'Total Invoiced', value: formatAmount(activity.summary.totalInvoiced) },
+        { title: 'Sales', value: formatAmount(activity.summary.totalSales) },
+        { title: 'Outstanding', value: formatAmount(activity.summary.outstandingBalance) },
+      ]
+    : [];
+
   return (
     <>
     {/* ------------------------------------------- */}
     {/* Contact Detail Part */}
     {/* ------------------------------------------- */}
-    {contactDetail && !contactDetail.deleted ? (
+    {contactDetail ? (
       <>
         {/* ------------------------------------------- */}
         {/* Header Part */}
@@ -105,7 +133,7 @@ const ContactDetails = () => {
           <Typography variant="h5">Contact Details</Typography>
           <Stack gap={0} direction="row" ml={'auto'}>
             <Tooltip title={contactDetail.starred ? 'Unstar' : 'Star'}>
-              <IconButton onClick={() => dispatch(toggleStarredContact(contactDetail.id))}>
+              <IconButton onClick={() => dispatch(toggleStarredContact(contactDetail))}>
                 <IconStar
                   stroke={1.3}
                   size="18"
@@ -117,7 +145,7 @@ const ContactDetails = () => {
               </IconButton>
             </Tooltip>
             <Tooltip title={editContact ? 'Save' : 'Edit'}>
-              <IconButton onClick={() => dispatch(isEdit())}>
+              <IconButton onClick={() => (editContact ? handleSave() : dispatch(isEdit()))}>
                 {!editContact ? (
                   <IconPencil size="18" stroke={1.3} />
                 ) : (
@@ -126,7 +154,7 @@ const ContactDetails = () => {
               </IconButton>
             </Tooltip>
             <Tooltip title="Delete">
-              <IconButton>
+              <IconButton onClick={() => dispatch(deleteContact(contactDetail._id))}>
                 <IconTrash size="18" stroke={1.3} />
               </IconButton>
             </Tooltip>
@@ -142,13 +170,15 @@ const ContactDetails = () => {
               <Box p={3}>
                 <Box display="flex" alignItems="center">
                   <Avatar
-                    alt={contactDetail.image}
-                    src={contactDetail.image}
+                    alt={contactName(contactDetail)}
+                    src={contactDetail.image || undefined}
                     sx={{ width: '72px', height: '72px' }}
-                  />
+                  >
+                    {contactDetail.firstName.charAt(0).toUpperCase()}
+                  </Avatar>
                   <Box sx={{ ml: 2 }}>
                     <Typography variant="h6" mb={0.5}>
-                      {contactDetail.firstname} {contactDetail.lastname}
+                      {contactName(contactDetail)}
                     </Typography>
                     <Typography variant="body2" color="text.secondary" mb={0.5}>
                       {contactDetail.department}
@@ -180,7 +210,7 @@ const ContactDetails = () => {
                       Address
                     </Typography>
                     <Typography variant="subtitle1" fontWeight={600} mb={0.5}>
-                      {contactDetail.address}
+                      {formatAddress(primaryAddress(contactDetail))}
                     </Typography>
                   </Grid>
                   <Grid item lg={6} xs={12} mt={4}>
@@ -199,6 +229,18 @@ const ContactDetails = () => {
                       {contactDetail.company}
                     </Typography>
                   </Grid>
+                  {contactDetail.tags.length > 0 ? (
+                    <Grid item lg={12} xs={12} mt={4}>
+                      <Typography variant="body2" mb={1} color="text.secondary">
+                        Tags
+                      </Typography>
+                      <Stack direction="row" gap={1} flexWrap="wrap">
+                        {contactDetail.tags.map((tag) => (
+                          <Chip key={tag} label={tag} size="small" />
+                        ))}
+                      </Stack>
+                    </Grid>
+                  ) : null}
                   <Grid item lg={12} xs={12} mt={4}>
                     <Typography variant="body2" mb={1} color="text.secondary">
                       Notes
@@ -210,6 +252,55 @@ const ContactDetails = () => {
                 </Grid>
               </Box>
               <Divider />
+              {/* ------------------------------------------- */}
+              {/* Lifetime activity */}
+              {/* ------------------------------------------- */}
+              {activity ? (
+                <Box p={3}>
+                  <Typography variant="h6" mb={2}>
+                    Lifetime Activity
+                  </Typography>
+                  <Grid container spacing={2}>
+                    {summaryCards.map((card) => (
+                      <Grid item lg={3} xs={6} key={card.title}>
+                        <Typography variant="body2" color="text.secondary">
+                          {card.title}
+                        </Typography>
+                        <Typography variant="subtitle1" fontWeight={600}>
+                          {card.value}
+                        </Typography>
+                      </Grid>
+                    ))}
+                  </Grid>
+                  {activity.invoices.length > 0 ? (
+                    <Table size="small" sx={{ mt: 3 }}>
+                      <TableHead>
+                        <TableRow>
+                          <TableCell>Invoice</TableCell>
+                          <TableCell>Date</TableCell>
+                          <TableCell>Status</TableCell>
+                          <TableCell align="right">Total</TableCell>
+                        </TableRow>
+                      </TableHead>
+                      <TableBody>
+                        {activity.invoices.map((invoice) => (
+                          <TableRow key={invoice._id}>
+                            <TableCell>{invoice.invoiceNumber}</TableCell>
+                            <TableCell>{format(new Date(invoice.orderDate), 'MMM dd, yyyy')}</TableCell>
+                            <TableCell>{invoice.status}</TableCell>
+                            <TableCell align="right">{formatAmount(invoice.grandTotal)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <Typography variant="body2" color="text.secondary" mt={3}>
+                      No invoices for this contact yet.
+                    </Typography>
+                  )}
+                </Box>
+              ) : null}
+              <Divider />
               <Box p={3} gap={1} display="flex">
                 <Button
                   color="primary"
@@ -223,7 +314,7 @@ const ContactDetails = () => {
                   color="error"
                   variant="contained"
                   size="small"
-                  onClick={() => dispatch(DeleteContact(contactDetail.id))}
+                  onClick={() => dispatch(deleteContact(contactDetail._id))}
                 >
                   Delete
                 </Button>
@@ -240,14 +331,13 @@ const ContactDetails = () => {
                           {data.title}
                         </Typography>
                         <TextField
-                          id="firstname"
+                          id={data.alias}
                           size="small"
                           fullWidth
                           type="text"
-                          value={data.gdata}
-                          onChange={(e) =>
-                            dispatch(UpdateContact(contactDetail.id, data.alias, e.target.value))
-                          }
+                          multiline={data.alias === 'notes'}
+                          value={values[data.alias]}
+                          onChange={(e) => setValues({ ...values, [data.alias]: e.target.value })}
                         />
                       </Box>
                     ))}
@@ -255,7 +345,8 @@ const ContactDetails = () => {
                       <Button
                         color="primary"
                         variant="contained"
-                        onClick={() => dispatch(isEdit())}
+                        onClick={handleSave}
+                        disabled={!values.firstName.trim()}
                       >
                         Save Contact
                       </Button>
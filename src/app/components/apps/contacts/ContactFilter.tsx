@@ -12,6 +12,7 @@ import {
   IconSend,
   IconBucket,
   IconFolder,
+  IconTag,
 } from "@tabler/icons-react";
 import ContactAdd from "./ContactAdd";
 
@@ -28,6 +29,7 @@ interface DataType {
 const ContactFilter = () => {
   const dispatch = useDispatch();
   const active = useSelector((state) => state.contactsReducer.currentFilter);
+  const tags = useSelector((state) => state.contactsReducer.tags);
   const customizer = useSelector((state) => state.customizer);
   const br = `${customizer.borderRadius}px`;
 
@@ -82,6 +84,19 @@ const ContactFilter = () => {
     },
   ];
 
+  if (tags.length > 0) {
+    filterData.push(
+      { id: 10, devider: true },
+      { id: 11, filterbyTitle: "Tags" },
+      ...tags.map((tag, index) => ({
+        id: 12 + index,
+        name: tag,
+        sort: `tag:${tag}`,
+        icon: IconTag,
+      }))
+    );
+  }
+
   return (
     <>
       <ContactAdd />
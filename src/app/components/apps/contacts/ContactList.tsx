@@ -1,21 +1,30 @@
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
 import List from '@mui/material/List';
 import { useSelector, useDispatch } from "@/store/hooks";
 import {
-  SelectContact,
+  openContact,
   fetchContacts,
-  DeleteContact,
+  deleteContact,
   toggleStarredContact,
 } from "@/store/apps/contacts/ContactSlice";
 
 import Scrollbar from "../../../components/custom-scroll/Scrollbar";
 import ContactListItem from "./ContactListItem";
 import type { ContactType } from '../../../(dashboard)/types/apps/contact';
+import { contactName } from "./contactUtils";
 
 type Props = {
   showrightSidebar: () => void;
 };
 
+const DEPARTMENT_FILTERS: Record<string, string> = {
+  engineering_department: "Engineering",
+  support_department: "Support",
+  sales_department: "Sales",
+};
+
 const ContactList = ({ showrightSidebar }: Props) => {
 
   const dispatch = useDispatch();
@@ -23,72 +32,49 @@ const ContactList = ({ showrightSidebar }: Props) => {
     dispatch(fetchContacts());
   }, [dispatch]);
 
+  const matchesSearch = (contact: ContactType, contactSearch: string) => {
+    const search = contactSearch.toLocaleLowerCase();
+    return [contactName(contact), contact.email, contact.company, contact.phone]
+      .some((value) => value?.toLocaleLowerCase().includes(search));
+  };
+
   const getVisibleContacts = (
     contacts: ContactType[],
     filter: string,
     contactSearch: string
   ) => {
+    const searched = contacts.filter((c) => matchesSearch(c, contactSearch));
+
+    if (filter.startsWith("tag:")) {
+      const tag = filter.slice(4);
+      return searched.filter((c) => c.tags.includes(tag));
+    }
+
+    if (DEPARTMENT_FILTERS[filter]) {
+      return searched.filter((c) => c.department === DEPARTMENT_FILTERS[filter]);
+    }
+
     switch (filter) {
       case "show_all":
-        return contacts.filter(
-          (c) =>
-            !c.deleted &&
-            c.firstname.toLocaleLowerCase().includes(contactSearch)
-        );
+        return searched;
 
       case "frequent_contact":
-        return contacts.filter(
-          (c) =>
-            !c.deleted &&
-            c.frequentlycontacted &&
-            c.firstname.toLocaleLowerCase().includes(contactSearch)
-        );
+        return searched.filter((c) => c.frequentlyContacted);
 
       case "starred_contact":
-        return contacts.filter(
-          (c) =>
-            !c.deleted &&
-            c.starred &&
-            c.firstname.toLocaleLowerCase().includes(contactSearch)
-        );
-
-      case "engineering_department":
-        return contacts.filter(
-          (c) =>
-            !c.deleted &&
-            c.department === "Engineering" &&
-            c.firstname.toLocaleLowerCase().includes(contactSearch)
-        );
-
-      case "support_department":
-        return contacts.filter(
-          (c) =>
-            !c.deleted &&
-            c.department === "Support" &&
-            c.firstname.toLocaleLowerCase().includes(contactSearch)
-        );
-
-      case "sales_department":
-        return contacts.filter(
-          (c) =>
-            !c.deleted &&
-            c.department === "Sales" &&
-            c.firstname.toLocaleLowerCase().includes(contactSearch)
-        );
+        return searched.filter((c) => c.starred);
 
       default:
         throw new Error(`Unknown filter: ${filter}`);
     }
   };
-  const contacts = useSelector((state) =>
-    getVisibleContacts(
-      state.contactsReducer.contacts,
-      state.contactsReducer.currentFilter,
-      state.contactsReducer.contactSearch
-    )
-  );
+  const allContacts = useSelector((state) => state.contactsReducer.contacts);
+  const currentFilter = useSelector((state) => state.contactsReducer.currentFilter);
+  const contactSearch = useSelector((state) => state.contactsReducer.contactSearch);
+  const contacts = getVisibleContacts(allContacts, currentFilter, contactSearch);
 
   const active = useSelector((state) => state.contactsReducer.contactContent);
+  const error = useSelector((state) => state.contactsReducer.error);
 
   return (
     <Scrollbar
@@ -97,18 +83,23 @@ const ContactList = ({ showrightSidebar }: Props) => {
         maxHeight: "800px",
       }}
     >
+      {error ? (
+        <Box px={2}>
+          <Alert severity="error">{error}</Alert>
+        </Box>
+      ) : null}
       <List>
         {contacts.map((contact) => (
           <ContactListItem
-            key={contact.id}
-            active={contact.id === active}
+            key={contact._id}
+            active={contact._id === active}
             {...contact}
             onContactClick={() => {
-              dispatch(SelectContact(contact.id));
+              dispatch(openContact(contact._id));
               showrightSidebar();
             }}
-            onDeleteClick={() => dispatch(DeleteContact(contact.id))}
-            onStarredClick={() => dispatch(toggleStarredContact(contact.id))}
+            onDeleteClick={() => dispatch(deleteContact(contact._id))}
+            onStarredClick={() => dispatch(toggleStarredContact(contact))}
           />
         ))}
       </List>
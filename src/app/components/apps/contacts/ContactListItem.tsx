@@ -14,11 +14,11 @@ type Props = {
   onContactClick: (event: React.MouseEvent<HTMLElement>) => void;
   onStarredClick: React.MouseEventHandler<SVGElement>;
   onDeleteClick: React.MouseEventHandler<SVGElement>;
-  id: string | number;
-  firstname: string;
-  lastname: string;
-  image: string;
-  department: string;
+  firstName: string;
+  lastName: string;
+  image?: string | null;
+  department?: string | null;
+  company?: string | null;
   starred: boolean;
   active: any;
 };
@@ -27,11 +27,11 @@ const ContactListItem = ({
   onContactClick,
   onStarredClick,
   onDeleteClick,
-  id,
-  firstname,
-  lastname,
+  firstName,
+  lastName,
   image,
   department,
+  company,
   starred,
   active,
 }: Props) => {
@@ -45,16 +45,18 @@ const ContactListItem = ({
   return (
     <ListItemButton sx={{ mb: 1 }} selected={active}>
       <ListItemAvatar>
-        <Avatar alt={image} src={image} />
+        <Avatar alt={`${firstName} ${lastName}`} src={image || undefined}>
+          {firstName.charAt(0).toUpperCase()}
+        </Avatar>
       </ListItemAvatar>
       <ListItemText>
         <Stack direction="row" gap="10px" alignItems="center">
           <Box mr="auto" onClick={onContactClick}>
             <Typography variant="subtitle1" noWrap fontWeight={600} sx={{ maxWidth: '150px' }}>
-              {firstname} {lastname}
+              {firstName} {lastName}
             </Typography>
             <Typography variant="body2" color="text.secondary" noWrap>
-              {department}
+              {department || company}
             </Typography>
           </Box>
           <IconStar
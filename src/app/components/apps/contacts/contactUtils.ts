@@ -0,0 +1,25 @@
+import { ContactAddress, ContactType } from '../../../(dashboard)/types/apps/contact';
+
+export const contactName = (contact: ContactType) =>
+  `${contact.firstName} ${contact.lastName || ''}`.trim();
+
+/**
+ * Default billing address of a contact, falling back to the first address on file
+ */
+export const primaryAddress = (contact: ContactType): ContactAddress | undefined =>
+  contact.addresses.find((address) => address.type === 'billing' && address.isDefault) ||
+  contact.addresses.find((address) => address.type === 'billing') ||
+  contact.addresses[0];
+
+export const formatAddress = (address?: ContactAddress) =>
+  address
+    ? [address.street, address.city, address.state, address.postalCode, address.country]
+        .filter(Boolean)
+        .join(', ')
+    : '';
+
+export const parseTags = (value: string) =>
+  Array.from(new Set(value.split(',').map((tag) => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const formatAmount = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   Box,
   Typography,
@@ -26,6 +26,11 @@ import {
   IconCreditCard,
   IconReceipt,
   IconReport,
+  IconFileInvoice,
+  IconCash,
+  IconHistory,
+  IconAlertTriangle,
+  IconTruck,
   IconDownload,
   IconCalendar,
   IconFilter
@@ -34,7 +39,18 @@ import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 
-export type ExportType = 'products' | 'sales' | 'expenses' | 'financial-summary';
+export type ExportType =
+  | 'products'
+  | 'sales'
+  | 'expenses'
+  | 'financial-summary'
+  | 'invoices'
+  | 'income'
+  | 'inventory-logs'
+  | 'stock-alerts'
+  | 'vendors';
+
+type ExportFilter = 'dateRange' | 'category' | 'status' | 'sku' | 'vendor';
 
 interface SimpleExportOptions {
   type: ExportType;
@@ -44,6 +60,20 @@ interface SimpleExportOptions {
     end: Date | null;
   };
   category?: string;
+  status?: string;
+  sku?: string;
+  vendorId?: string;
+}
+
+interface ExportTypeConfig {
+  title: string;
+  description: string;
+  icon: typeof IconReport;
+  color: string;
+  fields: string[];
+  filters: ExportFilter[];
+  statuses?: { label: string; values: string[] }; // Options for the status filter
+  estimatedRecords: number;
 }
 
 interface SimpleExportPanelProps {
@@ -51,7 +81,7 @@ interface SimpleExportPanelProps {
 }
 
 // Export type configurations
-const EXPORT_TYPES = {
+const EXPORT_TYPES: Record<ExportType, ExportTypeConfig> = {
   products: {
     title: 'Products Export',
     description: 'Export all product information including inventory, pricing, and categories',
@@ -76,7 +106,7 @@ const EXPORT_TYPES = {
     icon: IconReceipt,
     color: 'warning.main',
     fields: ['Date', 'Description', 'Amount', 'Category', 'Vendor', 'Status'],
-    filters: ['dateRange', 'category'],
+    filters: ['dateRange', 'category', 'vendor'],
     estimatedRecords: 342,
   },
   'financial-summary': {
@@ -88,6 +118,63 @@ const EXPORT_TYPES = {
     filters: ['dateRange'],
     estimatedRecords: 24,
   },
+  invoices: {
+    title: 'Invoices Export',
+    description: 'Export invoices with customer details, tax, payments received and balances due',
+    icon: IconFileInvoice,
+    color: 'secondary.main',
+    fields: ['Invoice Number', 'Status', 'Customer', 'Order Date', 'Due Date', 'VAT', 'Grand Total', 'Amount Paid', 'Balance Due'],
+    filters: ['dateRange', 'status', 'sku'],
+    statuses: {
+      label: 'Status',
+      values: ['Draft', 'Pending', 'Sent', 'Partially Paid', 'Paid', 'Overdue', 'Cancelled'],
+    },
+    estimatedRecords: 410,
+  },
+  income: {
+    title: 'Income Export',
+    description: 'Export income records with categories and their linked invoices and orders',
+    icon: IconCash,
+    color: 'success.dark',
+    fields: ['Date', 'Description', 'Category', 'Amount', 'Currency', 'Recurring', 'Invoice'],
+    filters: ['dateRange'],
+    estimatedRecords: 520,
+  },
+  'inventory-logs': {
+    title: 'Inventory Movements',
+    description: 'Export every stock change with before and after quantities, source and reason',
+    icon: IconHistory,
+    color: 'primary.dark',
+    fields: ['Date', 'SKU', 'Type', 'Before', 'Change', 'After', 'Source', 'Reason', 'Location'],
+    filters: ['dateRange', 'status', 'sku'],
+    statuses: {
+      label: 'Movement Type',
+      values: ['adjustment', 'sale', 'return', 'damage', 'restock', 'reservation', 'release', 'import', 'transfer'],
+    },
+    estimatedRecords: 3200,
+  },
+  'stock-alerts': {
+    title: 'Stock Alerts Export',
+    description: 'Export low and out-of-stock alerts with priority, stock levels and resolution',
+    icon: IconAlertTriangle,
+    color: 'error.main',
+    fields: ['SKU', 'Alert Type', 'Priority', 'Status', 'Current Stock', 'Threshold', 'Message', 'Resolved At'],
+    filters: ['dateRange', 'status', 'sku'],
+    statuses: {
+      label: 'Status',
+      values: ['active', 'acknowledged', 'resolved', 'dismissed'],
+    },
+    estimatedRecords: 180,
+  },
+  vendors: {
+    title: 'Vendors Export',
+    description: 'Export vendor contact details with expense totals for the selected period',
+    icon: IconTruck,
+    color: 'warning.dark',
+    fields: ['Name', 'Email', 'Phone', 'Address', 'Expenses', 'Total Spent', 'Last Expense'],
+    filters: ['dateRange', 'vendor'],
+    estimatedRecords: 60,
+  },
 };
 
 const CATEGORIES = [
@@ -110,6 +197,28 @@ const SimpleExportPanel: React.FC<SimpleExportPanelProps> = ({ onExport }) => {
     end: null,
   });
   const [category, setCategory] = useState<string>('All Categories');
+  const [status, setStatus] = useState<string>('');
+  const [sku, setSku] = useState<string>('');
+  const [vendorId, setVendorId] = useState<string>('');
+  const [vendors, setVendors] = useState<Array<{ _id: string; name: string }>>([]);
+
+  const activeFilters = selectedType ? EXPORT_TYPES[selectedType].filters : [];
+  const needsVendors = activeFilters.includes('vendor');
+
+  useEffect(() => {
+    if (!needsVendors || vendors.length > 0) return;
+
+    fetch('/api/finance/vendors?limit=100', { credentials: 'include' })
+      .then(response => response.json())
+      .then(data => setVendors(data.data?.vendors || []))
+      .catch(error => console.error('Failed to load vendors:', error));
+  }, [needsVendors, vendors.length]);
+
+  const handleSelectType = (type: ExportType) => {
+    setSelectedType(type);
+    // Status values differ per export type
+    setStatus('');
+  };
 
   const handleExport = () => {
     if (!selectedType) return;
@@ -118,7 +227,10 @@ const SimpleExportPanel: React.FC<SimpleExportPanelProps> = ({ onExport }) => {
       type: selectedType,
       format,
       dateRange,
-      category: category !== 'All Categories' ? category : undefined,
+      category: activeFilters.includes('category') && category !== 'All Categories' ? category : undefined,
+      status: activeFilters.includes('status') && status ? status : undefined,
+      sku: activeFilters.includes('sku') && sku.trim() ? sku.trim() : undefined,
+      vendorId: needsVendors && vendorId ? vendorId : undefined,
     };
 
     onExport(exportOptions);
@@ -158,7 +270,7 @@ const SimpleExportPanel: React.FC<SimpleExportPanelProps> = ({ onExport }) => {
                   '&:hover': { borderColor: config.color },
                   transition: 'all 0.2s ease-in-out',
                 }}
-                onClick={() => setSelectedType(type as ExportType)}
+                onClick={() => handleSelectType(type as ExportType)}
               >
                 <CardContent>
                   <Box display="flex" alignItems="flex-start" gap={2}>
@@ -275,7 +387,7 @@ const SimpleExportPanel: React.FC<SimpleExportPanelProps> = ({ onExport }) => {
                 </Grid>
 
                 {/* Category Filter (for products and expenses) */}
-                {(selectedType === 'products' || selectedType === 'expenses') && (
+                {activeFilters.includes('category') && (
                   <Grid item xs={12} sm={6}>
                     <FormControl fullWidth size="small">
                       <InputLabel>Category</InputLabel>
@@ -293,6 +405,58 @@ const SimpleExportPanel: React.FC<SimpleExportPanelProps> = ({ onExport }) => {
                     </FormControl>
                   </Grid>
                 )}
+
+                {activeFilters.includes('status') && EXPORT_TYPES[selectedType].statuses && (
+                  <Grid item xs={12} sm={6}>
+                    <FormControl fullWidth size="small">
+                      <InputLabel>{EXPORT_TYPES[selectedType].statuses!.label}</InputLabel>
+                      <Select
+                        value={status}
+                        label={EXPORT_TYPES[selectedType].statuses!.label}
+                        onChange={(e) => setStatus(e.target.value)}
+                      >
+                        <MenuItem value="">All</MenuItem>
+                        {EXPORT_TYPES[selectedType].statuses!.values.map((value) => (
+                          <MenuItem key={value} value={value}>
+                            {value}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                )}
+
+                {activeFilters.includes('sku') && (
+                  <Grid item xs={12} sm={6}>
+                    <TextField
+                      label="SKU"
+                      value={sku}
+                      onChange={(e) => setSku(e.target.value)}
+                      size="small"
+                      fullWidth
+                    />
+                  </Grid>
+                )}
+
+                {needsVendors && (
+                  <Grid item xs={12} sm={6}>
+                    <FormControl fullWidth size="small">
+                      <InputLabel>Vendor</InputLabel>
+                      <Select
+                        value={vendorId}
+                        label="Vendor"
+                        onChange={(e) => setVendorId(e.target.value)}
+                      >
+                        <MenuItem value="">All Vendors</MenuItem>
+                        {vendors.map((vendor) => (
+                          <MenuItem key={vendor._id} value={vendor._id}>
+                            {vendor.name}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                  </Grid>
+                )}
               </Grid>
             </Grid>
           </Grid>
@@ -11,35 +11,54 @@ import {
   Paper,
   Select,
   MenuItem,
+  ListSubheader,
   FormControl,
+  InputLabel,
+  TextField,
   Typography,
   Box,
   Button,
   Alert,
   Chip,
-  IconButton,
   Tooltip,
 } from '@mui/material';
-import { IconInfoCircle, IconCheck, IconX } from '@tabler/icons-react';
+import { IconInfoCircle, IconCheck, IconX, IconDeviceFloppy } from '@tabler/icons-react';
+import {
+  PRODUCT_IMPORT_FIELDS,
+  ImportValueTransform,
+  ProductImportMapping,
+  ProductImportTransforms,
+  suggestFieldMapping,
+} from '@/lib/utils/product-import-mapping';
+
+interface ImportProfile {
+  _id: string;
+  name: string;
+  vendorId?: string;
+  mapping: ProductImportMapping;
+  transforms: ProductImportTransforms;
+}
 
 interface FieldMappingTableProps {
   headers: string[];
   previewData: any[];
-  onMappingChange: (mapping: { [key: string]: string }) => void;
+  onMappingChange: (mapping: ProductImportMapping, transforms: ProductImportTransforms, profileId?: string) => void;
   onProceed?: () => void;
 }
 
-// Available product fields that can be mapped (simplified)
-const PRODUCT_FIELDS = [
-  { value: '', label: 'Skip this column', required: false },
-  { value: 'title', label: 'Product Title', required: true },
-  { value: 'description', label: 'Description', required: true },
-  { value: 'price', label: 'Price', required: true },
-  { value: 'sku', label: 'SKU', required: false },
-  { value: 'category', label: 'Category', required: true },
-  { value: 'qty', label: 'Stock Quantity', required: false },
-  { value: 'photo', label: 'Photo URL', required: true },
-];
+const TRANSFORM_LABELS: Record<ImportValueTransform, string> = {
+  text: 'Text',
+  number: 'Number',
+  currency: 'Currency ($1,299.99)',
+  boolean: 'Yes / No',
+  list: 'Comma-separated list',
+  attributes: 'Attributes (Color: Red; Size: L)',
+};
+
+const PRODUCT_FIELDS = PRODUCT_IMPORT_FIELDS.filter(field => field.target === 'product');
+const VARIANT_FIELDS = PRODUCT_IMPORT_FIELDS.filter(field => field.target === 'variant');
+
+const getField = (value: string) => PRODUCT_IMPORT_FIELDS.find(field => field.value === value);
 
 const FieldMappingTable: React.FC<FieldMappingTableProps> = ({
   headers,
@@ -47,82 +66,138 @@ const FieldMappingTable: React.FC<FieldMappingTableProps> = ({
   onMappingChange,
   onProceed,
 }) => {
-  const [mapping, setMapping] = useState<{ [key: string]: string }>({});
-  const [autoMappingApplied, setAutoMappingApplied] = useState(false);
+  const [mapping, setMapping] = useState<ProductImportMapping>({});
+  const [transforms, setTransforms] = useState<ProductImportTransforms>({});
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [vendors, setVendors] = useState<Array<{ _id: string; name: string }>>([]);
+  const [profileId, setProfileId] = useState<string>('');
+  const [profileName, setProfileName] = useState('');
+  const [profileVendorId, setProfileVendorId] = useState('');
+  const [profileMessage, setProfileMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+  const [suggestionsLoaded, setSuggestionsLoaded] = useState(false);
 
-  // Auto-mapping function
+  // Name-similarity suggestions, computed locally when the server can't be reached
   const applyAutoMapping = () => {
-    console.log('Applying auto-mapping for headers:', headers);
-    const newMapping: { [key: string]: string } = {};
-    
-    headers.forEach(header => {
-      const normalizedHeader = header.toLowerCase().trim();
-      
-      // Find the best match for this header
-      const match = PRODUCT_FIELDS.find(field => {
-        if (!field.value) return false;
-        
-        const fieldName = field.value.toLowerCase();
-        const fieldLabel = field.label.toLowerCase();
-        
-        // Exact match
-        if (normalizedHeader === fieldName || normalizedHeader === fieldLabel) {
-          return true;
-        }
-        
-        // Partial match
-        if (normalizedHeader.includes(fieldName) || fieldName.includes(normalizedHeader)) {
-          return true;
-        }
-        
-        // Common variations (simplified)
-        const variations: { [key: string]: string[] } = {
-          'title': ['name', 'product_name', 'product_title', 'item_name'],
-          'sku': ['product_sku', 'item_sku', 'code', 'product_code'],
-          'price': ['cost', 'amount', 'regular_price', 'list_price'],
-          'category': ['cat', 'product_category', 'category_name'],
-          'description': ['desc', 'product_description', 'details'],
-          'qty': ['stock', 'inventory', 'quantity', 'stock_quantity', 'in_stock'],
-          'photo': ['image', 'img', 'image_url', 'picture', 'thumbnail'],
-        };
-        
-        const fieldVariations = variations[fieldName] || [];
-        return fieldVariations.some(variation => 
-          normalizedHeader.includes(variation) || variation.includes(normalizedHeader)
-        );
-      });
-      
-      if (match) {
-        console.log(`Auto-mapped "${header}" to "${match.value}"`);
-        newMapping[header] = match.value;
-      } else {
-        console.log(`No match found for header: "${header}"`);
-      }
-    });
-    
-    console.log('Final auto-mapping result:', newMapping);
-    setMapping(newMapping);
-    setAutoMappingApplied(true);
+    const suggestions = suggestFieldMapping(headers);
+    setMapping(Object.fromEntries(suggestions.map(suggestion => [suggestion.header, suggestion.field])));
+    setTransforms({});
+    setProfileId('');
   };
 
-  // Apply auto-mapping on component mount
+  // Ask the server for suggestions so a saved profile matching these columns is applied
   useEffect(() => {
-    if (!autoMappingApplied && headers.length > 0) {
-      applyAutoMapping();
-    }
-  }, [headers, autoMappingApplied]);
+    if (suggestionsLoaded || headers.length === 0) return;
+    setSuggestionsLoaded(true);
+
+    fetch('/api/bulk-upload/mapping', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ headers }),
+    })
+      .then(response => response.json())
+      .then(result => {
+        if (!result.success) throw new Error(result.error);
+        setMapping(result.data.mapping);
+        setTransforms(result.data.transforms);
+        setProfileId(result.data.profile?.id || '');
+      })
+      .catch(error => {
+        console.error('Failed to load mapping suggestions:', error);
+        applyAutoMapping();
+      });
+  }, [headers, suggestionsLoaded]);
+
+  useEffect(() => {
+    fetch('/api/bulk-upload/profiles', { credentials: 'include' })
+      .then(response => response.json())
+      .then(result => setProfiles(result.success ? result.data : []))
+      .catch(error => console.error('Failed to load import profiles:', error));
+
+    fetch('/api/finance/vendors?limit=100', { credentials: 'include' })
+      .then(response => response.json())
+      .then(result => setVendors(result.data?.vendors || []))
+      .catch(error => console.error('Failed to load vendors:', error));
+  }, []);
 
   // Notify parent component when mapping changes
   useEffect(() => {
-    console.log('Field mapping changed, notifying parent:', mapping);
-    onMappingChange(mapping);
-  }, [mapping, onMappingChange]);
+    onMappingChange(mapping, transforms, profileId || undefined);
+  }, [mapping, transforms, profileId, onMappingChange]);
 
   const handleMappingChange = (header: string, value: string) => {
     setMapping(prev => ({
       ...prev,
       [header]: value,
     }));
+    // A new field brings its own default transform
+    setTransforms(prev => {
+      const next = { ...prev };
+      delete next[header];
+      return next;
+    });
+  };
+
+  const handleTransformChange = (header: string, value: ImportValueTransform) => {
+    setTransforms(prev => ({
+      ...prev,
+      [header]: value,
+    }));
+  };
+
+  const handleProfileSelect = (id: string) => {
+    setProfileId(id);
+    const profile = profiles.find(candidate => candidate._id === id);
+    if (!profile) return;
+
+    const byLowerCase = new Map(headers.map(header => [header.trim().toLowerCase(), header]));
+    const nextMapping: ProductImportMapping = {};
+    const nextTransforms: ProductImportTransforms = {};
+
+    Object.entries(profile.mapping).forEach(([header, field]) => {
+      const uploaded = byLowerCase.get(header.trim().toLowerCase());
+      if (uploaded) nextMapping[uploaded] = field;
+    });
+    Object.entries(profile.transforms || {}).forEach(([header, transform]) => {
+      const uploaded = byLowerCase.get(header.trim().toLowerCase());
+      if (uploaded) nextTransforms[uploaded] = transform;
+    });
+
+    setMapping(nextMapping);
+    setTransforms(nextTransforms);
+  };
+
+  const handleSaveProfile = async () => {
+    setProfileMessage(null);
+
+    try {
+      const response = await fetch('/api/bulk-upload/profiles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          name: profileName,
+          vendorId: profileVendorId || undefined,
+          headers,
+          mapping,
+          transforms,
+        }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        setProfileMessage({ severity: 'error', text: result.error || 'Failed to save profile' });
+        return;
+      }
+
+      setProfiles(prev => [result.data, ...prev]);
+      setProfileId(result.data._id);
+      setProfileName('');
+      setProfileMessage({ severity: 'success', text: `Saved profile "${result.data.name}"` });
+    } catch (error) {
+      console.error('Failed to save import profile:', error);
+      setProfileMessage({ severity: 'error', text: 'Failed to save profile' });
+    }
   };
 
   const getUsedFields = () => {
@@ -130,65 +205,44 @@ const FieldMappingTable: React.FC<FieldMappingTableProps> = ({
   };
 
   const getRequiredFields = () => {
-    return PRODUCT_FIELDS.filter(field => field.required);
-  };
-
-  const getMappedRequiredFields = () => {
-    const usedFields = getUsedFields();
-    return getRequiredFields().filter(field => usedFields.includes(field.value));
+    // Variant-only files identify products by parent SKU instead
+    const variantOnly = getUsedFields().includes('parentSku') && !getUsedFields().includes('title');
+    return PRODUCT_IMPORT_FIELDS.filter(field => field.required && field.target === (variantOnly ? 'variant' : 'product'));
   };
 
   const getMissingRequiredFields = () => {
-    const mappedRequired = getMappedRequiredFields();
-    return getRequiredFields().filter(field => 
-      !mappedRequired.some(mapped => mapped.value === field.value)
-    );
+    const usedFields = getUsedFields();
+    return getRequiredFields().filter(field => !usedFields.includes(field.value));
   };
 
   const isDuplicate = (header: string, value: string) => {
     if (!value) return false;
-    return Object.entries(mapping).some(([key, val]) => 
+    return Object.entries(mapping).some(([key, val]) =>
       key !== header && val === value
     );
   };
 
   const canProceed = () => {
-    const missingRequired = getMissingRequiredFields();
-    const hasDuplicates = Object.entries(mapping).some(([header, value]) => 
+    const hasDuplicates = Object.entries(mapping).some(([header, value]) =>
       isDuplicate(header, value)
     );
-    return missingRequired.length === 0 && !hasDuplicates;
+    return getMissingRequiredFields().length === 0 && !hasDuplicates;
   };
 
-  const getFieldDescription = (fieldValue: string) => {
-    const descriptions: { [key: string]: string } = {
-      'name': 'The display name of the product',
-      'sku': 'Unique product identifier (Stock Keeping Unit)',
-      'price': 'Regular selling price in your default currency',
-      'category': 'Product category or classification',
-      'description': 'Detailed product description',
-      'stock_quantity': 'Available inventory quantity',
-      'weight': 'Product weight for shipping calculations',
-      'dimensions': 'Product dimensions (length x width x height)',
-      'brand': 'Product brand or manufacturer',
-      'tags': 'Comma-separated tags for organization',
-      'image_url': 'URL to product image',
-      'status': 'Product status (active, draft, archived)',
-      'featured': 'Whether product is featured (true/false)',
-      'sale_price': 'Discounted price if on sale',
-      'compare_at_price': 'Original price for comparison',
-      'cost_price': 'Cost price for profit calculations',
-      'barcode': 'Product barcode number',
-      'vendor': 'Product vendor or supplier',
-      'product_type': 'Type of product for organization',
-      'visibility': 'Product visibility (public, private, hidden)',
-      'tax_class': 'Tax classification for tax calculations',
-      'shipping_class': 'Shipping class for shipping calculations',
-      'meta_title': 'SEO meta title',
-      'meta_description': 'SEO meta description',
-    };
-    return descriptions[fieldValue] || '';
-  };
+  const renderFieldOption = (header: string, field: typeof PRODUCT_IMPORT_FIELDS[number]) => (
+    <MenuItem
+      key={field.value}
+      value={field.value}
+      disabled={getUsedFields().includes(field.value) && mapping[header] !== field.value}
+    >
+      <Box display="flex" alignItems="center" gap={1}>
+        {field.label}
+        {field.required && (
+          <Chip label="Required" size="small" color="error" />
+        )}
+      </Box>
+    </MenuItem>
+  );
 
   return (
     <Box>
@@ -202,7 +256,7 @@ const FieldMappingTable: React.FC<FieldMappingTableProps> = ({
             </Typography>
           </Alert>
         )}
-        
+
         {Object.entries(mapping).some(([header, value]) => isDuplicate(header, value)) && (
           <Alert severity="error" sx={{ mb: 2 }}>
             <Typography variant="body2">
@@ -210,7 +264,7 @@ const FieldMappingTable: React.FC<FieldMappingTableProps> = ({
             </Typography>
           </Alert>
         )}
-        
+
         {canProceed() && (
           <Alert severity="success" sx={{ mb: 2 }}>
             <Typography variant="body2">
@@ -220,18 +274,39 @@ const FieldMappingTable: React.FC<FieldMappingTableProps> = ({
         )}
       </Box>
 
-      {/* Auto-mapping Button */}
-      <Box mb={3}>
-        <Button
-          variant="outlined"
-          onClick={applyAutoMapping}
-          startIcon={<IconCheck />}
-        >
-          Apply Auto-Mapping
-        </Button>
-        <Typography variant="body2" color="text.secondary" mt={1}>
-          Automatically map columns based on common field names
-        </Typography>
+      {/* Saved Profiles and Auto-mapping */}
+      <Box mb={3} display="flex" gap={2} flexWrap="wrap" alignItems="flex-start">
+        <FormControl size="small" sx={{ minWidth: 240 }}>
+          <InputLabel>Mapping Profile</InputLabel>
+          <Select
+            value={profileId}
+            label="Mapping Profile"
+            onChange={(e) => handleProfileSelect(e.target.value)}
+          >
+            <MenuItem value="">None</MenuItem>
+            {profiles.map((profile) => (
+              <MenuItem key={profile._id} value={profile._id}>
+                {profile.name}
+                {profile.vendorId && vendors.find(vendor => vendor._id === profile.vendorId)
+                  ? ` (${vendors.find(vendor => vendor._id === profile.vendorId)!.name})`
+                  : ''}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <Box>
+          <Button
+            variant="outlined"
+            onClick={applyAutoMapping}
+            startIcon={<IconCheck />}
+          >
+            Apply Auto-Mapping
+          </Button>
+          <Typography variant="body2" color="text.secondary" mt={1}>
+            Match columns to product fields by name similarity
+          </Typography>
+        </Box>
       </Box>
 
       {/* Mapping Table */}
@@ -242,87 +317,91 @@ const FieldMappingTable: React.FC<FieldMappingTableProps> = ({
               <TableCell>CSV Column</TableCell>
               <TableCell>Sample Data</TableCell>
               <TableCell>Map to Product Field</TableCell>
+              <TableCell>Value Format</TableCell>
               <TableCell>Status</TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
-            {headers.map((header) => (
-              <TableRow key={header}>
-                <TableCell>
-                  <Typography variant="subtitle2" fontWeight="600">
-                    {header}
-                  </Typography>
-                </TableCell>
-                <TableCell>
-                  <Box sx={{ maxWidth: 200 }}>
-                    {previewData.slice(0, 3).map((row, index) => (
-                      <Typography
-                        key={index}
-                        variant="body2"
-                        color="text.secondary"
-                        sx={{
-                          whiteSpace: 'nowrap',
-                          overflow: 'hidden',
-                          textOverflow: 'ellipsis',
-                        }}
-                      >
-                        {row[header] || '—'}
-                      </Typography>
-                    ))}
-                  </Box>
-                </TableCell>
-                <TableCell>
-                  <FormControl size="small" fullWidth>
-                    <Select
-                      value={mapping[header] || ''}
-                      onChange={(e) => handleMappingChange(header, e.target.value)}
-                      displayEmpty
-                      error={isDuplicate(header, mapping[header])}
-                    >
-                      {PRODUCT_FIELDS.map((field) => (
-                        <MenuItem 
-                          key={field.value} 
-                          value={field.value}
-                          disabled={field.value !== '' && getUsedFields().includes(field.value) && mapping[header] !== field.value}
+            {headers.map((header) => {
+              const field = getField(mapping[header] || '');
+
+              return (
+                <TableRow key={header}>
+                  <TableCell>
+                    <Typography variant="subtitle2" fontWeight="600">
+                      {header}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Box sx={{ maxWidth: 200 }}>
+                      {previewData.slice(0, 3).map((row, index) => (
+                        <Typography
+                          key={index}
+                          variant="body2"
+                          color="text.secondary"
+                          sx={{
+                            whiteSpace: 'nowrap',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                          }}
                         >
-                          <Box display="flex" alignItems="center" gap={1}>
-                            {field.label}
-                            {field.required && (
-                              <Chip label="Required" size="small" color="error" />
-                            )}
-                          </Box>
-                        </MenuItem>
+                          {row[header] || '—'}
+                        </Typography>
                       ))}
-                    </Select>
-                  </FormControl>
-                  
-                  {mapping[header] && mapping[header] !== '' && (
-                    <Box mt={1}>
-                      <Typography variant="caption" color="text.secondary">
-                        {getFieldDescription(mapping[header])}
-                      </Typography>
                     </Box>
-                  )}
-                </TableCell>
-                <TableCell>
-                  <Box display="flex" alignItems="center" gap={1}>
-                    {mapping[header] === '' ? (
-                      <Chip label="Skipped" size="small" color="default" />
-                    ) : isDuplicate(header, mapping[header]) ? (
-                      <Chip label="Duplicate" size="small" color="error" icon={<IconX size={16} />} />
-                    ) : (
-                      <Chip label="Mapped" size="small" color="success" icon={<IconCheck size={16} />} />
-                    )}
-                    
-                    {mapping[header] && getFieldDescription(mapping[header]) && (
-                      <Tooltip title={getFieldDescription(mapping[header])}>
-                        <IconInfoCircle size={16} color="gray" />
-                      </Tooltip>
+                  </TableCell>
+                  <TableCell>
+                    <FormControl size="small" fullWidth>
+                      <Select
+                        value={mapping[header] || ''}
+                        onChange={(e) => handleMappingChange(header, e.target.value)}
+                        displayEmpty
+                        error={isDuplicate(header, mapping[header])}
+                      >
+                        <MenuItem value="">Skip this column</MenuItem>
+                        <ListSubheader>Product</ListSubheader>
+                        {PRODUCT_FIELDS.map((productField) => renderFieldOption(header, productField))}
+                        <ListSubheader>Variant</ListSubheader>
+                        {VARIANT_FIELDS.map((variantField) => renderFieldOption(header, variantField))}
+                      </Select>
+                    </FormControl>
+                  </TableCell>
+                  <TableCell>
+                    {field && (
+                      <FormControl size="small" fullWidth>
+                        <Select
+                          value={transforms[header] || field.transform}
+                          onChange={(e) => handleTransformChange(header, e.target.value as ImportValueTransform)}
+                        >
+                          {(Object.keys(TRANSFORM_LABELS) as ImportValueTransform[]).map((transform) => (
+                            <MenuItem key={transform} value={transform}>
+                              {TRANSFORM_LABELS[transform]}
+                            </MenuItem>
+                          ))}
+                        </Select>
+                      </FormControl>
                     )}
-                  </Box>
-                </TableCell>
-              </TableRow>
-            ))}
+                  </TableCell>
+                  <TableCell>
+                    <Box display="flex" alignItems="center" gap={1}>
+                      {!field ? (
+                        <Chip label="Skipped" size="small" color="default" />
+                      ) : isDuplicate(header, mapping[header]) ? (
+                        <Chip label="Duplicate" size="small" color="error" icon={<IconX size={16} />} />
+                      ) : (
+                        <Chip label="Mapped" size="small" color="success" icon={<IconCheck size={16} />} />
+                      )}
+
+                      {field && field.aliases.length > 0 && (
+                        <Tooltip title={`Also matches: ${field.aliases.join(', ')}`}>
+                          <IconInfoCircle size={16} color="gray" />
+                        </Tooltip>
+                      )}
+                    </Box>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
           </TableBody>
         </Table>
       </TableContainer>
@@ -335,7 +414,7 @@ const FieldMappingTable: React.FC<FieldMappingTableProps> = ({
         <Box display="flex" gap={2} flexWrap="wrap">
           <Box>
             <Typography variant="body2" color="text.secondary">
-              Required Fields: {getMappedRequiredFields().length}/{getRequiredFields().length}
+              Required Fields: {getRequiredFields().length - getMissingRequiredFields().length}/{getRequiredFields().length}
             </Typography>
           </Box>
           <Box>
@@ -351,6 +430,49 @@ const FieldMappingTable: React.FC<FieldMappingTableProps> = ({
         </Box>
       </Box>
 
+      {/* Save as Profile */}
+      <Box mt={3}>
+        <Typography variant="h6" gutterBottom>
+          Save Mapping for This Supplier
+        </Typography>
+        {profileMessage && (
+          <Alert severity={profileMessage.severity} sx={{ mb: 2 }}>
+            {profileMessage.text}
+          </Alert>
+        )}
+        <Box display="flex" gap={2} flexWrap="wrap">
+          <TextField
+            label="Profile Name"
+            size="small"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+          />
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Supplier</InputLabel>
+            <Select
+              value={profileVendorId}
+              label="Supplier"
+              onChange={(e) => setProfileVendorId(e.target.value)}
+            >
+              <MenuItem value="">No supplier</MenuItem>
+              {vendors.map((vendor) => (
+                <MenuItem key={vendor._id} value={vendor._id}>
+                  {vendor.name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="outlined"
+            startIcon={<IconDeviceFloppy />}
+            disabled={!profileName.trim() || getUsedFields().length === 0}
+            onClick={handleSaveProfile}
+          >
+            Save Profile
+          </Button>
+        </Box>
+      </Box>
+
       {/* Proceed Button */}
       <Box mt={3}>
         <Button
@@ -359,7 +481,7 @@ const FieldMappingTable: React.FC<FieldMappingTableProps> = ({
           onClick={onProceed}
           size="large"
         >
-          Proceed to Validation
+          Preview Import
         </Button>
       </Box>
     </Box>
@@ -0,0 +1,148 @@
+'use client';
+
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Grid,
+  Card,
+  CardContent,
+  Chip,
+  Alert,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Paper,
+} from '@mui/material';
+
+export interface DryRunRowPreview {
+  row: number;
+  action: 'create' | 'update' | 'skip' | 'error';
+  kind: 'product' | 'variant';
+  sku?: string;
+  title?: string;
+  values: Record<string, any>;
+  errors: string[];
+}
+
+export interface DryRunResult {
+  totalRows: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  preview?: DryRunRowPreview[];
+}
+
+interface ImportDryRunPreviewProps {
+  result: DryRunResult;
+}
+
+const ACTION_COLORS: Record<DryRunRowPreview['action'], 'success' | 'info' | 'default' | 'error'> = {
+  create: 'success',
+  update: 'info',
+  skip: 'default',
+  error: 'error',
+};
+
+const formatValue = (value: any): string => {
+  if (Array.isArray(value)) {
+    return value.map(item => (typeof item === 'object' ? `${item.name}: ${item.value}` : item)).join(', ');
+  }
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const ImportDryRunPreview: React.FC<ImportDryRunPreviewProps> = ({ result }) => {
+  const preview = result.preview || [];
+
+  const summary = [
+    { label: 'Will Create', value: result.created, color: 'success.main' },
+    { label: 'Will Update', value: result.updated, color: 'info.main' },
+    { label: 'Skipped', value: result.skipped, color: 'text.secondary' },
+    { label: 'Errors', value: result.failed, color: 'error.main' },
+  ];
+
+  return (
+    <Box>
+      <Grid container spacing={2} mb={3}>
+        {summary.map((item) => (
+          <Grid item xs={6} md={3} key={item.label}>
+            <Card variant="outlined">
+              <CardContent>
+                <Typography variant="h4" color={item.color}>
+                  {item.value}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {item.label}
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      {preview.length < result.totalRows && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Showing the first {preview.length} of {result.totalRows} rows. Totals cover the whole file.
+        </Alert>
+      )}
+
+      <TableContainer component={Paper} sx={{ maxHeight: 480 }}>
+        <Table stickyHeader size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Row</TableCell>
+              <TableCell>Action</TableCell>
+              <TableCell>SKU</TableCell>
+              <TableCell>Title</TableCell>
+              <TableCell>Imported Values</TableCell>
+              <TableCell>Messages</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {preview.map((row) => (
+              <TableRow key={row.row}>
+                <TableCell>{row.row}</TableCell>
+                <TableCell>
+                  <Box display="flex" gap={0.5} flexWrap="wrap">
+                    <Chip label={row.action} size="small" color={ACTION_COLORS[row.action]} />
+                    {row.kind === 'variant' && <Chip label="variant" size="small" variant="outlined" />}
+                  </Box>
+                </TableCell>
+                <TableCell>{row.sku || '—'}</TableCell>
+                <TableCell>{row.title || '—'}</TableCell>
+                <TableCell>
+                  <Box sx={{ maxWidth: 360 }}>
+                    {Object.entries(row.values).map(([field, value]) => (
+                      <Typography key={field} variant="caption" display="block" noWrap>
+                        <strong>{field}:</strong> {formatValue(value)}
+                      </Typography>
+                    ))}
+                  </Box>
+                </TableCell>
+                <TableCell>
+                  {row.errors.map((message, index) => (
+                    <Typography
+                      key={index}
+                      variant="caption"
+                      display="block"
+                      color={row.action === 'error' ? 'error' : 'text.secondary'}
+                    >
+                      {message}
+                    </Typography>
+                  ))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+};
+
+export default ImportDryRunPreview;
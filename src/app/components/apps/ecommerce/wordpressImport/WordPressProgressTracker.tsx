@@ -41,7 +41,8 @@ import {
   IconRefresh,
   IconInfoCircle,
   IconTrendingUp,
-  IconExternalLink
+  IconExternalLink,
+  IconArrowBackUp
 } from '@tabler/icons-react';
 
 interface Connection {
@@ -85,6 +86,8 @@ const WordPressProgressTracker: React.FC<WordPressProgressTrackerProps> = ({
   const [showErrorDetails, setShowErrorDetails] = useState(false);
   const [errorDialogOpen, setErrorDialogOpen] = useState(false);
   const [selectedError, setSelectedError] = useState<any>(null);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [rollbackMessage, setRollbackMessage] = useState<{ severity: 'info' | 'warning' | 'error'; text: string } | null>(null);
 
   if (!job) {
     return (
@@ -94,6 +97,30 @@ const WordPressProgressTracker: React.FC<WordPressProgressTrackerProps> = ({
     );
   }
 
+  const handleRollback = async () => {
+    if (!window.confirm('Undo this import? Imported products are deleted and updated products are restored.')) return;
+
+    setRollingBack(true);
+    try {
+      const response = await fetch(`/api/products/wordpress/import/${job.jobId}/rollback`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to undo import');
+      }
+
+      const { deleted, restored, failures } = result.data;
+      setRollbackMessage({
+        severity: failures.length > 0 ? 'warning' : 'info',
+        text: `Import undone: ${deleted} deleted, ${restored} restored.${failures.length > 0 ? ` ${failures.join('; ')}` : ''}`
+      });
+    } catch (error) {
+      setRollbackMessage({ severity: 'error', text: error instanceof Error ? error.message : 'Failed to undo import' });
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
   const getProgressPercentage = () => {
     if (job.progress.total === 0) return 0;
     return Math.round((job.progress.processed / job.progress.total) * 100);
@@ -454,7 +481,21 @@ const WordPressProgressTracker: React.FC<WordPressProgressTrackerProps> = ({
                       View Source Store
                     </Button>
                   )}
+                  <Button
+                    variant="outlined"
+                    color="error"
+                    startIcon={<IconArrowBackUp />}
+                    onClick={handleRollback}
+                    disabled={rollingBack || (!!rollbackMessage && rollbackMessage.severity !== 'error')}
+                  >
+                    {rollingBack ? 'Undoing...' : 'Undo Import'}
+                  </Button>
                 </Box>
+                {rollbackMessage && (
+                  <Alert severity={rollbackMessage.severity} sx={{ mt: 2 }}>
+                    {rollbackMessage.text}
+                  </Alert>
+                )}
               </CardContent>
             </Card>
           )}
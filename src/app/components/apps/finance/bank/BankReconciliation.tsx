@@ -0,0 +1,626 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  IconButton,
+  Tooltip,
+  Card,
+  CardContent,
+  Chip,
+  TextField,
+  MenuItem,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Alert,
+  CircularProgress,
+  Stack,
+  Grid,
+  List,
+  ListItemButton,
+  ListItemText
+} from '@mui/material';
+import {
+  IconUpload,
+  IconRefresh,
+  IconLink,
+  IconPlus,
+  IconEyeOff,
+  IconArrowBackUp,
+  IconTrash
+} from '@tabler/icons-react';
+
+import DashboardCard from '@/app/components/shared/DashboardCard';
+import { useToast } from '@/app/components/shared/ToastContext';
+
+type LineStatus = 'unmatched' | 'matched' | 'created' | 'ignored';
+
+interface StatementData {
+  _id: string;
+  accountName: string;
+  fileName: string;
+  format: string;
+  periodStart?: string;
+  periodEnd?: string;
+  lineCount: number;
+  duplicateCount: number;
+  createdAt: string;
+}
+
+interface RecordData {
+  type: 'income' | 'expense' | 'invoice_payment';
+  recordId: string;
+  invoiceId?: string;
+  description: string;
+  amount: number;
+  date: string;
+}
+
+interface LineData {
+  _id: string;
+  date: string;
+  amount: number;
+  description: string;
+  reference?: string;
+  status: LineStatus;
+  match?: RecordData & { score: number; auto: boolean };
+  suggestion?: { type: 'income' | 'expense'; categoryId?: string; vendorId?: string };
+}
+
+interface ReconciliationData {
+  totals: { moneyIn: number; moneyOut: number; net: number };
+  lineCounts: Record<LineStatus, number>;
+  unmatchedRecords: RecordData[];
+  isReconciled: boolean;
+}
+
+interface CategoryOption {
+  _id: string;
+  name: string;
+}
+
+const STATUS_COLORS: Record<LineStatus, 'default' | 'success' | 'info' | 'warning'> = {
+  unmatched: 'warning',
+  matched: 'success',
+  created: 'info',
+  ignored: 'default'
+};
+
+const RECORD_LABELS: Record<RecordData['type'], string> = {
+  income: 'Income',
+  expense: 'Expense',
+  invoice_payment: 'Invoice payment'
+};
+
+const BankReconciliation: React.FC = () => {
+  const { showToast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [statements, setStatements] = useState<StatementData[]>([]);
+  const [accounts, setAccounts] = useState<string[]>([]);
+  const [accountName, setAccountName] = useState('');
+  const [month, setMonth] = useState(new Date().toISOString().slice(0, 7));
+  const [dateOrder, setDateOrder] = useState<'DMY' | 'MDY'>('DMY');
+  const [selectedStatementId, setSelectedStatementId] = useState('');
+  const [lines, setLines] = useState<LineData[]>([]);
+  const [reconciliation, setReconciliation] = useState<ReconciliationData | null>(null);
+  const [categories, setCategories] = useState<{ income: CategoryOption[]; expense: CategoryOption[] }>({ income: [], expense: [] });
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [matchingLine, setMatchingLine] = useState<LineData | null>(null);
+  const [creatingLine, setCreatingLine] = useState<LineData | null>(null);
+  const [createCategoryId, setCreateCategoryId] = useState('');
+
+  const loadStatements = useCallback(async () => {
+    try {
+      const response = await fetch('/api/finance/bank-statements', { credentials: 'include' });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to fetch bank statements');
+      }
+      setStatements(data.data.statements);
+      setAccounts(data.data.accounts);
+      setSelectedStatementId(current => current || data.data.statements[0]?._id || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch bank statements');
+    }
+  }, []);
+
+  const loadLines = useCallback(async () => {
+    if (!selectedStatementId) {
+      setLines([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/finance/bank-statements/${selectedStatementId}`, { credentials: 'include' });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to fetch statement lines');
+      }
+      setLines(data.data.lines);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch statement lines');
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedStatementId]);
+
+  const loadReconciliation = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ month, ...(accountName && { accountName }) });
+      const response = await fetch(`/api/finance/bank-statements/reconciliation?${params}`, { credentials: 'include' });
+      const data = await response.json();
+      if (data.success) {
+        setReconciliation(data.data);
+      }
+    } catch (err) {
+      console.error('Error fetching reconciliation summary:', err);
+    }
+  }, [month, accountName]);
+
+  useEffect(() => {
+    loadStatements();
+
+    Promise.all([
+      fetch('/api/finance/categories/income', { credentials: 'include' }).then(response => response.json()),
+      fetch('/api/finance/categories/expense', { credentials: 'include' }).then(response => response.json())
+    ]).then(([income, expense]) => {
+      setCategories({
+        income: income.data?.categories || [],
+        expense: expense.data?.categories || []
+      });
+    }).catch(err => console.error('Error fetching categories:', err));
+  }, [loadStatements]);
+
+  useEffect(() => {
+    loadLines();
+  }, [loadLines]);
+
+  useEffect(() => {
+    loadReconciliation();
+  }, [loadReconciliation]);
+
+  const refresh = () => {
+    loadLines();
+    loadReconciliation();
+  };
+
+  const handleFileSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!accountName.trim()) {
+      setError('Enter the bank account name before importing a statement');
+      return;
+    }
+
+    try {
+      setUploading(true);
+      setError(null);
+
+      const response = await fetch('/api/finance/bank-statements', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fileName: file.name,
+          content: await file.text(),
+          accountName: accountName.trim(),
+          dateOrder
+        })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to import bank statement');
+      }
+
+      showToast({ message: data.message, severity: 'success' });
+      setSelectedStatementId(data.data.statement._id);
+      await loadStatements();
+      loadReconciliation();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import bank statement');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const updateLine = async (lineId: string, body: Record<string, unknown>) => {
+    try {
+      const response = await fetch(`/api/finance/bank-statements/lines/${lineId}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to update line');
+      }
+      refresh();
+      return true;
+    } catch (err) {
+      showToast({
+        message: err instanceof Error ? err.message : 'Failed to update line',
+        severity: 'error'
+      });
+      return false;
+    }
+  };
+
+  const handleRematch = async () => {
+    if (!selectedStatementId) return;
+
+    const response = await fetch(`/api/finance/bank-statements/${selectedStatementId}/match`, {
+      method: 'POST',
+      credentials: 'include'
+    });
+    const data = await response.json();
+    showToast({
+      message: data.success ? data.message : data.error?.message || 'Failed to match statement',
+      severity: data.success ? 'success' : 'error'
+    });
+    refresh();
+  };
+
+  const handleDeleteStatement = async () => {
+    if (!selectedStatementId) return;
+    if (!window.confirm('Delete this statement and its lines? Income and expenses created from it are kept.')) return;
+
+    const response = await fetch(`/api/finance/bank-statements/${selectedStatementId}`, {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+    const data = await response.json();
+    if (!data.success) {
+      setError(data.error?.message || 'Failed to delete bank statement');
+      return;
+    }
+
+    setSelectedStatementId('');
+    await loadStatements();
+    loadReconciliation();
+  };
+
+  const handleCreate = async () => {
+    if (!creatingLine) return;
+
+    const created = await updateLine(creatingLine._id, {
+      action: 'create',
+      categoryId: createCategoryId || undefined
+    });
+    if (created) {
+      setCreatingLine(null);
+    }
+  };
+
+  const handleMatch = async (record: RecordData) => {
+    if (!matchingLine) return;
+
+    const matched = await updateLine(matchingLine._id, {
+      action: 'match',
+      type: record.type,
+      recordId: record.recordId,
+      invoiceId: record.invoiceId
+    });
+    if (matched) {
+      setMatchingLine(null);
+    }
+  };
+
+  const openCreateDialog = (line: LineData) => {
+    setCreatingLine(line);
+    setCreateCategoryId(line.suggestion?.categoryId || '');
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  const matchOptions = matchingLine && reconciliation
+    ? reconciliation.unmatchedRecords.filter(record =>
+      (record.type === 'expense') === (matchingLine.amount < 0))
+    : [];
+  const createCategories = creatingLine ? categories[creatingLine.amount > 0 ? 'income' : 'expense'] : [];
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Card sx={{ mb: 3 }}>
+        <CardContent>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }}>
+            <TextField
+              label="Bank account"
+              size="small"
+              value={accountName}
+              onChange={(event) => setAccountName(event.target.value)}
+              inputProps={{ list: 'bank-accounts' }}
+              helperText="Statements and reconciliation are kept per account"
+            />
+            <datalist id="bank-accounts">
+              {accounts.map(account => <option key={account} value={account} />)}
+            </datalist>
+            <TextField
+              label="Month"
+              type="month"
+              size="small"
+              value={month}
+              onChange={(event) => setMonth(event.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+            <TextField
+              select
+              label="Date format"
+              size="small"
+              value={dateOrder}
+              onChange={(event) => setDateOrder(event.target.value as 'DMY' | 'MDY')}
+              helperText="Used when a date like 03/04 is ambiguous"
+            >
+              <MenuItem value="DMY">Day / Month / Year</MenuItem>
+              <MenuItem value="MDY">Month / Day / Year</MenuItem>
+            </TextField>
+            <Box flexGrow={1} />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.ofx,.qfx,.qif"
+              hidden
+              onChange={handleFileSelected}
+            />
+            <Button
+              variant="contained"
+              startIcon={uploading ? <CircularProgress size={16} color="inherit" /> : <IconUpload size={18} />}
+              disabled={uploading}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              Import Statement
+            </Button>
+          </Stack>
+        </CardContent>
+      </Card>
+
+      {reconciliation && (
+        <Grid container spacing={3} sx={{ mb: 3 }}>
+          <Grid item xs={12} sm={4}>
+            <Card>
+              <CardContent>
+                <Typography variant="subtitle2" color="textSecondary">Money in</Typography>
+                <Typography variant="h4" color="success.main">{formatCurrency(reconciliation.totals.moneyIn)}</Typography>
+                <Typography variant="body2" color="textSecondary">
+                  Money out: {formatCurrency(reconciliation.totals.moneyOut)}
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Card>
+              <CardContent>
+                <Typography variant="subtitle2" color="textSecondary">Statement lines</Typography>
+                <Typography variant="h4">
+                  {reconciliation.lineCounts.matched + reconciliation.lineCounts.created} reconciled
+                </Typography>
+                <Typography variant="body2" color="textSecondary">
+                  {reconciliation.lineCounts.unmatched} unmatched, {reconciliation.lineCounts.ignored} ignored
+                </Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+          <Grid item xs={12} sm={4}>
+            <Card>
+              <CardContent>
+                <Typography variant="subtitle2" color="textSecondary">Book records without a bank line</Typography>
+                <Typography variant="h4">{reconciliation.unmatchedRecords.length}</Typography>
+                <Chip
+                  size="small"
+                  label={reconciliation.isReconciled ? 'Month reconciled' : 'Not reconciled'}
+                  color={reconciliation.isReconciled ? 'success' : 'warning'}
+                />
+              </CardContent>
+            </Card>
+          </Grid>
+        </Grid>
+      )}
+
+      <DashboardCard
+        title="Statement Lines"
+        action={
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField
+              select
+              size="small"
+              label="Statement"
+              value={selectedStatementId}
+              onChange={(event) => setSelectedStatementId(event.target.value)}
+              sx={{ minWidth: 260 }}
+            >
+              {statements.map(statement => (
+                <MenuItem key={statement._id} value={statement._id}>
+                  {statement.accountName} - {statement.fileName}
+                </MenuItem>
+              ))}
+            </TextField>
+            <Tooltip title="Match again">
+              <span>
+                <IconButton onClick={handleRematch} disabled={!selectedStatementId}>
+                  <IconRefresh size={18} />
+                </IconButton>
+              </span>
+            </Tooltip>
+            <Tooltip title="Delete statement">
+              <span>
+                <IconButton color="error" onClick={handleDeleteStatement} disabled={!selectedStatementId}>
+                  <IconTrash size={18} />
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Stack>
+        }
+      >
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={4}>
+            <CircularProgress />
+          </Box>
+        ) : lines.length === 0 ? (
+          <Typography color="textSecondary" sx={{ p: 2 }}>
+            Import a bank statement to start reconciling.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Description</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Matched to</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {lines.map(line => (
+                  <TableRow key={line._id} hover>
+                    <TableCell>{formatDate(line.date)}</TableCell>
+                    <TableCell>
+                      <Typography variant="body2">{line.description}</Typography>
+                      {line.reference && (
+                        <Typography variant="caption" color="textSecondary">{line.reference}</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Typography variant="body2" color={line.amount > 0 ? 'success.main' : 'error.main'}>
+                        {formatCurrency(line.amount)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>
+                      <Chip size="small" label={line.status} color={STATUS_COLORS[line.status]} />
+                    </TableCell>
+                    <TableCell>
+                      {line.match && (
+                        <Typography variant="body2">
+                          {RECORD_LABELS[line.match.type]}: {line.match.description}
+                          {line.match.auto && ` (${Math.round(line.match.score * 100)}%)`}
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right">
+                      {line.status === 'unmatched' ? (
+                        <>
+                          <Tooltip title="Match to a record">
+                            <IconButton size="small" onClick={() => setMatchingLine(line)}>
+                              <IconLink size={18} />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title={line.amount > 0 ? 'Record as income' : 'Record as expense'}>
+                            <IconButton size="small" onClick={() => openCreateDialog(line)}>
+                              <IconPlus size={18} />
+                            </IconButton>
+                          </Tooltip>
+                          <Tooltip title="Ignore">
+                            <IconButton size="small" onClick={() => updateLine(line._id, { action: 'ignore' })}>
+                              <IconEyeOff size={18} />
+                            </IconButton>
+                          </Tooltip>
+                        </>
+                      ) : (
+                        <Tooltip title="Reset to unmatched">
+                          <IconButton size="small" onClick={() => updateLine(line._id, { action: 'reset' })}>
+                            <IconArrowBackUp size={18} />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DashboardCard>
+
+      {/* Manual match dialog */}
+      <Dialog open={Boolean(matchingLine)} onClose={() => setMatchingLine(null)} fullWidth maxWidth="sm">
+        <DialogTitle>Match {matchingLine && formatCurrency(matchingLine.amount)}</DialogTitle>
+        <DialogContent>
+          {matchOptions.length === 0 ? (
+            <Typography color="textSecondary">
+              No unmatched records for this month. Change the month above to see other records.
+            </Typography>
+          ) : (
+            <List dense>
+              {matchOptions.map(record => (
+                <ListItemButton key={record.recordId} onClick={() => handleMatch(record)}>
+                  <ListItemText
+                    primary={`${formatCurrency(record.amount)} - ${record.description}`}
+                    secondary={`${RECORD_LABELS[record.type]}, ${formatDate(record.date)}`}
+                  />
+                </ListItemButton>
+              ))}
+            </List>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setMatchingLine(null)}>Cancel</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Create record dialog */}
+      <Dialog open={Boolean(creatingLine)} onClose={() => setCreatingLine(null)} fullWidth maxWidth="xs">
+        <DialogTitle>
+          {creatingLine && (creatingLine.amount > 0 ? 'Record as income' : 'Record as expense')}
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            {creatingLine?.description}
+          </Typography>
+          <TextField
+            select
+            fullWidth
+            label="Category"
+            value={createCategoryId}
+            onChange={(event) => setCreateCategoryId(event.target.value)}
+            helperText={creatingLine?.suggestion?.categoryId ? 'Suggested from similar records' : undefined}
+          >
+            {createCategories.map(category => (
+              <MenuItem key={category._id} value={category._id}>{category.name}</MenuItem>
+            ))}
+          </TextField>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setCreatingLine(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleCreate}>Create</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default BankReconciliation;
@@ -0,0 +1 @@
+export { default as BankReconciliation } from './BankReconciliation';
\ No newline at end of file
@@ -0,0 +1,308 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Typography,
+  Stack,
+  Button,
+  IconButton,
+  Tooltip,
+  Chip,
+  LinearProgress,
+  TextField,
+  MenuItem,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Alert,
+  CircularProgress
+} from '@mui/material';
+import { IconPlus, IconEdit, IconTrash } from '@tabler/icons-react';
+
+type BudgetPeriod = 'monthly' | 'quarterly';
+
+interface BudgetStatus {
+  budgetId: string;
+  categoryId: string;
+  categoryName: string;
+  period: BudgetPeriod;
+  periodLabel: string;
+  budgeted: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  thresholds: number[];
+  crossedThreshold: number | null;
+  isActive: boolean;
+}
+
+interface CategoryOption {
+  _id: string;
+  name: string;
+}
+
+interface BudgetFormData {
+  categoryId: string;
+  period: BudgetPeriod;
+  amount: string;
+  thresholds: string; // Comma separated percentages
+}
+
+const emptyBudget: BudgetFormData = { categoryId: '', period: 'monthly', amount: '', thresholds: '80, 100' };
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD'
+  }).format(amount);
+};
+
+const getProgressColor = (budget: BudgetStatus): 'success' | 'warning' | 'error' => {
+  if (budget.percentUsed >= 100) return 'error';
+  return budget.crossedThreshold !== null ? 'warning' : 'success';
+};
+
+/**
+ * Budget versus actual spending per expense category for the current month or quarter
+ */
+const BudgetOverview: React.FC = () => {
+  const [budgets, setBudgets] = useState<BudgetStatus[]>([]);
+  const [categories, setCategories] = useState<CategoryOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<BudgetFormData | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadBudgets = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/finance/budgets', { credentials: 'include' });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to fetch budgets');
+      }
+      setBudgets(data.data.budgets);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch budgets');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [loadBudgets]);
+
+  useEffect(() => {
+    fetch('/api/finance/categories/expense', { credentials: 'include' })
+      .then(response => response.json())
+      .then(data => setCategories(data.data?.categories || []))
+      .catch(err => console.error('Error fetching expense categories:', err));
+  }, []);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setFormError(null);
+    setForm(emptyBudget);
+  };
+
+  const openEdit = (budget: BudgetStatus) => {
+    setEditingId(budget.budgetId);
+    setFormError(null);
+    setForm({
+      categoryId: budget.categoryId,
+      period: budget.period,
+      amount: String(budget.budgeted),
+      thresholds: budget.thresholds.join(', ')
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    try {
+      setSaving(true);
+      setFormError(null);
+      const response = await fetch(
+        editingId ? `/api/finance/budgets/${editingId}` : '/api/finance/budgets',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify({
+            categoryId: form.categoryId,
+            period: form.period,
+            amount: form.amount,
+            thresholds: form.thresholds.split(',').map(value => value.trim()).filter(Boolean)
+          })
+        }
+      );
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to save budget');
+      }
+
+      setForm(null);
+      loadBudgets();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to save budget');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (budget: BudgetStatus) => {
+    if (!window.confirm(`Delete the ${budget.period} budget for ${budget.categoryName}?`)) return;
+
+    const response = await fetch(`/api/finance/budgets/${budget.budgetId}`, {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+    const data = await response.json();
+    if (!data.success) {
+      setError(data.error?.message || 'Failed to delete budget');
+      return;
+    }
+    loadBudgets();
+  };
+
+  return (
+    <Card sx={{ height: '100%' }}>
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+          <Box>
+            <Typography variant="h6">Budgets</Typography>
+            <Typography variant="body2" color="text.secondary">
+              Spending against each category budget this period
+            </Typography>
+          </Box>
+          <Button size="small" startIcon={<IconPlus size={16} />} onClick={openCreate}>
+            Add Budget
+          </Button>
+        </Stack>
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        {loading ? (
+          <CircularProgress />
+        ) : budgets.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No budgets yet. Add one to get alerts before a category overspends.
+          </Typography>
+        ) : (
+          <Stack spacing={2.5}>
+            {budgets.map((budget) => (
+              <Box key={budget.budgetId} sx={{ opacity: budget.isActive ? 1 : 0.6 }}>
+                <Stack direction="row" justifyContent="space-between" alignItems="center">
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Typography variant="subtitle2">{budget.categoryName}</Typography>
+                    <Chip label={budget.periodLabel} size="small" variant="outlined" />
+                    {!budget.isActive && <Chip label="Paused" size="small" />}
+                  </Stack>
+                  <Stack direction="row" alignItems="center">
+                    <Typography variant="body2" sx={{ fontWeight: 600, mr: 1 }}>
+                      {formatCurrency(budget.spent)} / {formatCurrency(budget.budgeted)}
+                    </Typography>
+                    <Tooltip title="Edit">
+                      <IconButton size="small" onClick={() => openEdit(budget)}>
+                        <IconEdit size={16} />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" color="error" onClick={() => handleDelete(budget)}>
+                        <IconTrash size={16} />
+                      </IconButton>
+                    </Tooltip>
+                  </Stack>
+                </Stack>
+                <LinearProgress
+                  variant="determinate"
+                  value={Math.min(budget.percentUsed, 100)}
+                  color={getProgressColor(budget)}
+                  sx={{ height: 8, borderRadius: 4, my: 0.5 }}
+                />
+                <Typography variant="caption" color={budget.remaining < 0 ? 'error.main' : 'text.secondary'}>
+                  {budget.percentUsed}% used •{' '}
+                  {budget.remaining < 0
+                    ? `${formatCurrency(-budget.remaining)} over budget`
+                    : `${formatCurrency(budget.remaining)} left`}
+                </Typography>
+              </Box>
+            ))}
+          </Stack>
+        )}
+      </CardContent>
+
+      <Dialog open={Boolean(form)} onClose={() => setForm(null)} fullWidth maxWidth="xs">
+        <DialogTitle>{editingId ? 'Edit Budget' : 'Add Budget'}</DialogTitle>
+        {form && (
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              {formError && <Alert severity="error">{formError}</Alert>}
+              <TextField
+                select
+                label="Category"
+                value={form.categoryId}
+                onChange={(e) => setForm({ ...form, categoryId: e.target.value })}
+                disabled={Boolean(editingId)}
+                fullWidth
+              >
+                {categories.map((category) => (
+                  <MenuItem key={category._id} value={category._id}>{category.name}</MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                select
+                label="Period"
+                value={form.period}
+                onChange={(e) => setForm({ ...form, period: e.target.value as BudgetPeriod })}
+                disabled={Boolean(editingId)}
+                fullWidth
+              >
+                <MenuItem value="monthly">Monthly</MenuItem>
+                <MenuItem value="quarterly">Quarterly</MenuItem>
+              </TextField>
+              <TextField
+                label="Amount"
+                type="number"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                inputProps={{ min: 0, step: '0.01' }}
+                fullWidth
+              />
+              <TextField
+                label="Alert thresholds (%)"
+                value={form.thresholds}
+                onChange={(e) => setForm({ ...form, thresholds: e.target.value })}
+                helperText="Comma separated, e.g. 80, 100"
+                fullWidth
+              />
+            </Stack>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setForm(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={saving || !form?.categoryId || !form?.amount}
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default BudgetOverview;
@@ -36,6 +36,7 @@ import { FinancialCalculator } from '@/lib/services/FinancialCalculator';
 
 import FinancialSummaryCard from './FinancialSummaryCard';
 import FinancialChart from './FinancialChart';
+import BudgetOverview from './BudgetOverview';
 
 interface DashboardData {
   summary: {
@@ -283,6 +284,13 @@ const FinanceDashboard: React.FC = () => {
         </Grid>
       </Grid>
 
+      {/* Budgets Row */}
+      <Grid container spacing={3} sx={{ mb: 3 }}>
+        <Grid item xs={12}>
+          <BudgetOverview />
+        </Grid>
+      </Grid>
+
       {/* Bottom Row */}
       <Grid container spacing={3}>
         {/* Recent Transactions */}
@@ -1,3 +1,4 @@
 export { default as FinanceDashboard } from './FinanceDashboard';
 export { default as FinancialSummaryCard } from './FinancialSummaryCard';
-export { default as FinancialChart } from './FinancialChart';
\ No newline at end of file
+export { default as FinancialChart } from './FinancialChart';
+export { default as BudgetOverview } from './BudgetOverview';
\ No newline at end of file
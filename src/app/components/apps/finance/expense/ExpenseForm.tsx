@@ -183,6 +183,37 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ expense, onSuccess, onCancel
     }
   };
 
+  // Pre-fill the category from the user's categorization rules
+  const suggestFromRules = async () => {
+    if (expense || formData.categoryId || formData.description.trim().length < 3) return;
+
+    try {
+      const response = await fetch('/api/finance/categorization-rules/suggest', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          type: 'expense',
+          description: formData.description,
+          amount: formData.amount,
+          vendorId: formData.vendorId || undefined
+        }),
+      });
+      const data = await response.json();
+      if (!data.success) return;
+
+      setFormData(prev => ({
+        ...prev,
+        categoryId: prev.categoryId || data.data.categoryId || '',
+        vendorId: prev.vendorId || data.data.vendorId || ''
+      }));
+    } catch (err) {
+      console.error('Error fetching category suggestion:', err);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -313,6 +344,7 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ expense, onSuccess, onCancel
               rows={3}
               value={formData.description}
               onChange={(e) => handleInputChange('description', e.target.value)}
+              onBlur={suggestFromRules}
               error={!!errors.description}
               helperText={errors.description || `${formData.description.length}/255 characters`}
               inputProps={{ maxLength: 255 }}
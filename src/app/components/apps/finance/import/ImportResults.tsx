@@ -32,12 +32,18 @@ import {
   IconTrendingUp,
   IconFileText,
   IconRefresh,
-  IconCalendar
+  IconCalendar,
+  IconArrowBackUp
 } from '@tabler/icons-react';
 
+interface ImportRollback {
+  deleted: number;
+  failures: string[];
+}
+
 interface ImportJob {
   jobId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'rolled_back';
   totalRows: number;
   processedRows: number;
   successfulRows: number;
@@ -73,6 +79,9 @@ interface ImportResultsProps {
 
 const ImportResults: React.FC<ImportResultsProps> = ({ job, type }) => {
   const [downloadingReport, setDownloadingReport] = useState(false);
+  const [rollingBack, setRollingBack] = useState(false);
+  const [rollback, setRollback] = useState<ImportRollback | null>(null);
+  const [rollbackError, setRollbackError] = useState<string | null>(null);
 
   const getSuccessRate = () => {
     if (job.totalRows === 0) return 0;
@@ -148,6 +157,30 @@ const ImportResults: React.FC<ImportResultsProps> = ({ job, type }) => {
     }
   };
 
+  const handleRollback = async () => {
+    if (!window.confirm(`Delete all ${type} records created by this import? This cannot be undone.`)) {
+      return;
+    }
+
+    setRollingBack(true);
+    setRollbackError(null);
+
+    try {
+      const response = await fetch(`/api/finance/import/${job.jobId}/rollback`, { method: 'POST' });
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error?.message || 'Failed to undo import');
+      }
+
+      setRollback(result.data);
+    } catch (error) {
+      setRollbackError(error instanceof Error ? error.message : 'Failed to undo import');
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
   const generateCSVReport = (data: any) => {
     const lines = [
       '=== IMPORT SUMMARY ===',
@@ -349,7 +382,35 @@ const ImportResults: React.FC<ImportResultsProps> = ({ job, type }) => {
             >
               {downloadingReport ? 'Generating...' : 'Download Report'}
             </Button>
+            <Button
+              variant="outlined"
+              color="error"
+              startIcon={rollingBack ? <CircularProgress size={16} /> : <IconArrowBackUp />}
+              onClick={handleRollback}
+              disabled={rollingBack || !!rollback || job.status !== 'completed' || job.successfulRows === 0}
+            >
+              {rollingBack ? 'Undoing...' : 'Undo Import'}
+            </Button>
           </Box>
+
+          {rollbackError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {rollbackError}
+            </Alert>
+          )}
+
+          {rollback && (
+            <Alert severity={rollback.failures.length > 0 ? 'warning' : 'info'} sx={{ mt: 2 }}>
+              <Typography variant="body2">
+                Import undone: {rollback.deleted} record(s) deleted.
+              </Typography>
+              {rollback.failures.map((failure, index) => (
+                <Typography key={index} variant="caption" display="block">
+                  {failure}
+                </Typography>
+              ))}
+            </Alert>
+          )}
         </CardContent>
       </Card>
 
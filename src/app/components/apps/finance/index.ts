@@ -17,4 +17,10 @@ export * from './categories';
 export * from './vendors';
 
 // Recurring payment components
-export * from './recurring';
\ No newline at end of file
+export * from './recurring';
+
+// Categorization rule components
+export * from './rules';
+
+// Bank reconciliation components
+export * from './bank';
\ No newline at end of file
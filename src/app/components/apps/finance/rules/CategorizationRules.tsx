@@ -0,0 +1,580 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  IconButton,
+  Tooltip,
+  Chip,
+  TextField,
+  MenuItem,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Alert,
+  CircularProgress,
+  Stack,
+  Grid,
+  Switch,
+  FormControlLabel,
+  ToggleButton,
+  ToggleButtonGroup
+} from '@mui/material';
+import {
+  IconEdit,
+  IconTrash,
+  IconPlus,
+  IconPlayerPlay
+} from '@tabler/icons-react';
+
+import DashboardCard from '@/app/components/shared/DashboardCard';
+import { useToast } from '@/app/components/shared/ToastContext';
+
+type RuleType = 'income' | 'expense';
+
+interface RuleData {
+  _id: string;
+  name: string;
+  type: RuleType;
+  conditions: {
+    descriptionContains?: string;
+    descriptionPattern?: string;
+    minAmount?: number;
+    maxAmount?: number;
+    vendorId?: string;
+  };
+  categoryId?: string;
+  vendorId?: string;
+  priority: number;
+  isActive: boolean;
+}
+
+interface Option {
+  _id: string;
+  name: string;
+}
+
+interface RerunChange {
+  recordId: string;
+  description: string;
+  amount: number;
+  date: string;
+  rules: string[];
+  categoryId?: { from: string | null; to: string };
+  vendorId?: { from: string | null; to: string };
+}
+
+const emptyRule = (type: RuleType) => ({
+  name: '',
+  type,
+  conditions: { descriptionContains: '', descriptionPattern: '', minAmount: '', maxAmount: '', vendorId: '' },
+  categoryId: '',
+  vendorId: '',
+  priority: 100,
+  isActive: true
+});
+
+type RuleFormData = ReturnType<typeof emptyRule>;
+
+const CategorizationRules: React.FC = () => {
+  const { showToast } = useToast();
+
+  const [type, setType] = useState<RuleType>('expense');
+  const [rules, setRules] = useState<RuleData[]>([]);
+  const [categories, setCategories] = useState<Record<RuleType, Option[]>>({ income: [], expense: [] });
+  const [vendors, setVendors] = useState<Option[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<RuleFormData | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const [rerunOpen, setRerunOpen] = useState(false);
+  const [onlyUncategorized, setOnlyUncategorized] = useState(true);
+  const [preview, setPreview] = useState<RerunChange[] | null>(null);
+  const [rerunning, setRerunning] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/finance/categorization-rules?type=${type}`, { credentials: 'include' });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to fetch rules');
+      }
+      setRules(data.data.rules);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch rules');
+    } finally {
+      setLoading(false);
+    }
+  }, [type]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  useEffect(() => {
+    Promise.all([
+      fetch('/api/finance/categories/income', { credentials: 'include' }).then(response => response.json()),
+      fetch('/api/finance/categories/expense', { credentials: 'include' }).then(response => response.json()),
+      fetch('/api/finance/vendors?limit=100', { credentials: 'include' }).then(response => response.json())
+    ]).then(([income, expense, vendorData]) => {
+      setCategories({
+        income: income.data?.categories || [],
+        expense: expense.data?.categories || []
+      });
+      setVendors(vendorData.data?.vendors || []);
+    }).catch(err => console.error('Error fetching categories and vendors:', err));
+  }, []);
+
+  const nameOf = (options: Option[], id?: string | null) =>
+    (id && options.find(option => option._id === id)?.name) || '—';
+
+  const describeConditions = (rule: RuleData) => {
+    const { descriptionContains, descriptionPattern, minAmount, maxAmount, vendorId } = rule.conditions || {};
+    const parts: string[] = [];
+    if (descriptionContains) parts.push(`contains "${descriptionContains}"`);
+    if (descriptionPattern) parts.push(`matches /${descriptionPattern}/`);
+    if (minAmount != null) parts.push(`amount ≥ ${minAmount}`);
+    if (maxAmount != null) parts.push(`amount ≤ ${maxAmount}`);
+    if (vendorId) parts.push(`vendor is ${nameOf(vendors, vendorId)}`);
+    return parts.join(', ');
+  };
+
+  const openForm = (rule?: RuleData) => {
+    setEditingId(rule?._id || null);
+    setForm(rule ? {
+      name: rule.name,
+      type: rule.type,
+      conditions: {
+        descriptionContains: rule.conditions.descriptionContains || '',
+        descriptionPattern: rule.conditions.descriptionPattern || '',
+        minAmount: rule.conditions.minAmount?.toString() || '',
+        maxAmount: rule.conditions.maxAmount?.toString() || '',
+        vendorId: rule.conditions.vendorId || ''
+      },
+      categoryId: rule.categoryId || '',
+      vendorId: rule.vendorId || '',
+      priority: rule.priority,
+      isActive: rule.isActive
+    } : emptyRule(type));
+  };
+
+  const updateCondition = (field: keyof RuleFormData['conditions'], value: string) => {
+    setForm(prev => prev && { ...prev, conditions: { ...prev.conditions, [field]: value } });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch(
+        editingId ? `/api/finance/categorization-rules/${editingId}` : '/api/finance/categorization-rules',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          credentials: 'include',
+          body: JSON.stringify(form)
+        }
+      );
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to save rule');
+      }
+
+      showToast({ message: data.message, severity: 'success' });
+      setForm(null);
+      loadRules();
+    } catch (err) {
+      showToast({
+        message: err instanceof Error ? err.message : 'Failed to save rule',
+        severity: 'error'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rule: RuleData) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Records it already categorized are not changed.`)) return;
+
+    const response = await fetch(`/api/finance/categorization-rules/${rule._id}`, {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+    const data = await response.json();
+    if (!data.success) {
+      setError(data.error?.message || 'Failed to delete rule');
+      return;
+    }
+    loadRules();
+  };
+
+  const handleToggle = async (rule: RuleData) => {
+    await fetch(`/api/finance/categorization-rules/${rule._id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ isActive: !rule.isActive })
+    });
+    loadRules();
+  };
+
+  const runRules = async (dryRun: boolean) => {
+    try {
+      setRerunning(true);
+      const response = await fetch('/api/finance/categorization-rules/apply', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ type, onlyUncategorized, dryRun })
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to run rules');
+      }
+
+      if (dryRun) {
+        setPreview(data.data.changes);
+      } else {
+        showToast({ message: data.message, severity: 'success' });
+        setRerunOpen(false);
+        setPreview(null);
+      }
+    } catch (err) {
+      showToast({
+        message: err instanceof Error ? err.message : 'Failed to run rules',
+        severity: 'error'
+      });
+    } finally {
+      setRerunning(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD'
+    }).format(amount);
+  };
+
+  const formCategories = form ? categories[form.type] : [];
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <DashboardCard
+        title="Categorization Rules"
+        subtitle="Rules run in priority order when records are created or imported; the first rule to set a field wins"
+        action={
+          <Stack direction="row" spacing={1}>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={type}
+              onChange={(_, value) => value && setType(value)}
+            >
+              <ToggleButton value="expense">Expenses</ToggleButton>
+              <ToggleButton value="income">Income</ToggleButton>
+            </ToggleButtonGroup>
+            <Button
+              variant="outlined"
+              startIcon={<IconPlayerPlay size={18} />}
+              onClick={() => {
+                setPreview(null);
+                setRerunOpen(true);
+              }}
+            >
+              Re-run Rules
+            </Button>
+            <Button variant="contained" startIcon={<IconPlus size={18} />} onClick={() => openForm()}>
+              Add Rule
+            </Button>
+          </Stack>
+        }
+      >
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={4}>
+            <CircularProgress />
+          </Box>
+        ) : rules.length === 0 ? (
+          <Typography color="textSecondary" sx={{ p: 2 }}>
+            No {type} rules yet. Add one to categorize matching records automatically.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Priority</TableCell>
+                  <TableCell>Name</TableCell>
+                  <TableCell>When</TableCell>
+                  <TableCell>Category</TableCell>
+                  {type === 'expense' && <TableCell>Vendor</TableCell>}
+                  <TableCell>Active</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule._id} hover>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell>{rule.name}</TableCell>
+                    <TableCell>{describeConditions(rule)}</TableCell>
+                    <TableCell>{nameOf(categories[rule.type], rule.categoryId)}</TableCell>
+                    {type === 'expense' && <TableCell>{nameOf(vendors, rule.vendorId)}</TableCell>}
+                    <TableCell>
+                      <Switch size="small" checked={rule.isActive} onChange={() => handleToggle(rule)} />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Edit">
+                        <IconButton size="small" onClick={() => openForm(rule)}>
+                          <IconEdit size={18} />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" color="error" onClick={() => handleDelete(rule)}>
+                          <IconTrash size={18} />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DashboardCard>
+
+      {/* Rule form dialog */}
+      <Dialog open={Boolean(form)} onClose={() => setForm(null)} fullWidth maxWidth="sm">
+        <DialogTitle>{editingId ? 'Edit Rule' : 'Add Rule'}</DialogTitle>
+        {form && (
+          <DialogContent>
+            <Grid container spacing={2} sx={{ mt: 0 }}>
+              <Grid item xs={12} sm={8}>
+                <TextField
+                  fullWidth
+                  label="Rule name"
+                  value={form.name}
+                  onChange={(event) => setForm({ ...form, name: event.target.value })}
+                  required
+                />
+              </Grid>
+              <Grid item xs={12} sm={4}>
+                <TextField
+                  fullWidth
+                  label="Priority"
+                  type="number"
+                  value={form.priority}
+                  onChange={(event) => setForm({ ...form, priority: Number(event.target.value) })}
+                  helperText="Lower runs first"
+                />
+              </Grid>
+              <Grid item xs={12}>
+                <Typography variant="subtitle2">When the record...</Typography>
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Description contains"
+                  value={form.conditions.descriptionContains}
+                  onChange={(event) => updateCondition('descriptionContains', event.target.value)}
+                />
+              </Grid>
+              <Grid item xs={12} sm={6}>
+                <TextField
+                  fullWidth
+                  label="Description matches (regex)"
+                  value={form.conditions.descriptionPattern}
+                  onChange={(event) => updateCondition('descriptionPattern', event.target.value)}
+                />
+              </Grid>
+              <Grid item xs={6}>
+                <TextField
+                  fullWidth
+                  label="Minimum amount"
+                  type="number"
+                  value={form.conditions.minAmount}
+                  onChange={(event) => updateCondition('minAmount', event.target.value)}
+                />
+              </Grid>
+              <Grid item xs={6}>
+                <TextField
+                  fullWidth
+                  label="Maximum amount"
+                  type="number"
+                  value={form.conditions.maxAmount}
+                  onChange={(event) => updateCondition('maxAmount', event.target.value)}
+                />
+              </Grid>
+              {form.type === 'expense' && (
+                <Grid item xs={12}>
+                  <TextField
+                    select
+                    fullWidth
+                    label="Vendor is"
+                    value={form.conditions.vendorId}
+                    onChange={(event) => updateCondition('vendorId', event.target.value)}
+                  >
+                    <MenuItem value="">Any vendor</MenuItem>
+                    {vendors.map(vendor => (
+                      <MenuItem key={vendor._id} value={vendor._id}>{vendor.name}</MenuItem>
+                    ))}
+                  </TextField>
+                </Grid>
+              )}
+              <Grid item xs={12}>
+                <Typography variant="subtitle2">...assign</Typography>
+              </Grid>
+              <Grid item xs={12} sm={form.type === 'expense' ? 6 : 12}>
+                <TextField
+                  select
+                  fullWidth
+                  label="Category"
+                  value={form.categoryId}
+                  onChange={(event) => setForm({ ...form, categoryId: event.target.value })}
+                >
+                  <MenuItem value="">No category</MenuItem>
+                  {formCategories.map(category => (
+                    <MenuItem key={category._id} value={category._id}>{category.name}</MenuItem>
+                  ))}
+                </TextField>
+              </Grid>
+              {form.type === 'expense' && (
+                <Grid item xs={12} sm={6}>
+                  <TextField
+                    select
+                    fullWidth
+                    label="Vendor"
+                    value={form.vendorId}
+                    onChange={(event) => setForm({ ...form, vendorId: event.target.value })}
+                  >
+                    <MenuItem value="">No vendor</MenuItem>
+                    {vendors.map(vendor => (
+                      <MenuItem key={vendor._id} value={vendor._id}>{vendor.name}</MenuItem>
+                    ))}
+                  </TextField>
+                </Grid>
+              )}
+              <Grid item xs={12}>
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={form.isActive}
+                      onChange={(event) => setForm({ ...form, isActive: event.target.checked })}
+                    />
+                  }
+                  label="Active"
+                />
+              </Grid>
+            </Grid>
+          </DialogContent>
+        )}
+        <DialogActions>
+          <Button onClick={() => setForm(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Re-run dialog */}
+      <Dialog open={rerunOpen} onClose={() => setRerunOpen(false)} fullWidth maxWidth="md">
+        <DialogTitle>Re-run {type} rules</DialogTitle>
+        <DialogContent>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={onlyUncategorized}
+                onChange={(event) => {
+                  setOnlyUncategorized(event.target.checked);
+                  setPreview(null);
+                }}
+              />
+            }
+            label="Only records without a category"
+          />
+          {!onlyUncategorized && (
+            <Alert severity="warning" sx={{ my: 1 }}>
+              Existing categories and vendors will be replaced wherever a rule matches.
+            </Alert>
+          )}
+
+          {preview && (preview.length === 0 ? (
+            <Typography color="textSecondary" sx={{ mt: 2 }}>
+              No records would change.
+            </Typography>
+          ) : (
+            <TableContainer sx={{ mt: 2, maxHeight: 400 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Record</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                    <TableCell>Category</TableCell>
+                    {type === 'expense' && <TableCell>Vendor</TableCell>}
+                    <TableCell>Rules</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {preview.map(change => (
+                    <TableRow key={change.recordId}>
+                      <TableCell>{change.description}</TableCell>
+                      <TableCell align="right">{formatCurrency(change.amount)}</TableCell>
+                      <TableCell>
+                        {change.categoryId
+                          ? `${nameOf(categories[type], change.categoryId.from)} → ${nameOf(categories[type], change.categoryId.to)}`
+                          : 'No change'}
+                      </TableCell>
+                      {type === 'expense' && (
+                        <TableCell>
+                          {change.vendorId
+                            ? `${nameOf(vendors, change.vendorId.from)} → ${nameOf(vendors, change.vendorId.to)}`
+                            : 'No change'}
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        {change.rules.map(rule => <Chip key={rule} size="small" label={rule} sx={{ mr: 0.5 }} />)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          ))}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setRerunOpen(false)}>Cancel</Button>
+          <Button onClick={() => runRules(true)} disabled={rerunning}>
+            Preview
+          </Button>
+          <Button
+            variant="contained"
+            onClick={() => runRules(false)}
+            disabled={rerunning || !preview || preview.length === 0}
+          >
+            {preview ? `Apply to ${preview.length} records` : 'Apply'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default CategorizationRules;
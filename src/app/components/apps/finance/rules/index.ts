@@ -0,0 +1 @@
+export { default as CategorizationRules } from './CategorizationRules';
\ No newline at end of file
@@ -47,6 +47,7 @@ const InvoiceDetail = () => {
   const [viewMode, setViewMode] = useState<"classic" | "template">("template");
   const [companySettings, setCompanySettings] = useState<any>(null);
   const [loadingCompany, setLoadingCompany] = useState(false);
+  const [sending, setSending] = useState(false);
 
   // Fetch company settings
   const fetchCompanySettings = async () => {
@@ -114,6 +115,24 @@ const InvoiceDetail = () => {
     }
   }, [getTitle, invoices]);
 
+  // Email the invoice PDF to the client
+  const handleSendInvoice = async () => {
+    const invoiceId = selectedInvoice._id || selectedInvoice.id;
+    try {
+      setSending(true);
+      const response = await axios.post(`/api/invoices/${invoiceId}/send`, {});
+      if (response.data.success) {
+        setSelectedInvoice({ ...selectedInvoice, ...response.data.data });
+        toast.success(response.data.message || 'Invoice sent');
+      }
+    } catch (error: any) {
+      console.error('Error sending invoice:', error);
+      toast.error(error.response?.data?.message || 'Failed to send invoice');
+    } finally {
+      setSending(false);
+    }
+  };
+
   if (!selectedInvoice) {
     return <div>Loading...</div>;
   }
@@ -418,6 +437,21 @@ const InvoiceDetail = () => {
         mt={3}
         justifyContent="end"
       >
+        <Button
+          variant="outlined"
+          color="primary"
+          href={`/api/invoices/${selectedInvoice._id || selectedInvoice.id}/pdf`}
+        >
+          Download PDF
+        </Button>
+        <Button
+          variant="outlined"
+          color="primary"
+          onClick={handleSendInvoice}
+          disabled={sending || !selectedInvoice.billToEmail || selectedInvoice.status === 'Cancelled'}
+        >
+          {sending ? 'Sending...' : 'Send to Client'}
+        </Button>
         <Button
           variant="contained"
           color="secondary"
@@ -53,7 +53,7 @@ function InvoiceList() {
   const [selectAll, setSelectAll] = useState(false);
   const [openDeleteDialog, setOpenDeleteDialog] = useState(false);
 
-  const tabItem = ["All", "Draft", "Pending", "Sent", "Paid", "Overdue"];
+  const tabItem = ["All", "Draft", "Pending", "Sent", "Partially Paid", "Paid", "Overdue"];
   const [currentIndex, setCurrentIndex] = useState(0);
 
 
@@ -366,6 +366,11 @@ function InvoiceList() {
                     <Typography fontSize="14px">
                       ${(invoice.grandTotal || invoice.totalCost || 0).toFixed(2)}
                     </Typography>
+                    {invoice.status === "Partially Paid" && (
+                      <Typography variant="caption" color="textSecondary">
+                        ${(invoice.balanceDue || 0).toFixed(2)} due
+                      </Typography>
+                    )}
                   </TableCell>
                   <TableCell>
                     {invoice.status === "Draft" ? (
@@ -387,6 +392,12 @@ function InvoiceList() {
                         label={invoice.status}
                         size="small"
                       />
+                    ) : invoice.status === "Partially Paid" ? (
+                      <Chip
+                        color="secondary"
+                        label={invoice.status}
+                        size="small"
+                      />
                     ) : invoice.status === "Paid" ? (
                       <Chip
                         color="success"
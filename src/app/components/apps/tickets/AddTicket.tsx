@@ -0,0 +1,106 @@
+'use client'
+import React, { useState } from 'react';
+import { useDispatch } from '@/store/hooks';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import MenuItem from '@mui/material/MenuItem';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import { addTicket } from '@/store/apps/tickets/TicketSlice';
+import { TicketAgent } from '../../../(dashboard)/types/apps/ticket';
+
+interface Props {
+  agents: TicketAgent[];
+}
+
+const AddTicket = ({ agents }: Props) => {
+  const dispatch = useDispatch();
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [priority, setPriority] = useState('medium');
+  const [assignedTo, setAssignedTo] = useState('');
+
+  const handleClose = () => {
+    setOpen(false);
+    setTitle('');
+    setDescription('');
+    setPriority('medium');
+    setAssignedTo('');
+  };
+
+  const handleSubmit = async () => {
+    await dispatch(addTicket({ title, description, priority, assignedTo: assignedTo || null }));
+    handleClose();
+  };
+
+  return (
+    <>
+      <Button variant="contained" onClick={() => setOpen(true)}>
+        Create Ticket
+      </Button>
+      <Dialog open={open} onClose={handleClose} fullWidth maxWidth="sm">
+        <DialogTitle>New Ticket</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} mt={1}>
+            <TextField
+              label="Title"
+              fullWidth
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+            <TextField
+              label="Description"
+              fullWidth
+              multiline
+              rows={4}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+            <TextField
+              select
+              label="Priority"
+              value={priority}
+              onChange={(e) => setPriority(e.target.value)}
+            >
+              <MenuItem value="low">Low</MenuItem>
+              <MenuItem value="medium">Medium</MenuItem>
+              <MenuItem value="high">High</MenuItem>
+              <MenuItem value="urgent">Urgent</MenuItem>
+            </TextField>
+            <TextField
+              select
+              label="Assign To"
+              value={assignedTo}
+              onChange={(e) => setAssignedTo(e.target.value)}
+            >
+              <MenuItem value="">Unassigned</MenuItem>
+              {agents.map((agent) => (
+                <MenuItem key={agent._id} value={agent._id}>
+                  {agent.name || `${agent.firstName} ${agent.lastName}`}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button color="error" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            disabled={!title.trim() || !description.trim()}
+            onClick={handleSubmit}
+          >
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default AddTicket;
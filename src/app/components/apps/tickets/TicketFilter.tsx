@@ -4,7 +4,7 @@ import Grid from '@mui/material/Grid';
 import Typography from '@mui/material/Typography';
 import { styled } from '@mui/material/styles';
 import { useDispatch, useSelector } from '@/store/hooks';
-import { TicketType } from '../../../(dashboard)/types/apps/ticket';
+import { TicketSummary } from '../../../(dashboard)/types/apps/ticket';
 import { setVisibilityFilter } from '@/store/apps/tickets/TicketSlice';
 
 const BoxStyled = styled(Box)(() => ({
@@ -19,10 +19,10 @@ const BoxStyled = styled(Box)(() => ({
 
 const TicketFilter = () => {
   const dispatch = useDispatch();
-  const counter: TicketType[] = useSelector((state) => state.ticketReducer.tickets);
-  const pendingC = counter.filter((t) => t.Status === 'Pending').length;
-  const openC = counter.filter((t) => t.Status === 'Open').length;
-  const closeC = counter.filter((t) => t.Status === 'Closed').length;
+  const summary: TicketSummary = useSelector((state) => state.ticketReducer.summary);
+  const pendingC = summary.Pending;
+  const openC = summary.Open;
+  const closeC = summary.Closed;
 
   return (
     <Grid container spacing={3} textAlign="center">
@@ -31,7 +31,7 @@ const TicketFilter = () => {
           onClick={() => dispatch(setVisibilityFilter('total_tickets'))}
           sx={{ backgroundColor: 'primary.light', color: 'primary.main' }}
         >
-          <Typography variant="h3">{counter.length}</Typography>
+          <Typography variant="h3">{summary.total}</Typography>
           <Typography variant="h6">Total Tickets</Typography>
         </BoxStyled>
       </Grid>
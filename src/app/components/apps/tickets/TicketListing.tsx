@@ -1,12 +1,14 @@
 'use client'
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useDispatch, useSelector } from '@/store/hooks';
 import { format } from 'date-fns';
+import Alert from '@mui/material/Alert';
 import Avatar from '@mui/material/Avatar';
 import Box from '@mui/material/Box';
-import Chip from '@mui/material/Chip';
 import IconButton from '@mui/material/IconButton';
+import MenuItem from '@mui/material/MenuItem';
 import Pagination from '@mui/material/Pagination';
+import Select from '@mui/material/Select';
 import Stack from '@mui/material/Stack';
 import Table from '@mui/material/Table';
 import TableBody from '@mui/material/TableBody';
@@ -18,83 +20,87 @@ import TextField from '@mui/material/TextField';
 import Tooltip from '@mui/material/Tooltip';
 import Typography from '@mui/material/Typography';
 import { useTheme } from '@mui/material/styles';
-import { fetchTickets, DeleteTicket, SearchTicket } from '@/store/apps/tickets/TicketSlice';
+import {
+  fetchTickets,
+  fetchAgents,
+  deleteTicket,
+  updateTicket,
+  SearchTicket,
+  setPage,
+} from '@/store/apps/tickets/TicketSlice';
 import { IconTrash } from '@tabler/icons-react';
-import { TicketType } from '../../../(dashboard)/types/apps/ticket';
+import { TicketStatus, TicketType } from '../../../(dashboard)/types/apps/ticket';
+import AddTicket from './AddTicket';
+
+// Mirrors the server-side workflow so only valid moves are offered
+const STATUS_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  Open: ['Pending', 'Closed'],
+  Pending: ['Open', 'Closed'],
+  Closed: ['Open'],
+};
 
 const TicketListing = () => {
   const dispatch = useDispatch();
   const theme = useTheme();
+  const [searchInput, setSearchInput] = useState('');
+
+  const { tickets, agents, currentFilter, ticketSearch, page, pages, error } = useSelector(
+    (state) => state.ticketReducer,
+  );
 
   useEffect(() => {
-    dispatch(fetchTickets());
+    dispatch(fetchAgents());
   }, [dispatch]);
 
-  const getVisibleTickets = (tickets: TicketType[], filter: string, ticketSearch: string) => {
-    switch (filter) {
-      case 'total_tickets':
-        return tickets.filter(
-          (c) => !c.deleted && c.ticketTitle.toLocaleLowerCase().includes(ticketSearch),
-        );
-
-      case 'Pending':
-        return tickets.filter(
-          (c) =>
-            !c.deleted &&
-            c.Status === 'Pending' &&
-            c.ticketTitle.toLocaleLowerCase().includes(ticketSearch),
-        );
-
-      case 'Closed':
-        return tickets.filter(
-          (c) =>
-            !c.deleted &&
-            c.Status === 'Closed' &&
-            c.ticketTitle.toLocaleLowerCase().includes(ticketSearch),
-        );
+  useEffect(() => {
+    dispatch(fetchTickets({ filter: currentFilter, search: ticketSearch, page }));
+  }, [dispatch, currentFilter, ticketSearch, page]);
 
-      case 'Open':
-        return tickets.filter(
-          (c) =>
-            !c.deleted &&
-            c.Status === 'Open' &&
-            c.ticketTitle.toLocaleLowerCase().includes(ticketSearch),
-        );
+  // Debounce search so we don't query on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchInput !== ticketSearch) {
+        dispatch(SearchTicket(searchInput));
+      }
+    }, 400);
 
-      default:
-        throw new Error(`Unknown filter: ${filter}`);
-    }
-  };
+    return () => clearTimeout(timeout);
+  }, [dispatch, searchInput, ticketSearch]);
 
-  const tickets = useSelector((state) =>
-    getVisibleTickets(
-      state.ticketReducer.tickets,
-      state.ticketReducer.currentFilter,
-      state.ticketReducer.ticketSearch,
-    ),
-  );
   const ticketBadge = (ticket: TicketType) => {
-    return ticket.Status === 'Open'
+    return ticket.status === 'Open'
       ? theme.palette.success.light
-      : ticket.Status === 'Closed'
+      : ticket.status === 'Closed'
         ? theme.palette.error.light
-        : ticket.Status === 'Pending'
+        : ticket.status === 'Pending'
           ? theme.palette.warning.light
-          : ticket.Status === 'Moderate'
-            ? theme.palette.primary.light
-            : 'primary';
+          : 'primary';
+  };
+
+  const agentName = (ticket: TicketType) => {
+    if (!ticket.assignedTo) return 'Unassigned';
+    return ticket.assignedTo.name || `${ticket.assignedTo.firstName} ${ticket.assignedTo.lastName}`;
   };
 
   return (
     <Box mt={4}>
-      <Box sx={{ maxWidth: '260px', ml: 'auto' }} mb={3}>
-        <TextField
-          size="small"
-          label="Search"
-          fullWidth
-          onChange={(e) => dispatch(SearchTicket(e.target.value))}
-        />
-      </Box>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" mb={3} gap={2}>
+        <AddTicket agents={agents} />
+        <Box sx={{ maxWidth: '260px', width: '100%' }}>
+          <TextField
+            size="small"
+            label="Search"
+            fullWidth
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+        </Box>
+      </Stack>
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
       <TableContainer>
         <Table>
           <TableHead>
@@ -121,12 +127,12 @@ const TicketListing = () => {
           </TableHead>
           <TableBody>
             {tickets.map((ticket) => (
-              <TableRow key={ticket.Id} hover>
-                <TableCell>{ticket.Id}</TableCell>
+              <TableRow key={ticket._id} hover>
+                <TableCell>{ticket.ticketNumber}</TableCell>
                 <TableCell>
                   <Box>
                     <Typography variant="h6" fontWeight={600} noWrap>
-                      {ticket.ticketTitle}
+                      {ticket.title}
                     </Typography>
                     <Typography
                       color="textSecondary"
@@ -135,51 +141,91 @@ const TicketListing = () => {
                       variant="subtitle2"
                       fontWeight={400}
                     >
-                      {ticket.ticketDescription}
+                      {ticket.description}
                     </Typography>
                   </Box>
                 </TableCell>
                 <TableCell>
                   <Stack direction="row" gap="10px" alignItems="center">
                     <Avatar
-                      src={ticket.thumb}
-                      alt={ticket.thumb}
+                      src={ticket.assignedTo?.profileImage || ticket.assignedTo?.avatar}
+                      alt={agentName(ticket)}
                       sx={{
                         borderRadius: '100%',
                         width: '35', height: '35',
                       }}
                     />
-                    <Typography variant="h6">{ticket.AgentName}</Typography>
+                    <Select
+                      size="small"
+                      variant="standard"
+                      disableUnderline
+                      value={ticket.assignedTo?._id || ''}
+                      displayEmpty
+                      onChange={(e) => dispatch(updateTicket(ticket._id, { assignedTo: e.target.value || null }))}
+                      renderValue={() => <Typography variant="h6">{agentName(ticket)}</Typography>}
+                    >
+                      <MenuItem value="">Unassigned</MenuItem>
+                      {agents.map((agent) => (
+                        <MenuItem key={agent._id} value={agent._id}>
+                          {agent.name || `${agent.firstName} ${agent.lastName}`}
+                        </MenuItem>
+                      ))}
+                    </Select>
                   </Stack>
                 </TableCell>
                 <TableCell>
-                  <Chip
+                  <Select
+                    size="small"
+                    value={ticket.status}
+                    onChange={(e) => dispatch(updateTicket(ticket._id, { status: e.target.value }))}
                     sx={{
                       backgroundColor: ticketBadge(ticket),
+                      borderRadius: '16px',
+                      fontSize: '13px',
+                      '& .MuiOutlinedInput-notchedOutline': { border: 'none' },
                     }}
-                    size="small"
-                    label={ticket.Status}
-                  />
+                  >
+                    <MenuItem value={ticket.status}>{ticket.status}</MenuItem>
+                    {STATUS_TRANSITIONS[ticket.status].map((status) => (
+                      <MenuItem key={status} value={status}>
+                        {status}
+                      </MenuItem>
+                    ))}
+                  </Select>
                 </TableCell>
                 <TableCell>
                   <Typography variant="subtitle1">
-                    {format(new Date(ticket.Date), 'E, MMM d')}
+                    {format(new Date(ticket.createdAt), 'E, MMM d')}
                   </Typography>
                 </TableCell>
                 <TableCell align="right">
                   <Tooltip title="Delete Ticket">
-                    <IconButton onClick={() => dispatch(DeleteTicket(ticket.Id))}>
+                    <IconButton onClick={() => dispatch(deleteTicket(ticket._id))}>
                       <IconTrash size="18" />
                     </IconButton>
                   </Tooltip>
                 </TableCell>
               </TableRow>
             ))}
+            {tickets.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} align="center">
+                  <Typography color="textSecondary" py={3}>
+                    No tickets found
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
           </TableBody>
         </Table>
       </TableContainer>
       <Box my={3} display="flex" justifyContent={'center'}>
-        <Pagination count={10} color="primary" />
+        <Pagination
+          count={pages}
+          page={page}
+          color="primary"
+          onChange={(_, value) => dispatch(setPage(value))}
+        />
       </Box>
     </Box>
   );
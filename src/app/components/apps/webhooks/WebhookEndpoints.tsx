@@ -0,0 +1,491 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+  IconButton,
+  Tooltip,
+  Chip,
+  TextField,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Alert,
+  CircularProgress,
+  Stack,
+  Switch,
+  Checkbox,
+  FormControlLabel,
+  FormGroup
+} from '@mui/material';
+import {
+  IconEdit,
+  IconTrash,
+  IconPlus,
+  IconHistory,
+  IconRefresh,
+  IconCopy
+} from '@tabler/icons-react';
+
+import DashboardCard from '@/app/components/shared/DashboardCard';
+import { useToast } from '@/app/components/shared/ToastContext';
+import { WEBHOOK_EVENT_LABELS, WebhookEvent } from '@/lib/constants/webhook-events';
+
+interface EndpointData {
+  _id: string;
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+  lastDeliveryAt?: string | null;
+  lastDeliveryStatus?: 'succeeded' | 'failed' | null;
+}
+
+interface DeliveryData {
+  _id: string;
+  event: WebhookEvent;
+  eventId: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  responseStatus?: number | null;
+  error?: string | null;
+  durationMs?: number | null;
+  redeliveryOf?: string | null;
+  createdAt: string;
+}
+
+const emptyEndpoint = () => ({
+  url: '',
+  description: '',
+  events: [] as WebhookEvent[],
+  isActive: true
+});
+
+type EndpointFormData = ReturnType<typeof emptyEndpoint>;
+
+const statusColor = (status?: string | null) =>
+  status === 'succeeded' ? 'success' : status === 'failed' ? 'error' : 'default';
+
+const WebhookEndpoints: React.FC = () => {
+  const { showToast } = useToast();
+
+  const [endpoints, setEndpoints] = useState<EndpointData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<EndpointFormData | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const [logEndpoint, setLogEndpoint] = useState<EndpointData | null>(null);
+  const [deliveries, setDeliveries] = useState<DeliveryData[] | null>(null);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+
+  const loadEndpoints = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/webhooks/endpoints', { credentials: 'include' });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to fetch webhook endpoints');
+      }
+      setEndpoints(data.data.endpoints);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch webhook endpoints');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEndpoints();
+  }, [loadEndpoints]);
+
+  const loadDeliveries = useCallback(async (endpoint: EndpointData) => {
+    setDeliveries(null);
+    const response = await fetch(`/api/webhooks/endpoints/${endpoint._id}/deliveries`, { credentials: 'include' });
+    const data = await response.json();
+    if (!data.success) {
+      setError(data.error?.message || 'Failed to fetch deliveries');
+      setLogEndpoint(null);
+      return;
+    }
+    setDeliveries(data.data.deliveries);
+  }, []);
+
+  const openLog = (endpoint: EndpointData) => {
+    setLogEndpoint(endpoint);
+    loadDeliveries(endpoint);
+  };
+
+  const openForm = (endpoint?: EndpointData) => {
+    setEditingId(endpoint?._id || null);
+    setForm(endpoint ? {
+      url: endpoint.url,
+      description: endpoint.description || '',
+      events: endpoint.events,
+      isActive: endpoint.isActive
+    } : emptyEndpoint());
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setForm(prev => prev && {
+      ...prev,
+      events: prev.events.includes(event) ? prev.events.filter(item => item !== event) : [...prev.events, event]
+    });
+  };
+
+  const saveEndpoint = async (id: string | null, body: Record<string, any>) => {
+    const response = await fetch(id ? `/api/webhooks/endpoints/${id}` : '/api/webhooks/endpoints', {
+      method: id ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(body)
+    });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error?.message || 'Failed to save webhook endpoint');
+    }
+    return data;
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    try {
+      setSaving(true);
+      const data = await saveEndpoint(editingId, form);
+
+      showToast({ message: data.message, severity: 'success' });
+      setForm(null);
+      if (data.data.secret) {
+        setSecret(data.data.secret);
+      }
+      loadEndpoints();
+    } catch (err) {
+      showToast({
+        message: err instanceof Error ? err.message : 'Failed to save webhook endpoint',
+        severity: 'error'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRotateSecret = async () => {
+    if (!editingId) return;
+    if (!window.confirm('Roll the signing secret? Deliveries are signed with the new secret straight away.')) return;
+
+    try {
+      setSaving(true);
+      const data = await saveEndpoint(editingId, { rotateSecret: true });
+      setForm(null);
+      setSecret(data.data.secret);
+    } catch (err) {
+      showToast({
+        message: err instanceof Error ? err.message : 'Failed to roll the signing secret',
+        severity: 'error'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (endpoint: EndpointData) => {
+    if (!window.confirm(`Delete the endpoint ${endpoint.url}? Its delivery log is deleted too.`)) return;
+
+    const response = await fetch(`/api/webhooks/endpoints/${endpoint._id}`, {
+      method: 'DELETE',
+      credentials: 'include'
+    });
+    const data = await response.json();
+    if (!data.success) {
+      setError(data.error?.message || 'Failed to delete webhook endpoint');
+      return;
+    }
+    loadEndpoints();
+  };
+
+  const handleToggle = async (endpoint: EndpointData) => {
+    await saveEndpoint(endpoint._id, { isActive: !endpoint.isActive }).catch(err => setError(err.message));
+    loadEndpoints();
+  };
+
+  const handleRedeliver = async (delivery: DeliveryData) => {
+    try {
+      setRedelivering(delivery._id);
+      const response = await fetch(`/api/webhooks/deliveries/${delivery._id}/redeliver`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+      const data = await response.json();
+      if (!data.success) {
+        throw new Error(data.error?.message || 'Failed to redeliver webhook');
+      }
+
+      showToast({
+        message: data.message,
+        severity: data.data.delivery.status === 'succeeded' ? 'success' : 'error'
+      });
+      if (logEndpoint) {
+        loadDeliveries(logEndpoint);
+      }
+    } catch (err) {
+      showToast({
+        message: err instanceof Error ? err.message : 'Failed to redeliver webhook',
+        severity: 'error'
+      });
+    } finally {
+      setRedelivering(null);
+    }
+  };
+
+  const formatDate = (date?: string | null) => date ? new Date(date).toLocaleString() : '—';
+
+  return (
+    <Box>
+      {error && (
+        <Alert severity="error" sx={{ mb: 3 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <DashboardCard
+        title="Webhooks"
+        subtitle="Boami POSTs a signed JSON payload to each endpoint when a subscribed event happens"
+        action={
+          <Button variant="contained" startIcon={<IconPlus size={18} />} onClick={() => openForm()}>
+            Add Endpoint
+          </Button>
+        }
+      >
+        {loading ? (
+          <Box display="flex" justifyContent="center" p={4}>
+            <CircularProgress />
+          </Box>
+        ) : endpoints.length === 0 ? (
+          <Typography color="textSecondary" sx={{ p: 2 }}>
+            No webhook endpoints yet. Add one to send sales, invoice, inventory and subscription events to another system.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Endpoint</TableCell>
+                  <TableCell>Events</TableCell>
+                  <TableCell>Last delivery</TableCell>
+                  <TableCell>Active</TableCell>
+                  <TableCell align="right">Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {endpoints.map(endpoint => (
+                  <TableRow key={endpoint._id} hover>
+                    <TableCell>
+                      <Typography variant="body2" sx={{ wordBreak: 'break-all' }}>{endpoint.url}</Typography>
+                      {endpoint.description && (
+                        <Typography variant="caption" color="textSecondary">{endpoint.description}</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {endpoint.events.map(event => (
+                        <Chip key={event} size="small" label={WEBHOOK_EVENT_LABELS[event]} sx={{ mr: 0.5, mb: 0.5 }} />
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      {endpoint.lastDeliveryStatus ? (
+                        <Stack direction="row" spacing={1} alignItems="center">
+                          <Chip size="small" color={statusColor(endpoint.lastDeliveryStatus)} label={endpoint.lastDeliveryStatus} />
+                          <Typography variant="caption">{formatDate(endpoint.lastDeliveryAt)}</Typography>
+                        </Stack>
+                      ) : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <Switch size="small" checked={endpoint.isActive} onChange={() => handleToggle(endpoint)} />
+                    </TableCell>
+                    <TableCell align="right">
+                      <Tooltip title="Delivery log">
+                        <IconButton size="small" onClick={() => openLog(endpoint)}>
+                          <IconHistory size={18} />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Edit">
+                        <IconButton size="small" onClick={() => openForm(endpoint)}>
+                          <IconEdit size={18} />
+                        </IconButton>
+                      </Tooltip>
+                      <Tooltip title="Delete">
+                        <IconButton size="small" color="error" onClick={() => handleDelete(endpoint)}>
+                          <IconTrash size={18} />
+                        </IconButton>
+                      </Tooltip>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DashboardCard>
+
+      {/* Endpoint form dialog */}
+      <Dialog open={Boolean(form)} onClose={() => setForm(null)} fullWidth maxWidth="sm">
+        <DialogTitle>{editingId ? 'Edit Endpoint' : 'Add Endpoint'}</DialogTitle>
+        {form && (
+          <DialogContent>
+            <Stack spacing={2} sx={{ mt: 1 }}>
+              <TextField
+                fullWidth
+                label="Endpoint URL"
+                placeholder="https://example.com/webhooks/boami"
+                value={form.url}
+                onChange={(event) => setForm({ ...form, url: event.target.value })}
+                required
+              />
+              <TextField
+                fullWidth
+                label="Description"
+                value={form.description}
+                onChange={(event) => setForm({ ...form, description: event.target.value })}
+              />
+              <Box>
+                <Typography variant="subtitle2">Events</Typography>
+                <FormGroup>
+                  {(Object.keys(WEBHOOK_EVENT_LABELS) as WebhookEvent[]).map(event => (
+                    <FormControlLabel
+                      key={event}
+                      control={<Checkbox checked={form.events.includes(event)} onChange={() => toggleEvent(event)} />}
+                      label={`${WEBHOOK_EVENT_LABELS[event]} (${event})`}
+                    />
+                  ))}
+                </FormGroup>
+              </Box>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={form.isActive}
+                    onChange={(event) => setForm({ ...form, isActive: event.target.checked })}
+                  />
+                }
+                label="Active"
+              />
+            </Stack>
+          </DialogContent>
+        )}
+        <DialogActions>
+          {editingId && (
+            <Button color="warning" onClick={handleRotateSecret} disabled={saving} sx={{ mr: 'auto' }}>
+              Roll Secret
+            </Button>
+          )}
+          <Button onClick={() => setForm(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSave} disabled={saving}>
+            {saving ? <CircularProgress size={20} /> : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Signing secret dialog */}
+      <Dialog open={Boolean(secret)} onClose={() => setSecret(null)} fullWidth maxWidth="sm">
+        <DialogTitle>Signing Secret</DialogTitle>
+        <DialogContent>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Copy this secret now; it will not be shown again. Use it to verify the X-Boami-Signature header.
+          </Alert>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <TextField fullWidth value={secret || ''} InputProps={{ readOnly: true }} />
+            <Tooltip title="Copy">
+              <IconButton onClick={() => secret && navigator.clipboard.writeText(secret)}>
+                <IconCopy size={18} />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={() => setSecret(null)}>Done</Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delivery log dialog */}
+      <Dialog open={Boolean(logEndpoint)} onClose={() => setLogEndpoint(null)} fullWidth maxWidth="md">
+        <DialogTitle>Deliveries to {logEndpoint?.url}</DialogTitle>
+        <DialogContent>
+          {!deliveries ? (
+            <Box display="flex" justifyContent="center" p={4}>
+              <CircularProgress />
+            </Box>
+          ) : deliveries.length === 0 ? (
+            <Typography color="textSecondary">
+              No deliveries yet.
+            </Typography>
+          ) : (
+            <TableContainer sx={{ maxHeight: 480 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Sent</TableCell>
+                    <TableCell>Event</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell>Response</TableCell>
+                    <TableCell align="right">Attempts</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {deliveries.map(delivery => (
+                    <TableRow key={delivery._id}>
+                      <TableCell>
+                        {formatDate(delivery.createdAt)}
+                        {delivery.redeliveryOf && (
+                          <Typography variant="caption" display="block" color="textSecondary">Redelivery</Typography>
+                        )}
+                      </TableCell>
+                      <TableCell>{WEBHOOK_EVENT_LABELS[delivery.event]}</TableCell>
+                      <TableCell>
+                        <Chip size="small" color={statusColor(delivery.status)} label={delivery.status} />
+                      </TableCell>
+                      <TableCell>
+                        {delivery.responseStatus ?? '—'}
+                        {delivery.error && (
+                          <Typography variant="caption" display="block" color="error">{delivery.error}</Typography>
+                        )}
+                      </TableCell>
+                      <TableCell align="right">{delivery.attempts}</TableCell>
+                      <TableCell align="right">
+                        <Tooltip title="Redeliver">
+                          <span>
+                            <IconButton
+                              size="small"
+                              onClick={() => handleRedeliver(delivery)}
+                              disabled={Boolean(redelivering) || delivery.status === 'pending'}
+                            >
+                              {redelivering === delivery._id ? <CircularProgress size={18} /> : <IconRefresh size={18} />}
+                            </IconButton>
+                          </span>
+                        </Tooltip>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setLogEndpoint(null)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default WebhookEndpoints;
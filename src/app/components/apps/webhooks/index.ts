@@ -0,0 +1 @@
+export { default as WebhookEndpoints } from './WebhookEndpoints';
\ No newline at end of file
@@ -0,0 +1,322 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Alert,
+  Stack,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+  FormControlLabel,
+  Checkbox,
+  IconButton,
+  Tooltip,
+  Divider,
+} from '@mui/material';
+import { IconCopy, IconPlus, IconRefresh, IconTrash } from '@tabler/icons-react';
+import { PERMISSIONS, RESOURCES } from '@/lib/constants/permissions';
+import { useSubscription } from '@/app/context/SubscriptionContext';
+
+interface ApiKeySummary {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  permissions: string[];
+  lastUsedAt?: string | null;
+  rotatedAt?: string | null;
+  createdAt: string;
+}
+
+const PERMISSION_GROUPS = Object.values(RESOURCES).map(resource => ({
+  resource,
+  permissions: Object.values(PERMISSIONS).filter(permission => permission.startsWith(`${resource}.`)),
+}));
+
+const ApiKeySettings: React.FC = () => {
+  const { hasFeatureAccess } = useSubscription();
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [pendingAction, setPendingAction] = useState<{ type: 'rotate' | 'revoke'; key: ApiKeySummary } | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const canUseApi = hasFeatureAccess('api_access');
+
+  const fetchKeys = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/auth/api-keys');
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Failed to load API keys');
+      setKeys(data.data.keys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchKeys();
+  }, []);
+
+  const closeDialogs = () => {
+    setCreating(false);
+    setPendingAction(null);
+    setName('');
+    setSelected([]);
+    setError(null);
+  };
+
+  const togglePermission = (permission: string) => {
+    setSelected(current =>
+      current.includes(permission)
+        ? current.filter(item => item !== permission)
+        : [...current, permission]
+    );
+  };
+
+  const handleCreate = async () => {
+    setError(null);
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/auth/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, permissions: selected }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Failed to create API key');
+
+      closeDialogs();
+      setSecret(data.data.secret);
+      await fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePendingAction = async () => {
+    if (!pendingAction) return;
+
+    setError(null);
+    setSubmitting(true);
+    try {
+      const response = pendingAction.type === 'rotate'
+        ? await fetch(`/api/auth/api-keys/${pendingAction.key.id}/rotate`, { method: 'POST' })
+        : await fetch(`/api/auth/api-keys/${pendingAction.key.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Failed to update API key');
+
+      closeDialogs();
+      if (pendingAction.type === 'rotate') {
+        setSecret(data.data.secret);
+      }
+      await fetchKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update API key');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    setCopied(true);
+  };
+
+  if (loading && keys.length === 0) {
+    return (
+      <Box display="flex" justifyContent="center" p={3}>
+        <CircularProgress size={32} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && !creating && !pendingAction && (
+        <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>
+      )}
+
+      {!canUseApi && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          API access is not included in your current plan. Upgrade to create API keys.
+        </Alert>
+      )}
+
+      {keys.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" mb={2}>
+          You have no API keys.
+        </Typography>
+      ) : (
+        <Stack divider={<Divider flexItem />} spacing={2} mb={3}>
+          {keys.map(key => (
+            <Stack key={key.id} direction="row" spacing={2} alignItems="flex-start">
+              <Box flexGrow={1} minWidth={0}>
+                <Typography variant="subtitle1" fontWeight={600}>{key.name}</Typography>
+                <Typography variant="body2" color="text.secondary" fontFamily="monospace">
+                  {key.keyPrefix}…
+                </Typography>
+                <Stack direction="row" flexWrap="wrap" gap={0.5} my={1}>
+                  {key.permissions.map(permission => (
+                    <Chip key={permission} label={permission} size="small" variant="outlined" />
+                  ))}
+                </Stack>
+                <Typography variant="caption" color="text.secondary">
+                  Created {new Date(key.createdAt).toLocaleDateString()}
+                  {key.lastUsedAt ? ` · Last used ${new Date(key.lastUsedAt).toLocaleString()}` : ' · Never used'}
+                </Typography>
+              </Box>
+              <Tooltip title="Rotate">
+                <IconButton onClick={() => setPendingAction({ type: 'rotate', key })}>
+                  <IconRefresh size={18} />
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Revoke">
+                <IconButton color="error" onClick={() => setPendingAction({ type: 'revoke', key })}>
+                  <IconTrash size={18} />
+                </IconButton>
+              </Tooltip>
+            </Stack>
+          ))}
+        </Stack>
+      )}
+
+      <Button
+        variant="contained"
+        startIcon={<IconPlus size={18} />}
+        onClick={() => setCreating(true)}
+        disabled={!canUseApi}
+      >
+        Create API Key
+      </Button>
+
+      {/* Create Dialog */}
+      <Dialog open={creating} onClose={closeDialogs} maxWidth="sm" fullWidth>
+        <DialogTitle>Create API Key</DialogTitle>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <TextField
+            label="Name"
+            fullWidth
+            autoFocus
+            margin="dense"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            helperText="Something to recognise the key by, e.g. the integration using it"
+          />
+          <Typography variant="subtitle2" mt={2} mb={1}>Permissions</Typography>
+          <Typography variant="body2" color="text.secondary" mb={1}>
+            The key can only do what you select here, and never more than your role allows.
+          </Typography>
+          {PERMISSION_GROUPS.map(group => (
+            <Box key={group.resource} mb={1}>
+              <Typography variant="caption" color="text.secondary" textTransform="capitalize">
+                {group.resource}
+              </Typography>
+              <Box>
+                {group.permissions.map(permission => (
+                  <FormControlLabel
+                    key={permission}
+                    control={
+                      <Checkbox
+                        size="small"
+                        checked={selected.includes(permission)}
+                        onChange={() => togglePermission(permission)}
+                      />
+                    }
+                    label={permission.split('.')[1]}
+                  />
+                ))}
+              </Box>
+            </Box>
+          ))}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialogs}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleCreate}
+            disabled={submitting || !name.trim() || selected.length === 0}
+          >
+            {submitting ? <CircularProgress size={20} /> : 'Create'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Rotate / Revoke Dialog */}
+      <Dialog open={Boolean(pendingAction)} onClose={closeDialogs} maxWidth="xs" fullWidth>
+        <DialogTitle>
+          {pendingAction?.type === 'rotate' ? 'Rotate API Key' : 'Revoke API Key'}
+        </DialogTitle>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <Typography variant="body2" color="text.secondary">
+            {pendingAction?.type === 'rotate'
+              ? `A new secret will be issued for "${pendingAction?.key.name}" and the current one will stop working immediately.`
+              : `"${pendingAction?.key.name}" will stop working immediately. This cannot be undone.`}
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialogs}>Cancel</Button>
+          <Button
+            variant="contained"
+            color={pendingAction?.type === 'revoke' ? 'error' : 'primary'}
+            onClick={handlePendingAction}
+            disabled={submitting}
+          >
+            {submitting ? <CircularProgress size={20} /> : pendingAction?.type === 'rotate' ? 'Rotate' : 'Revoke'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* New Secret Dialog */}
+      <Dialog open={Boolean(secret)} onClose={() => { setSecret(null); setCopied(false); }} maxWidth="sm" fullWidth>
+        <DialogTitle>Copy Your API Key</DialogTitle>
+        <DialogContent>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Send it as a bearer token in the Authorization header. It will not be shown again.
+          </Alert>
+          <Stack
+            direction="row"
+            alignItems="center"
+            spacing={1}
+            sx={{ p: 2, bgcolor: 'grey.100', borderRadius: 1 }}
+          >
+            <Typography fontFamily="monospace" sx={{ wordBreak: 'break-all', flexGrow: 1 }}>
+              {secret}
+            </Typography>
+            <Tooltip title={copied ? 'Copied' : 'Copy'}>
+              <IconButton onClick={handleCopy}>
+                <IconCopy size={18} />
+              </IconButton>
+            </Tooltip>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={() => { setSecret(null); setCopied(false); }}>
+            Done
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default ApiKeySettings;
@@ -19,6 +19,8 @@ import { useAuthContext } from '@/app/context/AuthContext';
 import { SubscriptionStatus } from '@/components/subscription';
 import { useSubscription } from '@/app/context/SubscriptionContext';
 import SubscriptionManagement from './SubscriptionManagement';
+import TwoFactorSettings from './TwoFactorSettings';
+import ApiKeySettings from './ApiKeySettings';
 
 const SimpleProfilePage: React.FC = () => {
   const { user, isLoading: loading, error, updateProfile, refreshAuth } = useAuthContext();
@@ -218,6 +220,34 @@ const SimpleProfilePage: React.FC = () => {
         </Paper>
       </Box>
 
+      {/* Two-Factor Authentication Section */}
+      <Box mt={4}>
+        <Paper elevation={1} sx={{ p: 4 }}>
+          <Typography variant="h6" fontWeight={600} gutterBottom>
+            Two-Factor Authentication
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+            Protect your account with a code from an authenticator app
+          </Typography>
+
+          <TwoFactorSettings />
+        </Paper>
+      </Box>
+
+      {/* API Keys Section */}
+      <Box mt={4}>
+        <Paper elevation={1} sx={{ p: 4 }}>
+          <Typography variant="h6" fontWeight={600} gutterBottom>
+            API Keys
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+            Access the API from scripts and integrations without signing in
+          </Typography>
+
+          <ApiKeySettings />
+        </Paper>
+      </Box>
+
 
       {/* User Info Display */}
       <Box mt={4}>
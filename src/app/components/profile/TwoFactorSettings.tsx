@@ -0,0 +1,299 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  Button,
+  Chip,
+  Alert,
+  Stack,
+  TextField,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  CircularProgress,
+} from '@mui/material';
+import { IconShieldCheck, IconShieldOff, IconKey } from '@tabler/icons-react';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+  enabledAt?: string | null;
+}
+
+interface SetupData {
+  secret: string;
+  qrCode: string;
+}
+
+type CodeAction = 'disable' | 'regenerate';
+
+const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const fetchStatus = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/auth/two-factor');
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Failed to load two-factor status');
+      setStatus(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load two-factor status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const closeDialogs = () => {
+    setSetup(null);
+    setCodeAction(null);
+    setCode('');
+    setError(null);
+  };
+
+  const handleStartSetup = async () => {
+    setError(null);
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/auth/two-factor/setup', { method: 'POST' });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Failed to start two-factor setup');
+      setSetup(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start two-factor setup');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConfirmSetup = async () => {
+    setError(null);
+    setSubmitting(true);
+    try {
+      const response = await fetch('/api/auth/two-factor/enable', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code }),
+      });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Invalid verification code');
+
+      closeDialogs();
+      setRecoveryCodes(data.data.recoveryCodes);
+      await fetchStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid verification code');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCodeAction = async () => {
+    if (!codeAction) return;
+
+    setError(null);
+    setSubmitting(true);
+    try {
+      const response = codeAction === 'disable'
+        ? await fetch('/api/auth/two-factor', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code }),
+        })
+        : await fetch('/api/auth/two-factor/recovery-codes', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ code }),
+        });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Invalid verification code');
+
+      closeDialogs();
+      if (codeAction === 'regenerate') {
+        setRecoveryCodes(data.data.recoveryCodes);
+      }
+      await fetchStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid verification code');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading && !status) {
+    return (
+      <Box display="flex" justifyContent="center" p={3}>
+        <CircularProgress size={32} />
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      {error && !setup && !codeAction && (
+        <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>
+      )}
+
+      {status && (
+        <>
+          <Stack direction="row" spacing={1} alignItems="center" mb={2}>
+            <Chip
+              icon={status.enabled ? <IconShieldCheck size={16} /> : <IconShieldOff size={16} />}
+              label={status.enabled ? 'Enabled' : 'Disabled'}
+              color={status.enabled ? 'success' : 'default'}
+              size="small"
+            />
+            {status.required && (
+              <Chip label="Required by your role" color="warning" size="small" variant="outlined" />
+            )}
+          </Stack>
+
+          {status.enabled ? (
+            <>
+              <Typography variant="body2" color="text.secondary" mb={2}>
+                {status.recoveryCodesRemaining} of 10 recovery codes remaining.
+                {status.enabledAt && ` Enabled on ${new Date(status.enabledAt).toLocaleDateString()}.`}
+              </Typography>
+              <Stack direction="row" spacing={2}>
+                <Button
+                  variant="outlined"
+                  startIcon={<IconKey size={18} />}
+                  onClick={() => setCodeAction('regenerate')}
+                >
+                  New Recovery Codes
+                </Button>
+                {!status.required && (
+                  <Button variant="outlined" color="error" onClick={() => setCodeAction('disable')}>
+                    Disable
+                  </Button>
+                )}
+              </Stack>
+            </>
+          ) : (
+            <>
+              <Typography variant="body2" color="text.secondary" mb={2}>
+                Add a second step to sign-in with a code from an authenticator app.
+              </Typography>
+              <Button variant="contained" onClick={handleStartSetup} disabled={submitting}>
+                Enable Two-Factor Authentication
+              </Button>
+            </>
+          )}
+        </>
+      )}
+
+      {/* Enrollment Dialog */}
+      <Dialog open={Boolean(setup)} onClose={closeDialogs} maxWidth="xs" fullWidth>
+        <DialogTitle>Set Up Authenticator App</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" mb={2}>
+            Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+          </Typography>
+          {setup && (
+            <Stack alignItems="center" spacing={1} mb={2}>
+              <img src={setup.qrCode} alt="Two-factor QR code" width={180} height={180} />
+              <Typography variant="caption" color="text.secondary">
+                Can&apos;t scan? Enter this key: <strong>{setup.secret}</strong>
+              </Typography>
+            </Stack>
+          )}
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <TextField
+            label="Verification Code"
+            fullWidth
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputProps={{ inputMode: 'numeric', maxLength: 6, autoComplete: 'one-time-code' }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialogs}>Cancel</Button>
+          <Button variant="contained" onClick={handleConfirmSetup} disabled={submitting || !code.trim()}>
+            {submitting ? <CircularProgress size={20} /> : 'Verify & Enable'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Disable / Regenerate Dialog */}
+      <Dialog open={Boolean(codeAction)} onClose={closeDialogs} maxWidth="xs" fullWidth>
+        <DialogTitle>
+          {codeAction === 'disable' ? 'Disable Two-Factor Authentication' : 'Generate New Recovery Codes'}
+        </DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" mb={2}>
+            {codeAction === 'disable'
+              ? 'Enter a code from your authenticator app or a recovery code to turn off two-factor authentication.'
+              : 'Your existing recovery codes will stop working. Enter a code from your authenticator app to continue.'}
+          </Typography>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <TextField
+            label="Verification Code"
+            fullWidth
+            autoFocus
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputProps={{ autoComplete: 'one-time-code' }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={closeDialogs}>Cancel</Button>
+          <Button
+            variant="contained"
+            color={codeAction === 'disable' ? 'error' : 'primary'}
+            onClick={handleCodeAction}
+            disabled={submitting || !code.trim()}
+          >
+            {submitting ? <CircularProgress size={20} /> : 'Confirm'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Recovery Codes Dialog */}
+      <Dialog open={Boolean(recoveryCodes)} onClose={() => setRecoveryCodes(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Save Your Recovery Codes</DialogTitle>
+        <DialogContent>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Each code signs you in once if you lose access to your authenticator app. They will not be shown again.
+          </Alert>
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(2, 1fr)',
+              gap: 1,
+              p: 2,
+              bgcolor: 'grey.100',
+              borderRadius: 1,
+            }}
+          >
+            {recoveryCodes?.map(recoveryCode => (
+              <Typography key={recoveryCode} fontFamily="monospace">{recoveryCode}</Typography>
+            ))}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button variant="contained" onClick={() => setRecoveryCodes(null)}>
+            I Have Saved These Codes
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default TwoFactorSettings;
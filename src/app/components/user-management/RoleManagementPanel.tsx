@@ -28,6 +28,7 @@ interface Role {
   name: string;
   description: string;
   isSystem: boolean;
+  requireTwoFactor?: boolean;
   permissions: Permission[];
   userCount?: number;
   createdAt: string;
@@ -36,7 +37,7 @@ interface Role {
 
 interface RoleManagementPanelProps {
   onCreateRole: (roleData: { name: string; description: string; permissions: string[] }) => Promise<void>;
-  onUpdateRole: (roleId: string, updates: { name?: string; description?: string; permissions?: string[] }) => Promise<void>;
+  onUpdateRole: (roleId: string, updates: { name?: string; description?: string; permissions?: string[]; requireTwoFactor?: boolean }) => Promise<void>;
   onDeleteRole: (roleId: string) => Promise<void>;
   refreshTrigger?: number;
 }
@@ -57,6 +58,7 @@ export default function RoleManagementPanel({
   const [activeTab, setActiveTab] = useState<'list' | 'matrix'>('list');
   const [showImpactAnalysis, setShowImpactAnalysis] = useState(false);
   const [pendingPermissions, setPendingPermissions] = useState<string[]>([]);
+  const [requireTwoFactor, setRequireTwoFactor] = useState(false);
 
   const [formData, setFormData] = useState({
     name: '',
@@ -161,7 +163,11 @@ export default function RoleManagementPanel({
     }
 
     try {
-      await onUpdateRole(selectedRole.id, formData);
+      // System roles only allow two-factor enforcement to change
+      await onUpdateRole(
+        selectedRole.id,
+        selectedRole.isSystem ? { requireTwoFactor } : { ...formData, requireTwoFactor }
+      );
       resetForm();
       setShowEditForm(false);
       setSelectedRole(null);
@@ -174,7 +180,7 @@ export default function RoleManagementPanel({
     if (!selectedRole) return;
 
     try {
-      await onUpdateRole(selectedRole.id, { ...formData, permissions: pendingPermissions });
+      await onUpdateRole(selectedRole.id, { ...formData, permissions: pendingPermissions, requireTwoFactor });
       resetForm();
       setShowEditForm(false);
       setSelectedRole(null);
@@ -223,6 +229,7 @@ export default function RoleManagementPanel({
       description: role.description,
       permissions: role.permissions.map(p => p.id)
     });
+    setRequireTwoFactor(Boolean(role.requireTwoFactor));
     setFormErrors({});
     setShowEditForm(true);
   };
@@ -233,6 +240,7 @@ export default function RoleManagementPanel({
       description: '',
       permissions: []
     });
+    setRequireTwoFactor(false);
     setFormErrors({});
   };
 
@@ -517,10 +525,26 @@ export default function RoleManagementPanel({
               )}
             </div>
 
+            {/* Two-Factor Enforcement */}
+            <label className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                checked={requireTwoFactor}
+                onChange={(e) => setRequireTwoFactor(e.target.checked)}
+                className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>
+                <span className="block text-sm font-medium text-gray-700">Require two-factor authentication</span>
+                <span className="block text-sm text-gray-500">
+                  Users with this role must set up an authenticator app before they can sign in.
+                </span>
+              </span>
+            </label>
+
             {selectedRole.isSystem && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4">
                 <p className="text-yellow-800 text-sm">
-                  This is a system role and cannot be modified.
+                  This is a system role. Only two-factor enforcement can be changed.
                 </p>
               </div>
             )}
@@ -543,14 +567,12 @@ export default function RoleManagementPanel({
               >
                 Cancel
               </button>
-              {!selectedRole.isSystem && (
-                <button
-                  type="submit"
-                  className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
-                >
-                  Update Role
-                </button>
-              )}
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700"
+              >
+                Update Role
+              </button>
             </div>
           </form>
         </div>
@@ -576,6 +598,11 @@ export default function RoleManagementPanel({
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getRoleColor(role)}`}>
                             {role.isSystem ? 'System' : 'Custom'}
                           </span>
+                          {role.requireTwoFactor && (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border bg-green-100 text-green-800 border-green-200">
+                              2FA required
+                            </span>
+                          )}
                         </div>
                         <p className="text-sm text-gray-500 mt-1">{role.description}</p>
                         <div className="flex items-center space-x-4 mt-2">
@@ -43,12 +43,20 @@ interface LoginCredentials {
   email: string;
   password: string;
   rememberMe?: boolean;
+  challengeToken?: string; // Second step: token from the password step
+  code?: string; // Second step: authenticator or recovery code
+}
+
+interface TwoFactorChallenge {
+  challengeToken: string;
+  setupRequired: boolean; // The user's role enforces 2FA and they have not enrolled yet
 }
 
 interface AuthResult {
   success: boolean;
   message?: string;
   user?: UserData;
+  twoFactor?: TwoFactorChallenge; // Set when a second factor is needed to finish signing in
 }
 
 interface AuthContextType {
@@ -245,19 +253,52 @@ export function AuthProvider({ children }: AuthProviderProps) {
       dispatch({ type: 'SET_LOADING', payload: true });
       dispatch({ type: 'CLEAR_ERROR' });
 
+      if (!credentials.challengeToken) {
+        // Check the password first to find out whether a second factor is needed
+        const challengeResponse = await fetch('/api/auth/two-factor/challenge', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email: credentials.email, password: credentials.password }),
+        });
+        const challenge = await challengeResponse.json();
+
+        if (!challenge.success) {
+          const authError = createError(
+            'LOGIN_FAILED',
+            challenge.error || 'Invalid email or password',
+            challenge
+          );
+          dispatch({ type: 'SET_ERROR', payload: authError });
+          return { success: false, message: authError.message };
+        }
+
+        if (challenge.data.required) {
+          dispatch({ type: 'SET_LOADING', payload: false });
+          return {
+            success: false,
+            message: 'Two-factor verification required',
+            twoFactor: {
+              challengeToken: challenge.data.challengeToken,
+              setupRequired: challenge.data.setupRequired
+            }
+          };
+        }
+      }
+
       console.log('🔐 Attempting login with NextAuth...');
 
-      const result = await signIn('credentials', {
-        email: credentials.email,
-        password: credentials.password,
-        redirect: false,
-      });
+      const result = await signIn('credentials', credentials.challengeToken
+        ? { challengeToken: credentials.challengeToken, code: credentials.code || '', redirect: false }
+        : { email: credentials.email, password: credentials.password, redirect: false }
+      );
 
       if (result?.error) {
         console.error('❌ NextAuth login error:', result.error);
         const authError = createError(
           'LOGIN_FAILED',
-          'Invalid email or password',
+          credentials.challengeToken && result.error !== 'CredentialsSignin'
+            ? result.error
+            : 'Invalid email or password',
           result.error
         );
         dispatch({ type: 'SET_ERROR', payload: authError });
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
 import {
   authenticateUser,
+  loadAuthenticatedUser,
   requireAuth,
   requireRole,
   requireActiveSubscription,
@@ -10,20 +12,109 @@ import {
   AuthResult,
   AuthenticatedUser
 } from './subscription-auth';
+import { authOptions } from './nextauth.config';
+import { ApiKeyManager } from './api-keys';
+import { TwoFactorManager } from './two-factor';
+import { IRateLimitResult } from './rate-limiter';
+import { PermissionService } from '@/lib/services/permission.service';
 
 /**
  * API Authentication Middleware
  * Provides reusable middleware functions for protecting API routes
  */
 
+/**
+ * Extract a personal API key from the Authorization header
+ */
+function extractApiKey(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization');
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : null;
+
+  return token && ApiKeyManager.isApiKey(token) ? token : null;
+}
+
+/**
+ * Add rate limit headers for requests made with an API key
+ */
+function setRateLimitHeaders(response: NextResponse, rateLimit?: IRateLimitResult): NextResponse {
+  if (rateLimit) {
+    response.headers.set('X-RateLimit-Limit', rateLimit.limit.toString());
+    response.headers.set('X-RateLimit-Remaining', rateLimit.remaining.toString());
+    response.headers.set('X-RateLimit-Reset', rateLimit.resetTime.toString());
+    if (!rateLimit.success) {
+      response.headers.set('Retry-After', rateLimit.retryAfter.toString());
+    }
+  }
+
+  return response;
+}
+
+/**
+ * Authenticate a signed-in user from their NextAuth session, or from a JWT for other clients
+ */
+async function authenticateSession(request: NextRequest): Promise<AuthResult> {
+  const session = await getServerSession(authOptions);
+  if (session?.user?.id) {
+    return loadAuthenticatedUser(session.user.id);
+  }
+
+  return authenticateUser(request);
+}
+
+/**
+ * Authenticate a request made with a personal API key and run the handler as the key's owner
+ */
+async function handleApiKeyRequest<T extends any[]>(
+  request: NextRequest,
+  apiKey: string,
+  permission: string | undefined,
+  handler: (request: NextRequest, user: AuthenticatedUser, ...args: T) => Promise<NextResponse>,
+  args: T
+): Promise<NextResponse> {
+  const keyResult = await ApiKeyManager.authenticate(
+    apiKey,
+    permission,
+    TwoFactorManager.getRequestContext(request.headers)
+  );
+
+  const authResult = keyResult.success && keyResult.userId
+    ? await loadAuthenticatedUser(keyResult.userId)
+    : { success: false, error: keyResult.error, statusCode: keyResult.statusCode };
+
+  if (!authResult.success || !authResult.user) {
+    return setRateLimitHeaders(
+      NextResponse.json(
+        {
+          success: false,
+          error: authResult.error || 'Authentication required'
+        },
+        { status: authResult.statusCode || 401 }
+      ),
+      keyResult.rateLimit
+    );
+  }
+
+  const user: AuthenticatedUser = { ...authResult.user, apiKey: keyResult.key };
+
+  return setRateLimitHeaders(await handler(request, user, ...args), keyResult.rateLimit);
+}
+
 /**
  * Higher-order function to wrap API route handlers with authentication
+ * Personal API keys are accepted as bearer tokens when the route names the
+ * permission it requires, and only if the key is scoped for it
  */
 export function withAuth<T extends any[]>(
-  handler: (request: NextRequest, user: AuthenticatedUser, ...args: T) => Promise<NextResponse>
+  handler: (request: NextRequest, user: AuthenticatedUser, ...args: T) => Promise<NextResponse>,
+  options: { permission?: string; apiKeysOnly?: boolean } = {}
 ) {
   return async (request: NextRequest, ...args: T): Promise<NextResponse> => {
-    const authResult = await authenticateUser(request);
+    const apiKey = extractApiKey(request);
+    if (apiKey) {
+      return handleApiKeyRequest(request, apiKey, options.permission, handler, args);
+    }
+
+    const authResult = await authenticateSession(request);
 
     if (!authResult.success || !authResult.user) {
       return NextResponse.json(
@@ -35,10 +126,47 @@ export function withAuth<T extends any[]>(
       );
     }
 
+    if (options.permission && !options.apiKeysOnly) {
+      const [resource, action] = options.permission.split('.');
+      const allowed = await PermissionService.checkPermission(authResult.user.id, resource, action);
+
+      if (!allowed) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: 'Insufficient permissions'
+          },
+          { status: 403 }
+        );
+      }
+    }
+
     return handler(request, authResult.user, ...args);
   };
 }
 
+/**
+ * Higher-order function to wrap API route handlers with a permission requirement
+ * Signed-in users need the permission through their role; API keys also need it in their scopes
+ */
+export function withPermission<T extends any[]>(
+  permission: string,
+  handler: (request: NextRequest, user: AuthenticatedUser, ...args: T) => Promise<NextResponse>
+) {
+  return withAuth(handler, { permission });
+}
+
+/**
+ * Higher-order function for the public REST API routes, which signed-in users reach without a role check
+ * API keys need the permission in their scopes and through their owner's role
+ */
+export function withApiPermission<T extends any[]>(
+  permission: string,
+  handler: (request: NextRequest, user: AuthenticatedUser, ...args: T) => Promise<NextResponse>
+) {
+  return withAuth(handler, { permission, apiKeysOnly: true });
+}
+
 /**
  * Higher-order function to wrap API route handlers with role-based authorization
  */
@@ -0,0 +1,380 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import ApiKey, { IApiKeyDocument } from '@/lib/database/models/ApiKey';
+import { PERMISSIONS, getImpliedPermissions } from '@/lib/constants/permissions';
+import { PermissionService } from '@/lib/services/permission.service';
+import { featureControlService } from '@/lib/services/FeatureControlService';
+import { RateLimiter, IRateLimitResult } from './rate-limiter';
+import { TwoFactorManager, IRequestContext } from './two-factor';
+
+/**
+ * API key as shown to its owner; the secret itself is never stored
+ */
+export interface IApiKeySummary {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  permissions: string[];
+  lastUsedAt?: Date | null;
+  rotatedAt?: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * API key operation result interface
+ */
+export interface IApiKeyResult {
+  success: boolean;
+  message: string;
+  key?: IApiKeySummary;
+  secret?: string; // Plain key, only returned when it is generated
+  statusCode?: number;
+}
+
+/**
+ * Result of authenticating a request with an API key
+ */
+export interface IApiKeyAuthResult {
+  success: boolean;
+  userId?: string;
+  key?: { id: string; permissions: string[] };
+  rateLimit?: IRateLimitResult;
+  error?: string;
+  statusCode?: number;
+}
+
+/**
+ * API Key Manager class for personal API keys used with the public REST API
+ * Keys act as their owner, limited to the permissions they were scoped to,
+ * and only work while the owner's plan includes API access
+ */
+export class ApiKeyManager {
+  static readonly KEY_PREFIX = 'bk_';
+  private static readonly SECRET_BYTES = 32;
+  private static readonly DISPLAY_PREFIX_LENGTH = 11;
+  private static readonly MAX_ACTIVE_KEYS = 10;
+  private static readonly FEATURE = 'api_access';
+  private static readonly RATE_LIMIT_ENDPOINT = 'apiKey';
+
+  /**
+   * Checks whether a bearer token is an API key rather than a JWT
+   */
+  static isApiKey(token: string): boolean {
+    return token.startsWith(this.KEY_PREFIX);
+  }
+
+  /**
+   * Hashes a key for storage and lookup
+   */
+  static hashKey(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+
+  /**
+   * Generates a new key
+   * @returns The plain key, the prefix shown in the UI and the hash to store
+   */
+  static generateKey(): { secret: string; keyPrefix: string; keyHash: string } {
+    const secret = `${this.KEY_PREFIX}${crypto.randomBytes(this.SECRET_BYTES).toString('base64url')}`;
+
+    return {
+      secret,
+      keyPrefix: secret.slice(0, this.DISPLAY_PREFIX_LENGTH),
+      keyHash: this.hashKey(secret)
+    };
+  }
+
+  /**
+   * Checks whether a set of granted permissions covers a required one,
+   * following the permission hierarchy (e.g. finance.manage covers finance.read)
+   * @param granted - Permissions such as a key's scopes
+   * @param permission - Required permission, e.g. PERMISSIONS.FINANCE_READ
+   */
+  static covers(granted: string[], permission: string): boolean {
+    return granted.some(grant => {
+      const [resource, action] = grant.split('.');
+      return getImpliedPermissions(resource, action).includes(permission);
+    });
+  }
+
+  /**
+   * Lists a user's active keys
+   */
+  static async listKeys(userId: string): Promise<IApiKeySummary[]> {
+    await connectDB();
+
+    const keys = await ApiKey.findActiveForUser(userId);
+    return keys.map(key => this.toSummary(key));
+  }
+
+  /**
+   * Creates a key scoped to permissions the user holds
+   * @param userId - Key owner
+   * @param name - Label to tell keys apart
+   * @param permissions - Scopes from PERMISSIONS
+   * @param context - Request context for the security log
+   * @returns Promise<IApiKeyResult> - Includes the plain key, shown once
+   */
+  static async createKey(
+    userId: string,
+    name: string,
+    permissions: string[],
+    context: IRequestContext = {}
+  ): Promise<IApiKeyResult> {
+    await connectDB();
+
+    const access = await featureControlService.validateFeatureAccess(userId, this.FEATURE);
+    if (!access.allowed) {
+      return {
+        success: false,
+        message: 'Your plan does not include API access',
+        statusCode: access.statusCode || 402
+      };
+    }
+
+    const invalid = await this.validatePermissions(userId, permissions);
+    if (invalid) {
+      return { success: false, message: invalid, statusCode: 400 };
+    }
+
+    const activeKeys = await ApiKey.countDocuments({ userId, revokedAt: null });
+    if (activeKeys >= this.MAX_ACTIVE_KEYS) {
+      return {
+        success: false,
+        message: `You can have at most ${this.MAX_ACTIVE_KEYS} active API keys`,
+        statusCode: 400
+      };
+    }
+
+    const { secret, keyPrefix, keyHash } = this.generateKey();
+    const key = await ApiKey.create({
+      userId,
+      name: name.trim(),
+      keyPrefix,
+      keyHash,
+      permissions: Array.from(new Set(permissions))
+    });
+
+    await this.logSecurityEvent('api_key_created', userId, key, context);
+
+    return {
+      success: true,
+      message: 'API key created',
+      key: this.toSummary(key),
+      secret
+    };
+  }
+
+  /**
+   * Renames a key or changes its scopes
+   */
+  static async updateKey(
+    userId: string,
+    keyId: string,
+    updates: { name?: string; permissions?: string[] },
+    context: IRequestContext = {}
+  ): Promise<IApiKeyResult> {
+    const key = await this.findOwnedKey(userId, keyId);
+    if (!key) {
+      return { success: false, message: 'API key not found', statusCode: 404 };
+    }
+
+    if (updates.permissions) {
+      const invalid = await this.validatePermissions(userId, updates.permissions);
+      if (invalid) {
+        return { success: false, message: invalid, statusCode: 400 };
+      }
+      key.permissions = Array.from(new Set(updates.permissions));
+    }
+
+    if (updates.name !== undefined) {
+      key.name = updates.name.trim();
+    }
+
+    await key.save();
+
+    if (updates.permissions) {
+      await this.logSecurityEvent('api_key_scopes_changed', userId, key, context);
+    }
+
+    return { success: true, message: 'API key updated', key: this.toSummary(key) };
+  }
+
+  /**
+   * Replaces a key's secret; the old secret stops working immediately
+   * @returns Promise<IApiKeyResult> - Includes the new plain key, shown once
+   */
+  static async rotateKey(userId: string, keyId: string, context: IRequestContext = {}): Promise<IApiKeyResult> {
+    const key = await this.findOwnedKey(userId, keyId);
+    if (!key) {
+      return { success: false, message: 'API key not found', statusCode: 404 };
+    }
+
+    const { secret, keyPrefix, keyHash } = this.generateKey();
+    key.keyPrefix = keyPrefix;
+    key.keyHash = keyHash;
+    key.rotatedAt = new Date();
+    await key.save();
+
+    await this.logSecurityEvent('api_key_rotated', userId, key, context);
+
+    return {
+      success: true,
+      message: 'API key rotated',
+      key: this.toSummary(key),
+      secret
+    };
+  }
+
+  /**
+   * Revokes a key for good
+   */
+  static async revokeKey(userId: string, keyId: string, context: IRequestContext = {}): Promise<IApiKeyResult> {
+    const key = await this.findOwnedKey(userId, keyId);
+    if (!key) {
+      return { success: false, message: 'API key not found', statusCode: 404 };
+    }
+
+    key.revokedAt = new Date();
+    await key.save();
+
+    await this.logSecurityEvent('api_key_revoked', userId, key, context);
+
+    return { success: true, message: 'API key revoked' };
+  }
+
+  /**
+   * Authenticates a request made with an API key
+   * The key must cover the endpoint's permission, its owner must still hold
+   * that permission and their plan must include API access
+   * @param secret - Bearer token from the request
+   * @param permission - Permission the endpoint requires; endpoints without one do not accept keys
+   * @param context - Request context, the IP is recorded as the key's last use
+   * @returns Promise<IApiKeyAuthResult>
+   */
+  static async authenticate(
+    secret: string,
+    permission: string | undefined,
+    context: IRequestContext = {}
+  ): Promise<IApiKeyAuthResult> {
+    await connectDB();
+
+    const key = await ApiKey.findActiveByHash(this.hashKey(secret));
+    if (!key) {
+      return { success: false, error: 'Invalid API key', statusCode: 401 };
+    }
+
+    const keyId = String(key._id);
+    const rateLimit = RateLimiter.checkIdentifierRateLimit(keyId, this.RATE_LIMIT_ENDPOINT);
+    if (!rateLimit.success) {
+      return { success: false, rateLimit, error: rateLimit.message, statusCode: 429 };
+    }
+
+    if (!permission) {
+      return { success: false, rateLimit, error: 'This endpoint does not accept API keys', statusCode: 403 };
+    }
+
+    if (!this.covers(key.permissions, permission)) {
+      return { success: false, rateLimit, error: `API key is not scoped for ${permission}`, statusCode: 403 };
+    }
+
+    // Scopes only narrow what the owner can do, so a role change takes effect on existing keys
+    const userPermissions = await PermissionService.getUserPermissions(key.userId);
+    if (!this.covers(userPermissions, permission)) {
+      return { success: false, rateLimit, error: 'Insufficient permissions', statusCode: 403 };
+    }
+
+    const access = await featureControlService.validateFeatureAccess(key.userId, this.FEATURE);
+    if (!access.allowed) {
+      return {
+        success: false,
+        rateLimit,
+        error: 'Your plan does not include API access',
+        statusCode: access.statusCode || 402
+      };
+    }
+
+    await ApiKey.updateOne(
+      { _id: key._id },
+      { lastUsedAt: new Date(), lastUsedIp: context.ipAddress || null }
+    );
+
+    return {
+      success: true,
+      userId: key.userId,
+      key: { id: keyId, permissions: key.permissions },
+      rateLimit
+    };
+  }
+
+  /**
+   * Checks requested scopes are known permissions the user holds
+   * @returns Promise<string | null> - Error message, or null if valid
+   */
+  private static async validatePermissions(userId: string, permissions: string[]): Promise<string | null> {
+    if (!Array.isArray(permissions) || permissions.length === 0) {
+      return 'Select at least one permission';
+    }
+
+    const known = Object.values(PERMISSIONS) as string[];
+    const unknown = permissions.filter(permission => !known.includes(permission));
+    if (unknown.length > 0) {
+      return `Invalid permission: ${unknown.join(', ')}`;
+    }
+
+    const userPermissions = await PermissionService.getUserPermissions(userId);
+    const missing = permissions.filter(permission => !this.covers(userPermissions, permission));
+    if (missing.length > 0) {
+      return `You do not have the permission: ${missing.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds an active key belonging to the user
+   */
+  private static async findOwnedKey(userId: string, keyId: string): Promise<IApiKeyDocument | null> {
+    if (!Types.ObjectId.isValid(keyId)) {
+      return null;
+    }
+
+    await connectDB();
+
+    return ApiKey.findOne({ _id: keyId, userId, revokedAt: null }).select('+keyHash');
+  }
+
+  /**
+   * Converts a key document to what its owner sees
+   */
+  private static toSummary(key: IApiKeyDocument): IApiKeySummary {
+    return {
+      id: String(key._id),
+      name: key.name,
+      keyPrefix: key.keyPrefix,
+      permissions: key.permissions,
+      lastUsedAt: key.lastUsedAt || null,
+      rotatedAt: key.rotatedAt || null,
+      createdAt: key.createdAt
+    };
+  }
+
+  /**
+   * Logs a key lifecycle event through the security audit log
+   */
+  private static async logSecurityEvent(
+    action: string,
+    userId: string,
+    key: IApiKeyDocument,
+    context: IRequestContext
+  ): Promise<void> {
+    await TwoFactorManager.logSecurityEvent(
+      action,
+      userId,
+      { keyId: String(key._id), name: key.name, keyPrefix: key.keyPrefix, permissions: key.permissions },
+      context,
+      'info'
+    );
+  }
+}
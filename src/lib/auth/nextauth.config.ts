@@ -3,6 +3,7 @@ import CredentialsProvider from 'next-auth/providers/credentials';
 import { connectDB } from '@/lib/database/connection';
 import { User, Role, Permission } from '@/lib/database/models';
 import bcrypt from 'bcryptjs';
+import { TwoFactorManager } from '@/lib/auth/two-factor';
 
 console.log('NextAuth configuration loading...');
 console.log('Environment check:', {
@@ -11,17 +12,90 @@ console.log('Environment check:', {
   NODE_ENV: process.env.NODE_ENV
 });
 
+/**
+ * Shapes a user document into the user object stored on the session token
+ */
+function toSessionUser(user: any) {
+  return {
+    id: (user._id as any).toString(),
+    email: user.email,
+    name: user.getFullName(),
+    firstName: user.firstName,
+    lastName: user.lastName,
+    designation: user.designation,
+    phone: user.phone,
+    company: user.company,
+    department: user.department,
+    bio: user.bio,
+    role: user.role ? {
+      id: (user.role as any)._id.toString(),
+      name: (user.role as any).name,
+      permissions: (user.role as any).permissions || []
+    } : undefined,
+    isEmailVerified: user.isEmailVerified,
+    profileImage: user.profileImage,
+    avatar: user.avatar,
+    status: user.status,
+    isActive: user.isActive
+  };
+}
+
+/**
+ * Second login step: the challenge token proves the password was checked,
+ * and the code (or an enrollment completed during login) proves the second factor.
+ * Throws so the sign-in result carries the reason, e.g. a temporary lock.
+ */
+async function authorizeTwoFactor(challengeToken: string, code: string | undefined, headers?: any) {
+  const challenge = TwoFactorManager.verifyChallengeToken(challengeToken);
+  if (!challenge) {
+    throw new Error('Your sign-in session expired. Please enter your password again.');
+  }
+
+  await connectDB();
+
+  if (!challenge.verified) {
+    if (!code) {
+      throw new Error('Verification code is required');
+    }
+
+    const result = await TwoFactorManager.verifyCode(challenge.userId, code, TwoFactorManager.getRequestContext(headers));
+    if (!result.success) {
+      throw new Error(result.message);
+    }
+  }
+
+  const user = await User.findById(challenge.userId).populate('role');
+  if (!user || !user.isActive) {
+    return null;
+  }
+
+  if (!await TwoFactorManager.consumeChallenge(challenge)) {
+    throw new Error('Your sign-in session expired. Please enter your password again.');
+  }
+
+  user.lastLogin = new Date();
+  await user.save();
+
+  return toSessionUser(user);
+}
+
 export const authOptions: NextAuthOptions = {
   providers: [
     CredentialsProvider({
       name: 'credentials',
       credentials: {
         email: { label: 'Email', type: 'email' },
-        password: { label: 'Password', type: 'password' }
+        password: { label: 'Password', type: 'password' },
+        challengeToken: { label: 'Challenge Token', type: 'text' },
+        code: { label: 'Verification Code', type: 'text' }
       },
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         console.log('NextAuth authorize called');
 
+        if (credentials?.challengeToken) {
+          return authorizeTwoFactor(credentials.challengeToken, credentials.code, req?.headers);
+        }
+
         if (!credentials?.email || !credentials?.password) {
           console.log('Missing credentials');
           return null;
@@ -68,32 +142,18 @@ export const authOptions: NextAuthOptions = {
             return null;
           }
 
+          // Users with two-factor must finish signing in through the challenge step
+          const twoFactor = await TwoFactorManager.getLoginRequirement(user);
+          if (twoFactor.required) {
+            console.log('Two-factor verification required for user:', user.email);
+            return null;
+          }
+
           // Update last login
           user.lastLogin = new Date();
           await user.save();
 
-          const userResult = {
-            id: (user._id as any).toString(),
-            email: user.email,
-            name: user.getFullName(),
-            firstName: user.firstName,
-            lastName: user.lastName,
-            designation: user.designation,
-            phone: user.phone,
-            company: user.company,
-            department: user.department,
-            bio: user.bio,
-            role: user.role ? {
-              id: (user.role as any)._id.toString(),
-              name: (user.role as any).name,
-              permissions: (user.role as any).permissions || []
-            } : undefined,
-            isEmailVerified: user.isEmailVerified,
-            profileImage: user.profileImage,
-            avatar: user.avatar,
-            status: user.status,
-            isActive: user.isActive
-          };
+          const userResult = toSessionUser(user);
 
           console.log('Auth successful for user:', userResult.email);
           return userResult;
@@ -142,14 +202,17 @@ export const authOptions: NextAuthOptions = {
       if (token.id && token.sub) {
         try {
           await connectDB();
-          const freshUser = await User.findById(token.id).populate('role').select('-password');
+          const freshUser = await User.findById(token.id).select('-password');
           
           if (freshUser) {
+            // Role in the active workspace, so switching workspaces updates it
+            const role = await freshUser.getRole();
+
             // Update token with fresh user data
-            token.role = freshUser.role ? {
-              id: (freshUser.role as any)._id.toString(),
-              name: (freshUser.role as any).name,
-              permissions: (freshUser.role as any).permissions || []
+            token.role = role ? {
+              id: role._id.toString(),
+              name: role.name,
+              permissions: (role.permissions || []).map((permission: any) => permission._id)
             } : undefined;
             token.firstName = freshUser.firstName;
             token.lastName = freshUser.lastName;
@@ -84,6 +84,13 @@ export class RateLimiter {
       windowMs: 60 * 60 * 1000, // 1 hour
       maxRequests: 5, // 5 emails per hour per IP
       message: 'Too many email requests. Please try again in an hour.'
+    },
+
+    // Personal API keys - counted per key wherever it is used from
+    apiKey: {
+      windowMs: 60 * 60 * 1000, // 1 hour
+      maxRequests: 1000, // 1000 requests per hour per key
+      message: 'API key rate limit exceeded. Please try again later.'
     }
   };
 
@@ -160,8 +167,32 @@ export class RateLimiter {
     const config = this.configs[endpoint] || this.configs.general;
     const ip = this.getClientIP(request);
     const key = this.generateKey(ip, endpoint, userId);
+
+    return this.consume(key, config);
+  }
+
+  /**
+   * Checks the rate limit for a caller identified by something other than its IP
+   * @param identifier - Stable caller identifier, e.g. an API key ID
+   * @param endpoint - Endpoint identifier (must match config keys)
+   * @returns IRateLimitResult - Rate limiting result
+   */
+  static checkIdentifierRateLimit(identifier: string, endpoint: string): IRateLimitResult {
+    this.cleanupExpiredEntries();
+
+    const config = this.configs[endpoint] || this.configs.general;
+
+    return this.consume(`${endpoint}:${identifier}`, config);
+  }
+
+  /**
+   * Counts a request against a tracking key
+   * @param key - Unique key for tracking
+   * @param config - Rate limit configuration to apply
+   * @returns IRateLimitResult - Rate limiting result
+   */
+  private static consume(key: string, config: IRateLimitConfig): IRateLimitResult {
     const now = Date.now();
-    const windowStart = now - config.windowMs;
     
     // Get or create entry for this key
     let entry = this.store[key];
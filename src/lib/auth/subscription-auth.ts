@@ -20,6 +20,10 @@ export interface AuthenticatedUser {
     planId: string;
     isActive: boolean;
   };
+  apiKey?: {
+    id: string;
+    permissions: string[];
+  }; // Set when the request was authenticated with a personal API key
 }
 
 export interface AuthResult {
@@ -97,47 +101,7 @@ export async function authenticateUser(request: NextRequest): Promise<AuthResult
       };
     }
 
-    // Get user from database
-    const user = await User.findById(decoded.userId);
-    if (!user) {
-      return {
-        success: false,
-        error: 'User not found',
-        statusCode: 401
-      };
-    }
-
-    // Check if user is active
-    if (!user.isActive) {
-      return {
-        success: false,
-        error: 'User account is deactivated',
-        statusCode: 403
-      };
-    }
-
-    // Get user's subscription
-    const subscription = await Subscription.findByUserId(new Types.ObjectId(user._id as string));
-
-    const authenticatedUser: AuthenticatedUser = {
-      id: (user._id as any).toString(),
-      email: user.email,
-      role: (user.role as any).name || 'user',
-      isActive: user.isActive,
-      isEmailVerified: user.isEmailVerified,
-      subscription: subscription ? {
-        id: (subscription._id as any).toString(),
-        status: subscription.status,
-        planId: (subscription.planId as any).toString(),
-        isActive: subscription.isActive()
-      } : undefined
-    };
-
-    return {
-      success: true,
-      user: authenticatedUser
-    };
-
+    return await loadAuthenticatedUser(decoded.userId);
   } catch (error: any) {
     console.error('Authentication error:', error);
 
@@ -165,6 +129,54 @@ export async function authenticateUser(request: NextRequest): Promise<AuthResult
   }
 }
 
+/**
+ * Load an active user and their subscription once their identity is established
+ */
+export async function loadAuthenticatedUser(userId: string): Promise<AuthResult> {
+  await connectDB();
+
+  // Get user from database
+  const user = await User.findById(userId);
+  if (!user) {
+    return {
+      success: false,
+      error: 'User not found',
+      statusCode: 401
+    };
+  }
+
+  // Check if user is active
+  if (!user.isActive) {
+    return {
+      success: false,
+      error: 'User account is deactivated',
+      statusCode: 403
+    };
+  }
+
+  // Get user's subscription
+  const subscription = await Subscription.findByUserId(new Types.ObjectId(user._id as string));
+
+  const authenticatedUser: AuthenticatedUser = {
+    id: (user._id as any).toString(),
+    email: user.email,
+    role: (user.role as any).name || 'user',
+    isActive: user.isActive,
+    isEmailVerified: user.isEmailVerified,
+    subscription: subscription ? {
+      id: (subscription._id as any).toString(),
+      status: subscription.status,
+      planId: (subscription.planId as any).toString(),
+      isActive: subscription.isActive()
+    } : undefined
+  };
+
+  return {
+    success: true,
+    user: authenticatedUser
+  };
+}
+
 /**
  * Check if user has required role
  */
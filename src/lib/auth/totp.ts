@@ -0,0 +1,173 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+
+/**
+ * TOTP Manager for time-based one-time passwords (RFC 6238)
+ * Compatible with Google Authenticator, Authy, 1Password and similar apps
+ */
+export class TOTPManager {
+  private static readonly BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  private static readonly SECRET_BYTES = 20; // 160-bit secret, as recommended by RFC 4226
+  private static readonly DIGITS = 6;
+  private static readonly STEP_SECONDS = 30;
+  private static readonly ALLOWED_DRIFT_STEPS = 1; // Accept one step either side for clock drift
+  private static readonly ISSUER = 'Boami';
+
+  /**
+   * Generates a random base32-encoded secret
+   * @returns string - Base32 secret to share with the authenticator app
+   */
+  static generateSecret(): string {
+    return this.base32Encode(crypto.randomBytes(this.SECRET_BYTES));
+  }
+
+  /**
+   * Returns the time step a timestamp falls in
+   * @param timestamp - Milliseconds since epoch (default: now)
+   * @returns number - Time step counter
+   */
+  static getTimeStep(timestamp: number = Date.now()): number {
+    return Math.floor(timestamp / 1000 / this.STEP_SECONDS);
+  }
+
+  /**
+   * Generates the code for a secret at a given time step
+   * @param secret - Base32 secret
+   * @param step - Time step counter (default: current step)
+   * @returns string - Zero-padded numeric code
+   */
+  static generateCode(secret: string, step: number = this.getTimeStep()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', this.base32Decode(secret)).update(counter).digest();
+
+    // Dynamic truncation (RFC 4226 section 5.3)
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return (binary % 10 ** this.DIGITS).toString().padStart(this.DIGITS, '0');
+  }
+
+  /**
+   * Verifies a code against the secret, allowing for small clock drift
+   * @param secret - Base32 secret
+   * @param code - Code entered by the user
+   * @param lastUsedStep - Last step accepted for this secret; it and earlier steps are rejected to stop replays
+   * @param timestamp - Milliseconds since epoch (default: now)
+   * @returns number | null - The matching time step, or null if the code is invalid
+   */
+  static verifyCode(
+    secret: string,
+    code: string,
+    lastUsedStep: number | null = null,
+    timestamp: number = Date.now()
+  ): number | null {
+    const normalized = (code || '').replace(/\s+/g, '');
+    if (!new RegExp(`^\\d{${this.DIGITS}}$`).test(normalized)) {
+      return null;
+    }
+
+    const currentStep = this.getTimeStep(timestamp);
+
+    for (let drift = -this.ALLOWED_DRIFT_STEPS; drift <= this.ALLOWED_DRIFT_STEPS; drift++) {
+      const step = currentStep + drift;
+      if (lastUsedStep !== null && step <= lastUsedStep) continue;
+
+      const expected = this.generateCode(secret, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds the otpauth:// URI authenticator apps read from the QR code
+   * @param secret - Base32 secret
+   * @param accountName - Account label shown in the app, usually the email
+   * @returns string - Key URI
+   */
+  static buildOtpAuthUrl(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${this.ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.ISSUER,
+      algorithm: 'SHA1',
+      digits: String(this.DIGITS),
+      period: String(this.STEP_SECONDS)
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Renders the key URI as a QR code image
+   * @param otpAuthUrl - otpauth:// URI
+   * @returns Promise<string> - PNG data URL
+   */
+  static async generateQRCode(otpAuthUrl: string): Promise<string> {
+    return QRCode.toDataURL(otpAuthUrl, { errorCorrectionLevel: 'M', margin: 1, width: 220 });
+  }
+
+  /**
+   * Encodes bytes as unpadded base32
+   */
+  private static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (let i = 0; i < buffer.length; i++) {
+      value = (value << 8) | buffer[i];
+      bits += 8;
+
+      while (bits >= 5) {
+        output += this.BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+
+      // Keep only the bits not yet written so the accumulator cannot overflow
+      value &= (1 << bits) - 1;
+    }
+
+    if (bits > 0) {
+      output += this.BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  /**
+   * Decodes base32, ignoring case, spaces and padding
+   */
+  private static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of cleaned) {
+      const index = this.BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 character in secret');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+
+      value &= (1 << bits) - 1;
+    }
+
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,479 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { connectDB } from '@/lib/database/connection';
+import TwoFactorAuth, { ITwoFactorAuthDocument, IRecoveryCode } from '@/lib/database/models/TwoFactorAuth';
+import { User, IUserDocument } from '@/lib/database/models/User';
+import { SubscriptionLogger } from '@/lib/utils/subscription-logger';
+import { TOTPManager } from './totp';
+
+/**
+ * Two-factor status shown to the user
+ */
+export interface ITwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // Enforced by the user's role
+  recoveryCodesRemaining: number;
+  enabledAt?: Date | null;
+}
+
+/**
+ * Enrollment details for the authenticator app
+ */
+export interface ITwoFactorSetup {
+  secret: string; // For manual entry when the QR code cannot be scanned
+  otpAuthUrl: string;
+  qrCode: string; // PNG data URL
+}
+
+/**
+ * Two-factor operation result interface
+ */
+export interface ITwoFactorResult {
+  success: boolean;
+  message: string;
+  method?: 'totp' | 'recovery_code';
+  recoveryCodes?: string[]; // Plain codes, only returned when they are generated
+  locked?: boolean;
+}
+
+/**
+ * Decoded login challenge: the password step passed for this user
+ */
+export interface ITwoFactorChallenge {
+  id: string; // Token id, so the challenge can sign in only once
+  userId: string;
+  verified: boolean; // The second step was completed while enrolling during login
+}
+
+/**
+ * Where a request came from, for the security log
+ */
+export interface IRequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Two-Factor Manager class for TOTP enrollment, verification and login challenges
+ * Secrets are encrypted at rest, recovery codes are hashed and repeated failures lock verification
+ */
+export class TwoFactorManager {
+  private static readonly ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+  private static readonly CHALLENGE_EXPIRES = '5m';
+  private static readonly CHALLENGE_AUDIENCE = 'boami-2fa';
+  private static readonly RECOVERY_CODE_COUNT = 10;
+  private static readonly MAX_FAILED_ATTEMPTS = 5;
+  private static readonly LOCK_MINUTES = 15;
+  private static readonly PENDING_SECRET_MINUTES = 15;
+  private static readonly CONSUMED_CHALLENGES_KEPT = 20;
+
+  /**
+   * Extracts the client IP and user agent from request headers
+   * @param headers - Request headers
+   * @returns IRequestContext - Context for security logging
+   */
+  static getRequestContext(headers?: { get(name: string): string | null } | Record<string, any>): IRequestContext {
+    if (!headers) return {};
+
+    const read = (name: string): string | undefined => {
+      const value = typeof headers.get === 'function' ? headers.get(name) : (headers as Record<string, any>)[name];
+      return Array.isArray(value) ? value[0] : value || undefined;
+    };
+
+    return {
+      ipAddress: read('x-forwarded-for')?.split(',')[0].trim() || read('x-real-ip'),
+      userAgent: read('user-agent')
+    };
+  }
+
+  /**
+   * Decides what the second login step needs for a user whose password checked out
+   * @param user - User with the role populated
+   * @returns Promise - required when a code must be entered, setupRequired when the role enforces 2FA and the user has not enrolled
+   */
+  static async getLoginRequirement(user: IUserDocument): Promise<{ required: boolean; setupRequired: boolean }> {
+    await connectDB();
+
+    const enabled = await TwoFactorAuth.isEnabledForUser(String(user._id));
+    const enforced = Boolean((user.role as any)?.requireTwoFactor);
+
+    return {
+      required: enabled || enforced,
+      setupRequired: enforced && !enabled
+    };
+  }
+
+  /**
+   * Gets a user's two-factor status
+   * @param userId - User's ID
+   * @returns Promise<ITwoFactorStatus>
+   */
+  static async getStatus(userId: string): Promise<ITwoFactorStatus> {
+    await connectDB();
+
+    const [settings, user] = await Promise.all([
+      TwoFactorAuth.findByUserId(userId, true),
+      User.findById(userId).populate('role')
+    ]);
+
+    return {
+      enabled: Boolean(settings?.enabled),
+      required: Boolean((user?.role as any)?.requireTwoFactor),
+      recoveryCodesRemaining: settings?.enabled ? settings.remainingRecoveryCodes() : 0,
+      enabledAt: settings?.enabledAt || null
+    };
+  }
+
+  /**
+   * Starts enrollment by generating a secret the user adds to their authenticator app
+   * The secret only takes effect once confirmEnrollment receives a valid code
+   * @param userId - User's ID
+   * @param accountName - Label shown in the app, usually the email
+   * @returns Promise<ITwoFactorSetup | null> - null if two-factor is already enabled
+   */
+  static async beginEnrollment(userId: string, accountName: string): Promise<ITwoFactorSetup | null> {
+    await connectDB();
+
+    let settings = await TwoFactorAuth.findByUserId(userId, true);
+    if (settings?.enabled) {
+      return null;
+    }
+
+    const secret = TOTPManager.generateSecret();
+    if (!settings) {
+      settings = new TwoFactorAuth({ userId });
+    }
+
+    settings.pendingSecret = this.encryptSecret(secret);
+    settings.pendingCreatedAt = new Date();
+    await settings.save();
+
+    const otpAuthUrl = TOTPManager.buildOtpAuthUrl(secret, accountName);
+
+    return {
+      secret,
+      otpAuthUrl,
+      qrCode: await TOTPManager.generateQRCode(otpAuthUrl)
+    };
+  }
+
+  /**
+   * Confirms enrollment with a code from the app and issues recovery codes
+   * @param userId - User's ID
+   * @param code - Code from the authenticator app
+   * @param context - Request origin for the security log
+   * @returns Promise<ITwoFactorResult> - Includes the plain recovery codes on success
+   */
+  static async confirmEnrollment(userId: string, code: string, context: IRequestContext = {}): Promise<ITwoFactorResult> {
+    await connectDB();
+
+    const settings = await TwoFactorAuth.findByUserId(userId, true);
+    if (!settings?.pendingSecret || !settings.pendingCreatedAt) {
+      return { success: false, message: 'Start two-factor setup before entering a code' };
+    }
+
+    if (Date.now() - settings.pendingCreatedAt.getTime() > this.PENDING_SECRET_MINUTES * 60 * 1000) {
+      return { success: false, message: 'Two-factor setup expired. Please scan a new QR code.' };
+    }
+
+    const secret = this.decryptSecret(settings.pendingSecret);
+    const step = TOTPManager.verifyCode(secret, code);
+    if (step === null) {
+      await this.logSecurityEvent('two_factor_enrollment_failed', userId, { reason: 'invalid_code' }, context);
+      return { success: false, message: 'Invalid verification code' };
+    }
+
+    const { codes, hashed } = this.generateRecoveryCodes();
+
+    settings.secret = settings.pendingSecret;
+    settings.pendingSecret = null;
+    settings.pendingCreatedAt = null;
+    settings.enabled = true;
+    settings.enabledAt = new Date();
+    settings.lastUsedStep = step;
+    settings.lastVerifiedAt = new Date();
+    settings.recoveryCodes = hashed;
+    settings.failedAttempts = 0;
+    settings.lockedUntil = null;
+    await settings.save();
+
+    await this.logSecurityEvent('two_factor_enabled', userId, { recoveryCodes: codes.length }, context, 'info');
+
+    return { success: true, message: 'Two-factor authentication enabled', method: 'totp', recoveryCodes: codes };
+  }
+
+  /**
+   * Verifies a code from the authenticator app or an unused recovery code
+   * Failures count towards a temporary lock
+   * @param userId - User's ID
+   * @param code - TOTP or recovery code
+   * @param context - Request origin for the security log
+   * @returns Promise<ITwoFactorResult>
+   */
+  static async verifyCode(userId: string, code: string, context: IRequestContext = {}): Promise<ITwoFactorResult> {
+    await connectDB();
+
+    const settings = await TwoFactorAuth.findByUserId(userId, true);
+    if (!settings?.enabled || !settings.secret) {
+      return { success: false, message: 'Two-factor authentication is not enabled' };
+    }
+
+    if (settings.isLocked()) {
+      await this.logSecurityEvent('two_factor_locked_attempt', userId, { lockedUntil: settings.lockedUntil }, context);
+      return { success: false, message: 'Too many invalid codes. Please try again later.', locked: true };
+    }
+
+    const step = TOTPManager.verifyCode(this.decryptSecret(settings.secret), code, settings.lastUsedStep ?? null);
+    if (step !== null) {
+      settings.lastUsedStep = step;
+      return this.recordSuccess(settings, 'totp');
+    }
+
+    const recoveryCode = this.findRecoveryCode(settings, code);
+    if (recoveryCode) {
+      recoveryCode.usedAt = new Date();
+      const result = await this.recordSuccess(settings, 'recovery_code');
+      await this.logSecurityEvent('two_factor_recovery_code_used', userId, {
+        recoveryCodesRemaining: settings.remainingRecoveryCodes()
+      }, context);
+      return result;
+    }
+
+    return this.recordFailure(settings, context);
+  }
+
+  /**
+   * Turns two-factor off after checking a current code
+   * Refused while the user's role enforces two-factor
+   * @param userId - User's ID
+   * @param code - TOTP or recovery code
+   * @param context - Request origin for the security log
+   * @returns Promise<ITwoFactorResult>
+   */
+  static async disable(userId: string, code: string, context: IRequestContext = {}): Promise<ITwoFactorResult> {
+    const status = await this.getStatus(userId);
+    if (status.required) {
+      return { success: false, message: 'Your role requires two-factor authentication' };
+    }
+
+    const verification = await this.verifyCode(userId, code, context);
+    if (!verification.success) {
+      return verification;
+    }
+
+    await TwoFactorAuth.deleteOne({ userId });
+    await this.logSecurityEvent('two_factor_disabled', userId, { method: verification.method }, context);
+
+    return { success: true, message: 'Two-factor authentication disabled' };
+  }
+
+  /**
+   * Replaces all recovery codes after checking a current code
+   * @param userId - User's ID
+   * @param code - TOTP or recovery code
+   * @param context - Request origin for the security log
+   * @returns Promise<ITwoFactorResult> - Includes the new plain recovery codes on success
+   */
+  static async regenerateRecoveryCodes(userId: string, code: string, context: IRequestContext = {}): Promise<ITwoFactorResult> {
+    const verification = await this.verifyCode(userId, code, context);
+    if (!verification.success) {
+      return verification;
+    }
+
+    const { codes, hashed } = this.generateRecoveryCodes();
+    await TwoFactorAuth.updateOne({ userId }, { $set: { recoveryCodes: hashed } });
+    await this.logSecurityEvent('two_factor_recovery_codes_regenerated', userId, { recoveryCodes: codes.length }, context, 'info');
+
+    return { success: true, message: 'New recovery codes generated', recoveryCodes: codes };
+  }
+
+  /**
+   * Issues a short-lived token proving the password step passed
+   * @param userId - User's ID
+   * @param verified - Whether the second step is already complete
+   * @returns string - Signed challenge token
+   */
+  static createChallengeToken(userId: string, verified: boolean = false): string {
+    return jwt.sign({ userId, verified }, this.getChallengeSecret(), {
+      expiresIn: this.CHALLENGE_EXPIRES,
+      jwtid: crypto.randomBytes(16).toString('hex'),
+      issuer: 'boami-auth',
+      audience: this.CHALLENGE_AUDIENCE
+    });
+  }
+
+  /**
+   * Verifies a challenge token
+   * @param token - Challenge token from the password step
+   * @returns ITwoFactorChallenge | null - Decoded challenge, or null if invalid or expired
+   */
+  static verifyChallengeToken(token: string): ITwoFactorChallenge | null {
+    try {
+      const payload = jwt.verify(token, this.getChallengeSecret(), {
+        issuer: 'boami-auth',
+        audience: this.CHALLENGE_AUDIENCE
+      }) as any;
+
+      return payload?.userId && payload?.jti
+        ? { id: payload.jti, userId: payload.userId, verified: Boolean(payload.verified) }
+        : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Marks a challenge as used to sign in, so the token cannot start another session
+   * @param challenge - Verified challenge
+   * @returns Promise<boolean> - False if the challenge was already used
+   */
+  static async consumeChallenge(challenge: ITwoFactorChallenge): Promise<boolean> {
+    await connectDB();
+
+    // Challenges live for minutes, so only the most recent ids need remembering
+    const result = await TwoFactorAuth.updateOne(
+      { userId: challenge.userId, consumedChallenges: { $ne: challenge.id } },
+      { $push: { consumedChallenges: { $each: [challenge.id], $slice: -this.CONSUMED_CHALLENGES_KEPT } } }
+    );
+
+    return result.modifiedCount > 0;
+  }
+
+  /**
+   * Logs a two-factor event through the security audit log
+   */
+  static async logSecurityEvent(
+    action: string,
+    userId: string,
+    details: Record<string, any>,
+    context: IRequestContext = {},
+    severity: 'info' | 'warning' | 'error' | 'critical' = 'warning'
+  ): Promise<void> {
+    await SubscriptionLogger.logSecurityActivity(action, details, {
+      userId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      severity
+    });
+  }
+
+  /**
+   * Resets the failure count after a valid code
+   */
+  private static async recordSuccess(
+    settings: ITwoFactorAuthDocument,
+    method: 'totp' | 'recovery_code'
+  ): Promise<ITwoFactorResult> {
+    settings.failedAttempts = 0;
+    settings.lockedUntil = null;
+    settings.lastVerifiedAt = new Date();
+    await settings.save();
+
+    return { success: true, message: 'Verification successful', method };
+  }
+
+  /**
+   * Counts a failed code and locks verification once the limit is reached
+   */
+  private static async recordFailure(settings: ITwoFactorAuthDocument, context: IRequestContext): Promise<ITwoFactorResult> {
+    settings.failedAttempts += 1;
+    const locked = settings.failedAttempts >= this.MAX_FAILED_ATTEMPTS;
+
+    if (locked) {
+      settings.lockedUntil = new Date(Date.now() + this.LOCK_MINUTES * 60 * 1000);
+      settings.failedAttempts = 0;
+    }
+    await settings.save();
+
+    await this.logSecurityEvent(
+      locked ? 'two_factor_locked' : 'two_factor_verification_failed',
+      settings.userId,
+      locked ? { lockedUntil: settings.lockedUntil } : { failedAttempts: settings.failedAttempts },
+      context,
+      locked ? 'error' : 'warning'
+    );
+
+    return locked
+      ? { success: false, message: `Too many invalid codes. Please try again in ${this.LOCK_MINUTES} minutes.`, locked: true }
+      : { success: false, message: 'Invalid verification code' };
+  }
+
+  /**
+   * Finds an unused recovery code matching the input
+   */
+  private static findRecoveryCode(settings: ITwoFactorAuthDocument, code: string): IRecoveryCode | undefined {
+    const hash = this.hashRecoveryCode(code);
+    return (settings.recoveryCodes || []).find(recovery => !recovery.usedAt && recovery.codeHash === hash);
+  }
+
+  /**
+   * Generates one-time recovery codes in xxxxx-xxxxx format
+   */
+  private static generateRecoveryCodes(): { codes: string[]; hashed: IRecoveryCode[] } {
+    const codes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    return {
+      codes,
+      hashed: codes.map(code => ({ codeHash: this.hashRecoveryCode(code), usedAt: null }))
+    };
+  }
+
+  /**
+   * Hashes a recovery code, ignoring case, spaces and dashes
+   */
+  private static hashRecoveryCode(code: string): string {
+    const normalized = (code || '').toLowerCase().replace(/[\s-]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  /**
+   * Encrypts a TOTP secret for storage
+   */
+  private static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(this.ENCRYPTION_ALGORITHM, this.getEncryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64');
+  }
+
+  /**
+   * Decrypts a stored TOTP secret
+   */
+  private static decryptSecret(stored: string): string {
+    const data = Buffer.from(stored, 'base64');
+    const decipher = crypto.createDecipheriv(this.ENCRYPTION_ALGORITHM, this.getEncryptionKey(), data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+
+    return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString('utf8');
+  }
+
+  /**
+   * Derives the 32-byte key used to encrypt secrets
+   * @throws {Error} If no key material is configured
+   */
+  private static getEncryptionKey(): Buffer {
+    const key = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.NEXTAUTH_SECRET || process.env.JWT_SECRET;
+    if (!key) {
+      throw new Error('TWO_FACTOR_ENCRYPTION_KEY environment variable is required');
+    }
+
+    return crypto.createHash('sha256').update(key).digest();
+  }
+
+  /**
+   * Secret used to sign challenge tokens
+   * @throws {Error} If no secret is configured
+   */
+  private static getChallengeSecret(): string {
+    const secret = process.env.NEXTAUTH_SECRET || process.env.JWT_SECRET;
+    if (!secret) {
+      throw new Error('NEXTAUTH_SECRET or JWT_SECRET environment variable is required');
+    }
+
+    return `${secret}:two-factor`;
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Currency constants for finance records and reporting
+ * Matches the currencies accepted by Plan and Transaction
+ */
+
+export const SUPPORTED_CURRENCIES = ['NGN', 'USD', 'GHS', 'KES', 'UGX', 'TZS'] as const;
+
+export type CurrencyCode = typeof SUPPORTED_CURRENCIES[number];
+
+/**
+ * Reporting currency for accounts that have not chosen one
+ * Amounts recorded before currencies were tracked are treated as this currency
+ */
+export const DEFAULT_BASE_CURRENCY: CurrencyCode = 'USD';
+
+export const isSupportedCurrency = (value: unknown): value is CurrencyCode =>
+  typeof value === 'string' && (SUPPORTED_CURRENCIES as readonly string[]).includes(value.toUpperCase());
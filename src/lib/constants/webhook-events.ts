@@ -0,0 +1,28 @@
+/**
+ * Event types outbound webhook endpoints can subscribe to
+ */
+
+export const WEBHOOK_EVENTS = {
+  SALE_CREATED: 'sale.created',
+  INVOICE_PAID: 'invoice.paid',
+  STOCK_ALERT_RAISED: 'stock_alert.raised',
+  PRODUCT_CREATED: 'product.created',
+  PRODUCT_UPDATED: 'product.updated',
+  PRODUCT_DELETED: 'product.deleted',
+  SUBSCRIPTION_CHANGED: 'subscription.changed'
+} as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[keyof typeof WEBHOOK_EVENTS];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEvent, string> = {
+  [WEBHOOK_EVENTS.SALE_CREATED]: 'Sale created',
+  [WEBHOOK_EVENTS.INVOICE_PAID]: 'Invoice paid',
+  [WEBHOOK_EVENTS.STOCK_ALERT_RAISED]: 'Stock alert raised',
+  [WEBHOOK_EVENTS.PRODUCT_CREATED]: 'Product created',
+  [WEBHOOK_EVENTS.PRODUCT_UPDATED]: 'Product updated',
+  [WEBHOOK_EVENTS.PRODUCT_DELETED]: 'Product deleted',
+  [WEBHOOK_EVENTS.SUBSCRIPTION_CHANGED]: 'Subscription changed'
+};
+
+export const isWebhookEvent = (value: unknown): value is WebhookEvent =>
+  typeof value === 'string' && (Object.values(WEBHOOK_EVENTS) as string[]).includes(value);
@@ -0,0 +1,166 @@
+import { Schema, Model, Query } from 'mongoose';
+
+/**
+ * Field-level audit trail
+ * Mongoose plugin that records who changed which fields of a record, from what to what,
+ * in the audit log under the "change" category.
+ *
+ * Middleware cannot see the request, so writers name the acting user: setAuditActor(doc, userId)
+ * before save(), or auditActor(userId) in the options of findOneAndUpdate/updateOne/findOneAndDelete.
+ * Changes without an actor (imports, background jobs) are logged as system changes.
+ * Records of a workspace keep its owner on each entry, so their history stays readable after deletion.
+ * updateMany, deleteMany, bulkWrite and document deleteOne() are not tracked.
+ */
+
+export interface AuditTrailOptions {
+  resource: string; // Resource name in the audit log, e.g. 'product'
+  labelField?: string; // Field that identifies the record to people, e.g. 'title'
+  ownerField?: string; // Field holding the workspace owner's user id, e.g. 'userId'
+  ignore?: string[]; // Fields not worth tracking, e.g. derived totals
+}
+
+export interface FieldChange {
+  field: string; // Dot path for nested fields
+  from: any;
+  to: any;
+}
+
+type AuditAction = 'created' | 'updated' | 'deleted';
+
+const ALWAYS_IGNORED = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+// Records as they were before a query update, until its post hook runs
+const snapshots = new WeakMap<object, any>();
+
+/**
+ * Names the user saving a document
+ */
+export function setAuditActor<T extends { $locals: Record<string, unknown> }>(doc: T, userId?: string | null): T {
+  doc.$locals.auditActor = userId || undefined;
+  return doc;
+}
+
+/**
+ * Query options naming the user running an update or delete
+ */
+export function auditActor(userId?: string | null): { auditActor?: string } {
+  return { auditActor: userId || undefined };
+}
+
+// ObjectIds become strings and dates ISO strings, so values compare and store as plain JSON
+const normalize = (value: any) => value === undefined ? null : JSON.parse(JSON.stringify(value));
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+function flatten(value: Record<string, any>, prefix: string = '', result: Record<string, any> = {}) {
+  for (const [key, nested] of Object.entries(value || {})) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(nested)) {
+      flatten(nested, path, result);
+    } else {
+      result[path] = nested;
+    }
+  }
+  return result;
+}
+
+const matchesPath = (field: string, paths: string[]) =>
+  paths.some(path => field === path || field.startsWith(`${path}.`) || path.startsWith(`${field}.`));
+
+/**
+ * Lists the fields that differ between two versions of a record
+ * Nested objects are compared field by field; arrays as a whole
+ */
+export function diffRecords(before: any, after: any, ignore: string[] = []): FieldChange[] {
+  const from = flatten(normalize(before) || {});
+  const to = flatten(normalize(after) || {});
+  const ignored = [...ALWAYS_IGNORED, ...ignore];
+
+  return Array.from(new Set([...Object.keys(from), ...Object.keys(to)]))
+    .filter(field => !matchesPath(field, ignored))
+    .filter(field => JSON.stringify(from[field] ?? null) !== JSON.stringify(to[field] ?? null))
+    .sort()
+    .map(field => ({ field, from: from[field] ?? null, to: to[field] ?? null }));
+}
+
+export function auditTrailPlugin<T>(schema: Schema<T, any>, options: AuditTrailOptions) {
+  const ignore = options.ignore || [];
+
+  const record = async (action: AuditAction, doc: any, actor?: string, changes?: FieldChange[]) => {
+    // Loaded lazily so models don't depend on the database connection module
+    const { SubscriptionLogger } = await import('@/lib/utils/subscription-logger');
+    await SubscriptionLogger.logChangeActivity(
+      `${options.resource}_${action}`,
+      {
+        label: options.labelField ? doc?.[options.labelField] : undefined,
+        changes
+      },
+      {
+        userId: actor,
+        resource: options.resource,
+        recordId: String(doc._id),
+        ownerId: options.ownerField && doc?.[options.ownerField] ? String(doc[options.ownerField]) : undefined
+      }
+    );
+  };
+
+  schema.pre('save', async function() {
+    if (this.isNew) {
+      this.$locals.auditAction = 'created';
+      return;
+    }
+
+    const paths = this.modifiedPaths().filter(path => !matchesPath(path, [...ALWAYS_IGNORED, ...ignore]));
+    if (paths.length === 0) {
+      return;
+    }
+
+    this.$locals.auditAction = 'updated';
+    this.$locals.auditPaths = paths;
+    this.$locals.auditBefore = await (this.constructor as Model<any>).findById(this._id).lean();
+  });
+
+  schema.post('save', async function(doc) {
+    const { auditAction, auditPaths, auditBefore, auditActor: actor } = doc.$locals as Record<string, any>;
+    delete doc.$locals.auditAction;
+    delete doc.$locals.auditPaths;
+    delete doc.$locals.auditBefore;
+
+    if (auditAction === 'created') {
+      await record('created', doc, actor);
+    } else if (auditAction === 'updated' && auditBefore) {
+      const changes = diffRecords(auditBefore, doc.toObject({ depopulate: true }), ignore)
+        .filter(change => matchesPath(change.field, auditPaths));
+      if (changes.length > 0) {
+        await record('updated', doc, actor, changes);
+      }
+    }
+  });
+
+  schema.pre(['findOneAndUpdate', 'updateOne'], { document: false, query: true }, async function(this: Query<any, any>) {
+    const before = await this.model.findOne(this.getFilter()).lean();
+    if (before) {
+      snapshots.set(this, before);
+    }
+  });
+
+  schema.post(['findOneAndUpdate', 'updateOne'], { document: false, query: true }, async function(this: Query<any, any>) {
+    const before = snapshots.get(this);
+    snapshots.delete(this);
+    if (!before) {
+      return;
+    }
+
+    const after = await this.model.findById(before._id).lean();
+    const changes = diffRecords(before, after, ignore);
+    if (after && changes.length > 0) {
+      await record('updated', after, this.getOptions().auditActor, changes);
+    }
+  });
+
+  schema.post('findOneAndDelete', { document: false, query: true }, async function(this: Query<any, any>, doc: any) {
+    if (doc) {
+      await record('deleted', doc, this.getOptions().auditActor);
+    }
+  });
+}
@@ -0,0 +1,134 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { PERMISSIONS } from '@/lib/constants/permissions';
+
+/**
+ * Personal API key interface
+ * Keys are stored as a SHA-256 hash; only the prefix is kept in plain text
+ * so users can tell their keys apart
+ */
+export interface IApiKey {
+  userId: string; // Reference to User; the key acts as this user
+  name: string;
+  keyPrefix: string; // First characters of the key, shown in the UI
+  keyHash: string;
+  permissions: string[]; // Subset of PERMISSIONS the key may use
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string | null;
+  rotatedAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * ApiKey document interface extending Mongoose Document
+ */
+export interface IApiKeyDocument extends IApiKey, Document {
+  isRevoked(): boolean;
+}
+
+/**
+ * ApiKey model interface with static methods
+ */
+export interface IApiKeyModel extends Model<IApiKeyDocument> {
+  findActiveByHash(keyHash: string): Promise<IApiKeyDocument | null>;
+  findActiveForUser(userId: string): Promise<IApiKeyDocument[]>;
+}
+
+/**
+ * ApiKey schema definition
+ */
+const apiKeySchema = new Schema<IApiKeyDocument, IApiKeyModel>({
+  userId: {
+    type: String,
+    required: [true, 'User ID is required'],
+    ref: 'User'
+  },
+  name: {
+    type: String,
+    required: [true, 'Key name is required'],
+    trim: true,
+    maxlength: [100, 'Key name cannot exceed 100 characters']
+  },
+  keyPrefix: {
+    type: String,
+    required: true
+  },
+  keyHash: {
+    type: String,
+    required: true,
+    unique: true,
+    select: false
+  },
+  permissions: {
+    type: [String],
+    required: true,
+    validate: [
+      {
+        validator: (permissions: string[]) => permissions.length > 0,
+        message: 'At least one permission is required'
+      },
+      {
+        validator: (permissions: string[]) =>
+          permissions.every(permission => (Object.values(PERMISSIONS) as string[]).includes(permission)),
+        message: 'Invalid permission'
+      }
+    ]
+  },
+  lastUsedAt: {
+    type: Date,
+    default: null
+  },
+  lastUsedIp: {
+    type: String,
+    default: null
+  },
+  rotatedAt: {
+    type: Date,
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).keyHash;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for listing a user's keys
+apiKeySchema.index({ userId: 1, revokedAt: 1 });
+
+/**
+ * Instance method to check whether the key was revoked
+ */
+apiKeySchema.methods.isRevoked = function(): boolean {
+  return Boolean(this.revokedAt);
+};
+
+/**
+ * Static method to find an unrevoked key by the hash of its secret
+ */
+apiKeySchema.statics.findActiveByHash = function(keyHash: string) {
+  return this.findOne({ keyHash, revokedAt: null });
+};
+
+/**
+ * Static method to list a user's unrevoked keys, newest first
+ */
+apiKeySchema.statics.findActiveForUser = function(userId: string) {
+  return this.find({ userId, revokedAt: null }).sort({ createdAt: -1 });
+};
+
+// Prevent model re-compilation during development
+const ApiKey = (mongoose.models.ApiKey ||
+  mongoose.model<IApiKeyDocument, IApiKeyModel>('ApiKey', apiKeySchema)) as IApiKeyModel;
+
+export default ApiKey;
+export { ApiKey };
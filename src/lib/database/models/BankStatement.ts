@@ -0,0 +1,124 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { BANK_STATEMENT_FORMATS, BankStatementFormat } from '@/lib/utils/bank-statement-parser';
+
+/**
+ * Bank Statement interface for an uploaded statement file
+ * Its transactions are staged as BankStatementLine documents until reconciled
+ */
+export interface IBankStatement {
+  accountName: string; // Lets one user reconcile several bank accounts
+  fileName: string;
+  format: BankStatementFormat;
+  currency?: string;
+  accountNumber?: string; // Last four digits only
+  periodStart?: Date;
+  periodEnd?: Date;
+  lineCount: number;
+  duplicateCount: number; // Lines skipped because an earlier statement already had them
+  userId: string; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Bank Statement document interface extending Mongoose Document
+ */
+export interface IBankStatementDocument extends IBankStatement, Document {
+  isOwnedBy(userId: string): boolean;
+}
+
+/**
+ * Bank Statement model interface with static methods
+ */
+export interface IBankStatementModel extends Model<IBankStatementDocument> {
+  findByUser(userId: string, accountName?: string): Promise<IBankStatementDocument[]>;
+}
+
+/**
+ * Bank Statement schema definition with validation
+ */
+const bankStatementSchema = new Schema<IBankStatementDocument, IBankStatementModel>({
+  accountName: {
+    type: String,
+    required: [true, 'Account name is required'],
+    trim: true,
+    maxlength: [100, 'Account name cannot exceed 100 characters']
+  },
+  fileName: {
+    type: String,
+    required: [true, 'File name is required'],
+    trim: true,
+    maxlength: [255, 'File name cannot exceed 255 characters']
+  },
+  format: {
+    type: String,
+    enum: {
+      values: BANK_STATEMENT_FORMATS,
+      message: `Format must be one of: ${BANK_STATEMENT_FORMATS.join(', ')}`
+    },
+    required: [true, 'Format is required']
+  },
+  currency: {
+    type: String,
+    trim: true,
+    uppercase: true
+  },
+  accountNumber: {
+    type: String,
+    trim: true,
+    maxlength: [4, 'Only the last four digits of the account number are stored']
+  },
+  periodStart: Date,
+  periodEnd: Date,
+  lineCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  duplicateCount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for efficient queries
+bankStatementSchema.index({ userId: 1, createdAt: -1 });
+bankStatementSchema.index({ userId: 1, accountName: 1, periodEnd: -1 });
+
+/**
+ * Instance method to check ownership
+ */
+bankStatementSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Static method to find a user's statements, newest first
+ */
+bankStatementSchema.statics.findByUser = function(userId: string, accountName?: string) {
+  const query: any = { userId };
+  if (accountName) {
+    query.accountName = accountName;
+  }
+  return this.find(query).sort({ periodEnd: -1, createdAt: -1 });
+};
+
+// Prevent model re-compilation during development
+const BankStatement = (mongoose.models.BankStatement ||
+  mongoose.model<IBankStatementDocument, IBankStatementModel>('BankStatement', bankStatementSchema)) as IBankStatementModel;
+
+export default BankStatement;
+export { BankStatement };
@@ -0,0 +1,208 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type BankLineStatus = 'unmatched' | 'matched' | 'created' | 'ignored';
+export type BankLineMatchType = 'income' | 'expense' | 'invoice_payment';
+
+/**
+ * Record a bank line has been reconciled against, with the details shown
+ * at match time so the line can be listed without looking the record up
+ */
+export interface IBankLineMatch {
+  type: BankLineMatchType;
+  recordId: string; // Income or Expense id, or the payment id for invoice payments
+  invoiceId?: string; // Invoice holding the payment
+  description: string;
+  amount: number;
+  date: Date;
+  score: number; // 0-1 confidence; 1 for manual matches
+  auto: boolean;
+  matchedAt: Date;
+}
+
+/**
+ * Bank Statement Line interface for one staged bank transaction
+ */
+export interface IBankStatementLine {
+  statementId: string; // Reference to BankStatement
+  accountName: string;
+  date: Date;
+  amount: number; // Positive for money in, negative for money out
+  description: string;
+  reference?: string;
+  balance?: number;
+  fingerprint: string; // Detects the same transaction in overlapping statements
+  status: BankLineStatus;
+  match?: IBankLineMatch;
+  suggestion?: { // Proposed category for creating a record from an unmatched line
+    type: 'income' | 'expense';
+    categoryId?: string;
+    vendorId?: string;
+  };
+  userId: string; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Bank Statement Line document interface extending Mongoose Document
+ */
+export interface IBankStatementLineDocument extends IBankStatementLine, Document {
+  isOwnedBy(userId: string): boolean;
+  isMoneyIn(): boolean;
+}
+
+/**
+ * Bank Statement Line model interface with static methods
+ */
+export interface IBankStatementLineModel extends Model<IBankStatementLineDocument> {
+  findByStatement(statementId: string, userId: string): Promise<IBankStatementLineDocument[]>;
+  findMatchedRecordIds(userId: string, recordIds: string[]): Promise<Set<string>>;
+}
+
+const matchSchema = new Schema<IBankLineMatch>({
+  type: {
+    type: String,
+    enum: ['income', 'expense', 'invoice_payment'],
+    required: true
+  },
+  recordId: {
+    type: String,
+    required: true
+  },
+  invoiceId: String,
+  description: String,
+  amount: Number,
+  date: Date,
+  score: {
+    type: Number,
+    min: 0,
+    max: 1
+  },
+  auto: {
+    type: Boolean,
+    default: false
+  },
+  matchedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+/**
+ * Bank Statement Line schema definition with validation
+ */
+const bankStatementLineSchema = new Schema<IBankStatementLineDocument, IBankStatementLineModel>({
+  statementId: {
+    type: String,
+    required: [true, 'Statement ID is required'],
+    ref: 'BankStatement'
+  },
+  accountName: {
+    type: String,
+    required: [true, 'Account name is required'],
+    trim: true
+  },
+  date: {
+    type: Date,
+    required: [true, 'Date is required']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Amount is required'],
+    validate: {
+      validator: (value: number) => value !== 0,
+      message: 'Amount cannot be zero'
+    }
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    trim: true,
+    maxlength: [500, 'Description cannot exceed 500 characters']
+  },
+  reference: {
+    type: String,
+    trim: true
+  },
+  balance: Number,
+  fingerprint: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['unmatched', 'matched', 'created', 'ignored'],
+    default: 'unmatched'
+  },
+  match: matchSchema,
+  suggestion: {
+    type: {
+      type: String,
+      enum: ['income', 'expense']
+    },
+    categoryId: String,
+    vendorId: String
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for efficient queries
+bankStatementLineSchema.index({ userId: 1, fingerprint: 1 }, { unique: true });
+bankStatementLineSchema.index({ statementId: 1, date: 1 });
+bankStatementLineSchema.index({ userId: 1, date: -1 });
+bankStatementLineSchema.index({ userId: 1, status: 1 });
+bankStatementLineSchema.index({ userId: 1, 'match.recordId': 1 });
+
+/**
+ * Instance method to check ownership
+ */
+bankStatementLineSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Instance method to check whether the line is a deposit
+ */
+bankStatementLineSchema.methods.isMoneyIn = function(): boolean {
+  return this.amount > 0;
+};
+
+/**
+ * Static method to find a statement's lines in date order
+ */
+bankStatementLineSchema.statics.findByStatement = function(statementId: string, userId: string) {
+  return this.find({ statementId, userId }).sort({ date: 1, createdAt: 1 });
+};
+
+/**
+ * Static method to find which of the given records a bank line is already matched to
+ */
+bankStatementLineSchema.statics.findMatchedRecordIds = async function(userId: string, recordIds: string[]): Promise<Set<string>> {
+  if (recordIds.length === 0) return new Set();
+
+  const lines = await this.find({
+    userId,
+    'match.recordId': { $in: recordIds },
+    status: { $in: ['matched', 'created'] }
+  }).select('match.recordId').lean();
+
+  return new Set(lines.map((line: any) => line.match.recordId));
+};
+
+// Prevent model re-compilation during development
+const BankStatementLine = (mongoose.models.BankStatementLine ||
+  mongoose.model<IBankStatementLineDocument, IBankStatementLineModel>('BankStatementLine', bankStatementLineSchema)) as IBankStatementLineModel;
+
+export default BankStatementLine;
+export { BankStatementLine };
@@ -0,0 +1,157 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type BudgetPeriod = 'monthly' | 'quarterly';
+
+/**
+ * Threshold alert already sent for one budget period, so it is only sent once
+ */
+export interface IBudgetAlert {
+  periodKey: string; // e.g. 2025-03 or 2025-Q1
+  threshold: number;
+  sentAt: Date;
+}
+
+/**
+ * Budget interface for spending targets per expense category
+ */
+export interface IBudget {
+  categoryId: string; // Reference to ExpenseCategory
+  period: BudgetPeriod;
+  amount: number;
+  thresholds: number[]; // Percentages of the budget that trigger an alert
+  isActive: boolean;
+  alertsSent: IBudgetAlert[];
+  userId: string; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Budget document interface extending Mongoose Document
+ */
+export interface IBudgetDocument extends IBudget, Document {
+  isOwnedBy(userId: string): boolean;
+  hasAlerted(periodKey: string, threshold: number): boolean;
+}
+
+/**
+ * Budget model interface with static methods
+ */
+export interface IBudgetModel extends Model<IBudgetDocument> {
+  findByUser(userId: string): Promise<IBudgetDocument[]>;
+  findActiveForCategory(userId: string, categoryId: string): Promise<IBudgetDocument[]>;
+}
+
+const budgetAlertSchema = new Schema<IBudgetAlert>({
+  periodKey: {
+    type: String,
+    required: true
+  },
+  threshold: {
+    type: Number,
+    required: true
+  },
+  sentAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+/**
+ * Budget schema definition with validation
+ */
+const budgetSchema = new Schema<IBudgetDocument, IBudgetModel>({
+  categoryId: {
+    type: String,
+    required: [true, 'Category is required'],
+    ref: 'ExpenseCategory'
+  },
+  period: {
+    type: String,
+    enum: {
+      values: ['monthly', 'quarterly'],
+      message: 'Period must be monthly or quarterly'
+    },
+    required: [true, 'Period is required']
+  },
+  amount: {
+    type: Number,
+    required: [true, 'Budget amount is required'],
+    min: [0.01, 'Budget amount must be greater than 0']
+  },
+  thresholds: {
+    type: [Number],
+    default: [80, 100],
+    validate: {
+      validator: (values: number[]) => values.length > 0 && values.every(value => value > 0 && value <= 1000),
+      message: 'Thresholds must be percentages between 1 and 1000'
+    }
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  alertsSent: {
+    type: [budgetAlertSchema],
+    default: []
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      delete (ret as any).alertsSent;
+      return ret;
+    }
+  }
+});
+
+// One budget per category and period
+budgetSchema.index({ userId: 1, categoryId: 1, period: 1 }, { unique: true });
+
+// Keep thresholds sorted and free of duplicates
+budgetSchema.pre('save', function(next) {
+  if (this.isModified('thresholds')) {
+    this.thresholds = Array.from(new Set(this.thresholds)).sort((a, b) => a - b);
+  }
+  next();
+});
+
+/**
+ * Instance method to check ownership
+ */
+budgetSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Instance method to check whether a threshold alert went out for a period
+ */
+budgetSchema.methods.hasAlerted = function(periodKey: string, threshold: number): boolean {
+  return this.alertsSent.some((alert: IBudgetAlert) => alert.periodKey === periodKey && alert.threshold === threshold);
+};
+
+/**
+ * Static method to find all budgets for a user
+ */
+budgetSchema.statics.findByUser = function(userId: string) {
+  return this.find({ userId }).sort({ period: 1, createdAt: 1 });
+};
+
+/**
+ * Static method to find the active budgets covering a category
+ */
+budgetSchema.statics.findActiveForCategory = function(userId: string, categoryId: string) {
+  return this.find({ userId, categoryId, isActive: true });
+};
+
+// Prevent model re-compilation during development
+const Budget = (mongoose.models.Budget ||
+  mongoose.model<IBudgetDocument, IBudgetModel>('Budget', budgetSchema)) as IBudgetModel;
+
+export default Budget;
+export { Budget };
@@ -0,0 +1,188 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type CategorizationRuleType = 'income' | 'expense';
+
+/**
+ * Conditions a record must meet for the rule to apply; every condition set must match
+ */
+export interface ICategorizationRuleConditions {
+  descriptionContains?: string; // Case-insensitive substring
+  descriptionPattern?: string; // Case-insensitive regular expression
+  minAmount?: number;
+  maxAmount?: number;
+  vendorId?: string; // Expenses already assigned to this vendor
+}
+
+/**
+ * Categorization Rule interface for assigning categories and vendors automatically
+ */
+export interface ICategorizationRule {
+  name: string;
+  type: CategorizationRuleType;
+  conditions: ICategorizationRuleConditions;
+  categoryId?: string; // IncomeCategory or ExpenseCategory to assign
+  vendorId?: string; // Vendor to assign (expense rules only)
+  priority: number; // Lower runs first; the first rule to set a field wins
+  isActive: boolean;
+  userId: string; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Categorization Rule document interface extending Mongoose Document
+ */
+export interface ICategorizationRuleDocument extends ICategorizationRule, Document {
+  isOwnedBy(userId: string): boolean;
+}
+
+/**
+ * Categorization Rule model interface with static methods
+ */
+export interface ICategorizationRuleModel extends Model<ICategorizationRuleDocument> {
+  findByUser(userId: string, type?: CategorizationRuleType): Promise<ICategorizationRuleDocument[]>;
+  findActiveByUser(userId: string, type: CategorizationRuleType): Promise<ICategorizationRuleDocument[]>;
+}
+
+/**
+ * Categorization Rule schema definition with validation
+ */
+const categorizationRuleSchema = new Schema<ICategorizationRuleDocument, ICategorizationRuleModel>({
+  name: {
+    type: String,
+    required: [true, 'Rule name is required'],
+    trim: true,
+    maxlength: [100, 'Rule name cannot exceed 100 characters']
+  },
+  type: {
+    type: String,
+    enum: {
+      values: ['income', 'expense'],
+      message: 'Rule type must be income or expense'
+    },
+    required: [true, 'Rule type is required']
+  },
+  conditions: {
+    descriptionContains: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Description text cannot exceed 200 characters']
+    },
+    descriptionPattern: {
+      type: String,
+      maxlength: [200, 'Description pattern cannot exceed 200 characters'],
+      validate: {
+        validator: function(value: string) {
+          if (!value) return true;
+          try {
+            new RegExp(value, 'i');
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        message: 'Description pattern is not a valid regular expression'
+      }
+    },
+    minAmount: {
+      type: Number,
+      min: [0, 'Minimum amount cannot be negative']
+    },
+    maxAmount: {
+      type: Number,
+      min: [0, 'Maximum amount cannot be negative']
+    },
+    vendorId: {
+      type: String,
+      ref: 'Vendor'
+    }
+  },
+  categoryId: {
+    type: String
+  },
+  vendorId: {
+    type: String,
+    ref: 'Vendor'
+  },
+  priority: {
+    type: Number,
+    default: 100
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for efficient queries
+categorizationRuleSchema.index({ userId: 1, type: 1, isActive: 1, priority: 1 });
+
+// Pre-validate middleware to require at least one condition and one assignment
+categorizationRuleSchema.pre('validate', function(next) {
+  const { descriptionContains, descriptionPattern, minAmount, maxAmount, vendorId } = this.conditions || {};
+  const hasCondition = Boolean(descriptionContains || descriptionPattern || vendorId) ||
+    minAmount !== undefined && minAmount !== null ||
+    maxAmount !== undefined && maxAmount !== null;
+
+  if (!hasCondition) {
+    this.invalidate('conditions', 'A rule needs at least one condition');
+  }
+
+  if (!this.categoryId && !this.vendorId) {
+    this.invalidate('categoryId', 'A rule must assign a category or a vendor');
+  }
+
+  if (this.type === 'income' && (this.vendorId || vendorId)) {
+    this.invalidate('vendorId', 'Vendors only apply to expense rules');
+  }
+
+  if (minAmount != null && maxAmount != null && minAmount > maxAmount) {
+    this.invalidate('conditions.maxAmount', 'Maximum amount must be greater than minimum amount');
+  }
+
+  next();
+});
+
+/**
+ * Instance method to check ownership
+ */
+categorizationRuleSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Static method to find a user's rules in the order they run
+ */
+categorizationRuleSchema.statics.findByUser = function(userId: string, type?: CategorizationRuleType) {
+  const query: any = { userId };
+  if (type) {
+    query.type = type;
+  }
+  return this.find(query).sort({ type: 1, priority: 1, createdAt: 1 });
+};
+
+/**
+ * Static method to find the active rules for one record type in the order they run
+ */
+categorizationRuleSchema.statics.findActiveByUser = function(userId: string, type: CategorizationRuleType) {
+  return this.find({ userId, type, isActive: true }).sort({ priority: 1, createdAt: 1 });
+};
+
+// Prevent model re-compilation during development
+const CategorizationRule = (mongoose.models.CategorizationRule ||
+  mongoose.model<ICategorizationRuleDocument, ICategorizationRuleModel>('CategorizationRule', categorizationRuleSchema)) as ICategorizationRuleModel;
+
+export default CategorizationRule;
+export { CategorizationRule };
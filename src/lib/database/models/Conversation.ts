@@ -0,0 +1,196 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Per-participant read marker used to compute unread counts
+ */
+export interface IConversationReadState {
+  userId: string;
+  lastReadAt: Date;
+}
+
+/**
+ * Preview of the most recent message, denormalized for conversation lists
+ */
+export interface IConversationLastMessage {
+  text: string;
+  senderId: string;
+  type: 'text' | 'image' | 'file';
+  createdAt: Date;
+}
+
+/**
+ * Conversation interface for team chat
+ * Direct conversations hold exactly two participants, groups hold two or more
+ */
+export interface IConversation {
+  type: 'direct' | 'group';
+  name?: string;
+  participants: string[]; // References to User
+  readState: IConversationReadState[];
+  lastMessage?: IConversationLastMessage;
+  lastMessageAt: Date;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Conversation document interface extending Mongoose Document
+ */
+export interface IConversationDocument extends IConversation, Document {
+  isParticipant(userId: string): boolean;
+  getLastReadAt(userId: string): Date;
+  markAsRead(userId: string, readAt?: Date): Promise<void>;
+}
+
+/**
+ * Conversation model interface with static methods
+ */
+export interface IConversationModel extends Model<IConversationDocument> {
+  findForUser(userId: string): Promise<IConversationDocument[]>;
+  findDirect(userId: string, otherUserId: string): Promise<IConversationDocument | null>;
+}
+
+const readStateSchema = new Schema<IConversationReadState>({
+  userId: {
+    type: String,
+    required: true
+  },
+  lastReadAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const lastMessageSchema = new Schema<IConversationLastMessage>({
+  text: {
+    type: String,
+    default: ''
+  },
+  senderId: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['text', 'image', 'file'],
+    default: 'text'
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+/**
+ * Conversation schema definition with validation
+ */
+const conversationSchema = new Schema<IConversationDocument, IConversationModel>({
+  type: {
+    type: String,
+    enum: {
+      values: ['direct', 'group'],
+      message: 'Conversation type must be either direct or group'
+    },
+    default: 'direct'
+  },
+  name: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Conversation name cannot exceed 100 characters']
+  },
+  participants: {
+    type: [String],
+    required: [true, 'Participants are required'],
+    validate: {
+      validator: function(this: IConversationDocument, participants: string[]) {
+        const unique = new Set(participants);
+        if (unique.size !== participants.length) return false;
+        return this.type === 'direct' ? participants.length === 2 : participants.length >= 2;
+      },
+      message: 'Direct conversations need two distinct participants, groups at least two'
+    }
+  },
+  readState: {
+    type: [readStateSchema],
+    default: []
+  },
+  lastMessage: {
+    type: lastMessageSchema,
+    default: null
+  },
+  lastMessageAt: {
+    type: Date,
+    default: Date.now
+  },
+  createdBy: {
+    type: String,
+    required: [true, 'Creator is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+conversationSchema.index({ participants: 1, lastMessageAt: -1 });
+conversationSchema.index({ type: 1, participants: 1 });
+
+/**
+ * Instance method to check conversation membership
+ */
+conversationSchema.methods.isParticipant = function(userId: string): boolean {
+  return this.participants.includes(userId);
+};
+
+/**
+ * Instance method to get when a participant last read the conversation
+ */
+conversationSchema.methods.getLastReadAt = function(userId: string): Date {
+  const state = this.readState.find((entry: IConversationReadState) => entry.userId === userId);
+  return state?.lastReadAt || new Date(0);
+};
+
+/**
+ * Instance method to mark the conversation as read for a participant
+ */
+conversationSchema.methods.markAsRead = async function(userId: string, readAt: Date = new Date()): Promise<void> {
+  const state = this.readState.find((entry: IConversationReadState) => entry.userId === userId);
+
+  if (state) {
+    state.lastReadAt = readAt;
+  } else {
+    this.readState.push({ userId, lastReadAt: readAt });
+  }
+
+  await this.save();
+};
+
+/**
+ * Static method to find conversations a user participates in
+ */
+conversationSchema.statics.findForUser = function(userId: string) {
+  return this.find({ participants: userId }).sort({ lastMessageAt: -1 });
+};
+
+/**
+ * Static method to find an existing direct conversation between two users
+ */
+conversationSchema.statics.findDirect = function(userId: string, otherUserId: string) {
+  return this.findOne({
+    type: 'direct',
+    participants: { $all: [userId, otherUserId], $size: 2 }
+  });
+};
+
+// Prevent model re-compilation during development
+const Conversation = (mongoose.models.Conversation ||
+  mongoose.model<IConversationDocument, IConversationModel>('Conversation', conversationSchema)) as IConversationModel;
+
+export default Conversation;
+export { Conversation };
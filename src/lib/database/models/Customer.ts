@@ -0,0 +1,326 @@
+import mongoose, { Document, Schema, Model, Types } from 'mongoose';
+
+export type CustomerAddressType = 'billing' | 'shipping' | 'other';
+
+/**
+ * Customer address interface
+ */
+export interface ICustomerAddress {
+  _id?: Types.ObjectId;
+  type: CustomerAddressType;
+  street?: string;
+  city?: string;
+  state?: string;
+  postalCode?: string;
+  country?: string;
+  isDefault: boolean;
+}
+
+/**
+ * Customer interface for the contacts / CRM module
+ * Invoices and sales reference customers through their customerId field
+ */
+export interface ICustomer {
+  firstName: string;
+  lastName?: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  department?: string;
+  image?: string;
+  addresses: ICustomerAddress[];
+  tags: string[];
+  notes?: string;
+  starred: boolean;
+  frequentlyContacted: boolean;
+  isDeleted: boolean;
+  userId: string; // Reference to User
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Customer document interface extending Mongoose Document
+ */
+export interface ICustomerDocument extends ICustomer, Document {
+  isOwnedBy(userId: string): boolean;
+  getFullName(): string;
+  getDefaultAddress(type?: CustomerAddressType): ICustomerAddress | null;
+  formatAddress(address?: ICustomerAddress | null): string;
+  softDelete(): Promise<void>;
+}
+
+/**
+ * Customer model interface with static methods
+ */
+export interface ICustomerModel extends Model<ICustomerDocument> {
+  findByUser(userId: string): Promise<ICustomerDocument[]>;
+  findByEmailAndUser(email: string, userId: string): Promise<ICustomerDocument | null>;
+  searchCustomers(query: string, userId: string, limit?: number): Promise<ICustomerDocument[]>;
+  getTagsByUser(userId: string): Promise<string[]>;
+}
+
+/**
+ * Escape user input for use inside a regular expression
+ */
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Customer address schema
+ */
+const customerAddressSchema = new Schema<ICustomerAddress>({
+  type: {
+    type: String,
+    enum: {
+      values: ['billing', 'shipping', 'other'],
+      message: 'Address type must be one of: billing, shipping, other'
+    },
+    default: 'billing'
+  },
+  street: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Street cannot exceed 200 characters']
+  },
+  city: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'City cannot exceed 100 characters']
+  },
+  state: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'State cannot exceed 100 characters']
+  },
+  postalCode: {
+    type: String,
+    trim: true,
+    maxlength: [20, 'Postal code cannot exceed 20 characters']
+  },
+  country: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Country cannot exceed 100 characters']
+  },
+  isDefault: {
+    type: Boolean,
+    default: false
+  }
+});
+
+/**
+ * Customer schema definition with validation and middleware
+ */
+const customerSchema = new Schema<ICustomerDocument, ICustomerModel>({
+  firstName: {
+    type: String,
+    required: [true, 'First name is required'],
+    trim: true,
+    maxlength: [100, 'First name cannot exceed 100 characters']
+  },
+  lastName: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Last name cannot exceed 100 characters'],
+    default: ''
+  },
+  email: {
+    type: String,
+    trim: true,
+    lowercase: true,
+    match: [/^\S+@\S+\.\S+$/, 'Please enter a valid email address'],
+    default: null
+  },
+  phone: {
+    type: String,
+    trim: true,
+    maxlength: [30, 'Phone number cannot exceed 30 characters'],
+    default: null
+  },
+  company: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Company cannot exceed 200 characters'],
+    default: null
+  },
+  department: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Department cannot exceed 100 characters'],
+    default: null
+  },
+  image: {
+    type: String,
+    trim: true,
+    default: null
+  },
+  addresses: {
+    type: [customerAddressSchema],
+    default: []
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [2000, 'Notes cannot exceed 2000 characters'],
+    default: null
+  },
+  starred: {
+    type: Boolean,
+    default: false
+  },
+  frequentlyContacted: {
+    type: Boolean,
+    default: false
+  },
+  isDeleted: {
+    type: Boolean,
+    default: false
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  },
+  createdBy: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for efficient user queries
+customerSchema.index({ userId: 1, isDeleted: 1, firstName: 1 });
+customerSchema.index({ userId: 1, email: 1 });
+customerSchema.index({ userId: 1, tags: 1 });
+
+/**
+ * Pre-save middleware to normalise tags and keep a single default address per type
+ */
+customerSchema.pre('save', function(next) {
+  if (this.isModified('tags')) {
+    this.tags = Array.from(new Set(
+      this.tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean)
+    ));
+  }
+
+  if (this.isModified('addresses')) {
+    const seenDefaults = new Set<string>();
+    this.addresses.forEach((address) => {
+      if (address.isDefault) {
+        if (seenDefaults.has(address.type)) {
+          address.isDefault = false;
+        } else {
+          seenDefaults.add(address.type);
+        }
+      }
+    });
+  }
+
+  next();
+});
+
+/**
+ * Instance method to check ownership
+ */
+customerSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Instance method to get the customer's display name
+ */
+customerSchema.methods.getFullName = function(): string {
+  return `${this.firstName} ${this.lastName || ''}`.trim();
+};
+
+/**
+ * Instance method to get the default address, falling back to the first one of that type
+ */
+customerSchema.methods.getDefaultAddress = function(type: CustomerAddressType = 'billing'): ICustomerAddress | null {
+  const addresses: ICustomerAddress[] = this.addresses.filter((address: ICustomerAddress) => address.type === type);
+  return addresses.find((address) => address.isDefault) || addresses[0] || null;
+};
+
+/**
+ * Instance method to format an address as a single line, e.g. for invoice billTo fields
+ */
+customerSchema.methods.formatAddress = function(address?: ICustomerAddress | null): string {
+  const target = address === undefined ? this.getDefaultAddress() : address;
+  if (!target) return '';
+
+  return [target.street, target.city, target.state, target.postalCode, target.country]
+    .filter(Boolean)
+    .join(', ');
+};
+
+/**
+ * Instance method to soft delete the customer, keeping invoice and sale links intact
+ */
+customerSchema.methods.softDelete = async function(): Promise<void> {
+  this.isDeleted = true;
+  await this.save();
+};
+
+/**
+ * Static method to find all active customers for a user
+ */
+customerSchema.statics.findByUser = function(userId: string) {
+  return this.find({ userId: userId, isDeleted: false }).sort({ firstName: 1, lastName: 1 });
+};
+
+/**
+ * Static method to find a customer by email and user
+ */
+customerSchema.statics.findByEmailAndUser = function(email: string, userId: string) {
+  return this.findOne({
+    email: email.trim().toLowerCase(),
+    userId: userId,
+    isDeleted: false
+  });
+};
+
+/**
+ * Static method to search customers by name, email, phone, company or tag
+ */
+customerSchema.statics.searchCustomers = function(query: string, userId: string, limit: number = 10) {
+  const pattern = new RegExp(escapeRegex(query.trim()), 'i');
+
+  return this.find({
+    userId: userId,
+    isDeleted: false,
+    $or: [
+      { firstName: pattern },
+      { lastName: pattern },
+      { email: pattern },
+      { phone: pattern },
+      { company: pattern },
+      { tags: pattern }
+    ]
+  }).sort({ firstName: 1, lastName: 1 }).limit(limit);
+};
+
+/**
+ * Static method to list the distinct tags used by a user's customers
+ */
+customerSchema.statics.getTagsByUser = async function(userId: string): Promise<string[]> {
+  const tags: string[] = await this.distinct('tags', { userId: userId, isDeleted: false });
+  return tags.sort();
+};
+
+// Prevent model re-compilation during development
+const Customer = (mongoose.models.Customer ||
+  mongoose.model<ICustomerDocument, ICustomerModel>('Customer', customerSchema)) as ICustomerModel;
+
+export default Customer;
+export { Customer };
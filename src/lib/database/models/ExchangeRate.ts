@@ -0,0 +1,154 @@
+import mongoose, { Document, Schema, Model, SchemaTypeOptions } from 'mongoose';
+import { SUPPORTED_CURRENCIES, CurrencyCode } from '../../constants/currencies';
+
+/**
+ * Exchange Rate interface for multi-currency reporting
+ * One unit of fromCurrency is worth `rate` units of toCurrency from effectiveDate onwards
+ */
+export interface IExchangeRate {
+  fromCurrency: CurrencyCode;
+  toCurrency: CurrencyCode;
+  rate: number;
+  effectiveDate: Date;
+  source: 'manual' | 'csv_import';
+  notes?: string;
+  userId: string; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Exchange Rate document interface extending Mongoose Document
+ */
+export interface IExchangeRateDocument extends IExchangeRate, Document {
+  isOwnedBy(userId: string): boolean;
+}
+
+/**
+ * Exchange Rate model interface with static methods
+ */
+export interface IExchangeRateModel extends Model<IExchangeRateDocument> {
+  findByUser(userId: string): Promise<IExchangeRateDocument[]>;
+  findEffectiveRate(
+    userId: string,
+    fromCurrency: CurrencyCode,
+    toCurrency: CurrencyCode,
+    date?: Date
+  ): Promise<IExchangeRateDocument | null>;
+}
+
+const currencyField = (label: string): SchemaTypeOptions<CurrencyCode> => ({
+  type: String,
+  required: [true, `${label} is required`],
+  uppercase: true,
+  enum: {
+    values: [...SUPPORTED_CURRENCIES] as CurrencyCode[],
+    message: `${label} must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`
+  }
+});
+
+/**
+ * Exchange Rate schema definition with validation
+ */
+const exchangeRateSchema = new Schema<IExchangeRateDocument, IExchangeRateModel>({
+  fromCurrency: currencyField('From currency'),
+  toCurrency: {
+    ...currencyField('To currency'),
+    validate: {
+      validator: function(this: IExchangeRateDocument, value: string) {
+        return value !== this.fromCurrency;
+      },
+      message: 'From and to currencies must be different'
+    }
+  },
+  rate: {
+    type: Number,
+    required: [true, 'Rate is required'],
+    validate: {
+      validator: function(value: number) {
+        return Number.isFinite(value) && value > 0;
+      },
+      message: 'Rate must be a valid positive number'
+    }
+  },
+  effectiveDate: {
+    type: Date,
+    required: [true, 'Effective date is required']
+  },
+  source: {
+    type: String,
+    enum: ['manual', 'csv_import'],
+    default: 'manual'
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Notes cannot exceed 200 characters']
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required'],
+    index: true
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// One rate per currency pair per day
+exchangeRateSchema.index({ userId: 1, fromCurrency: 1, toCurrency: 1, effectiveDate: -1 }, { unique: true });
+
+/**
+ * Pre-save middleware to normalise the effective date to the start of its day
+ */
+exchangeRateSchema.pre('save', function(next) {
+  if (this.isModified('effectiveDate')) {
+    const day = new Date(this.effectiveDate);
+    day.setUTCHours(0, 0, 0, 0);
+    this.effectiveDate = day;
+  }
+  next();
+});
+
+/**
+ * Instance method to check ownership
+ */
+exchangeRateSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Static method to find exchange rates by user, newest first
+ */
+exchangeRateSchema.statics.findByUser = function(userId: string) {
+  return this.find({ userId }).sort({ effectiveDate: -1, fromCurrency: 1, toCurrency: 1 });
+};
+
+/**
+ * Static method to find the rate in effect for a currency pair on a date
+ */
+exchangeRateSchema.statics.findEffectiveRate = function(
+  userId: string,
+  fromCurrency: CurrencyCode,
+  toCurrency: CurrencyCode,
+  date: Date = new Date()
+) {
+  return this.findOne({
+    userId,
+    fromCurrency,
+    toCurrency,
+    effectiveDate: { $lte: date }
+  }).sort({ effectiveDate: -1 });
+};
+
+// Prevent model re-compilation during development
+const ExchangeRate = (mongoose.models.ExchangeRate ||
+  mongoose.model<IExchangeRateDocument, IExchangeRateModel>('ExchangeRate', exchangeRateSchema)) as IExchangeRateModel;
+
+export default ExchangeRate;
+export { ExchangeRate };
@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { SUPPORTED_CURRENCIES, CurrencyCode } from '../../constants/currencies';
+import { auditTrailPlugin } from '../audit-trail';
 
 /**
  * Expense interface for financial tracking system
@@ -6,12 +8,15 @@ import mongoose, { Document, Schema, Model } from 'mongoose';
  */
 export interface IExpense {
   amount: number;
+  currency?: CurrencyCode; // Unset on records created before currencies were tracked
   description: string;
   date: Date;
   categoryId?: string; // Reference to ExpenseCategory
   vendorId?: string; // Reference to Vendor
   isRecurring: boolean;
   recurringPaymentId?: string; // Reference to RecurringPayment
+  purchaseOrderId?: string; // Reference to PurchaseOrder
+  importJobId?: string; // ImportJob that created this record
   userId: string; // Reference to User
   createdAt: Date;
   updatedAt: Date;
@@ -58,6 +63,15 @@ const expenseSchema = new Schema<IExpenseDocument, IExpenseModel>({
       message: 'Amount must be a valid positive number'
     }
   },
+  currency: {
+    type: String,
+    uppercase: true,
+    enum: {
+      values: [...SUPPORTED_CURRENCIES],
+      message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`
+    },
+    default: null
+  },
   description: {
     type: String,
     required: [true, 'Description is required'],
@@ -90,6 +104,14 @@ const expenseSchema = new Schema<IExpenseDocument, IExpenseModel>({
     type: String,
     default: null
   },
+  purchaseOrderId: {
+    type: String,
+    default: null
+  },
+  importJobId: {
+    type: String,
+    default: null
+  },
   userId: {
     type: String,
     required: [true, 'User ID is required']
@@ -111,6 +133,8 @@ expenseSchema.index({ userId: 1, date: -1 });
 expenseSchema.index({ userId: 1, categoryId: 1 });
 expenseSchema.index({ userId: 1, vendorId: 1 });
 expenseSchema.index({ userId: 1, isRecurring: 1 });
+expenseSchema.index({ userId: 1, purchaseOrderId: 1 });
+expenseSchema.index({ userId: 1, importJobId: 1 });
 
 // Text index for search functionality
 expenseSchema.index({ description: 'text' });
@@ -275,6 +299,9 @@ expenseSchema.statics.findRecurringExpenses = function(userId: string) {
   }).sort({ date: -1 });
 };
 
+// Record field-level changes in the audit log
+expenseSchema.plugin(auditTrailPlugin, { resource: 'expense', labelField: 'description', ownerField: 'userId' });
+
 // Prevent model re-compilation during development
 const Expense = (mongoose.models.Expense ||
   mongoose.model<IExpenseDocument, IExpenseModel>('Expense', expenseSchema)) as IExpenseModel;
@@ -0,0 +1,174 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export const EXPORT_TYPES = [
+  'products',
+  'sales',
+  'expenses',
+  'financial-summary',
+  'invoices',
+  'income',
+  'inventory-logs',
+  'stock-alerts',
+  'vendors'
+] as const;
+
+export type ExportType = typeof EXPORT_TYPES[number];
+
+export type ExportFormat = 'csv' | 'excel' | 'json';
+
+export type ExportJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+
+/**
+ * Export Job interface for bulk data exports
+ * Tracks one generated file from request to download and retention cleanup
+ */
+export interface IExportJob {
+  jobId: string; // Public identifier used in download links
+  type: ExportType;
+  format: ExportFormat;
+  fileName: string; // Name offered to the user when downloading
+  status: ExportJobStatus;
+  totalRecords: number;
+  processedRecords: number;
+  fileSize: number;
+  filePath?: string; // Location on disk; cleared once the file is removed
+  filters?: Record<string, any>;
+  error?: string;
+  completedAt?: Date;
+  expiresAt?: Date; // When retention cleanup removes the file
+  scheduleId?: string; // Reference to ScheduledExport for scheduled runs
+  delivery?: {
+    method: 'email' | 'link';
+    recipients: string[];
+    sentAt?: Date;
+    error?: string;
+  };
+  userId?: string; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Export Job document interface extending Mongoose Document
+ */
+export interface IExportJobDocument extends IExportJob, Document {
+  isOwnedBy(userId: string): boolean;
+}
+
+/**
+ * Export Job model interface with static methods
+ */
+export interface IExportJobModel extends Model<IExportJobDocument> {
+  findByJobId(jobId: string): Promise<IExportJobDocument | null>;
+  findExpired(now?: Date): Promise<IExportJobDocument[]>;
+}
+
+/**
+ * Export Job schema definition
+ */
+const exportJobSchema = new Schema<IExportJobDocument, IExportJobModel>({
+  jobId: {
+    type: String,
+    required: [true, 'Job ID is required'],
+    unique: true
+  },
+  type: {
+    type: String,
+    required: [true, 'Export type is required'],
+    enum: EXPORT_TYPES
+  },
+  format: {
+    type: String,
+    required: [true, 'Export format is required'],
+    enum: ['csv', 'excel', 'json']
+  },
+  fileName: {
+    type: String,
+    required: [true, 'File name is required'],
+    trim: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'processing', 'completed', 'failed', 'expired'],
+    default: 'pending'
+  },
+  totalRecords: {
+    type: Number,
+    default: 0,
+    min: [0, 'Total records cannot be negative']
+  },
+  processedRecords: {
+    type: Number,
+    default: 0,
+    min: [0, 'Processed records cannot be negative']
+  },
+  fileSize: {
+    type: Number,
+    default: 0,
+    min: [0, 'File size cannot be negative']
+  },
+  filePath: {
+    type: String,
+    select: false
+  },
+  filters: Schema.Types.Mixed,
+  error: String,
+  completedAt: Date,
+  expiresAt: Date,
+  scheduleId: String,
+  delivery: {
+    method: {
+      type: String,
+      enum: ['email', 'link']
+    },
+    recipients: [String],
+    sentAt: Date,
+    error: String
+  },
+  userId: String
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      delete (ret as any).filePath;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+exportJobSchema.index({ userId: 1, createdAt: -1 });
+exportJobSchema.index({ status: 1, expiresAt: 1 });
+exportJobSchema.index({ scheduleId: 1, createdAt: -1 });
+
+/**
+ * Instance method to check ownership
+ */
+exportJobSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Static method to find a job by its public ID
+ */
+exportJobSchema.statics.findByJobId = function(jobId: string) {
+  return this.findOne({ jobId }).select('+filePath');
+};
+
+/**
+ * Static method to find finished jobs whose retention period has passed
+ */
+exportJobSchema.statics.findExpired = function(now: Date = new Date()) {
+  return this.find({
+    status: { $in: ['completed', 'failed'] },
+    expiresAt: { $lte: now }
+  }).select('+filePath');
+};
+
+// Prevent model re-compilation during development
+const ExportJob = (mongoose.models.ExportJob ||
+  mongoose.model<IExportJobDocument, IExportJobModel>('ExportJob', exportJobSchema)) as IExportJobModel;
+
+export default ExportJob;
+export { ExportJob };
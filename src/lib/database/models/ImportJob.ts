@@ -1,9 +1,30 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+export type ImportRecordModel =
+  | 'Income'
+  | 'Expense'
+  | 'IncomeCategory'
+  | 'ExpenseCategory'
+  | 'Vendor'
+  | 'Product'
+  | 'ProductVariant';
+
+/**
+ * Outcome of undoing an import, stored on the job
+ */
+export interface IImportRollback {
+  rolledBackAt: Date;
+  rolledBackBy: string;
+  deleted: number;
+  restored: number;
+  inventoryReversed: number;
+  failures: string[]; // Records that could not be undone
+}
+
 export interface IImportJob extends Document {
   jobId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
-  type: 'income' | 'expense';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'rolled_back';
+  type: 'income' | 'expense' | 'products';
   totalRows: number;
   processedRows: number;
   successfulRows: number;
@@ -42,6 +63,18 @@ export interface IImportJob extends Document {
     skipInvalidRows?: boolean;
     dateFormat?: string;
   };
+
+  // Rollback tracking; income and expense rows are found by their importJobId instead
+  createdRecords: Array<{
+    model: ImportRecordModel;
+    recordId: string;
+  }>;
+  updatedRecords: Array<{
+    model: ImportRecordModel;
+    recordId: string;
+    previous: Record<string, any>; // Field values before the import changed them
+  }>;
+  rollback?: IImportRollback;
 }
 
 export interface IImportJobModel extends mongoose.Model<IImportJob> {
@@ -63,13 +96,13 @@ const ImportJobSchema = new Schema<IImportJob>({
   status: {
     type: String,
     required: true,
-    enum: ['pending', 'processing', 'completed', 'failed'],
+    enum: ['pending', 'processing', 'completed', 'failed', 'rolled_back'],
     default: 'pending'
   },
   type: {
     type: String,
     required: true,
-    enum: ['income', 'expense']
+    enum: ['income', 'expense', 'products']
   },
   totalRows: {
     type: Number,
@@ -194,6 +227,41 @@ const ImportJobSchema = new Schema<IImportJob>({
     dateFormat: {
       type: String
     }
+  },
+
+  createdRecords: [{
+    _id: false,
+    model: {
+      type: String,
+      required: true
+    },
+    recordId: {
+      type: String,
+      required: true
+    }
+  }],
+  updatedRecords: [{
+    _id: false,
+    model: {
+      type: String,
+      required: true
+    },
+    recordId: {
+      type: String,
+      required: true
+    },
+    previous: {
+      type: Schema.Types.Mixed,
+      default: {}
+    }
+  }],
+  rollback: {
+    rolledBackAt: Date,
+    rolledBackBy: String,
+    deleted: Number,
+    restored: Number,
+    inventoryReversed: Number,
+    failures: [String]
   }
 }, {
   timestamps: true,
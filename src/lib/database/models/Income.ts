@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { SUPPORTED_CURRENCIES, CurrencyCode } from '../../constants/currencies';
+import { auditTrailPlugin } from '../audit-trail';
 
 /**
  * Income interface for financial tracking system
@@ -6,12 +8,16 @@ import mongoose, { Document, Schema, Model } from 'mongoose';
  */
 export interface IIncome {
   amount: number;
+  currency?: CurrencyCode; // Unset on records created before currencies were tracked
   description: string;
   date: Date;
   categoryId: string; // Reference to IncomeCategory
   saleId?: string; // Optional reference to Sale
+  salesOrderId?: string; // Optional reference to SalesOrder
+  invoiceId?: string; // Optional reference to Invoice (payment received)
   isRecurring: boolean;
   recurringPaymentId?: string; // Reference to RecurringPayment
+  importJobId?: string; // ImportJob that created this record
   userId: string; // Reference to User
   createdAt: Date;
   updatedAt: Date;
@@ -56,6 +62,15 @@ const incomeSchema = new Schema<IIncomeDocument, IIncomeModel>({
       message: 'Amount must be a valid positive number'
     }
   },
+  currency: {
+    type: String,
+    uppercase: true,
+    enum: {
+      values: [...SUPPORTED_CURRENCIES],
+      message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`
+    },
+    default: null
+  },
   description: {
     type: String,
     required: [true, 'Description is required'],
@@ -80,6 +95,14 @@ const incomeSchema = new Schema<IIncomeDocument, IIncomeModel>({
     type: String,
     default: null
   },
+  salesOrderId: {
+    type: String,
+    default: null
+  },
+  invoiceId: {
+    type: String,
+    default: null
+  },
   isRecurring: {
     type: Boolean,
     default: false
@@ -88,6 +111,10 @@ const incomeSchema = new Schema<IIncomeDocument, IIncomeModel>({
     type: String,
     default: null
   },
+  importJobId: {
+    type: String,
+    default: null
+  },
   userId: {
     type: String,
     required: [true, 'User ID is required']
@@ -109,6 +136,9 @@ incomeSchema.index({ userId: 1, date: -1 });
 incomeSchema.index({ userId: 1, categoryId: 1 });
 incomeSchema.index({ userId: 1, isRecurring: 1 });
 incomeSchema.index({ userId: 1, saleId: 1 });
+incomeSchema.index({ userId: 1, salesOrderId: 1 });
+incomeSchema.index({ userId: 1, invoiceId: 1 });
+incomeSchema.index({ userId: 1, importJobId: 1 });
 
 // Text index for search functionality
 incomeSchema.index({ description: 'text' });
@@ -139,7 +169,7 @@ incomeSchema.methods.isOwnedBy = function(userId: string): boolean {
  * Instance method to check if income is from a sale
  */
 incomeSchema.methods.isFromSale = function(): boolean {
-  return !!this.saleId;
+  return !!this.saleId || !!this.salesOrderId;
 };
 
 /**
@@ -245,10 +275,13 @@ incomeSchema.statics.findRecurringIncome = function(userId: string) {
 incomeSchema.statics.findSalesIncome = function(userId: string) {
   return this.find({
     userId: userId,
-    saleId: { $ne: null }
+    $or: [{ saleId: { $ne: null } }, { salesOrderId: { $ne: null } }]
   }).sort({ date: -1 });
 };
 
+// Record field-level changes in the audit log
+incomeSchema.plugin(auditTrailPlugin, { resource: 'income', labelField: 'description', ownerField: 'userId' });
+
 // Prevent model re-compilation during development
 const Income = (mongoose.models.Income ||
   mongoose.model<IIncomeDocument, IIncomeModel>('Income', incomeSchema)) as IIncomeModel;
@@ -10,7 +10,7 @@ export interface IInventoryLog {
   sku: string; // SKU for easy identification
   
   // Change details
-  type: 'adjustment' | 'sale' | 'return' | 'damage' | 'restock' | 'reservation' | 'release' | 'import';
+  type: 'adjustment' | 'sale' | 'return' | 'damage' | 'restock' | 'reservation' | 'release' | 'import' | 'transfer';
   quantityBefore: number;
   quantityChange: number; // Positive for increase, negative for decrease
   quantityAfter: number;
@@ -18,6 +18,7 @@ export interface IInventoryLog {
   // Reference information
   orderId?: string; // If related to an order
   importJobId?: string; // If related to a bulk import
+  transferId?: string; // Shared by both entries of a warehouse transfer
   userId: string; // Who made the change
   reason?: string; // Optional reason for manual adjustments
   
@@ -85,7 +86,7 @@ const inventoryLogSchema = new Schema<IInventoryLogDocument, IInventoryLogModel>
   
   type: {
     type: String,
-    enum: ['adjustment', 'sale', 'return', 'damage', 'restock', 'reservation', 'release', 'import'],
+    enum: ['adjustment', 'sale', 'return', 'damage', 'restock', 'reservation', 'release', 'import', 'transfer'],
     required: [true, 'Type is required']
   },
   quantityBefore: {
@@ -111,6 +112,10 @@ const inventoryLogSchema = new Schema<IInventoryLogDocument, IInventoryLogModel>
     type: String,
     sparse: true
   },
+  transferId: {
+    type: String,
+    sparse: true
+  },
   userId: {
     type: String,
     required: [true, 'User ID is required']
@@ -160,6 +165,7 @@ inventoryLogSchema.index({ source: 1, createdAt: -1 });
 inventoryLogSchema.index({ userId: 1, createdAt: -1 });
 inventoryLogSchema.index({ orderId: 1 });
 inventoryLogSchema.index({ importJobId: 1 });
+inventoryLogSchema.index({ location: 1, createdAt: -1 });
 inventoryLogSchema.index({ createdAt: -1 }); // For general date-based queries
 
 // Compound indexes for common queries
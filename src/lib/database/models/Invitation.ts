@@ -9,6 +9,7 @@ export interface IInvitation {
   role: Types.ObjectId; // Reference to Role
   token: string;
   invitedBy: Types.ObjectId; // Reference to User who sent invitation
+  workspace?: Types.ObjectId | null; // Reference to Workspace the invitee joins
   expiresAt: Date;
   acceptedAt?: Date;
   status: 'pending' | 'accepted' | 'expired';
@@ -34,7 +35,12 @@ export interface IInvitationModel extends Model<IInvitationDocument> {
   findByEmail(email: string): Promise<IInvitationDocument | null>;
   findPendingInvitations(): Promise<IInvitationDocument[]>;
   findExpiredInvitations(): Promise<IInvitationDocument[]>;
-  createInvitation(email: string, roleId: Types.ObjectId, invitedBy: Types.ObjectId): Promise<IInvitationDocument>;
+  createInvitation(
+    email: string,
+    roleId: Types.ObjectId,
+    invitedBy: Types.ObjectId,
+    workspaceId?: Types.ObjectId | null
+  ): Promise<IInvitationDocument>;
   cleanupExpiredInvitations(): Promise<number>;
 }
 
@@ -68,6 +74,11 @@ const invitationSchema = new Schema<IInvitationDocument, IInvitationModel>({
     ref: 'User',
     required: [true, 'InvitedBy is required']
   },
+  workspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    default: null
+  },
   expiresAt: {
     type: Date,
     required: [true, 'ExpiresAt is required'],
@@ -171,7 +182,8 @@ invitationSchema.statics.findExpiredInvitations = function() {
 invitationSchema.statics.createInvitation = async function(
   email: string,
   roleId: Types.ObjectId,
-  invitedBy: Types.ObjectId
+  invitedBy: Types.ObjectId,
+  workspaceId: Types.ObjectId | null = null
 ): Promise<IInvitationDocument> {
   const token = crypto.randomBytes(32).toString('hex');
   const expiresAt = new Date(Date.now() + 48 * 60 * 60 * 1000); // 48 hours from now
@@ -181,6 +193,7 @@ invitationSchema.statics.createInvitation = async function(
     role: roleId,
     token,
     invitedBy,
+    workspace: workspaceId,
     expiresAt,
     status: 'pending'
   });
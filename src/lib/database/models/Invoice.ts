@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { SUPPORTED_CURRENCIES, CurrencyCode } from '../../constants/currencies';
+import { auditTrailPlugin } from '../audit-trail';
 
 /**
  * Invoice item interface for individual line items
@@ -14,6 +16,38 @@ export interface IInvoiceItem {
   image?: string;
 }
 
+export type InvoiceStatus = 'Draft' | 'Pending' | 'Sent' | 'Partially Paid' | 'Paid' | 'Overdue' | 'Cancelled';
+export type InvoicePaymentMethod = 'cash' | 'card' | 'bank_transfer' | 'mobile_money' | 'cheque' | 'other';
+export type InvoiceHistoryAction = 'sent' | 'payment_recorded' | 'payment_removed';
+
+/**
+ * Invoice payment interface for the payments sub-ledger
+ */
+export interface IInvoicePayment {
+  _id?: mongoose.Types.ObjectId;
+  amount: number;
+  date: Date;
+  method: InvoicePaymentMethod;
+  reference?: string; // Transaction, cheque or receipt number
+  notes?: string;
+  incomeId?: string; // Reference to the Income recorded for this payment
+  recordedBy?: string;
+  recordedAt: Date;
+}
+
+/**
+ * Invoice history entry interface for sends and other client-facing events
+ */
+export interface IInvoiceHistoryEntry {
+  _id?: mongoose.Types.ObjectId;
+  action: InvoiceHistoryAction;
+  date: Date;
+  performedBy?: string;
+  recipient?: string; // Email address the invoice was delivered to
+  messageId?: string; // Email provider message ID
+  note?: string;
+}
+
 /**
  * Invoice interface for invoice management system
  */
@@ -32,6 +66,8 @@ export interface IInvoice {
   billToAddress?: string;
   billToPhone?: number;
   billToFax?: number;
+  customerId?: string; // Reference to Customer
+  recurringInvoiceId?: string; // Reference to the RecurringInvoice that generated this invoice
 
   // Invoice items
   orders: IInvoiceItem[];
@@ -45,9 +81,19 @@ export interface IInvoice {
   discount?: number;
   discountType?: 'percentage' | 'fixed';
   grandTotal: number;
+  currency?: CurrencyCode; // Unset on invoices created before currencies were tracked
+
+  // Payments
+  payments: IInvoicePayment[];
+  amountPaid: number;
+  balanceDue: number;
+
+  // History
+  history: IInvoiceHistoryEntry[];
+  lastSentAt?: Date;
 
   // Status and metadata
-  status: 'Draft' | 'Pending' | 'Sent' | 'Paid' | 'Overdue' | 'Cancelled';
+  status: InvoiceStatus;
   completed: boolean;
   notes?: string;
   terms?: string;
@@ -68,6 +114,9 @@ export interface IInvoiceDocument extends IInvoice, Document {
   calculateVat(): number;
   calculateGrandTotal(): number;
   isOverdue(): boolean;
+  calculateAmountPaid(): number;
+  applyPayments(): void;
+  addHistory(action: InvoiceHistoryAction, entry?: Omit<IInvoiceHistoryEntry, 'action' | 'date'>): IInvoiceHistoryEntry;
   markAsPaid(): Promise<void>;
   markAsOverdue(): Promise<void>;
   generateInvoiceNumber(): string;
@@ -83,8 +132,109 @@ export interface IInvoiceModel extends Model<IInvoiceDocument> {
   findInvoicesByStatus(status: string): Promise<IInvoiceDocument[]>;
   findInvoicesInDateRange(startDate: Date, endDate: Date): Promise<IInvoiceDocument[]>;
   getNextInvoiceNumber(): Promise<string>;
+  getCustomerSummary(customerId: string, userId: string): Promise<ICustomerInvoiceSummary>;
 }
 
+/**
+ * Lifetime invoice totals for a single customer
+ */
+export interface ICustomerInvoiceSummary {
+  invoiceCount: number;
+  totalInvoiced: number;
+  totalPaid: number;
+  outstandingBalance: number;
+}
+
+/**
+ * Derives the invoice status from the amount paid against its grand total.
+ * Removing every payment returns a paid invoice to Sent.
+ */
+export const getPaymentStatus = (grandTotal: number, amountPaid: number, currentStatus: InvoiceStatus): InvoiceStatus => {
+  if (amountPaid > 0 && Math.round((grandTotal - amountPaid) * 100) <= 0) return 'Paid';
+  if (amountPaid > 0) return 'Partially Paid';
+  return ['Paid', 'Partially Paid'].includes(currentStatus) ? 'Sent' : currentStatus;
+};
+
+/**
+ * Invoice payment schema
+ */
+const invoicePaymentSchema = new Schema<IInvoicePayment>({
+  amount: {
+    type: Number,
+    required: [true, 'Payment amount is required'],
+    min: [0.01, 'Payment amount must be greater than 0']
+  },
+  date: {
+    type: Date,
+    required: [true, 'Payment date is required'],
+    default: Date.now
+  },
+  method: {
+    type: String,
+    enum: {
+      values: ['cash', 'card', 'bank_transfer', 'mobile_money', 'cheque', 'other'],
+      message: 'Payment method must be one of: cash, card, bank_transfer, mobile_money, cheque, other'
+    },
+    default: 'bank_transfer'
+  },
+  reference: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Reference cannot exceed 100 characters']
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  },
+  incomeId: {
+    type: String,
+    ref: 'Income',
+    default: null
+  },
+  recordedBy: {
+    type: String,
+    trim: true
+  },
+  recordedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+/**
+ * Invoice history entry schema
+ */
+const invoiceHistorySchema = new Schema<IInvoiceHistoryEntry>({
+  action: {
+    type: String,
+    enum: ['sent', 'payment_recorded', 'payment_removed'],
+    required: [true, 'History action is required']
+  },
+  date: {
+    type: Date,
+    default: Date.now
+  },
+  performedBy: {
+    type: String,
+    trim: true
+  },
+  recipient: {
+    type: String,
+    trim: true,
+    lowercase: true
+  },
+  messageId: {
+    type: String,
+    trim: true
+  },
+  note: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'History note cannot exceed 500 characters']
+  }
+});
+
 /**
  * Invoice item schema
  */
@@ -187,6 +337,16 @@ const invoiceSchema = new Schema<IInvoiceDocument, IInvoiceModel>({
   billToFax: {
     type: Number
   },
+  customerId: {
+    type: String,
+    ref: 'Customer',
+    default: null
+  },
+  recurringInvoiceId: {
+    type: String,
+    ref: 'RecurringInvoice',
+    default: null
+  },
 
   // Invoice items
   orders: {
@@ -250,11 +410,46 @@ const invoiceSchema = new Schema<IInvoiceDocument, IInvoiceModel>({
     required: [true, 'Grand total is required'],
     min: [0, 'Grand total must be positive']
   },
+  currency: {
+    type: String,
+    uppercase: true,
+    enum: {
+      values: [...SUPPORTED_CURRENCIES],
+      message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`
+    },
+    default: null
+  },
+
+  // Payments
+  payments: {
+    type: [invoicePaymentSchema],
+    default: []
+  },
+  amountPaid: {
+    type: Number,
+    min: [0, 'Amount paid cannot be negative'],
+    default: 0
+  },
+  balanceDue: {
+    type: Number,
+    min: [0, 'Balance due cannot be negative'],
+    default: 0
+  },
+
+  // History
+  history: {
+    type: [invoiceHistorySchema],
+    default: []
+  },
+  lastSentAt: {
+    type: Date,
+    default: null
+  },
 
   // Status and metadata
   status: {
     type: String,
-    enum: ['Draft', 'Pending', 'Sent', 'Paid', 'Overdue', 'Cancelled'],
+    enum: ['Draft', 'Pending', 'Sent', 'Partially Paid', 'Paid', 'Overdue', 'Cancelled'],
     default: 'Draft'
   },
   completed: {
@@ -300,6 +495,8 @@ invoiceSchema.index({ orderDate: -1 });
 invoiceSchema.index({ dueDate: 1, status: 1 });
 invoiceSchema.index({ status: 1, createdAt: -1 });
 invoiceSchema.index({ billToEmail: 1 });
+invoiceSchema.index({ userId: 1, customerId: 1 });
+invoiceSchema.index({ recurringInvoiceId: 1, orderDate: -1 });
 
 /**
  * Pre-save middleware to calculate totals and generate invoice number
@@ -315,6 +512,14 @@ invoiceSchema.pre('save', async function(next) {
   this.vat = this.calculateVat();
   this.grandTotal = this.calculateGrandTotal();
 
+  // Keep the paid amount, balance and payment status in step with the ledger
+  if (this.isModified('payments') || this.isNew) {
+    this.applyPayments();
+  } else {
+    this.amountPaid = this.calculateAmountPaid();
+    this.balanceDue = Math.max(0, Math.round((this.grandTotal - this.amountPaid) * 100) / 100);
+  }
+
   // Check if invoice is overdue
   if (this.dueDate && this.dueDate < new Date() && this.status === 'Sent') {
     this.status = 'Overdue';
@@ -378,12 +583,58 @@ invoiceSchema.methods.isOverdue = function(): boolean {
 };
 
 /**
- * Instance method to mark invoice as paid
+ * Instance method to sum recorded payments
+ */
+invoiceSchema.methods.calculateAmountPaid = function(): number {
+  const total = (this.payments || []).reduce((sum: number, payment: IInvoicePayment) => sum + payment.amount, 0);
+  return Math.round(total * 100) / 100;
+};
+
+/**
+ * Instance method to refresh amount paid, balance due and the payment status
+ */
+invoiceSchema.methods.applyPayments = function(): void {
+  this.amountPaid = this.calculateAmountPaid();
+  this.balanceDue = Math.max(0, Math.round((this.grandTotal - this.amountPaid) * 100) / 100);
+
+  if (this.status === 'Cancelled') return;
+
+  // Invoices marked paid before the payments ledger existed have no payments to derive from
+  if (this.payments.length === 0 && this.status === 'Paid') {
+    this.balanceDue = 0;
+    return;
+  }
+
+  this.status = getPaymentStatus(this.grandTotal, this.amountPaid, this.status);
+  this.completed = this.status === 'Paid';
+};
+
+/**
+ * Instance method to append an entry to the invoice history (does not save)
+ */
+invoiceSchema.methods.addHistory = function(
+  action: InvoiceHistoryAction,
+  entry: Omit<IInvoiceHistoryEntry, 'action' | 'date'> = {}
+): IInvoiceHistoryEntry {
+  this.history.push({ ...entry, action, date: new Date() });
+  return this.history[this.history.length - 1];
+};
+
+/**
+ * Instance method to mark invoice as paid, recording the outstanding balance as a payment
  */
 invoiceSchema.methods.markAsPaid = async function(): Promise<void> {
-  this.status = 'Paid';
-  this.completed = true;
-  await this.save();
+  // Loaded lazily, as the payment service depends on this model
+  const { InvoicePaymentService } = await import('@/lib/services/InvoicePaymentService');
+  const result = await InvoicePaymentService.markAsPaid(this as IInvoiceDocument);
+  if (!result.success) {
+    throw new Error(result.error?.message);
+  }
+
+  // Payments are saved by an update, so this copy picks up the stored ledger
+  if (result.invoice && result.invoice !== this) {
+    this.init(result.invoice.toObject());
+  }
 };
 
 /**
@@ -474,6 +725,55 @@ invoiceSchema.statics.getNextInvoiceNumber = async function(): Promise<string> {
   return `${prefix}-${nextNumber.toString().padStart(3, '0')}`;
 };
 
+/**
+ * Static method to get lifetime invoice totals for a customer
+ * Cancelled invoices are ignored and drafts do not count towards the outstanding balance
+ */
+invoiceSchema.statics.getCustomerSummary = async function(customerId: string, userId: string): Promise<ICustomerInvoiceSummary> {
+  const result = await this.aggregate([
+    { $match: { customerId: customerId, userId: userId, status: { $ne: 'Cancelled' } } },
+    {
+      $group: {
+        _id: null,
+        invoiceCount: { $sum: 1 },
+        totalInvoiced: { $sum: '$grandTotal' },
+        totalPaid: {
+          $sum: {
+            $cond: [
+              { $eq: ['$status', 'Paid'] },
+              '$grandTotal',
+              { $ifNull: ['$amountPaid', 0] }
+            ]
+          }
+        },
+        outstandingBalance: {
+          $sum: {
+            $cond: [
+              { $in: ['$status', ['Pending', 'Sent', 'Partially Paid', 'Overdue']] },
+              { $subtract: ['$grandTotal', { $ifNull: ['$amountPaid', 0] }] },
+              0
+            ]
+          }
+        }
+      }
+    }
+  ]);
+
+  if (result.length === 0) {
+    return { invoiceCount: 0, totalInvoiced: 0, totalPaid: 0, outstandingBalance: 0 };
+  }
+
+  return {
+    invoiceCount: result[0].invoiceCount,
+    totalInvoiced: Math.round(result[0].totalInvoiced * 100) / 100,
+    totalPaid: Math.round(result[0].totalPaid * 100) / 100,
+    outstandingBalance: Math.round(result[0].outstandingBalance * 100) / 100
+  };
+};
+
+// Record field-level changes in the audit log
+invoiceSchema.plugin(auditTrailPlugin, { resource: 'invoice', labelField: 'invoiceNumber', ownerField: 'userId', ignore: ['history', 'updatedBy'] });
+
 // Prevent model re-compilation during development
 const Invoice = (mongoose.models.Invoice ||
   mongoose.model<IInvoiceDocument, IInvoiceModel>('Invoice', invoiceSchema)) as IInvoiceModel;
@@ -0,0 +1,165 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Attachment uploaded through the chat attachment endpoint
+ */
+export interface IMessageAttachment {
+  url: string;
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
+/**
+ * Message interface for team chat conversations
+ */
+export interface IMessage {
+  conversationId: string; // Reference to Conversation
+  senderId: string; // Reference to User
+  text: string;
+  type: 'text' | 'image' | 'file';
+  attachments: IMessageAttachment[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Message document interface extending Mongoose Document
+ */
+export interface IMessageDocument extends IMessage, Document {
+  isSentBy(userId: string): boolean;
+}
+
+/**
+ * Message model interface with static methods
+ */
+export interface IMessageModel extends Model<IMessageDocument> {
+  findByConversation(conversationId: string, options?: { before?: Date; after?: Date; limit?: number }): Promise<IMessageDocument[]>;
+  countUnread(conversationId: string, userId: string, lastReadAt: Date): Promise<number>;
+}
+
+const attachmentSchema = new Schema<IMessageAttachment>({
+  url: {
+    type: String,
+    required: [true, 'Attachment URL is required'],
+    trim: true
+  },
+  name: {
+    type: String,
+    required: [true, 'Attachment name is required'],
+    trim: true
+  },
+  size: {
+    type: Number,
+    min: [0, 'Attachment size cannot be negative'],
+    default: 0
+  },
+  mimeType: {
+    type: String,
+    trim: true,
+    default: 'application/octet-stream'
+  }
+}, { _id: false });
+
+/**
+ * Message schema definition with validation
+ */
+const messageSchema = new Schema<IMessageDocument, IMessageModel>({
+  conversationId: {
+    type: String,
+    required: [true, 'Conversation ID is required']
+  },
+  senderId: {
+    type: String,
+    required: [true, 'Sender ID is required']
+  },
+  text: {
+    type: String,
+    trim: true,
+    maxlength: [5000, 'Message cannot exceed 5000 characters'],
+    default: ''
+  },
+  type: {
+    type: String,
+    enum: {
+      values: ['text', 'image', 'file'],
+      message: 'Message type must be one of: text, image, file'
+    },
+    default: 'text'
+  },
+  attachments: {
+    type: [attachmentSchema],
+    default: []
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+messageSchema.index({ conversationId: 1, createdAt: -1 });
+messageSchema.index({ conversationId: 1, senderId: 1, createdAt: -1 });
+
+/**
+ * Pre-validate middleware to require either text or attachments
+ */
+messageSchema.pre('validate', function(next) {
+  if (!this.text?.trim() && (!this.attachments || this.attachments.length === 0)) {
+    this.invalidate('text', 'Message must contain text or at least one attachment');
+  }
+
+  next();
+});
+
+/**
+ * Instance method to check the sender
+ */
+messageSchema.methods.isSentBy = function(userId: string): boolean {
+  return this.senderId === userId;
+};
+
+/**
+ * Static method to page through a conversation's messages, oldest first
+ */
+messageSchema.statics.findByConversation = async function(
+  conversationId: string,
+  options: { before?: Date; after?: Date; limit?: number } = {}
+) {
+  const query: any = { conversationId };
+
+  if (options.before || options.after) {
+    query.createdAt = {};
+    if (options.before) query.createdAt.$lt = options.before;
+    if (options.after) query.createdAt.$gt = options.after;
+  }
+
+  const messages = await this.find(query)
+    .sort({ createdAt: -1 })
+    .limit(options.limit || 50)
+    .lean();
+
+  return messages.reverse();
+};
+
+/**
+ * Static method to count messages from other participants since the last read
+ */
+messageSchema.statics.countUnread = function(conversationId: string, userId: string, lastReadAt: Date) {
+  return this.countDocuments({
+    conversationId,
+    senderId: { $ne: userId },
+    createdAt: { $gt: lastReadAt }
+  });
+};
+
+// Prevent model re-compilation during development
+const Message = (mongoose.models.Message ||
+  mongoose.model<IMessageDocument, IMessageModel>('Message', messageSchema)) as IMessageModel;
+
+export default Message;
+export { Message };
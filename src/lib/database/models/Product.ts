@@ -1,4 +1,6 @@
-import mongoose, { Document, Schema, Model } from 'mongoose';
+import mongoose, { Document, Schema, Model, Query } from 'mongoose';
+import { auditTrailPlugin } from '../audit-trail';
+import { WEBHOOK_EVENTS, WebhookEvent } from '@/lib/constants/webhook-events';
 
 /**
  * Product interface for e-commerce platform with WordPress integration
@@ -69,7 +71,7 @@ export interface IProduct {
     sourceUrl: string;
     slug: string;
     lastSync: Date;
-    syncStatus: 'synced' | 'pending' | 'error' | 'never';
+    syncStatus: 'synced' | 'pending' | 'error' | 'conflict' | 'never';
     errorMessage?: string;
     dateCreated: Date;
     dateModified: Date;
@@ -83,6 +85,11 @@ export interface IProduct {
   updatedBy?: string;
 }
 
+/**
+ * Fields pushed back to WooCommerce; changing any of them queues a linked product for sync
+ */
+export const WORDPRESS_SYNCED_FIELDS = ['qty', 'stockStatus', 'manageStock', 'price', 'regularPrice', 'salePrice'] as const;
+
 /**
  * Product document interface extending Mongoose Document
  */
@@ -323,7 +330,7 @@ const productSchema = new Schema<IProductDocument, IProductModel>({
     lastSync: Date,
     syncStatus: {
       type: String,
-      enum: ['synced', 'pending', 'error', 'never'],
+      enum: ['synced', 'pending', 'error', 'conflict', 'never'],
       default: 'never'
     },
     errorMessage: String,
@@ -386,6 +393,12 @@ productSchema.pre('save', function(next) {
     }
   }
 
+  // Queue WooCommerce-linked products for outbound sync when stock or price changes locally
+  if (this.wordpress?.id && !this.isNew && !this.isModified('wordpress.syncStatus') &&
+      WORDPRESS_SYNCED_FIELDS.some(field => this.isModified(field))) {
+    this.wordpress.syncStatus = 'pending';
+  }
+
   next();
 });
 
@@ -502,6 +515,59 @@ productSchema.statics.findPendingSync = function() {
   }).sort({ 'wordpress.lastSync': 1 });
 };
 
+// Record field-level changes in the audit log
+productSchema.plugin(auditTrailPlugin, { resource: 'product', labelField: 'title', ignore: ['updatedBy'] });
+
+/**
+ * Sends a product webhook
+ * Products are written from many places (the editor, CSV and WordPress imports,
+ * WooCommerce sync, sales and stock adjustments), so the model raises the events
+ * rather than each caller. Bulk updateMany writes raise none.
+ */
+function notifyProductWebhook(event: WebhookEvent, product: any): void {
+  const data = JSON.parse(JSON.stringify(product));
+
+  // Imported lazily: the webhook service depends on models that import this one
+  import('@/lib/services/WebhookService')
+    .then(({ WebhookService }) => WebhookService.dispatchInBackground(event, data))
+    .catch(error => console.error('Failed to send product webhook:', error));
+}
+
+// Remember whether this save creates or changes the product, for the product webhooks
+productSchema.pre('save', function(next) {
+  this.$locals.webhookEvent = this.isNew
+    ? WEBHOOK_EVENTS.PRODUCT_CREATED
+    : this.isModified() ? WEBHOOK_EVENTS.PRODUCT_UPDATED : undefined;
+  next();
+});
+
+productSchema.post('save', function(doc) {
+  const event = doc.$locals.webhookEvent as WebhookEvent | undefined;
+  delete doc.$locals.webhookEvent;
+  if (event) {
+    notifyProductWebhook(event, doc);
+  }
+});
+
+productSchema.post(['findOneAndUpdate', 'updateOne'], { document: false, query: true }, async function(this: Query<any, any>, result: any) {
+  // findOneAndUpdate returns the product; updateOne only a count, so look it up by the filter's id
+  const id = result?._id || (result?.modifiedCount > 0 ? this.getFilter()._id : undefined);
+  if (!id || !mongoose.isValidObjectId(id)) {
+    return;
+  }
+
+  const product = await this.model.findById(id).lean();
+  if (product) {
+    notifyProductWebhook(WEBHOOK_EVENTS.PRODUCT_UPDATED, product);
+  }
+});
+
+productSchema.post('findOneAndDelete', { document: false, query: true }, function(doc: any) {
+  if (doc) {
+    notifyProductWebhook(WEBHOOK_EVENTS.PRODUCT_DELETED, doc);
+  }
+});
+
 // Prevent model re-compilation during development
 const Product = (mongoose.models.Product ||
   mongoose.model<IProductDocument, IProductModel>('Product', productSchema)) as IProductModel;
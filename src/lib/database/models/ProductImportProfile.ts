@@ -0,0 +1,141 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import type { ProductImportMapping, ProductImportTransforms } from '@/lib/utils/product-import-mapping';
+
+/**
+ * Product Import Profile interface for saved bulk upload column mappings
+ * One profile per supplier spreadsheet layout, so repeat uploads skip the mapping step
+ */
+export interface IProductImportProfile {
+  name: string;
+  vendorId?: string; // Reference to Vendor (the supplier)
+  headers: string[]; // Column headers of the spreadsheet the profile was saved from
+  mapping: ProductImportMapping;
+  transforms: ProductImportTransforms;
+  lastUsedAt?: Date;
+  userId: string; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Product Import Profile document interface extending Mongoose Document
+ */
+export interface IProductImportProfileDocument extends IProductImportProfile, Document {
+  isOwnedBy(userId: string): boolean;
+  matchHeaders(headers: string[]): number;
+}
+
+/**
+ * Product Import Profile model interface with static methods
+ */
+export interface IProductImportProfileModel extends Model<IProductImportProfileDocument> {
+  findByUser(userId: string, vendorId?: string): Promise<IProductImportProfileDocument[]>;
+  findBestMatch(userId: string, headers: string[]): Promise<IProductImportProfileDocument | null>;
+}
+
+// Share of a profile's mapped columns that must be present for it to be offered automatically
+const MIN_PROFILE_MATCH = 0.8;
+
+/**
+ * Product Import Profile schema definition
+ */
+const productImportProfileSchema = new Schema<IProductImportProfileDocument, IProductImportProfileModel>({
+  name: {
+    type: String,
+    required: [true, 'Profile name is required'],
+    trim: true,
+    maxlength: [100, 'Profile name cannot exceed 100 characters']
+  },
+  vendorId: String,
+  headers: {
+    type: [String],
+    default: []
+  },
+  mapping: {
+    type: Schema.Types.Mixed,
+    required: [true, 'Mapping is required'],
+    validate: {
+      validator: function(mapping: Record<string, unknown>) {
+        return !!mapping && Object.values(mapping).some(field => typeof field === 'string' && field !== '');
+      },
+      message: 'At least one column must be mapped'
+    }
+  },
+  transforms: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  lastUsedAt: Date,
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  }
+}, {
+  timestamps: true,
+  minimize: false,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+productImportProfileSchema.index({ userId: 1, name: 1 }, { unique: true });
+productImportProfileSchema.index({ userId: 1, vendorId: 1 });
+
+/**
+ * Instance method to check ownership
+ */
+productImportProfileSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Instance method returning the share (0-1) of the profile's mapped columns present in the given headers
+ */
+productImportProfileSchema.methods.matchHeaders = function(headers: string[]): number {
+  const mappedHeaders = Object.keys(this.mapping || {}).filter(header => this.mapping[header]);
+  if (mappedHeaders.length === 0) return 0;
+
+  const available = new Set(headers.map(header => header.trim().toLowerCase()));
+  const present = mappedHeaders.filter(header => available.has(header.trim().toLowerCase()));
+  return present.length / mappedHeaders.length;
+};
+
+/**
+ * Static method to find profiles for a user, optionally for one supplier
+ */
+productImportProfileSchema.statics.findByUser = function(userId: string, vendorId?: string) {
+  const query: Record<string, string> = { userId };
+  if (vendorId) query.vendorId = vendorId;
+  return this.find(query).sort({ lastUsedAt: -1, name: 1 });
+};
+
+/**
+ * Static method to find the saved profile that best fits an uploaded file's headers
+ */
+productImportProfileSchema.statics.findBestMatch = async function(userId: string, headers: string[]) {
+  const profiles: IProductImportProfileDocument[] = await this.find({ userId });
+
+  let best: IProductImportProfileDocument | null = null;
+  let bestScore = MIN_PROFILE_MATCH;
+
+  for (const profile of profiles) {
+    const score = profile.matchHeaders(headers);
+    if (score > bestScore || (score === bestScore && !best)) {
+      best = profile;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+// Prevent model re-compilation during development
+const ProductImportProfile = (mongoose.models.ProductImportProfile ||
+  mongoose.model<IProductImportProfileDocument, IProductImportProfileModel>('ProductImportProfile', productImportProfileSchema)) as IProductImportProfileModel;
+
+export default ProductImportProfile;
+export { ProductImportProfile };
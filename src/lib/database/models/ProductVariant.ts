@@ -54,14 +54,25 @@ export interface IProductVariant {
   wordpress?: {
     id: number;
     lastSync: Date;
-    syncStatus: 'synced' | 'pending' | 'error' | 'never';
+    syncStatus: 'synced' | 'pending' | 'error' | 'conflict' | 'never';
     errorMessage?: string;
+    dateModified?: Date; // Remote modification time as of the last sync
   };
   
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Fields pushed back to WooCommerce; changing any of them queues a linked variation for sync
+ */
+export const WORDPRESS_SYNCED_VARIANT_FIELDS = [
+  'inventory.quantity',
+  'inventory.backordersAllowed',
+  'pricing.price',
+  'pricing.compareAtPrice'
+] as const;
+
 /**
  * Product Variant document interface extending Mongoose Document
  */
@@ -209,10 +220,11 @@ const productVariantSchema = new Schema<IProductVariantDocument, IProductVariant
     lastSync: Date,
     syncStatus: {
       type: String,
-      enum: ['synced', 'pending', 'error', 'never'],
+      enum: ['synced', 'pending', 'error', 'conflict', 'never'],
       default: 'never'
     },
-    errorMessage: String
+    errorMessage: String,
+    dateModified: Date
   }
 }, {
   timestamps: true,
@@ -239,6 +251,13 @@ productVariantSchema.index({ productId: 1, 'attributes.name': 1, 'attributes.val
  */
 productVariantSchema.pre('save', function(next) {
   this.updateAvailableQuantity();
+
+  // Queue WooCommerce-linked variations for outbound sync when stock or price changes locally
+  if (this.wordpress?.id && !this.isNew && !this.isModified('wordpress.syncStatus') &&
+      WORDPRESS_SYNCED_VARIANT_FIELDS.some(field => this.isModified(field))) {
+    this.wordpress.syncStatus = 'pending';
+  }
+
   next();
 });
 
@@ -0,0 +1,410 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+/**
+ * Allowed status transitions for purchase orders.
+ * Partially received and received are reached by receiving stock, not set directly.
+ * Cancelling a partially received order leaves the stock already received in place.
+ */
+export const PURCHASE_ORDER_STATUS_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['partially_received', 'received', 'cancelled'],
+  partially_received: ['received', 'cancelled'],
+  received: [],
+  cancelled: []
+};
+
+/**
+ * Purchase order line item interface
+ */
+export interface IPurchaseOrderItem {
+  productId: string; // Reference to Product
+  variantId?: string; // Reference to ProductVariant
+  name: string;
+  sku?: string;
+  quantityOrdered: number;
+  quantityReceived: number;
+  unitCost: number;
+  lineTotal: number;
+}
+
+/**
+ * Goods receipt recorded against a purchase order
+ */
+export interface IPurchaseOrderReceipt {
+  receivedAt: Date;
+  batchNumber: string;
+  warehouseId?: string; // Reference to Warehouse
+  items: {
+    productId: string;
+    variantId?: string;
+    quantity: number;
+    unitCost: number;
+  }[];
+  amount: number; // Cost of the goods received
+  expenseId?: string; // Reference to the Expense recorded for this receipt
+  notes?: string;
+}
+
+/**
+ * Purchase order interface for stock bought from a vendor
+ */
+export interface IPurchaseOrder {
+  poNumber: string;
+  vendorId: string; // Reference to Vendor
+  items: IPurchaseOrderItem[];
+  receipts: IPurchaseOrderReceipt[];
+  subtotal: number;
+  shippingCost: number;
+  total: number;
+  status: PurchaseOrderStatus;
+  orderDate: Date;
+  expectedDate?: Date;
+  sentAt?: Date;
+  receivedAt?: Date;
+  cancelledAt?: Date;
+  warehouseId?: string; // Default destination for received stock
+  notes?: string;
+  userId: string; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Purchase order document interface extending Mongoose Document
+ */
+export interface IPurchaseOrderDocument extends IPurchaseOrder, Document {
+  isOwnedBy(userId: string): boolean;
+  canTransitionTo(status: PurchaseOrderStatus): boolean;
+  isEditable(): boolean;
+  getOutstandingQuantity(): number;
+  recalculateTotals(): void;
+}
+
+/**
+ * Purchase order model interface with static methods
+ */
+export interface IPurchaseOrderModel extends Model<IPurchaseOrderDocument> {
+  findByUser(userId: string, limit?: number): Promise<IPurchaseOrderDocument[]>;
+  findByVendor(vendorId: string, userId: string): Promise<IPurchaseOrderDocument[]>;
+  getNextPoNumber(userId: string): Promise<string>;
+}
+
+/**
+ * Derives the receiving status from ordered and received quantities
+ */
+export const getReceivingStatus = (
+  items: Pick<IPurchaseOrderItem, 'quantityOrdered' | 'quantityReceived'>[]
+): 'sent' | 'partially_received' | 'received' => {
+  const received = items.reduce((total, item) => total + item.quantityReceived, 0);
+  if (received === 0) return 'sent';
+
+  return items.every(item => item.quantityReceived >= item.quantityOrdered)
+    ? 'received'
+    : 'partially_received';
+};
+
+/**
+ * Purchase order item schema
+ */
+const purchaseOrderItemSchema = new Schema<IPurchaseOrderItem>({
+  productId: {
+    type: String,
+    ref: 'Product',
+    required: [true, 'Product ID is required']
+  },
+  variantId: {
+    type: String,
+    ref: 'ProductVariant',
+    default: null
+  },
+  name: {
+    type: String,
+    required: [true, 'Item name is required'],
+    trim: true
+  },
+  sku: {
+    type: String,
+    trim: true,
+    uppercase: true
+  },
+  quantityOrdered: {
+    type: Number,
+    required: [true, 'Quantity is required'],
+    min: [1, 'Quantity must be at least 1'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Quantity must be a positive integer'
+    }
+  },
+  quantityReceived: {
+    type: Number,
+    min: [0, 'Received quantity cannot be negative'],
+    default: 0
+  },
+  unitCost: {
+    type: Number,
+    required: [true, 'Unit cost is required'],
+    min: [0, 'Unit cost cannot be negative']
+  },
+  lineTotal: {
+    type: Number,
+    min: [0, 'Line total cannot be negative'],
+    default: 0
+  }
+}, { _id: false });
+
+/**
+ * Purchase order receipt schema
+ */
+const purchaseOrderReceiptSchema = new Schema<IPurchaseOrderReceipt>({
+  receivedAt: {
+    type: Date,
+    default: Date.now
+  },
+  batchNumber: {
+    type: String,
+    required: [true, 'Batch number is required'],
+    trim: true
+  },
+  warehouseId: {
+    type: String,
+    ref: 'Warehouse',
+    default: null
+  },
+  items: [{
+    _id: false,
+    productId: { type: String, required: true },
+    variantId: { type: String, default: null },
+    quantity: { type: Number, required: true, min: 1 },
+    unitCost: { type: Number, required: true, min: 0 }
+  }],
+  amount: {
+    type: Number,
+    min: [0, 'Receipt amount cannot be negative'],
+    default: 0
+  },
+  expenseId: {
+    type: String,
+    ref: 'Expense',
+    default: null
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  }
+}, { _id: false });
+
+/**
+ * Purchase order schema definition with validation and middleware
+ */
+const purchaseOrderSchema = new Schema<IPurchaseOrderDocument, IPurchaseOrderModel>({
+  poNumber: {
+    type: String,
+    trim: true,
+    uppercase: true
+  },
+  vendorId: {
+    type: String,
+    ref: 'Vendor',
+    required: [true, 'Vendor is required']
+  },
+  items: {
+    type: [purchaseOrderItemSchema],
+    validate: {
+      validator: function(items: IPurchaseOrderItem[]) {
+        return items && items.length > 0;
+      },
+      message: 'Purchase order must contain at least one item'
+    }
+  },
+  receipts: {
+    type: [purchaseOrderReceiptSchema],
+    default: []
+  },
+  subtotal: {
+    type: Number,
+    min: [0, 'Subtotal cannot be negative'],
+    default: 0
+  },
+  shippingCost: {
+    type: Number,
+    min: [0, 'Shipping cost cannot be negative'],
+    default: 0
+  },
+  total: {
+    type: Number,
+    min: [0, 'Total cannot be negative'],
+    default: 0
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['draft', 'sent', 'partially_received', 'received', 'cancelled'],
+      message: 'Status must be one of: draft, sent, partially_received, received, cancelled'
+    },
+    default: 'draft'
+  },
+  orderDate: {
+    type: Date,
+    default: Date.now
+  },
+  expectedDate: {
+    type: Date,
+    default: null
+  },
+  sentAt: {
+    type: Date,
+    default: null
+  },
+  receivedAt: {
+    type: Date,
+    default: null
+  },
+  cancelledAt: {
+    type: Date,
+    default: null
+  },
+  warehouseId: {
+    type: String,
+    ref: 'Warehouse',
+    default: null
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+    default: null
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for efficient queries
+purchaseOrderSchema.index({ userId: 1, poNumber: 1 }, { unique: true, sparse: true });
+purchaseOrderSchema.index({ userId: 1, orderDate: -1 });
+purchaseOrderSchema.index({ userId: 1, status: 1 });
+purchaseOrderSchema.index({ userId: 1, vendorId: 1 });
+
+/**
+ * Pre-save middleware to generate the PO number, keep totals in sync and stamp status dates
+ */
+purchaseOrderSchema.pre('save', async function(next) {
+  if (!this.poNumber) {
+    this.poNumber = await (this.constructor as IPurchaseOrderModel).getNextPoNumber(this.userId);
+  }
+
+  this.recalculateTotals();
+
+  if (this.isModified('status')) {
+    if (this.status === 'sent' && !this.sentAt) this.sentAt = new Date();
+    if (this.status === 'received' && !this.receivedAt) this.receivedAt = new Date();
+    if (this.status === 'cancelled' && !this.cancelledAt) this.cancelledAt = new Date();
+  }
+
+  next();
+});
+
+/**
+ * Instance method to check ownership
+ */
+purchaseOrderSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Instance method to check if a status change is allowed
+ */
+purchaseOrderSchema.methods.canTransitionTo = function(status: PurchaseOrderStatus): boolean {
+  return PURCHASE_ORDER_STATUS_TRANSITIONS[this.status as PurchaseOrderStatus].includes(status);
+};
+
+/**
+ * Instance method to check if lines and vendor can still be changed
+ */
+purchaseOrderSchema.methods.isEditable = function(): boolean {
+  return this.status === 'draft';
+};
+
+/**
+ * Instance method to get the number of units still to be received
+ */
+purchaseOrderSchema.methods.getOutstandingQuantity = function(): number {
+  return this.items.reduce(
+    (total: number, item: IPurchaseOrderItem) => total + Math.max(0, item.quantityOrdered - item.quantityReceived),
+    0
+  );
+};
+
+/**
+ * Instance method to recalculate line and order totals
+ */
+purchaseOrderSchema.methods.recalculateTotals = function(): void {
+  this.items.forEach((item: IPurchaseOrderItem) => {
+    item.lineTotal = Math.round(item.quantityOrdered * item.unitCost * 100) / 100;
+  });
+
+  this.subtotal = Math.round(
+    this.items.reduce((total: number, item: IPurchaseOrderItem) => total + item.lineTotal, 0) * 100
+  ) / 100;
+  this.total = Math.round((this.subtotal + (this.shippingCost || 0)) * 100) / 100;
+};
+
+/**
+ * Static method to find purchase orders by user
+ */
+purchaseOrderSchema.statics.findByUser = function(userId: string, limit: number = 50) {
+  return this.find({ userId: userId })
+    .sort({ orderDate: -1, createdAt: -1 })
+    .limit(limit);
+};
+
+/**
+ * Static method to find purchase orders raised against a vendor
+ */
+purchaseOrderSchema.statics.findByVendor = function(vendorId: string, userId: string) {
+  return this.find({ vendorId: vendorId, userId: userId }).sort({ orderDate: -1 });
+};
+
+/**
+ * Static method to get the next purchase order number for a user
+ */
+purchaseOrderSchema.statics.getNextPoNumber = async function(userId: string): Promise<string> {
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = String(today.getMonth() + 1).padStart(2, '0');
+  const prefix = `PO-${year}${month}`;
+
+  // Find the latest purchase order number for this month
+  const latestOrder = await this.findOne({
+    userId: userId,
+    poNumber: { $regex: `^${prefix}` }
+  }).sort({ poNumber: -1 });
+
+  let nextNumber = 1;
+  if (latestOrder) {
+    const lastNumber = parseInt(latestOrder.poNumber.split('-')[2]);
+    nextNumber = lastNumber + 1;
+  }
+
+  return `${prefix}-${nextNumber.toString().padStart(3, '0')}`;
+};
+
+// Prevent model re-compilation during development
+const PurchaseOrder = (mongoose.models.PurchaseOrder ||
+  mongoose.model<IPurchaseOrderDocument, IPurchaseOrderModel>('PurchaseOrder', purchaseOrderSchema)) as IPurchaseOrderModel;
+
+export default PurchaseOrder;
+export { PurchaseOrder };
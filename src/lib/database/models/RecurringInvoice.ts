@@ -0,0 +1,379 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { IInvoiceItem } from './Invoice';
+import { SUPPORTED_CURRENCIES, CurrencyCode } from '../../constants/currencies';
+
+export type RecurringInvoiceFrequency = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+/**
+ * Recurring Invoice interface for retainer billing
+ * A template that produces a numbered Invoice every billing period
+ */
+export interface IRecurringInvoice {
+  name: string; // Internal label, e.g. "Acme monthly retainer"
+
+  // Billing details copied onto every generated invoice
+  customerId?: string; // Reference to Customer
+  billFrom: string;
+  billFromEmail: string;
+  billFromAddress?: string;
+  billTo: string;
+  billToEmail: string;
+  billToAddress?: string;
+
+  orders: IInvoiceItem[];
+  vatRate: number;
+  discount?: number;
+  discountType?: 'percentage' | 'fixed';
+  currency?: CurrencyCode;
+  notes?: string;
+  terms?: string;
+
+  // Schedule
+  frequency: RecurringInvoiceFrequency;
+  startDate: Date;
+  endDate?: Date;
+  nextInvoiceDate: Date;
+  paymentTermsDays: number; // Days between invoice date and due date
+  autoSend: boolean; // Email each generated invoice to the client
+  isActive: boolean;
+
+  lastGeneratedAt?: Date;
+  lastInvoiceId?: string;
+  generatedCount: number;
+
+  userId: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Recurring Invoice document interface extending Mongoose Document
+ */
+export interface IRecurringInvoiceDocument extends IRecurringInvoice, Document {
+  isOwnedBy(userId: string): boolean;
+  isDue(): boolean;
+  isExpired(): boolean;
+  calculateNextInvoiceDate(from?: Date): Date;
+  calculateSubtotal(): number;
+}
+
+/**
+ * Recurring Invoice model interface with static methods
+ */
+export interface IRecurringInvoiceModel extends Model<IRecurringInvoiceDocument> {
+  findByUser(userId: string): Promise<IRecurringInvoiceDocument[]>;
+  findDue(userId?: string): Promise<IRecurringInvoiceDocument[]>;
+}
+
+/**
+ * Advances a billing date by one period
+ */
+export const addBillingPeriod = (date: Date, frequency: RecurringInvoiceFrequency): Date => {
+  const next = new Date(date);
+
+  switch (frequency) {
+    case 'weekly':
+      next.setDate(next.getDate() + 7);
+      break;
+    case 'monthly':
+      next.setMonth(next.getMonth() + 1);
+      break;
+    case 'quarterly':
+      next.setMonth(next.getMonth() + 3);
+      break;
+    case 'yearly':
+      next.setFullYear(next.getFullYear() + 1);
+      break;
+  }
+
+  return next;
+};
+
+/**
+ * Recurring invoice line item schema
+ */
+const recurringInvoiceItemSchema = new Schema<IInvoiceItem>({
+  productId: {
+    type: String,
+    ref: 'Product'
+  },
+  itemName: {
+    type: String,
+    required: [true, 'Item name is required'],
+    trim: true
+  },
+  sku: {
+    type: String,
+    trim: true,
+    uppercase: true
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  unitPrice: {
+    type: Number,
+    required: [true, 'Unit price is required'],
+    min: [0, 'Unit price must be positive']
+  },
+  units: {
+    type: Number,
+    required: [true, 'Units are required'],
+    min: [0.01, 'Units must be positive']
+  },
+  unitTotalPrice: {
+    type: Number,
+    min: [0, 'Unit total price must be positive'],
+    default: 0
+  }
+}, { _id: false });
+
+/**
+ * Recurring Invoice schema definition with validation and middleware
+ */
+const recurringInvoiceSchema = new Schema<IRecurringInvoiceDocument, IRecurringInvoiceModel>({
+  name: {
+    type: String,
+    required: [true, 'Schedule name is required'],
+    trim: true,
+    maxlength: [100, 'Schedule name cannot exceed 100 characters']
+  },
+  customerId: {
+    type: String,
+    ref: 'Customer',
+    default: null
+  },
+  billFrom: {
+    type: String,
+    required: [true, 'Bill from name is required'],
+    trim: true
+  },
+  billFromEmail: {
+    type: String,
+    required: [true, 'Bill from email is required'],
+    trim: true,
+    lowercase: true
+  },
+  billFromAddress: {
+    type: String,
+    trim: true
+  },
+  billTo: {
+    type: String,
+    required: [true, 'Bill to name is required'],
+    trim: true
+  },
+  billToEmail: {
+    type: String,
+    required: [true, 'Bill to email is required'],
+    trim: true,
+    lowercase: true
+  },
+  billToAddress: {
+    type: String,
+    trim: true
+  },
+  orders: {
+    type: [recurringInvoiceItemSchema],
+    validate: {
+      validator: function(items: IInvoiceItem[]) {
+        return Array.isArray(items) && items.length > 0;
+      },
+      message: 'At least one item is required'
+    }
+  },
+  vatRate: {
+    type: Number,
+    min: [0, 'VAT rate must be positive'],
+    max: [100, 'VAT rate cannot exceed 100%'],
+    default: 0
+  },
+  discount: {
+    type: Number,
+    min: [0, 'Discount must be positive'],
+    default: 0
+  },
+  discountType: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    default: 'percentage'
+  },
+  currency: {
+    type: String,
+    uppercase: true,
+    enum: {
+      values: [...SUPPORTED_CURRENCIES],
+      message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`
+    },
+    default: null
+  },
+  notes: {
+    type: String,
+    trim: true
+  },
+  terms: {
+    type: String,
+    trim: true
+  },
+  frequency: {
+    type: String,
+    required: [true, 'Frequency is required'],
+    enum: {
+      values: ['weekly', 'monthly', 'quarterly', 'yearly'],
+      message: 'Frequency must be weekly, monthly, quarterly, or yearly'
+    }
+  },
+  startDate: {
+    type: Date,
+    required: [true, 'Start date is required']
+  },
+  endDate: {
+    type: Date,
+    default: null,
+    validate: {
+      validator: function(value: Date | null) {
+        if (value && this.startDate) {
+          return value > this.startDate;
+        }
+        return true;
+      },
+      message: 'End date must be after start date'
+    }
+  },
+  nextInvoiceDate: {
+    type: Date,
+    required: [true, 'Next invoice date is required']
+  },
+  paymentTermsDays: {
+    type: Number,
+    min: [0, 'Payment terms cannot be negative'],
+    max: [365, 'Payment terms cannot exceed 365 days'],
+    default: 30
+  },
+  autoSend: {
+    type: Boolean,
+    default: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  lastGeneratedAt: {
+    type: Date,
+    default: null
+  },
+  lastInvoiceId: {
+    type: String,
+    ref: 'Invoice',
+    default: null
+  },
+  generatedCount: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required'],
+    index: true
+  },
+  createdBy: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Compound indexes for efficient queries
+recurringInvoiceSchema.index({ userId: 1, isActive: 1 });
+recurringInvoiceSchema.index({ nextInvoiceDate: 1, isActive: 1 });
+recurringInvoiceSchema.index({ userId: 1, customerId: 1 });
+
+/**
+ * Pre-save middleware to price line items and seed the first billing date
+ */
+recurringInvoiceSchema.pre('save', function(next) {
+  this.orders.forEach(item => {
+    item.unitTotalPrice = Math.round(item.unitPrice * item.units * 100) / 100;
+  });
+
+  // First invoice is issued on the start date
+  if (!this.nextInvoiceDate || (this.isModified('startDate') && this.generatedCount === 0)) {
+    this.nextInvoiceDate = this.startDate;
+  }
+
+  next();
+});
+
+/**
+ * Instance method to check ownership
+ */
+recurringInvoiceSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Instance method to check if an invoice is due to be generated
+ */
+recurringInvoiceSchema.methods.isDue = function(): boolean {
+  return this.isActive && !this.isExpired() && this.nextInvoiceDate <= new Date();
+};
+
+/**
+ * Instance method to check if the schedule has passed its end date
+ */
+recurringInvoiceSchema.methods.isExpired = function(): boolean {
+  return this.endDate ? this.nextInvoiceDate > this.endDate : false;
+};
+
+/**
+ * Instance method to calculate the billing date after the given one
+ */
+recurringInvoiceSchema.methods.calculateNextInvoiceDate = function(from?: Date): Date {
+  return addBillingPeriod(from || this.nextInvoiceDate || this.startDate, this.frequency);
+};
+
+/**
+ * Instance method to calculate the pre-tax, pre-discount total of one invoice
+ */
+recurringInvoiceSchema.methods.calculateSubtotal = function(): number {
+  return this.orders.reduce((total: number, item: IInvoiceItem) => total + item.unitPrice * item.units, 0);
+};
+
+/**
+ * Static method to find recurring invoices by user
+ */
+recurringInvoiceSchema.statics.findByUser = function(userId: string) {
+  return this.find({ userId }).sort({ nextInvoiceDate: 1 });
+};
+
+/**
+ * Static method to find schedules with an invoice due
+ */
+recurringInvoiceSchema.statics.findDue = function(userId?: string) {
+  const query: any = {
+    isActive: true,
+    nextInvoiceDate: { $lte: new Date() }
+  };
+
+  if (userId) {
+    query.userId = userId;
+  }
+
+  return this.find(query).sort({ nextInvoiceDate: 1 });
+};
+
+// Prevent model re-compilation during development
+const RecurringInvoice = (mongoose.models.RecurringInvoice ||
+  mongoose.model<IRecurringInvoiceDocument, IRecurringInvoiceModel>('RecurringInvoice', recurringInvoiceSchema)) as IRecurringInvoiceModel;
+
+export default RecurringInvoice;
+export { RecurringInvoice };
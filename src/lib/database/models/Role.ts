@@ -1,5 +1,6 @@
 import mongoose, { Document, Schema, Model, Types } from 'mongoose';
 import { IPermissionDocument, IPermissionModel } from './Permission';
+import { auditTrailPlugin } from '../audit-trail';
 
 /**
  * Role interface defining the structure of roles
@@ -9,6 +10,7 @@ export interface IRole {
   description: string;
   permissions: Types.ObjectId[]; // References to Permission documents
   isSystem: boolean; // Cannot be deleted if true
+  requireTwoFactor: boolean; // Members must enroll in two-factor authentication to sign in
   createdAt: Date;
   updatedAt: Date;
 }
@@ -58,6 +60,10 @@ const roleSchema = new Schema<IRoleDocument, IRoleModel>({
   isSystem: {
     type: Boolean,
     default: false
+  },
+  requireTwoFactor: {
+    type: Boolean,
+    default: false
   }
 }, {
   timestamps: true,
@@ -187,6 +193,9 @@ roleSchema.statics.createWithPermissions = async function(
   return await role.save();
 };
 
+// Record field-level changes in the audit log
+roleSchema.plugin(auditTrailPlugin, { resource: 'role', labelField: 'name' });
+
 // Prevent model re-compilation during development
 const Role = (mongoose.models.Role ||
   mongoose.model<IRoleDocument, IRoleModel>('Role', roleSchema)) as IRoleModel;
@@ -1,4 +1,6 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { SUPPORTED_CURRENCIES, CurrencyCode } from '../../constants/currencies';
+import { auditTrailPlugin } from '../audit-trail';
 
 /**
  * Sale interface for financial tracking system
@@ -6,9 +8,13 @@ import mongoose, { Document, Schema, Model } from 'mongoose';
  */
 export interface ISale {
   productId: string; // Reference to Product
+  customerId?: string; // Reference to Customer
+  orderId?: string; // Reference to SalesOrder when the sale is a line of a multi-line order
+  variantId?: string; // Reference to ProductVariant
   quantity: number;
   unitPrice: number;
   totalAmount: number;
+  currency?: CurrencyCode; // Unset on records created before currencies were tracked
   date: Date;
   notes?: string;
   userId: string; // Reference to User
@@ -32,9 +38,11 @@ export interface ISaleDocument extends ISale, Document {
 export interface ISaleModel extends Model<ISaleDocument> {
   findByUser(userId: string, limit?: number): Promise<ISaleDocument[]>;
   findByProduct(productId: string, userId: string): Promise<ISaleDocument[]>;
+  findByOrder(orderId: string, userId: string): Promise<ISaleDocument[]>;
   findByDateRange(startDate: Date, endDate: Date, userId: string): Promise<ISaleDocument[]>;
   getTotalSalesByUser(userId: string): Promise<number>;
   getTotalSalesByProduct(productId: string, userId: string): Promise<number>;
+  getCustomerSalesSummary(customerId: string, userId: string): Promise<{ salesCount: number; totalSales: number }>;
   getTotalSalesByDateRange(startDate: Date, endDate: Date, userId: string): Promise<number>;
   getQuantitySoldByProduct(productId: string, userId: string): Promise<number>;
   getSalesAnalytics(userId: string): Promise<any>;
@@ -48,6 +56,21 @@ const saleSchema = new Schema<ISaleDocument, ISaleModel>({
     type: String,
     required: [true, 'Product ID is required']
   },
+  customerId: {
+    type: String,
+    ref: 'Customer',
+    default: null
+  },
+  orderId: {
+    type: String,
+    ref: 'SalesOrder',
+    default: null
+  },
+  variantId: {
+    type: String,
+    ref: 'ProductVariant',
+    default: null
+  },
   quantity: {
     type: Number,
     required: [true, 'Quantity is required'],
@@ -75,6 +98,15 @@ const saleSchema = new Schema<ISaleDocument, ISaleModel>({
     required: [true, 'Total amount is required'],
     min: [0.01, 'Total amount must be greater than 0']
   },
+  currency: {
+    type: String,
+    uppercase: true,
+    enum: {
+      values: [...SUPPORTED_CURRENCIES],
+      message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`
+    },
+    default: null
+  },
   date: {
     type: Date,
     required: [true, 'Date is required'],
@@ -112,6 +144,8 @@ const saleSchema = new Schema<ISaleDocument, ISaleModel>({
 saleSchema.index({ userId: 1, date: -1 });
 saleSchema.index({ userId: 1, productId: 1 });
 saleSchema.index({ productId: 1, date: -1 });
+saleSchema.index({ userId: 1, customerId: 1 });
+saleSchema.index({ orderId: 1 });
 
 // Text index for search functionality
 saleSchema.index({ notes: 'text' });
@@ -186,6 +220,16 @@ saleSchema.statics.findByProduct = function(productId: string, userId: string) {
   }).sort({ date: -1 });
 };
 
+/**
+ * Static method to find the line items of a sales order
+ */
+saleSchema.statics.findByOrder = function(orderId: string, userId: string) {
+  return this.find({
+    orderId: orderId,
+    userId: userId
+  }).sort({ createdAt: 1 });
+};
+
 /**
  * Static method to find sales by date range
  */
@@ -223,6 +267,20 @@ saleSchema.statics.getTotalSalesByProduct = async function(productId: string, us
   return result.length > 0 ? Math.round(result[0].total * 100) / 100 : 0;
 };
 
+/**
+ * Static method to get lifetime sales totals for a customer
+ */
+saleSchema.statics.getCustomerSalesSummary = async function(customerId: string, userId: string) {
+  const result = await this.aggregate([
+    { $match: { customerId: customerId, userId: userId } },
+    { $group: { _id: null, salesCount: { $sum: 1 }, totalSales: { $sum: '$totalAmount' } } }
+  ]);
+
+  return result.length > 0
+    ? { salesCount: result[0].salesCount, totalSales: Math.round(result[0].totalSales * 100) / 100 }
+    : { salesCount: 0, totalSales: 0 };
+};
+
 /**
  * Static method to get total sales by date range
  */
@@ -287,6 +345,9 @@ saleSchema.statics.getSalesAnalytics = async function(userId: string) {
   };
 };
 
+// Record field-level changes in the audit log
+saleSchema.plugin(auditTrailPlugin, { resource: 'sale', ownerField: 'userId' });
+
 // Prevent model re-compilation during development
 const Sale = (mongoose.models.Sale ||
   mongoose.model<ISaleDocument, ISaleModel>('Sale', saleSchema)) as ISaleModel;
@@ -0,0 +1,443 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { SUPPORTED_CURRENCIES, CurrencyCode } from '../../constants/currencies';
+
+export type SalesOrderStatus = 'pending' | 'completed' | 'cancelled' | 'refunded';
+export type PaymentMethod = 'cash' | 'card' | 'bank_transfer' | 'mobile_money' | 'other';
+
+/**
+ * Allowed status transitions for sales orders.
+ * Cancelled and refunded orders are final; their stock has been returned.
+ */
+export const SALES_ORDER_STATUS_TRANSITIONS: Record<SalesOrderStatus, SalesOrderStatus[]> = {
+  pending: ['completed', 'cancelled'],
+  completed: ['refunded'],
+  cancelled: [],
+  refunded: []
+};
+
+/**
+ * Sales order line item interface
+ * Each line is also recorded as a Sale so per-product reporting keeps working
+ */
+export interface ISalesOrderItem {
+  saleId?: string; // Reference to the Sale recorded for this line
+  productId: string; // Reference to Product
+  variantId?: string; // Reference to ProductVariant
+  name: string;
+  sku?: string;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+/**
+ * Sales order interface grouping several line items under one sale
+ */
+export interface ISalesOrder {
+  orderNumber: string;
+  customerId?: string; // Reference to Customer
+  items: ISalesOrderItem[];
+  subtotal: number;
+  discount: number;
+  discountType: 'percentage' | 'fixed';
+  discountAmount: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  currency?: CurrencyCode; // Unset on orders created before currencies were tracked
+  paymentMethod: PaymentMethod;
+  status: SalesOrderStatus;
+  date: Date;
+  completedAt?: Date;
+  notes?: string;
+  incomeId?: string; // Reference to the Income recorded for the order
+
+  // Set on orders imported from a WooCommerce store
+  wordpress?: {
+    orderId: number;
+    orderNumber: string;
+    sourceUrl: string;
+    status: string; // WooCommerce status at import time
+    importJobId?: string;
+  };
+
+  userId: string; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Sales order document interface extending Mongoose Document
+ */
+export interface ISalesOrderDocument extends ISalesOrder, Document {
+  isOwnedBy(userId: string): boolean;
+  canTransitionTo(status: SalesOrderStatus): boolean;
+  recalculateTotals(): void;
+  getNetRevenue(): number;
+}
+
+/**
+ * Sales order model interface with static methods
+ */
+export interface ISalesOrderModel extends Model<ISalesOrderDocument> {
+  findByUser(userId: string, limit?: number): Promise<ISalesOrderDocument[]>;
+  findByCustomer(customerId: string, userId: string): Promise<ISalesOrderDocument[]>;
+  getNextOrderNumber(userId: string): Promise<string>;
+  getOrderAnalytics(userId: string): Promise<{
+    totalOrders: number;
+    totalRevenue: number;
+    totalTax: number;
+    totalDiscounts: number;
+    averageOrderValue: number;
+  }>;
+}
+
+/**
+ * Calculates order totals: the discount applies to the subtotal and tax to the discounted amount
+ */
+export const calculateOrderTotals = (
+  items: Pick<ISalesOrderItem, 'quantity' | 'unitPrice'>[],
+  discount: number = 0,
+  discountType: 'percentage' | 'fixed' = 'percentage',
+  taxRate: number = 0
+) => {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  const subtotal = round(items.reduce((total, item) => total + item.quantity * item.unitPrice, 0));
+  const discountAmount = round(
+    discountType === 'percentage'
+      ? subtotal * (Math.min(discount, 100) / 100)
+      : Math.min(discount, subtotal)
+  );
+  const taxAmount = round((subtotal - discountAmount) * (taxRate / 100));
+
+  return {
+    subtotal,
+    discountAmount,
+    taxAmount,
+    total: round(subtotal - discountAmount + taxAmount)
+  };
+};
+
+/**
+ * Sales order item schema
+ */
+const salesOrderItemSchema = new Schema<ISalesOrderItem>({
+  saleId: {
+    type: String,
+    ref: 'Sale',
+    default: null
+  },
+  productId: {
+    type: String,
+    ref: 'Product',
+    required: [true, 'Product ID is required']
+  },
+  variantId: {
+    type: String,
+    ref: 'ProductVariant',
+    default: null
+  },
+  name: {
+    type: String,
+    required: [true, 'Item name is required'],
+    trim: true
+  },
+  sku: {
+    type: String,
+    trim: true,
+    uppercase: true
+  },
+  quantity: {
+    type: Number,
+    required: [true, 'Quantity is required'],
+    min: [1, 'Quantity must be at least 1'],
+    validate: {
+      validator: Number.isInteger,
+      message: 'Quantity must be a positive integer'
+    }
+  },
+  unitPrice: {
+    type: Number,
+    required: [true, 'Unit price is required'],
+    min: [0, 'Unit price cannot be negative']
+  },
+  lineTotal: {
+    type: Number,
+    min: [0, 'Line total cannot be negative'],
+    default: 0
+  }
+}, { _id: false });
+
+/**
+ * Sales order schema definition with validation and middleware
+ */
+const salesOrderSchema = new Schema<ISalesOrderDocument, ISalesOrderModel>({
+  orderNumber: {
+    type: String,
+    trim: true,
+    uppercase: true
+  },
+  customerId: {
+    type: String,
+    ref: 'Customer',
+    default: null
+  },
+  items: {
+    type: [salesOrderItemSchema],
+    validate: {
+      validator: function(items: ISalesOrderItem[]) {
+        return items && items.length > 0;
+      },
+      message: 'Order must contain at least one item'
+    }
+  },
+  subtotal: {
+    type: Number,
+    min: [0, 'Subtotal cannot be negative'],
+    default: 0
+  },
+  discount: {
+    type: Number,
+    min: [0, 'Discount cannot be negative'],
+    default: 0
+  },
+  discountType: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    default: 'percentage'
+  },
+  discountAmount: {
+    type: Number,
+    min: [0, 'Discount amount cannot be negative'],
+    default: 0
+  },
+  taxRate: {
+    type: Number,
+    min: [0, 'Tax rate cannot be negative'],
+    max: [100, 'Tax rate cannot exceed 100%'],
+    default: 0
+  },
+  taxAmount: {
+    type: Number,
+    min: [0, 'Tax amount cannot be negative'],
+    default: 0
+  },
+  total: {
+    type: Number,
+    min: [0, 'Total cannot be negative'],
+    default: 0
+  },
+  currency: {
+    type: String,
+    uppercase: true,
+    enum: {
+      values: [...SUPPORTED_CURRENCIES],
+      message: `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`
+    },
+    default: null
+  },
+  paymentMethod: {
+    type: String,
+    enum: {
+      values: ['cash', 'card', 'bank_transfer', 'mobile_money', 'other'],
+      message: 'Payment method must be one of: cash, card, bank_transfer, mobile_money, other'
+    },
+    default: 'cash'
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['pending', 'completed', 'cancelled', 'refunded'],
+      message: 'Status must be one of: pending, completed, cancelled, refunded'
+    },
+    default: 'completed'
+  },
+  date: {
+    type: Date,
+    default: Date.now
+  },
+  completedAt: {
+    type: Date,
+    default: null
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+    default: null
+  },
+  incomeId: {
+    type: String,
+    ref: 'Income',
+    default: null
+  },
+  wordpress: {
+    orderId: Number,
+    orderNumber: String,
+    sourceUrl: String,
+    status: String,
+    importJobId: String
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for efficient queries
+salesOrderSchema.index({ userId: 1, orderNumber: 1 }, { unique: true, sparse: true });
+salesOrderSchema.index({ userId: 1, date: -1 });
+salesOrderSchema.index({ userId: 1, status: 1 });
+salesOrderSchema.index({ userId: 1, customerId: 1 });
+
+// Each WooCommerce order is imported once per store
+salesOrderSchema.index(
+  { 'wordpress.sourceUrl': 1, 'wordpress.orderId': 1 },
+  { unique: true, partialFilterExpression: { 'wordpress.orderId': { $exists: true } } }
+);
+
+/**
+ * Pre-save middleware to generate the order number and keep totals in sync with the items
+ */
+salesOrderSchema.pre('save', async function(next) {
+  if (!this.orderNumber) {
+    this.orderNumber = await (this.constructor as ISalesOrderModel).getNextOrderNumber(this.userId);
+  }
+
+  this.recalculateTotals();
+
+  if (this.isModified('status') && this.status === 'completed' && !this.completedAt) {
+    this.completedAt = new Date();
+  }
+
+  next();
+});
+
+/**
+ * Instance method to check ownership
+ */
+salesOrderSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Instance method to check if a status change is allowed
+ */
+salesOrderSchema.methods.canTransitionTo = function(status: SalesOrderStatus): boolean {
+  return SALES_ORDER_STATUS_TRANSITIONS[this.status as SalesOrderStatus].includes(status);
+};
+
+/**
+ * Instance method to recalculate line and order totals
+ */
+salesOrderSchema.methods.recalculateTotals = function(): void {
+  this.items.forEach((item: ISalesOrderItem) => {
+    item.lineTotal = Math.round(item.quantity * item.unitPrice * 100) / 100;
+  });
+
+  const totals = calculateOrderTotals(this.items, this.discount, this.discountType, this.taxRate);
+  this.subtotal = totals.subtotal;
+  this.discountAmount = totals.discountAmount;
+  this.taxAmount = totals.taxAmount;
+  this.total = totals.total;
+};
+
+/**
+ * Instance method to get revenue after discount, excluding tax collected
+ */
+salesOrderSchema.methods.getNetRevenue = function(): number {
+  return Math.round((this.subtotal - this.discountAmount) * 100) / 100;
+};
+
+/**
+ * Static method to find orders by user
+ */
+salesOrderSchema.statics.findByUser = function(userId: string, limit: number = 50) {
+  return this.find({ userId: userId })
+    .sort({ date: -1, createdAt: -1 })
+    .limit(limit);
+};
+
+/**
+ * Static method to find orders placed by a customer
+ */
+salesOrderSchema.statics.findByCustomer = function(customerId: string, userId: string) {
+  return this.find({ customerId: customerId, userId: userId }).sort({ date: -1 });
+};
+
+/**
+ * Static method to get the next order number for a user
+ */
+salesOrderSchema.statics.getNextOrderNumber = async function(userId: string): Promise<string> {
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = String(today.getMonth() + 1).padStart(2, '0');
+  const prefix = `SO-${year}${month}`;
+
+  // Find the latest order number for this month
+  const latestOrder = await this.findOne({
+    userId: userId,
+    orderNumber: { $regex: `^${prefix}` }
+  }).sort({ orderNumber: -1 });
+
+  let nextNumber = 1;
+  if (latestOrder) {
+    const lastNumber = parseInt(latestOrder.orderNumber.split('-')[2]);
+    nextNumber = lastNumber + 1;
+  }
+
+  return `${prefix}-${nextNumber.toString().padStart(3, '0')}`;
+};
+
+/**
+ * Static method to get order analytics, ignoring cancelled and refunded orders
+ */
+salesOrderSchema.statics.getOrderAnalytics = async function(userId: string) {
+  const analytics = await this.aggregate([
+    { $match: { userId: userId, status: { $in: ['pending', 'completed'] } } },
+    {
+      $group: {
+        _id: null,
+        totalOrders: { $sum: 1 },
+        totalRevenue: { $sum: { $subtract: ['$subtotal', '$discountAmount'] } },
+        totalTax: { $sum: '$taxAmount' },
+        totalDiscounts: { $sum: '$discountAmount' }
+      }
+    }
+  ]);
+
+  if (analytics.length === 0) {
+    return {
+      totalOrders: 0,
+      totalRevenue: 0,
+      totalTax: 0,
+      totalDiscounts: 0,
+      averageOrderValue: 0
+    };
+  }
+
+  const result = analytics[0];
+  return {
+    totalOrders: result.totalOrders,
+    totalRevenue: Math.round(result.totalRevenue * 100) / 100,
+    totalTax: Math.round(result.totalTax * 100) / 100,
+    totalDiscounts: Math.round(result.totalDiscounts * 100) / 100,
+    averageOrderValue: Math.round((result.totalRevenue / result.totalOrders) * 100) / 100
+  };
+};
+
+// Prevent model re-compilation during development
+const SalesOrder = (mongoose.models.SalesOrder ||
+  mongoose.model<ISalesOrderDocument, ISalesOrderModel>('SalesOrder', salesOrderSchema)) as ISalesOrderModel;
+
+export default SalesOrder;
+export { SalesOrder };
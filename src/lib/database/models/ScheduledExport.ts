@@ -0,0 +1,214 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import { EXPORT_TYPES, ExportFormat, ExportType } from './ExportJob';
+
+export type ScheduledExportFrequency = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Scheduled Export interface for saved, recurring data exports
+ * Each run produces an ExportJob and delivers the file by email or as a signed link
+ */
+export interface IScheduledExport {
+  name: string;
+  type: ExportType;
+  format: ExportFormat;
+  filters: {
+    category?: string;
+    status?: string;
+    search?: string;
+    sku?: string;
+    vendorId?: string;
+  };
+  rollingDateRange: boolean; // Limit each run to the period since the previous run
+
+  // Schedule
+  frequency: ScheduledExportFrequency;
+  nextRunAt: Date;
+  isActive: boolean;
+
+  // Delivery
+  deliveryMethod: 'email' | 'link'; // Attach the file, or email a signed download link
+  recipients: string[];
+  retentionDays: number; // Days the file and download link stay available
+
+  lastRunAt?: Date;
+  lastJobId?: string;
+  lastError?: string;
+  runCount: number;
+
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Scheduled Export document interface extending Mongoose Document
+ */
+export interface IScheduledExportDocument extends IScheduledExport, Document {
+  isOwnedBy(userId: string): boolean;
+  calculateNextRun(from?: Date): Date;
+}
+
+/**
+ * Scheduled Export model interface with static methods
+ */
+export interface IScheduledExportModel extends Model<IScheduledExportDocument> {
+  findByUser(userId: string): Promise<IScheduledExportDocument[]>;
+  findDue(now?: Date): Promise<IScheduledExportDocument[]>;
+}
+
+/**
+ * Advances a run date by one schedule period
+ */
+export const addExportPeriod = (date: Date, frequency: ScheduledExportFrequency, periods: number = 1): Date => {
+  const next = new Date(date);
+
+  switch (frequency) {
+    case 'daily':
+      next.setDate(next.getDate() + periods);
+      break;
+    case 'weekly':
+      next.setDate(next.getDate() + 7 * periods);
+      break;
+    case 'monthly':
+      next.setMonth(next.getMonth() + periods);
+      break;
+  }
+
+  return next;
+};
+
+/**
+ * Scheduled Export schema definition with validation
+ */
+const scheduledExportSchema = new Schema<IScheduledExportDocument, IScheduledExportModel>({
+  name: {
+    type: String,
+    required: [true, 'Name is required'],
+    trim: true,
+    maxlength: [100, 'Name cannot exceed 100 characters']
+  },
+  type: {
+    type: String,
+    required: [true, 'Export type is required'],
+    enum: EXPORT_TYPES
+  },
+  format: {
+    type: String,
+    required: [true, 'Export format is required'],
+    enum: ['csv', 'excel', 'json']
+  },
+  filters: {
+    category: String,
+    status: String,
+    search: String,
+    sku: String,
+    vendorId: String
+  },
+  rollingDateRange: {
+    type: Boolean,
+    default: true
+  },
+  frequency: {
+    type: String,
+    required: [true, 'Frequency is required'],
+    enum: {
+      values: ['daily', 'weekly', 'monthly'],
+      message: 'Frequency must be daily, weekly or monthly'
+    }
+  },
+  nextRunAt: {
+    type: Date,
+    required: [true, 'Next run date is required']
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  deliveryMethod: {
+    type: String,
+    enum: ['email', 'link'],
+    default: 'email'
+  },
+  recipients: {
+    type: [{
+      type: String,
+      trim: true,
+      lowercase: true,
+      match: [/^\S+@\S+\.\S+$/, 'Please enter a valid recipient email']
+    }],
+    validate: {
+      validator: function(recipients: string[]) {
+        return recipients.length > 0 && recipients.length <= 10;
+      },
+      message: 'Between 1 and 10 recipients are required'
+    }
+  },
+  retentionDays: {
+    type: Number,
+    default: 7,
+    min: [1, 'Retention must be at least 1 day'],
+    max: [90, 'Retention cannot exceed 90 days']
+  },
+  lastRunAt: Date,
+  lastJobId: String,
+  lastError: String,
+  runCount: {
+    type: Number,
+    default: 0,
+    min: [0, 'Run count cannot be negative']
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+scheduledExportSchema.index({ userId: 1, createdAt: -1 });
+scheduledExportSchema.index({ isActive: 1, nextRunAt: 1 });
+
+/**
+ * Instance method to check ownership
+ */
+scheduledExportSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Instance method to calculate the run after the given date
+ */
+scheduledExportSchema.methods.calculateNextRun = function(from?: Date): Date {
+  return addExportPeriod(from || this.nextRunAt, this.frequency);
+};
+
+/**
+ * Static method to find schedules for a user
+ */
+scheduledExportSchema.statics.findByUser = function(userId: string) {
+  return this.find({ userId }).sort({ createdAt: -1 });
+};
+
+/**
+ * Static method to find active schedules that are due to run
+ */
+scheduledExportSchema.statics.findDue = function(now: Date = new Date()) {
+  return this.find({
+    isActive: true,
+    nextRunAt: { $lte: now }
+  }).sort({ nextRunAt: 1 });
+};
+
+// Prevent model re-compilation during development
+const ScheduledExport = (mongoose.models.ScheduledExport ||
+  mongoose.model<IScheduledExportDocument, IScheduledExportModel>('ScheduledExport', scheduledExportSchema)) as IScheduledExportModel;
+
+export default ScheduledExport;
+export { ScheduledExport };
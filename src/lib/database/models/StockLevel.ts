@@ -0,0 +1,132 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Stock level interface holding the quantity of a product or variant at one warehouse.
+ * The sum across warehouses matches Product.qty / ProductVariant.inventory.quantity.
+ */
+export interface IStockLevel {
+  productId: string; // Reference to Product
+  variantId?: string; // Reference to ProductVariant (for variable products)
+  warehouseId: string; // Reference to Warehouse
+  sku: string;
+  quantity: number;
+  lowStockThreshold?: number; // Per-location override, falls back to the product threshold
+  userId: string; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Stock level document interface extending Mongoose Document
+ */
+export interface IStockLevelDocument extends IStockLevel, Document {
+  isLowStock(fallbackThreshold?: number): boolean;
+}
+
+/**
+ * Stock level model interface with static methods
+ */
+export interface IStockLevelModel extends Model<IStockLevelDocument> {
+  findByProduct(productId: string, userId: string, variantId?: string | null): Promise<IStockLevelDocument[]>;
+  findByWarehouse(warehouseId: string, userId: string): Promise<IStockLevelDocument[]>;
+  getTotalQuantity(productId: string, userId: string, variantId?: string | null): Promise<number>;
+}
+
+/**
+ * Stock level schema definition with validation
+ */
+const stockLevelSchema = new Schema<IStockLevelDocument, IStockLevelModel>({
+  productId: {
+    type: String,
+    ref: 'Product',
+    required: [true, 'Product ID is required']
+  },
+  variantId: {
+    type: String,
+    ref: 'ProductVariant',
+    default: null
+  },
+  warehouseId: {
+    type: String,
+    ref: 'Warehouse',
+    required: [true, 'Warehouse ID is required']
+  },
+  sku: {
+    type: String,
+    required: [true, 'SKU is required'],
+    trim: true,
+    uppercase: true
+  },
+  quantity: {
+    type: Number,
+    default: 0,
+    min: [0, 'Quantity cannot be negative']
+  },
+  lowStockThreshold: {
+    type: Number,
+    min: [0, 'Low stock threshold cannot be negative'],
+    default: null
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for efficient queries
+stockLevelSchema.index({ warehouseId: 1, productId: 1, variantId: 1 }, { unique: true });
+stockLevelSchema.index({ userId: 1, productId: 1, variantId: 1 });
+stockLevelSchema.index({ userId: 1, warehouseId: 1 });
+
+/**
+ * Instance method to check if the location is at or below its low stock threshold
+ */
+stockLevelSchema.methods.isLowStock = function(fallbackThreshold: number = 5): boolean {
+  const threshold = this.lowStockThreshold ?? fallbackThreshold;
+  return this.quantity <= threshold;
+};
+
+/**
+ * Static method to find the stock of a product (or variant) across warehouses
+ */
+stockLevelSchema.statics.findByProduct = function(productId: string, userId: string, variantId: string | null = null) {
+  return this.find({ productId, userId, variantId: variantId || null });
+};
+
+/**
+ * Static method to find all stock held at a warehouse
+ */
+stockLevelSchema.statics.findByWarehouse = function(warehouseId: string, userId: string) {
+  return this.find({ warehouseId, userId }).sort({ sku: 1 });
+};
+
+/**
+ * Static method to sum a product's (or variant's) stock across warehouses
+ */
+stockLevelSchema.statics.getTotalQuantity = async function(
+  productId: string,
+  userId: string,
+  variantId: string | null = null
+): Promise<number> {
+  const result = await this.aggregate([
+    { $match: { productId, userId, variantId: variantId || null } },
+    { $group: { _id: null, total: { $sum: '$quantity' } } }
+  ]);
+
+  return result.length > 0 ? result[0].total : 0;
+};
+
+// Prevent model re-compilation during development
+const StockLevel = (mongoose.models.StockLevel ||
+  mongoose.model<IStockLevelDocument, IStockLevelModel>('StockLevel', stockLevelSchema)) as IStockLevelModel;
+
+export default StockLevel;
+export { StockLevel };
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema, Model, Types } from 'mongoose';
+import { WEBHOOK_EVENTS } from '@/lib/constants/webhook-events';
 
 /**
  * Subscription status enum
@@ -260,6 +261,56 @@ subscriptionSchema.pre('save', function(next) {
   next();
 });
 
+const WEBHOOK_FIELDS = ['status', 'planId', 'cancelAtPeriodEnd'];
+
+/**
+ * Sends the subscription.changed webhook
+ * Subscriptions change from many places (checkout, payment webhooks, renewals,
+ * admin edits), so the model raises the event rather than each caller
+ */
+function notifySubscriptionChanged(subscription: ISubscriptionDocument): void {
+  const idOf = (value: any) => String(value?._id || value);
+  const data = {
+    id: String(subscription._id),
+    userId: idOf(subscription.userId),
+    planId: idOf(subscription.planId),
+    status: subscription.status,
+    currentPeriodStart: subscription.currentPeriodStart,
+    currentPeriodEnd: subscription.currentPeriodEnd,
+    cancelAtPeriodEnd: subscription.cancelAtPeriodEnd
+  };
+
+  // Imported lazily: the webhook service depends on models that import this one
+  import('@/lib/services/WebhookService')
+    .then(({ WebhookService }) => WebhookService.dispatchInBackground(WEBHOOK_EVENTS.SUBSCRIPTION_CHANGED, data, data.userId))
+    .catch(error => console.error('Failed to send subscription webhook:', error));
+}
+
+// Remember whether this save changes the plan or status, for the subscription.changed webhook
+subscriptionSchema.pre('save', function(next) {
+  this.$locals.webhookChanged = this.isNew || WEBHOOK_FIELDS.some(field => this.isModified(field));
+  next();
+});
+
+subscriptionSchema.post('save', function(doc) {
+  if (doc.$locals.webhookChanged) {
+    notifySubscriptionChanged(doc);
+  }
+});
+
+subscriptionSchema.post('findOneAndUpdate', async function(doc: ISubscriptionDocument | null) {
+  const update: any = this.getUpdate() || {};
+  if (!doc || !WEBHOOK_FIELDS.some(field => field in update || field in (update.$set || {}))) {
+    return;
+  }
+
+  // The query may have returned the document as it was before the update
+  const current = await Subscription.findById(doc._id);
+  if (current) {
+    notifySubscriptionChanged(current);
+  }
+});
+
 // Prevent model re-compilation during development
 const Subscription = (mongoose.models.Subscription || mongoose.model<ISubscriptionDocument, ISubscriptionModel>('Subscription', subscriptionSchema)) as ISubscriptionModel;
 
@@ -0,0 +1,334 @@
+import mongoose, { Document, Schema, Model, Types, FilterQuery } from 'mongoose';
+
+export type TicketStatus = 'Open' | 'Pending' | 'Closed';
+export type TicketPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+/**
+ * Allowed status transitions for the ticket workflow.
+ * Tickets move Open → Pending → Closed and may be reopened once closed.
+ */
+export const TICKET_STATUS_TRANSITIONS: Record<TicketStatus, TicketStatus[]> = {
+  Open: ['Pending', 'Closed'],
+  Pending: ['Open', 'Closed'],
+  Closed: ['Open']
+};
+
+/**
+ * Ticket reply interface for threaded conversations
+ */
+export interface ITicketReply {
+  _id?: Types.ObjectId;
+  authorId: string;
+  authorName: string;
+  message: string;
+  parentReplyId?: string; // Reply being answered, for threading
+  createdAt: Date;
+}
+
+/**
+ * Ticket interface for the support ticket system
+ */
+export interface ITicket {
+  ticketNumber: number;
+  title: string;
+  description: string;
+  status: TicketStatus;
+  priority: TicketPriority;
+  assignedTo?: Types.ObjectId; // Reference to User acting as agent
+  replies: ITicketReply[];
+  closedAt?: Date;
+  isDeleted: boolean;
+  userId: string;
+  createdBy?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Ticket document interface extending Mongoose Document
+ */
+export interface ITicketDocument extends ITicket, Document {
+  isOwnedBy(userId: string): boolean;
+  canTransitionTo(status: TicketStatus): boolean;
+  transitionTo(status: TicketStatus): Promise<void>;
+  addReply(authorId: string, authorName: string, message: string, parentReplyId?: string): Promise<ITicketReply>;
+  softDelete(): Promise<void>;
+}
+
+/**
+ * Ticket model interface with static methods
+ */
+export interface ITicketModel extends Model<ITicketDocument> {
+  accessibleBy(ownerId: string, agentId?: string): FilterQuery<ITicketDocument>;
+  findByUser(userId: string, includeDeleted?: boolean): Promise<ITicketDocument[]>;
+  findByAgent(agentId: string, userId: string): Promise<ITicketDocument[]>;
+  getNextTicketNumber(userId: string): Promise<number>;
+  getStatusCounts(ownerId: string, agentId?: string): Promise<Record<TicketStatus | 'total', number>>;
+}
+
+/**
+ * Ticket reply schema
+ */
+const ticketReplySchema = new Schema<ITicketReply>({
+  authorId: {
+    type: String,
+    required: [true, 'Reply author is required']
+  },
+  authorName: {
+    type: String,
+    required: [true, 'Reply author name is required'],
+    trim: true
+  },
+  message: {
+    type: String,
+    required: [true, 'Reply message is required'],
+    trim: true,
+    maxlength: [5000, 'Reply cannot exceed 5000 characters']
+  },
+  parentReplyId: {
+    type: String,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+/**
+ * Ticket schema definition with validation and middleware
+ */
+const ticketSchema = new Schema<ITicketDocument, ITicketModel>({
+  ticketNumber: {
+    type: Number,
+    min: [1, 'Ticket number must be positive']
+  },
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+  description: {
+    type: String,
+    required: [true, 'Description is required'],
+    trim: true,
+    maxlength: [5000, 'Description cannot exceed 5000 characters']
+  },
+  status: {
+    type: String,
+    enum: {
+      values: ['Open', 'Pending', 'Closed'],
+      message: 'Status must be one of: Open, Pending, Closed'
+    },
+    default: 'Open'
+  },
+  priority: {
+    type: String,
+    enum: {
+      values: ['low', 'medium', 'high', 'urgent'],
+      message: 'Priority must be one of: low, medium, high, urgent'
+    },
+    default: 'medium'
+  },
+  assignedTo: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
+  },
+  replies: {
+    type: [ticketReplySchema],
+    default: []
+  },
+  closedAt: {
+    type: Date,
+    default: null
+  },
+  isDeleted: {
+    type: Boolean,
+    default: false
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  },
+  createdBy: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+ticketSchema.index({ userId: 1, ticketNumber: 1 }, { unique: true, sparse: true });
+ticketSchema.index({ userId: 1, status: 1, isDeleted: 1 });
+ticketSchema.index({ userId: 1, assignedTo: 1 });
+ticketSchema.index({ userId: 1, createdAt: -1 });
+
+// Text index for search functionality
+ticketSchema.index({
+  title: 'text',
+  description: 'text'
+}, {
+  weights: {
+    title: 10,
+    description: 5
+  }
+});
+
+/**
+ * Pre-save middleware to assign ticket numbers and track closure
+ */
+ticketSchema.pre('save', async function(next) {
+  if (!this.ticketNumber) {
+    this.ticketNumber = await (this.constructor as ITicketModel).getNextTicketNumber(this.userId);
+  }
+
+  if (this.isModified('status')) {
+    this.closedAt = this.status === 'Closed' ? new Date() : undefined;
+  }
+
+  next();
+});
+
+/**
+ * Instance method to check ownership
+ */
+ticketSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Instance method to check whether a status change is allowed
+ */
+ticketSchema.methods.canTransitionTo = function(status: TicketStatus): boolean {
+  return TICKET_STATUS_TRANSITIONS[this.status as TicketStatus]?.includes(status) || false;
+};
+
+/**
+ * Instance method to move the ticket through the workflow
+ */
+ticketSchema.methods.transitionTo = async function(status: TicketStatus): Promise<void> {
+  if (!this.canTransitionTo(status)) {
+    throw new Error(`Invalid status transition from ${this.status} to ${status}`);
+  }
+
+  this.status = status;
+  await this.save();
+};
+
+/**
+ * Instance method to append a reply to the ticket thread
+ */
+ticketSchema.methods.addReply = async function(
+  authorId: string,
+  authorName: string,
+  message: string,
+  parentReplyId?: string
+): Promise<ITicketReply> {
+  if (parentReplyId && !this.replies.some((reply: ITicketReply) => reply._id?.toString() === parentReplyId)) {
+    throw new Error('Parent reply not found');
+  }
+
+  this.replies.push({
+    authorId,
+    authorName,
+    message,
+    parentReplyId,
+    createdAt: new Date()
+  });
+  await this.save();
+
+  return this.replies[this.replies.length - 1];
+};
+
+/**
+ * Instance method to soft delete a ticket
+ */
+ticketSchema.methods.softDelete = async function(): Promise<void> {
+  this.isDeleted = true;
+  await this.save();
+};
+
+/**
+ * Static method building the filter for active tickets a user can work on:
+ * the ones raised in their workspace and the ones assigned to them as agent
+ * @param ownerId - Workspace owner the tickets are stored under
+ * @param agentId - Signed-in user, defaults to the owner
+ */
+ticketSchema.statics.accessibleBy = function(ownerId: string, agentId: string = ownerId) {
+  return {
+    isDeleted: false,
+    $or: Types.ObjectId.isValid(agentId)
+      ? [{ userId: ownerId }, { assignedTo: new Types.ObjectId(agentId) }]
+      : [{ userId: ownerId }]
+  };
+};
+
+/**
+ * Static method to find tickets by user
+ */
+ticketSchema.statics.findByUser = function(userId: string, includeDeleted: boolean = false) {
+  const query: any = { userId };
+
+  if (!includeDeleted) {
+    query.isDeleted = false;
+  }
+
+  return this.find(query).sort({ createdAt: -1 });
+};
+
+/**
+ * Static method to find tickets assigned to an agent
+ */
+ticketSchema.statics.findByAgent = function(agentId: string, userId: string) {
+  return this.find({
+    userId,
+    assignedTo: agentId,
+    isDeleted: false
+  }).sort({ createdAt: -1 });
+};
+
+/**
+ * Static method to get the next sequential ticket number for a user
+ */
+ticketSchema.statics.getNextTicketNumber = async function(userId: string): Promise<number> {
+  const latestTicket = await this.findOne({ userId })
+    .sort({ ticketNumber: -1 })
+    .select('ticketNumber')
+    .lean();
+
+  return (latestTicket?.ticketNumber || 0) + 1;
+};
+
+/**
+ * Static method to count active tickets per status, among those the user can work on
+ */
+ticketSchema.statics.getStatusCounts = async function(ownerId: string, agentId: string = ownerId) {
+  const result = await this.aggregate([
+    { $match: (this as ITicketModel).accessibleBy(ownerId, agentId) },
+    { $group: { _id: '$status', count: { $sum: 1 } } }
+  ]);
+
+  const counts: Record<TicketStatus | 'total', number> = { Open: 0, Pending: 0, Closed: 0, total: 0 };
+  result.forEach((item: { _id: TicketStatus; count: number }) => {
+    counts[item._id] = item.count;
+    counts.total += item.count;
+  });
+
+  return counts;
+};
+
+// Prevent model re-compilation during development
+const Ticket = (mongoose.models.Ticket ||
+  mongoose.model<ITicketDocument, ITicketModel>('Ticket', ticketSchema)) as ITicketModel;
+
+export default Ticket;
+export { Ticket };
@@ -0,0 +1,167 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * One-time recovery code, stored as a hash
+ */
+export interface IRecoveryCode {
+  codeHash: string;
+  usedAt?: Date | null;
+}
+
+/**
+ * Two-factor authentication settings for a user
+ * Secrets are encrypted at rest and never returned by toJSON
+ */
+export interface ITwoFactorAuth {
+  userId: string; // Reference to User
+  enabled: boolean;
+  secret?: string | null; // Encrypted TOTP secret in use once enrollment is confirmed
+  pendingSecret?: string | null; // Encrypted secret awaiting a first valid code
+  pendingCreatedAt?: Date | null;
+  recoveryCodes: IRecoveryCode[];
+  lastUsedStep?: number | null; // Last accepted TOTP time step, so a code cannot be replayed
+  failedAttempts: number;
+  lockedUntil?: Date | null;
+  enabledAt?: Date | null;
+  lastVerifiedAt?: Date | null;
+  consumedChallenges: string[]; // Ids of login challenges already used to sign in
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * TwoFactorAuth document interface extending Mongoose Document
+ */
+export interface ITwoFactorAuthDocument extends ITwoFactorAuth, Document {
+  isLocked(): boolean;
+  remainingRecoveryCodes(): number;
+}
+
+/**
+ * TwoFactorAuth model interface with static methods
+ */
+export interface ITwoFactorAuthModel extends Model<ITwoFactorAuthDocument> {
+  findByUserId(userId: string, includeSecrets?: boolean): Promise<ITwoFactorAuthDocument | null>;
+  isEnabledForUser(userId: string): Promise<boolean>;
+}
+
+const recoveryCodeSchema = new Schema<IRecoveryCode>({
+  codeHash: {
+    type: String,
+    required: true
+  },
+  usedAt: {
+    type: Date,
+    default: null
+  }
+}, { _id: false });
+
+/**
+ * TwoFactorAuth schema definition
+ */
+const twoFactorAuthSchema = new Schema<ITwoFactorAuthDocument, ITwoFactorAuthModel>({
+  userId: {
+    type: String,
+    required: [true, 'User ID is required'],
+    unique: true,
+    ref: 'User'
+  },
+  enabled: {
+    type: Boolean,
+    default: false
+  },
+  secret: {
+    type: String,
+    default: null,
+    select: false
+  },
+  pendingSecret: {
+    type: String,
+    default: null,
+    select: false
+  },
+  pendingCreatedAt: {
+    type: Date,
+    default: null
+  },
+  recoveryCodes: {
+    type: [recoveryCodeSchema],
+    default: [],
+    select: false
+  },
+  lastUsedStep: {
+    type: Number,
+    default: null
+  },
+  failedAttempts: {
+    type: Number,
+    default: 0,
+    min: [0, 'Failed attempts cannot be negative']
+  },
+  lockedUntil: {
+    type: Date,
+    default: null
+  },
+  enabledAt: {
+    type: Date,
+    default: null
+  },
+  lastVerifiedAt: {
+    type: Date,
+    default: null
+  },
+  consumedChallenges: {
+    type: [String],
+    default: [],
+    select: false
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).secret;
+      delete (ret as any).pendingSecret;
+      delete (ret as any).recoveryCodes;
+      delete (ret as any).lastUsedStep;
+      delete (ret as any).consumedChallenges;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+/**
+ * Instance method to check whether too many failed codes have locked verification
+ */
+twoFactorAuthSchema.methods.isLocked = function(): boolean {
+  return Boolean(this.lockedUntil && this.lockedUntil > new Date());
+};
+
+/**
+ * Instance method to count unused recovery codes (requires recoveryCodes to be selected)
+ */
+twoFactorAuthSchema.methods.remainingRecoveryCodes = function(): number {
+  return (this.recoveryCodes || []).filter((code: IRecoveryCode) => !code.usedAt).length;
+};
+
+/**
+ * Static method to find a user's settings, optionally with the encrypted secrets
+ */
+twoFactorAuthSchema.statics.findByUserId = function(userId: string, includeSecrets: boolean = false) {
+  const query = this.findOne({ userId });
+  return includeSecrets ? query.select('+secret +pendingSecret +recoveryCodes') : query;
+};
+
+/**
+ * Static method to check whether a user has confirmed two-factor enrollment
+ */
+twoFactorAuthSchema.statics.isEnabledForUser = async function(userId: string): Promise<boolean> {
+  return Boolean(await this.exists({ userId, enabled: true }));
+};
+
+// Prevent model re-compilation during development
+const TwoFactorAuth = (mongoose.models.TwoFactorAuth ||
+  mongoose.model<ITwoFactorAuthDocument, ITwoFactorAuthModel>('TwoFactorAuth', twoFactorAuthSchema)) as ITwoFactorAuthModel;
+
+export default TwoFactorAuth;
+export { TwoFactorAuth };
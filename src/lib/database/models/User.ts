@@ -1,5 +1,7 @@
 import mongoose, { Document, Schema, Model, Types } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { SUPPORTED_CURRENCIES, CurrencyCode, DEFAULT_BASE_CURRENCY } from '../../constants/currencies';
+import Workspace from './Workspace';
 
 /**
  * User interface matching the Mongoose schema
@@ -26,6 +28,8 @@ export interface IUser {
   company?: string;
   department?: string;
   lastLogin?: Date;
+  baseCurrency?: CurrencyCode; // Reporting currency for finance summaries
+  activeWorkspace?: Types.ObjectId | null; // Workspace the user is working in; see WorkspaceService
   emailPreferences?: {
     subscriptionConfirmation: boolean;
     paymentNotifications: boolean;
@@ -192,6 +196,20 @@ const userSchema = new Schema<IUserDocument, IUserModel>({
     type: Date,
     default: null
   },
+  baseCurrency: {
+    type: String,
+    uppercase: true,
+    enum: {
+      values: [...SUPPORTED_CURRENCIES],
+      message: `Base currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`
+    },
+    default: DEFAULT_BASE_CURRENCY
+  },
+  activeWorkspace: {
+    type: Schema.Types.ObjectId,
+    ref: 'Workspace',
+    default: null
+  },
   emailPreferences: {
     subscriptionConfirmation: {
       type: Boolean,
@@ -454,12 +472,17 @@ userSchema.methods.hasFeatureAccess = async function(feature: string): Promise<b
 };
 
 /**
- * Instance method to get user's role
+ * Instance method to get user's role in their active workspace
  * @returns Promise<any> - User's role document
  */
 userSchema.methods.getRole = async function(): Promise<any> {
   const Role = mongoose.model('Role');
-  return await Role.findById(this.role).populate('permissions');
+
+  // In another user's workspace, act with the role given there
+  const workspace = this.activeWorkspace ? await Workspace.findById(this.activeWorkspace) : null;
+  const workspaceRole = workspace ? workspace.getMemberRole(this._id.toString()) : null;
+
+  return await Role.findById(workspaceRole || this.role).populate('permissions');
 };
 
 /**
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import { auditTrailPlugin } from '../audit-trail';
 
 /**
  * Vendor interface for financial tracking system
@@ -157,6 +158,9 @@ vendorSchema.statics.searchByName = function(query: string, userId: string) {
   }).sort({ name: 1 }).limit(10);
 };
 
+// Record field-level changes in the audit log
+vendorSchema.plugin(auditTrailPlugin, { resource: 'vendor', labelField: 'name', ownerField: 'userId' });
+
 // Prevent model re-compilation during development
 const Vendor = (mongoose.models.Vendor ||
   mongoose.model<IVendorDocument, IVendorModel>('Vendor', vendorSchema)) as IVendorModel;
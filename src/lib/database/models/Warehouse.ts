@@ -0,0 +1,183 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+/**
+ * Warehouse interface for stock locations (warehouses, shops, branches)
+ * Per-location quantities are kept in StockLevel documents
+ */
+export interface IWarehouse {
+  name: string;
+  code: string; // Short identifier written to InventoryLog.location
+  address?: {
+    street?: string;
+    city?: string;
+    state?: string;
+    postalCode?: string;
+    country?: string;
+  };
+  contactName?: string;
+  phone?: string;
+  isDefault: boolean; // Receives stock movements that do not name a location
+  isActive: boolean;
+  notes?: string;
+  userId: string; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Warehouse document interface extending Mongoose Document
+ */
+export interface IWarehouseDocument extends IWarehouse, Document {
+  isOwnedBy(userId: string): boolean;
+}
+
+/**
+ * Warehouse model interface with static methods
+ */
+export interface IWarehouseModel extends Model<IWarehouseDocument> {
+  findByUser(userId: string, includeInactive?: boolean): Promise<IWarehouseDocument[]>;
+  findByCode(code: string, userId: string): Promise<IWarehouseDocument | null>;
+  getDefaultWarehouse(userId: string): Promise<IWarehouseDocument>;
+}
+
+/**
+ * Warehouse schema definition with validation
+ */
+const warehouseSchema = new Schema<IWarehouseDocument, IWarehouseModel>({
+  name: {
+    type: String,
+    required: [true, 'Warehouse name is required'],
+    trim: true,
+    maxlength: [100, 'Warehouse name cannot exceed 100 characters']
+  },
+  code: {
+    type: String,
+    required: [true, 'Warehouse code is required'],
+    trim: true,
+    uppercase: true,
+    maxlength: [20, 'Warehouse code cannot exceed 20 characters'],
+    match: [/^[A-Z0-9_-]+$/, 'Warehouse code may only contain letters, numbers, dashes and underscores']
+  },
+  address: {
+    street: { type: String, trim: true },
+    city: { type: String, trim: true },
+    state: { type: String, trim: true },
+    postalCode: { type: String, trim: true },
+    country: { type: String, trim: true }
+  },
+  contactName: {
+    type: String,
+    trim: true,
+    maxlength: [100, 'Contact name cannot exceed 100 characters']
+  },
+  phone: {
+    type: String,
+    trim: true,
+    maxlength: [30, 'Phone cannot exceed 30 characters']
+  },
+  isDefault: {
+    type: Boolean,
+    default: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [500, 'Notes cannot exceed 500 characters']
+  },
+  userId: {
+    type: String,
+    required: [true, 'User ID is required']
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for efficient queries
+warehouseSchema.index({ userId: 1, code: 1 }, { unique: true });
+warehouseSchema.index({ userId: 1, isActive: 1 });
+warehouseSchema.index({ userId: 1, isDefault: 1 });
+
+/**
+ * Pre-save middleware to keep a single default warehouse per user
+ */
+warehouseSchema.pre('save', async function(next) {
+  if (this.isModified('isDefault') && this.isDefault) {
+    if (!this.isActive) {
+      return next(new Error('The default warehouse must be active'));
+    }
+
+    await (this.constructor as IWarehouseModel).updateMany(
+      { userId: this.userId, _id: { $ne: this._id }, isDefault: true },
+      { $set: { isDefault: false } }
+    );
+  }
+
+  next();
+});
+
+/**
+ * Instance method to check ownership
+ */
+warehouseSchema.methods.isOwnedBy = function(userId: string): boolean {
+  return this.userId === userId;
+};
+
+/**
+ * Static method to find warehouses by user
+ */
+warehouseSchema.statics.findByUser = function(userId: string, includeInactive: boolean = false) {
+  const query: any = { userId };
+  if (!includeInactive) {
+    query.isActive = true;
+  }
+  return this.find(query).sort({ isDefault: -1, name: 1 });
+};
+
+/**
+ * Static method to find a warehouse by its code
+ */
+warehouseSchema.statics.findByCode = function(code: string, userId: string) {
+  return this.findOne({ code: code.trim().toUpperCase(), userId });
+};
+
+/**
+ * Static method to get the user's default warehouse, creating one on first use
+ */
+warehouseSchema.statics.getDefaultWarehouse = async function(userId: string): Promise<IWarehouseDocument> {
+  const existing = await this.findOne({ userId, isDefault: true });
+  if (existing) {
+    return existing;
+  }
+
+  // Promote the oldest active location before creating a new one
+  const fallback = await this.findOne({ userId, isActive: true }).sort({ createdAt: 1 });
+  if (fallback) {
+    fallback.isDefault = true;
+    return fallback.save();
+  }
+
+  return this.create({
+    name: 'Main Warehouse',
+    code: 'DEFAULT',
+    isDefault: true,
+    isActive: true,
+    userId
+  });
+};
+
+// Prevent model re-compilation during development
+const Warehouse = (mongoose.models.Warehouse ||
+  mongoose.model<IWarehouseDocument, IWarehouseModel>('Warehouse', warehouseSchema)) as IWarehouseModel;
+
+export default Warehouse;
+export { Warehouse };
@@ -0,0 +1,127 @@
+import mongoose, { Document, Schema, Model, Types } from 'mongoose';
+import { WEBHOOK_EVENTS, WebhookEvent } from '@/lib/constants/webhook-events';
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+/**
+ * Webhook delivery interface
+ * One attempt (including its automatic retries) to send an event to an endpoint
+ */
+export interface IWebhookDelivery {
+  userId: string; // Reference to User; the endpoint's owner
+  endpointId: Types.ObjectId;
+  event: WebhookEvent;
+  eventId: string; // Same for redeliveries of the event, so receivers can deduplicate
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number | null;
+  responseBody?: string | null; // Truncated, kept only for successful responses
+  error?: string | null;
+  durationMs?: number | null;
+  redeliveryOf?: Types.ObjectId | null;
+  completedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WebhookDelivery document interface extending Mongoose Document
+ */
+export interface IWebhookDeliveryDocument extends IWebhookDelivery, Document {}
+
+/**
+ * WebhookDelivery model interface with static methods
+ */
+export interface IWebhookDeliveryModel extends Model<IWebhookDeliveryDocument> {
+  findForEndpoint(endpointId: string, limit?: number): Promise<IWebhookDeliveryDocument[]>;
+}
+
+/**
+ * WebhookDelivery schema definition
+ */
+const webhookDeliverySchema = new Schema<IWebhookDeliveryDocument, IWebhookDeliveryModel>({
+  userId: {
+    type: String,
+    required: [true, 'User ID is required'],
+    ref: 'User'
+  },
+  endpointId: {
+    type: Schema.Types.ObjectId,
+    ref: 'WebhookEndpoint',
+    required: [true, 'Endpoint is required']
+  },
+  event: {
+    type: String,
+    enum: Object.values(WEBHOOK_EVENTS),
+    required: [true, 'Event is required']
+  },
+  eventId: {
+    type: String,
+    required: true
+  },
+  payload: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'succeeded', 'failed'],
+    default: 'pending'
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  responseStatus: {
+    type: Number,
+    default: null
+  },
+  responseBody: {
+    type: String,
+    default: null
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  durationMs: {
+    type: Number,
+    default: null
+  },
+  redeliveryOf: {
+    type: Schema.Types.ObjectId,
+    ref: 'WebhookDelivery',
+    default: null
+  },
+  completedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for the delivery log; entries expire after 30 days
+webhookDeliverySchema.index({ endpointId: 1, createdAt: -1 });
+webhookDeliverySchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+/**
+ * Static method to list an endpoint's most recent deliveries
+ */
+webhookDeliverySchema.statics.findForEndpoint = function(endpointId: string, limit: number = 50) {
+  return this.find({ endpointId }).sort({ createdAt: -1 }).limit(limit);
+};
+
+// Prevent model re-compilation during development
+const WebhookDelivery = (mongoose.models.WebhookDelivery ||
+  mongoose.model<IWebhookDeliveryDocument, IWebhookDeliveryModel>('WebhookDelivery', webhookDeliverySchema)) as IWebhookDeliveryModel;
+
+export default WebhookDelivery;
+export { WebhookDelivery };
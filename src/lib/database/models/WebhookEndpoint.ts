@@ -0,0 +1,119 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+import crypto from 'crypto';
+import { WEBHOOK_EVENTS, WebhookEvent } from '@/lib/constants/webhook-events';
+
+/**
+ * Outbound webhook endpoint interface
+ * Boami POSTs signed event payloads to the URL for each subscribed event
+ */
+export interface IWebhookEndpoint {
+  userId: string; // Reference to User; the workspace owner
+  url: string;
+  description?: string;
+  events: WebhookEvent[];
+  secret: string; // Signs payloads; shared with the receiver
+  isActive: boolean;
+  lastDeliveryAt?: Date | null;
+  lastDeliveryStatus?: 'succeeded' | 'failed' | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WebhookEndpoint document interface extending Mongoose Document
+ */
+export interface IWebhookEndpointDocument extends IWebhookEndpoint, Document {
+  generateSecret(): string;
+}
+
+/**
+ * WebhookEndpoint model interface with static methods
+ */
+export interface IWebhookEndpointModel extends Model<IWebhookEndpointDocument> {
+  findSubscribed(event: WebhookEvent, userId?: string): Promise<IWebhookEndpointDocument[]>;
+}
+
+/**
+ * WebhookEndpoint schema definition
+ */
+const webhookEndpointSchema = new Schema<IWebhookEndpointDocument, IWebhookEndpointModel>({
+  userId: {
+    type: String,
+    required: [true, 'User ID is required'],
+    ref: 'User'
+  },
+  url: {
+    type: String,
+    required: [true, 'Endpoint URL is required'],
+    trim: true,
+    maxlength: [2048, 'Endpoint URL cannot exceed 2048 characters']
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: [200, 'Description cannot exceed 200 characters']
+  },
+  events: {
+    type: [String],
+    enum: Object.values(WEBHOOK_EVENTS),
+    validate: {
+      validator: (events: string[]) => events.length > 0,
+      message: 'Subscribe to at least one event'
+    }
+  },
+  secret: {
+    type: String,
+    required: true,
+    select: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  lastDeliveryAt: {
+    type: Date,
+    default: null
+  },
+  lastDeliveryStatus: {
+    type: String,
+    enum: ['succeeded', 'failed', null],
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).secret;
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for finding the endpoints an event goes to
+webhookEndpointSchema.index({ userId: 1, createdAt: -1 });
+webhookEndpointSchema.index({ events: 1, isActive: 1 });
+
+/**
+ * Instance method to generate a new signing secret, replacing any previous one (does not save)
+ */
+webhookEndpointSchema.methods.generateSecret = function(): string {
+  this.secret = `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  return this.secret;
+};
+
+/**
+ * Static method to find active endpoints subscribed to an event, with their secrets
+ * @param event - Event type
+ * @param userId - Owner to limit to; omitted for store-wide events
+ */
+webhookEndpointSchema.statics.findSubscribed = function(event: WebhookEvent, userId?: string) {
+  return this.find({ events: event, isActive: true, ...(userId ? { userId } : {}) }).select('+secret');
+};
+
+// Prevent model re-compilation during development
+const WebhookEndpoint = (mongoose.models.WebhookEndpoint ||
+  mongoose.model<IWebhookEndpointDocument, IWebhookEndpointModel>('WebhookEndpoint', webhookEndpointSchema)) as IWebhookEndpointModel;
+
+export default WebhookEndpoint;
+export { WebhookEndpoint };
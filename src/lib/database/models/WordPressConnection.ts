@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import crypto from 'crypto';
 
 /**
  * WordPress Connection interface for storing WooCommerce API configurations
@@ -9,11 +10,13 @@ export interface IWordPressConnection {
   siteUrl: string;
   consumerKey: string;
   consumerSecret: string;
+  webhookSecret?: string; // Shared secret for verifying inbound WooCommerce webhooks
   version: string;
   isWooCommerce: boolean;
   isActive: boolean;
   lastTestDate?: Date;
   lastSyncDate?: Date;
+  lastWebhookAt?: Date;
   testResult?: {
     success: boolean;
     message: string;
@@ -30,6 +33,13 @@ export interface IWordPressConnection {
     updateExisting: boolean;
     lastAutoSync?: Date;
   };
+  orderSync: {
+    enabled: boolean; // Import new orders on the auto-sync interval
+    userId?: string; // Account that owns imported sales
+    statuses: string[]; // WooCommerce order statuses to import
+    lastOrderDate?: Date; // Creation date of the newest imported order
+    lastImportAt?: Date;
+  };
   importStats: {
     totalProducts: number;
     lastImportCount: number;
@@ -53,6 +63,7 @@ export interface IWordPressConnectionDocument extends IWordPressConnection, Docu
   updateTestResult(result: { success: boolean; message: string; responseTime?: number }): Promise<void>;
   updateSyncStats(stats: { imported: number; synced: number; errors: number }): Promise<void>;
   isReadyForSync(): boolean;
+  generateWebhookSecret(): Promise<string>;
 }
 
 /**
@@ -62,6 +73,7 @@ export interface IWordPressConnectionModel extends Model<IWordPressConnectionDoc
   findActiveConnections(): Promise<IWordPressConnectionDocument[]>;
   findByUrl(siteUrl: string): Promise<IWordPressConnectionDocument | null>;
   findReadyForAutoSync(): Promise<IWordPressConnectionDocument[]>;
+  findReadyForOrderImport(): Promise<IWordPressConnectionDocument[]>;
 }
 
 /**
@@ -103,6 +115,10 @@ const wordPressConnectionSchema = new Schema<IWordPressConnectionDocument, IWord
     trim: true,
     select: false // Don't include in queries by default for security
   },
+  webhookSecret: {
+    type: String,
+    select: false
+  },
   version: {
     type: String,
     default: 'wc/v3',
@@ -119,6 +135,7 @@ const wordPressConnectionSchema = new Schema<IWordPressConnectionDocument, IWord
   },
   lastTestDate: Date,
   lastSyncDate: Date,
+  lastWebhookAt: Date,
   testResult: {
     success: {
       type: Boolean,
@@ -164,6 +181,19 @@ const wordPressConnectionSchema = new Schema<IWordPressConnectionDocument, IWord
     },
     lastAutoSync: Date
   },
+  orderSync: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    userId: String,
+    statuses: {
+      type: [String],
+      default: ['processing', 'completed']
+    },
+    lastOrderDate: Date,
+    lastImportAt: Date
+  },
   importStats: {
     totalProducts: {
       type: Number,
@@ -199,6 +229,7 @@ const wordPressConnectionSchema = new Schema<IWordPressConnectionDocument, IWord
       delete (ret as any).__v;
       delete (ret as any).consumerKey;
       delete (ret as any).consumerSecret;
+      delete (ret as any).webhookSecret;
       return ret;
     }
   }
@@ -301,6 +332,15 @@ wordPressConnectionSchema.methods.isReadyForSync = function(): boolean {
          (this.lastTestDate && (Date.now() - this.lastTestDate.getTime()) < 24 * 60 * 60 * 1000); // Tested within 24 hours
 };
 
+/**
+ * Instance method to generate a new webhook secret, replacing any previous one
+ */
+wordPressConnectionSchema.methods.generateWebhookSecret = async function(): Promise<string> {
+  this.webhookSecret = crypto.randomBytes(32).toString('hex');
+  await this.save();
+  return this.webhookSecret;
+};
+
 /**
  * Static method to find active connections
  */
@@ -338,6 +378,24 @@ wordPressConnectionSchema.statics.findReadyForAutoSync = function() {
   }).select('+consumerKey +consumerSecret');
 };
 
+/**
+ * Static method to find connections whose order import is due
+ */
+wordPressConnectionSchema.statics.findReadyForOrderImport = function() {
+  const now = Date.now();
+
+  return this.find({
+    isActive: true,
+    'orderSync.enabled': true,
+    'orderSync.userId': { $exists: true }
+  })
+    .select('+consumerKey +consumerSecret')
+    .then((connections: IWordPressConnectionDocument[]) => connections.filter(connection => {
+      const lastImport = connection.orderSync?.lastImportAt?.getTime() || 0;
+      return now - lastImport >= (connection.syncSettings?.syncInterval || 60) * 60 * 1000;
+    }));
+};
+
 // Prevent model re-compilation during development
 const WordPressConnection = (mongoose.models.WordPressConnection ||
   mongoose.model<IWordPressConnectionDocument, IWordPressConnectionModel>('WordPressConnection', wordPressConnectionSchema)) as IWordPressConnectionModel;
@@ -1,13 +1,15 @@
 import mongoose, { Document, Schema, Model } from 'mongoose';
+import type { IImportRollback } from './ImportJob';
 
 /**
- * WordPress Import Job interface for tracking product import operations
+ * WordPress Import Job interface for tracking product and order import operations
  * Handles progress tracking, error logging, and job status management
  */
 export interface IWordPressImportJob {
   connectionId: string; // Reference to WordPressConnection
   jobId: string; // Unique job identifier
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  type: 'products' | 'orders';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'rolled_back';
 
   // Progress tracking
   progress: {
@@ -24,7 +26,7 @@ export interface IWordPressImportJob {
   // Import configuration
   filters: {
     categories?: string[];
-    status?: string[];
+    status?: string[]; // Product statuses, or order statuses for order imports
     dateFrom?: Date;
     dateTo?: Date;
     includeVariations: boolean;
@@ -37,6 +39,10 @@ export interface IWordPressImportJob {
   results: {
     newProducts: string[]; // Product IDs created
     updatedProducts: string[]; // Product IDs updated
+    previousValues: {
+      productId: string;
+      values: Record<string, any>; // Fields as they were before the import updated them
+    }[];
     skippedProducts: string[]; // Product IDs skipped
     failedProducts: {
       wordpressId: number;
@@ -44,7 +50,14 @@ export interface IWordPressImportJob {
       name: string;
       error: string;
     }[];
+    newOrders: string[]; // SalesOrder IDs created
+    failedOrders: {
+      wordpressId: number;
+      orderNumber: string;
+      error: string;
+    }[];
   };
+  rollback?: IImportRollback;
 
   // Error tracking
   importErrors: {
@@ -112,9 +125,14 @@ const wordPressImportJobSchema = new Schema<IWordPressImportJobDocument, IWordPr
     required: [true, 'Job ID is required'],
     unique: true
   },
+  type: {
+    type: String,
+    enum: ['products', 'orders'],
+    default: 'products'
+  },
   status: {
     type: String,
-    enum: ['pending', 'processing', 'completed', 'failed', 'cancelled'],
+    enum: ['pending', 'processing', 'completed', 'failed', 'cancelled', 'rolled_back'],
     default: 'pending'
   },
 
@@ -193,6 +211,17 @@ const wordPressImportJobSchema = new Schema<IWordPressImportJobDocument, IWordPr
     updatedProducts: [{
       type: String
     }],
+    previousValues: [{
+      _id: false,
+      productId: {
+        type: String,
+        required: true
+      },
+      values: {
+        type: Schema.Types.Mixed,
+        default: {}
+      }
+    }],
     skippedProducts: [{
       type: String
     }],
@@ -210,8 +239,30 @@ const wordPressImportJobSchema = new Schema<IWordPressImportJobDocument, IWordPr
         type: String,
         required: true
       }
+    }],
+    newOrders: [{
+      type: String
+    }],
+    failedOrders: [{
+      wordpressId: {
+        type: Number,
+        required: true
+      },
+      orderNumber: String,
+      error: {
+        type: String,
+        required: true
+      }
     }]
   },
+  rollback: {
+    rolledBackAt: Date,
+    rolledBackBy: String,
+    deleted: Number,
+    restored: Number,
+    inventoryReversed: Number,
+    failures: [String]
+  },
 
   importErrors: [{
     timestamp: {
@@ -271,6 +322,7 @@ const wordPressImportJobSchema = new Schema<IWordPressImportJobDocument, IWordPr
 
 // Indexes for better query performance
 wordPressImportJobSchema.index({ connectionId: 1, status: 1 });
+wordPressImportJobSchema.index({ connectionId: 1, type: 1, startedAt: -1 });
 wordPressImportJobSchema.index({ userId: 1, startedAt: -1 });
 wordPressImportJobSchema.index({ status: 1, startedAt: -1 });
 wordPressImportJobSchema.index({ triggeredBy: 1, startedAt: -1 });
@@ -0,0 +1,131 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type WordPressWebhookTopic = 'product.updated' | 'product.deleted' | 'order.created';
+
+export type WordPressWebhookEventStatus = 'received' | 'processed' | 'ignored' | 'failed';
+
+/**
+ * WordPress Webhook Event interface for inbound WooCommerce deliveries
+ * One record per delivery so redelivered webhooks are applied only once
+ */
+export interface IWordPressWebhookEvent {
+  connectionId: string; // Reference to WordPressConnection
+  deliveryId: string; // X-WC-Webhook-Delivery-ID
+  topic: WordPressWebhookTopic;
+  resourceId: number; // WooCommerce product or order ID
+  payload: string; // Raw request body, kept for retries
+  status: WordPressWebhookEventStatus;
+  attempts: number;
+  message?: string; // Outcome or last error
+  processedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * WordPress Webhook Event document interface extending Mongoose Document
+ */
+export interface IWordPressWebhookEventDocument extends IWordPressWebhookEvent, Document {
+  markProcessed(status: 'processed' | 'ignored', message?: string): Promise<void>;
+  markFailed(error: string): Promise<void>;
+}
+
+/**
+ * WordPress Webhook Event model interface with static methods
+ */
+export interface IWordPressWebhookEventModel extends Model<IWordPressWebhookEventDocument> {
+  findByDelivery(connectionId: string, deliveryId: string): Promise<IWordPressWebhookEventDocument | null>;
+}
+
+/**
+ * WordPress Webhook Event schema definition
+ */
+const wordPressWebhookEventSchema = new Schema<IWordPressWebhookEventDocument, IWordPressWebhookEventModel>({
+  connectionId: {
+    type: String,
+    required: [true, 'Connection ID is required']
+  },
+  deliveryId: {
+    type: String,
+    required: [true, 'Delivery ID is required'],
+    trim: true
+  },
+  topic: {
+    type: String,
+    required: [true, 'Topic is required'],
+    enum: ['product.updated', 'product.deleted', 'order.created']
+  },
+  resourceId: {
+    type: Number,
+    required: [true, 'Resource ID is required']
+  },
+  payload: {
+    type: String,
+    required: [true, 'Payload is required']
+  },
+  status: {
+    type: String,
+    enum: ['received', 'processed', 'ignored', 'failed'],
+    default: 'received'
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+    min: [0, 'Attempts cannot be negative']
+  },
+  message: {
+    type: String,
+    maxlength: [1000, 'Message cannot exceed 1000 characters']
+  },
+  processedAt: Date
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      delete (ret as any).payload;
+      return ret;
+    }
+  }
+});
+
+// Indexes for better query performance
+wordPressWebhookEventSchema.index({ connectionId: 1, deliveryId: 1 }, { unique: true });
+wordPressWebhookEventSchema.index({ connectionId: 1, status: 1, createdAt: -1 });
+wordPressWebhookEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 }); // Keep deliveries for 30 days
+
+/**
+ * Instance method to record a successful or skipped delivery
+ */
+wordPressWebhookEventSchema.methods.markProcessed = async function(
+  status: 'processed' | 'ignored',
+  message?: string
+): Promise<void> {
+  this.status = status;
+  this.message = message?.slice(0, 1000);
+  this.processedAt = new Date();
+  await this.save();
+};
+
+/**
+ * Instance method to record a failed attempt
+ */
+wordPressWebhookEventSchema.methods.markFailed = async function(error: string): Promise<void> {
+  this.status = 'failed';
+  this.message = error.slice(0, 1000);
+  await this.save();
+};
+
+/**
+ * Static method to find a delivery for a connection
+ */
+wordPressWebhookEventSchema.statics.findByDelivery = function(connectionId: string, deliveryId: string) {
+  return this.findOne({ connectionId, deliveryId });
+};
+
+// Prevent model re-compilation during development
+const WordPressWebhookEvent = (mongoose.models.WordPressWebhookEvent ||
+  mongoose.model<IWordPressWebhookEventDocument, IWordPressWebhookEventModel>('WordPressWebhookEvent', wordPressWebhookEventSchema)) as IWordPressWebhookEventModel;
+
+export default WordPressWebhookEvent;
+export { WordPressWebhookEvent };
@@ -0,0 +1,140 @@
+import mongoose, { Document, Schema, Model, Types } from 'mongoose';
+
+/**
+ * Member of another user's workspace and the role they act with there
+ */
+export interface IWorkspaceMember {
+  userId: string; // Reference to User
+  role: Types.ObjectId; // Reference to Role, evaluated while this workspace is active
+  invitedBy?: string | null;
+  joinedAt: Date;
+}
+
+/**
+ * Workspace interface
+ * A workspace is one business's books. Its records (income, expenses,
+ * sales, notes, tasks...) are stored under the owner's user id, so each
+ * user owns at most one workspace and members read and write the owner's data.
+ */
+export interface IWorkspace {
+  name: string;
+  ownerId: string; // Reference to User; the owner acts with their own role
+  members: IWorkspaceMember[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Workspace document interface extending Mongoose Document
+ */
+export interface IWorkspaceDocument extends IWorkspace, Document {
+  isOwner(userId: string): boolean;
+  hasMember(userId: string): boolean;
+  getMemberRole(userId: string): Types.ObjectId | null;
+}
+
+/**
+ * Workspace model interface with static methods
+ */
+export interface IWorkspaceModel extends Model<IWorkspaceDocument> {
+  findByOwner(ownerId: string): Promise<IWorkspaceDocument | null>;
+  findForUser(userId: string): Promise<IWorkspaceDocument[]>;
+}
+
+const workspaceMemberSchema = new Schema<IWorkspaceMember>({
+  userId: {
+    type: String,
+    required: [true, 'User ID is required'],
+    ref: 'User'
+  },
+  role: {
+    type: Schema.Types.ObjectId,
+    ref: 'Role',
+    required: [true, 'Role is required']
+  },
+  invitedBy: {
+    type: String,
+    ref: 'User',
+    default: null
+  },
+  joinedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+/**
+ * Workspace schema definition
+ */
+const workspaceSchema = new Schema<IWorkspaceDocument, IWorkspaceModel>({
+  name: {
+    type: String,
+    required: [true, 'Workspace name is required'],
+    trim: true,
+    maxlength: [100, 'Workspace name cannot exceed 100 characters']
+  },
+  ownerId: {
+    type: String,
+    required: [true, 'Owner ID is required'],
+    unique: true,
+    ref: 'User'
+  },
+  members: {
+    type: [workspaceMemberSchema],
+    default: []
+  }
+}, {
+  timestamps: true,
+  toJSON: {
+    transform: function(doc, ret) {
+      delete (ret as any).__v;
+      return ret;
+    }
+  }
+});
+
+// Indexes for membership lookups
+workspaceSchema.index({ 'members.userId': 1 });
+
+/**
+ * Instance method to check whether the user owns the workspace
+ */
+workspaceSchema.methods.isOwner = function(userId: string): boolean {
+  return this.ownerId === userId;
+};
+
+/**
+ * Instance method to check whether the user belongs to the workspace, as owner or member
+ */
+workspaceSchema.methods.hasMember = function(userId: string): boolean {
+  return this.isOwner(userId) || this.members.some((member: IWorkspaceMember) => member.userId === userId);
+};
+
+/**
+ * Instance method to get a member's workspace role (null for the owner and non-members)
+ */
+workspaceSchema.methods.getMemberRole = function(userId: string): Types.ObjectId | null {
+  const member = this.members.find((item: IWorkspaceMember) => item.userId === userId);
+  return member ? member.role : null;
+};
+
+/**
+ * Static method to find the workspace a user owns
+ */
+workspaceSchema.statics.findByOwner = function(ownerId: string) {
+  return this.findOne({ ownerId });
+};
+
+/**
+ * Static method to find every workspace a user owns or is a member of
+ */
+workspaceSchema.statics.findForUser = function(userId: string) {
+  return this.find({ $or: [{ ownerId: userId }, { 'members.userId': userId }] }).sort({ createdAt: 1 });
+};
+
+// Prevent model re-compilation during development
+const Workspace = (mongoose.models.Workspace ||
+  mongoose.model<IWorkspaceDocument, IWorkspaceModel>('Workspace', workspaceSchema)) as IWorkspaceModel;
+
+export default Workspace;
+export { Workspace };
@@ -3,6 +3,7 @@ export { default as User } from './User';
 export { default as Permission } from './Permission';
 export { default as Role } from './Role';
 export { default as Invitation } from './Invitation';
+export { default as Workspace } from './Workspace';
 
 // Subscription system models
 export { default as Subscription } from './Subscription';
@@ -14,6 +15,7 @@ export type { IUser, IUserDocument, IUserModel } from './User';
 export type { IPermission, IPermissionDocument, IPermissionModel } from './Permission';
 export type { IRole, IRoleDocument, IRoleModel } from './Role';
 export type { IInvitation, IInvitationDocument, IInvitationModel } from './Invitation';
+export type { IWorkspace, IWorkspaceDocument, IWorkspaceModel, IWorkspaceMember } from './Workspace';
 export type { ISubscription, ISubscriptionDocument, ISubscriptionModel } from './Subscription';
 export type { IPlan, IPlanDocument, IPlanModel } from './Plan';
 export type { ITransaction, ITransactionDocument, ITransactionModel } from './Transaction';
@@ -24,18 +26,25 @@ export { default as IncomeCategory } from './IncomeCategory';
 export { default as Expense } from './Expense';
 export { default as ExpenseCategory } from './ExpenseCategory';
 export { default as Vendor } from './Vendor';
+export { default as PurchaseOrder } from './PurchaseOrder';
+export { default as ExchangeRate } from './ExchangeRate';
 
 // Invoice and Sales models
 export { default as Invoice } from './Invoice';
+export { default as RecurringInvoice } from './RecurringInvoice';
 export { default as Sale } from './Sale';
+export { default as SalesOrder } from './SalesOrder';
 
 // Product models
 export { default as Product } from './Product';
 export { default as ProductVariant } from './ProductVariant';
+export { default as ProductImportProfile } from './ProductImportProfile';
 
 // Inventory and Stock models
 export { default as InventoryLog } from './InventoryLog';
 export { default as StockAlert } from './StockAlert';
+export { default as Warehouse } from './Warehouse';
+export { default as StockLevel } from './StockLevel';
 
 // Calendar and Kanban models
 export { default as CalendarEvent } from './CalendarEvent';
@@ -57,6 +66,27 @@ export { default as VerificationCode } from './VerificationCode';
 export { default as RecurringPayment } from './RecurringPayment';
 export { default as WordPressConnection } from './WordPressConnection';
 export { default as WordPressImportJob } from './WordPressImportJob';
+export { default as WordPressWebhookEvent } from './WordPressWebhookEvent';
+export { default as ExportJob } from './ExportJob';
+export { default as ScheduledExport } from './ScheduledExport';
+export { default as BankStatement } from './BankStatement';
+export { default as BankStatementLine } from './BankStatementLine';
+export { default as CategorizationRule } from './CategorizationRule';
+export { default as Budget } from './Budget';
+export { default as TwoFactorAuth } from './TwoFactorAuth';
+export { default as ApiKey } from './ApiKey';
+export { default as WebhookEndpoint } from './WebhookEndpoint';
+export { default as WebhookDelivery } from './WebhookDelivery';
+
+// Support models
+export { default as Ticket } from './Ticket';
+
+// CRM models
+export { default as Customer } from './Customer';
+
+// Chat models
+export { default as Conversation } from './Conversation';
+export { default as Message } from './Message';
 
 // Re-export commonly used types
 export type { Types } from 'mongoose';
\ No newline at end of file
@@ -2,6 +2,8 @@ import React from 'react';
 import { ResendClient } from '@/lib/email/resend-client';
 import { VerificationCodeEmail, VerificationCodeEmailProps } from '@/lib/email/templates/verification-code';
 import { PasswordResetEmail, PasswordResetEmailProps } from '@/lib/email/templates/password-reset';
+import { InvoiceDeliveryEmail, InvoiceDeliveryEmailProps } from '@/lib/email/templates/invoice-delivery';
+import { ExportDeliveryEmail, ExportDeliveryEmailProps } from '@/lib/email/templates/export-delivery';
 
 /**
  * Email sending result interface
@@ -290,6 +292,120 @@ export class EmailSender {
     }
   }
 
+  /**
+   * Sends an invoice to a client with the PDF attached
+   * @param email - Recipient email address
+   * @param emailProps - Invoice details shown in the email body
+   * @param attachment - Rendered invoice PDF
+   * @param options - Optional CC recipients and reply-to address
+   * @returns Promise<IEmailResult> - Email sending result
+   */
+  static async sendInvoice(
+    email: string,
+    emailProps: InvoiceDeliveryEmailProps,
+    attachment: { filename: string; content: Buffer },
+    options: { cc?: string[]; replyTo?: string } = {}
+  ): Promise<IEmailResult> {
+    try {
+      // Validate inputs
+      if (!ResendClient.isValidEmail(email)) {
+        throw new Error('Invalid email address format');
+      }
+
+      const cc = (options.cc || []).filter(address => ResendClient.isValidEmail(address));
+      const client = ResendClient.getClient();
+
+      const { data, error } = await client.emails.send({
+        from: ResendClient.formatSender(emailProps.companyName || 'Boami'),
+        to: [email],
+        ...(cc.length > 0 && { cc }),
+        ...(options.replyTo && ResendClient.isValidEmail(options.replyTo) && { reply_to: options.replyTo }),
+        subject: `Invoice ${emailProps.invoiceNumber} from ${emailProps.companyName}`,
+        react: InvoiceDeliveryEmail(emailProps) as React.ReactElement,
+        attachments: [attachment],
+        headers: {
+          'X-Entity-Ref-ID': `invoice-${emailProps.invoiceNumber}-${Date.now()}`,
+        }
+      });
+
+      if (error) {
+        console.error('Failed to send invoice email:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to send invoice email'
+        };
+      }
+
+      console.log(`✅ Invoice email sent to ${email}, messageId: ${data?.id}`);
+      return {
+        success: true,
+        messageId: data?.id
+      };
+
+    } catch (error) {
+      console.error('Error sending invoice email:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Sends a scheduled export to its recipients
+   * @param recipients - Recipient email addresses
+   * @param emailProps - Export details shown in the email body
+   * @param attachment - Export file, omitted when the email carries a download link
+   * @returns Promise<IEmailResult> - Email sending result
+   */
+  static async sendExport(
+    recipients: string[],
+    emailProps: ExportDeliveryEmailProps,
+    attachment?: { filename: string; content: Buffer }
+  ): Promise<IEmailResult> {
+    try {
+      // Validate inputs
+      const to = recipients.filter(address => ResendClient.isValidEmail(address));
+      if (to.length === 0) {
+        throw new Error('No valid recipient email addresses');
+      }
+
+      const client = ResendClient.getClient();
+
+      const { data, error } = await client.emails.send({
+        from: ResendClient.formatSender('Boami'),
+        to,
+        subject: `Scheduled export: ${emailProps.exportName}`,
+        react: ExportDeliveryEmail(emailProps) as React.ReactElement,
+        ...(attachment && { attachments: [attachment] }),
+        headers: {
+          'X-Entity-Ref-ID': `export-${Date.now()}`,
+        }
+      });
+
+      if (error) {
+        console.error('Failed to send export email:', error);
+        return {
+          success: false,
+          error: error.message || 'Failed to send export email'
+        };
+      }
+
+      console.log(`✅ Export email sent to ${to.join(', ')}, messageId: ${data?.id}`);
+      return {
+        success: true,
+        messageId: data?.id
+      };
+
+    } catch (error) {
+      console.error('Error sending export email:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
   /**
    * Tests email functionality by sending a test email
    * @param email - Test recipient email address
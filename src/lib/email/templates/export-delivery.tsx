@@ -0,0 +1,181 @@
+import * as React from 'react';
+
+/**
+ * Props interface for the scheduled export email template
+ */
+export interface ExportDeliveryEmailProps {
+  exportName: string;
+  fileName: string;
+  recordCount: number;
+  generatedAt: string;
+  downloadUrl?: string; // Set when the file is linked rather than attached
+  expiresAt?: string;
+}
+
+/**
+ * Email template for scheduled data exports, with the file attached or linked
+ * Follows professional email design principles with inline CSS
+ */
+export const ExportDeliveryEmail: React.FC<ExportDeliveryEmailProps> = ({
+  exportName,
+  fileName,
+  recordCount,
+  generatedAt,
+  downloadUrl,
+  expiresAt
+}) => {
+  return (
+    <html>
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <title>{exportName}</title>
+      </head>
+      <body style={{
+        margin: 0,
+        padding: 0,
+        backgroundColor: '#f6f9fc',
+        fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif'
+      }}>
+        <table
+          role="presentation"
+          cellSpacing={0}
+          cellPadding={0}
+          border={0}
+          width="100%"
+          style={{ backgroundColor: '#f6f9fc' }}
+        >
+          <tr>
+            <td align="center" style={{ padding: '40px 0' }}>
+              <table
+                role="presentation"
+                cellSpacing={0}
+                cellPadding={0}
+                border={0}
+                width={600}
+                style={{
+                  backgroundColor: '#ffffff',
+                  borderRadius: '8px',
+                  boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+                  maxWidth: '600px',
+                  width: '100%'
+                }}
+              >
+                {/* Header */}
+                <tr>
+                  <td style={{
+                    padding: '40px 40px 20px 40px',
+                    textAlign: 'center',
+                    borderBottom: '1px solid #e6ebf1'
+                  }}>
+                    <div style={{
+                      fontSize: '28px',
+                      fontWeight: 'bold',
+                      color: '#1a365d',
+                      marginBottom: '8px'
+                    }}>
+                      Boami
+                    </div>
+                    <div style={{
+                      fontSize: '16px',
+                      color: '#64748b'
+                    }}>
+                      Scheduled export
+                    </div>
+                  </td>
+                </tr>
+
+                {/* Main Content */}
+                <tr>
+                  <td style={{ padding: '40px' }}>
+                    <p style={{
+                      fontSize: '16px',
+                      lineHeight: '24px',
+                      color: '#334155',
+                      margin: '0 0 24px 0'
+                    }}>
+                      Your scheduled export <strong>{exportName}</strong> is ready.
+                      {downloadUrl ? ' Use the button below to download it.' : ' The file is attached to this email.'}
+                    </p>
+
+                    <div style={{
+                      backgroundColor: '#f1f5f9',
+                      borderRadius: '8px',
+                      padding: '24px',
+                      margin: '0 0 24px 0',
+                      fontSize: '14px',
+                      lineHeight: '22px',
+                      color: '#475569'
+                    }}>
+                      <div><strong>File:</strong> {fileName}</div>
+                      <div><strong>Records:</strong> {recordCount}</div>
+                      <div><strong>Generated:</strong> {generatedAt}</div>
+                    </div>
+
+                    {downloadUrl && (
+                      <div style={{ textAlign: 'center', margin: '0 0 24px 0' }}>
+                        <a
+                          href={downloadUrl}
+                          style={{
+                            display: 'inline-block',
+                            backgroundColor: '#1a365d',
+                            color: '#ffffff',
+                            padding: '12px 24px',
+                            borderRadius: '6px',
+                            fontSize: '16px',
+                            fontWeight: 'bold',
+                            textDecoration: 'none'
+                          }}
+                        >
+                          Download export
+                        </a>
+                        {expiresAt && (
+                          <div style={{
+                            fontSize: '13px',
+                            color: '#64748b',
+                            marginTop: '12px'
+                          }}>
+                            This link expires on {expiresAt}.
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                </tr>
+
+                {/* Footer */}
+                <tr>
+                  <td style={{
+                    padding: '32px 40px',
+                    backgroundColor: '#f8fafc',
+                    borderTop: '1px solid #e6ebf1',
+                    borderRadius: '0 0 8px 8px'
+                  }}>
+                    <div style={{
+                      fontSize: '14px',
+                      color: '#64748b',
+                      textAlign: 'center',
+                      lineHeight: '20px'
+                    }}>
+                      <p style={{ margin: '0 0 8px 0' }}>
+                        You receive this email because you are a recipient of a scheduled export.
+                      </p>
+                      <div style={{
+                        borderTop: '1px solid #e2e8f0',
+                        paddingTop: '16px',
+                        fontSize: '12px',
+                        color: '#94a3b8'
+                      }}>
+                        Sent with Boami
+                      </div>
+                    </div>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      </body>
+    </html>
+  );
+};
@@ -0,0 +1,193 @@
+import * as React from 'react';
+
+/**
+ * Props interface for the invoice delivery email template
+ */
+export interface InvoiceDeliveryEmailProps {
+  customerName: string;
+  companyName: string;
+  invoiceNumber: string;
+  amountDue: string;
+  dueDate?: string;
+  message?: string;
+  companyEmail?: string;
+}
+
+/**
+ * Email template sent to clients with their invoice attached as a PDF
+ * Follows professional email design principles with inline CSS
+ */
+export const InvoiceDeliveryEmail: React.FC<InvoiceDeliveryEmailProps> = ({
+  customerName,
+  companyName,
+  invoiceNumber,
+  amountDue,
+  dueDate,
+  message,
+  companyEmail
+}) => {
+  return (
+    <html>
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <title>Invoice {invoiceNumber}</title>
+      </head>
+      <body style={{
+        margin: 0,
+        padding: 0,
+        backgroundColor: '#f6f9fc',
+        fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif'
+      }}>
+        <table
+          role="presentation"
+          cellSpacing={0}
+          cellPadding={0}
+          border={0}
+          width="100%"
+          style={{ backgroundColor: '#f6f9fc' }}
+        >
+          <tr>
+            <td align="center" style={{ padding: '40px 0' }}>
+              <table
+                role="presentation"
+                cellSpacing={0}
+                cellPadding={0}
+                border={0}
+                width={600}
+                style={{
+                  backgroundColor: '#ffffff',
+                  borderRadius: '8px',
+                  boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+                  maxWidth: '600px',
+                  width: '100%'
+                }}
+              >
+                {/* Header */}
+                <tr>
+                  <td style={{
+                    padding: '40px 40px 20px 40px',
+                    textAlign: 'center',
+                    borderBottom: '1px solid #e6ebf1'
+                  }}>
+                    <div style={{
+                      fontSize: '28px',
+                      fontWeight: 'bold',
+                      color: '#1a365d',
+                      marginBottom: '8px'
+                    }}>
+                      {companyName}
+                    </div>
+                    <div style={{
+                      fontSize: '16px',
+                      color: '#64748b'
+                    }}>
+                      Invoice {invoiceNumber}
+                    </div>
+                  </td>
+                </tr>
+
+                {/* Main Content */}
+                <tr>
+                  <td style={{ padding: '40px' }}>
+                    <p style={{
+                      fontSize: '16px',
+                      lineHeight: '24px',
+                      color: '#334155',
+                      margin: '0 0 16px 0'
+                    }}>
+                      Hi {customerName},
+                    </p>
+                    <p style={{
+                      fontSize: '16px',
+                      lineHeight: '24px',
+                      color: '#334155',
+                      margin: '0 0 24px 0'
+                    }}>
+                      Please find attached invoice <strong>{invoiceNumber}</strong> from {companyName}.
+                    </p>
+
+                    {message && (
+                      <p style={{
+                        fontSize: '15px',
+                        lineHeight: '22px',
+                        color: '#475569',
+                        margin: '0 0 24px 0',
+                        whiteSpace: 'pre-line'
+                      }}>
+                        {message}
+                      </p>
+                    )}
+
+                    <div style={{
+                      backgroundColor: '#f1f5f9',
+                      borderRadius: '8px',
+                      padding: '24px',
+                      textAlign: 'center',
+                      margin: '0 0 24px 0'
+                    }}>
+                      <div style={{
+                        fontSize: '14px',
+                        color: '#64748b',
+                        marginBottom: '8px'
+                      }}>
+                        Amount Due
+                      </div>
+                      <div style={{
+                        fontSize: '32px',
+                        fontWeight: 'bold',
+                        color: '#1a365d'
+                      }}>
+                        {amountDue}
+                      </div>
+                      {dueDate && (
+                        <div style={{
+                          fontSize: '14px',
+                          color: '#64748b',
+                          marginTop: '8px'
+                        }}>
+                          Due by {dueDate}
+                        </div>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+
+                {/* Footer */}
+                <tr>
+                  <td style={{
+                    padding: '32px 40px',
+                    backgroundColor: '#f8fafc',
+                    borderTop: '1px solid #e6ebf1',
+                    borderRadius: '0 0 8px 8px'
+                  }}>
+                    <div style={{
+                      fontSize: '14px',
+                      color: '#64748b',
+                      textAlign: 'center',
+                      lineHeight: '20px'
+                    }}>
+                      <p style={{ margin: '0 0 8px 0' }}>
+                        {companyEmail
+                          ? `Questions about this invoice? Reply to this email or contact ${companyEmail}.`
+                          : 'Questions about this invoice? Reply to this email.'}
+                      </p>
+                      <div style={{
+                        borderTop: '1px solid #e2e8f0',
+                        paddingTop: '16px',
+                        fontSize: '12px',
+                        color: '#94a3b8'
+                      }}>
+                        Sent with Boami
+                      </div>
+                    </div>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      </body>
+    </html>
+  );
+};
@@ -358,6 +358,73 @@ export const DEFAULT_TEMPLATES: DefaultTemplate[] = [
       For your security, you cannot unsubscribe from security alerts.
     `,
     variables: ['user.firstName', 'alertType', 'alertMessage', 'alertTime', 'ipAddress', 'location']
+  },
+
+  {
+    name: 'financial-alert',
+    type: 'financial_alert',
+    subject: '💰 {{alertTitle}}',
+    htmlTemplate: [
+      '<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">',
+      '  <div style="background: #fff3cd; padding: 20px; border-radius: 8px; margin-bottom: 20px;">',
+      '    <h2 style="color: #856404; margin: 0;">{{alertTitle}}</h2>',
+      '  </div>',
+      '',
+      '  <div style="padding: 20px;">',
+      '    <p>Hello {{user.firstName}},</p>',
+      '',
+      '    <p>{{alertMessage}}</p>',
+      '',
+      '    {{#if budget}}',
+      '    <div style="background: #f8f9fa; border: 1px solid #dee2e6; padding: 15px; border-radius: 5px; margin: 20px 0;">',
+      '      <h3 style="margin-top: 0;">Budget Details:</h3>',
+      '      <ul style="margin: 0;">',
+      '        <li><strong>Category:</strong> {{budget.categoryName}}</li>',
+      '        <li><strong>Period:</strong> {{budget.periodLabel}}</li>',
+      '        <li><strong>Budgeted:</strong> {{budget.budgeted}}</li>',
+      '        <li><strong>Spent:</strong> {{budget.spent}} ({{budget.percentUsed}}%)</li>',
+      '        <li><strong>Remaining:</strong> {{budget.remaining}}</li>',
+      '      </ul>',
+      '    </div>',
+      '    {{/if}}',
+      '',
+      '    <div style="text-align: center; margin: 30px 0;">',
+      '      <a href="{{baseUrl}}{{actionUrl}}"',
+      '         style="background: #ffc107; color: #212529; padding: 12px 24px; text-decoration: none; border-radius: 5px; display: inline-block;">',
+      '        View Finance Dashboard',
+      '      </a>',
+      '    </div>',
+      '  </div>',
+      '',
+      '  <div style="background: #f8f9fa; padding: 15px; text-align: center; font-size: 12px; color: #6c757d;">',
+      '    <p>This is an automated notification from {{companyName}}.</p>',
+      '    <p><a href="{{unsubscribeUrl}}" style="color: #6c757d;">Unsubscribe from financial alerts</a></p>',
+      '  </div>',
+      '</div>'
+    ].join('\n'),
+    textTemplate: [
+      '{{alertTitle}}',
+      '',
+      'Hello {{user.firstName}},',
+      '',
+      '{{alertMessage}}',
+      '',
+      '{{#if budget}}',
+      'Budget Details:',
+      '- Category: {{budget.categoryName}}',
+      '- Period: {{budget.periodLabel}}',
+      '- Budgeted: {{budget.budgeted}}',
+      '- Spent: {{budget.spent}} ({{budget.percentUsed}}%)',
+      '- Remaining: {{budget.remaining}}',
+      '{{/if}}',
+      '',
+      'View Finance Dashboard: {{baseUrl}}{{actionUrl}}',
+      '',
+      '---',
+      'This is an automated notification from {{companyName}}.',
+      'Unsubscribe: {{unsubscribeUrl}}'
+    ].join('\n'),
+    variables: ['user.firstName', 'alertTitle', 'alertMessage', 'actionUrl', 'budget.categoryName', 'budget.periodLabel', 'budget.budgeted', 'budget.spent', 'budget.percentUsed', 'budget.remaining']
   }
 ];
 
@@ -0,0 +1,93 @@
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import { SubscriptionLogger, LogCategory } from '@/lib/utils/subscription-logger';
+import { PermissionService } from './permission.service';
+import { WorkspaceService } from './WorkspaceService';
+
+/**
+ * Audit Trail Service
+ * Reads the change history the audit trail plugin records for business records
+ */
+
+export interface RecordHistoryResult {
+  success: boolean;
+  history?: {
+    logs: any[];
+    total: number;
+    limit: number;
+    offset: number;
+    hasMore: boolean;
+  };
+  error?: { code: string; message: string };
+}
+
+const failure = (code: string, message: string) => ({
+  success: false as const,
+  error: { code, message }
+});
+
+/**
+ * Tracked records and who may read their history:
+ * workspace records show the entries kept for the user's active workspace,
+ * so a deleted record's history stays readable; shared records need read
+ * permission on their resource
+ */
+const TRACKED_RECORDS: Record<string, { permission?: string }> = {
+  product: { permission: 'products' },
+  role: { permission: 'roles' },
+  invoice: {},
+  expense: {},
+  income: {},
+  sale: {},
+  vendor: {}
+};
+
+export class AuditTrailService {
+  static isTrackedResource(resource: string): boolean {
+    return Object.prototype.hasOwnProperty.call(TRACKED_RECORDS, resource);
+  }
+
+  /**
+   * Returns a record's change history, newest first
+   * @param userId - Signed-in user
+   * @param resource - Tracked resource, e.g. 'invoice'
+   * @param recordId - Record id
+   */
+  static async getRecordHistory(
+    userId: string,
+    resource: string,
+    recordId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<RecordHistoryResult> {
+    if (!this.isTrackedResource(resource)) {
+      return failure('INVALID_RESOURCE', `History is not kept for ${resource} records`);
+    }
+
+    if (!Types.ObjectId.isValid(recordId)) {
+      return failure('INVALID_ID', 'Invalid record ID');
+    }
+
+    await connectDB();
+
+    const tracked = TRACKED_RECORDS[resource];
+    let ownerId: string | undefined;
+    if (tracked.permission) {
+      if (!await PermissionService.checkPermission(userId, tracked.permission, 'read')) {
+        return failure('FORBIDDEN', `You do not have permission to read ${tracked.permission}`);
+      }
+    } else {
+      ownerId = await WorkspaceService.getScopeUserId(userId);
+    }
+
+    const history = await SubscriptionLogger.getAuditLogs({
+      category: LogCategory.CHANGE,
+      resource,
+      recordId,
+      ownerId,
+      limit: Math.min(Math.max(options.limit || 50, 1), 100),
+      offset: Math.max(options.offset || 0, 0)
+    });
+
+    return { success: true, history };
+  }
+}
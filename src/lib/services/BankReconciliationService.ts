@@ -0,0 +1,670 @@
+import crypto from 'crypto';
+import { connectDB } from '@/lib/database/connection';
+import BankStatement, { IBankStatementDocument } from '@/lib/database/models/BankStatement';
+import BankStatementLine, {
+  IBankStatementLine,
+  IBankStatementLineDocument,
+  IBankLineMatch,
+  BankLineMatchType,
+  BankLineStatus
+} from '@/lib/database/models/BankStatementLine';
+import Income from '@/lib/database/models/Income';
+import Expense from '@/lib/database/models/Expense';
+import IncomeCategory from '@/lib/database/models/IncomeCategory';
+import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
+import Vendor from '@/lib/database/models/Vendor';
+import Invoice from '@/lib/database/models/Invoice';
+import { CategorizationRuleService } from './CategorizationRuleService';
+import { BudgetService } from './BudgetService';
+import {
+  parseBankStatement,
+  BankStatementFormat,
+  ParsedStatementLine,
+  StatementDateOrder
+} from '@/lib/utils/bank-statement-parser';
+
+/**
+ * Bank Reconciliation Service
+ * Stages bank statement lines, matches them to existing income, expenses and
+ * invoice payments, and turns the lines left over into new records
+ */
+
+export interface ImportStatementInput {
+  content: string;
+  fileName: string;
+  accountName: string;
+  format?: BankStatementFormat;
+  dateOrder?: StatementDateOrder;
+}
+
+export interface StatementImportResult {
+  success: boolean;
+  statement?: IBankStatementDocument;
+  imported?: number;
+  duplicates?: number;
+  matched?: number;
+  parseErrors?: Array<{ line: number; message: string }>;
+  error?: { code: string; message: string };
+}
+
+export interface BankLineResult {
+  success: boolean;
+  line?: IBankStatementLineDocument;
+  error?: { code: string; message: string };
+}
+
+export interface MatchCandidate {
+  type: BankLineMatchType;
+  recordId: string;
+  invoiceId?: string;
+  description: string;
+  amount: number;
+  date: Date;
+}
+
+export interface CreateRecordInput {
+  categoryId?: string;
+  vendorId?: string;
+  description?: string;
+}
+
+export interface MonthlyReconciliation {
+  month: string;
+  accountName?: string;
+  totals: { moneyIn: number; moneyOut: number; net: number };
+  lineCounts: Record<BankLineStatus, number>;
+  unmatchedRecords: MatchCandidate[]; // Book records in the month no bank line accounts for
+  isReconciled: boolean;
+}
+
+const failure = (code: string, message: string) => ({
+  success: false as const,
+  error: { code, message }
+});
+
+// Records dated this many days either side of a bank line can match it
+const DATE_WINDOW_DAYS = 3;
+// Lowest score at which a candidate is matched without review
+const MIN_AUTO_MATCH_SCORE = 0.5;
+const AMOUNT_TOLERANCE = 0.005;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class BankReconciliationService {
+  /**
+   * Parses a statement file, stages its new lines and auto-matches them
+   * Lines already staged from an overlapping statement are skipped
+   */
+  static async importStatement(userId: string, input: ImportStatementInput): Promise<StatementImportResult> {
+    await connectDB();
+
+    const accountName = input.accountName?.trim();
+    if (!accountName) {
+      return failure('VALIDATION_ERROR', 'Account name is required');
+    }
+
+    const parsed = parseBankStatement(input.content, {
+      fileName: input.fileName,
+      format: input.format,
+      dateOrder: input.dateOrder
+    });
+
+    if (parsed.lines.length === 0) {
+      return {
+        ...failure('VALIDATION_ERROR', parsed.errors[0]?.message || 'No transactions found in the statement'),
+        parseErrors: parsed.errors
+      };
+    }
+
+    const fingerprints = this.fingerprintLines(accountName, parsed.lines);
+    const existing = await BankStatementLine.find({
+      userId,
+      fingerprint: { $in: fingerprints }
+    }).select('fingerprint').lean();
+    const seen = new Set(existing.map(line => line.fingerprint));
+
+    const newLines = parsed.lines
+      .map((line, index) => ({ ...line, fingerprint: fingerprints[index] }))
+      .filter(line => !seen.has(line.fingerprint));
+
+    if (newLines.length === 0) {
+      return failure('DUPLICATE_STATEMENT', 'Every transaction in this statement has already been imported');
+    }
+
+    const dates = newLines.map(line => line.date.getTime());
+    const statement = await BankStatement.create({
+      accountName,
+      fileName: input.fileName,
+      format: parsed.format,
+      currency: parsed.currency,
+      accountNumber: parsed.accountNumber?.slice(-4),
+      periodStart: new Date(Math.min(...dates)),
+      periodEnd: new Date(Math.max(...dates)),
+      lineCount: newLines.length,
+      duplicateCount: parsed.lines.length - newLines.length,
+      userId
+    });
+
+    const lines = await BankStatementLine.insertMany(newLines.map(line => ({
+      ...line,
+      statementId: statement._id.toString(),
+      accountName,
+      userId
+    })));
+
+    const matched = await this.autoMatch(userId, lines as IBankStatementLineDocument[]);
+
+    return {
+      success: true,
+      statement,
+      imported: newLines.length,
+      duplicates: statement.duplicateCount,
+      matched,
+      parseErrors: parsed.errors
+    };
+  }
+
+  /**
+   * Returns a user's statement with its lines
+   */
+  static async getStatement(userId: string, statementId: string) {
+    await connectDB();
+
+    const statement = await BankStatement.findOne({ _id: statementId, userId });
+    if (!statement) {
+      return null;
+    }
+
+    const lines = await BankStatementLine.findByStatement(statementId, userId);
+    return { statement, lines };
+  }
+
+  /**
+   * Deletes a statement and its staged lines; records created from them are kept
+   */
+  static async deleteStatement(userId: string, statementId: string): Promise<boolean> {
+    await connectDB();
+
+    const statement = await BankStatement.findOneAndDelete({ _id: statementId, userId });
+    if (!statement) {
+      return false;
+    }
+
+    await BankStatementLine.deleteMany({ statementId, userId });
+    return true;
+  }
+
+  /**
+   * Re-runs matching for a statement's unmatched lines, e.g. after records were added
+   */
+  static async rematchStatement(userId: string, statementId: string): Promise<number | null> {
+    await connectDB();
+
+    const statement = await BankStatement.findOne({ _id: statementId, userId });
+    if (!statement) {
+      return null;
+    }
+
+    const lines = await BankStatementLine.find({ statementId, userId, status: 'unmatched' });
+    return this.autoMatch(userId, lines);
+  }
+
+  /**
+   * Matches each unmatched line to its best-scoring candidate, or suggests a
+   * category for creating a record when no candidate is good enough
+   * Returns the number of lines matched
+   */
+  static async autoMatch(userId: string, lines: IBankStatementLineDocument[]): Promise<number> {
+    const claimed = new Set<string>();
+    let matched = 0;
+
+    for (const line of lines) {
+      if (line.status !== 'unmatched') continue;
+
+      const candidates = (await this.findCandidates(userId, line))
+        .filter(candidate => !claimed.has(candidate.recordId))
+        .map(candidate => ({ candidate, score: this.scoreCandidate(line, candidate) }))
+        .sort((a, b) => b.score - a.score);
+
+      const [best, runnerUp] = candidates;
+      // Two equally good candidates are left for the user to pick from
+      if (best && best.score >= MIN_AUTO_MATCH_SCORE && best.score !== runnerUp?.score) {
+        line.status = 'matched';
+        line.match = this.buildMatch(best.candidate, best.score, true);
+        line.suggestion = undefined;
+        claimed.add(best.candidate.recordId);
+        matched++;
+      } else {
+        line.suggestion = await this.suggestCategory(userId, line);
+      }
+
+      await line.save();
+    }
+
+    return matched;
+  }
+
+  /**
+   * Finds records with the line's exact amount, dated within the match window,
+   * that no other bank line is matched to
+   */
+  static async findCandidates(userId: string, line: IBankStatementLine): Promise<MatchCandidate[]> {
+    const amount = Math.abs(line.amount);
+    const amountRange = { $gte: amount - AMOUNT_TOLERANCE, $lte: amount + AMOUNT_TOLERANCE };
+    const dateRange = {
+      $gte: new Date(line.date.getTime() - DATE_WINDOW_DAYS * DAY_MS),
+      $lte: new Date(line.date.getTime() + DATE_WINDOW_DAYS * DAY_MS)
+    };
+
+    const candidates: MatchCandidate[] = [];
+
+    if (line.amount > 0) {
+      const incomes = await Income.find({ userId, amount: amountRange, date: dateRange })
+        .select('amount date description').lean();
+      candidates.push(...incomes.map(income => this.toCandidate('income', income)));
+
+      // Payments that have an Income are matched through it
+      const invoices = await Invoice.find({
+        userId,
+        payments: { $elemMatch: { amount: amountRange, date: dateRange, incomeId: null } }
+      }).select('invoiceNumber billTo payments').lean();
+
+      for (const invoice of invoices) {
+        for (const payment of invoice.payments) {
+          const inWindow = payment.date >= dateRange.$gte && payment.date <= dateRange.$lte;
+          if (payment.incomeId || !inWindow || Math.abs(payment.amount - amount) > AMOUNT_TOLERANCE) continue;
+
+          candidates.push({
+            type: 'invoice_payment',
+            recordId: String(payment._id),
+            invoiceId: String(invoice._id),
+            description: `Payment for invoice ${invoice.invoiceNumber} from ${invoice.billTo}${payment.reference ? ` (${payment.reference})` : ''}`,
+            amount: payment.amount,
+            date: payment.date
+          });
+        }
+      }
+    } else {
+      const expenses = await Expense.find({ userId, amount: amountRange, date: dateRange })
+        .select('amount date description').lean();
+      candidates.push(...expenses.map(expense => this.toCandidate('expense', expense)));
+    }
+
+    const taken = await BankStatementLine.findMatchedRecordIds(userId, candidates.map(candidate => candidate.recordId));
+    return candidates.filter(candidate => !taken.has(candidate.recordId));
+  }
+
+  /**
+   * Scores a candidate from 0 to 1: mostly how close its date is, then how
+   * many words its description shares with the bank line
+   */
+  static scoreCandidate(line: Pick<IBankStatementLine, 'date' | 'description'>, candidate: MatchCandidate): number {
+    const days = Math.abs(line.date.getTime() - new Date(candidate.date).getTime()) / DAY_MS;
+    const dateScore = Math.max(0, 1 - Math.round(days) / (DATE_WINDOW_DAYS + 1));
+    const descriptionScore = this.descriptionSimilarity(line.description, candidate.description);
+
+    return Math.round((0.6 * dateScore + 0.4 * descriptionScore) * 100) / 100;
+  }
+
+  /**
+   * Share of the shorter description's words that appear in the other one
+   */
+  static descriptionSimilarity(a: string, b: string): number {
+    const wordsA = this.tokenize(a);
+    const wordsB = this.tokenize(b);
+    if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+    let shared = 0;
+    wordsA.forEach(word => {
+      if (wordsB.has(word)) shared++;
+    });
+
+    return shared / Math.min(wordsA.size, wordsB.size);
+  }
+
+  /**
+   * Suggests a category (and vendor) from the user's categorization rules,
+   * falling back to those of the most similar recent record
+   */
+  static async suggestCategory(
+    userId: string,
+    line: Pick<IBankStatementLine, 'amount' | 'description'>
+  ): Promise<IBankStatementLine['suggestion']> {
+    const type = line.amount > 0 ? 'income' : 'expense';
+
+    const assignment = await CategorizationRuleService.categorize(userId, type, line);
+    if (assignment.categoryId) {
+      return { type, categoryId: assignment.categoryId, vendorId: assignment.vendorId };
+    }
+
+    const RecordModel: any = type === 'income' ? Income : Expense;
+
+    const recent = await RecordModel.find({ userId, categoryId: { $exists: true, $ne: null } })
+      .sort({ date: -1 })
+      .limit(200)
+      .select('description categoryId vendorId')
+      .lean();
+
+    let best: { categoryId?: string; vendorId?: string } | null = null;
+    let bestScore = MIN_AUTO_MATCH_SCORE;
+
+    for (const record of recent) {
+      const score = this.descriptionSimilarity(line.description, record.description);
+      if (score > bestScore) {
+        best = { categoryId: record.categoryId, vendorId: record.vendorId };
+        bestScore = score;
+      }
+    }
+
+    return { type, categoryId: best?.categoryId, vendorId: best?.vendorId };
+  }
+
+  /**
+   * Manually matches a line to a record the user picked
+   */
+  static async matchLine(
+    userId: string,
+    lineId: string,
+    target: { type: BankLineMatchType; recordId: string; invoiceId?: string }
+  ): Promise<BankLineResult> {
+    await connectDB();
+
+    const line = await BankStatementLine.findOne({ _id: lineId, userId });
+    if (!line) {
+      return failure('NOT_FOUND', 'Bank statement line not found');
+    }
+
+    if (line.status !== 'unmatched') {
+      return failure('INVALID_STATUS', `Line is already ${line.status}; reset it before matching`);
+    }
+
+    if ((target.type === 'expense') !== (line.amount < 0)) {
+      return failure('VALIDATION_ERROR', line.amount < 0
+        ? 'Money out can only be matched to an expense'
+        : 'Money in can only be matched to income or an invoice payment');
+    }
+
+    const candidate = await this.loadCandidate(userId, target);
+    if (!candidate) {
+      return failure('NOT_FOUND', 'Record to match was not found');
+    }
+
+    const taken = await BankStatementLine.findMatchedRecordIds(userId, [candidate.recordId]);
+    if (taken.has(candidate.recordId)) {
+      return failure('CONFLICT', 'Record is already matched to another bank line');
+    }
+
+    line.status = 'matched';
+    line.match = this.buildMatch(candidate, 1, false);
+    line.suggestion = undefined;
+    await line.save();
+
+    return { success: true, line };
+  }
+
+  /**
+   * Returns a matched, created or ignored line to unmatched
+   * Records created from the line are kept
+   */
+  static async resetLine(userId: string, lineId: string): Promise<BankLineResult> {
+    await connectDB();
+
+    const line = await BankStatementLine.findOne({ _id: lineId, userId });
+    if (!line) {
+      return failure('NOT_FOUND', 'Bank statement line not found');
+    }
+
+    line.status = 'unmatched';
+    line.match = undefined;
+    line.suggestion = await this.suggestCategory(userId, line);
+    await line.save();
+
+    return { success: true, line };
+  }
+
+  /**
+   * Marks a line as not needing a book record, e.g. a transfer between own accounts
+   */
+  static async ignoreLine(userId: string, lineId: string): Promise<BankLineResult> {
+    await connectDB();
+
+    const line = await BankStatementLine.findOne({ _id: lineId, userId });
+    if (!line) {
+      return failure('NOT_FOUND', 'Bank statement line not found');
+    }
+
+    if (line.status !== 'unmatched') {
+      return failure('INVALID_STATUS', `Line is already ${line.status}; reset it before ignoring`);
+    }
+
+    line.status = 'ignored';
+    await line.save();
+
+    return { success: true, line };
+  }
+
+  /**
+   * Creates an Income or Expense from an unmatched line, using the suggested
+   * category and vendor unless others are given
+   */
+  static async createRecord(userId: string, lineId: string, input: CreateRecordInput = {}): Promise<BankLineResult> {
+    await connectDB();
+
+    const line = await BankStatementLine.findOne({ _id: lineId, userId });
+    if (!line) {
+      return failure('NOT_FOUND', 'Bank statement line not found');
+    }
+
+    if (line.status !== 'unmatched') {
+      return failure('INVALID_STATUS', `Line is already ${line.status}`);
+    }
+
+    const type = line.amount > 0 ? 'income' : 'expense';
+    const categoryId = input.categoryId || line.suggestion?.categoryId;
+    const vendorId = type === 'expense' ? input.vendorId || line.suggestion?.vendorId : undefined;
+
+    if (categoryId) {
+      const CategoryModel: any = type === 'income' ? IncomeCategory : ExpenseCategory;
+      const category = await CategoryModel.findOne({
+        _id: categoryId,
+        $or: [{ userId }, { isDefault: true }]
+      });
+      if (!category) {
+        return failure('VALIDATION_ERROR', 'Category not found');
+      }
+    } else if (type === 'income') {
+      return failure('VALIDATION_ERROR', 'A category is required to record income');
+    }
+
+    if (vendorId && !await Vendor.exists({ _id: vendorId, userId })) {
+      return failure('VALIDATION_ERROR', 'Vendor not found');
+    }
+
+    const recordData = {
+      amount: Math.abs(line.amount),
+      description: (input.description?.trim() || line.description).slice(0, 500),
+      date: line.date,
+      categoryId,
+      isRecurring: false,
+      userId
+    };
+
+    const record = type === 'income'
+      ? await Income.create(recordData)
+      : await Expense.create({ ...recordData, vendorId });
+
+    if (type === 'expense') {
+      BudgetService.checkBudgetAlertsInBackground(userId, categoryId);
+    }
+
+    line.status = 'created';
+    line.match = this.buildMatch(this.toCandidate(type, record), 1, false);
+    await line.save();
+
+    return { success: true, line };
+  }
+
+  /**
+   * Summarises a month for an account: statement totals, line progress and
+   * book records that no bank line accounts for yet
+   */
+  static async getMonthlyReconciliation(
+    userId: string,
+    month: string,
+    accountName?: string
+  ): Promise<MonthlyReconciliation | null> {
+    await connectDB();
+
+    const match = month.match(/^(\d{4})-(\d{2})$/);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      return null;
+    }
+
+    const start = new Date(Number(match[1]), Number(match[2]) - 1, 1);
+    const end = new Date(Number(match[1]), Number(match[2]), 1);
+    const dateRange = { $gte: start, $lt: end };
+
+    const lineQuery: any = { userId, date: dateRange };
+    if (accountName) {
+      lineQuery.accountName = accountName;
+    }
+    const lines = await BankStatementLine.find(lineQuery).select('amount status').lean();
+
+    const lineCounts: Record<BankLineStatus, number> = { unmatched: 0, matched: 0, created: 0, ignored: 0 };
+    let moneyIn = 0;
+    let moneyOut = 0;
+
+    for (const line of lines) {
+      lineCounts[line.status]++;
+      if (line.amount > 0) {
+        moneyIn += line.amount;
+      } else {
+        moneyOut += Math.abs(line.amount);
+      }
+    }
+
+    const [incomes, expenses, invoices] = await Promise.all([
+      Income.find({ userId, date: dateRange }).select('amount date description').lean(),
+      Expense.find({ userId, date: dateRange }).select('amount date description').lean(),
+      Invoice.find({
+        userId,
+        payments: { $elemMatch: { date: dateRange, incomeId: null } }
+      }).select('invoiceNumber billTo payments').lean()
+    ]);
+
+    const records: MatchCandidate[] = [
+      ...incomes.map(income => this.toCandidate('income', income)),
+      ...expenses.map(expense => this.toCandidate('expense', expense))
+    ];
+
+    for (const invoice of invoices) {
+      for (const payment of invoice.payments) {
+        if (payment.incomeId || payment.date < start || payment.date >= end) continue;
+        records.push({
+          type: 'invoice_payment',
+          recordId: String(payment._id),
+          invoiceId: String(invoice._id),
+          description: `Payment for invoice ${invoice.invoiceNumber} from ${invoice.billTo}`,
+          amount: payment.amount,
+          date: payment.date
+        });
+      }
+    }
+
+    const matchedIds = await BankStatementLine.findMatchedRecordIds(userId, records.map(record => record.recordId));
+    const unmatchedRecords = records
+      .filter(record => !matchedIds.has(record.recordId))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    return {
+      month,
+      accountName,
+      totals: {
+        moneyIn: Math.round(moneyIn * 100) / 100,
+        moneyOut: Math.round(moneyOut * 100) / 100,
+        net: Math.round((moneyIn - moneyOut) * 100) / 100
+      },
+      lineCounts,
+      unmatchedRecords,
+      isReconciled: lines.length > 0 && lineCounts.unmatched === 0
+    };
+  }
+
+  /**
+   * Fingerprints each line from its account, date, amount, description and
+   * reference; identical transactions on one statement are numbered so both are kept
+   */
+  static fingerprintLines(accountName: string, lines: ParsedStatementLine[]): string[] {
+    const occurrences = new Map<string, number>();
+
+    return lines.map(line => {
+      const key = [
+        accountName.toLowerCase(),
+        line.date.toISOString().slice(0, 10),
+        line.amount.toFixed(2),
+        line.description.toLowerCase().replace(/\s+/g, ' '),
+        line.reference || ''
+      ].join('|');
+
+      const occurrence = occurrences.get(key) || 0;
+      occurrences.set(key, occurrence + 1);
+
+      return crypto.createHash('sha256').update(`${key}|${occurrence}`).digest('hex');
+    });
+  }
+
+  private static async loadCandidate(
+    userId: string,
+    target: { type: BankLineMatchType; recordId: string; invoiceId?: string }
+  ): Promise<MatchCandidate | null> {
+    if (target.type === 'invoice_payment') {
+      if (!target.invoiceId) return null;
+
+      const invoice = await Invoice.findOne({ _id: target.invoiceId, userId });
+      const payment = invoice?.payments.find(entry => String(entry._id) === target.recordId);
+      if (!invoice || !payment) return null;
+
+      return {
+        type: 'invoice_payment',
+        recordId: target.recordId,
+        invoiceId: target.invoiceId,
+        description: `Payment for invoice ${invoice.invoiceNumber} from ${invoice.billTo}`,
+        amount: payment.amount,
+        date: payment.date
+      };
+    }
+
+    const RecordModel: any = target.type === 'income' ? Income : Expense;
+    const record = await RecordModel.findOne({ _id: target.recordId, userId }).lean();
+    return record ? this.toCandidate(target.type, record) : null;
+  }
+
+  private static toCandidate(
+    type: 'income' | 'expense',
+    record: { _id?: unknown; amount: number; date: Date; description: string }
+  ): MatchCandidate {
+    return {
+      type,
+      recordId: String(record._id),
+      description: record.description,
+      amount: record.amount,
+      date: record.date
+    };
+  }
+
+  private static buildMatch(candidate: MatchCandidate, score: number, auto: boolean): IBankLineMatch {
+    return {
+      ...candidate,
+      score,
+      auto,
+      matchedAt: new Date()
+    };
+  }
+
+  private static tokenize(text: string): Set<string> {
+    return new Set(
+      text.toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(word => word.length > 2)
+    );
+  }
+}
@@ -0,0 +1,241 @@
+import { connectDB } from '@/lib/database/connection';
+import Budget, { IBudget, IBudgetDocument, BudgetPeriod } from '@/lib/database/models/Budget';
+import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
+import { FinancialCalculator } from './FinancialCalculator';
+
+/**
+ * Budget Service
+ * Compares spending per expense category against monthly or quarterly
+ * budgets and sends a financial alert the first time a threshold is crossed
+ */
+
+export type BudgetInput = Partial<Pick<IBudget, 'categoryId' | 'period' | 'amount' | 'thresholds' | 'isActive'>>;
+
+export interface BudgetResult {
+  success: boolean;
+  budget?: IBudgetDocument;
+  error?: { code: string; message: string };
+}
+
+export interface BudgetPeriodRange {
+  key: string;
+  label: string;
+  start: Date;
+  end: Date; // Last millisecond of the period
+}
+
+export interface BudgetStatus {
+  budgetId: string;
+  categoryId: string;
+  categoryName: string;
+  period: BudgetPeriod;
+  periodLabel: string;
+  budgeted: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+  thresholds: number[];
+  crossedThreshold: number | null; // Highest threshold spending has reached
+  isActive: boolean;
+}
+
+const failure = (code: string, message: string) => ({
+  success: false as const,
+  error: { code, message }
+});
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'];
+
+export class BudgetService {
+  /**
+   * Returns the month or quarter containing the date
+   */
+  static getPeriodRange(period: BudgetPeriod, date: Date = new Date()): BudgetPeriodRange {
+    const year = date.getFullYear();
+
+    if (period === 'quarterly') {
+      const quarter = Math.floor(date.getMonth() / 3);
+      return {
+        key: `${year}-Q${quarter + 1}`,
+        label: `Q${quarter + 1} ${year}`,
+        start: new Date(year, quarter * 3, 1),
+        end: new Date(new Date(year, quarter * 3 + 3, 1).getTime() - 1)
+      };
+    }
+
+    const month = date.getMonth();
+    return {
+      key: `${year}-${String(month + 1).padStart(2, '0')}`,
+      label: `${MONTH_NAMES[month]} ${year}`,
+      start: new Date(year, month, 1),
+      end: new Date(new Date(year, month + 1, 1).getTime() - 1)
+    };
+  }
+
+  /**
+   * Highest threshold the percentage has reached, if any
+   */
+  static getCrossedThreshold(percentUsed: number, thresholds: number[]): number | null {
+    const crossed = thresholds.filter(threshold => percentUsed >= threshold);
+    return crossed.length > 0 ? Math.max(...crossed) : null;
+  }
+
+  /**
+   * Budget versus actual spending for the periods containing the date
+   */
+  static async getBudgetStatuses(userId: string, date: Date = new Date(), budgets?: IBudgetDocument[]): Promise<BudgetStatus[]> {
+    await connectDB();
+
+    const userBudgets = budgets || await Budget.findByUser(userId);
+    if (userBudgets.length === 0) return [];
+
+    // One breakdown per period type, shared by every budget of that type
+    const spendByPeriod = new Map<BudgetPeriod, Map<string, { amount: number; name: string }>>();
+    for (const period of Array.from(new Set(userBudgets.map(budget => budget.period)))) {
+      const range = this.getPeriodRange(period, date);
+      const breakdown = await FinancialCalculator.getExpensesByCategory(userId, range.start, range.end);
+      spendByPeriod.set(period, new Map(breakdown.map(item => [
+        String(item.categoryId),
+        { amount: item.amount, name: item.categoryName }
+      ])));
+    }
+
+    const categoryIds = userBudgets.map(budget => budget.categoryId);
+    const categories = await ExpenseCategory.find({ _id: { $in: categoryIds } }).select('name').lean();
+    const categoryNames = new Map(categories.map(category => [String(category._id), category.name]));
+
+    return userBudgets.map(budget => {
+      const range = this.getPeriodRange(budget.period, date);
+      const spent = spendByPeriod.get(budget.period)?.get(budget.categoryId)?.amount || 0;
+      const percentUsed = Math.round((spent / budget.amount) * 1000) / 10;
+
+      return {
+        budgetId: String(budget._id),
+        categoryId: budget.categoryId,
+        categoryName: categoryNames.get(budget.categoryId) || 'Unknown Category',
+        period: budget.period,
+        periodLabel: range.label,
+        budgeted: budget.amount,
+        spent,
+        remaining: Math.round((budget.amount - spent) * 100) / 100,
+        percentUsed,
+        thresholds: budget.thresholds,
+        crossedThreshold: this.getCrossedThreshold(percentUsed, budget.thresholds),
+        isActive: budget.isActive
+      };
+    });
+  }
+
+  /**
+   * Sends an alert for each budget on the category that has newly crossed a threshold
+   * Only the highest newly crossed threshold is announced; lower ones are marked as sent
+   */
+  static async checkBudgetAlerts(userId: string, categoryId?: string | null, date: Date = new Date()): Promise<number> {
+    if (!categoryId) return 0;
+
+    await connectDB();
+
+    const budgets = await Budget.findActiveForCategory(userId, categoryId);
+    if (budgets.length === 0) return 0;
+
+    const statuses = await this.getBudgetStatuses(userId, date, budgets);
+    let sent = 0;
+
+    for (const budget of budgets) {
+      const status = statuses.find(item => item.budgetId === String(budget._id));
+      if (!status || status.crossedThreshold === null) continue;
+
+      const periodKey = this.getPeriodRange(budget.period, date).key;
+      const newlyCrossed = budget.thresholds.filter(threshold =>
+        status.percentUsed >= threshold && !budget.hasAlerted(periodKey, threshold));
+      if (newlyCrossed.length === 0) continue;
+
+      const threshold = Math.max(...newlyCrossed);
+
+      // Claim the alert atomically so concurrent expenses cannot send it twice
+      const claimed = await Budget.updateOne(
+        { _id: budget._id, alertsSent: { $not: { $elemMatch: { periodKey, threshold } } } },
+        { $push: { alertsSent: { $each: newlyCrossed.map(value => ({ periodKey, threshold: value, sentAt: new Date() })) } } }
+      );
+      if (claimed.modifiedCount === 0) continue;
+
+      // Alerts from earlier periods are no longer needed
+      await Budget.updateOne({ _id: budget._id }, { $pull: { alertsSent: { periodKey: { $ne: periodKey } } } });
+
+      // Loaded lazily: the notification service requires email settings as soon as it is imported
+      const { notificationService } = await import('@/lib/notifications/notification-service');
+      await notificationService.triggerNotification({
+        type: 'financial_alert',
+        userId,
+        priority: threshold >= 100 ? 'high' : 'medium',
+        data: {
+          alertTitle: threshold >= 100
+            ? `${status.categoryName} is over budget`
+            : `${status.categoryName} has used ${threshold}% of its budget`,
+          alertMessage: `You have spent ${status.spent.toFixed(2)} of your ${status.budgeted.toFixed(2)} ${status.period} budget for ${status.categoryName} in ${status.periodLabel} (${status.percentUsed}%).`,
+          budget: {
+            ...status,
+            spent: status.spent.toFixed(2),
+            budgeted: status.budgeted.toFixed(2),
+            remaining: status.remaining.toFixed(2),
+            threshold
+          },
+          actionUrl: '/apps/finance/dashboard'
+        }
+      });
+      sent++;
+    }
+
+    return sent;
+  }
+
+  /**
+   * Runs budget checks in the background so saving an expense never waits on or fails because of them
+   */
+  static checkBudgetAlertsInBackground(userId: string, categoryId?: string | null, date?: Date): void {
+    this.checkBudgetAlerts(userId, categoryId, date).catch(error => {
+      console.error('Budget alert check failed:', error);
+    });
+  }
+
+  static async createBudget(userId: string, input: BudgetInput): Promise<BudgetResult> {
+    await connectDB();
+
+    if (!input.categoryId || !await ExpenseCategory.exists({ _id: input.categoryId, userId })) {
+      return failure('VALIDATION_ERROR', 'Invalid category or category does not belong to user');
+    }
+
+    if (await Budget.exists({ userId, categoryId: input.categoryId, period: input.period })) {
+      return failure('DUPLICATE_BUDGET', `This category already has a ${input.period} budget`);
+    }
+
+    const budget = new Budget({ ...input, userId });
+    await budget.save();
+
+    return { success: true, budget };
+  }
+
+  static async updateBudget(userId: string, budgetId: string, input: BudgetInput): Promise<BudgetResult> {
+    await connectDB();
+
+    const budget = await Budget.findOne({ _id: budgetId, userId });
+    if (!budget) {
+      return failure('NOT_FOUND', 'Budget not found');
+    }
+
+    // The category and period identify the budget; create another budget to change them
+    const { amount, thresholds, isActive } = input;
+    if (amount !== undefined) budget.amount = amount;
+    if (thresholds !== undefined) budget.thresholds = thresholds;
+    if (isActive !== undefined) budget.isActive = isActive;
+
+    // A higher budget or new thresholds can be crossed again this period
+    if (amount !== undefined || thresholds !== undefined) {
+      budget.alertsSent = [];
+    }
+
+    await budget.save();
+    return { success: true, budget };
+  }
+}
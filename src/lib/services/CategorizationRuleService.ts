@@ -0,0 +1,286 @@
+import { connectDB } from '@/lib/database/connection';
+import CategorizationRule, {
+  ICategorizationRule,
+  ICategorizationRuleDocument,
+  CategorizationRuleType
+} from '@/lib/database/models/CategorizationRule';
+import Income from '@/lib/database/models/Income';
+import Expense from '@/lib/database/models/Expense';
+import IncomeCategory from '@/lib/database/models/IncomeCategory';
+import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
+import Vendor from '@/lib/database/models/Vendor';
+
+/**
+ * Categorization Rule Service
+ * Assigns income and expense categories and vendors from user-defined rules
+ * when records are created, imported or re-run in bulk
+ */
+
+export type RuleInput = Partial<Pick<ICategorizationRule,
+  'name' | 'type' | 'conditions' | 'categoryId' | 'vendorId' | 'priority' | 'isActive'>>;
+
+export interface RuleResult {
+  success: boolean;
+  rule?: ICategorizationRuleDocument;
+  error?: { code: string; message: string };
+}
+
+// The record fields rules look at
+export interface CategorizableRecord {
+  description?: string;
+  amount?: number;
+  vendorId?: string | null;
+}
+
+export interface RuleAssignment {
+  categoryId?: string;
+  vendorId?: string;
+  rules: string[]; // Names of the rules that assigned something
+}
+
+export interface RerunOptions {
+  type: CategorizationRuleType;
+  onlyUncategorized?: boolean; // Leave records that already have a category alone
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface RerunChange {
+  recordId: string;
+  description: string;
+  amount: number;
+  date: Date;
+  rules: string[];
+  categoryId?: { from: string | null; to: string };
+  vendorId?: { from: string | null; to: string };
+}
+
+const failure = (code: string, message: string) => ({
+  success: false as const,
+  error: { code, message }
+});
+
+// Records scanned by one re-run; older records can be reached with a date range
+const MAX_RERUN_RECORDS = 5000;
+
+export class CategorizationRuleService {
+  /**
+   * Checks a record against every condition the rule sets
+   */
+  static matchesRule(rule: Pick<ICategorizationRule, 'conditions'>, record: CategorizableRecord): boolean {
+    const { descriptionContains, descriptionPattern, minAmount, maxAmount, vendorId } = rule.conditions || {};
+    const description = record.description || '';
+
+    if (descriptionContains && !description.toLowerCase().includes(descriptionContains.toLowerCase())) {
+      return false;
+    }
+
+    if (descriptionPattern) {
+      try {
+        if (!new RegExp(descriptionPattern, 'i').test(description)) return false;
+      } catch {
+        return false;
+      }
+    }
+
+    if (minAmount != null || maxAmount != null) {
+      const amount = Math.abs(record.amount ?? NaN);
+      if (Number.isNaN(amount)) return false;
+      if (minAmount != null && amount < minAmount) return false;
+      if (maxAmount != null && amount > maxAmount) return false;
+    }
+
+    if (vendorId && record.vendorId !== vendorId) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Runs rules in order; the first matching rule to set a field wins it
+   * A vendor already on the record is kept unless replaceVendor is set
+   */
+  static applyRules(
+    rules: Array<Pick<ICategorizationRule, 'name' | 'conditions' | 'categoryId' | 'vendorId'>>,
+    record: CategorizableRecord,
+    replaceVendor = false
+  ): RuleAssignment {
+    const assignment: RuleAssignment = { rules: [] };
+    const keepVendor = Boolean(record.vendorId) && !replaceVendor;
+
+    for (const rule of rules) {
+      if (assignment.categoryId && (assignment.vendorId || keepVendor)) break;
+      if (!this.matchesRule(rule, record)) continue;
+
+      let assigned = false;
+      if (rule.categoryId && !assignment.categoryId) {
+        assignment.categoryId = rule.categoryId;
+        assigned = true;
+      }
+      if (rule.vendorId && !assignment.vendorId && !keepVendor) {
+        assignment.vendorId = rule.vendorId;
+        assigned = true;
+      }
+      if (assigned) {
+        assignment.rules.push(rule.name);
+      }
+    }
+
+    return assignment;
+  }
+
+  /**
+   * Loads the user's active rules and returns what they assign to one record
+   */
+  static async categorize(
+    userId: string,
+    type: CategorizationRuleType,
+    record: CategorizableRecord
+  ): Promise<RuleAssignment> {
+    await connectDB();
+
+    const rules = await CategorizationRule.findActiveByUser(userId, type);
+    return this.applyRules(rules, record);
+  }
+
+  /**
+   * Creates a rule once its category and vendors are confirmed to be the user's
+   */
+  static async createRule(userId: string, input: RuleInput): Promise<RuleResult> {
+    await connectDB();
+
+    const invalid = await this.checkReferences(userId, input);
+    if (invalid) return invalid;
+
+    const rule = new CategorizationRule({ ...input, userId });
+    await rule.save();
+
+    return { success: true, rule };
+  }
+
+  /**
+   * Updates a rule, re-checking references against the resulting rule type
+   */
+  static async updateRule(userId: string, ruleId: string, input: RuleInput): Promise<RuleResult> {
+    await connectDB();
+
+    const rule = await CategorizationRule.findOne({ _id: ruleId, userId });
+    if (!rule) {
+      return failure('NOT_FOUND', 'Categorization rule not found');
+    }
+
+    // The type decides which category collection the rule points at
+    const type = input.type || rule.type;
+    const invalid = await this.checkReferences(userId, {
+      type,
+      categoryId: input.categoryId ?? rule.categoryId,
+      vendorId: input.vendorId ?? rule.vendorId,
+      conditions: input.conditions ?? rule.conditions
+    });
+    if (invalid) return invalid;
+
+    rule.set(input);
+    await rule.save();
+
+    return { success: true, rule };
+  }
+
+  /**
+   * Lists the records a re-run would change, without saving anything
+   */
+  static async previewRerun(userId: string, options: RerunOptions): Promise<RerunChange[]> {
+    await connectDB();
+
+    const rules = await CategorizationRule.findActiveByUser(userId, options.type);
+    if (rules.length === 0) return [];
+
+    const query: any = { userId };
+    if (options.onlyUncategorized !== false) {
+      query.categoryId = { $in: [null, ''] };
+    }
+    if (options.startDate || options.endDate) {
+      query.date = {};
+      if (options.startDate) query.date.$gte = options.startDate;
+      if (options.endDate) query.date.$lte = options.endDate;
+    }
+
+    const RecordModel: any = options.type === 'income' ? Income : Expense;
+    const records = await RecordModel.find(query)
+      .sort({ date: -1 })
+      .limit(MAX_RERUN_RECORDS)
+      .select('description amount date categoryId vendorId')
+      .lean();
+
+    const changes: RerunChange[] = [];
+
+    for (const record of records) {
+      // With onlyUncategorized off, rules may replace an existing category or vendor
+      const assignment = this.applyRules(rules, record, options.onlyUncategorized === false);
+
+      const change: RerunChange = {
+        recordId: String(record._id),
+        description: record.description,
+        amount: record.amount,
+        date: record.date,
+        rules: assignment.rules
+      };
+
+      if (assignment.categoryId && assignment.categoryId !== record.categoryId) {
+        change.categoryId = { from: record.categoryId || null, to: assignment.categoryId };
+      }
+      if (options.type === 'expense' && assignment.vendorId && assignment.vendorId !== record.vendorId) {
+        change.vendorId = { from: record.vendorId || null, to: assignment.vendorId };
+      }
+
+      if (change.categoryId || change.vendorId) {
+        changes.push(change);
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Applies the changes a preview lists and returns how many records were updated
+   */
+  static async rerun(userId: string, options: RerunOptions): Promise<number> {
+    const changes = await this.previewRerun(userId, options);
+    if (changes.length === 0) return 0;
+
+    const RecordModel: any = options.type === 'income' ? Income : Expense;
+    const result = await RecordModel.bulkWrite(changes.map(change => ({
+      updateOne: {
+        filter: { _id: change.recordId, userId },
+        update: {
+          $set: {
+            ...(change.categoryId && { categoryId: change.categoryId.to }),
+            ...(change.vendorId && { vendorId: change.vendorId.to })
+          }
+        }
+      }
+    })));
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Makes sure the categories and vendors a rule refers to belong to the user
+   */
+  private static async checkReferences(userId: string, input: RuleInput): Promise<RuleResult | null> {
+    if (input.categoryId) {
+      const CategoryModel: any = input.type === 'income' ? IncomeCategory : ExpenseCategory;
+      if (!await CategoryModel.exists({ _id: input.categoryId, userId })) {
+        return failure('VALIDATION_ERROR', 'Invalid category or category does not belong to user');
+      }
+    }
+
+    for (const vendorId of [input.vendorId, input.conditions?.vendorId]) {
+      if (vendorId && !await Vendor.exists({ _id: vendorId, userId })) {
+        return failure('VALIDATION_ERROR', 'Invalid vendor or vendor does not belong to user');
+      }
+    }
+
+    return null;
+  }
+}
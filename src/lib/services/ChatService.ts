@@ -0,0 +1,198 @@
+import { connectDB } from '@/lib/database/connection';
+import Conversation, { IConversationDocument } from '@/lib/database/models/Conversation';
+import Message, { IMessageAttachment } from '@/lib/database/models/Message';
+import User from '@/lib/database/models/User';
+import { isChatAttachmentUrl } from '@/lib/utils/file-upload';
+
+/**
+ * Chat Service
+ * Handles conversation listing, message delivery and unread tracking for team chat
+ */
+
+export interface ChatParticipant {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  name?: string;
+  email: string;
+  profileImage?: string;
+  avatar?: string;
+}
+
+export interface ConversationSummary {
+  _id: string;
+  type: 'direct' | 'group';
+  name?: string;
+  participants: ChatParticipant[];
+  lastMessage?: any;
+  lastMessageAt: Date;
+  unreadCount: number;
+}
+
+export interface SendMessageInput {
+  text?: string;
+  attachments?: IMessageAttachment[];
+}
+
+const PARTICIPANT_FIELDS = 'firstName lastName name email profileImage avatar';
+
+export class ChatService {
+  /**
+   * Loads participant profiles for a set of conversations
+   */
+  static async getParticipantMap(conversations: IConversationDocument[]): Promise<Record<string, ChatParticipant>> {
+    const userIds = Array.from(new Set(conversations.flatMap(conversation => conversation.participants)));
+    const users = await User.find({ _id: { $in: userIds } }).select(PARTICIPANT_FIELDS).lean();
+
+    return users.reduce((map, user: any) => {
+      map[user._id.toString()] = { ...user, _id: user._id.toString() };
+      return map;
+    }, {} as Record<string, ChatParticipant>);
+  }
+
+  /**
+   * Builds the conversation list for a user with participant details and unread counts
+   */
+  static async getConversationsForUser(userId: string): Promise<ConversationSummary[]> {
+    await connectDB();
+
+    const conversations = await Conversation.findForUser(userId);
+    const participantMap = await this.getParticipantMap(conversations);
+
+    const unreadCounts = await Promise.all(
+      conversations.map(conversation =>
+        Message.countUnread(conversation._id.toString(), userId, conversation.getLastReadAt(userId))
+      )
+    );
+
+    return conversations.map((conversation, index) => this.toSummary(conversation, participantMap, unreadCounts[index]));
+  }
+
+  /**
+   * Serializes a conversation document for API responses
+   */
+  static toSummary(
+    conversation: IConversationDocument,
+    participantMap: Record<string, ChatParticipant>,
+    unreadCount: number = 0
+  ): ConversationSummary {
+    return {
+      _id: conversation._id.toString(),
+      type: conversation.type,
+      name: conversation.name,
+      participants: conversation.participants
+        .map(participantId => participantMap[participantId])
+        .filter(Boolean),
+      lastMessage: conversation.lastMessage,
+      lastMessageAt: conversation.lastMessageAt,
+      unreadCount
+    };
+  }
+
+  /**
+   * Finds an existing direct conversation or opens a new one
+   */
+  static async findOrCreateDirect(userId: string, otherUserId: string): Promise<{ conversation: IConversationDocument; created: boolean }> {
+    await connectDB();
+
+    const existing = await Conversation.findDirect(userId, otherUserId);
+    if (existing) {
+      return { conversation: existing, created: false };
+    }
+
+    const conversation = await new Conversation({
+      type: 'direct',
+      participants: [userId, otherUserId],
+      readState: [{ userId, lastReadAt: new Date() }],
+      createdBy: userId
+    }).save();
+
+    return { conversation, created: true };
+  }
+
+  /**
+   * Stores a message and updates the conversation preview and sender read marker
+   */
+  static async sendMessage(conversation: IConversationDocument, senderId: string, input: SendMessageInput) {
+    await connectDB();
+
+    const attachments = (input.attachments || []).filter(attachment => isChatAttachmentUrl(attachment.url));
+    if ((input.attachments || []).length !== attachments.length) {
+      throw new Error('Attachments must be uploaded through the chat attachment endpoint');
+    }
+
+    const type = attachments.length === 0
+      ? 'text'
+      : attachments.every(attachment => attachment.mimeType.startsWith('image/')) ? 'image' : 'file';
+
+    const message = await new Message({
+      conversationId: conversation._id.toString(),
+      senderId,
+      text: input.text?.trim() || '',
+      type,
+      attachments
+    }).save();
+
+    conversation.lastMessage = {
+      text: message.text || attachments.map(attachment => attachment.name).join(', '),
+      senderId,
+      type,
+      createdAt: message.createdAt
+    };
+    conversation.lastMessageAt = message.createdAt;
+
+    const senderState = conversation.readState.find(state => state.userId === senderId);
+    if (senderState) {
+      senderState.lastReadAt = message.createdAt;
+    } else {
+      conversation.readState.push({ userId: senderId, lastReadAt: message.createdAt });
+    }
+
+    await conversation.save();
+
+    return message;
+  }
+
+  /**
+   * Collects messages posted since a timestamp across all of a user's conversations.
+   * Used by the polling endpoint so clients only need a single request per interval.
+   */
+  static async getUpdates(userId: string, since: Date) {
+    await connectDB();
+
+    const conversations = await Conversation.findForUser(userId);
+    const conversationIds = conversations.map(conversation => conversation._id.toString());
+
+    const [messages, unreadCounts] = await Promise.all([
+      Message.find({
+        conversationId: { $in: conversationIds },
+        createdAt: { $gt: since }
+      })
+        .sort({ createdAt: 1 })
+        .limit(500)
+        .lean(),
+      Promise.all(
+        conversations.map(conversation =>
+          Message.countUnread(conversation._id.toString(), userId, conversation.getLastReadAt(userId))
+        )
+      )
+    ]);
+
+    // Include conversations that changed so newly started chats appear for every participant
+    const changedConversations = conversations.filter(conversation =>
+      conversation.updatedAt > since || conversation.createdAt > since
+    );
+    const participantMap = await this.getParticipantMap(changedConversations);
+
+    return {
+      messages,
+      conversations: changedConversations.map(conversation =>
+        this.toSummary(conversation, participantMap, unreadCounts[conversationIds.indexOf(conversation._id.toString())])
+      ),
+      unreadCounts: conversationIds.reduce((map, conversationId, index) => {
+        map[conversationId] = unreadCounts[index];
+        return map;
+      }, {} as Record<string, number>)
+    };
+  }
+}
@@ -0,0 +1,234 @@
+import Papa from 'papaparse';
+import mongoose from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import ExchangeRate, { IExchangeRate, IExchangeRateDocument } from '@/lib/database/models/ExchangeRate';
+import User from '@/lib/database/models/User';
+import {
+  CurrencyCode,
+  DEFAULT_BASE_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  isSupportedCurrency
+} from '@/lib/constants/currencies';
+
+/**
+ * Currency Service
+ * Manages each account's reporting currency and locally maintained exchange
+ * rates, and converts finance amounts into the reporting currency
+ */
+
+export interface ExchangeRateInput {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  effectiveDate?: string | Date;
+  notes?: string;
+}
+
+export interface ExchangeRateResult {
+  success: boolean;
+  rate?: IExchangeRateDocument;
+  created?: boolean;
+  error?: { code: string; message: string };
+}
+
+export interface ExchangeRateImportResult {
+  totalRows: number;
+  created: number;
+  updated: number;
+  failed: number;
+  errors: Array<{ row: number; message: string }>;
+}
+
+/**
+ * Converts amounts between currencies using a preloaded set of rates
+ */
+export interface RateTable {
+  /**
+   * Returns the amount in the target currency, or null when no rate links the two currencies
+   */
+  convert(amount: number, from: CurrencyCode, to: CurrencyCode, date?: Date): number | null;
+}
+
+type RateEntry = Pick<IExchangeRate, 'fromCurrency' | 'toCurrency' | 'rate' | 'effectiveDate'>;
+
+const failure = (code: string, message: string): ExchangeRateResult => ({
+  success: false,
+  error: { code, message }
+});
+
+/**
+ * Builds a rate table from exchange rates
+ * Uses the latest rate effective on the date, falling back to the earliest rate
+ * for dates before the first entry; inverse pairs are derived when only one
+ * direction was entered
+ */
+export const createRateTable = (rates: RateEntry[]): RateTable => {
+  const pairs = new Map<string, Array<{ rate: number; time: number }>>();
+
+  const add = (from: string, to: string, rate: number, date: Date) => {
+    const key = `${from}:${to}`;
+    const entries = pairs.get(key) || [];
+    entries.push({ rate, time: new Date(date).getTime() });
+    pairs.set(key, entries);
+  };
+
+  for (const entry of rates) {
+    add(entry.fromCurrency, entry.toCurrency, entry.rate, entry.effectiveDate);
+  }
+
+  // Entered rates take precedence over derived inverses on the same date
+  for (const entry of rates) {
+    const inverseKey = `${entry.toCurrency}:${entry.fromCurrency}`;
+    const time = new Date(entry.effectiveDate).getTime();
+    if (!(pairs.get(inverseKey) || []).some(existing => existing.time === time)) {
+      add(entry.toCurrency, entry.fromCurrency, 1 / entry.rate, entry.effectiveDate);
+    }
+  }
+
+  pairs.forEach(entries => entries.sort((a, b) => a.time - b.time));
+
+  return {
+    convert(amount, from, to, date = new Date()) {
+      if (from === to) return amount;
+
+      const entries = pairs.get(`${from}:${to}`);
+      if (!entries || entries.length === 0) return null;
+
+      const time = date.getTime();
+      let match = entries[0];
+      for (const entry of entries) {
+        if (entry.time > time) break;
+        match = entry;
+      }
+
+      return amount * match.rate;
+    }
+  };
+};
+
+export class CurrencyService {
+  /**
+   * Gets the account's reporting currency
+   */
+  static async getBaseCurrency(userId: string): Promise<CurrencyCode> {
+    await connectDB();
+
+    if (!mongoose.Types.ObjectId.isValid(userId)) {
+      return DEFAULT_BASE_CURRENCY;
+    }
+
+    const user = await User.findById(userId).select('baseCurrency').lean();
+    return (user?.baseCurrency as CurrencyCode) || DEFAULT_BASE_CURRENCY;
+  }
+
+  /**
+   * Changes the account's reporting currency
+   */
+  static async setBaseCurrency(userId: string, currency: string): Promise<CurrencyCode> {
+    await connectDB();
+
+    if (!isSupportedCurrency(currency)) {
+      throw new Error(`Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`);
+    }
+
+    const baseCurrency = currency.toUpperCase() as CurrencyCode;
+    await User.updateOne({ _id: userId }, { $set: { baseCurrency } });
+    return baseCurrency;
+  }
+
+  /**
+   * Loads every exchange rate for the account into a rate table
+   */
+  static async getRateTable(userId: string): Promise<RateTable> {
+    await connectDB();
+    const rates = await ExchangeRate.find({ userId })
+      .select('fromCurrency toCurrency rate effectiveDate')
+      .lean();
+    return createRateTable(rates);
+  }
+
+  /**
+   * Records a rate, replacing any rate already entered for the same pair and day
+   */
+  static async saveRate(
+    userId: string,
+    input: ExchangeRateInput,
+    source: IExchangeRate['source'] = 'manual'
+  ): Promise<ExchangeRateResult> {
+    await connectDB();
+
+    const fromCurrency = String(input.fromCurrency || '').trim().toUpperCase();
+    const toCurrency = String(input.toCurrency || '').trim().toUpperCase();
+
+    if (!isSupportedCurrency(fromCurrency) || !isSupportedCurrency(toCurrency)) {
+      return failure('VALIDATION_ERROR', `Currencies must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`);
+    }
+
+    if (fromCurrency === toCurrency) {
+      return failure('VALIDATION_ERROR', 'From and to currencies must be different');
+    }
+
+    const rate = Number(input.rate);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      return failure('VALIDATION_ERROR', 'Rate must be a positive number');
+    }
+
+    const effectiveDate = input.effectiveDate ? new Date(input.effectiveDate) : new Date();
+    if (isNaN(effectiveDate.getTime())) {
+      return failure('VALIDATION_ERROR', 'Effective date is invalid');
+    }
+    effectiveDate.setUTCHours(0, 0, 0, 0);
+
+    const existing = await ExchangeRate.findOne({ userId, fromCurrency, toCurrency, effectiveDate });
+    const record = existing || new ExchangeRate({ userId, fromCurrency, toCurrency, effectiveDate });
+
+    record.rate = rate;
+    record.source = source;
+    record.notes = input.notes?.trim() || undefined;
+    await record.save();
+
+    return { success: true, rate: record, created: !existing };
+  }
+
+  /**
+   * Imports rates from CSV with columns from_currency, to_currency, rate and date
+   * Rows for a pair and day that already has a rate overwrite it
+   */
+  static async importRatesFromCsv(userId: string, csv: string): Promise<ExchangeRateImportResult> {
+    const parsed = Papa.parse<Record<string, string>>(csv.trim(), {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: header => header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+    });
+
+    const result: ExchangeRateImportResult = {
+      totalRows: parsed.data.length,
+      created: 0,
+      updated: 0,
+      failed: 0,
+      errors: []
+    };
+
+    for (let index = 0; index < parsed.data.length; index++) {
+      const row = parsed.data[index];
+      const rowNumber = index + 2; // Header is row 1
+
+      const saved = await this.saveRate(userId, {
+        fromCurrency: row.from_currency ?? row.from,
+        toCurrency: row.to_currency ?? row.to,
+        rate: parseFloat(row.rate),
+        effectiveDate: row.effective_date || row.date || undefined,
+        notes: row.notes
+      }, 'csv_import');
+
+      if (saved.success) {
+        saved.created ? result.created++ : result.updated++;
+      } else {
+        result.failed++;
+        result.errors.push({ row: rowNumber, message: saved.error?.message || 'Invalid row' });
+      }
+    }
+
+    return result;
+  }
+}
@@ -2,6 +2,9 @@ import { connectDB } from '@/lib/database/connection';
 import Income from '@/lib/database/models/Income';
 import Expense from '@/lib/database/models/Expense';
 import Sale from '@/lib/database/models/Sale';
+import SalesOrder from '@/lib/database/models/SalesOrder';
+import { CurrencyService, RateTable } from '@/lib/services/CurrencyService';
+import { CurrencyCode, DEFAULT_BASE_CURRENCY } from '@/lib/constants/currencies';
 
 /**
  * Financial Calculator Service
@@ -13,12 +16,22 @@ export interface FinancialSummary {
   totalExpenses: number;
   netProfit: number;
   profitMargin: number;
+  currency: CurrencyCode; // Reporting currency all totals are converted to
+  unconvertedCurrencies: string[]; // Currencies left out of the totals for lack of an exchange rate
   period: {
     startDate: Date;
     endDate: Date;
   };
 }
 
+/**
+ * Amount recorded in one currency on one day
+ */
+interface DailyCurrencyTotal {
+  _id: { currency: CurrencyCode | null; day: string };
+  total: number;
+}
+
 export interface CategoryBreakdown {
   categoryId: string;
   categoryName: string;
@@ -65,31 +78,18 @@ export class FinancialCalculator {
         if (endDate) dateFilter.date.$lte = endDate;
       }
 
-      // Calculate totals
-      const [incomeTotal, expenseTotal] = await Promise.all([
-        Income.getTotalByUser(userId),
-        Expense.getTotalByUser(userId)
+      // Totals are kept per currency and day so each amount converts at the rate of its date
+      const [baseCurrency, rates, incomeTotals, expenseTotals] = await Promise.all([
+        CurrencyService.getBaseCurrency(userId),
+        CurrencyService.getRateTable(userId),
+        this.getDailyCurrencyTotals(Income, dateFilter),
+        this.getDailyCurrencyTotals(Expense, dateFilter)
       ]);
 
-      // If date range is specified, recalculate with date filter
-      let totalIncome = incomeTotal;
-      let totalExpenses = expenseTotal;
-
-      if (startDate || endDate) {
-        const [incomeResult, expenseResult] = await Promise.all([
-          Income.aggregate([
-            { $match: dateFilter },
-            { $group: { _id: null, total: { $sum: '$amount' } } }
-          ]),
-          Expense.aggregate([
-            { $match: dateFilter },
-            { $group: { _id: null, total: { $sum: '$amount' } } }
-          ])
-        ]);
-
-        totalIncome = incomeResult.length > 0 ? incomeResult[0].total : 0;
-        totalExpenses = expenseResult.length > 0 ? expenseResult[0].total : 0;
-      }
+      const income = this.convertDailyTotals(incomeTotals, rates, baseCurrency);
+      const expenses = this.convertDailyTotals(expenseTotals, rates, baseCurrency);
+      const totalIncome = income.total;
+      const totalExpenses = expenses.total;
 
       const netProfit = totalIncome - totalExpenses;
       const profitMargin = totalIncome > 0 ? (netProfit / totalIncome) * 100 : 0;
@@ -99,6 +99,8 @@ export class FinancialCalculator {
         totalExpenses: Math.round(totalExpenses * 100) / 100,
         netProfit: Math.round(netProfit * 100) / 100,
         profitMargin: Math.round(profitMargin * 100) / 100,
+        currency: baseCurrency,
+        unconvertedCurrencies: Array.from(new Set([...income.unconverted, ...expenses.unconverted])),
         period: {
           startDate: startDate || new Date(0),
           endDate: endDate || new Date()
@@ -112,6 +114,8 @@ export class FinancialCalculator {
         totalExpenses: 0,
         netProfit: 0,
         profitMargin: 0,
+        currency: DEFAULT_BASE_CURRENCY,
+        unconvertedCurrencies: [],
         period: {
           startDate: startDate || new Date(0),
           endDate: endDate || new Date()
@@ -259,56 +263,17 @@ export class FinancialCalculator {
       startDate.setDate(1);
       startDate.setHours(0, 0, 0, 0);
 
-      const [incomeData, expenseData] = await Promise.all([
-        Income.aggregate([
-          {
-            $match: {
-              userId: userId,
-              date: { $gte: startDate }
-            }
-          },
-          {
-            $group: {
-              _id: {
-                year: { $year: '$date' },
-                month: { $month: '$date' }
-              },
-              income: { $sum: '$amount' }
-            }
-          }
-        ]),
-        Expense.aggregate([
-          {
-            $match: {
-              userId: userId,
-              date: { $gte: startDate }
-            }
-          },
-          {
-            $group: {
-              _id: {
-                year: { $year: '$date' },
-                month: { $month: '$date' }
-              },
-              expenses: { $sum: '$amount' }
-            }
-          }
-        ])
+      const matchFilter = { userId, date: { $gte: startDate } };
+      const [baseCurrency, rates, incomeTotals, expenseTotals] = await Promise.all([
+        CurrencyService.getBaseCurrency(userId),
+        CurrencyService.getRateTable(userId),
+        this.getDailyCurrencyTotals(Income, matchFilter),
+        this.getDailyCurrencyTotals(Expense, matchFilter)
       ]);
 
-      // Create a map for easy lookup
-      const incomeMap = new Map();
-      const expenseMap = new Map();
-
-      incomeData.forEach(item => {
-        const key = `${item._id.year}-${item._id.month}`;
-        incomeMap.set(key, item.income);
-      });
-
-      expenseData.forEach(item => {
-        const key = `${item._id.year}-${item._id.month}`;
-        expenseMap.set(key, item.expenses);
-      });
+      // Create a map of converted totals per month for easy lookup
+      const incomeMap = this.convertDailyTotals(incomeTotals, rates, baseCurrency).byMonth;
+      const expenseMap = this.convertDailyTotals(expenseTotals, rates, baseCurrency).byMonth;
 
       // Generate trends for each month
       const trends: MonthlyTrend[] = [];
@@ -382,6 +347,8 @@ export class FinancialCalculator {
           totalExpenses: 0,
           netProfit: 0,
           profitMargin: 0,
+          currency: DEFAULT_BASE_CURRENCY,
+          unconvertedCurrencies: [],
           period: {
             startDate: startDate || new Date(0),
             endDate: endDate || new Date()
@@ -396,20 +363,95 @@ export class FinancialCalculator {
     }
   }
 
+  /**
+   * Sums income or expense amounts per currency and day
+   */
+  private static async getDailyCurrencyTotals(
+    model: typeof Income | typeof Expense,
+    match: Record<string, any>
+  ): Promise<DailyCurrencyTotal[]> {
+    return (model as typeof Income).aggregate<DailyCurrencyTotal>([
+      { $match: match },
+      {
+        $group: {
+          _id: {
+            currency: '$currency',
+            day: { $dateToString: { format: '%Y-%m-%d', date: '$date' } }
+          },
+          total: { $sum: '$amount' }
+        }
+      }
+    ]);
+  }
+
+  /**
+   * Converts daily totals into the base currency
+   * Records without a currency predate multi-currency support and are treated as the base currency
+   */
+  private static convertDailyTotals(
+    totals: DailyCurrencyTotal[],
+    rates: RateTable,
+    baseCurrency: CurrencyCode
+  ): { total: number; byMonth: Map<string, number>; unconverted: string[] } {
+    const byMonth = new Map<string, number>();
+    const unconverted = new Set<string>();
+    let total = 0;
+
+    for (const { _id, total: amount } of totals) {
+      const currency = _id.currency || baseCurrency;
+      const converted = rates.convert(amount, currency, baseCurrency, new Date(`${_id.day}T00:00:00Z`));
+
+      if (converted === null) {
+        unconverted.add(currency);
+        continue;
+      }
+
+      const [year, month] = _id.day.split('-').map(Number);
+      const key = `${year}-${month}`;
+      byMonth.set(key, (byMonth.get(key) || 0) + converted);
+      total += converted;
+    }
+
+    return { total, byMonth, unconverted: Array.from(unconverted) };
+  }
+
+  /**
+   * Counts sales transactions, treating a multi-line order as one transaction at its discounted value
+   */
+  static async getTransactionTotals(userId: string) {
+    const [standaloneSales, orderData] = await Promise.all([
+      Sale.aggregate([
+        { $match: { userId, orderId: null } },
+        { $group: { _id: null, total: { $sum: '$totalAmount' }, count: { $sum: 1 } } }
+      ]),
+      SalesOrder.getOrderAnalytics(userId)
+    ]);
+
+    const standalone = standaloneSales.length > 0 ? standaloneSales[0] : { total: 0, count: 0 };
+
+    return {
+      totalRevenue: standalone.total + orderData.totalRevenue,
+      totalTransactions: standalone.count + orderData.totalOrders
+    };
+  }
+
   /**
    * Calculates financial ratios and KPIs
    */
   static async calculateFinancialRatios(userId: string) {
     try {
       const summary = await this.calculateFinancialSummary(userId);
-      const salesData = await Sale.getSalesAnalytics(userId);
+      const salesData = await this.getTransactionTotals(userId);
+      const averageSaleAmount = salesData.totalTransactions > 0
+        ? Math.round((salesData.totalRevenue / salesData.totalTransactions) * 100) / 100
+        : 0;
 
       return {
         profitMargin: summary.profitMargin,
         expenseRatio: summary.totalIncome > 0 ? (summary.totalExpenses / summary.totalIncome) * 100 : 0,
-        averageTransactionValue: salesData.averageSaleAmount || 0,
-        totalTransactions: salesData.totalTransactions || 0,
-        revenuePerTransaction: salesData.averageSaleAmount || 0
+        averageTransactionValue: averageSaleAmount,
+        totalTransactions: salesData.totalTransactions,
+        revenuePerTransaction: averageSaleAmount
       };
 
     } catch (error) {
@@ -0,0 +1,311 @@
+import { Document, Model } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import ImportJob, { IImportJob, IImportRollback, ImportRecordModel } from '@/lib/database/models/ImportJob';
+import WordPressImportJob from '@/lib/database/models/WordPressImportJob';
+import Income from '@/lib/database/models/Income';
+import Expense from '@/lib/database/models/Expense';
+import IncomeCategory from '@/lib/database/models/IncomeCategory';
+import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
+import Vendor from '@/lib/database/models/Vendor';
+import Product from '@/lib/database/models/Product';
+import ProductVariant from '@/lib/database/models/ProductVariant';
+import SalesOrder from '@/lib/database/models/SalesOrder';
+import Sale from '@/lib/database/models/Sale';
+import InventoryLog from '@/lib/database/models/InventoryLog';
+import { InventoryService } from './InventoryService';
+
+/**
+ * Import Rollback Service
+ * Undoes a completed import: deletes the records it created, restores the
+ * fields it overwrote from snapshots taken at import time and reverses the
+ * stock movements logged against the job
+ */
+
+export interface ImportRollbackResult {
+  success: boolean;
+  rollback?: IImportRollback;
+  error?: { code: string; message: string };
+}
+
+const failure = (code: string, message: string): ImportRollbackResult => ({
+  success: false,
+  error: { code, message }
+});
+
+const RECORD_MODELS: Record<ImportRecordModel, Model<any>> = {
+  Income,
+  Expense,
+  IncomeCategory,
+  ExpenseCategory,
+  Vendor,
+  Product,
+  ProductVariant
+};
+
+// Records that other data may have started pointing at since the import
+const RECORD_USAGE: Partial<Record<ImportRecordModel, (recordId: string) => Promise<unknown>>> = {
+  IncomeCategory: recordId => Income.exists({ categoryId: recordId }),
+  ExpenseCategory: recordId => Expense.exists({ categoryId: recordId }),
+  Vendor: recordId => Expense.exists({ vendorId: recordId })
+};
+
+export class ImportRollbackService {
+  /**
+   * Copies top-level fields of a document before an import overwrites them
+   * Unset fields are stored as null so restoring the snapshot clears them again
+   */
+  static snapshot(doc: Document, paths: string[]): Record<string, any> {
+    const current = doc.toObject({ depopulate: true });
+    return Object.fromEntries(paths.map(path => [path, current[path] ?? null]));
+  }
+
+  /**
+   * Rolls back a finance or product bulk-upload import
+   */
+  static async rollbackImportJob(jobId: string, userId: string): Promise<ImportRollbackResult> {
+    await connectDB();
+
+    const job = await ImportJob.findOne({ jobId });
+    if (!job || job.userId !== userId) {
+      return failure('NOT_FOUND', 'Import job not found');
+    }
+
+    const rejected = this.checkStatus(job.status);
+    if (rejected) return rejected;
+
+    // Claim the job first so a repeated request cannot undo it twice
+    const claimed = await ImportJob.updateOne(
+      { jobId, status: 'completed' },
+      { $set: { status: 'rolled_back' } }
+    );
+    if (claimed.modifiedCount === 0) {
+      return failure('CONFLICT', 'Import job is already being rolled back');
+    }
+
+    const rollback = this.createSummary(userId);
+    const deletedIds = new Set<string>();
+
+    try {
+      if (job.type === 'income' || job.type === 'expense') {
+        const RecordModel: Model<any> = job.type === 'income' ? Income : Expense;
+        const { deletedCount } = await RecordModel.deleteMany({ userId, importJobId: jobId });
+        rollback.deleted += deletedCount;
+      }
+
+      // Newest first, so variants go before the products they belong to
+      for (const record of [...job.createdRecords].reverse()) {
+        await this.deleteCreatedRecord(record, rollback, deletedIds);
+      }
+
+      for (const record of job.updatedRecords) {
+        await this.restoreRecord(record.model, record.recordId, record.previous, rollback);
+      }
+
+      await this.reverseInventory(jobId, userId, deletedIds, rollback);
+    } catch (error) {
+      console.error(`Rollback of import job ${jobId} failed:`, error);
+      rollback.failures.push(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    await ImportJob.updateOne({ jobId }, { $set: { rollback } });
+    return { success: true, rollback };
+  }
+
+  /**
+   * Rolls back a WooCommerce product or order import
+   */
+  static async rollbackWordPressImportJob(jobId: string, userId: string): Promise<ImportRollbackResult> {
+    await connectDB();
+
+    const job = await WordPressImportJob.findByJobId(jobId);
+    if (!job || job.userId !== userId) {
+      return failure('NOT_FOUND', 'Import job not found');
+    }
+
+    const rejected = this.checkStatus(job.status);
+    if (rejected) return rejected;
+
+    const claimed = await WordPressImportJob.updateOne(
+      { jobId, status: 'completed' },
+      { $set: { status: 'rolled_back', 'progress.currentStep': 'Rolled back' } }
+    );
+    if (claimed.modifiedCount === 0) {
+      return failure('CONFLICT', 'Import job is already being rolled back');
+    }
+
+    const rollback = this.createSummary(userId);
+    const deletedIds = new Set<string>();
+
+    try {
+      if (job.type === 'orders') {
+        for (const orderId of job.results.newOrders) {
+          await this.deleteImportedOrder(orderId, rollback);
+        }
+      } else {
+        for (const productId of job.results.newProducts) {
+          await this.deleteCreatedRecord({ model: 'Product', recordId: productId }, rollback, deletedIds);
+        }
+
+        for (const { productId, values } of job.results.previousValues) {
+          await this.restoreRecord('Product', productId, values, rollback);
+        }
+      }
+
+      await this.reverseInventory(jobId, userId, deletedIds, rollback);
+    } catch (error) {
+      console.error(`Rollback of WordPress import job ${jobId} failed:`, error);
+      rollback.failures.push(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    await WordPressImportJob.updateOne({ jobId }, { $set: { rollback } });
+    return { success: true, rollback };
+  }
+
+  private static checkStatus(status: string): ImportRollbackResult | null {
+    if (status === 'rolled_back') {
+      return failure('ALREADY_ROLLED_BACK', 'Import job has already been rolled back');
+    }
+    if (status !== 'completed') {
+      return failure('INVALID_STATUS', 'Only completed imports can be rolled back');
+    }
+    return null;
+  }
+
+  private static createSummary(userId: string): IImportRollback {
+    return {
+      rolledBackAt: new Date(),
+      rolledBackBy: userId,
+      deleted: 0,
+      restored: 0,
+      inventoryReversed: 0,
+      failures: []
+    };
+  }
+
+  /**
+   * Deletes a record the import created; categories and vendors that other
+   * records now use are kept
+   */
+  private static async deleteCreatedRecord(
+    record: IImportJob['createdRecords'][number],
+    rollback: IImportRollback,
+    deletedIds: Set<string>
+  ): Promise<void> {
+    const isUsed = RECORD_USAGE[record.model];
+    if (isUsed && await isUsed(record.recordId)) {
+      rollback.failures.push(`${record.model} ${record.recordId} is still in use and was kept`);
+      return;
+    }
+
+    if (record.model === 'Product') {
+      const variants = await ProductVariant.find({ productId: record.recordId }).select('_id').lean();
+      variants.forEach(variant => deletedIds.add(String(variant._id)));
+      const { deletedCount } = await ProductVariant.deleteMany({ productId: record.recordId });
+      rollback.deleted += deletedCount;
+    }
+
+    const { deletedCount } = await RECORD_MODELS[record.model].deleteOne({ _id: record.recordId });
+    rollback.deleted += deletedCount;
+    deletedIds.add(record.recordId);
+  }
+
+  private static async restoreRecord(
+    model: ImportRecordModel,
+    recordId: string,
+    previous: Record<string, any>,
+    rollback: IImportRollback
+  ): Promise<void> {
+    const doc = await RECORD_MODELS[model].findById(recordId);
+    if (!doc) {
+      rollback.failures.push(`${model} ${recordId} no longer exists and was not restored`);
+      return;
+    }
+
+    for (const [path, value] of Object.entries(previous)) {
+      doc.set(path, value === null ? undefined : value);
+    }
+
+    try {
+      await doc.save();
+      rollback.restored++;
+    } catch (error) {
+      rollback.failures.push(`${model} ${recordId} could not be restored: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Removes an imported sales order with its sales and income
+   * Stock is returned from the order's inventory logs, not by SalesOrderService.reverseOrder
+   */
+  private static async deleteImportedOrder(orderId: string, rollback: IImportRollback): Promise<void> {
+    const order = await SalesOrder.findById(orderId);
+    if (!order) {
+      rollback.failures.push(`Sales order ${orderId} no longer exists`);
+      return;
+    }
+
+    for (const item of order.items) {
+      if (item.saleId) {
+        await Sale.findByIdAndDelete(item.saleId);
+      }
+    }
+
+    if (order.incomeId) {
+      await Income.findByIdAndDelete(order.incomeId);
+    }
+
+    await order.deleteOne();
+    rollback.deleted++;
+  }
+
+  /**
+   * Applies the opposite of every stock movement logged against the job, newest first,
+   * and logs each reversal; movements on records the rollback deleted are skipped
+   */
+  private static async reverseInventory(
+    jobId: string,
+    userId: string,
+    deletedIds: Set<string>,
+    rollback: IImportRollback
+  ): Promise<void> {
+    const logs = await InventoryLog.find({
+      importJobId: jobId,
+      'metadata.rollbackOf': { $exists: false }
+    }).sort({ createdAt: -1 });
+
+    for (const log of logs) {
+      if (!log.productId || log.quantityChange === 0) continue;
+      if (deletedIds.has(log.productId) || (log.variantId && deletedIds.has(log.variantId))) continue;
+
+      const change = -log.quantityChange;
+      const result = change > 0
+        ? await InventoryService.restoreInventoryFromSale(log.productId, change, log.variantId)
+        : await InventoryService.updateInventoryForSale(log.productId, -change, log.variantId);
+
+      if (!result.success) {
+        rollback.failures.push(`Stock for ${log.sku} was not reversed: ${result.message}`);
+        continue;
+      }
+
+      // Products without stock management are not tracked
+      if (result.newQuantity === result.previousQuantity) continue;
+
+      await InventoryLog.createLog({
+        productId: log.productId,
+        variantId: log.variantId,
+        sku: log.sku,
+        type: 'adjustment',
+        quantityBefore: result.previousQuantity,
+        quantityChange: result.newQuantity - result.previousQuantity,
+        quantityAfter: result.newQuantity,
+        orderId: log.orderId,
+        importJobId: jobId,
+        userId,
+        reason: `Rollback of import ${jobId}`,
+        source: 'import',
+        metadata: { rollbackOf: String(log._id) }
+      });
+      rollback.inventoryReversed++;
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { connectDB } from '@/lib/database/connection';
 import Product from '@/lib/database/models/Product';
+import ProductVariant from '@/lib/database/models/ProductVariant';
 import Sale from '@/lib/database/models/Sale';
 
 /**
@@ -37,11 +38,35 @@ export class InventoryService {
    */
   static async validateInventoryForSale(
     productId: string,
-    requestedQuantity: number
+    requestedQuantity: number,
+    variantId?: string
   ): Promise<InventoryValidationResult> {
     try {
       await connectDB();
 
+      if (variantId) {
+        const variant = await ProductVariant.findOne({ _id: variantId, productId });
+        if (!variant) {
+          return {
+            isValid: false,
+            availableQuantity: 0,
+            requestedQuantity,
+            message: 'Product variant not found'
+          };
+        }
+
+        const isValid = variant.inventory.backordersAllowed || variant.inventory.available >= requestedQuantity;
+
+        return {
+          isValid,
+          availableQuantity: variant.inventory.available,
+          requestedQuantity,
+          message: isValid
+            ? 'Sufficient inventory available'
+            : `Insufficient inventory for ${variant.sku}. Available: ${variant.inventory.available}, Requested: ${requestedQuantity}`
+        };
+      }
+
       const product = await Product.findById(productId);
       if (!product) {
         return {
@@ -88,11 +113,16 @@ export class InventoryService {
    */
   static async updateInventoryForSale(
     productId: string,
-    soldQuantity: number
+    soldQuantity: number,
+    variantId?: string
   ): Promise<InventoryUpdateResult> {
     try {
       await connectDB();
 
+      if (variantId) {
+        return await this.adjustVariantInventory(productId, variantId, -soldQuantity);
+      }
+
       const product = await Product.findById(productId);
       if (!product) {
         return {
@@ -156,11 +186,16 @@ export class InventoryService {
    */
   static async restoreInventoryFromSale(
     productId: string,
-    restoredQuantity: number
+    restoredQuantity: number,
+    variantId?: string
   ): Promise<InventoryUpdateResult> {
     try {
       await connectDB();
 
+      if (variantId) {
+        return await this.adjustVariantInventory(productId, variantId, restoredQuantity);
+      }
+
       const product = await Product.findById(productId);
       if (!product) {
         return {
@@ -213,6 +248,41 @@ export class InventoryService {
     }
   }
 
+  /**
+   * Applies a stock change to a product variant, which tracks its own inventory
+   */
+  private static async adjustVariantInventory(
+    productId: string,
+    variantId: string,
+    quantityChange: number
+  ): Promise<InventoryUpdateResult> {
+    const variant = await ProductVariant.findOne({ _id: variantId, productId });
+    if (!variant) {
+      return {
+        success: false,
+        previousQuantity: 0,
+        newQuantity: 0,
+        stockStatus: 'unknown',
+        message: 'Product variant not found'
+      };
+    }
+
+    const previousQuantity = variant.inventory.quantity;
+    await variant.adjustStock(quantityChange, quantityChange < 0 ? 'sale' : 'sale_reversal');
+
+    const stockStatus = variant.inventory.quantity > 0
+      ? 'instock'
+      : variant.inventory.backordersAllowed ? 'onbackorder' : 'outofstock';
+
+    return {
+      success: true,
+      previousQuantity,
+      newQuantity: variant.inventory.quantity,
+      stockStatus,
+      message: `Variant inventory updated: ${previousQuantity} → ${variant.inventory.quantity}`
+    };
+  }
+
   /**
    * Gets products with low stock or out of stock
    */
@@ -0,0 +1,92 @@
+import { connectDB } from '@/lib/database/connection';
+import { IInvoiceDocument } from '@/lib/database/models/Invoice';
+import { EmailSender } from '@/lib/email/sender';
+import { InvoicePdfService } from '@/lib/services/InvoicePdfService';
+import { loadCompanySettings } from '@/lib/utils/company-settings';
+import { formatCurrency, formatDate } from '@/lib/utils/format';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/constants/currencies';
+
+/**
+ * Invoice Delivery Service
+ * Emails invoices to clients as PDF attachments and records each send
+ * in the invoice history
+ */
+
+export interface SendInvoiceInput {
+  to?: string; // Defaults to the invoice's billToEmail
+  cc?: string[];
+  message?: string;
+}
+
+export interface InvoiceDeliveryResult {
+  success: boolean;
+  invoice?: IInvoiceDocument;
+  messageId?: string;
+  error?: { code: string; message: string };
+}
+
+const failure = (code: string, message: string): InvoiceDeliveryResult => ({
+  success: false,
+  error: { code, message }
+});
+
+export class InvoiceDeliveryService {
+  /**
+   * Emails the invoice PDF to the client and marks unsent invoices as Sent
+   */
+  static async sendInvoice(
+    invoice: IInvoiceDocument,
+    input: SendInvoiceInput = {},
+    sentBy?: string
+  ): Promise<InvoiceDeliveryResult> {
+    await connectDB();
+
+    if (invoice.status === 'Cancelled') {
+      return failure('INVALID_STATUS', 'Cancelled invoices cannot be sent');
+    }
+
+    const recipient = (input.to || invoice.billToEmail || '').trim().toLowerCase();
+    if (!recipient) {
+      return failure('VALIDATION_ERROR', 'The invoice has no client email address');
+    }
+
+    // Only unsent invoices move to Sent; payment and overdue statuses are kept
+    const status = invoice.status === 'Draft' || invoice.status === 'Pending' ? 'Sent' : invoice.status;
+
+    const company = await loadCompanySettings();
+    const companyName = company.name || invoice.billFrom;
+    const pdf = await InvoicePdfService.generate({ ...invoice.toObject(), status }, company);
+
+    const result = await EmailSender.sendInvoice(
+      recipient,
+      {
+        customerName: invoice.billTo,
+        companyName,
+        invoiceNumber: invoice.invoiceNumber,
+        amountDue: formatCurrency(invoice.balanceDue ?? invoice.grandTotal, invoice.currency || DEFAULT_BASE_CURRENCY),
+        dueDate: invoice.dueDate ? formatDate(invoice.dueDate) : undefined,
+        message: input.message?.trim() || undefined,
+        companyEmail: company.email || invoice.billFromEmail
+      },
+      { filename: InvoicePdfService.getFilename(invoice), content: pdf },
+      { cc: input.cc, replyTo: company.email || invoice.billFromEmail }
+    );
+
+    if (!result.success) {
+      return failure('EMAIL_FAILED', result.error || 'Failed to send invoice email');
+    }
+
+    invoice.status = status;
+    invoice.lastSentAt = new Date();
+    invoice.addHistory('sent', {
+      performedBy: sentBy,
+      recipient,
+      messageId: result.messageId,
+      note: input.cc?.length ? `CC: ${input.cc.join(', ')}` : undefined
+    });
+    invoice.updatedBy = sentBy;
+    await invoice.save();
+
+    return { success: true, invoice, messageId: result.messageId };
+  }
+}
@@ -0,0 +1,260 @@
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Invoice, { IInvoiceDocument, IInvoiceHistoryEntry, IInvoicePayment, InvoicePaymentMethod } from '@/lib/database/models/Invoice';
+import Income from '@/lib/database/models/Income';
+import IncomeCategory from '@/lib/database/models/IncomeCategory';
+import { WEBHOOK_EVENTS } from '@/lib/constants/webhook-events';
+import { WebhookService } from './WebhookService';
+
+/**
+ * Invoice Payment Service
+ * Records deposits and installments against an invoice and, optionally,
+ * a matching Income so the finance dashboard reflects cash actually received
+ */
+
+export interface RecordPaymentInput {
+  amount: number;
+  date?: string | Date;
+  method?: InvoicePaymentMethod;
+  reference?: string;
+  notes?: string;
+  createIncomeRecord?: boolean;
+}
+
+export interface InvoicePaymentResult {
+  success: boolean;
+  invoice?: IInvoiceDocument;
+  payment?: IInvoicePayment;
+  error?: { code: string; message: string };
+}
+
+const VALID_METHODS: InvoicePaymentMethod[] = ['cash', 'card', 'bank_transfer', 'mobile_money', 'cheque', 'other'];
+
+// Balance due worked out from the stored ledger, for use in update conditions
+const BALANCE_DUE = { $round: [{ $subtract: ['$grandTotal', { $sum: '$payments.amount' }] }, 2] };
+
+const failure = (code: string, message: string): InvoicePaymentResult => ({
+  success: false,
+  error: { code, message }
+});
+
+export class InvoicePaymentService {
+  /**
+   * Records a payment against the invoice's outstanding balance
+   */
+  static async recordPayment(
+    invoice: IInvoiceDocument,
+    input: RecordPaymentInput,
+    recordedBy?: string
+  ): Promise<InvoicePaymentResult> {
+    await connectDB();
+
+    if (invoice.status === 'Cancelled') {
+      return failure('INVALID_STATUS', 'Payments cannot be recorded against a cancelled invoice');
+    }
+
+    const amount = Math.round(Number(input.amount) * 100) / 100;
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return failure('VALIDATION_ERROR', 'Payment amount must be greater than 0');
+    }
+
+    const balanceDue = Math.round((invoice.grandTotal - invoice.calculateAmountPaid()) * 100) / 100;
+    if (invoice.status === 'Paid' || balanceDue <= 0) {
+      return failure('ALREADY_PAID', 'This invoice has no balance due');
+    }
+
+    if (amount > balanceDue) {
+      return failure('OVERPAYMENT', `Payment exceeds the balance due of ${balanceDue.toFixed(2)}`);
+    }
+
+    const date = input.date ? new Date(input.date) : new Date();
+    if (isNaN(date.getTime()) || date > new Date()) {
+      return failure('VALIDATION_ERROR', 'Payment date must be a valid date that is not in the future');
+    }
+
+    const method = input.method || 'bank_transfer';
+    if (!VALID_METHODS.includes(method)) {
+      return failure('VALIDATION_ERROR', `Payment method must be one of: ${VALID_METHODS.join(', ')}`);
+    }
+
+    const previousStatus = invoice.status;
+    const payment: IInvoicePayment = {
+      _id: new Types.ObjectId(),
+      amount,
+      date,
+      method,
+      recordedAt: new Date()
+    };
+    if (input.reference?.trim()) payment.reference = input.reference.trim();
+    if (input.notes?.trim()) payment.notes = input.notes.trim();
+    if (recordedBy) payment.recordedBy = recordedBy;
+
+    const historyEntry: IInvoiceHistoryEntry = {
+      _id: new Types.ObjectId(),
+      action: 'payment_recorded',
+      date: new Date(),
+      note: `${amount.toFixed(2)} received by ${method.replace('_', ' ')}`
+    };
+    if (recordedBy) historyEntry.performedBy = recordedBy;
+
+    // The balance is checked and the payment added in one update, so concurrent payments cannot overpay
+    const updated = await Invoice.findOneAndUpdate(
+      {
+        _id: invoice._id,
+        userId: invoice.userId,
+        status: { $nin: ['Cancelled', 'Paid'] },
+        $expr: { $gte: [BALANCE_DUE, amount] }
+      },
+      [
+        {
+          $set: {
+            payments: { $concatArrays: [{ $ifNull: ['$payments', []] }, [{ $literal: payment }]] },
+            history: { $concatArrays: [{ $ifNull: ['$history', []] }, [{ $literal: historyEntry }]] },
+            updatedBy: recordedBy ? { $literal: recordedBy } : '$updatedBy'
+          }
+        },
+        { $set: { amountPaid: { $round: [{ $sum: '$payments.amount' }, 2] } } },
+        { $set: { balanceDue: { $max: [0, { $round: [{ $subtract: ['$grandTotal', '$amountPaid'] }, 2] }] } } },
+        {
+          $set: {
+            status: { $cond: [{ $lte: ['$balanceDue', 0] }, 'Paid', 'Partially Paid'] },
+            completed: { $lte: ['$balanceDue', 0] }
+          }
+        }
+      ],
+      { new: true }
+    );
+
+    if (!updated) {
+      return failure('BALANCE_CHANGED', 'The invoice balance changed while the payment was being recorded. Refresh the invoice and try again');
+    }
+
+    // Income is only recorded once the payment is saved, so a failed payment leaves none behind
+    const saved = updated.payments.find(entry => entry._id?.toString() === payment._id!.toString())!;
+    if (input.createIncomeRecord !== false) {
+      saved.incomeId = await this.recordIncome(updated, saved);
+      if (saved.incomeId) {
+        await Invoice.updateOne(
+          { _id: updated._id, 'payments._id': saved._id },
+          { $set: { 'payments.$.incomeId': saved.incomeId } }
+        );
+      }
+    }
+
+    this.notifyIfPaid(updated, previousStatus);
+
+    return { success: true, invoice: updated, payment: saved };
+  }
+
+  /**
+   * Settles the outstanding balance by recording it as a payment
+   */
+  static async markAsPaid(invoice: IInvoiceDocument, recordedBy?: string): Promise<InvoicePaymentResult> {
+    await connectDB();
+
+    if (invoice.status === 'Paid') {
+      return { success: true, invoice };
+    }
+
+    const balanceDue = Math.round((invoice.grandTotal - invoice.calculateAmountPaid()) * 100) / 100;
+    if (balanceDue > 0) {
+      return this.recordPayment(invoice, {
+        amount: balanceDue,
+        method: 'other',
+        reference: 'Marked as paid'
+      }, recordedBy);
+    }
+
+    if (invoice.status === 'Cancelled') {
+      return failure('INVALID_STATUS', 'A cancelled invoice cannot be marked as paid');
+    }
+
+    // Nothing left to pay, e.g. invoices settled before the payments ledger existed
+    const previousStatus = invoice.status;
+    invoice.status = 'Paid';
+    invoice.completed = true;
+    invoice.updatedBy = recordedBy;
+    await invoice.save();
+    this.notifyIfPaid(invoice, previousStatus);
+
+    return { success: true, invoice };
+  }
+
+  /**
+   * Sends the invoice.paid webhook when a change settled the invoice
+   */
+  static notifyIfPaid(invoice: IInvoiceDocument, previousStatus: string): void {
+    if (invoice.status === 'Paid' && previousStatus !== 'Paid') {
+      WebhookService.dispatchInBackground(WEBHOOK_EVENTS.INVOICE_PAID, invoice.toJSON(), invoice.userId);
+    }
+  }
+
+  /**
+   * Removes a payment and the Income recorded for it, reopening the balance
+   */
+  static async removePayment(
+    invoice: IInvoiceDocument,
+    paymentId: string,
+    removedBy?: string
+  ): Promise<InvoicePaymentResult> {
+    await connectDB();
+
+    const payment = invoice.payments.find(entry => entry._id?.toString() === paymentId);
+    if (!payment) {
+      return failure('NOT_FOUND', 'Payment not found');
+    }
+
+    if (payment.incomeId) {
+      await Income.findOneAndDelete({ _id: payment.incomeId, userId: invoice.userId });
+    }
+
+    invoice.payments = invoice.payments.filter(entry => entry._id?.toString() !== paymentId);
+    invoice.addHistory('payment_removed', {
+      performedBy: removedBy,
+      note: `${payment.amount.toFixed(2)} payment removed`
+    });
+    invoice.updatedBy = removedBy;
+    await invoice.save();
+
+    return { success: true, invoice, payment };
+  }
+
+  /**
+   * Records one Income for a payment received
+   */
+  static async recordIncome(invoice: IInvoiceDocument, payment: IInvoicePayment): Promise<string | undefined> {
+    try {
+      // Find or create "Invoice Payments" category
+      let category = await IncomeCategory.findOne({
+        name: 'Invoice Payments',
+        userId: invoice.userId
+      });
+
+      if (!category) {
+        category = await new IncomeCategory({
+          name: 'Invoice Payments',
+          description: 'Payments received against invoices',
+          userId: invoice.userId,
+          isDefault: false
+        }).save();
+      }
+
+      const income = await new Income({
+        amount: payment.amount,
+        currency: invoice.currency,
+        description: `Payment for invoice ${invoice.invoiceNumber}${payment.reference ? ` (${payment.reference})` : ''}`,
+        date: payment.date,
+        categoryId: category._id?.toString(),
+        invoiceId: invoice._id.toString(),
+        isRecurring: false,
+        userId: invoice.userId
+      }).save();
+
+      return income._id?.toString();
+    } catch (incomeError) {
+      console.error('Failed to create income record:', incomeError);
+      // Don't fail the payment if income creation fails
+      return undefined;
+    }
+  }
+}
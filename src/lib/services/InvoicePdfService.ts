@@ -0,0 +1,219 @@
+import { jsPDF } from 'jspdf';
+import { IInvoice, IInvoicePayment } from '@/lib/database/models/Invoice';
+import { CompanySettings, loadCompanyLogo } from '@/lib/utils/company-settings';
+import { formatCurrency, formatDate } from '@/lib/utils/format';
+import { DEFAULT_BASE_CURRENCY } from '@/lib/constants/currencies';
+
+/**
+ * Invoice PDF Service
+ * Renders invoices to PDF on the server so they can be downloaded or
+ * attached to emails without going through the browser print flow
+ */
+
+const PAGE_MARGIN = 20;
+const PAGE_BOTTOM = 275;
+const LINE_HEIGHT = 6;
+
+// Item table column x positions (mm)
+const COLUMNS = {
+  item: PAGE_MARGIN,
+  units: 120,
+  unitPrice: 152,
+  total: 190
+};
+
+const money = (amount: number | undefined, currency?: string) =>
+  formatCurrency(Number(amount) || 0, currency || DEFAULT_BASE_CURRENCY);
+
+export class InvoicePdfService {
+  /**
+   * Builds the download filename for an invoice
+   */
+  static getFilename(invoice: Pick<IInvoice, 'invoiceNumber'>): string {
+    return `invoice-${invoice.invoiceNumber.replace(/[^A-Za-z0-9_-]/g, '_')}.pdf`;
+  }
+
+  /**
+   * Renders an invoice with the company header and logo
+   * @returns The PDF file contents
+   */
+  static async generate(invoice: IInvoice, company: CompanySettings): Promise<Buffer> {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const right = pageWidth - PAGE_MARGIN;
+
+    // Company header: logo on the left, contact details on the right
+    const logo = await loadCompanyLogo(company.logoUrl);
+    if (logo) {
+      try {
+        const { width, height } = doc.getImageProperties(logo.dataUrl);
+        const scale = Math.min(45 / width, 22 / height);
+        doc.addImage(logo.dataUrl, logo.format, PAGE_MARGIN, 15, width * scale, height * scale);
+      } catch (error) {
+        console.warn('Failed to embed company logo in invoice PDF:', error);
+      }
+    }
+
+    const companyLines = [
+      company.address,
+      company.phone,
+      company.email,
+      company.website,
+      company.taxNumber ? `Tax No: ${company.taxNumber}` : undefined
+    ].filter((line): line is string => Boolean(line));
+
+    doc.setFont('helvetica', 'bold').setFontSize(14);
+    doc.text(company.name || invoice.billFrom, right, 20, { align: 'right' });
+    doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(90);
+    companyLines.forEach((line, index) => {
+      doc.text(line, right, 26 + index * 5, { align: 'right' });
+    });
+
+    // Invoice title block
+    let y = Math.max(48, 30 + companyLines.length * 5);
+    doc.setTextColor(0).setFont('helvetica', 'bold').setFontSize(22);
+    doc.text('INVOICE', PAGE_MARGIN, y);
+
+    doc.setFontSize(10).setFont('helvetica', 'normal');
+    const meta: Array<[string, string]> = [
+      ['Invoice #', invoice.invoiceNumber],
+      ['Date', formatDate(invoice.orderDate)],
+      ...(invoice.dueDate ? [['Due Date', formatDate(invoice.dueDate)] as [string, string]] : []),
+      ['Status', invoice.status]
+    ];
+    meta.forEach(([label, value], index) => {
+      doc.setFont('helvetica', 'bold').text(`${label}:`, 140, y + index * 5);
+      doc.setFont('helvetica', 'normal').text(value, right, y + index * 5, { align: 'right' });
+    });
+
+    // Billing parties
+    y += Math.max(meta.length * 5, 8) + 6;
+    const billToBottom = this.drawParty(doc, 'Bill To', [invoice.billTo, invoice.billToEmail, invoice.billToAddress], 110, y, y);
+    y = this.drawParty(doc, 'Bill From', [invoice.billFrom, invoice.billFromEmail, invoice.billFromAddress], PAGE_MARGIN, y, billToBottom);
+
+    // Line items
+    y = this.drawItemHeader(doc, y + 8);
+    doc.setFont('helvetica', 'normal').setFontSize(10);
+    for (const item of invoice.orders) {
+      const nameLines: string[] = doc.splitTextToSize(
+        item.sku ? `${item.itemName} (${item.sku})` : item.itemName,
+        COLUMNS.units - COLUMNS.item - 6
+      );
+      if (y + nameLines.length * 5 > PAGE_BOTTOM) {
+        doc.addPage();
+        y = this.drawItemHeader(doc, PAGE_MARGIN);
+        doc.setFont('helvetica', 'normal').setFontSize(10);
+      }
+      doc.text(nameLines, COLUMNS.item, y);
+      doc.text(String(item.units), COLUMNS.units, y, { align: 'right' });
+      doc.text(money(item.unitPrice, invoice.currency), COLUMNS.unitPrice, y, { align: 'right' });
+      doc.text(money(item.unitTotalPrice, invoice.currency), COLUMNS.total, y, { align: 'right' });
+      y += nameLines.length * 5 + 2;
+    }
+
+    // Totals
+    const discountAmount = Math.max(0, invoice.totalCost + invoice.vat - invoice.grandTotal);
+    const amountPaid = invoice.amountPaid || 0;
+    const totals: Array<[string, string, boolean?]> = [
+      ['Subtotal', money(invoice.totalCost, invoice.currency)],
+      ...(discountAmount > 0.005 ? [['Discount', `-${money(discountAmount, invoice.currency)}`] as [string, string]] : []),
+      [`VAT (${invoice.vatRate || 0}%)`, money(invoice.vat, invoice.currency)],
+      ['Total', money(invoice.grandTotal, invoice.currency), true],
+      ...(amountPaid > 0
+        ? [['Amount Paid', money(amountPaid, invoice.currency)], ['Balance Due', money(invoice.balanceDue, invoice.currency), true]] as Array<[string, string, boolean]>
+        : [])
+    ];
+
+    y = this.ensureSpace(doc, y + 2, totals.length * LINE_HEIGHT + 4);
+    doc.setDrawColor(200).line(120, y, right, y);
+    y += LINE_HEIGHT;
+    totals.forEach(([label, value, emphasise]) => {
+      doc.setFont('helvetica', emphasise ? 'bold' : 'normal');
+      doc.text(label, 130, y);
+      doc.text(value, COLUMNS.total, y, { align: 'right' });
+      y += LINE_HEIGHT;
+    });
+
+    if (invoice.payments?.length) {
+      y = this.drawPayments(doc, invoice.payments, y + 4, invoice.currency);
+    }
+
+    // Notes and terms
+    for (const [heading, body] of [['Notes', invoice.notes], ['Terms', invoice.terms]]) {
+      if (!body) continue;
+      const lines: string[] = doc.splitTextToSize(body, right - PAGE_MARGIN);
+      y = this.ensureSpace(doc, y + 4, lines.length * 5 + LINE_HEIGHT);
+      doc.setFont('helvetica', 'bold').setFontSize(10).text(heading as string, PAGE_MARGIN, y);
+      doc.setFont('helvetica', 'normal').setFontSize(9).text(lines, PAGE_MARGIN, y + 5);
+      y += lines.length * 5 + LINE_HEIGHT;
+    }
+
+    return Buffer.from(doc.output('arraybuffer'));
+  }
+
+  /**
+   * Draws a labelled address block and returns the lowest y position used
+   */
+  private static drawParty(
+    doc: jsPDF,
+    heading: string,
+    lines: Array<string | undefined>,
+    x: number,
+    y: number,
+    minY: number
+  ): number {
+    doc.setFont('helvetica', 'bold').setFontSize(10).setTextColor(90).text(heading.toUpperCase(), x, y);
+    doc.setFont('helvetica', 'normal').setTextColor(0);
+
+    let cursor = y + 5;
+    lines.filter(Boolean).forEach(line => {
+      const wrapped: string[] = doc.splitTextToSize(line as string, 80);
+      doc.text(wrapped, x, cursor);
+      cursor += wrapped.length * 5;
+    });
+    return Math.max(cursor, minY);
+  }
+
+  /**
+   * Draws the line item column headings
+   */
+  private static drawItemHeader(doc: jsPDF, y: number): number {
+    const right = doc.internal.pageSize.getWidth() - PAGE_MARGIN;
+    doc.setFillColor(240, 243, 248).rect(PAGE_MARGIN - 2, y - 5, right - PAGE_MARGIN + 4, 8, 'F');
+    doc.setFont('helvetica', 'bold').setFontSize(10).setTextColor(0);
+    doc.text('Item', COLUMNS.item, y);
+    doc.text('Qty', COLUMNS.units, y, { align: 'right' });
+    doc.text('Unit Price', COLUMNS.unitPrice, y, { align: 'right' });
+    doc.text('Total', COLUMNS.total, y, { align: 'right' });
+    return y + 9;
+  }
+
+  /**
+   * Lists recorded payments beneath the totals
+   */
+  private static drawPayments(doc: jsPDF, payments: IInvoicePayment[], y: number, currency?: string): number {
+    y = this.ensureSpace(doc, y, LINE_HEIGHT * 2);
+    doc.setFont('helvetica', 'bold').setFontSize(10).text('Payments Received', PAGE_MARGIN, y);
+    doc.setFont('helvetica', 'normal').setFontSize(9);
+    y += LINE_HEIGHT;
+
+    const sorted = [...payments].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    for (const payment of sorted) {
+      y = this.ensureSpace(doc, y, LINE_HEIGHT);
+      const method = payment.method.replace('_', ' ');
+      doc.text(`${formatDate(payment.date)} - ${method}${payment.reference ? ` (${payment.reference})` : ''}`, PAGE_MARGIN, y);
+      doc.text(money(payment.amount, currency), COLUMNS.total, y, { align: 'right' });
+      y += 5;
+    }
+    return y;
+  }
+
+  /**
+   * Starts a new page when the next block would run past the bottom margin
+   */
+  private static ensureSpace(doc: jsPDF, y: number, height: number): number {
+    if (y + height <= PAGE_BOTTOM) return y;
+    doc.addPage();
+    return PAGE_MARGIN;
+  }
+}
@@ -0,0 +1,406 @@
+import { connectDB } from '@/lib/database/connection';
+import Product, { IProductDocument } from '@/lib/database/models/Product';
+import ProductVariant, { IProductVariantDocument } from '@/lib/database/models/ProductVariant';
+import ImportJob, { IImportJob } from '@/lib/database/models/ImportJob';
+import InventoryLog from '@/lib/database/models/InventoryLog';
+import { ImportRollbackService } from './ImportRollbackService';
+import {
+  MappedImportRow,
+  ProductImportMapping,
+  ProductImportTransforms,
+  getMissingRequiredFields,
+  mapImportRow
+} from '@/lib/utils/product-import-mapping';
+
+/**
+ * Product Bulk Import Service
+ * Imports mapped spreadsheet rows as products and variants; a dry run
+ * resolves every row the same way without saving so it can be previewed.
+ * Real imports are tracked as an ImportJob so they can be rolled back.
+ */
+
+export interface ProductBulkImportOptions {
+  updateExisting?: boolean;
+  dryRun?: boolean;
+}
+
+export type ProductImportRowAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface ProductImportRowPreview {
+  row: number;
+  action: ProductImportRowAction;
+  kind: 'product' | 'variant';
+  sku?: string;
+  title?: string;
+  values: Record<string, any>; // Mapped and transformed values
+  errors: string[];
+}
+
+export interface ProductBulkImportResult {
+  jobId?: string; // Real imports only
+  totalRows: number;
+  processed: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: Array<{ row: number; errors: string[] }>;
+  preview?: ProductImportRowPreview[]; // Dry runs only
+}
+
+// Rows returned in a dry-run preview; totals still cover the whole file
+export const MAX_PREVIEW_ROWS = 100;
+
+const PRODUCT_STATUSES = ['draft', 'pending', 'private', 'publish'];
+const STOCK_STATUSES = ['instock', 'outofstock', 'onbackorder'];
+
+// Defaults for fields the Product schema requires but spreadsheets rarely include
+const PRODUCT_DEFAULTS = {
+  type: 'simple',
+  status: 'publish',
+  featured: false,
+  virtual: false,
+  downloadable: false,
+  manageStock: true,
+  backordersAllowed: false,
+  lowStockThreshold: 5,
+  rating: 0,
+  reviewsAllowed: true,
+  related: false,
+  colors: [],
+  tags: [],
+  gallery: []
+};
+
+export class ProductBulkImportService {
+  /**
+   * Imports (or previews) rows using a column mapping and per-column value transforms
+   */
+  static async importRows(
+    rows: Record<string, any>[],
+    mapping: ProductImportMapping,
+    transforms: ProductImportTransforms,
+    userId: string,
+    options: ProductBulkImportOptions = {}
+  ): Promise<ProductBulkImportResult> {
+    await connectDB();
+
+    const result: ProductBulkImportResult = {
+      totalRows: rows.length,
+      processed: 0,
+      created: 0,
+      updated: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      preview: options.dryRun ? [] : undefined
+    };
+
+    const job = options.dryRun ? null : await ImportJob.create({
+      jobId: `import_products_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      status: 'processing',
+      type: 'products',
+      totalRows: rows.length,
+      userId,
+      mapping,
+      options: { updateExisting: !!options.updateExisting }
+    });
+    result.jobId = job?.jobId;
+
+    // SKUs of products created earlier in this file, so a dry run can resolve their variant rows
+    const plannedSkus = new Set<string>();
+
+    for (let i = 0; i < rows.length; i++) {
+      const rowNumber = i + 1;
+      const mapped = mapImportRow(rows[i], mapping, transforms);
+
+      let preview: ProductImportRowPreview;
+      try {
+        preview = mapped.parentSku
+          ? await this.importVariantRow(mapped, rowNumber, plannedSkus, userId, options, job)
+          : await this.importProductRow(mapped, rowNumber, plannedSkus, userId, options, job);
+      } catch (error) {
+        preview = {
+          row: rowNumber,
+          action: 'error',
+          kind: mapped.parentSku ? 'variant' : 'product',
+          values: mapped.parentSku ? mapped.variant! : mapped.product,
+          errors: [error instanceof Error ? error.message : 'Unknown error occurred']
+        };
+      }
+
+      result.processed++;
+      switch (preview.action) {
+        case 'create':
+          result.created++;
+          break;
+        case 'update':
+          result.updated++;
+          break;
+        case 'skip':
+          result.skipped++;
+          break;
+        case 'error':
+          result.failed++;
+          result.errors.push({ row: rowNumber, errors: preview.errors });
+          break;
+      }
+
+      if (result.preview && result.preview.length < MAX_PREVIEW_ROWS) {
+        result.preview.push(preview);
+      }
+    }
+
+    if (job) {
+      job.status = 'completed';
+      job.completedAt = new Date();
+      job.processedRows = result.processed;
+      job.successfulRows = result.created + result.updated;
+      job.failedRows = result.failed;
+      job.results = { created: result.created, updated: result.updated, skipped: result.skipped, failed: result.failed };
+      job.progress.percentage = 100;
+      for (const { row, errors } of result.errors) {
+        job.importErrors.push({ row, field: 'general', message: errors.join('; ') });
+      }
+      await job.save();
+    }
+
+    return result;
+  }
+
+  private static async importProductRow(
+    mapped: MappedImportRow,
+    row: number,
+    plannedSkus: Set<string>,
+    userId: string,
+    options: ProductBulkImportOptions,
+    job: IImportJob | null
+  ): Promise<ProductImportRowPreview> {
+    const values = this.toProductValues(mapped.product);
+    const sku = values.sku ? String(values.sku).toUpperCase() : undefined;
+    const preview: ProductImportRowPreview = {
+      row,
+      action: 'error',
+      kind: 'product',
+      sku,
+      title: values.title,
+      values,
+      errors: [...mapped.errors, ...this.validateProduct(mapped)]
+    };
+
+    if (preview.errors.length > 0) return preview;
+
+    const existing = sku ? await Product.findBySku(sku) : null;
+    if (sku) plannedSkus.add(sku);
+
+    if (existing && !options.updateExisting) {
+      return { ...preview, action: 'skip', errors: [`Product with SKU ${sku} already exists`] };
+    }
+
+    if (options.dryRun) {
+      return { ...preview, action: existing ? 'update' : 'create' };
+    }
+
+    if (existing) {
+      await this.updateProduct(existing, values, userId, job!);
+      return { ...preview, action: 'update' };
+    }
+
+    const product = new Product({
+      ...PRODUCT_DEFAULTS,
+      ...values,
+      salesPrice: values.salePrice || values.price,
+      stock: (values.qty || 0) > 0,
+      qty: values.qty || 0,
+      stockStatus: values.stockStatus || ((values.qty || 0) > 0 ? 'instock' : 'outofstock'),
+      createdBy: userId,
+      updatedBy: userId
+    });
+    await product.save();
+    job!.createdRecords.push({ model: 'Product', recordId: String(product._id) });
+
+    return { ...preview, action: 'create' };
+  }
+
+  private static async importVariantRow(
+    mapped: MappedImportRow,
+    row: number,
+    plannedSkus: Set<string>,
+    userId: string,
+    options: ProductBulkImportOptions,
+    job: IImportJob | null
+  ): Promise<ProductImportRowPreview> {
+    const values = mapped.variant!;
+    const sku = values.variantSku ? String(values.variantSku).toUpperCase() : undefined;
+    const preview: ProductImportRowPreview = {
+      row,
+      action: 'error',
+      kind: 'variant',
+      sku,
+      values: { parentSku: mapped.parentSku, ...values },
+      errors: [...mapped.errors, ...getMissingRequiredFields(mapped).map(label => `${label} is required`)]
+    };
+
+    if (preview.errors.length > 0) return preview;
+
+    const parent = await Product.findBySku(mapped.parentSku!);
+    if (!parent && !(options.dryRun && plannedSkus.has(mapped.parentSku!))) {
+      return { ...preview, errors: [`Parent product ${mapped.parentSku} not found`] };
+    }
+    preview.title = parent?.title;
+
+    const existing = await ProductVariant.findBySku(sku!);
+    if (existing && parent && existing.productId !== String(parent._id)) {
+      return { ...preview, errors: [`Variant SKU ${sku} belongs to another product`] };
+    }
+
+    if (existing && !options.updateExisting) {
+      return { ...preview, action: 'skip', errors: [`Variant with SKU ${sku} already exists`] };
+    }
+
+    if (options.dryRun) {
+      return { ...preview, action: existing ? 'update' : 'create' };
+    }
+
+    if (existing) {
+      // Stock is not part of the snapshot; the change is logged and reversed from the log
+      const previous = ImportRollbackService.snapshot(existing, ['attributes', 'pricing']);
+      const quantityBefore = existing.inventory.quantity;
+
+      this.applyVariantValues(existing, values);
+      await existing.save();
+
+      job!.updatedRecords.push({ model: 'ProductVariant', recordId: String(existing._id), previous });
+      await this.logStockChange(job!, userId, existing.sku, quantityBefore, existing.inventory.quantity, existing.productId, String(existing._id));
+      return { ...preview, action: 'update' };
+    }
+
+    const variant = new ProductVariant({
+      productId: String(parent!._id),
+      sku,
+      attributes: values.variantAttributes,
+      pricing: { price: values.variantPrice, currency: 'USD' },
+      inventory: {
+        quantity: 0,
+        reserved: 0,
+        available: 0,
+        lowStockThreshold: 5,
+        backordersAllowed: false
+      },
+      status: 'active',
+      isDefault: false
+    });
+    this.applyVariantValues(variant, values);
+    await variant.save();
+    job!.createdRecords.push({ model: 'ProductVariant', recordId: String(variant._id) });
+
+    return { ...preview, action: 'create' };
+  }
+
+  /**
+   * Copies only the mapped fields onto an existing product
+   */
+  private static async updateProduct(
+    product: IProductDocument,
+    values: Record<string, any>,
+    userId: string,
+    job: IImportJob
+  ): Promise<void> {
+    // Stock is not part of the snapshot; the change is logged and reversed from the log
+    const changedPaths = Object.keys(values).filter(path => path !== 'qty');
+    const previous = ImportRollbackService.snapshot(product, [...changedPaths, 'salesPrice', 'stock', 'stockStatus', 'updatedBy']);
+    const quantityBefore = product.qty;
+
+    product.set(values);
+
+    if (values.salePrice !== undefined || values.price !== undefined) {
+      product.salesPrice = product.salePrice || product.price;
+    }
+    if (values.qty !== undefined) {
+      product.stock = values.qty > 0;
+      if (!values.stockStatus) {
+        product.stockStatus = values.qty > 0 ? 'instock' : 'outofstock';
+      }
+    }
+
+    product.updatedBy = userId;
+    await product.save();
+
+    job.updatedRecords.push({ model: 'Product', recordId: String(product._id), previous });
+    await this.logStockChange(job, userId, product.sku, quantityBefore, product.qty, String(product._id));
+  }
+
+  private static async logStockChange(
+    job: IImportJob,
+    userId: string,
+    sku: string | undefined,
+    quantityBefore: number,
+    quantityAfter: number,
+    productId: string,
+    variantId?: string
+  ): Promise<void> {
+    if (quantityAfter === quantityBefore) return;
+
+    await InventoryLog.createLog({
+      productId,
+      variantId,
+      sku: sku || productId,
+      type: 'import',
+      quantityBefore,
+      quantityChange: quantityAfter - quantityBefore,
+      quantityAfter,
+      importJobId: job.jobId,
+      userId,
+      reason: 'Bulk upload',
+      source: 'import'
+    });
+  }
+
+  private static applyVariantValues(variant: IProductVariantDocument, values: Record<string, any>): void {
+    if (values.variantAttributes) variant.attributes = values.variantAttributes;
+    if (values.variantPrice !== undefined) variant.pricing.price = values.variantPrice;
+    if (values.variantCompareAtPrice !== undefined) variant.pricing.compareAtPrice = values.variantCompareAtPrice;
+    if (values.variantCostPrice !== undefined) variant.pricing.costPrice = values.variantCostPrice;
+    if (values.variantQuantity !== undefined) {
+      variant.inventory.quantity = Math.max(0, Math.round(values.variantQuantity));
+      variant.updateAvailableQuantity();
+    }
+  }
+
+  /**
+   * Normalizes transformed values to the shapes the Product schema expects
+   */
+  private static toProductValues(values: Record<string, any>): Record<string, any> {
+    const product = { ...values };
+
+    if (typeof product.status === 'string') product.status = product.status.toLowerCase();
+    if (typeof product.stockStatus === 'string') {
+      product.stockStatus = product.stockStatus.toLowerCase().replace(/[^a-z]/g, '');
+    }
+    if (product.qty !== undefined) product.qty = Math.max(0, Math.round(product.qty));
+
+    // Single-value fields mapped from a column with the list transform
+    for (const field of ['title', 'description', 'brand', 'photo', 'sku']) {
+      if (Array.isArray(product[field])) product[field] = product[field].join(', ');
+    }
+
+    return product;
+  }
+
+  private static validateProduct(mapped: MappedImportRow): string[] {
+    const errors = getMissingRequiredFields(mapped).map(label => `${label} is required`);
+    const { price, status, stockStatus } = this.toProductValues(mapped.product);
+
+    if (price !== undefined && price <= 0) {
+      errors.push('Price must be greater than 0');
+    }
+    if (status && !PRODUCT_STATUSES.includes(status)) {
+      errors.push(`Status must be one of: ${PRODUCT_STATUSES.join(', ')}`);
+    }
+    if (stockStatus && !STOCK_STATUSES.includes(stockStatus)) {
+      errors.push(`Stock status must be one of: ${STOCK_STATUSES.join(', ')}`);
+    }
+
+    return errors;
+  }
+}
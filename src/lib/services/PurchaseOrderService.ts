@@ -0,0 +1,422 @@
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import PurchaseOrder, {
+  getReceivingStatus,
+  IPurchaseOrderDocument,
+  IPurchaseOrderItem,
+  IPurchaseOrderReceipt,
+  PurchaseOrderStatus
+} from '@/lib/database/models/PurchaseOrder';
+import Product from '@/lib/database/models/Product';
+import ProductVariant from '@/lib/database/models/ProductVariant';
+import Vendor from '@/lib/database/models/Vendor';
+import Warehouse from '@/lib/database/models/Warehouse';
+import Expense from '@/lib/database/models/Expense';
+import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
+import { WarehouseService } from './WarehouseService';
+
+/**
+ * Purchase Order Service
+ * Raises purchase orders against vendors and receives the goods into stock,
+ * logging each receipt as a restock and recording its cost as a vendor expense
+ */
+
+export interface PurchaseOrderLineInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface PurchaseOrderInput {
+  vendorId: string;
+  items: PurchaseOrderLineInput[];
+  shippingCost?: number;
+  orderDate?: string | Date;
+  expectedDate?: string | Date | null;
+  warehouseId?: string | null;
+  notes?: string;
+  status?: PurchaseOrderStatus;
+}
+
+export interface ReceiveLineInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+}
+
+export interface ReceivePurchaseOrderInput {
+  items?: ReceiveLineInput[]; // Receives everything outstanding when omitted
+  batchNumber?: string;
+  warehouseId?: string | null;
+  receivedAt?: string | Date;
+  notes?: string;
+}
+
+export interface FailedReceiptLine extends ReceiveLineInput {
+  error: { code: string; message: string };
+}
+
+export interface PurchaseOrderResult {
+  success: boolean;
+  order?: IPurchaseOrderDocument;
+  failedItems?: FailedReceiptLine[]; // Lines of a receipt whose stock could not be added
+  error?: { code: string; message: string };
+}
+
+const failure = (code: string, message: string): PurchaseOrderResult => ({
+  success: false,
+  error: { code, message }
+});
+
+const lineKey = (productId: string, variantId?: string | null) => `${productId}:${variantId || ''}`;
+
+export class PurchaseOrderService {
+  /**
+   * Validates order lines and resolves product / variant names and SKUs
+   */
+  static async resolveItems(items: PurchaseOrderLineInput[]): Promise<{ items?: IPurchaseOrderItem[]; error?: PurchaseOrderResult }> {
+    if (!Array.isArray(items) || items.length === 0) {
+      return { error: failure('VALIDATION_ERROR', 'Purchase order must contain at least one item') };
+    }
+
+    const resolved: IPurchaseOrderItem[] = [];
+    const seen = new Set<string>();
+
+    for (const line of items) {
+      if (!line.productId || !Types.ObjectId.isValid(line.productId)) {
+        return { error: failure('VALIDATION_ERROR', 'Each item needs a valid product ID') };
+      }
+
+      if (line.variantId && !Types.ObjectId.isValid(line.variantId)) {
+        return { error: failure('VALIDATION_ERROR', 'Invalid product variant ID') };
+      }
+
+      if (typeof line.quantity !== 'number' || line.quantity <= 0 || !Number.isInteger(line.quantity)) {
+        return { error: failure('VALIDATION_ERROR', 'Quantity must be a positive integer') };
+      }
+
+      if (typeof line.unitCost !== 'number' || line.unitCost < 0) {
+        return { error: failure('VALIDATION_ERROR', 'Unit cost must be zero or a positive number') };
+      }
+
+      // Receipts are matched to lines by product and variant, so each may only appear once
+      const key = lineKey(line.productId, line.variantId);
+      if (seen.has(key)) {
+        return { error: failure('VALIDATION_ERROR', 'Each product or variant may only appear once per purchase order') };
+      }
+      seen.add(key);
+
+      const product = await Product.findById(line.productId);
+      if (!product) {
+        return { error: failure('VALIDATION_ERROR', `Product not found: ${line.productId}`) };
+      }
+
+      const variant = line.variantId
+        ? await ProductVariant.findOne({ _id: line.variantId, productId: line.productId })
+        : null;
+      if (line.variantId && !variant) {
+        return { error: failure('VALIDATION_ERROR', `Variant not found for ${product.title}`) };
+      }
+
+      const variantLabel = variant?.attributes.map(attribute => attribute.value).join(' / ');
+      resolved.push({
+        productId: line.productId,
+        variantId: line.variantId || undefined,
+        name: variantLabel ? `${product.title} - ${variantLabel}` : product.title,
+        sku: variant?.sku || product.sku,
+        quantityOrdered: line.quantity,
+        quantityReceived: 0,
+        unitCost: line.unitCost,
+        lineTotal: Math.round(line.quantity * line.unitCost * 100) / 100
+      });
+    }
+
+    return { items: resolved };
+  }
+
+  /**
+   * Checks that the vendor and optional destination warehouse belong to the user
+   */
+  private static async validateReferences(
+    userId: string,
+    vendorId?: string,
+    warehouseId?: string | null
+  ): Promise<PurchaseOrderResult | null> {
+    if (vendorId !== undefined) {
+      const vendor = Types.ObjectId.isValid(vendorId)
+        ? await Vendor.findOne({ _id: vendorId, userId })
+        : null;
+      if (!vendor) {
+        return failure('VALIDATION_ERROR', 'Vendor not found');
+      }
+    }
+
+    if (warehouseId) {
+      const warehouse = Types.ObjectId.isValid(warehouseId)
+        ? await Warehouse.findOne({ _id: warehouseId, userId, isActive: true })
+        : null;
+      if (!warehouse) {
+        return failure('VALIDATION_ERROR', 'Warehouse not found');
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Creates a draft (or already sent) purchase order
+   */
+  static async createOrder(userId: string, input: PurchaseOrderInput): Promise<PurchaseOrderResult> {
+    await connectDB();
+
+    const status = input.status || 'draft';
+    if (!['draft', 'sent'].includes(status)) {
+      return failure('VALIDATION_ERROR', 'New purchase orders must be draft or sent');
+    }
+
+    const referenceError = await this.validateReferences(userId, input.vendorId || '', input.warehouseId);
+    if (referenceError) return referenceError;
+
+    const { items, error } = await this.resolveItems(input.items);
+    if (error || !items) {
+      return error || failure('VALIDATION_ERROR', 'Invalid purchase order items');
+    }
+
+    const order = new PurchaseOrder({
+      vendorId: input.vendorId,
+      items,
+      shippingCost: input.shippingCost || 0,
+      orderDate: input.orderDate ? new Date(input.orderDate) : new Date(),
+      expectedDate: input.expectedDate ? new Date(input.expectedDate) : null,
+      warehouseId: input.warehouseId || null,
+      notes: input.notes?.trim() || null,
+      status,
+      userId
+    });
+    await order.save();
+
+    return { success: true, order };
+  }
+
+  /**
+   * Updates a draft purchase order; sent orders only accept notes and the expected date
+   */
+  static async updateOrder(order: IPurchaseOrderDocument, input: Partial<PurchaseOrderInput>): Promise<PurchaseOrderResult> {
+    await connectDB();
+
+    const changesLines = ['vendorId', 'items', 'shippingCost', 'orderDate', 'warehouseId']
+      .some(field => (input as any)[field] !== undefined);
+    if (changesLines && !order.isEditable()) {
+      return failure('NOT_EDITABLE', 'Only draft purchase orders can change vendor, items or costs');
+    }
+
+    if (['received', 'cancelled'].includes(order.status)) {
+      return failure('NOT_EDITABLE', `A ${order.status} purchase order cannot be changed`);
+    }
+
+    const referenceError = await this.validateReferences(order.userId, input.vendorId, input.warehouseId);
+    if (referenceError) return referenceError;
+
+    if (input.items !== undefined) {
+      const { items, error } = await this.resolveItems(input.items);
+      if (error || !items) {
+        return error || failure('VALIDATION_ERROR', 'Invalid purchase order items');
+      }
+      order.items = items;
+    }
+
+    if (input.vendorId !== undefined) order.vendorId = input.vendorId;
+    if (input.shippingCost !== undefined) order.shippingCost = input.shippingCost;
+    if (input.orderDate !== undefined) order.orderDate = new Date(input.orderDate);
+    if (input.warehouseId !== undefined) order.warehouseId = input.warehouseId || undefined;
+    if (input.expectedDate !== undefined) order.expectedDate = input.expectedDate ? new Date(input.expectedDate) : undefined;
+    if (input.notes !== undefined) order.notes = input.notes?.trim() || undefined;
+
+    await order.save();
+    return { success: true, order };
+  }
+
+  /**
+   * Sends or cancels a purchase order; receiving statuses are set by receiveOrder
+   */
+  static async updateStatus(order: IPurchaseOrderDocument, status: PurchaseOrderStatus): Promise<PurchaseOrderResult> {
+    await connectDB();
+
+    if (order.status === status) {
+      return { success: true, order };
+    }
+
+    if (!['sent', 'cancelled'].includes(status)) {
+      return failure('INVALID_TRANSITION', 'Receive stock against the purchase order to change its receiving status');
+    }
+
+    if (!order.canTransitionTo(status)) {
+      return failure('INVALID_TRANSITION', `Cannot move purchase order from ${order.status} to ${status}`);
+    }
+
+    order.status = status;
+    await order.save();
+    return { success: true, order };
+  }
+
+  /**
+   * Receives goods against a sent purchase order.
+   * Stock is added at the destination warehouse with a 'restock' log carrying the batch number,
+   * and the cost of the goods received is recorded as an Expense for the vendor.
+   */
+  static async receiveOrder(order: IPurchaseOrderDocument, input: ReceivePurchaseOrderInput = {}): Promise<PurchaseOrderResult> {
+    await connectDB();
+
+    if (!['sent', 'partially_received'].includes(order.status)) {
+      return failure('INVALID_TRANSITION', 'Only sent or partially received purchase orders can be received');
+    }
+
+    const receivedAt = input.receivedAt ? new Date(input.receivedAt) : new Date();
+    if (isNaN(receivedAt.getTime()) || receivedAt > new Date()) {
+      return failure('VALIDATION_ERROR', 'Received date must be a valid date that is not in the future');
+    }
+
+    const requested = input.items && input.items.length > 0
+      ? input.items
+      : order.items.map(item => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity: item.quantityOrdered - item.quantityReceived
+        })).filter(item => item.quantity > 0);
+
+    if (requested.length === 0) {
+      return failure('VALIDATION_ERROR', 'Nothing left to receive on this purchase order');
+    }
+
+    // Validate every line before touching stock; the same item may be listed on several lines
+    const validatedItems: IPurchaseOrderReceipt['items'] = [];
+    for (const line of requested) {
+      const item = order.items.find(entry => lineKey(entry.productId, entry.variantId) === lineKey(line.productId, line.variantId));
+      if (!item) {
+        return failure('VALIDATION_ERROR', `Item ${line.productId} is not on this purchase order`);
+      }
+
+      if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+        return failure('VALIDATION_ERROR', 'Received quantity must be a positive integer');
+      }
+
+      const validated = validatedItems.find(entry => lineKey(entry.productId, entry.variantId) === lineKey(item.productId, item.variantId));
+      const quantity = (validated?.quantity || 0) + line.quantity;
+      const outstanding = item.quantityOrdered - item.quantityReceived;
+      if (quantity > outstanding) {
+        return failure('OVER_RECEIPT', `Only ${outstanding} of ${item.name} remain to be received`);
+      }
+
+      if (validated) {
+        validated.quantity = quantity;
+      } else {
+        validatedItems.push({
+          productId: item.productId,
+          variantId: item.variantId,
+          quantity,
+          unitCost: item.unitCost
+        });
+      }
+    }
+
+    const warehouseId = input.warehouseId || order.warehouseId
+      || (await Warehouse.getDefaultWarehouse(order.userId))._id.toString();
+    const referenceError = await this.validateReferences(order.userId, undefined, warehouseId);
+    if (referenceError) return referenceError;
+
+    const batchNumber = input.batchNumber?.trim() || `${order.poNumber}-${order.receipts.length + 1}`;
+
+    // Only lines whose stock was added are received and paid for; the rest are returned to the caller
+    const receiptItems: IPurchaseOrderReceipt['items'] = [];
+    const failedItems: FailedReceiptLine[] = [];
+    for (const line of validatedItems) {
+      const stockResult = await WarehouseService.adjustStock(order.userId, {
+        warehouseId,
+        productId: line.productId,
+        variantId: line.variantId,
+        quantityChange: line.quantity,
+        type: 'restock',
+        source: 'manual',
+        reason: `Received on purchase order ${order.poNumber}`,
+        batchNumber
+      });
+
+      if (!stockResult.success) {
+        failedItems.push({
+          productId: line.productId,
+          variantId: line.variantId,
+          quantity: line.quantity,
+          error: stockResult.error || { code: 'STOCK_UPDATE_FAILED', message: 'Stock could not be added' }
+        });
+        continue;
+      }
+
+      const item = order.items.find(entry => lineKey(entry.productId, entry.variantId) === lineKey(line.productId, line.variantId));
+      item!.quantityReceived += line.quantity;
+      receiptItems.push(line);
+    }
+
+    if (receiptItems.length === 0) {
+      return { ...failure(failedItems[0].error.code, failedItems[0].error.message), failedItems };
+    }
+
+    // Shipping is charged with the first receipt
+    const goodsAmount = receiptItems.reduce((total, line) => total + line.quantity * line.unitCost, 0);
+    const amount = Math.round((goodsAmount + (order.receipts.length === 0 ? order.shippingCost : 0)) * 100) / 100;
+
+    const receipt: IPurchaseOrderReceipt = {
+      receivedAt,
+      batchNumber,
+      warehouseId,
+      items: receiptItems,
+      amount,
+      notes: input.notes?.trim()
+    };
+    receipt.expenseId = await this.recordExpense(order, receipt);
+
+    order.receipts.push(receipt);
+    order.status = getReceivingStatus(order.items);
+    await order.save();
+
+    return { success: true, order, failedItems };
+  }
+
+  /**
+   * Records the cost of a receipt as an Expense linked to the vendor and purchase order
+   */
+  static async recordExpense(order: IPurchaseOrderDocument, receipt: IPurchaseOrderReceipt): Promise<string | undefined> {
+    if (receipt.amount <= 0) return undefined;
+
+    try {
+      // Find or create "Inventory Purchases" category
+      let category = await ExpenseCategory.findByNameAndUser('Inventory Purchases', order.userId);
+
+      if (!category) {
+        category = await new ExpenseCategory({
+          name: 'Inventory Purchases',
+          description: 'Stock bought from vendors',
+          userId: order.userId,
+          isDefault: false
+        }).save();
+      }
+
+      const expense = await new Expense({
+        amount: receipt.amount,
+        description: `Purchase order ${order.poNumber} (batch ${receipt.batchNumber})`,
+        date: receipt.receivedAt,
+        categoryId: category._id?.toString(),
+        vendorId: order.vendorId,
+        purchaseOrderId: order._id.toString(),
+        isRecurring: false,
+        userId: order.userId
+      }).save();
+
+      return expense._id?.toString();
+    } catch (expenseError) {
+      console.error('Failed to create expense record:', expenseError);
+      // Don't fail the receipt if expense creation fails
+      return undefined;
+    }
+  }
+}
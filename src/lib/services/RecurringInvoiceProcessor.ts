@@ -0,0 +1,217 @@
+import { connectDB } from '@/lib/database/connection';
+import Invoice, { IInvoiceDocument } from '@/lib/database/models/Invoice';
+import RecurringInvoice, { IRecurringInvoiceDocument } from '@/lib/database/models/RecurringInvoice';
+import { InvoiceDeliveryService } from '@/lib/services/InvoiceDeliveryService';
+
+/**
+ * Recurring Invoice Processor
+ * Generates numbered invoices from recurring invoice schedules and,
+ * when the schedule asks for it, emails them to the client
+ */
+
+export interface RecurringInvoiceProcessingResult {
+  success: boolean;
+  processedCount: number;
+  generatedInvoices: Array<{
+    recurringInvoiceId: string;
+    invoiceId: string;
+    invoiceNumber: string;
+    grandTotal: number;
+    sent: boolean;
+  }>;
+  errors: Array<{
+    recurringInvoiceId: string;
+    error: string;
+  }>;
+  deactivatedCount: number;
+}
+
+// Limits how many missed periods a single run will back-fill per schedule
+const MAX_CATCH_UP_PERIODS = 12;
+
+// Retries when another invoice claims the same number between lookup and insert
+const MAX_NUMBERING_ATTEMPTS = 3;
+
+export class RecurringInvoiceProcessor {
+  /**
+   * Processes all due recurring invoices system-wide
+   */
+  static async processAllDueRecurringInvoices(): Promise<RecurringInvoiceProcessingResult> {
+    await connectDB();
+    const schedules = await RecurringInvoice.findDue();
+    return this.processSchedules(schedules);
+  }
+
+  /**
+   * Processes all due recurring invoices for a specific user
+   */
+  static async processUserRecurringInvoices(userId: string): Promise<RecurringInvoiceProcessingResult> {
+    await connectDB();
+    const schedules = await RecurringInvoice.findDue(userId);
+    return this.processSchedules(schedules);
+  }
+
+  /**
+   * Generates the next invoice for one schedule immediately, even if it is not yet due
+   */
+  static async generateNow(
+    schedule: IRecurringInvoiceDocument,
+    generatedBy?: string
+  ): Promise<{ invoice: IInvoiceDocument; sent: boolean } | null> {
+    await connectDB();
+
+    if (!schedule.isActive || schedule.isExpired()) {
+      return null;
+    }
+
+    return this.generateInvoice(schedule, generatedBy);
+  }
+
+  /**
+   * Core processing loop shared by the cron job and manual runs
+   */
+  private static async processSchedules(schedules: IRecurringInvoiceDocument[]): Promise<RecurringInvoiceProcessingResult> {
+    const generatedInvoices: RecurringInvoiceProcessingResult['generatedInvoices'] = [];
+    const errors: RecurringInvoiceProcessingResult['errors'] = [];
+    let deactivatedCount = 0;
+
+    for (const schedule of schedules) {
+      const recurringInvoiceId = String(schedule._id);
+
+      try {
+        for (let period = 0; period < MAX_CATCH_UP_PERIODS && schedule.isDue(); period++) {
+          const generated = await this.generateInvoice(schedule);
+          if (!generated) break;
+
+          generatedInvoices.push({
+            recurringInvoiceId,
+            invoiceId: String(generated.invoice._id),
+            invoiceNumber: generated.invoice.invoiceNumber,
+            grandTotal: generated.invoice.grandTotal,
+            sent: generated.sent
+          });
+        }
+
+        // Deactivate schedules whose last billing period has been issued
+        if (schedule.isExpired()) {
+          schedule.isActive = false;
+          await schedule.save();
+          deactivatedCount++;
+        }
+      } catch (error) {
+        console.error(`Failed to process recurring invoice ${recurringInvoiceId}:`, error);
+        errors.push({
+          recurringInvoiceId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      processedCount: generatedInvoices.length,
+      generatedInvoices,
+      errors,
+      deactivatedCount
+    };
+  }
+
+  /**
+   * Issues the invoice for the schedule's current billing period and advances the schedule
+   * The period is claimed atomically so overlapping runs cannot bill it twice
+   */
+  private static async generateInvoice(
+    schedule: IRecurringInvoiceDocument,
+    generatedBy?: string
+  ): Promise<{ invoice: IInvoiceDocument; sent: boolean } | null> {
+    const invoiceDate = schedule.nextInvoiceDate;
+    const nextInvoiceDate = schedule.calculateNextInvoiceDate(invoiceDate);
+
+    const claimed = await RecurringInvoice.findOneAndUpdate(
+      { _id: schedule._id, nextInvoiceDate: invoiceDate, isActive: true },
+      { $set: { nextInvoiceDate } },
+      { new: true }
+    );
+
+    if (!claimed) {
+      // Another run already issued this period
+      return null;
+    }
+
+    // Invoices issued ahead of schedule are dated today
+    const orderDate = invoiceDate > new Date() ? new Date() : invoiceDate;
+    const dueDate = new Date(orderDate);
+    dueDate.setDate(dueDate.getDate() + schedule.paymentTermsDays);
+
+    let invoice: IInvoiceDocument | null = null;
+    for (let attempt = 1; !invoice; attempt++) {
+      const draft = new Invoice({
+        invoiceNumber: await Invoice.getNextInvoiceNumber(),
+        billFrom: schedule.billFrom,
+        billFromEmail: schedule.billFromEmail,
+        billFromAddress: schedule.billFromAddress,
+        billTo: schedule.billTo,
+        billToEmail: schedule.billToEmail,
+        billToAddress: schedule.billToAddress,
+        customerId: schedule.customerId,
+        recurringInvoiceId: String(schedule._id),
+        orders: schedule.orders.map(item => ({
+          productId: item.productId,
+          itemName: item.itemName,
+          sku: item.sku,
+          description: item.description,
+          unitPrice: item.unitPrice,
+          units: item.units,
+          unitTotalPrice: item.unitTotalPrice
+        })),
+        orderDate,
+        dueDate,
+        vatRate: schedule.vatRate,
+        discount: schedule.discount,
+        discountType: schedule.discountType,
+        currency: schedule.currency,
+        notes: schedule.notes,
+        terms: schedule.terms,
+        status: 'Pending',
+        userId: schedule.userId,
+        createdBy: generatedBy || schedule.createdBy
+      });
+
+      // Totals are required before validation runs; pre-save keeps them in step afterwards
+      draft.totalCost = draft.calculateSubtotal();
+      draft.vat = draft.calculateVat();
+      draft.grandTotal = draft.calculateGrandTotal();
+
+      try {
+        invoice = await draft.save();
+      } catch (error: any) {
+        if (error?.code !== 11000 || attempt >= MAX_NUMBERING_ATTEMPTS) {
+          // Release the period so the next run can retry it
+          await RecurringInvoice.updateOne(
+            { _id: schedule._id, nextInvoiceDate },
+            { $set: { nextInvoiceDate: invoiceDate } }
+          );
+          throw error;
+        }
+      }
+    }
+
+    schedule.nextInvoiceDate = nextInvoiceDate;
+    schedule.lastGeneratedAt = new Date();
+    schedule.lastInvoiceId = String(invoice._id);
+    schedule.generatedCount = (schedule.generatedCount || 0) + 1;
+    await schedule.save();
+
+    let sent = false;
+    if (schedule.autoSend) {
+      const delivery = await InvoiceDeliveryService.sendInvoice(invoice, {}, generatedBy);
+      sent = delivery.success;
+      if (!delivery.success) {
+        // The invoice stays Pending so it can be sent manually
+        console.error(`Failed to send recurring invoice ${invoice.invoiceNumber}:`, delivery.error?.message);
+      }
+    }
+
+    return { invoice, sent };
+  }
+}
@@ -0,0 +1,341 @@
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import SalesOrder, {
+  ISalesOrderDocument,
+  ISalesOrderItem,
+  PaymentMethod,
+  SalesOrderStatus
+} from '@/lib/database/models/SalesOrder';
+import Sale from '@/lib/database/models/Sale';
+import Product from '@/lib/database/models/Product';
+import ProductVariant from '@/lib/database/models/ProductVariant';
+import Customer from '@/lib/database/models/Customer';
+import Income from '@/lib/database/models/Income';
+import IncomeCategory from '@/lib/database/models/IncomeCategory';
+import { InventoryService } from './InventoryService';
+import { WebhookService } from './WebhookService';
+import { CurrencyService } from './CurrencyService';
+import { WEBHOOK_EVENTS } from '@/lib/constants/webhook-events';
+import { SUPPORTED_CURRENCIES, CurrencyCode, isSupportedCurrency } from '@/lib/constants/currencies';
+
+/**
+ * Sales Order Service
+ * Creates multi-line orders and, once an order is completed, records each line as a Sale,
+ * drives inventory per line and keeps a single Income record per order for financial reporting
+ */
+
+export interface SalesOrderLineInput {
+  productId: string;
+  variantId?: string | null;
+  quantity: number;
+  unitPrice?: number;
+}
+
+export interface CreateSalesOrderInput {
+  customerId?: string | null;
+  items: SalesOrderLineInput[];
+  discount?: number;
+  discountType?: 'percentage' | 'fixed';
+  taxRate?: number;
+  currency?: string;
+  paymentMethod?: PaymentMethod;
+  status?: SalesOrderStatus;
+  date?: string | Date;
+  notes?: string;
+  createIncomeRecord?: boolean;
+}
+
+export interface SalesOrderResult {
+  success: boolean;
+  order?: ISalesOrderDocument;
+  error?: { code: string; message: string };
+}
+
+const failure = (code: string, message: string): SalesOrderResult => ({
+  success: false,
+  error: { code, message }
+});
+
+export class SalesOrderService {
+  /**
+   * Validates order lines and resolves product / variant names, SKUs and default prices
+   */
+  static async resolveItems(items: SalesOrderLineInput[]): Promise<{ items?: ISalesOrderItem[]; error?: SalesOrderResult }> {
+    if (!Array.isArray(items) || items.length === 0) {
+      return { error: failure('VALIDATION_ERROR', 'Order must contain at least one item') };
+    }
+
+    const resolved: ISalesOrderItem[] = [];
+
+    for (const line of items) {
+      if (!line.productId || !Types.ObjectId.isValid(line.productId)) {
+        return { error: failure('VALIDATION_ERROR', 'Each item needs a valid product ID') };
+      }
+
+      if (typeof line.quantity !== 'number' || line.quantity <= 0 || !Number.isInteger(line.quantity)) {
+        return { error: failure('VALIDATION_ERROR', 'Quantity must be a positive integer') };
+      }
+
+      if (line.variantId && !Types.ObjectId.isValid(line.variantId)) {
+        return { error: failure('VALIDATION_ERROR', 'Invalid product variant ID') };
+      }
+
+      const product = await Product.findById(line.productId);
+      if (!product) {
+        return { error: failure('VALIDATION_ERROR', `Product not found: ${line.productId}`) };
+      }
+
+      const variant = line.variantId
+        ? await ProductVariant.findOne({ _id: line.variantId, productId: line.productId })
+        : null;
+      if (line.variantId && !variant) {
+        return { error: failure('VALIDATION_ERROR', `Variant not found for ${product.title}`) };
+      }
+
+      const unitPrice = line.unitPrice ?? (variant ? variant.pricing.price : product.price);
+      if (typeof unitPrice !== 'number' || unitPrice <= 0) {
+        return { error: failure('VALIDATION_ERROR', 'Unit price must be a positive number') };
+      }
+
+      const variantLabel = variant?.attributes.map(attribute => attribute.value).join(' / ');
+      resolved.push({
+        productId: line.productId,
+        variantId: line.variantId || undefined,
+        name: variantLabel ? `${product.title} - ${variantLabel}` : product.title,
+        sku: variant?.sku || product.sku,
+        quantity: line.quantity,
+        unitPrice,
+        lineTotal: Math.round(line.quantity * unitPrice * 100) / 100
+      });
+    }
+
+    const stockError = await this.validateStock(resolved);
+    if (stockError) {
+      return { error: stockError };
+    }
+
+    return { items: resolved };
+  }
+
+  /**
+   * Checks there is enough stock for the lines that have not been taken out of stock yet.
+   * The same product may appear on several lines, so stock is checked on the combined quantity.
+   */
+  static async validateStock(items: ISalesOrderItem[]): Promise<SalesOrderResult | null> {
+    const requested = new Map<string, { item: ISalesOrderItem; quantity: number }>();
+
+    for (const item of items) {
+      if (item.saleId) continue;
+
+      const key = `${item.productId}:${item.variantId || ''}`;
+      const entry = requested.get(key);
+      requested.set(key, { item, quantity: (entry?.quantity || 0) + item.quantity });
+    }
+
+    for (const { item, quantity } of Array.from(requested.values())) {
+      const validation = await InventoryService.validateInventoryForSale(item.productId, quantity, item.variantId || undefined);
+      if (!validation.isValid) {
+        return failure('INSUFFICIENT_INVENTORY', validation.message);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Creates an order. Completed orders record a Sale per line, update inventory and book income;
+   * pending orders do so when they are completed.
+   */
+  static async createOrder(userId: string, input: CreateSalesOrderInput): Promise<SalesOrderResult> {
+    await connectDB();
+
+    const status = input.status || 'completed';
+    if (!['pending', 'completed'].includes(status)) {
+      return failure('VALIDATION_ERROR', 'New orders must be pending or completed');
+    }
+
+    const date = input.date ? new Date(input.date) : new Date();
+    if (isNaN(date.getTime()) || date > new Date()) {
+      return failure('VALIDATION_ERROR', 'Order date must be a valid date that is not in the future');
+    }
+
+    if (input.currency && !isSupportedCurrency(input.currency)) {
+      return failure('VALIDATION_ERROR', `Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`);
+    }
+
+    if (input.customerId) {
+      const customer = Types.ObjectId.isValid(input.customerId)
+        ? await Customer.findOne({ _id: input.customerId, userId, isDeleted: false })
+        : null;
+      if (!customer) {
+        return failure('VALIDATION_ERROR', 'Customer not found');
+      }
+    }
+
+    const { items, error } = await this.resolveItems(input.items);
+    if (error || !items) {
+      return error || failure('VALIDATION_ERROR', 'Invalid order items');
+    }
+
+    const order = new SalesOrder({
+      customerId: input.customerId || null,
+      items,
+      discount: input.discount || 0,
+      discountType: input.discountType || 'percentage',
+      taxRate: input.taxRate || 0,
+      currency: input.currency
+        ? input.currency.toUpperCase() as CurrencyCode
+        : await CurrencyService.getBaseCurrency(userId),
+      paymentMethod: input.paymentMethod || 'cash',
+      status,
+      date,
+      notes: input.notes?.trim() || null,
+      userId
+    });
+    await order.save();
+
+    if (status === 'completed') {
+      await this.fulfilOrder(order, input.createIncomeRecord !== false);
+      await order.save();
+    }
+
+    return { success: true, order };
+  }
+
+  /**
+   * Records a Sale for each line that does not have one yet, takes it out of stock
+   * and books the order's income
+   */
+  static async fulfilOrder(order: ISalesOrderDocument, createIncomeRecord: boolean = true): Promise<void> {
+    for (const item of order.items) {
+      if (item.saleId) continue;
+
+      const sale = await new Sale({
+        productId: item.productId,
+        variantId: item.variantId || null,
+        customerId: order.customerId || null,
+        orderId: order._id.toString(),
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalAmount: item.lineTotal,
+        currency: order.currency,
+        date: order.date,
+        notes: `Order ${order.orderNumber}`,
+        userId: order.userId
+      }).save();
+      item.saleId = sale._id.toString();
+      WebhookService.dispatchInBackground(WEBHOOK_EVENTS.SALE_CREATED, sale.toJSON(), order.userId);
+
+      const inventoryResult = await InventoryService.updateInventoryForSale(item.productId, item.quantity, item.variantId);
+      if (!inventoryResult.success) {
+        console.error(`Inventory update failed for order ${order.orderNumber}:`, inventoryResult.message);
+      }
+    }
+
+    if (createIncomeRecord) {
+      await this.recordIncome(order);
+    }
+  }
+
+  /**
+   * Moves an order through its status workflow.
+   * Completing takes the order out of stock and records income; cancelling or refunding returns stock
+   * and removes the order's sales and income.
+   */
+  static async updateStatus(
+    order: ISalesOrderDocument,
+    status: SalesOrderStatus,
+    createIncomeRecord: boolean = true
+  ): Promise<SalesOrderResult> {
+    await connectDB();
+
+    if (order.status === status) {
+      return { success: true, order };
+    }
+
+    if (!order.canTransitionTo(status)) {
+      return failure('INVALID_TRANSITION', `Cannot move order from ${order.status} to ${status}`);
+    }
+
+    if (status === 'completed') {
+      const stockError = await this.validateStock(order.items);
+      if (stockError) {
+        return stockError;
+      }
+
+      await this.fulfilOrder(order, createIncomeRecord);
+    }
+
+    if (status === 'cancelled' || status === 'refunded') {
+      await this.reverseOrder(order);
+    }
+
+    order.status = status;
+    await order.save();
+    return { success: true, order };
+  }
+
+  /**
+   * Returns stock for every line and removes the Sale and Income records created for the order
+   */
+  static async reverseOrder(order: ISalesOrderDocument): Promise<void> {
+    for (const item of order.items) {
+      if (!item.saleId) continue;
+
+      const inventoryResult = await InventoryService.restoreInventoryFromSale(item.productId, item.quantity, item.variantId);
+      if (!inventoryResult.success) {
+        console.error(`Inventory restore failed for order ${order.orderNumber}:`, inventoryResult.message);
+      }
+
+      await Sale.findByIdAndDelete(item.saleId);
+      item.saleId = undefined;
+    }
+
+    if (order.incomeId) {
+      await Income.findByIdAndDelete(order.incomeId);
+      order.incomeId = undefined;
+    }
+  }
+
+  /**
+   * Records one Income for the order's net revenue (after discount, excluding tax collected)
+   */
+  static async recordIncome(order: ISalesOrderDocument): Promise<void> {
+    const amount = order.getNetRevenue();
+    if (order.incomeId || amount <= 0) return;
+
+    try {
+      // Find or create "Product Sales" category
+      let productSalesCategory = await IncomeCategory.findOne({
+        name: 'Product Sales',
+        userId: order.userId
+      });
+
+      if (!productSalesCategory) {
+        productSalesCategory = await new IncomeCategory({
+          name: 'Product Sales',
+          description: 'Revenue from product sales',
+          userId: order.userId,
+          isDefault: false
+        }).save();
+      }
+
+      const itemCount = order.items.reduce((total, item) => total + item.quantity, 0);
+      const income = await new Income({
+        amount,
+        currency: order.currency || await CurrencyService.getBaseCurrency(order.userId),
+        description: `Order ${order.orderNumber} (${itemCount} items)`,
+        date: order.date,
+        categoryId: productSalesCategory._id?.toString(),
+        salesOrderId: order._id.toString(),
+        isRecurring: false,
+        userId: order.userId
+      }).save();
+
+      order.incomeId = income._id?.toString();
+    } catch (incomeError) {
+      console.error('Failed to create income record:', incomeError);
+      // Don't fail the order if income creation fails
+    }
+  }
+}
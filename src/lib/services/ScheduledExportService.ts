@@ -0,0 +1,186 @@
+import fs from 'fs/promises';
+import { connectDB } from '@/lib/database/connection';
+import { IExportJobDocument } from '@/lib/database/models/ExportJob';
+import ScheduledExport, { IScheduledExportDocument, addExportPeriod } from '@/lib/database/models/ScheduledExport';
+import { exportService, ExportFilters } from '@/lib/services/exportService';
+import { EmailSender } from '@/lib/email/sender';
+import { formatDate, formatDateTime } from '@/lib/utils/format';
+
+/**
+ * Scheduled Export Service
+ * Runs saved export definitions on their schedule and emails the result
+ * to the recipients as an attachment or a signed download link
+ */
+
+export interface ScheduledExportRunResult {
+  job: IExportJobDocument;
+  delivered: boolean;
+  error?: string;
+}
+
+export interface ScheduledExportProcessingResult {
+  success: boolean;
+  processedCount: number;
+  deliveredCount: number;
+  errors: Array<{
+    scheduleId: string;
+    error: string;
+  }>;
+}
+
+// Larger files are sent as a signed link even when the schedule asks for an attachment
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export class ScheduledExportService {
+  /**
+   * Runs every due schedule system-wide
+   */
+  static async processDueExports(): Promise<ScheduledExportProcessingResult> {
+    await connectDB();
+    const schedules = await ScheduledExport.findDue();
+
+    const errors: ScheduledExportProcessingResult['errors'] = [];
+    let processedCount = 0;
+    let deliveredCount = 0;
+
+    for (const schedule of schedules) {
+      const scheduleId = String(schedule._id);
+
+      try {
+        const runAt = schedule.nextRunAt;
+        const nextRunAt = this.getNextRunAfter(schedule, new Date());
+
+        // Claim the run atomically so overlapping cron runs cannot deliver it twice
+        const claimed = await ScheduledExport.findOneAndUpdate(
+          { _id: schedule._id, nextRunAt: runAt, isActive: true },
+          { $set: { nextRunAt } },
+          { new: true }
+        );
+        if (!claimed) continue;
+
+        const result = await this.runSchedule(claimed);
+        processedCount++;
+
+        if (result.delivered) {
+          deliveredCount++;
+        } else if (result.error) {
+          errors.push({ scheduleId, error: result.error });
+        }
+      } catch (error) {
+        console.error(`Failed to run scheduled export ${scheduleId}:`, error);
+        errors.push({
+          scheduleId,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      processedCount,
+      deliveredCount,
+      errors
+    };
+  }
+
+  /**
+   * Runs one schedule immediately without moving its next run
+   */
+  static async runNow(schedule: IScheduledExportDocument): Promise<ScheduledExportRunResult> {
+    await connectDB();
+    return this.runSchedule(schedule);
+  }
+
+  /**
+   * Generates the export, delivers it and records the outcome on the schedule
+   */
+  private static async runSchedule(schedule: IScheduledExportDocument): Promise<ScheduledExportRunResult> {
+    const now = new Date();
+    const filters: ExportFilters = {
+      category: schedule.filters?.category || undefined,
+      status: schedule.filters?.status || undefined,
+      search: schedule.filters?.search || undefined,
+      sku: schedule.filters?.sku || undefined,
+      vendorId: schedule.filters?.vendorId || undefined
+    };
+
+    if (schedule.rollingDateRange) {
+      filters.dateRange = {
+        start: addExportPeriod(now, schedule.frequency, -1).toISOString(),
+        end: now.toISOString()
+      };
+    }
+
+    const job = await exportService.runExportJob(schedule.type, schedule.format, filters, {
+      userId: schedule.userId,
+      scheduleId: String(schedule._id),
+      retentionDays: schedule.retentionDays
+    });
+
+    let error: string | undefined = job.status === 'completed' ? undefined : job.error || 'Export failed';
+    if (!error) {
+      error = await this.deliver(schedule, job);
+    }
+
+    schedule.lastRunAt = now;
+    schedule.lastJobId = job.jobId;
+    schedule.lastError = error;
+    schedule.runCount += 1;
+    await schedule.save();
+
+    return { job, delivered: !error, error };
+  }
+
+  /**
+   * Emails the export to the schedule's recipients
+   * @returns The delivery error, if any
+   */
+  private static async deliver(schedule: IScheduledExportDocument, job: IExportJobDocument): Promise<string | undefined> {
+    const useLink = schedule.deliveryMethod === 'link' || job.fileSize > MAX_ATTACHMENT_BYTES;
+    let error: string | undefined;
+
+    try {
+      const attachment = !useLink && job.filePath
+        ? { filename: job.fileName, content: await fs.readFile(job.filePath) }
+        : undefined;
+
+      const result = await EmailSender.sendExport(
+        schedule.recipients,
+        {
+          exportName: schedule.name,
+          fileName: job.fileName,
+          recordCount: job.totalRecords,
+          generatedAt: formatDateTime(job.completedAt || new Date()),
+          downloadUrl: useLink ? exportService.createSignedDownloadUrl(job) : undefined,
+          expiresAt: useLink && job.expiresAt ? formatDate(job.expiresAt) : undefined
+        },
+        attachment
+      );
+
+      error = result.success ? undefined : result.error || 'Failed to send export email';
+    } catch (deliveryError) {
+      error = deliveryError instanceof Error ? deliveryError.message : 'Failed to deliver export';
+    }
+
+    job.delivery = {
+      method: useLink ? 'link' : 'email',
+      recipients: schedule.recipients,
+      sentAt: error ? undefined : new Date(),
+      error
+    };
+    await job.save();
+
+    return error;
+  }
+
+  /**
+   * First scheduled run after the given date; missed runs are skipped rather than back-filled
+   */
+  private static getNextRunAfter(schedule: IScheduledExportDocument, date: Date): Date {
+    let next = schedule.calculateNextRun();
+    while (next <= date) {
+      next = schedule.calculateNextRun(next);
+    }
+    return next;
+  }
+}
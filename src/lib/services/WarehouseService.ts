@@ -0,0 +1,507 @@
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Warehouse, { IWarehouseDocument } from '@/lib/database/models/Warehouse';
+import StockLevel, { IStockLevelDocument } from '@/lib/database/models/StockLevel';
+import InventoryLog, { IInventoryLog, IInventoryLogDocument } from '@/lib/database/models/InventoryLog';
+import Product, { IProductDocument } from '@/lib/database/models/Product';
+import ProductVariant, { IProductVariantDocument } from '@/lib/database/models/ProductVariant';
+
+/**
+ * Warehouse Service
+ * Keeps per-location stock levels in step with the global product / variant quantity,
+ * applies location adjustments and moves stock between locations.
+ *
+ * Stock movements that do not name a location (sales, imports, manual product edits)
+ * only change the global quantity; the default warehouse absorbs that difference the
+ * next time the item's locations are read or changed. Stock that the default warehouse
+ * cannot cover is reported as missing until the locations are counted.
+ */
+
+export interface StockItemRef {
+  productId: string;
+  variantId?: string | null;
+}
+
+export interface LocationAdjustmentInput extends StockItemRef {
+  warehouseId: string;
+  quantityChange: number;
+  type?: IInventoryLog['type'];
+  source?: IInventoryLog['source'];
+  reason?: string;
+  batchNumber?: string;
+}
+
+export interface StockTransferInput extends StockItemRef {
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  quantity: number;
+  reason?: string;
+}
+
+export interface StockCountInput extends StockItemRef {
+  counts: Array<{ warehouseId: string; quantity: number }>;
+  reason?: string;
+}
+
+export interface LocationStock {
+  warehouseId: string;
+  warehouseName: string;
+  warehouseCode: string;
+  isDefault: boolean;
+  quantity: number;
+  lowStockThreshold: number;
+  isLowStock: boolean;
+}
+
+export interface WarehouseResult<T> {
+  success: boolean;
+  data?: T;
+  error?: { code: string; message: string };
+}
+
+interface StockItem {
+  product: IProductDocument;
+  variant: IProductVariantDocument | null;
+  sku: string;
+  quantity: number;
+  lowStockThreshold: number;
+}
+
+const failure = <T>(code: string, message: string): WarehouseResult<T> => ({
+  success: false,
+  error: { code, message }
+});
+
+export class WarehouseService {
+  /**
+   * Loads the product (and variant) behind a stock item with its global quantity
+   */
+  private static async loadItem({ productId, variantId }: StockItemRef): Promise<StockItem | null> {
+    if (!Types.ObjectId.isValid(productId) || (variantId && !Types.ObjectId.isValid(variantId))) {
+      return null;
+    }
+
+    const product = await Product.findById(productId);
+    if (!product) return null;
+
+    if (variantId) {
+      const variant = await ProductVariant.findOne({ _id: variantId, productId });
+      if (!variant) return null;
+
+      return {
+        product,
+        variant,
+        sku: variant.sku,
+        quantity: variant.inventory.quantity,
+        lowStockThreshold: variant.inventory.lowStockThreshold
+      };
+    }
+
+    return {
+      product,
+      variant: null,
+      sku: product.sku || product._id.toString(),
+      quantity: product.qty,
+      lowStockThreshold: product.lowStockThreshold ?? 5
+    };
+  }
+
+  /**
+   * Writes a new global quantity back to the product or variant
+   */
+  private static async setGlobalQuantity(item: StockItem, quantity: number): Promise<void> {
+    if (item.variant) {
+      item.variant.inventory.quantity = quantity;
+      await item.variant.save();
+    } else {
+      item.product.qty = quantity;
+      await item.product.save();
+    }
+    item.quantity = quantity;
+  }
+
+  /**
+   * Makes the item's stock levels add up to its global quantity by adjusting the default warehouse.
+   * When the global quantity is below what other locations hold, the levels are left as they are,
+   * since there is no telling which location the stock left from, and the shortfall is returned.
+   */
+  private static async reconcile(userId: string, item: StockItem): Promise<{
+    levels: IStockLevelDocument[];
+    missingQuantity: number;
+  }> {
+    const productId = item.product._id.toString();
+    const variantId = item.variant ? item.variant._id.toString() : null;
+    const levels = await StockLevel.findByProduct(productId, userId, variantId);
+
+    const allocated = levels.reduce((total, level) => total + level.quantity, 0);
+    const difference = item.quantity - allocated;
+    if (difference === 0) return { levels, missingQuantity: 0 };
+
+    const defaultWarehouse = await Warehouse.getDefaultWarehouse(userId);
+    const defaultId = defaultWarehouse._id.toString();
+
+    let defaultLevel = levels.find(level => level.warehouseId === defaultId);
+    if (!defaultLevel) {
+      defaultLevel = new StockLevel({ productId, variantId, warehouseId: defaultId, sku: item.sku, quantity: 0, userId });
+      levels.push(defaultLevel);
+    }
+
+    const target = defaultLevel.quantity + difference;
+    if (target < 0) {
+      return { levels, missingQuantity: -difference };
+    }
+
+    defaultLevel.quantity = target;
+    await defaultLevel.save();
+
+    return { levels, missingQuantity: 0 };
+  }
+
+  /**
+   * Finds or creates the stock level for an item at a warehouse
+   */
+  private static async getLevel(userId: string, item: StockItem, warehouseId: string, levels: IStockLevelDocument[]) {
+    const existing = levels.find(level => level.warehouseId === warehouseId);
+    if (existing) return existing;
+
+    return new StockLevel({
+      productId: item.product._id.toString(),
+      variantId: item.variant ? item.variant._id.toString() : null,
+      warehouseId,
+      sku: item.sku,
+      quantity: 0,
+      userId
+    });
+  }
+
+  /**
+   * Finds an active warehouse owned by the user
+   */
+  private static async getActiveWarehouse(userId: string, warehouseId: string): Promise<IWarehouseDocument | null> {
+    if (!Types.ObjectId.isValid(warehouseId)) return null;
+    return Warehouse.findOne({ _id: warehouseId, userId, isActive: true });
+  }
+
+  /**
+   * Gets an item's stock broken down by warehouse.
+   * missingQuantity is the stock the locations hold beyond the global quantity, e.g. sales
+   * that were not taken from a location; it is cleared by counting the locations.
+   */
+  static async getStockByLocation(userId: string, ref: StockItemRef): Promise<WarehouseResult<{
+    sku: string;
+    totalQuantity: number;
+    missingQuantity: number;
+    lowStockThreshold: number;
+    locations: LocationStock[];
+  }>> {
+    await connectDB();
+
+    const item = await this.loadItem(ref);
+    if (!item) {
+      return failure('NOT_FOUND', 'Product or variant not found');
+    }
+
+    const { levels, missingQuantity } = await this.reconcile(userId, item);
+    const warehouses = await Warehouse.find({
+      _id: { $in: levels.map(level => level.warehouseId) },
+      userId
+    });
+
+    const locations = levels
+      .map(level => {
+        const warehouse = warehouses.find(entry => entry._id.toString() === level.warehouseId);
+        const lowStockThreshold = level.lowStockThreshold ?? item.lowStockThreshold;
+        return {
+          warehouseId: level.warehouseId,
+          warehouseName: warehouse?.name || 'Unknown location',
+          warehouseCode: warehouse?.code || '',
+          isDefault: !!warehouse?.isDefault,
+          quantity: level.quantity,
+          lowStockThreshold,
+          isLowStock: level.quantity <= lowStockThreshold
+        };
+      })
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.warehouseName.localeCompare(b.warehouseName));
+
+    return {
+      success: true,
+      data: {
+        sku: item.sku,
+        totalQuantity: item.quantity,
+        missingQuantity,
+        lowStockThreshold: item.lowStockThreshold,
+        locations
+      }
+    };
+  }
+
+  /**
+   * Changes stock at one warehouse, updates the global quantity and logs the movement against the location
+   */
+  static async adjustStock(userId: string, input: LocationAdjustmentInput): Promise<WarehouseResult<{
+    stockLevel: IStockLevelDocument;
+    log: IInventoryLogDocument;
+  }>> {
+    await connectDB();
+
+    if (!Number.isInteger(input.quantityChange) || input.quantityChange === 0) {
+      return failure('VALIDATION_ERROR', 'Quantity change must be a non-zero integer');
+    }
+
+    const warehouse = await this.getActiveWarehouse(userId, input.warehouseId);
+    if (!warehouse) {
+      return failure('NOT_FOUND', 'Warehouse not found');
+    }
+
+    const item = await this.loadItem(input);
+    if (!item) {
+      return failure('NOT_FOUND', 'Product or variant not found');
+    }
+
+    const { levels } = await this.reconcile(userId, item);
+    const level = await this.getLevel(userId, item, warehouse._id.toString(), levels);
+
+    const quantityBefore = level.quantity;
+    const quantityAfter = quantityBefore + input.quantityChange;
+    if (quantityAfter < 0) {
+      return failure(
+        'INSUFFICIENT_STOCK',
+        `Insufficient stock for ${item.sku} at ${warehouse.name}. Available: ${quantityBefore}, Requested: ${-input.quantityChange}`
+      );
+    }
+
+    // Locations can hold more than the global quantity until they are counted
+    if (item.quantity + input.quantityChange < 0) {
+      return failure(
+        'INSUFFICIENT_STOCK',
+        `Insufficient stock for ${item.sku}. Available: ${item.quantity}, Requested: ${-input.quantityChange}`
+      );
+    }
+
+    level.quantity = quantityAfter;
+    await level.save();
+    await this.setGlobalQuantity(item, item.quantity + input.quantityChange);
+
+    const log = await InventoryLog.createLog({
+      productId: item.product._id.toString(),
+      variantId: item.variant ? item.variant._id.toString() : undefined,
+      sku: item.sku,
+      type: input.type || 'adjustment',
+      quantityBefore,
+      quantityChange: input.quantityChange,
+      quantityAfter,
+      userId,
+      reason: input.reason,
+      source: input.source || 'manual',
+      location: warehouse.code,
+      batchNumber: input.batchNumber,
+      metadata: { warehouseId: warehouse._id.toString() }
+    });
+
+    return { success: true, data: { stockLevel: level, log } };
+  }
+
+  /**
+   * Moves stock between two warehouses.
+   * The global quantity is unchanged; each side gets a 'transfer' log sharing one transferId.
+   */
+  static async transferStock(userId: string, input: StockTransferInput): Promise<WarehouseResult<{
+    transferId: string;
+    logs: IInventoryLogDocument[];
+  }>> {
+    await connectDB();
+
+    if (!Number.isInteger(input.quantity) || input.quantity <= 0) {
+      return failure('VALIDATION_ERROR', 'Transfer quantity must be a positive integer');
+    }
+
+    if (input.fromWarehouseId === input.toWarehouseId) {
+      return failure('VALIDATION_ERROR', 'Source and destination warehouses must be different');
+    }
+
+    const [from, to] = await Promise.all([
+      this.getActiveWarehouse(userId, input.fromWarehouseId),
+      this.getActiveWarehouse(userId, input.toWarehouseId)
+    ]);
+    if (!from || !to) {
+      return failure('NOT_FOUND', `${from ? 'Destination' : 'Source'} warehouse not found`);
+    }
+
+    const item = await this.loadItem(input);
+    if (!item) {
+      return failure('NOT_FOUND', 'Product or variant not found');
+    }
+
+    const { levels } = await this.reconcile(userId, item);
+    const source = await this.getLevel(userId, item, from._id.toString(), levels);
+    const destination = await this.getLevel(userId, item, to._id.toString(), levels);
+
+    if (source.quantity < input.quantity) {
+      return failure(
+        'INSUFFICIENT_STOCK',
+        `Insufficient stock for ${item.sku} at ${from.name}. Available: ${source.quantity}, Requested: ${input.quantity}`
+      );
+    }
+
+    const transferId = new Types.ObjectId().toString();
+    const sourceBefore = source.quantity;
+    const destinationBefore = destination.quantity;
+
+    source.quantity -= input.quantity;
+    destination.quantity += input.quantity;
+    await source.save();
+    await destination.save();
+
+    const baseLog = {
+      productId: item.product._id.toString(),
+      variantId: item.variant ? item.variant._id.toString() : undefined,
+      sku: item.sku,
+      type: 'transfer' as const,
+      transferId,
+      userId,
+      reason: input.reason,
+      source: 'manual' as const
+    };
+
+    const logs = await Promise.all([
+      InventoryLog.createLog({
+        ...baseLog,
+        quantityBefore: sourceBefore,
+        quantityChange: -input.quantity,
+        quantityAfter: source.quantity,
+        location: from.code,
+        metadata: { warehouseId: from._id.toString(), counterpartLocation: to.code, direction: 'out' }
+      }),
+      InventoryLog.createLog({
+        ...baseLog,
+        quantityBefore: destinationBefore,
+        quantityChange: input.quantity,
+        quantityAfter: destination.quantity,
+        location: to.code,
+        metadata: { warehouseId: to._id.toString(), counterpartLocation: from.code, direction: 'in' }
+      })
+    ]);
+
+    return { success: true, data: { transferId, logs } };
+  }
+
+  /**
+   * Records a stock count at one or more warehouses and logs each change as an adjustment.
+   * Counting the default warehouse makes the global quantity the sum of all locations; otherwise
+   * the global quantity is kept and the default warehouse takes up the difference.
+   */
+  static async countStock(userId: string, input: StockCountInput): Promise<WarehouseResult<{
+    levels: IStockLevelDocument[];
+    logs: IInventoryLogDocument[];
+    missingQuantity: number;
+  }>> {
+    await connectDB();
+
+    if (!Array.isArray(input.counts) || input.counts.length === 0) {
+      return failure('VALIDATION_ERROR', 'At least one warehouse count is required');
+    }
+
+    const warehouseIds = input.counts.map(count => count.warehouseId);
+    if (new Set(warehouseIds).size !== warehouseIds.length) {
+      return failure('VALIDATION_ERROR', 'Each warehouse can only be counted once');
+    }
+
+    if (input.counts.some(count => !Number.isInteger(count.quantity) || count.quantity < 0)) {
+      return failure('VALIDATION_ERROR', 'Counted quantities must be non-negative integers');
+    }
+
+    const warehouses = await Promise.all(warehouseIds.map(warehouseId => this.getActiveWarehouse(userId, warehouseId)));
+    if (warehouses.some(warehouse => !warehouse)) {
+      return failure('NOT_FOUND', 'Warehouse not found');
+    }
+
+    const item = await this.loadItem(input);
+    if (!item) {
+      return failure('NOT_FOUND', 'Product or variant not found');
+    }
+
+    const productId = item.product._id.toString();
+    const variantId = item.variant ? item.variant._id.toString() : null;
+    const levels = await StockLevel.findByProduct(productId, userId, variantId);
+    const counted = input.counts.map((count, index) => ({ quantity: count.quantity, warehouse: warehouses[index]! }));
+    const logs: IInventoryLogDocument[] = [];
+
+    for (const { quantity, warehouse } of counted) {
+      const level = await this.getLevel(userId, item, warehouse._id.toString(), levels);
+      if (!levels.includes(level)) levels.push(level);
+
+      const quantityBefore = level.quantity;
+      level.quantity = quantity;
+      await level.save();
+
+      if (quantity === quantityBefore) continue;
+
+      logs.push(await InventoryLog.createLog({
+        productId,
+        variantId: variantId || undefined,
+        sku: item.sku,
+        type: 'adjustment',
+        quantityBefore,
+        quantityChange: quantity - quantityBefore,
+        quantityAfter: quantity,
+        userId,
+        reason: input.reason || 'Stock count',
+        source: 'manual',
+        location: warehouse.code,
+        metadata: { warehouseId: warehouse._id.toString() }
+      }));
+    }
+
+    if (counted.some(({ warehouse }) => warehouse.isDefault)) {
+      const total = levels.reduce((sum, level) => sum + level.quantity, 0);
+      if (total !== item.quantity) {
+        await this.setGlobalQuantity(item, total);
+      }
+    }
+
+    const reconciled = await this.reconcile(userId, item);
+
+    return {
+      success: true,
+      data: { levels: reconciled.levels, logs, missingQuantity: reconciled.missingQuantity }
+    };
+  }
+
+  /**
+   * Lists transfers, pairing the outgoing and incoming log entries of each one
+   */
+  static async getTransfers(userId: string, filters: { warehouseCode?: string; limit?: number } = {}) {
+    await connectDB();
+
+    const query: any = { userId, type: 'transfer' };
+    if (filters.warehouseCode) {
+      query.location = filters.warehouseCode.toUpperCase();
+    }
+
+    const entries = await InventoryLog.find(query)
+      .sort({ createdAt: -1 })
+      .limit((filters.limit || 50) * 2)
+      .lean();
+
+    const transferIds = Array.from(new Set(entries.map(entry => entry.transferId).filter(Boolean))) as string[];
+    const pairs = await InventoryLog.find({ transferId: { $in: transferIds } }).lean();
+
+    return transferIds.slice(0, filters.limit || 50).map(transferId => {
+      const logs = pairs.filter(entry => entry.transferId === transferId);
+      const outgoing = logs.find(entry => entry.quantityChange < 0);
+      const incoming = logs.find(entry => entry.quantityChange > 0);
+
+      return {
+        transferId,
+        productId: outgoing?.productId || incoming?.productId,
+        variantId: outgoing?.variantId || incoming?.variantId,
+        sku: outgoing?.sku || incoming?.sku,
+        quantity: incoming?.quantityChange || 0,
+        from: outgoing?.location,
+        to: incoming?.location,
+        reason: outgoing?.reason,
+        createdAt: outgoing?.createdAt || incoming?.createdAt
+      };
+    });
+  }
+}
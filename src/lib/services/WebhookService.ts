@@ -0,0 +1,394 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import WebhookEndpoint, { IWebhookEndpointDocument } from '@/lib/database/models/WebhookEndpoint';
+import WebhookDelivery, { IWebhookDeliveryDocument } from '@/lib/database/models/WebhookDelivery';
+import { WEBHOOK_EVENTS, WebhookEvent, isWebhookEvent } from '@/lib/constants/webhook-events';
+import { retryWithBackoff } from '@/lib/utils/webhook-retry';
+import { PermissionService } from './permission.service';
+
+/**
+ * Webhook Service
+ * Sends signed event payloads to the endpoints users subscribe, retrying
+ * failures with backoff and keeping a delivery log that can be redelivered from.
+ *
+ * Receivers verify the X-Boami-Signature header, "t=<unix seconds>,v1=<hex>",
+ * where v1 is the HMAC-SHA256 of "<t>.<raw body>" keyed with the endpoint secret.
+ *
+ * Endpoints must resolve to public addresses, checked when they are saved and again
+ * before every request, and redirects are not followed.
+ */
+
+export interface WebhookEndpointInput {
+  url?: string;
+  description?: string;
+  events?: string[];
+  isActive?: boolean;
+  rotateSecret?: boolean;
+}
+
+export interface WebhookEndpointResult {
+  success: boolean;
+  endpoint?: IWebhookEndpointDocument;
+  secret?: string; // Only returned when the secret is generated
+  error?: { code: string; message: string };
+}
+
+export interface WebhookDeliveryResult {
+  success: boolean;
+  delivery?: IWebhookDeliveryDocument;
+  error?: { code: string; message: string };
+}
+
+const failure = (code: string, message: string) => ({
+  success: false as const,
+  error: { code, message }
+});
+
+// Events about the shared product catalogue go to every subscriber who can see products
+const STORE_EVENTS: WebhookEvent[] = [
+  WEBHOOK_EVENTS.PRODUCT_CREATED,
+  WEBHOOK_EVENTS.PRODUCT_UPDATED,
+  WEBHOOK_EVENTS.PRODUCT_DELETED,
+  WEBHOOK_EVENTS.STOCK_ALERT_RAISED
+];
+
+// Loopback, private, link-local (including cloud metadata), shared and reserved ranges;
+// IPv4-mapped IPv6 addresses are matched by the IPv4 rules
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+const MAX_ENDPOINTS = 10;
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BODY = 1000;
+const RETRY_OPTIONS = {
+  maxRetries: 3,
+  initialDelay: 2000,
+  maxDelay: 30000,
+  backoffFactor: 3
+};
+
+export class WebhookService {
+  /**
+   * Computes the signature header for a payload
+   * @param secret - Endpoint signing secret
+   * @param body - Raw JSON body
+   * @param timestamp - Unix seconds
+   */
+  static sign(secret: string, body: string, timestamp: number): string {
+    const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    return `t=${timestamp},v1=${digest}`;
+  }
+
+  static async listEndpoints(userId: string): Promise<IWebhookEndpointDocument[]> {
+    await connectDB();
+    return WebhookEndpoint.find({ userId }).sort({ createdAt: -1 });
+  }
+
+  static async createEndpoint(userId: string, input: WebhookEndpointInput): Promise<WebhookEndpointResult> {
+    await connectDB();
+
+    const invalid = this.validateInput(input, true) || await this.checkDestination(input.url!.trim());
+    if (invalid) {
+      return failure('VALIDATION_ERROR', invalid);
+    }
+
+    if (await WebhookEndpoint.countDocuments({ userId }) >= MAX_ENDPOINTS) {
+      return failure('LIMIT_REACHED', `You can have at most ${MAX_ENDPOINTS} webhook endpoints`);
+    }
+
+    const endpoint = new WebhookEndpoint({
+      userId,
+      url: input.url!.trim(),
+      description: input.description?.trim() || undefined,
+      events: Array.from(new Set(input.events)),
+      isActive: input.isActive !== false
+    });
+    const secret = endpoint.generateSecret();
+    await endpoint.save();
+
+    return { success: true, endpoint, secret };
+  }
+
+  static async updateEndpoint(userId: string, endpointId: string, input: WebhookEndpointInput): Promise<WebhookEndpointResult> {
+    const endpoint = await this.findOwnedEndpoint(userId, endpointId);
+    if (!endpoint) {
+      return failure('NOT_FOUND', 'Webhook endpoint not found');
+    }
+
+    const invalid = this.validateInput(input, false)
+      || (input.url !== undefined ? await this.checkDestination(input.url.trim()) : null);
+    if (invalid) {
+      return failure('VALIDATION_ERROR', invalid);
+    }
+
+    if (input.url !== undefined) endpoint.url = input.url.trim();
+    if (input.description !== undefined) endpoint.description = input.description.trim() || undefined;
+    if (input.events !== undefined) endpoint.events = Array.from(new Set(input.events)) as WebhookEvent[];
+    if (input.isActive !== undefined) endpoint.isActive = Boolean(input.isActive);
+
+    const secret = input.rotateSecret ? endpoint.generateSecret() : undefined;
+    await endpoint.save();
+
+    return { success: true, endpoint, secret };
+  }
+
+  /**
+   * Deletes an endpoint and its delivery log
+   */
+  static async deleteEndpoint(userId: string, endpointId: string): Promise<WebhookEndpointResult> {
+    const endpoint = await this.findOwnedEndpoint(userId, endpointId);
+    if (!endpoint) {
+      return failure('NOT_FOUND', 'Webhook endpoint not found');
+    }
+
+    await Promise.all([
+      endpoint.deleteOne(),
+      WebhookDelivery.deleteMany({ endpointId: endpoint._id })
+    ]);
+
+    return { success: true, endpoint };
+  }
+
+  static async listDeliveries(userId: string, endpointId: string, limit: number = 50): Promise<IWebhookDeliveryDocument[] | null> {
+    const endpoint = await this.findOwnedEndpoint(userId, endpointId);
+    if (!endpoint) {
+      return null;
+    }
+
+    return WebhookDelivery.findForEndpoint(String(endpoint._id), Math.min(Math.max(limit, 1), 100));
+  }
+
+  /**
+   * Sends an earlier delivery's payload again, with the same event id
+   * Waits for the outcome so the caller can show it
+   */
+  static async redeliver(userId: string, deliveryId: string): Promise<WebhookDeliveryResult> {
+    await connectDB();
+
+    if (!Types.ObjectId.isValid(deliveryId)) {
+      return failure('INVALID_ID', 'Invalid delivery ID');
+    }
+
+    const original = await WebhookDelivery.findOne({ _id: deliveryId, userId });
+    if (!original) {
+      return failure('NOT_FOUND', 'Delivery not found');
+    }
+
+    const endpoint = await WebhookEndpoint.findOne({ _id: original.endpointId, userId }).select('+secret');
+    if (!endpoint) {
+      return failure('NOT_FOUND', 'Webhook endpoint not found');
+    }
+
+    const delivery = await WebhookDelivery.create({
+      userId,
+      endpointId: endpoint._id,
+      event: original.event,
+      eventId: original.eventId,
+      payload: original.payload,
+      redeliveryOf: original._id
+    });
+
+    return { success: true, delivery: await this.deliver(endpoint, delivery) };
+  }
+
+  /**
+   * Sends an event to every subscribed endpoint
+   * @param event - Event type
+   * @param data - Event object, serialised as the payload's data
+   * @param userId - Owner of the record the event is about; omitted for store-wide events
+   */
+  static async dispatch(event: WebhookEvent, data: Record<string, any>, userId?: string): Promise<void> {
+    await connectDB();
+
+    let endpoints = await WebhookEndpoint.findSubscribed(event, STORE_EVENTS.includes(event) ? undefined : userId);
+
+    if (STORE_EVENTS.includes(event)) {
+      const allowed = await Promise.all(
+        endpoints.map(endpoint => PermissionService.checkPermission(endpoint.userId, 'products', 'read'))
+      );
+      endpoints = endpoints.filter((_, index) => allowed[index]);
+    }
+
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const payload = {
+      id: `evt_${crypto.randomBytes(12).toString('hex')}`,
+      type: event,
+      createdAt: new Date().toISOString(),
+      data: JSON.parse(JSON.stringify(data))
+    };
+
+    await Promise.all(endpoints.map(async endpoint => {
+      const delivery = await WebhookDelivery.create({
+        userId: endpoint.userId,
+        endpointId: endpoint._id,
+        event,
+        eventId: payload.id,
+        payload
+      });
+      await this.deliver(endpoint, delivery);
+    }));
+  }
+
+  /**
+   * Dispatches in the background so the action that raised the event never waits on or fails because of webhooks
+   */
+  static dispatchInBackground(event: WebhookEvent, data: Record<string, any>, userId?: string): void {
+    this.dispatch(event, data, userId).catch(error => {
+      console.error(`Webhook dispatch for ${event} failed:`, error);
+    });
+  }
+
+  /**
+   * POSTs a delivery's payload, retrying network errors, 429s and 5xx responses,
+   * and records the outcome on the delivery and the endpoint
+   * Only successful responses keep their body in the log
+   */
+  private static async deliver(
+    endpoint: IWebhookEndpointDocument,
+    delivery: IWebhookDeliveryDocument
+  ): Promise<IWebhookDeliveryDocument> {
+    const body = JSON.stringify(delivery.payload);
+    const started = Date.now();
+    let attempts = 0;
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+
+    const result = await retryWithBackoff(async () => {
+      attempts++;
+
+      // Checked on every attempt, as the host may have been pointed somewhere else since it was saved
+      const unsafe = await this.checkDestination(endpoint.url);
+      if (unsafe) {
+        const error: any = new Error(unsafe);
+        error.status = 0;
+        throw error;
+      }
+
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+      try {
+        const response = await fetch(endpoint.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'Boami-Webhooks/1.0',
+            'X-Boami-Event': delivery.event,
+            'X-Boami-Delivery': String(delivery._id),
+            'X-Boami-Signature': this.sign(endpoint.secret, body, Math.floor(Date.now() / 1000))
+          },
+          body,
+          redirect: 'manual',
+          signal: controller.signal
+        });
+
+        responseStatus = response.status;
+        responseBody = response.ok ? (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY) : null;
+
+        if (!response.ok) {
+          const error: any = new Error(`Endpoint responded with ${response.status}`);
+          error.status = response.status;
+          throw error;
+        }
+      } finally {
+        clearTimeout(timeout);
+      }
+    }, {
+      ...RETRY_OPTIONS,
+      // Anything else from the receiver (bad URL, rejected signature...) will not fix itself
+      retryCondition: (error: any) => error.status === undefined || error.status === 429 || error.status >= 500
+    });
+
+    delivery.status = result.success ? 'succeeded' : 'failed';
+    delivery.attempts = attempts;
+    delivery.responseStatus = responseStatus;
+    delivery.responseBody = responseBody;
+    delivery.error = result.success ? null : result.error?.name === 'AbortError' ? 'Request timed out' : result.error?.message || null;
+    delivery.durationMs = Date.now() - started;
+    delivery.completedAt = new Date();
+    await delivery.save();
+
+    await WebhookEndpoint.updateOne(
+      { _id: endpoint._id },
+      { lastDeliveryAt: delivery.completedAt, lastDeliveryStatus: delivery.status }
+    );
+
+    return delivery;
+  }
+
+  /**
+   * Checks a create or update request
+   * @returns Error message, or null if valid
+   */
+  private static validateInput(input: WebhookEndpointInput, isNew: boolean): string | null {
+    if (isNew || input.url !== undefined) {
+      let url: URL;
+      try {
+        url = new URL(String(input.url || '').trim());
+      } catch {
+        return 'Endpoint URL must be a valid URL';
+      }
+
+      const allowHttp = process.env.NODE_ENV !== 'production';
+      if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+        return 'Endpoint URL must use https';
+      }
+    }
+
+    if (isNew || input.events !== undefined) {
+      if (!Array.isArray(input.events) || input.events.length === 0) {
+        return 'Subscribe to at least one event';
+      }
+
+      const unknown = input.events.filter(event => !isWebhookEvent(event));
+      if (unknown.length > 0) {
+        return `Unknown event: ${unknown.join(', ')}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolves an endpoint's host and refuses it unless every address is public
+   * @returns Error message, or null if the destination is allowed
+   */
+  private static async checkDestination(url: string): Promise<string | null> {
+    const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+
+    let addresses: dns.LookupAddress[];
+    try {
+      addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+    } catch {
+      return 'Endpoint host could not be resolved';
+    }
+
+    const blocked = addresses.some(({ address, family }) =>
+      BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+    );
+
+    return addresses.length === 0 || blocked ? 'Endpoint URL must point to a public address' : null;
+  }
+
+  private static async findOwnedEndpoint(userId: string, endpointId: string): Promise<IWebhookEndpointDocument | null> {
+    if (!Types.ObjectId.isValid(endpointId)) {
+      return null;
+    }
+
+    await connectDB();
+
+    return WebhookEndpoint.findOne({ _id: endpointId, userId });
+  }
+}
@@ -0,0 +1,514 @@
+import mongoose from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import SalesOrder, {
+  ISalesOrderDocument,
+  ISalesOrderItem,
+  PaymentMethod,
+  SalesOrderStatus
+} from '@/lib/database/models/SalesOrder';
+import Sale from '@/lib/database/models/Sale';
+import Product from '@/lib/database/models/Product';
+import ProductVariant from '@/lib/database/models/ProductVariant';
+import Customer from '@/lib/database/models/Customer';
+import InventoryLog from '@/lib/database/models/InventoryLog';
+import WordPressConnection, { IWordPressConnectionDocument } from '@/lib/database/models/WordPressConnection';
+import WordPressImportJob, { IWordPressImportJob, IWordPressImportJobDocument } from '@/lib/database/models/WordPressImportJob';
+import { InventoryService } from './InventoryService';
+import { SalesOrderService } from './SalesOrderService';
+import { WebhookService } from './WebhookService';
+import { WordPressAPI, parseWooCommerceDate } from '@/lib/utils/wordpress-api';
+import { isSupportedCurrency } from '@/lib/constants/currencies';
+import { WEBHOOK_EVENTS } from '@/lib/constants/webhook-events';
+
+/**
+ * WooCommerce Order Import Service
+ * Imports store orders as sales orders with one Sale per line, takes the sold
+ * items out of stock and tracks each run as a WordPressImportJob
+ */
+
+export interface OrderImportOptions {
+  statuses?: string[]; // WooCommerce order statuses; defaults to the connection's settings
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+export interface OrderImportStartResult {
+  success: boolean;
+  job?: IWordPressImportJobDocument;
+  error?: { code: string; message: string };
+}
+
+// Statuses that mean the customer has paid; other imported orders stay pending
+const PAID_STATUSES = ['processing', 'completed'];
+
+// Statuses that never become sales, even if requested
+const EXCLUDED_STATUSES = ['cancelled', 'refunded', 'failed', 'trash', 'checkout-draft'];
+
+const PAYMENT_METHODS: Record<string, PaymentMethod> = {
+  bacs: 'bank_transfer',
+  cod: 'cash',
+  stripe: 'card',
+  woocommerce_payments: 'card',
+  square_credit_card: 'card'
+};
+
+const ORDER_PAGE_SIZE = 50;
+
+const failure = (code: string, message: string): OrderImportStartResult => ({
+  success: false,
+  error: { code, message }
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export class WooCommerceOrderImportService {
+  /**
+   * Starts an order import for a connection; the import runs in the background
+   */
+  static async startImport(
+    connectionId: string,
+    userId: string,
+    options: OrderImportOptions = {}
+  ): Promise<OrderImportStartResult> {
+    await connectDB();
+
+    if (!mongoose.Types.ObjectId.isValid(connectionId)) {
+      return failure('NOT_FOUND', 'WordPress connection not found');
+    }
+
+    const connection = await WordPressConnection.findById(connectionId).select('+consumerKey +consumerSecret');
+    if (!connection) {
+      return failure('NOT_FOUND', 'WordPress connection not found');
+    }
+
+    if (!connection.isActive) {
+      return failure('CONNECTION_INACTIVE', 'WordPress connection is inactive');
+    }
+
+    const job = await this.createJob(connection, userId, options, 'manual');
+
+    this.runImport(job, connection, userId, options).catch(error => {
+      console.error('WooCommerce order import error:', error);
+      job.markFailed(error instanceof Error ? error.message : String(error)).catch(console.error);
+    });
+
+    return { success: true, job };
+  }
+
+  /**
+   * Imports new orders for every connection with order import enabled and due
+   */
+  static async importAllConnections(): Promise<{
+    connections: number;
+    imported: number;
+    skipped: number;
+    failed: number;
+  }> {
+    await connectDB();
+    const connections = await WordPressConnection.findReadyForOrderImport();
+
+    const totals = { connections: connections.length, imported: 0, skipped: 0, failed: 0 };
+
+    for (const connection of connections) {
+      const userId = connection.orderSync.userId!;
+      const options: OrderImportOptions = { dateFrom: connection.orderSync.lastOrderDate };
+
+      try {
+        const job = await this.createJob(connection, userId, options, 'schedule');
+        await this.runImport(job, connection, userId, options);
+
+        totals.imported += job.progress.imported;
+        totals.skipped += job.progress.skipped;
+        totals.failed += job.progress.failed;
+      } catch (error) {
+        console.error(`Failed to import orders for WordPress connection ${connection._id}:`, error);
+        totals.failed++;
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Imports a single order delivered by a WooCommerce webhook
+   * Orders are only imported when order import is enabled and the status is one the connection imports
+   */
+  static async importWebhookOrder(
+    connection: IWordPressConnectionDocument,
+    order: any
+  ): Promise<{ imported: boolean; message: string }> {
+    await connectDB();
+
+    const userId = connection.orderSync?.userId;
+    if (!connection.orderSync?.enabled || !userId) {
+      return { imported: false, message: 'Order import is not enabled for this connection' };
+    }
+
+    if (!this.getStatuses(connection, {}).includes(order.status)) {
+      return { imported: false, message: `Orders with status "${order.status}" are not imported` };
+    }
+
+    const job = await this.createJob(connection, userId, {}, 'auto');
+    job.status = 'processing';
+    job.progress.total = 1;
+    job.progress.currentStep = `Importing order #${order.number || order.id}`;
+    await job.save();
+
+    const sourceUrl = connection.siteUrl.replace(/\/$/, '');
+
+    try {
+      const salesOrder = await this.importOrder(order, sourceUrl, userId, job);
+      job.progress.processed = 1;
+
+      if (!salesOrder) {
+        job.progress.skipped = 1;
+        await job.markCompleted();
+        return { imported: false, message: 'Order was already imported' };
+      }
+
+      job.progress.imported = 1;
+      job.results.newOrders.push(String(salesOrder._id));
+      await job.markCompleted();
+      return { imported: true, message: `Imported as sales order ${salesOrder.orderNumber}` };
+    } catch (error) {
+      await job.markFailed(error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  private static createJob(
+    connection: IWordPressConnectionDocument,
+    userId: string,
+    options: OrderImportOptions,
+    triggeredBy: IWordPressImportJob['triggeredBy']
+  ): Promise<IWordPressImportJobDocument> {
+    return WordPressImportJob.createJob({
+      connectionId: String(connection._id),
+      type: 'orders',
+      status: 'pending',
+      filters: {
+        status: this.getStatuses(connection, options),
+        dateFrom: options.dateFrom,
+        dateTo: options.dateTo,
+        includeVariations: true,
+        includeImages: false,
+        updateExisting: false,
+        pageSize: ORDER_PAGE_SIZE
+      },
+      triggeredBy,
+      userId,
+      notes: 'WooCommerce order import'
+    });
+  }
+
+  /**
+   * Pages through the store's orders, oldest first, and imports each one
+   */
+  private static async runImport(
+    job: IWordPressImportJobDocument,
+    connection: IWordPressConnectionDocument,
+    userId: string,
+    options: OrderImportOptions
+  ): Promise<void> {
+    const api = new WordPressAPI({
+      siteUrl: connection.siteUrl,
+      consumerKey: connection.consumerKey,
+      consumerSecret: connection.consumerSecret,
+      version: connection.version,
+      isWooCommerce: connection.isWooCommerce,
+      isActive: connection.isActive
+    });
+    const sourceUrl = connection.siteUrl.replace(/\/$/, '');
+
+    // Scheduled runs resume after the newest imported order, but never past one that failed
+    let newestOrderDate: Date | undefined;
+    let firstFailedOrderDate: Date | undefined;
+
+    try {
+      job.status = 'processing';
+      job.progress.currentStep = 'Fetching orders from WooCommerce';
+      await job.save();
+
+      let page = 1;
+      let totalPages = 1;
+
+      do {
+        const result = await api.getOrders({
+          status: job.filters.status?.join(','),
+          after: options.dateFrom?.toISOString(),
+          before: options.dateTo?.toISOString(),
+          dates_are_gmt: true,
+          per_page: ORDER_PAGE_SIZE,
+          page
+        });
+        totalPages = result.totalPages;
+        job.progress.total = result.total;
+
+        for (const order of result.orders) {
+          const createdAt = parseWooCommerceDate(order.date_created_gmt);
+
+          try {
+            const salesOrder = await this.importOrder(order, sourceUrl, userId, job);
+            if (salesOrder) {
+              job.progress.imported++;
+              job.results.newOrders.push(String(salesOrder._id));
+            } else {
+              job.progress.skipped++;
+            }
+
+            if (createdAt && (!newestOrderDate || createdAt > newestOrderDate)) {
+              newestOrderDate = createdAt;
+            }
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            job.progress.failed++;
+            job.results.failedOrders.push({
+              wordpressId: order.id,
+              orderNumber: String(order.number || order.id),
+              error: message
+            });
+            await job.addError({
+              level: 'error',
+              message: `Failed to import order #${order.number || order.id}: ${message}`,
+              context: { wordpressOrderId: order.id }
+            });
+
+            if (createdAt && (!firstFailedOrderDate || createdAt < firstFailedOrderDate)) {
+              firstFailedOrderDate = createdAt;
+            }
+          }
+
+          job.progress.processed++;
+        }
+
+        await job.updateProgress({ currentStep: `Processed ${job.progress.processed}/${job.progress.total} orders` });
+        page++;
+      } while (page <= totalPages);
+
+      await job.markCompleted();
+
+      const resumeFrom = firstFailedOrderDate ? new Date(firstFailedOrderDate.getTime() - 1000) : newestOrderDate;
+      await WordPressConnection.updateOne(
+        { _id: connection._id },
+        {
+          $set: {
+            lastSyncDate: new Date(),
+            'orderSync.lastImportAt': new Date(),
+            ...(resumeFrom ? { 'orderSync.lastOrderDate': resumeFrom } : {})
+          }
+        }
+      );
+    } catch (error) {
+      console.error('WooCommerce order import process error:', error);
+      await job.markFailed(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Imports one WooCommerce order
+   * @returns The created sales order, or null when the order was already imported or is not billable
+   */
+  private static async importOrder(
+    order: any,
+    sourceUrl: string,
+    userId: string,
+    job: IWordPressImportJobDocument
+  ): Promise<ISalesOrderDocument | null> {
+    const orderNumber = String(order.number || order.id);
+
+    if (EXCLUDED_STATUSES.includes(order.status)) {
+      return null;
+    }
+
+    const alreadyImported = await SalesOrder.exists({ 'wordpress.sourceUrl': sourceUrl, 'wordpress.orderId': order.id });
+    if (alreadyImported) {
+      return null;
+    }
+
+    const { items, warnings } = await this.resolveLineItems(order.line_items || []);
+    if (items.length === 0) {
+      throw new Error(warnings[0] || 'Order has no line items');
+    }
+
+    for (const warning of warnings) {
+      await job.addError({
+        level: 'warning',
+        message: `Order #${orderNumber}: ${warning}`,
+        context: { wordpressOrderId: order.id }
+      });
+    }
+
+    const subtotal = items.reduce((total, item) => total + item.lineTotal, 0);
+    const discount = Math.min(Number(order.discount_total) || 0, subtotal);
+    const taxable = subtotal - discount;
+    const itemTax = Number(order.cart_tax ?? order.total_tax) || 0;
+
+    const customer = order.billing?.email
+      ? await Customer.findByEmailAndUser(order.billing.email, userId)
+      : null;
+
+    const status: SalesOrderStatus = PAID_STATUSES.includes(order.status) ? 'completed' : 'pending';
+    const createdAt = parseWooCommerceDate(order.date_created_gmt) || new Date();
+    const date = createdAt > new Date() ? new Date() : createdAt;
+    const currency = isSupportedCurrency(order.currency) ? order.currency.toUpperCase() : undefined;
+
+    const salesOrder = new SalesOrder({
+      customerId: customer ? String(customer._id) : null,
+      items,
+      discount,
+      discountType: 'fixed',
+      taxRate: taxable > 0 ? Math.min(round((itemTax / taxable) * 100), 100) : 0,
+      currency,
+      paymentMethod: PAYMENT_METHODS[order.payment_method] || 'other',
+      status,
+      date,
+      notes: [`WooCommerce order #${orderNumber}`, ...warnings].join('\n').slice(0, 1000),
+      wordpress: {
+        orderId: order.id,
+        orderNumber,
+        sourceUrl,
+        status: order.status,
+        importJobId: job.jobId
+      },
+      userId
+    });
+
+    try {
+      await salesOrder.save();
+    } catch (error: any) {
+      // Another run imported the same order first
+      if (error?.code === 11000 && error.keyPattern?.['wordpress.orderId']) {
+        return null;
+      }
+      throw error;
+    }
+
+    // Record each line as a Sale and take it out of stock
+    for (const item of salesOrder.items) {
+      const sale = await new Sale({
+        productId: item.productId,
+        variantId: item.variantId || null,
+        customerId: salesOrder.customerId || null,
+        orderId: salesOrder._id.toString(),
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        totalAmount: item.lineTotal,
+        currency,
+        date: salesOrder.date,
+        notes: `WooCommerce order #${orderNumber}`,
+        userId
+      }).save();
+      item.saleId = sale._id.toString();
+      WebhookService.dispatchInBackground(WEBHOOK_EVENTS.SALE_CREATED, sale.toJSON(), userId);
+
+      await this.deductStock(item, salesOrder, order, userId, job);
+    }
+
+    if (status === 'completed') {
+      await SalesOrderService.recordIncome(salesOrder);
+    }
+
+    await salesOrder.save();
+    return salesOrder;
+  }
+
+  /**
+   * Maps WooCommerce line items to linked products and variations
+   * Lines without a linked product are left out and reported as warnings
+   */
+  private static async resolveLineItems(lineItems: any[]): Promise<{ items: ISalesOrderItem[]; warnings: string[] }> {
+    const items: ISalesOrderItem[] = [];
+    const warnings: string[] = [];
+
+    for (const line of lineItems) {
+      const product = await Product.findByWordPressId(Number(line.product_id));
+      if (!product) {
+        warnings.push(`"${line.name}" is not linked to an imported product`);
+        continue;
+      }
+
+      const variant = line.variation_id
+        ? await ProductVariant.findOne({ productId: String(product._id), 'wordpress.id': Number(line.variation_id) })
+        : null;
+      if (line.variation_id && !variant) {
+        warnings.push(`Variation ${line.variation_id} of "${line.name}" is not linked to an imported variant`);
+        continue;
+      }
+
+      const quantity = Number(line.quantity);
+      // Line subtotals are before order-level discounts, which are applied to the whole order
+      const unitPrice = quantity > 0 ? round(Number(line.subtotal) / quantity) : 0;
+      if (!Number.isInteger(quantity) || quantity <= 0 || !(unitPrice > 0)) {
+        warnings.push(`"${line.name}" has no billable quantity or price`);
+        continue;
+      }
+
+      items.push({
+        productId: String(product._id),
+        variantId: variant ? String(variant._id) : undefined,
+        name: line.name || product.title,
+        sku: variant?.sku || product.sku || line.sku || undefined,
+        quantity,
+        unitPrice,
+        lineTotal: round(quantity * unitPrice)
+      });
+    }
+
+    return { items, warnings };
+  }
+
+  /**
+   * Takes a line out of stock and records the movement as a wordpress_sync inventory log
+   */
+  private static async deductStock(
+    item: ISalesOrderItem,
+    salesOrder: ISalesOrderDocument,
+    order: any,
+    userId: string,
+    job: IWordPressImportJobDocument
+  ): Promise<void> {
+    const result = await InventoryService.updateInventoryForSale(item.productId, item.quantity, item.variantId);
+
+    if (!result.success) {
+      await job.addError({
+        level: 'warning',
+        message: `Stock not updated for ${item.name} on order #${salesOrder.wordpress?.orderNumber}: ${result.message}`,
+        context: { wordpressOrderId: order.id, productId: item.productId }
+      });
+      return;
+    }
+
+    // Products without stock management are not tracked
+    if (result.newQuantity === result.previousQuantity) {
+      return;
+    }
+
+    await InventoryLog.createLog({
+      productId: item.productId,
+      variantId: item.variantId,
+      sku: item.sku || item.productId,
+      type: 'sale',
+      quantityBefore: result.previousQuantity,
+      quantityChange: result.newQuantity - result.previousQuantity,
+      quantityAfter: result.newQuantity,
+      orderId: salesOrder._id.toString(),
+      importJobId: job.jobId,
+      userId,
+      reason: `WooCommerce order #${salesOrder.wordpress?.orderNumber}`,
+      source: 'wordpress_sync',
+      metadata: {
+        orderNumber: salesOrder.orderNumber,
+        customerEmail: order.billing?.email,
+        wordpressOrderId: order.id
+      }
+    });
+  }
+
+  private static getStatuses(connection: IWordPressConnectionDocument, options: OrderImportOptions): string[] {
+    const statuses = options.statuses?.length
+      ? options.statuses
+      : connection.orderSync?.statuses?.length ? connection.orderSync.statuses : PAID_STATUSES;
+
+    return statuses.filter(status => !EXCLUDED_STATUSES.includes(status));
+  }
+}
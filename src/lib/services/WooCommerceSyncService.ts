@@ -0,0 +1,392 @@
+import mongoose from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Product, { IProductDocument } from '@/lib/database/models/Product';
+import ProductVariant, { IProductVariantDocument } from '@/lib/database/models/ProductVariant';
+import WordPressConnection, { IWordPressConnectionDocument } from '@/lib/database/models/WordPressConnection';
+import {
+  WordPressAPI,
+  WooCommerceBatchItemResult,
+  WooCommerceStockUpdate,
+  parseWooCommerceDate
+} from '@/lib/utils/wordpress-api';
+
+/**
+ * WooCommerce Sync Service
+ * Pushes local stock and price changes for imported products and variations
+ * back to the WooCommerce store they were imported from
+ */
+
+export type SyncConflictStrategy = 'skip' | 'overwrite';
+
+export interface WooCommerceSyncOptions {
+  productIds?: string[]; // Products to push; defaults to everything pending or failed
+  conflictStrategy?: SyncConflictStrategy; // skip leaves remote edits alone and flags a conflict
+}
+
+export interface WooCommerceSyncItem {
+  id: string; // Product or variant ID
+  wordpressId: number;
+  variation: boolean;
+  message: string;
+}
+
+export interface WooCommerceSyncResult {
+  success: boolean;
+  pushed: number;
+  conflicts: WooCommerceSyncItem[];
+  errors: WooCommerceSyncItem[];
+  error?: { code: string; message: string };
+}
+
+interface SyncCandidate {
+  doc: IProductDocument | IProductVariantDocument;
+  wordpressId: number;
+  variation: boolean;
+  update: WooCommerceStockUpdate;
+  baseline?: Date; // Remote modification time as of the last sync
+}
+
+// WooCommerce accepts at most 100 items per batch request
+const BATCH_SIZE = 100;
+
+// Remote timestamps only have second precision
+const CONFLICT_TOLERANCE_MS = 1000;
+
+const failure = (code: string, message: string): WooCommerceSyncResult => ({
+  success: false,
+  pushed: 0,
+  conflicts: [],
+  errors: [],
+  error: { code, message }
+});
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+const validDate = (value?: Date): Date | undefined =>
+  value && !isNaN(new Date(value).getTime()) ? new Date(value) : undefined;
+
+export class WooCommerceSyncService {
+  /**
+   * Pushes stock and price changes for products linked to one connection
+   */
+  static async syncConnection(
+    connectionId: string,
+    options: WooCommerceSyncOptions = {}
+  ): Promise<WooCommerceSyncResult> {
+    await connectDB();
+
+    if (!mongoose.Types.ObjectId.isValid(connectionId)) {
+      return failure('NOT_FOUND', 'WordPress connection not found');
+    }
+
+    const connection = await WordPressConnection.findById(connectionId).select('+consumerKey +consumerSecret');
+    if (!connection) {
+      return failure('NOT_FOUND', 'WordPress connection not found');
+    }
+
+    if (!connection.isActive) {
+      return failure('CONNECTION_INACTIVE', 'WordPress connection is inactive');
+    }
+
+    return this.pushChanges(connection, options);
+  }
+
+  /**
+   * Pushes pending changes for every connection with auto-sync enabled
+   */
+  static async syncAllConnections(): Promise<{
+    connections: number;
+    pushed: number;
+    conflicts: number;
+    errors: number;
+  }> {
+    await connectDB();
+    const connections = await WordPressConnection.findReadyForAutoSync();
+
+    const totals = { connections: connections.length, pushed: 0, conflicts: 0, errors: 0 };
+
+    for (const connection of connections) {
+      try {
+        const result = await this.pushChanges(connection, {});
+        totals.pushed += result.pushed;
+        totals.conflicts += result.conflicts.length;
+        totals.errors += result.errors.length;
+      } catch (error) {
+        console.error(`Failed to sync WordPress connection ${connection._id}:`, error);
+        totals.errors++;
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Collects linked products and variations, checks them against the remote
+   * copies and sends batch updates
+   */
+  private static async pushChanges(
+    connection: IWordPressConnectionDocument,
+    options: WooCommerceSyncOptions
+  ): Promise<WooCommerceSyncResult> {
+    const api = new WordPressAPI({
+      siteUrl: connection.siteUrl,
+      consumerKey: connection.consumerKey,
+      consumerSecret: connection.consumerSecret,
+      version: connection.version,
+      isWooCommerce: connection.isWooCommerce,
+      isActive: connection.isActive
+    });
+
+    const strategy = options.conflictStrategy || 'skip';
+    const result: WooCommerceSyncResult = { success: true, pushed: 0, conflicts: [], errors: [] };
+
+    const linked = {
+      'wordpress.id': { $exists: true },
+      'wordpress.sourceUrl': connection.siteUrl.replace(/\/$/, '')
+    };
+    const outstanding = { 'wordpress.syncStatus': { $in: ['pending', 'error'] } };
+
+    // Products
+    const products = await Product.find(
+      options.productIds ? { ...linked, _id: { $in: options.productIds } } : { ...linked, ...outstanding }
+    );
+
+    for (const batch of chunk(products, BATCH_SIZE)) {
+      const candidates = batch.map(product => ({
+        doc: product,
+        wordpressId: product.wordpress!.id,
+        variation: false,
+        update: this.toProductUpdate(product),
+        baseline: validDate(product.wordpress!.dateModified) || validDate(product.wordpress!.lastSync)
+      }));
+
+      await this.pushBatch(
+        candidates,
+        () => api.getProductsByIds(candidates.map(candidate => candidate.wordpressId)),
+        updates => api.batchUpdateProducts(updates),
+        strategy,
+        result
+      );
+    }
+
+    // Variations are pushed per parent product
+    if (connection.syncSettings?.syncVariations !== false) {
+      const parents = await Product.find({
+        ...linked,
+        type: 'variable',
+        ...(options.productIds ? { _id: { $in: options.productIds } } : {})
+      }).select('_id wordpress.id');
+
+      for (const parent of parents) {
+        const variants = await ProductVariant.find({
+          productId: String(parent._id),
+          'wordpress.id': { $exists: true },
+          ...(options.productIds ? {} : outstanding)
+        });
+
+        for (const batch of chunk(variants, BATCH_SIZE)) {
+          const candidates = batch.map(variant => ({
+            doc: variant,
+            wordpressId: variant.wordpress!.id,
+            variation: true,
+            update: this.toVariationUpdate(variant),
+            baseline: validDate(variant.wordpress!.dateModified) || validDate(variant.wordpress!.lastSync)
+          }));
+
+          await this.pushBatch(
+            candidates,
+            () => api.getProductVariations(parent.wordpress!.id),
+            updates => api.batchUpdateVariations(parent.wordpress!.id, updates),
+            strategy,
+            result
+          );
+        }
+      }
+    }
+
+    await WordPressConnection.updateOne(
+      { _id: connection._id },
+      {
+        $set: {
+          lastSyncDate: new Date(),
+          ...(connection.syncSettings?.autoSync ? { 'syncSettings.lastAutoSync': new Date() } : {})
+        },
+        $inc: { 'importStats.totalSynced': result.pushed, 'importStats.totalErrors': result.errors.length }
+      }
+    );
+
+    result.success = result.errors.length === 0;
+    return result;
+  }
+
+  /**
+   * Checks one batch for remote edits, pushes the rest and records the outcome per item
+   */
+  private static async pushBatch(
+    candidates: SyncCandidate[],
+    fetchRemote: () => Promise<any[]>,
+    send: (updates: WooCommerceStockUpdate[]) => Promise<WooCommerceBatchItemResult[]>,
+    strategy: SyncConflictStrategy,
+    result: WooCommerceSyncResult
+  ): Promise<void> {
+    if (candidates.length === 0) return;
+
+    const fail = async (candidate: SyncCandidate, message: string) => {
+      result.errors.push(this.toItem(candidate, message));
+      await this.markSyncState(candidate, {
+        'wordpress.syncStatus': 'error',
+        'wordpress.errorMessage': message
+      });
+    };
+
+    let remoteCopies: Map<number, any>;
+    try {
+      const remote = await fetchRemote();
+      remoteCopies = new Map(remote.map(item => [Number(item.id), item]));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to fetch remote products';
+      for (const candidate of candidates) {
+        await fail(candidate, message);
+      }
+      return;
+    }
+
+    const toPush: SyncCandidate[] = [];
+    for (const candidate of candidates) {
+      const remote = remoteCopies.get(candidate.wordpressId);
+
+      if (!remote) {
+        await fail(candidate, 'Not found in the WooCommerce store');
+        continue;
+      }
+
+      const remoteModified = parseWooCommerceDate(remote.date_modified_gmt);
+      const changedRemotely = !!remoteModified && !!candidate.baseline &&
+        remoteModified.getTime() - candidate.baseline.getTime() > CONFLICT_TOLERANCE_MS;
+
+      if (changedRemotely && strategy === 'skip') {
+        const message = 'Changed in WooCommerce since the last sync';
+        result.conflicts.push(this.toItem(candidate, message));
+        await this.markSyncState(candidate, {
+          'wordpress.syncStatus': 'conflict',
+          'wordpress.errorMessage': message
+        });
+        continue;
+      }
+
+      toPush.push(candidate);
+    }
+
+    if (toPush.length === 0) return;
+
+    let outcomes: WooCommerceBatchItemResult[];
+    try {
+      outcomes = await send(toPush.map(candidate => candidate.update));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update WooCommerce';
+      for (const candidate of toPush) {
+        await fail(candidate, message);
+      }
+      return;
+    }
+
+    for (const candidate of toPush) {
+      const outcome = outcomes.find(item => item.id === candidate.wordpressId);
+
+      if (!outcome?.success) {
+        await fail(candidate, outcome?.error || 'Update was rejected by WooCommerce');
+        continue;
+      }
+
+      result.pushed++;
+      const syncedAt = new Date();
+
+      // Record our own write as the new baseline so it is not mistaken for a remote edit
+      await this.markSyncState(candidate, {
+        'wordpress.lastSync': syncedAt,
+        'wordpress.dateModified': outcome.dateModified || syncedAt
+      });
+
+      // Local edits made while the batch was in flight stay pending
+      await this.markSyncState(candidate, {
+        'wordpress.syncStatus': 'synced',
+        'wordpress.errorMessage': null
+      }, candidate.doc.updatedAt);
+    }
+  }
+
+  /**
+   * Builds the stock and price update for a product
+   */
+  private static toProductUpdate(product: IProductDocument): WooCommerceStockUpdate {
+    const update: WooCommerceStockUpdate = {
+      id: product.wordpress!.id,
+      manage_stock: product.manageStock,
+      stock_status: product.stockStatus
+    };
+
+    if (product.manageStock) {
+      update.stock_quantity = product.qty;
+    }
+
+    // Variable products are priced per variation
+    if (product.type !== 'variable') {
+      const regularPrice = product.regularPrice || product.price;
+      update.regular_price = String(regularPrice);
+      update.sale_price = product.salePrice && product.salePrice < regularPrice ? String(product.salePrice) : '';
+    }
+
+    return update;
+  }
+
+  /**
+   * Builds the stock and price update for a variation
+   */
+  private static toVariationUpdate(variant: IProductVariantDocument): WooCommerceStockUpdate {
+    const { quantity, backordersAllowed } = variant.inventory;
+    const { price, compareAtPrice } = variant.pricing;
+    const onSale = !!compareAtPrice && compareAtPrice > price;
+
+    return {
+      id: variant.wordpress!.id,
+      manage_stock: true,
+      stock_quantity: quantity,
+      stock_status: quantity > 0 ? 'instock' : backordersAllowed ? 'onbackorder' : 'outofstock',
+      regular_price: String(onSale ? compareAtPrice : price),
+      sale_price: onSale ? String(price) : ''
+    };
+  }
+
+  /**
+   * Writes sync fields without touching updatedAt
+   * When unchangedSince is given, the write only applies if the record has not been edited since
+   */
+  private static async markSyncState(
+    candidate: SyncCandidate,
+    fields: Record<string, unknown>,
+    unchangedSince?: Date
+  ): Promise<void> {
+    const filter: Record<string, unknown> = { _id: candidate.doc._id };
+    if (unchangedSince) {
+      filter.updatedAt = unchangedSince;
+    }
+
+    const model: mongoose.Model<any> = candidate.variation ? ProductVariant : Product;
+    await model.updateOne(filter, { $set: fields }, { timestamps: false });
+  }
+
+  private static toItem(candidate: SyncCandidate, message: string): WooCommerceSyncItem {
+    return {
+      id: String(candidate.doc._id),
+      wordpressId: candidate.wordpressId,
+      variation: candidate.variation,
+      message
+    };
+  }
+}
@@ -0,0 +1,331 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Product, { IProductDocument } from '@/lib/database/models/Product';
+import ProductVariant, { IProductVariantDocument } from '@/lib/database/models/ProductVariant';
+import WordPressConnection, { IWordPressConnectionDocument } from '@/lib/database/models/WordPressConnection';
+import WordPressWebhookEvent, {
+  IWordPressWebhookEventDocument,
+  WordPressWebhookTopic
+} from '@/lib/database/models/WordPressWebhookEvent';
+import { WooCommerceOrderImportService } from './WooCommerceOrderImportService';
+import { parseWooCommerceDate } from '@/lib/utils/wordpress-api';
+import { webhookRetryQueue } from '@/lib/utils/webhook-retry';
+
+/**
+ * WooCommerce Webhook Service
+ * Applies product and order webhooks from a connected store as they arrive,
+ * so linked records no longer wait for the next scheduled sync
+ */
+
+export const SUPPORTED_WEBHOOK_TOPICS: WordPressWebhookTopic[] = ['product.updated', 'product.deleted', 'order.created'];
+
+export interface WooCommerceWebhookDelivery {
+  topic: string | null; // X-WC-Webhook-Topic
+  deliveryId: string | null; // X-WC-Webhook-Delivery-ID
+  signature: string | null; // X-WC-Webhook-Signature
+  payload: string; // Raw request body
+}
+
+export interface WooCommerceWebhookResult {
+  success: boolean;
+  status?: 'processed' | 'ignored' | 'duplicate' | 'queued';
+  message?: string;
+  error?: { code: string; message: string };
+}
+
+interface ApplyOutcome {
+  status: 'processed' | 'ignored';
+  message: string;
+}
+
+const STOCK_STATUSES = ['instock', 'outofstock', 'onbackorder'];
+
+const failure = (code: string, message: string): WooCommerceWebhookResult => ({
+  success: false,
+  error: { code, message }
+});
+
+const toPrice = (value: unknown): number | undefined => {
+  const price = parseFloat(String(value ?? ''));
+  return Number.isFinite(price) && price > 0 ? price : undefined;
+};
+
+/**
+ * Checks a WooCommerce webhook signature: a base64 HMAC-SHA256 of the raw body
+ */
+export function verifyWebhookSignature(payload: string, signature: string, secret: string): boolean {
+  const expected = Buffer.from(crypto.createHmac('sha256', secret).update(payload, 'utf8').digest('base64'));
+  const received = Buffer.from(signature.trim());
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+export class WooCommerceWebhookService {
+  /**
+   * Verifies and records an inbound delivery, then applies it
+   * Failed deliveries are retried in the background; WooCommerce is still told they were received
+   */
+  static async receive(connectionId: string, delivery: WooCommerceWebhookDelivery): Promise<WooCommerceWebhookResult> {
+    await connectDB();
+
+    if (!mongoose.Types.ObjectId.isValid(connectionId)) {
+      return failure('NOT_FOUND', 'WordPress connection not found');
+    }
+
+    const connection = await WordPressConnection.findById(connectionId)
+      .select('+consumerKey +consumerSecret +webhookSecret');
+    if (!connection) {
+      return failure('NOT_FOUND', 'WordPress connection not found');
+    }
+
+    if (!connection.webhookSecret) {
+      return failure('WEBHOOK_NOT_CONFIGURED', 'Webhooks are not configured for this connection');
+    }
+
+    if (!delivery.signature || !verifyWebhookSignature(delivery.payload, delivery.signature, connection.webhookSecret)) {
+      return failure('INVALID_SIGNATURE', 'Invalid webhook signature');
+    }
+
+    if (!connection.isActive) {
+      return { success: true, status: 'ignored', message: 'WordPress connection is inactive' };
+    }
+
+    const topic = delivery.topic as WordPressWebhookTopic;
+    if (!SUPPORTED_WEBHOOK_TOPICS.includes(topic)) {
+      return { success: true, status: 'ignored', message: `Topic "${delivery.topic}" is not handled` };
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(delivery.payload);
+    } catch {
+      return failure('INVALID_PAYLOAD', 'Invalid JSON payload');
+    }
+
+    if (!data || !Number.isInteger(Number(data.id))) {
+      return failure('INVALID_PAYLOAD', 'Payload does not include a resource ID');
+    }
+
+    // WooCommerce sends a delivery ID with every webhook; fall back to the resource version
+    const deliveryId = delivery.deliveryId ||
+      `${topic}:${data.id}:${data.date_modified_gmt || data.date_created_gmt || ''}`;
+
+    let event: IWordPressWebhookEventDocument;
+    try {
+      event = await WordPressWebhookEvent.create({
+        connectionId,
+        deliveryId,
+        topic,
+        resourceId: Number(data.id),
+        payload: delivery.payload
+      });
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        return { success: true, status: 'duplicate', message: 'Webhook already received' };
+      }
+      throw error;
+    }
+
+    try {
+      const outcome = await this.processEvent(event, connection, data);
+      return { success: true, ...outcome };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`WooCommerce webhook ${deliveryId} failed:`, error);
+
+      webhookRetryQueue.addToQueue(
+        `woocommerce_${event._id}`,
+        delivery.payload,
+        delivery.signature,
+        undefined,
+        () => this.retryEvent(String(event._id))
+      );
+
+      return { success: true, status: 'queued', message };
+    }
+  }
+
+  /**
+   * Reapplies a failed delivery; throws so the retry queue schedules another attempt
+   */
+  static async retryEvent(eventId: string): Promise<void> {
+    await connectDB();
+
+    const event = await WordPressWebhookEvent.findById(eventId);
+    if (!event || event.status === 'processed' || event.status === 'ignored') {
+      return;
+    }
+
+    const connection = await WordPressConnection.findById(event.connectionId)
+      .select('+consumerKey +consumerSecret');
+    if (!connection) {
+      await event.markProcessed('ignored', 'WordPress connection was removed');
+      return;
+    }
+
+    await this.processEvent(event, connection, JSON.parse(event.payload));
+  }
+
+  /**
+   * Applies an event and records the outcome on it
+   */
+  private static async processEvent(
+    event: IWordPressWebhookEventDocument,
+    connection: IWordPressConnectionDocument,
+    data: any
+  ): Promise<ApplyOutcome> {
+    event.attempts++;
+
+    try {
+      const outcome = await this.apply(event.topic, connection, data);
+      await event.markProcessed(outcome.status, outcome.message);
+      await WordPressConnection.updateOne({ _id: connection._id }, { $set: { lastWebhookAt: new Date() } });
+      return outcome;
+    } catch (error) {
+      await event.markFailed(error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  private static apply(topic: WordPressWebhookTopic, connection: IWordPressConnectionDocument, data: any): Promise<ApplyOutcome> {
+    switch (topic) {
+      case 'product.updated':
+        return this.applyProductUpdate(connection, data);
+      case 'product.deleted':
+        return this.applyProductDeletion(connection, data);
+      case 'order.created':
+        return WooCommerceOrderImportService.importWebhookOrder(connection, data)
+          .then(result => ({ status: result.imported ? 'processed' : 'ignored', message: result.message }));
+    }
+  }
+
+  /**
+   * Copies remote stock and prices onto the linked product or variation
+   * Deliveries older than the last sync are ignored, and pending local edits are flagged instead of overwritten
+   */
+  private static async applyProductUpdate(connection: IWordPressConnectionDocument, data: any): Promise<ApplyOutcome> {
+    const target = await this.findLinkedRecord(connection, data);
+    if (!target) {
+      return { status: 'ignored', message: 'Not linked to an imported product' };
+    }
+
+    const wordpress = target.doc.wordpress!;
+    const remoteModified = parseWooCommerceDate(data.date_modified_gmt);
+
+    if (remoteModified && wordpress.dateModified && remoteModified.getTime() <= new Date(wordpress.dateModified).getTime()) {
+      return { status: 'ignored', message: 'Already up to date' };
+    }
+
+    if (wordpress.syncStatus === 'pending') {
+      const model: mongoose.Model<any> = target.variation ? ProductVariant : Product;
+      await model.updateOne(
+        { _id: target.doc._id },
+        { $set: { 'wordpress.syncStatus': 'conflict', 'wordpress.errorMessage': 'Changed in WooCommerce while local changes were pending' } },
+        { timestamps: false }
+      );
+      return { status: 'processed', message: 'Flagged as a conflict with pending local changes' };
+    }
+
+    if (target.variation) {
+      this.applyVariationFields(target.doc as IProductVariantDocument, data);
+    } else {
+      this.applyProductFields(target.doc as IProductDocument, data);
+    }
+
+    target.doc.wordpress!.dateModified = remoteModified || new Date();
+    target.doc.wordpress!.lastSync = new Date();
+    target.doc.wordpress!.syncStatus = 'synced';
+    target.doc.wordpress!.errorMessage = undefined;
+    // Keeps the pre-save hook from queueing the remote values for an outbound push
+    target.doc.markModified('wordpress.syncStatus');
+    await target.doc.save();
+
+    return { status: 'processed', message: `Updated ${target.variation ? 'variation' : 'product'} from WooCommerce` };
+  }
+
+  /**
+   * Unlinks a product or variation that was deleted in WooCommerce and takes it off sale
+   */
+  private static async applyProductDeletion(connection: IWordPressConnectionDocument, data: any): Promise<ApplyOutcome> {
+    const target = await this.findLinkedRecord(connection, data);
+    if (!target) {
+      return { status: 'ignored', message: 'Not linked to an imported product' };
+    }
+
+    const fields = {
+      'wordpress.syncStatus': 'error',
+      'wordpress.errorMessage': 'Deleted in WooCommerce'
+    };
+
+    if (target.variation) {
+      await ProductVariant.updateOne(
+        { _id: target.doc._id },
+        { $set: { ...fields, status: 'inactive' }, $unset: { 'wordpress.id': '' } }
+      );
+    } else {
+      // Without a source URL the product drops out of outbound sync for this connection
+      await Product.updateOne(
+        { _id: target.doc._id },
+        { $set: { ...fields, status: 'draft' }, $unset: { 'wordpress.sourceUrl': '' } }
+      );
+    }
+
+    return { status: 'processed', message: `${target.variation ? 'Variation' : 'Product'} deactivated` };
+  }
+
+  private static async findLinkedRecord(
+    connection: IWordPressConnectionDocument,
+    data: any
+  ): Promise<{ doc: IProductDocument | IProductVariantDocument; variation: boolean } | null> {
+    const sourceUrl = connection.siteUrl.replace(/\/$/, '');
+    const parentId = Number(data.parent_id) || 0;
+
+    if (data.type === 'variation' || parentId > 0) {
+      const parent = await Product.findOne({ 'wordpress.id': parentId, 'wordpress.sourceUrl': sourceUrl });
+      const variant = parent
+        ? await ProductVariant.findOne({ productId: String(parent._id), 'wordpress.id': Number(data.id) })
+        : null;
+      return variant ? { doc: variant, variation: true } : null;
+    }
+
+    const product = await Product.findOne({ 'wordpress.id': Number(data.id), 'wordpress.sourceUrl': sourceUrl });
+    return product ? { doc: product, variation: false } : null;
+  }
+
+  private static applyProductFields(product: IProductDocument, data: any): void {
+    product.manageStock = !!data.manage_stock;
+    if (data.manage_stock) {
+      product.qty = Math.max(0, Number(data.stock_quantity) || 0);
+    }
+    if (STOCK_STATUSES.includes(data.stock_status)) {
+      product.stockStatus = data.stock_status;
+    }
+    if (typeof data.backorders === 'string') {
+      product.backordersAllowed = data.backorders !== 'no';
+    }
+
+    // Variable products are priced per variation
+    if (product.type !== 'variable') {
+      product.price = toPrice(data.price) ?? product.price;
+      product.regularPrice = toPrice(data.regular_price);
+      product.salePrice = toPrice(data.sale_price);
+    }
+  }
+
+  private static applyVariationFields(variant: IProductVariantDocument, data: any): void {
+    if (data.manage_stock) {
+      variant.inventory.quantity = Math.max(0, Number(data.stock_quantity) || 0);
+    }
+    if (typeof data.backorders === 'string') {
+      variant.inventory.backordersAllowed = data.backorders !== 'no';
+    }
+
+    const regularPrice = toPrice(data.regular_price);
+    const salePrice = toPrice(data.sale_price);
+    const onSale = !!regularPrice && !!salePrice && salePrice < regularPrice;
+
+    variant.pricing.price = toPrice(data.price) ?? variant.pricing.price;
+    variant.pricing.compareAtPrice = onSale ? regularPrice : undefined;
+  }
+}
@@ -0,0 +1,278 @@
+import { Types } from 'mongoose';
+import { connectDB } from '@/lib/database/connection';
+import Workspace, { IWorkspaceDocument } from '@/lib/database/models/Workspace';
+import { User, IUserDocument } from '@/lib/database/models/User';
+import Role from '@/lib/database/models/Role';
+
+/**
+ * Workspace Service
+ * Resolves the workspace a user is working in. Business records are stored
+ * under the workspace owner's user id, so API routes scope their queries
+ * with getScopeUserId instead of the signed-in user's id.
+ * Chat conversations and notification preferences (such as the stock alert
+ * toggle) belong to people rather than workspaces, so they stay with the
+ * signed-in user in every workspace.
+ */
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  isOwner: boolean;
+  isActive: boolean;
+  role: string; // 'Owner', or the member's role name
+  memberCount: number;
+}
+
+export interface WorkspaceMemberSummary {
+  userId: string;
+  name: string;
+  email: string;
+  role: { id: string; name: string } | null;
+  isOwner: boolean;
+  joinedAt: Date;
+}
+
+export interface WorkspaceResult {
+  success: boolean;
+  workspace?: IWorkspaceDocument;
+  error?: { code: string; message: string };
+}
+
+const failure = (code: string, message: string) => ({
+  success: false as const,
+  error: { code, message }
+});
+
+export class WorkspaceService {
+  /**
+   * Returns the user's own workspace, creating it on first use
+   */
+  static async ensurePersonalWorkspace(user: Pick<IUserDocument, '_id' | 'firstName' | 'company'>): Promise<IWorkspaceDocument> {
+    await connectDB();
+
+    const ownerId = String(user._id);
+    const name = user.company?.trim() || `${user.firstName}'s Workspace`;
+
+    try {
+      return await Workspace.findOneAndUpdate(
+        { ownerId },
+        { $setOnInsert: { ownerId, name, members: [] } },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      ) as IWorkspaceDocument;
+    } catch (error: any) {
+      // Another request created it first
+      if (error?.code === 11000) {
+        const existing = await Workspace.findByOwner(ownerId);
+        if (existing) return existing;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the workspace the user is working in
+   * Falls back to the workspace they own, then the first one they joined,
+   * and remembers the choice when the stored one is missing or was left
+   */
+  static async getActiveWorkspace(userId: string): Promise<IWorkspaceDocument | null> {
+    if (!Types.ObjectId.isValid(userId)) {
+      return null;
+    }
+
+    await connectDB();
+
+    const user = await User.findById(userId).select('firstName company activeWorkspace');
+    if (!user) {
+      return null;
+    }
+
+    if (user.activeWorkspace) {
+      const current = await Workspace.findById(user.activeWorkspace);
+      if (current && current.hasMember(userId)) {
+        return current;
+      }
+    }
+
+    const workspaces = await Workspace.findForUser(userId);
+    const workspace = workspaces.find(item => item.isOwner(userId))
+      || workspaces[0]
+      || await this.ensurePersonalWorkspace(user);
+
+    await User.updateOne({ _id: userId }, { activeWorkspace: workspace._id });
+
+    return workspace;
+  }
+
+  /**
+   * Returns the user id the active workspace's records are stored under
+   * @param userId - Signed-in user
+   * @returns Promise<string> - The workspace owner's id (the user's own id if they have no workspace)
+   */
+  static async getScopeUserId(userId: string): Promise<string> {
+    const workspace = await this.getActiveWorkspace(userId);
+    return workspace ? workspace.ownerId : userId;
+  }
+
+  /**
+   * Lists every workspace the user can switch to
+   */
+  static async listForUser(userId: string): Promise<WorkspaceSummary[]> {
+    const active = await this.getActiveWorkspace(userId);
+    const workspaces = await Workspace.findForUser(userId);
+
+    const roleIds = workspaces
+      .map(workspace => workspace.getMemberRole(userId))
+      .filter((roleId): roleId is Types.ObjectId => Boolean(roleId));
+    const roles = await Role.find({ _id: { $in: roleIds } }).select('name');
+    const roleNames = new Map(roles.map(role => [String(role._id), role.name]));
+
+    return workspaces.map(workspace => {
+      const isOwner = workspace.isOwner(userId);
+      const roleId = workspace.getMemberRole(userId);
+
+      return {
+        id: String(workspace._id),
+        name: workspace.name,
+        isOwner,
+        isActive: Boolean(active && String(active._id) === String(workspace._id)),
+        role: isOwner ? 'Owner' : roleNames.get(String(roleId)) || 'Member',
+        memberCount: workspace.members.length + 1
+      };
+    });
+  }
+
+  /**
+   * Makes another workspace the user belongs to the active one
+   */
+  static async switchWorkspace(userId: string, workspaceId: string): Promise<WorkspaceResult> {
+    await connectDB();
+
+    if (!Types.ObjectId.isValid(workspaceId)) {
+      return failure('INVALID_ID', 'Invalid workspace ID');
+    }
+
+    const workspace = await Workspace.findById(workspaceId);
+    if (!workspace || !workspace.hasMember(userId)) {
+      return failure('NOT_FOUND', 'Workspace not found');
+    }
+
+    await User.updateOne({ _id: userId }, { activeWorkspace: workspace._id });
+
+    return { success: true, workspace };
+  }
+
+  /**
+   * Adds a user to a workspace with the role they act with there
+   * Does nothing if they already belong to it
+   */
+  static async addMember(
+    workspaceId: Types.ObjectId | string,
+    userId: string,
+    roleId: Types.ObjectId | string,
+    invitedBy: string | null = null
+  ): Promise<void> {
+    await connectDB();
+
+    await Workspace.updateOne(
+      { _id: workspaceId, ownerId: { $ne: userId }, 'members.userId': { $ne: userId } },
+      { $push: { members: { userId, role: roleId, invitedBy, joinedAt: new Date() } } }
+    );
+  }
+
+  /**
+   * Adds a newly accepted invitee to the workspace they were invited to and
+   * makes it their active one. Invitations sent before workspaces existed
+   * join the inviter's active workspace.
+   * Role and inviter may be populated or plain ids (an ObjectId's _id is itself).
+   */
+  static async joinFromInvitation(
+    userId: string,
+    invitation: { workspace?: Types.ObjectId | null; role: { _id: Types.ObjectId }; invitedBy: { _id: Types.ObjectId } }
+  ): Promise<IWorkspaceDocument | null> {
+    const roleId = invitation.role._id;
+    const inviterId = String(invitation.invitedBy._id);
+
+    const workspace = invitation.workspace
+      ? await Workspace.findById(invitation.workspace)
+      : await this.getActiveWorkspace(inviterId);
+
+    if (!workspace) {
+      return null;
+    }
+
+    await this.addMember(workspace._id as Types.ObjectId, userId, roleId, inviterId);
+    await User.updateOne({ _id: userId }, { activeWorkspace: workspace._id });
+
+    return workspace;
+  }
+
+  /**
+   * Lists the owner and members of a workspace
+   */
+  static async getMembers(workspace: IWorkspaceDocument): Promise<WorkspaceMemberSummary[]> {
+    await connectDB();
+
+    const userIds = [workspace.ownerId, ...workspace.members.map(member => member.userId)];
+    const [users, roles] = await Promise.all([
+      User.find({ _id: { $in: userIds } }).select('firstName lastName email'),
+      Role.find({ _id: { $in: workspace.members.map(member => member.role) } }).select('name')
+    ]);
+
+    const usersById = new Map(users.map(user => [String(user._id), user]));
+    const rolesById = new Map(roles.map(role => [String(role._id), role]));
+
+    const describe = (userId: string) => {
+      const user = usersById.get(userId);
+      return {
+        name: user ? `${user.firstName} ${user.lastName}` : 'Unknown user',
+        email: user?.email || ''
+      };
+    };
+
+    return [
+      {
+        userId: workspace.ownerId,
+        ...describe(workspace.ownerId),
+        role: null,
+        isOwner: true,
+        joinedAt: workspace.createdAt
+      },
+      ...workspace.members.map(member => {
+        const role = rolesById.get(String(member.role));
+        return {
+          userId: member.userId,
+          ...describe(member.userId),
+          role: role ? { id: String(role._id), name: role.name } : null,
+          isOwner: false,
+          joinedAt: member.joinedAt
+        };
+      })
+    ];
+  }
+
+  /**
+   * Removes a member from the workspace the owner owns
+   */
+  static async removeMember(ownerId: string, memberUserId: string): Promise<WorkspaceResult> {
+    await connectDB();
+
+    if (ownerId === memberUserId) {
+      return failure('VALIDATION_ERROR', 'The owner cannot be removed from their workspace');
+    }
+
+    const workspace = await Workspace.findOneAndUpdate(
+      { ownerId, 'members.userId': memberUserId },
+      { $pull: { members: { userId: memberUserId } } },
+      { new: true }
+    );
+
+    if (!workspace) {
+      return failure('NOT_FOUND', 'Member not found');
+    }
+
+    // Their next request falls back to another workspace they belong to
+    await User.updateOne({ _id: memberUserId, activeWorkspace: workspace._id }, { activeWorkspace: null });
+
+    return { success: true, workspace };
+  }
+}
@@ -1,11 +1,24 @@
 import * as XLSX from 'xlsx';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
 import { connectToDatabase } from '@/lib/database/connection';
 import Product from '@/lib/database/models/Product';
 import ProductVariant from '@/lib/database/models/ProductVariant';
 import Sale from '@/lib/database/models/Sale';
 import Expense from '@/lib/database/models/Expense';
-import Income from '@/lib/database/models/Income';
-import InventoryLog from '@/lib/database/models/InventoryLog';
+import Income, { IIncome } from '@/lib/database/models/Income';
+import IncomeCategory from '@/lib/database/models/IncomeCategory';
+import InventoryLog, { IInventoryLog } from '@/lib/database/models/InventoryLog';
+import Invoice, { IInvoice } from '@/lib/database/models/Invoice';
+import StockAlert, { IStockAlert } from '@/lib/database/models/StockAlert';
+import Vendor, { IVendor } from '@/lib/database/models/Vendor';
+import ExportJobModel, {
+  ExportFormat,
+  ExportJobStatus,
+  ExportType,
+  IExportJobDocument
+} from '@/lib/database/models/ExportJob';
+import { EXPORTS_DIR, FileCleanup } from '@/lib/utils/file-cleanup';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -38,6 +51,83 @@ function stripHtmlTags(html: string): string {
   return decoded.replace(/\s+/g, ' ').trim();
 }
 
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const toIsoDate = (value?: Date | string): string => (value ? new Date(value).toISOString() : '');
+
+type LeanRecord<T> = T & { _id: { toString(): string } };
+
+/**
+ * One output column; the key is the CSV/Excel header and the JSON property name
+ */
+interface ExportColumn<T> {
+  key: string;
+  value: (record: T) => string | number;
+}
+
+/**
+ * Maps records through column definitions so every row has the same keys in the same order
+ */
+function toExportRows<T>(records: T[], columns: ExportColumn<T>[]): Record<string, string | number>[] {
+  return records.map(record =>
+    Object.fromEntries(columns.map(column => [column.key, column.value(record) ?? '']))
+  );
+}
+
+const INVOICE_COLUMNS: ExportColumn<LeanRecord<IInvoice>>[] = [
+  { key: 'id', value: invoice => invoice._id.toString() },
+  { key: 'invoiceNumber', value: invoice => invoice.invoiceNumber },
+  { key: 'status', value: invoice => invoice.status },
+  { key: 'customer', value: invoice => invoice.billTo },
+  { key: 'customerEmail', value: invoice => invoice.billToEmail },
+  { key: 'orderDate', value: invoice => toIsoDate(invoice.orderDate) },
+  { key: 'dueDate', value: invoice => toIsoDate(invoice.dueDate) },
+  { key: 'currency', value: invoice => invoice.currency || '' },
+  { key: 'items', value: invoice => invoice.orders?.length || 0 },
+  { key: 'subtotal', value: invoice => invoice.totalCost },
+  { key: 'vatRate', value: invoice => invoice.vatRate },
+  { key: 'vat', value: invoice => invoice.vat },
+  { key: 'discount', value: invoice => invoice.discount || 0 },
+  { key: 'grandTotal', value: invoice => invoice.grandTotal },
+  { key: 'amountPaid', value: invoice => invoice.amountPaid || 0 },
+  { key: 'balanceDue', value: invoice => invoice.balanceDue ?? invoice.grandTotal },
+  { key: 'lastSentAt', value: invoice => toIsoDate(invoice.lastSentAt) },
+  { key: 'createdAt', value: invoice => toIsoDate(invoice.createdAt) }
+];
+
+const INVENTORY_LOG_COLUMNS: ExportColumn<LeanRecord<IInventoryLog>>[] = [
+  { key: 'id', value: log => log._id.toString() },
+  { key: 'date', value: log => toIsoDate(log.createdAt) },
+  { key: 'sku', value: log => log.sku },
+  { key: 'type', value: log => log.type },
+  { key: 'quantityBefore', value: log => log.quantityBefore },
+  { key: 'quantityChange', value: log => log.quantityChange },
+  { key: 'quantityAfter', value: log => log.quantityAfter },
+  { key: 'source', value: log => log.source },
+  { key: 'reason', value: log => stripHtmlTags(log.reason || '') },
+  { key: 'orderNumber', value: log => log.metadata?.orderNumber || '' },
+  { key: 'location', value: log => log.location || '' },
+  { key: 'batchNumber', value: log => log.batchNumber || '' },
+  { key: 'userId', value: log => log.userId }
+];
+
+const STOCK_ALERT_COLUMNS: ExportColumn<LeanRecord<IStockAlert>>[] = [
+  { key: 'id', value: alert => alert._id.toString() },
+  { key: 'sku', value: alert => alert.sku },
+  { key: 'alertType', value: alert => alert.alertType },
+  { key: 'priority', value: alert => alert.priority },
+  { key: 'status', value: alert => alert.status },
+  { key: 'currentStock', value: alert => alert.currentStock },
+  { key: 'threshold', value: alert => alert.threshold },
+  { key: 'severity', value: alert => alert.severity },
+  { key: 'message', value: alert => alert.message },
+  { key: 'recommendedAction', value: alert => alert.recommendedAction || '' },
+  { key: 'acknowledgedAt', value: alert => toIsoDate(alert.acknowledgedAt) },
+  { key: 'resolvedAt', value: alert => toIsoDate(alert.resolvedAt) },
+  { key: 'resolutionNotes', value: alert => alert.resolutionNotes || '' },
+  { key: 'createdAt', value: alert => toIsoDate(alert.createdAt) }
+];
+
 export interface ExportFilters {
   dateRange?: {
     start?: string;
@@ -46,34 +136,77 @@ export interface ExportFilters {
   category?: string;
   status?: string;
   search?: string;
+  sku?: string;
+  vendorId?: string; // Reference to Vendor
 }
 
 export interface ExportJob {
   id: string;
-  type: 'products' | 'sales' | 'expenses' | 'financial-summary';
-  format: 'csv' | 'excel' | 'json';
+  type: ExportType;
+  format: ExportFormat;
   fileName: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: ExportJobStatus;
   totalRecords: number;
   processedRecords: number;
   fileSize: number;
   downloadUrl: string | null;
-  filePath?: string;
   filters?: ExportFilters;
+  scheduleId?: string;
   createdAt: Date;
   completedAt?: Date;
+  expiresAt?: Date; // When the file is removed by retention cleanup
   error?: string;
 }
 
-// In-memory job storage (in production, use Redis or database)
-const exportJobs: Map<string, ExportJob> = new Map();
+export interface ExportJobOptions {
+  userId?: string;
+  scheduleId?: string;
+  retentionDays?: number;
+}
+
+// Days an export file is kept when the caller does not choose a retention period
+export const DEFAULT_EXPORT_RETENTION_DAYS = 7;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  excel: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json'
+};
+
+const getLinkSecret = (): string => process.env.EXPORT_LINK_SECRET || process.env.NEXTAUTH_SECRET || '';
+
+/**
+ * Signs a download link for an export job that is valid until `expires` (epoch milliseconds)
+ */
+export function signExportDownload(jobId: string, expires: number): string {
+  return crypto.createHmac('sha256', getLinkSecret()).update(`${jobId}:${expires}`).digest('hex');
+}
+
+/**
+ * Checks a signed download link; links without a configured secret are never valid
+ */
+export function verifyExportDownload(
+  jobId: string,
+  expires: string | number,
+  signature: string,
+  now: number = Date.now()
+): boolean {
+  const expiresAt = Number(expires);
+  if (!getLinkSecret() || !Number.isFinite(expiresAt) || expiresAt < now) {
+    return false;
+  }
+
+  const expected = Buffer.from(signExportDownload(jobId, expiresAt));
+  const received = Buffer.from(signature);
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
 
 export class ExportService {
   private static instance: ExportService;
   private uploadsDir: string;
 
   constructor() {
-    this.uploadsDir = path.join(process.cwd(), 'public', 'exports');
+    this.uploadsDir = EXPORTS_DIR;
     this.ensureUploadsDir();
   }
 
@@ -206,6 +339,10 @@ export class ExportService {
       query.category = filters.category;
     }
 
+    if (filters.vendorId) {
+      query.vendorId = filters.vendorId;
+    }
+
     if (filters.dateRange?.start || filters.dateRange?.end) {
       query.date = {};
       if (filters.dateRange.start) {
@@ -308,6 +445,203 @@ export class ExportService {
     ];
   }
 
+  /**
+   * Invoices by order date; the SKU filter matches any line item
+   */
+  private async getInvoiceData(filters: ExportFilters = {}, userId?: string) {
+    await connectToDatabase();
+
+    const query: any = {};
+
+    if (userId) {
+      query.userId = userId;
+    }
+
+    if (filters.status) {
+      query.status = filters.status;
+    }
+
+    if (filters.sku) {
+      query['orders.sku'] = { $regex: `^${escapeRegex(filters.sku.trim())}$`, $options: 'i' };
+    }
+
+    if (filters.search) {
+      const search = { $regex: escapeRegex(filters.search), $options: 'i' };
+      query.$or = [{ invoiceNumber: search }, { billTo: search }, { billToEmail: search }];
+    }
+
+    const dateQuery = this.getDateQuery(filters);
+    if (dateQuery) {
+      query.orderDate = dateQuery;
+    }
+
+    const invoices = await Invoice.find(query).sort({ orderDate: -1 }).lean<LeanRecord<IInvoice>[]>();
+
+    return toExportRows(invoices, INVOICE_COLUMNS);
+  }
+
+  private async getIncomeData(filters: ExportFilters = {}, userId?: string) {
+    await connectToDatabase();
+
+    const query: any = {};
+
+    if (userId) {
+      query.userId = userId;
+    }
+
+    if (filters.category) {
+      query.categoryId = filters.category;
+    }
+
+    if (filters.search) {
+      query.description = { $regex: escapeRegex(filters.search), $options: 'i' };
+    }
+
+    const dateQuery = this.getDateQuery(filters);
+    if (dateQuery) {
+      query.date = dateQuery;
+    }
+
+    const incomes = await Income.find(query).sort({ date: -1 }).lean<LeanRecord<IIncome>[]>();
+
+    // categoryId is stored as a plain string, so category names are looked up separately
+    const categoryIds = Array.from(new Set(incomes.map(income => income.categoryId).filter(Boolean)));
+    const categories = await IncomeCategory.find({ _id: { $in: categoryIds } }).select('name').lean();
+    const categoryNames = new Map(categories.map(category => [category._id.toString(), category.name]));
+
+    return toExportRows(incomes, [
+      { key: 'id', value: income => income._id.toString() },
+      { key: 'date', value: income => toIsoDate(income.date) },
+      { key: 'description', value: income => stripHtmlTags(income.description || '') },
+      { key: 'category', value: income => categoryNames.get(income.categoryId) || '' },
+      { key: 'amount', value: income => income.amount },
+      { key: 'currency', value: income => income.currency || '' },
+      { key: 'isRecurring', value: income => (income.isRecurring ? 'Yes' : 'No') },
+      { key: 'invoiceId', value: income => income.invoiceId || '' },
+      { key: 'salesOrderId', value: income => income.salesOrderId || '' },
+      { key: 'saleId', value: income => income.saleId || '' },
+      { key: 'createdAt', value: income => toIsoDate(income.createdAt) }
+    ]);
+  }
+
+  /**
+   * Stock movements; the status filter narrows by movement type (sale, restock, adjustment...)
+   */
+  private async getInventoryLogData(filters: ExportFilters = {}) {
+    await connectToDatabase();
+
+    const query: any = {};
+
+    if (filters.sku) {
+      query.sku = filters.sku.trim().toUpperCase();
+    }
+
+    if (filters.status) {
+      query.type = filters.status;
+    }
+
+    const dateQuery = this.getDateQuery(filters);
+    if (dateQuery) {
+      query.createdAt = dateQuery;
+    }
+
+    const logs = await InventoryLog.find(query).sort({ createdAt: -1 }).lean<LeanRecord<IInventoryLog>[]>();
+
+    return toExportRows(logs, INVENTORY_LOG_COLUMNS);
+  }
+
+  private async getStockAlertData(filters: ExportFilters = {}) {
+    await connectToDatabase();
+
+    const query: any = {};
+
+    if (filters.sku) {
+      query.sku = filters.sku.trim().toUpperCase();
+    }
+
+    if (filters.status) {
+      query.status = filters.status;
+    }
+
+    if (filters.search) {
+      query.message = { $regex: escapeRegex(filters.search), $options: 'i' };
+    }
+
+    const dateQuery = this.getDateQuery(filters);
+    if (dateQuery) {
+      query.createdAt = dateQuery;
+    }
+
+    const alerts = await StockAlert.find(query).sort({ createdAt: -1 }).lean<LeanRecord<IStockAlert>[]>();
+
+    return toExportRows(alerts, STOCK_ALERT_COLUMNS);
+  }
+
+  /**
+   * Vendors with their expense totals; the date range limits which expenses are counted
+   */
+  private async getVendorData(filters: ExportFilters = {}, userId?: string) {
+    await connectToDatabase();
+
+    const query: any = {};
+
+    if (userId) {
+      query.userId = userId;
+    }
+
+    if (filters.vendorId) {
+      if (!mongoose.isValidObjectId(filters.vendorId)) {
+        throw new Error('Invalid vendor ID');
+      }
+      query._id = filters.vendorId;
+    }
+
+    if (filters.search) {
+      const search = { $regex: escapeRegex(filters.search), $options: 'i' };
+      query.$or = [{ name: search }, { contactEmail: search }];
+    }
+
+    const vendors = await Vendor.find(query).sort({ name: 1 }).lean<LeanRecord<IVendor>[]>();
+
+    const expenseMatch: any = { vendorId: { $in: vendors.map(vendor => vendor._id.toString()) } };
+    const dateQuery = this.getDateQuery(filters);
+    if (dateQuery) {
+      expenseMatch.date = dateQuery;
+    }
+
+    const totals = await Expense.aggregate([
+      { $match: expenseMatch },
+      { $group: { _id: '$vendorId', total: { $sum: '$amount' }, count: { $sum: 1 }, lastDate: { $max: '$date' } } }
+    ]);
+    const totalsByVendor = new Map(totals.map(total => [String(total._id), total]));
+
+    return toExportRows(vendors, [
+      { key: 'id', value: vendor => vendor._id.toString() },
+      { key: 'name', value: vendor => vendor.name },
+      { key: 'contactEmail', value: vendor => vendor.contactEmail || '' },
+      { key: 'contactPhone', value: vendor => vendor.contactPhone || '' },
+      { key: 'address', value: vendor => stripHtmlTags(vendor.address || '') },
+      { key: 'notes', value: vendor => stripHtmlTags(vendor.notes || '') },
+      { key: 'expenseCount', value: vendor => totalsByVendor.get(vendor._id.toString())?.count || 0 },
+      { key: 'totalSpent', value: vendor => totalsByVendor.get(vendor._id.toString())?.total || 0 },
+      { key: 'lastExpenseDate', value: vendor => toIsoDate(totalsByVendor.get(vendor._id.toString())?.lastDate) },
+      { key: 'createdAt', value: vendor => toIsoDate(vendor.createdAt) }
+    ]);
+  }
+
+  private getDateQuery(filters: ExportFilters): { $gte?: Date; $lte?: Date } | undefined {
+    if (!filters.dateRange?.start && !filters.dateRange?.end) return undefined;
+
+    const dateQuery: { $gte?: Date; $lte?: Date } = {};
+    if (filters.dateRange.start) {
+      dateQuery.$gte = new Date(filters.dateRange.start);
+    }
+    if (filters.dateRange.end) {
+      dateQuery.$lte = new Date(filters.dateRange.end);
+    }
+    return dateQuery;
+  }
+
   private async generateCSV(data: any[]): Promise<string> {
     if (data.length === 0) return '';
 
@@ -337,56 +671,74 @@ export class ExportService {
     return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
   }
 
+  /**
+   * Creates an export job and generates the file in the background
+   */
   async createExportJob(
-    type: ExportJob['type'],
-    format: ExportJob['format'],
-    filters: ExportFilters = {}
+    type: ExportType,
+    format: ExportFormat,
+    filters: ExportFilters = {},
+    options: ExportJobOptions = {}
   ): Promise<ExportJob> {
-    const jobId = this.generateJobId();
+    const job = await this.createJobRecord(type, format, filters, options);
+
+    // Start processing asynchronously; failures are recorded on the job
+    this.processExportJob(job).catch(error => {
+      console.error(`Error processing export job ${job.jobId}:`, error);
+    });
+
+    return this.toExportJob(job);
+  }
+
+  /**
+   * Creates an export job and waits for the file, for scheduled runs that deliver it straight away
+   */
+  async runExportJob(
+    type: ExportType,
+    format: ExportFormat,
+    filters: ExportFilters = {},
+    options: ExportJobOptions = {}
+  ): Promise<IExportJobDocument> {
+    const job = await this.createJobRecord(type, format, filters, options);
+
+    try {
+      await this.processExportJob(job);
+    } catch {
+      // The failure is recorded on the job for the caller to report
+    }
+
+    return job;
+  }
+
+  private async createJobRecord(
+    type: ExportType,
+    format: ExportFormat,
+    filters: ExportFilters,
+    options: ExportJobOptions
+  ): Promise<IExportJobDocument> {
+    await connectToDatabase();
+
     const timestamp = new Date().toISOString().split('T')[0];
     const fileExtension = format === 'excel' ? 'xlsx' : format;
-    const fileName = `${type.replace('-', '_')}_export_${timestamp}.${fileExtension}`;
+    const retentionDays = options.retentionDays ?? DEFAULT_EXPORT_RETENTION_DAYS;
 
-    const job: ExportJob = {
-      id: jobId,
+    return ExportJobModel.create({
+      jobId: this.generateJobId(),
       type,
       format,
-      fileName,
+      fileName: `${type.replace('-', '_')}_export_${timestamp}.${fileExtension}`,
       status: 'pending',
-      totalRecords: 0,
-      processedRecords: 0,
-      fileSize: 0,
-      downloadUrl: null,
       filters,
-      createdAt: new Date(),
-    };
-
-    exportJobs.set(jobId, job);
-
-    // Start processing asynchronously with proper error handling
-    this.processExportJob(jobId).catch(error => {
-      console.error(`Error processing export job ${jobId}:`, error);
-      const failedJob = exportJobs.get(jobId);
-      if (failedJob) {
-        failedJob.status = 'failed';
-        failedJob.error = error instanceof Error ? error.message : 'Unknown error occurred';
-        failedJob.completedAt = new Date();
-        exportJobs.set(jobId, failedJob);
-      }
+      scheduleId: options.scheduleId,
+      userId: options.userId,
+      expiresAt: new Date(Date.now() + retentionDays * 24 * 60 * 60 * 1000)
     });
-
-    return job;
   }
 
-  private async processExportJob(jobId: string): Promise<void> {
-    const job = exportJobs.get(jobId);
-    if (!job) {
-      throw new Error(`Export job ${jobId} not found`);
-    }
-
+  private async processExportJob(job: IExportJobDocument): Promise<void> {
     try {
       job.status = 'processing';
-      exportJobs.set(jobId, job);
+      await job.save();
 
       let data: any[] = [];
 
@@ -404,6 +756,21 @@ export class ExportService {
         case 'financial-summary':
           data = await this.getFinancialSummaryData(job.filters);
           break;
+        case 'invoices':
+          data = await this.getInvoiceData(job.filters, job.userId);
+          break;
+        case 'income':
+          data = await this.getIncomeData(job.filters, job.userId);
+          break;
+        case 'inventory-logs':
+          data = await this.getInventoryLogData(job.filters);
+          break;
+        case 'stock-alerts':
+          data = await this.getStockAlertData(job.filters);
+          break;
+        case 'vendors':
+          data = await this.getVendorData(job.filters, job.userId);
+          break;
         default:
           throw new Error(`Unknown export type: ${job.type}`);
       }
@@ -414,28 +781,23 @@ export class ExportService {
 
       job.totalRecords = data.length;
       job.processedRecords = data.length;
-      exportJobs.set(jobId, job);
 
       if (data.length === 0) {
         throw new Error('No data found matching the specified filters');
       }
 
       let fileContent: string | Buffer;
-      let contentType: string;
 
       // Generate file content based on format
       switch (job.format) {
         case 'csv':
           fileContent = await this.generateCSV(data);
-          contentType = 'text/csv';
           break;
         case 'excel':
           fileContent = await this.generateExcel(data);
-          contentType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
           break;
         case 'json':
           fileContent = JSON.stringify(data, null, 2);
-          contentType = 'application/json';
           break;
         default:
           throw new Error(`Unsupported export format: ${job.format}`);
@@ -448,8 +810,8 @@ export class ExportService {
       // Ensure uploads directory exists
       await this.ensureUploadsDir();
 
-      // Save file to disk
-      const filePath = path.join(this.uploadsDir, job.fileName);
+      // Files are stored under the job ID so exports created on the same day don't overwrite each other
+      const filePath = path.join(this.uploadsDir, `${job.jobId}${path.extname(job.fileName)}`);
       await fs.writeFile(filePath, fileContent);
 
       // Verify file was written
@@ -460,70 +822,67 @@ export class ExportService {
 
       job.fileSize = stats.size;
       job.filePath = filePath;
-      job.downloadUrl = `/exports/${job.fileName}`;
       job.status = 'completed';
       job.completedAt = new Date();
+      await job.save();
 
-      exportJobs.set(jobId, job);
-
-      console.log(`Export job ${jobId} completed successfully. File: ${job.fileName}, Size: ${job.fileSize} bytes`);
+      console.log(`Export job ${job.jobId} completed successfully. File: ${job.fileName}, Size: ${job.fileSize} bytes`);
 
     } catch (error) {
-      console.error(`Export job ${jobId} failed:`, error);
+      console.error(`Export job ${job.jobId} failed:`, error);
 
       job.status = 'failed';
       job.error = error instanceof Error ? error.message : 'Unknown error occurred during export';
       job.completedAt = new Date();
-      exportJobs.set(jobId, job);
+      await job.save();
 
       throw error;
     }
   }
 
-  getExportJob(jobId: string): ExportJob | undefined {
-    return exportJobs.get(jobId);
+  /**
+   * Gets an export job, limited to the given user's jobs when a user ID is passed
+   */
+  async getExportJob(jobId: string, userId?: string): Promise<ExportJob | null> {
+    await connectToDatabase();
+    const job = await ExportJobModel.findOne({ jobId, ...(userId ? { userId } : {}) });
+    return job ? this.toExportJob(job) : null;
   }
 
-  getAllExportJobs(): ExportJob[] {
-    return Array.from(exportJobs.values()).sort((a, b) =>
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+  async getAllExportJobs(userId: string): Promise<ExportJob[]> {
+    await connectToDatabase();
+    const jobs = await ExportJobModel.find({ userId }).sort({ createdAt: -1 }).limit(500);
+    return jobs.map(job => this.toExportJob(job));
   }
 
-  async deleteExportJob(jobId: string): Promise<boolean> {
-    const job = exportJobs.get(jobId);
-    if (!job) return false;
+  async deleteExportJob(jobId: string, userId?: string): Promise<boolean> {
+    await connectToDatabase();
 
-    // Delete file if it exists
-    if (job.filePath) {
-      try {
-        await fs.unlink(job.filePath);
-      } catch (error) {
-        console.error('Error deleting export file:', error);
-      }
-    }
+    const job = await ExportJobModel.findByJobId(jobId);
+    if (!job || (userId && !job.isOwnedBy(userId))) return false;
 
-    exportJobs.delete(jobId);
+    await FileCleanup.deleteExportFile(job.filePath);
+    await job.deleteOne();
     return true;
   }
 
-  async getFileStream(jobId: string): Promise<{ stream: Buffer, contentType: string, fileName: string } | null> {
-    const job = exportJobs.get(jobId);
-    if (!job || !job.filePath || job.status !== 'completed') {
+  /**
+   * Reads a completed export file, limited to the given user's jobs when a user ID is passed
+   */
+  async getFileStream(jobId: string, userId?: string): Promise<{ stream: Buffer, contentType: string, fileName: string } | null> {
+    await connectToDatabase();
+
+    const job = await ExportJobModel.findByJobId(jobId);
+    if (!job || !job.filePath || job.status !== 'completed' || (userId && !job.isOwnedBy(userId))) {
       return null;
     }
 
     try {
       const fileBuffer = await fs.readFile(job.filePath);
-      const contentType = job.format === 'excel'
-        ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
-        : job.format === 'csv'
-        ? 'text/csv'
-        : 'application/json';
 
       return {
         stream: fileBuffer,
-        contentType,
+        contentType: CONTENT_TYPES[job.format],
         fileName: job.fileName
       };
     } catch (error) {
@@ -531,6 +890,41 @@ export class ExportService {
       return null;
     }
   }
+
+  /**
+   * Builds an absolute download link that works without signing in until the file expires
+   */
+  createSignedDownloadUrl(job: Pick<IExportJobDocument, 'jobId' | 'expiresAt'>): string {
+    if (!getLinkSecret()) {
+      throw new Error('EXPORT_LINK_SECRET or NEXTAUTH_SECRET must be set to create download links');
+    }
+
+    const expires = (job.expiresAt || new Date(Date.now() + DEFAULT_EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000)).getTime();
+    const appUrl = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '');
+    const signature = signExportDownload(job.jobId, expires);
+
+    return `${appUrl}/api/bulk-export/download/${job.jobId}?expires=${expires}&signature=${signature}`;
+  }
+
+  private toExportJob(job: IExportJobDocument): ExportJob {
+    return {
+      id: job.jobId,
+      type: job.type,
+      format: job.format,
+      fileName: job.fileName,
+      status: job.status,
+      totalRecords: job.totalRecords,
+      processedRecords: job.processedRecords,
+      fileSize: job.fileSize,
+      downloadUrl: job.status === 'completed' ? `/api/bulk-export/download/${job.jobId}` : null,
+      filters: job.filters,
+      scheduleId: job.scheduleId,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+      expiresAt: job.expiresAt,
+      error: job.error
+    };
+  }
 }
 
-export const exportService = ExportService.getInstance();
\ No newline at end of file
+export const exportService = ExportService.getInstance();
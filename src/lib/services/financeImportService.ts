@@ -5,7 +5,10 @@ import Expense from '@/lib/database/models/Expense';
 import IncomeCategory from '@/lib/database/models/IncomeCategory';
 import ExpenseCategory from '@/lib/database/models/ExpenseCategory';
 import Vendor from '@/lib/database/models/Vendor';
-import ImportJob from '@/lib/database/models/ImportJob';
+import ImportJob, { IImportJob, IImportRollback } from '@/lib/database/models/ImportJob';
+import CategorizationRule, { ICategorizationRuleDocument } from '@/lib/database/models/CategorizationRule';
+import { CategorizationRuleService } from './CategorizationRuleService';
+import { BudgetService } from './BudgetService';
 
 export interface ParsedFinanceData {
   headers: string[];
@@ -40,7 +43,7 @@ export interface ImportValidationResult {
 
 export interface ImportJobResult {
   jobId: string;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'rolled_back';
   totalRows: number;
   processedRows: number;
   successfulRows: number;
@@ -64,6 +67,7 @@ export interface ImportJobResult {
   createdAt: Date;
   completedAt?: Date;
   userId: string;
+  rollback?: IImportRollback;
 }
 
 interface FieldMapping {
@@ -548,6 +552,8 @@ export class FinanceImportService {
       console.log(`📝 [Import Performance] Pre-cached ${existingVendors.length} vendors`);
     }
 
+    const rules = await CategorizationRule.findActiveByUser(userId, type);
+
     const preCacheTime = Date.now() - preCacheStartTime;
     console.log(`✅ [Import Performance] Pre-caching completed in ${preCacheTime}ms (${existingCategories.length} categories, ${vendorCache.size} vendors)`);
 
@@ -564,6 +570,8 @@ export class FinanceImportService {
     }
 
     let processedCount = 0;
+    // Expense categories that received records, for budget alerts once the import finishes
+    const importedCategoryIds = new Set<string>();
 
     for (let batchIndex = 0; batchIndex < batches.length; batchIndex++) {
       const batch = batches[batchIndex];
@@ -577,7 +585,11 @@ export class FinanceImportService {
 
         try {
           // Extract and validate data
-          const recordData = await this.extractRecordData(row, mapping, type, userId, options, categoryCache, vendorCache);
+          const recordData = await this.extractRecordData(
+            row, mapping, type, userId, options, categoryCache, vendorCache, rules, job.createdRecords
+          );
+          // Tags the record so a rollback can find everything this job created
+          recordData.importJobId = jobId;
 
           return { success: true, recordData, rowNumber };
         } catch (error) {
@@ -596,6 +608,10 @@ export class FinanceImportService {
       const successfulRecords = batchResults.filter(result => result.success).map(result => result.recordData);
       const failedRecords = batchResults.filter(result => !result.success);
 
+      if (type === 'expense') {
+        successfulRecords.forEach(record => record.categoryId && importedCategoryIds.add(String(record.categoryId)));
+      }
+
       // Bulk create successful records
       if (successfulRecords.length > 0) {
         try {
@@ -670,6 +686,8 @@ export class FinanceImportService {
     job.completedAt = new Date();
     job.progress.percentage = 100;
     await job.save();
+
+    importedCategoryIds.forEach(categoryId => BudgetService.checkBudgetAlertsInBackground(userId, categoryId));
   }
 
   /**
@@ -682,7 +700,9 @@ export class FinanceImportService {
     userId: string,
     options: ImportOptions,
     categoryCache: Map<string, any>,
-    vendorCache: Map<string, any>
+    vendorCache: Map<string, any>,
+    rules: ICategorizationRuleDocument[],
+    createdRecords: IImportJob['createdRecords']
   ): Promise<any> {
     const extractStartTime = Date.now();
     const data: any = {};
@@ -710,19 +730,34 @@ export class FinanceImportService {
       }
     });
 
-    // Handle category
     const categoryColumn = Object.keys(mapping).find(key => mapping[key] === 'category');
-    if (categoryColumn && row[categoryColumn]) {
-      const categoryName = row[categoryColumn].toString().trim();
-      data.categoryId = await this.resolveCategory(categoryName, type, userId, options, categoryCache);
+    const categoryName = categoryColumn && row[categoryColumn] ? row[categoryColumn].toString().trim() : '';
+    const vendorColumn = Object.keys(mapping).find(key => mapping[key] === 'vendor');
+    const vendorName = type === 'expense' && vendorColumn && row[vendorColumn] ? row[vendorColumn].toString().trim() : '';
+
+    // Vendors named in the file resolve first so rules can match on them
+    if (vendorName && vendorCache.has(vendorName.toLowerCase())) {
+      data.vendorId = vendorCache.get(vendorName.toLowerCase());
+    }
+
+    // Categorization rules take precedence over creating categories and vendors
+    // for names that do not exist yet
+    const assignment = CategorizationRuleService.applyRules(rules, data);
+    const existingCategoryId = categoryName ? categoryCache.get(`${type}_${categoryName.toLowerCase()}`) : undefined;
+
+    // Handle category
+    if (existingCategoryId || assignment.categoryId) {
+      data.categoryId = existingCategoryId || assignment.categoryId;
+    } else if (categoryName) {
+      data.categoryId = await this.resolveCategory(categoryName, type, userId, options, categoryCache, createdRecords);
     }
 
     // Handle vendor (for expenses)
-    if (type === 'expense') {
-      const vendorColumn = Object.keys(mapping).find(key => mapping[key] === 'vendor');
-      if (vendorColumn && row[vendorColumn]) {
-        const vendorName = row[vendorColumn].toString().trim();
-        data.vendorId = await this.resolveVendor(vendorName, userId, options, vendorCache);
+    if (type === 'expense' && !data.vendorId) {
+      if (assignment.vendorId) {
+        data.vendorId = assignment.vendorId;
+      } else if (vendorName) {
+        data.vendorId = await this.resolveVendor(vendorName, userId, options, vendorCache, createdRecords);
       }
     }
 
@@ -754,7 +789,8 @@ export class FinanceImportService {
     type: 'income' | 'expense',
     userId: string,
     options: ImportOptions,
-    cache: Map<string, any>
+    cache: Map<string, any>,
+    createdRecords: IImportJob['createdRecords']
   ): Promise<string | null> {
     const resolveStartTime = Date.now();
     const cacheKey = `${type}_${categoryName.toLowerCase()}`;
@@ -778,6 +814,7 @@ export class FinanceImportService {
 
       const categoryId = (category._id as any).toString();
       cache.set(cacheKey, categoryId);
+      createdRecords.push({ model: type === 'income' ? 'IncomeCategory' : 'ExpenseCategory', recordId: categoryId });
 
       const resolveTime = Date.now() - resolveStartTime;
       console.log(`📝 [Performance] Created new category "${categoryName}" in ${resolveTime}ms`);
@@ -796,7 +833,8 @@ export class FinanceImportService {
     vendorName: string,
     userId: string,
     options: ImportOptions,
-    cache: Map<string, any>
+    cache: Map<string, any>,
+    createdRecords: IImportJob['createdRecords']
   ): Promise<string | null> {
     const resolveStartTime = Date.now();
     const cacheKey = vendorName.toLowerCase();
@@ -819,6 +857,7 @@ export class FinanceImportService {
 
       const vendorId = (vendor._id as any).toString();
       cache.set(cacheKey, vendorId);
+      createdRecords.push({ model: 'Vendor', recordId: vendorId });
 
       const resolveTime = Date.now() - resolveStartTime;
       console.log(`📝 [Performance] Created new vendor "${vendorName}" in ${resolveTime}ms`);
@@ -971,7 +1010,8 @@ export class FinanceImportService {
         warnings: job.warnings || [],
         createdAt: job.createdAt,
         completedAt: job.completedAt,
-        userId: job.userId
+        userId: job.userId,
+        rollback: job.rollback
       }));
     } catch (error) {
       console.error(`Failed to get user import jobs for ${userId}:`, error);
@@ -1,11 +1,18 @@
 import { connectDB } from '@/lib/database/connection';
 import mongoose from 'mongoose';
+import { WarehouseService } from '@/lib/services/WarehouseService';
+import { WebhookService } from '@/lib/services/WebhookService';
+import { WEBHOOK_EVENTS } from '@/lib/constants/webhook-events';
 
 export interface StockAlert {
   _id?: string;
   productId: string;
+  variantId?: string;
   productName: string;
   sku: string;
+  warehouseId?: string; // Set for location alerts; product-wide alerts have none
+  warehouseName?: string;
+  location?: string; // Warehouse code
   alertType: 'low_stock' | 'out_of_stock' | 'critical_low' | 'high_demand';
   priority: 'critical' | 'high' | 'medium' | 'low';
   currentStock: number;
@@ -37,6 +44,7 @@ export interface StockAlertFilters {
   priority?: 'critical' | 'high' | 'medium' | 'low';
   status?: 'active' | 'acknowledged' | 'resolved';
   alertType?: 'low_stock' | 'out_of_stock' | 'critical_low' | 'high_demand';
+  warehouseId?: string;
   page?: number;
   limit?: number;
   sortBy?: 'createdAt' | 'priority' | 'productName' | 'currentStock';
@@ -83,8 +91,16 @@ export class StockAlertsService {
         throw new Error('Database connection not established');
       }
 
+      // Products stocked at warehouse locations are evaluated per location instead
+      const locatedProductIds: string[] = await db.collection('stocklevels').distinct('productId');
+
       // Find products that need alerts (stock <= threshold or out of stock)
       const productsNeedingAlerts = await db.collection('products').find({
+        _id: {
+          $nin: locatedProductIds
+            .filter(id => mongoose.Types.ObjectId.isValid(id))
+            .map(id => new mongoose.Types.ObjectId(id))
+        },
         $or: [
           { qty: 0 }, // Out of stock
           { $expr: { $lte: ['$qty', '$lowStockThreshold'] } } // Low stock
@@ -92,7 +108,7 @@ export class StockAlertsService {
         status: 'publish' // Only check published products
       }).toArray();
 
-      const alerts: StockAlert[] = [];
+      const alerts: StockAlert[] = await this.generateLocationAlerts();
 
       for (const product of productsNeedingAlerts) {
         const currentStock = product.qty || 0;
@@ -101,6 +117,7 @@ export class StockAlertsService {
         // Check if alert already exists and is active
         const existingAlert = await db.collection('stockalerts').findOne({
           productId: product._id.toString(),
+          warehouseId: null,
           status: { $in: ['active', 'acknowledged'] }
         });
 
@@ -146,7 +163,10 @@ export class StockAlertsService {
       // Insert new alerts
       if (alerts.length > 0) {
         const alertsToInsert = alerts.map(({ _id, ...alert }) => alert);
-        await db.collection('stockalerts').insertMany(alertsToInsert);
+        const { insertedIds } = await db.collection('stockalerts').insertMany(alertsToInsert);
+        alertsToInsert.forEach((alert, index) => {
+          WebhookService.dispatchInBackground(WEBHOOK_EVENTS.STOCK_ALERT_RAISED, { ...alert, _id: insertedIds[index] });
+        });
       }
 
       // Auto-resolve alerts for products that are back in stock
@@ -159,6 +179,136 @@ export class StockAlertsService {
     }
   }
 
+  /**
+   * Evaluate stock at each warehouse so every location gets its own low stock alerts
+   */
+  private static async generateLocationAlerts(): Promise<StockAlert[]> {
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('Database connection not established');
+    }
+
+    const items = await db.collection('stocklevels').aggregate([
+      {
+        $group: {
+          _id: { userId: '$userId', productId: '$productId', variantId: '$variantId' }
+        }
+      }
+    ]).toArray();
+
+    const productIds = Array.from(new Set(items.map(item => item._id.productId as string)))
+      .filter(id => mongoose.Types.ObjectId.isValid(id))
+      .map(id => new mongoose.Types.ObjectId(id));
+    const products = await db.collection('products').find({
+      _id: { $in: productIds },
+      status: 'publish' // Only check published products
+    }).toArray();
+
+    const alerts: StockAlert[] = [];
+
+    for (const { _id: item } of items) {
+      const product = products.find(entry => entry._id.toString() === item.productId);
+      if (!product) continue;
+
+      // Reconciles the default location with sales recorded against the global quantity
+      const stock = await WarehouseService.getStockByLocation(item.userId, {
+        productId: item.productId,
+        variantId: item.variantId
+      });
+      if (!stock.success || !stock.data) continue;
+
+      // Locations holding stock that has already been sold cannot be trusted, so the item is also checked as a whole
+      const { totalQuantity, lowStockThreshold, missingQuantity } = stock.data;
+      if (missingQuantity > 0 && totalQuantity <= lowStockThreshold) {
+        const existingAlert = await db.collection('stockalerts').findOne({
+          productId: item.productId,
+          variantId: item.variantId || null,
+          warehouseId: null,
+          status: { $in: ['active', 'acknowledged'] }
+        });
+
+        if (existingAlert) {
+          await db.collection('stockalerts').updateOne(
+            { _id: existingAlert._id },
+            {
+              $set: {
+                currentStock: totalQuantity,
+                lastUpdated: new Date(),
+                lastTriggered: new Date()
+              },
+              $inc: { triggeredCount: 1 }
+            }
+          );
+        } else {
+          alerts.push({
+            productId: item.productId,
+            variantId: item.variantId || undefined,
+            productName: product.title,
+            sku: stock.data.sku,
+            alertType: this.getAlertType(totalQuantity, lowStockThreshold),
+            priority: this.getAlertPriority(totalQuantity, lowStockThreshold),
+            currentStock: totalQuantity,
+            threshold: lowStockThreshold,
+            status: 'active',
+            createdAt: new Date(),
+            lastUpdated: new Date(),
+            triggeredCount: 1,
+            lastTriggered: new Date(),
+            notificationChannels: ['dashboard'],
+            isActive: true
+          });
+        }
+      }
+
+      for (const location of stock.data.locations.filter(entry => entry.isLowStock)) {
+        const existingAlert = await db.collection('stockalerts').findOne({
+          productId: item.productId,
+          variantId: item.variantId || null,
+          warehouseId: location.warehouseId,
+          status: { $in: ['active', 'acknowledged'] }
+        });
+
+        if (existingAlert) {
+          await db.collection('stockalerts').updateOne(
+            { _id: existingAlert._id },
+            {
+              $set: {
+                currentStock: location.quantity,
+                lastUpdated: new Date(),
+                lastTriggered: new Date()
+              },
+              $inc: { triggeredCount: 1 }
+            }
+          );
+          continue;
+        }
+
+        alerts.push({
+          productId: item.productId,
+          variantId: item.variantId || undefined,
+          productName: `${product.title} (${location.warehouseName})`,
+          sku: stock.data.sku,
+          warehouseId: location.warehouseId,
+          warehouseName: location.warehouseName,
+          location: location.warehouseCode,
+          alertType: this.getAlertType(location.quantity, location.lowStockThreshold),
+          priority: this.getAlertPriority(location.quantity, location.lowStockThreshold),
+          currentStock: location.quantity,
+          threshold: location.lowStockThreshold,
+          status: 'active',
+          createdAt: new Date(),
+          lastUpdated: new Date(),
+          triggeredCount: 1,
+          lastTriggered: new Date(),
+          notificationChannels: ['dashboard'],
+          isActive: true
+        });
+      }
+    }
+
+    return alerts;
+  }
+
   /**
    * Auto-resolve alerts for products that are back in stock above threshold
    */
@@ -176,17 +326,53 @@ export class StockAlertsService {
       }).toArray();
 
       for (const alert of activeAlerts) {
-        // Get current product stock
+        // Location alerts are resolved from the stock held at that warehouse
+        if (alert.warehouseId) {
+          const level = await db.collection('stocklevels').findOne({
+            warehouseId: alert.warehouseId,
+            productId: alert.productId,
+            variantId: alert.variantId || null
+          });
+          const currentStock = level?.quantity || 0;
+
+          if (!level || currentStock > alert.threshold) {
+            await db.collection('stockalerts').updateOne(
+              { _id: alert._id },
+              {
+                $set: {
+                  status: 'resolved',
+                  lastUpdated: new Date(),
+                  currentStock
+                }
+              }
+            );
+          }
+          continue;
+        }
+
+        // Get current product (or variant) stock
         const product = await db.collection('products').findOne({
           _id: new mongoose.Types.ObjectId(alert.productId)
         });
+        const variant = alert.variantId
+          ? await db.collection('productvariants').findOne({ _id: new mongoose.Types.ObjectId(alert.variantId) })
+          : null;
 
         if (product) {
-          const currentStock = product.qty || 0;
-          const threshold = product.lowStockThreshold || 5;
+          const currentStock = (variant ? variant.inventory?.quantity : product.qty) || 0;
+          const threshold = alert.threshold || product.lowStockThreshold || 5;
+
+          // Product-wide alerts are superseded once the item is stocked per location,
+          // unless the locations still hold stock that has been sold
+          const levels = await db.collection('stocklevels').find({
+            productId: alert.productId,
+            variantId: alert.variantId || null
+          }).toArray();
+          const allocated = levels.reduce((total, level) => total + (level.quantity || 0), 0);
+          const isLocated = levels.length > 0 && allocated <= currentStock;
 
           // Resolve alert if stock is back above threshold
-          if (currentStock > threshold) {
+          if (currentStock > threshold || isLocated) {
             await db.collection('stockalerts').updateOne(
               { _id: alert._id },
               {
@@ -256,6 +442,10 @@ export class StockAlertsService {
         matchQuery.alertType = alertType;
       }
 
+      if (filters.warehouseId) {
+        matchQuery.warehouseId = filters.warehouseId;
+      }
+
       // Build sort query
       const sortQuery: any = {};
       if (sortBy === 'priority') {
@@ -464,6 +654,32 @@ export class StockAlertsService {
     }
   }
 
+  /**
+   * Check that a stock alert is about one of the workspace's products
+   * @param ownerId - Workspace owner the products are stored under
+   */
+  static async isInWorkspace(alertId: string, ownerId: string): Promise<boolean> {
+    if (!mongoose.Types.ObjectId.isValid(alertId)) return false;
+
+    await connectDB();
+    const db = mongoose.connection.db;
+    if (!db) {
+      throw new Error('Database connection not established');
+    }
+
+    const alert = await db.collection('stockalerts').findOne(
+      { _id: new mongoose.Types.ObjectId(alertId) },
+      { projection: { productId: 1 } }
+    );
+    if (!alert?.productId || !mongoose.Types.ObjectId.isValid(alert.productId)) return false;
+
+    const product = await db.collection('products').findOne(
+      { _id: new mongoose.Types.ObjectId(alert.productId), createdBy: ownerId },
+      { projection: { _id: 1 } }
+    );
+    return Boolean(product);
+  }
+
   /**
    * Delete stock alerts
    */
@@ -487,4 +703,4 @@ export class StockAlertsService {
       return false;
     }
   }
-}
\ No newline at end of file
+}
\ No newline at end of file
@@ -2,6 +2,7 @@ import { Types } from 'mongoose';
 import crypto from 'crypto';
 import { User, Role, Invitation } from '../database/models';
 import { EmailService } from './email.service';
+import { WorkspaceService } from './WorkspaceService';
 
 /**
  * User Invitation Service
@@ -59,10 +60,14 @@ export class UserInvitationService {
         return { success: false, error: 'Invalid inviter' };
       }
 
+      // The invitee joins the workspace the inviter is working in
+      const workspace = await WorkspaceService.getActiveWorkspace(String(inviter._id));
+
       // Create or update invitation
       let invitation;
       if (existingInvitation) {
         // Regenerate token for expired invitation
+        existingInvitation.workspace = workspace ? workspace._id as Types.ObjectId : null;
         await existingInvitation.generateNewToken();
         invitation = existingInvitation;
       } else {
@@ -70,7 +75,8 @@ export class UserInvitationService {
         invitation = await Invitation.createInvitation(
           email,
           new Types.ObjectId(roleId),
-          new Types.ObjectId(invitedBy)
+          new Types.ObjectId(invitedBy),
+          workspace ? workspace._id as Types.ObjectId : null
         );
       }
 
@@ -269,6 +275,7 @@ export class UserInvitationService {
       const fullInvitation = await Invitation.findById(invitation.id);
       if (fullInvitation) {
         await fullInvitation.markAsAccepted();
+        await WorkspaceService.joinFromInvitation(String(user._id), fullInvitation);
       }
 
       // Send welcome email
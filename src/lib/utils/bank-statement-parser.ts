@@ -0,0 +1,314 @@
+import Papa from 'papaparse';
+import { parseCurrency } from './product-import-mapping';
+
+/**
+ * Bank statement parsing
+ * Reads bank CSV exports, OFX/QFX and QIF files into one line format;
+ * pure so it can run on either side of the upload
+ */
+
+export const BANK_STATEMENT_FORMATS = ['csv', 'ofx', 'qif'] as const;
+
+export type BankStatementFormat = typeof BANK_STATEMENT_FORMATS[number];
+export type StatementDateOrder = 'DMY' | 'MDY';
+
+export interface ParsedStatementLine {
+  date: Date;
+  amount: number; // Positive for money in, negative for money out
+  description: string;
+  reference?: string; // Bank transaction id or cheque number
+  balance?: number;
+}
+
+export interface ParsedStatement {
+  format: BankStatementFormat;
+  currency?: string;
+  accountNumber?: string;
+  lines: ParsedStatementLine[];
+  errors: Array<{ line: number; message: string }>;
+}
+
+export interface ParseStatementOptions {
+  fileName?: string;
+  format?: BankStatementFormat;
+  dateOrder?: StatementDateOrder; // Used when day and month cannot be told apart
+}
+
+// Header names banks use for each column, most specific first
+const CSV_COLUMNS = {
+  date: ['transaction date', 'posting date', 'posted date', 'value date', 'date'],
+  description: ['description', 'narration', 'narrative', 'transaction details', 'details', 'particulars', 'payee', 'memo'],
+  amount: ['amount', 'transaction amount'],
+  debit: ['debit', 'debit amount', 'withdrawal', 'withdrawals', 'money out', 'paid out'],
+  credit: ['credit', 'credit amount', 'deposit', 'deposits', 'money in', 'paid in'],
+  balance: ['balance', 'running balance', 'closing balance'],
+  reference: ['reference', 'ref', 'transaction id', 'cheque number', 'check number']
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+/**
+ * Picks the format from the file extension, falling back to the content
+ */
+export function detectStatementFormat(fileName: string, content: string): BankStatementFormat {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'qif') return 'qif';
+  if (extension === 'csv') return 'csv';
+
+  const head = content.slice(0, 500).toUpperCase();
+  if (head.includes('<OFX>') || head.includes('OFXHEADER')) return 'ofx';
+  if (head.startsWith('!TYPE:')) return 'qif';
+  return 'csv';
+}
+
+/**
+ * Works out whether slash dates are day-first or month-first from any value
+ * whose first or second part is above 12
+ */
+export function detectDateOrder(values: string[], fallback: StatementDateOrder = 'DMY'): StatementDateOrder {
+  for (const value of values) {
+    const parts = value.trim().match(/^(\d{1,2})[/.\-'](\d{1,2})[/.\-'](\d{2,4})/);
+    if (!parts) continue;
+    if (Number(parts[1]) > 12) return 'DMY';
+    if (Number(parts[2]) > 12) return 'MDY';
+  }
+  return fallback;
+}
+
+/**
+ * Parses ISO, compact (OFX), slash/dot/dash and month-name dates
+ */
+export function parseStatementDate(value: string, order: StatementDateOrder = 'DMY'): Date | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/) || text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (match) {
+    return buildDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  // QIF writes dates like 3/14'25
+  match = text.match(/^(\d{1,2})[/.\-'](\d{1,2})[/.\-'](\d{2,4})$/);
+  if (match) {
+    const [first, second] = [Number(match[1]), Number(match[2])];
+    const [day, month] = order === 'DMY' ? [first, second] : [second, first];
+    return buildDate(toFullYear(Number(match[3])), month, day);
+  }
+
+  match = text.match(/^(\d{1,2})[\s\-]([a-z]{3})[a-z]*[\s\-,]+(\d{2,4})$/i);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    return month > 0 ? buildDate(toFullYear(Number(match[3])), month, Number(match[1])) : null;
+  }
+
+  match = text.match(/^([a-z]{3})[a-z]*\s+(\d{1,2}),?\s+(\d{4})$/i);
+  if (match) {
+    const month = MONTHS.indexOf(match[1].toLowerCase()) + 1;
+    return month > 0 ? buildDate(Number(match[3]), month, Number(match[2])) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parses a statement file in any supported format
+ */
+export function parseBankStatement(content: string, options: ParseStatementOptions = {}): ParsedStatement {
+  const format = options.format || detectStatementFormat(options.fileName || '', content);
+
+  switch (format) {
+    case 'ofx':
+      return parseOfxStatement(content);
+    case 'qif':
+      return parseQifStatement(content, options.dateOrder || 'MDY');
+    default:
+      return parseCsvStatement(content, options.dateOrder);
+  }
+}
+
+/**
+ * Parses a bank CSV export with either a signed amount column or separate debit and credit columns
+ */
+export function parseCsvStatement(content: string, dateOrder?: StatementDateOrder): ParsedStatement {
+  const result: ParsedStatement = { format: 'csv', lines: [], errors: [] };
+  const parsed = Papa.parse<Record<string, string>>(content.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim()
+  });
+
+  const headers = parsed.meta.fields || [];
+  const column = (key: keyof typeof CSV_COLUMNS, taken: Array<string | undefined> = []) =>
+    findColumn(headers.filter(header => !taken.includes(header)), CSV_COLUMNS[key]);
+  const dateColumn = column('date');
+  const descriptionColumn = column('description');
+  const debitColumn = column('debit');
+  const creditColumn = column('credit');
+  // "Debit Amount" / "Credit Amount" columns are not a signed amount column
+  const amountColumn = column('amount', [debitColumn, creditColumn]);
+  const balanceColumn = column('balance');
+  const referenceColumn = column('reference');
+
+  if (!dateColumn || (!amountColumn && !debitColumn && !creditColumn)) {
+    result.errors.push({ line: 1, message: 'Could not find date and amount columns in the statement' });
+    return result;
+  }
+
+  const order = dateOrder || detectDateOrder(parsed.data.map(row => row[dateColumn] || ''));
+
+  parsed.data.forEach((row, index) => {
+    const line = index + 2; // Header is line 1
+    const date = parseStatementDate(row[dateColumn] || '', order);
+    if (!date) {
+      result.errors.push({ line, message: `Invalid date "${row[dateColumn] || ''}"` });
+      return;
+    }
+
+    let amount: number | null;
+    if (amountColumn) {
+      amount = parseSignedAmount(row[amountColumn]);
+    } else {
+      const credit = parseSignedAmount(creditColumn ? row[creditColumn] : '');
+      const debit = parseSignedAmount(debitColumn ? row[debitColumn] : '');
+      amount = credit === null && debit === null ? null : Math.abs(credit || 0) - Math.abs(debit || 0);
+    }
+
+    if (amount === null || amount === 0) {
+      result.errors.push({ line, message: 'Line has no amount' });
+      return;
+    }
+
+    result.lines.push({
+      date,
+      amount: roundAmount(amount),
+      description: (descriptionColumn ? row[descriptionColumn] : '')?.trim() || 'Bank transaction',
+      reference: referenceColumn ? row[referenceColumn]?.trim() || undefined : undefined,
+      balance: balanceColumn ? parseSignedAmount(row[balanceColumn]) ?? undefined : undefined
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Parses OFX/QFX, including the SGML flavour where leaf tags are not closed
+ */
+export function parseOfxStatement(content: string): ParsedStatement {
+  const result: ParsedStatement = {
+    format: 'ofx',
+    currency: readOfxTag(content, 'CURDEF')?.toUpperCase(),
+    accountNumber: readOfxTag(content, 'ACCTID'),
+    lines: [],
+    errors: []
+  };
+
+  const blocks = content.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+
+  blocks.forEach((block, index) => {
+    const date = parseStatementDate(readOfxTag(block, 'DTPOSTED') || '');
+    const amount = parseSignedAmount(readOfxTag(block, 'TRNAMT'));
+
+    if (!date || amount === null) {
+      result.errors.push({ line: index + 1, message: 'Transaction is missing a date or amount' });
+      return;
+    }
+
+    const name = readOfxTag(block, 'NAME');
+    const memo = readOfxTag(block, 'MEMO');
+    result.lines.push({
+      date,
+      amount: roundAmount(amount),
+      description: [name, memo].filter(Boolean).join(' - ') || 'Bank transaction',
+      reference: readOfxTag(block, 'FITID') || readOfxTag(block, 'CHECKNUM')
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Parses QIF bank transactions (D date, T amount, P payee, M memo, N number, ^ end of record)
+ */
+export function parseQifStatement(content: string, dateOrder: StatementDateOrder = 'MDY'): ParsedStatement {
+  const result: ParsedStatement = { format: 'qif', lines: [], errors: [] };
+  let record: Record<string, string> = {};
+  let recordNumber = 0;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) continue;
+
+    if (line === '^') {
+      recordNumber++;
+      // Quicken pads single-digit days and months with spaces (" 3/ 4'25")
+      const date = parseStatementDate((record.D || '').replace(/\s/g, ''), dateOrder);
+      const amount = parseSignedAmount(record.T || record.U);
+
+      if (!date || amount === null) {
+        result.errors.push({ line: recordNumber, message: 'Transaction is missing a date or amount' });
+      } else {
+        result.lines.push({
+          date,
+          amount: roundAmount(amount),
+          description: [record.P, record.M].filter(Boolean).join(' - ') || 'Bank transaction',
+          reference: record.N || undefined
+        });
+      }
+
+      record = {};
+      continue;
+    }
+
+    record[line[0]] = line.slice(1).trim();
+  }
+
+  return result;
+}
+
+function findColumn(headers: string[], candidates: string[]): string | undefined {
+  const normalized = headers.map(header => header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim());
+
+  for (const candidate of candidates) {
+    const index = normalized.indexOf(candidate);
+    if (index >= 0) return headers[index];
+  }
+
+  for (const candidate of candidates) {
+    const index = normalized.findIndex(header => header.split(' ').includes(candidate));
+    if (index >= 0) return headers[index];
+  }
+
+  return undefined;
+}
+
+/**
+ * Amounts may carry a DR/CR suffix instead of a sign
+ */
+function parseSignedAmount(value: unknown): number | null {
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+
+  const amount = parseCurrency(text.replace(/\s*(dr|cr)\.?$/i, ''));
+  if (amount === null) return null;
+
+  return /dr\.?$/i.test(text) ? -Math.abs(amount) : amount;
+}
+
+function readOfxTag(content: string, tag: string): string | undefined {
+  const match = content.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match?.[1].trim() || undefined;
+}
+
+function buildDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+function toFullYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,88 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Company profile shown on invoices and other client-facing documents
+ */
+export interface CompanySettings {
+  name: string;
+  email: string;
+  phone?: string | null;
+  address?: string | null;
+  website?: string | null;
+  taxNumber?: string | null;
+  logoUrl?: string | null;
+  updatedAt?: string;
+}
+
+const COMPANY_SETTINGS_FILE = path.join(process.cwd(), 'data', 'company-settings.json');
+
+const DEFAULT_COMPANY_SETTINGS: CompanySettings = {
+  name: '',
+  email: '',
+  phone: '',
+  address: '',
+  website: '',
+  taxNumber: '',
+  logoUrl: ''
+};
+
+// Ensure data directory exists
+async function ensureDataDirectory() {
+  const dataDir = path.dirname(COMPANY_SETTINGS_FILE);
+  try {
+    await fs.access(dataDir);
+  } catch {
+    await fs.mkdir(dataDir, { recursive: true });
+  }
+}
+
+/**
+ * Load company settings from file, falling back to empty defaults
+ */
+export async function loadCompanySettings(): Promise<CompanySettings> {
+  try {
+    await ensureDataDirectory();
+    const data = await fs.readFile(COMPANY_SETTINGS_FILE, 'utf-8');
+    return JSON.parse(data);
+  } catch {
+    // Return default settings if file doesn't exist
+    return { ...DEFAULT_COMPANY_SETTINGS };
+  }
+}
+
+/**
+ * Save company settings to file
+ */
+export async function saveCompanySettings(settings: CompanySettings): Promise<void> {
+  await ensureDataDirectory();
+  await fs.writeFile(COMPANY_SETTINGS_FILE, JSON.stringify(settings, null, 2));
+}
+
+/**
+ * Read an uploaded company logo from the public directory as a data URL
+ * @param logoUrl - The logo URL (e.g., "/uploads/company/logo.png")
+ * @returns The data URL and image format, or null if the logo is missing or external
+ */
+export async function loadCompanyLogo(
+  logoUrl?: string | null
+): Promise<{ dataUrl: string; format: 'PNG' | 'JPEG' } | null> {
+  if (!logoUrl || !logoUrl.startsWith('/uploads/')) {
+    return null;
+  }
+
+  const extension = path.extname(logoUrl).toLowerCase();
+  const format = extension === '.png' ? 'PNG' : ['.jpg', '.jpeg'].includes(extension) ? 'JPEG' : null;
+  if (!format) {
+    return null;
+  }
+
+  try {
+    const file = await fs.readFile(path.join(process.cwd(), 'public', logoUrl));
+    const mimeType = format === 'PNG' ? 'image/png' : 'image/jpeg';
+    return { dataUrl: `data:${mimeType};base64,${file.toString('base64')}`, format };
+  } catch {
+    console.warn(`Company logo not found: ${logoUrl}`);
+    return null;
+  }
+}
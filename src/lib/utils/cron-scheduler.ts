@@ -1,9 +1,15 @@
 /**
  * Cron Scheduler Utility
- * Handles scheduled tasks for recurring payment processing
+ * Handles scheduled tasks for recurring payment and invoice processing
+ * WooCommerce stock sync and order import, and scheduled data exports
  */
 
 import { RecurringPaymentProcessor } from '../services/RecurringPaymentProcessor';
+import { RecurringInvoiceProcessor } from '../services/RecurringInvoiceProcessor';
+import { WooCommerceSyncService } from '../services/WooCommerceSyncService';
+import { WooCommerceOrderImportService } from '../services/WooCommerceOrderImportService';
+import { ScheduledExportService } from '../services/ScheduledExportService';
+import { FileCleanup } from './file-cleanup';
 import { NotificationSystem } from './notification-system';
 import { ErrorHandler } from './error-handler';
 
@@ -41,6 +47,46 @@ export class CronScheduler {
       runCount: 0,
       errorCount: 0
     });
+
+    this.registerJob('recurring-invoices', {
+      name: 'Generate Recurring Invoices',
+      schedule: '0 0 * * *', // Daily at midnight
+      enabled: true,
+      runCount: 0,
+      errorCount: 0
+    });
+
+    this.registerJob('wordpress-sync', {
+      name: 'Push Stock and Price Changes to WooCommerce',
+      schedule: '0 * * * *', // Every hour
+      enabled: true,
+      runCount: 0,
+      errorCount: 0
+    });
+
+    this.registerJob('wordpress-order-import', {
+      name: 'Import WooCommerce Orders',
+      schedule: '0 * * * *', // Every hour; each connection's sync interval still applies
+      enabled: true,
+      runCount: 0,
+      errorCount: 0
+    });
+
+    this.registerJob('scheduled-exports', {
+      name: 'Run Scheduled Data Exports',
+      schedule: '0 * * * *', // Every hour
+      enabled: true,
+      runCount: 0,
+      errorCount: 0
+    });
+
+    this.registerJob('export-cleanup', {
+      name: 'Remove Expired Export Files',
+      schedule: '0 0 * * *', // Daily at midnight
+      enabled: true,
+      runCount: 0,
+      errorCount: 0
+    });
   }
 
   static getInstance(): CronScheduler {
@@ -167,6 +213,21 @@ export class CronScheduler {
         case 'recurring-payments':
           result = await this.processRecurringPayments();
           break;
+        case 'recurring-invoices':
+          result = await this.processRecurringInvoices();
+          break;
+        case 'wordpress-sync':
+          result = await this.processWordPressSync();
+          break;
+        case 'wordpress-order-import':
+          result = await this.processWordPressOrderImport();
+          break;
+        case 'scheduled-exports':
+          result = await this.processScheduledExports();
+          break;
+        case 'export-cleanup':
+          result = { expired: await FileCleanup.cleanupExpiredExports() };
+          break;
         default:
           throw new Error(`Unknown job type: ${id}`);
       }
@@ -255,6 +316,98 @@ export class CronScheduler {
     };
   }
 
+  /**
+   * Generate recurring invoices job
+   */
+  private async processRecurringInvoices(): Promise<any> {
+    const result = await RecurringInvoiceProcessor.processAllDueRecurringInvoices();
+
+    if (result.processedCount > 0) {
+      const sentCount = result.generatedInvoices.filter(invoice => invoice.sent).length;
+
+      NotificationSystem.info({
+        title: 'Recurring Invoices Generated',
+        message: `${result.processedCount} invoices generated, ${sentCount} emailed to clients`
+      });
+    }
+
+    if (result.errors.length > 0) {
+      NotificationSystem.error({
+        title: 'Recurring Invoice Errors',
+        message: `${result.errors.length} recurring invoices failed to generate. Check logs for details.`
+      });
+    }
+
+    return {
+      processedCount: result.processedCount,
+      sentCount: result.generatedInvoices.filter(invoice => invoice.sent).length,
+      errorCount: result.errors.length,
+      deactivatedCount: result.deactivatedCount
+    };
+  }
+
+  /**
+   * Push pending WooCommerce changes job
+   */
+  private async processWordPressSync(): Promise<any> {
+    const result = await WooCommerceSyncService.syncAllConnections();
+
+    if (result.conflicts > 0) {
+      NotificationSystem.warning({
+        title: 'WooCommerce Sync Conflicts',
+        message: `${result.conflicts} products were changed in WooCommerce since the last sync and were not overwritten`
+      });
+    }
+
+    if (result.errors > 0) {
+      NotificationSystem.error({
+        title: 'WooCommerce Sync Errors',
+        message: `${result.errors} products failed to sync to WooCommerce. Check logs for details.`
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Import new WooCommerce orders job
+   */
+  private async processWordPressOrderImport(): Promise<any> {
+    const result = await WooCommerceOrderImportService.importAllConnections();
+
+    if (result.imported > 0) {
+      NotificationSystem.info({
+        title: 'WooCommerce Orders Imported',
+        message: `${result.imported} orders were imported from WooCommerce`
+      });
+    }
+
+    if (result.failed > 0) {
+      NotificationSystem.error({
+        title: 'WooCommerce Order Import Errors',
+        message: `${result.failed} WooCommerce orders failed to import. Check the import jobs for details.`
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Run due scheduled exports job
+   */
+  private async processScheduledExports(): Promise<any> {
+    const result = await ScheduledExportService.processDueExports();
+
+    if (result.errors.length > 0) {
+      NotificationSystem.error({
+        title: 'Scheduled Export Errors',
+        message: `${result.errors.length} scheduled exports failed to run or deliver. Check logs for details.`
+      });
+    }
+
+    return result;
+  }
+
   /**
    * Calculate next run time based on cron expression
    * Simplified implementation - in production, use a proper cron parser
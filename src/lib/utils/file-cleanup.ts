@@ -1,6 +1,14 @@
 import { unlink } from 'fs/promises';
 import { existsSync } from 'fs';
 import path from 'path';
+import { connectDB } from '@/lib/database/connection';
+import ExportJob from '@/lib/database/models/ExportJob';
+
+/**
+ * Directory generated export files are written to
+ * Kept outside public/ so files are only served through the download API
+ */
+export const EXPORTS_DIR = path.join(process.cwd(), 'storage', 'exports');
 
 /**
  * Utility functions for file cleanup operations
@@ -55,4 +63,52 @@ export class FileCleanup {
       console.warn('Image cleanup failed:', error);
     }
   }
+
+  /**
+   * Delete a generated export file
+   * @param filePath - Absolute path of the file inside the exports directory
+   * @returns Promise<boolean> - true if deleted successfully, false if file doesn't exist
+   */
+  static async deleteExportFile(filePath?: string): Promise<boolean> {
+    try {
+      // Never delete anything outside the exports directory
+      if (!filePath || !path.resolve(filePath).startsWith(EXPORTS_DIR + path.sep)) {
+        return false;
+      }
+
+      if (!existsSync(filePath)) {
+        return false;
+      }
+
+      await unlink(filePath);
+      return true;
+
+    } catch (error) {
+      console.error('Error deleting export file:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove export files whose retention period has passed and mark their jobs as expired
+   * @returns Promise<number> - Number of export jobs expired
+   */
+  static async cleanupExpiredExports(): Promise<number> {
+    await connectDB();
+    const jobs = await ExportJob.findExpired();
+
+    for (const job of jobs) {
+      await this.deleteExportFile(job.filePath);
+
+      job.status = 'expired';
+      job.filePath = undefined;
+      await job.save();
+    }
+
+    if (jobs.length > 0) {
+      console.log(`Expired ${jobs.length} export files`);
+    }
+
+    return jobs.length;
+  }
 }
\ No newline at end of file
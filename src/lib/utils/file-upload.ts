@@ -1,5 +1,5 @@
 /**
- * File upload utility functions for product images
+ * File upload utility functions for product images and chat attachments
  */
 
 // Allowed image types
@@ -14,6 +14,32 @@ export const ALLOWED_IMAGE_TYPES = [
 // Maximum file size (5MB)
 export const MAX_FILE_SIZE = 5 * 1024 * 1024;
 
+// Allowed chat attachment types (images plus common documents)
+export const ALLOWED_ATTACHMENT_TYPES = [
+  ...ALLOWED_IMAGE_TYPES,
+  'application/pdf',
+  'application/zip',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+// Maximum chat attachment size (10MB)
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Public path chat attachments are stored under
+export const CHAT_ATTACHMENT_PATH = '/uploads/chat/';
+
+export interface ChatAttachmentUpload {
+  url: string;
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
 /**
  * Validates if a file is a valid image for upload
  */
@@ -37,6 +63,27 @@ export function validateImageFile(file: File): { valid: boolean; error?: string
   return { valid: true };
 }
 
+/**
+ * Validates if a file can be attached to a chat message
+ */
+export function validateAttachmentFile(file: { type: string; size: number }): { valid: boolean; error?: string } {
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.type)) {
+    return {
+      valid: false,
+      error: 'Invalid file type. Only images, PDF, Office documents, text, CSV and ZIP files are allowed.'
+    };
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return {
+      valid: false,
+      error: `File too large. Maximum size is ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB.`
+    };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Uploads a file to the product image endpoint
  */
@@ -122,6 +169,62 @@ export async function uploadMultipleProductImages(files: File[]): Promise<{
   };
 }
 
+/**
+ * Uploads a file to the chat attachment endpoint
+ */
+export async function uploadChatAttachment(file: File): Promise<{
+  success: boolean;
+  attachment?: ChatAttachmentUpload;
+  error?: string;
+}> {
+  try {
+    const validation = validateAttachmentFile(file);
+    if (!validation.valid) {
+      return {
+        success: false,
+        error: validation.error
+      };
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await fetch('/api/chat/attachments', {
+      method: 'POST',
+      body: formData
+    });
+
+    const result = await response.json();
+
+    if (!response.ok || !result.success) {
+      return {
+        success: false,
+        error: result.error?.message || 'Upload failed'
+      };
+    }
+
+    return {
+      success: true,
+      attachment: result.data.attachment
+    };
+
+  } catch (error) {
+    console.error('Attachment upload error:', error);
+    return {
+      success: false,
+      error: 'Failed to upload attachment'
+    };
+  }
+}
+
+/**
+ * Checks if a URL points to an uploaded chat attachment
+ */
+export function isChatAttachmentUrl(url: string | null | undefined): boolean {
+  if (!url || typeof url !== 'string') return false;
+  return url.startsWith(CHAT_ATTACHMENT_PATH) && !url.includes('..');
+}
+
 /**
  * Checks if a URL is an uploaded image URL
  */
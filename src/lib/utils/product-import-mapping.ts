@@ -0,0 +1,319 @@
+/**
+ * Product Import Mapping Utility
+ * Matches supplier spreadsheet columns to Product / ProductVariant fields
+ * and converts cell values (prices, yes/no flags, tag lists) before import
+ */
+
+export const IMPORT_VALUE_TRANSFORMS = ['text', 'number', 'currency', 'boolean', 'list', 'attributes'] as const;
+
+export type ImportValueTransform = typeof IMPORT_VALUE_TRANSFORMS[number];
+
+export interface ProductImportField {
+  value: string;
+  label: string;
+  target: 'product' | 'variant';
+  transform: ImportValueTransform; // Applied when the column has no transform of its own
+  required?: boolean; // Required on product rows, or on variant rows for variant fields
+  aliases: string[]; // Other header names suppliers commonly use
+}
+
+export type ProductImportMapping = Record<string, string>; // Column header -> field value
+export type ProductImportTransforms = Record<string, ImportValueTransform>; // Column header -> transform
+
+export interface FieldMappingSuggestion {
+  header: string;
+  field: string;
+  score: number; // 0-1 name similarity
+}
+
+export interface MappedImportRow {
+  product: Record<string, any>;
+  variant?: Record<string, any>; // Present when the row describes a variant of `parentSku`
+  parentSku?: string;
+  errors: string[];
+}
+
+export const PRODUCT_IMPORT_FIELDS: ProductImportField[] = [
+  { value: 'title', label: 'Product Title', target: 'product', transform: 'text', required: true, aliases: ['name', 'product name', 'item name', 'item'] },
+  { value: 'description', label: 'Description', target: 'product', transform: 'text', required: true, aliases: ['desc', 'details', 'long description'] },
+  { value: 'sku', label: 'SKU', target: 'product', transform: 'text', aliases: ['product code', 'item code', 'code', 'article number', 'part number'] },
+  { value: 'price', label: 'Price', target: 'product', transform: 'currency', required: true, aliases: ['selling price', 'unit price', 'retail price', 'rrp'] },
+  { value: 'regularPrice', label: 'Regular Price', target: 'product', transform: 'currency', aliases: ['list price', 'original price', 'msrp'] },
+  { value: 'salePrice', label: 'Sale Price', target: 'product', transform: 'currency', aliases: ['discount price', 'promo price', 'special price'] },
+  { value: 'category', label: 'Category', target: 'product', transform: 'list', required: true, aliases: ['categories', 'product category', 'department'] },
+  { value: 'subcategory', label: 'Subcategory', target: 'product', transform: 'list', aliases: ['sub category', 'subcategories'] },
+  { value: 'brand', label: 'Brand', target: 'product', transform: 'text', aliases: ['manufacturer', 'make'] },
+  { value: 'tags', label: 'Tags', target: 'product', transform: 'list', aliases: ['keywords', 'labels'] },
+  { value: 'qty', label: 'Stock Quantity', target: 'product', transform: 'number', aliases: ['quantity', 'stock', 'inventory', 'on hand', 'qty available'] },
+  { value: 'lowStockThreshold', label: 'Low Stock Threshold', target: 'product', transform: 'number', aliases: ['reorder level', 'reorder point', 'min stock'] },
+  { value: 'manageStock', label: 'Manage Stock', target: 'product', transform: 'boolean', aliases: ['track stock', 'track inventory'] },
+  { value: 'backordersAllowed', label: 'Allow Backorders', target: 'product', transform: 'boolean', aliases: ['backorders'] },
+  { value: 'stockStatus', label: 'Stock Status', target: 'product', transform: 'text', aliases: ['availability', 'in stock'] },
+  { value: 'featured', label: 'Featured', target: 'product', transform: 'boolean', aliases: ['is featured'] },
+  { value: 'status', label: 'Status', target: 'product', transform: 'text', aliases: ['product status', 'published'] },
+  { value: 'weight', label: 'Weight', target: 'product', transform: 'number', aliases: ['weight kg', 'shipping weight'] },
+  { value: 'photo', label: 'Photo URL', target: 'product', transform: 'text', required: true, aliases: ['image', 'image url', 'picture', 'thumbnail', 'main image'] },
+  { value: 'gallery', label: 'Gallery Images', target: 'product', transform: 'list', aliases: ['images', 'additional images', 'gallery urls'] },
+  { value: 'parentSku', label: 'Parent SKU', target: 'variant', transform: 'text', aliases: ['parent', 'parent code', 'parent id'] },
+  { value: 'variantSku', label: 'Variant SKU', target: 'variant', transform: 'text', required: true, aliases: ['variation sku', 'child sku'] },
+  { value: 'variantAttributes', label: 'Variant Attributes', target: 'variant', transform: 'attributes', required: true, aliases: ['attributes', 'options', 'variation'] },
+  { value: 'variantPrice', label: 'Variant Price', target: 'variant', transform: 'currency', required: true, aliases: ['variation price'] },
+  { value: 'variantCompareAtPrice', label: 'Variant Compare-at Price', target: 'variant', transform: 'currency', aliases: ['compare at price', 'was price'] },
+  { value: 'variantCostPrice', label: 'Variant Cost Price', target: 'variant', transform: 'currency', aliases: ['cost price', 'unit cost', 'purchase price'] },
+  { value: 'variantQuantity', label: 'Variant Quantity', target: 'variant', transform: 'number', aliases: ['variation stock', 'variant stock'] }
+];
+
+// Suggestions scoring below this are left for the user to map
+const MIN_SUGGESTION_SCORE = 0.75;
+
+// Score for headers that contain every word of a field name, e.g. "Qty On Hand" for "on hand"
+const CONTAINED_WORDS_SCORE = 0.9;
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', 'on'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'off', ''];
+
+const normalize = (value: string): string =>
+  value
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/\s+/g, '');
+  const pairs: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    pairs.push(compact.slice(i, i + 2));
+  }
+  return pairs;
+};
+
+/**
+ * Name similarity between 0 and 1: exact matches score 1, headers containing all of the
+ * candidate's words score 0.9, otherwise the Dice coefficient of character pairs
+ */
+export function headerSimilarity(header: string, candidate: string): number {
+  const a = normalize(header);
+  const b = normalize(candidate);
+  if (!a || !b) return 0;
+  if (a === b || a.replace(/\s/g, '') === b.replace(/\s/g, '')) return 1;
+
+  const headerWords = a.split(' ');
+  const containsWords = b.split(' ').every(word => headerWords.includes(word));
+
+  const aPairs = bigrams(a);
+  const bPairs = bigrams(b);
+  if (aPairs.length === 0 || bPairs.length === 0) return 0;
+
+  const remaining = [...bPairs];
+  let matches = 0;
+  for (const pair of aPairs) {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      matches++;
+      remaining.splice(index, 1);
+    }
+  }
+
+  const dice = (2 * matches) / (aPairs.length + bPairs.length);
+  return containsWords ? Math.max(dice, CONTAINED_WORDS_SCORE) : dice;
+}
+
+/**
+ * Suggests a field for each header by name similarity; each field is suggested for at most one column
+ */
+export function suggestFieldMapping(
+  headers: string[],
+  fields: ProductImportField[] = PRODUCT_IMPORT_FIELDS
+): FieldMappingSuggestion[] {
+  const candidates: FieldMappingSuggestion[] = [];
+
+  for (const header of headers) {
+    for (const field of fields) {
+      const score = Math.max(
+        ...[field.value, field.label, ...field.aliases].map(name => headerSimilarity(header, name))
+      );
+      if (score >= MIN_SUGGESTION_SCORE) {
+        candidates.push({ header, field: field.value, score: Math.round(score * 100) / 100 });
+      }
+    }
+  }
+
+  // Best matches claim their header and field first
+  candidates.sort((a, b) => b.score - a.score);
+
+  const usedHeaders = new Set<string>();
+  const usedFields = new Set<string>();
+  const suggestions: FieldMappingSuggestion[] = [];
+
+  for (const candidate of candidates) {
+    if (usedHeaders.has(candidate.header) || usedFields.has(candidate.field)) continue;
+    usedHeaders.add(candidate.header);
+    usedFields.add(candidate.field);
+    suggestions.push(candidate);
+  }
+
+  return headers
+    .map(header => suggestions.find(suggestion => suggestion.header === header))
+    .filter((suggestion): suggestion is FieldMappingSuggestion => !!suggestion);
+}
+
+/**
+ * Parses amounts such as "$1,299.99", "1.299,99 €" or "(45.00)"
+ */
+export function parseCurrency(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+
+  let text = String(value ?? '').trim();
+  if (!text) return null;
+
+  const negative = /^\(.*\)$/.test(text) || text.includes('-');
+  text = text.replace(/[^0-9.,]/g, '');
+  if (!text) return null;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  if (lastComma > lastDot) {
+    // A trailing comma group of one or two digits is a decimal separator ("1.299,99"); otherwise thousands ("1,299")
+    text = /,\d{1,2}$/.test(text)
+      ? text.replace(/\./g, '').replace(',', '.')
+      : text.replace(/,/g, '');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(text);
+  if (!Number.isFinite(amount)) return null;
+
+  return negative ? -amount : amount;
+}
+
+/**
+ * Parses "Yes/No", "Y/N", "1/0", "true/false" and "x" flags
+ */
+export function parseBooleanFlag(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+
+  const text = String(value ?? '').trim().toLowerCase();
+  if (TRUE_VALUES.includes(text)) return true;
+  if (FALSE_VALUES.includes(text)) return false;
+  return null;
+}
+
+/**
+ * Splits comma, semicolon or pipe separated values
+ */
+export function parseList(value: unknown): string[] {
+  return String(value ?? '')
+    .split(/[,;|]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses variant attributes written as "Color: Red; Size: L" or "Color=Red|Size=L"
+ */
+export function parseAttributes(value: unknown): Array<{ name: string; value: string }> | null {
+  const pairs = String(value ?? '')
+    .split(/[;|]/)
+    .map(item => item.trim())
+    .filter(Boolean);
+
+  const attributes = pairs.map(pair => {
+    const [name, ...rest] = pair.split(/[:=]/);
+    return { name: name.trim(), value: rest.join(':').trim() };
+  });
+
+  return attributes.length > 0 && attributes.every(attribute => attribute.name && attribute.value)
+    ? attributes
+    : null;
+}
+
+/**
+ * Applies a value transform
+ * @returns The converted value, or an error message when the cell cannot be converted
+ */
+export function applyImportTransform(
+  value: unknown,
+  transform: ImportValueTransform
+): { value?: any; error?: string } {
+  switch (transform) {
+    case 'text':
+      return { value: String(value).trim() };
+    case 'number': {
+      const number = parseCurrency(value);
+      return number === null ? { error: `"${value}" is not a number` } : { value: number };
+    }
+    case 'currency': {
+      const amount = parseCurrency(value);
+      return amount === null ? { error: `"${value}" is not a valid amount` } : { value: Math.round(amount * 100) / 100 };
+    }
+    case 'boolean': {
+      const flag = parseBooleanFlag(value);
+      return flag === null ? { error: `"${value}" is not a yes/no value` } : { value: flag };
+    }
+    case 'list':
+      return { value: parseList(value) };
+    case 'attributes': {
+      const attributes = parseAttributes(value);
+      return attributes ? { value: attributes } : { error: `"${value}" is not in "Name: Value; Name: Value" format` };
+    }
+  }
+}
+
+/**
+ * Maps one spreadsheet row to product and variant values
+ * Rows with a parent SKU describe a variant of that product; other rows describe a product
+ */
+export function mapImportRow(
+  row: Record<string, any>,
+  mapping: ProductImportMapping,
+  transforms: ProductImportTransforms = {}
+): MappedImportRow {
+  const product: Record<string, any> = {};
+  const variant: Record<string, any> = {};
+  const errors: string[] = [];
+
+  for (const [header, fieldValue] of Object.entries(mapping)) {
+    const field = PRODUCT_IMPORT_FIELDS.find(candidate => candidate.value === fieldValue);
+    const raw = row[header];
+    if (!field || raw === undefined || raw === null || String(raw).trim() === '') continue;
+
+    const result = applyImportTransform(raw, transforms[header] || field.transform);
+    if (result.error) {
+      errors.push(`${field.label}: ${result.error}`);
+      continue;
+    }
+
+    if (field.target === 'variant') {
+      variant[field.value] = result.value;
+    } else {
+      product[field.value] = result.value;
+    }
+  }
+
+  const parentSku = variant.parentSku ? String(variant.parentSku).toUpperCase() : undefined;
+  if (!parentSku) {
+    return { product, errors };
+  }
+
+  delete variant.parentSku;
+  return { product, variant, parentSku, errors };
+}
+
+/**
+ * Required fields that have no value on a mapped row
+ */
+export function getMissingRequiredFields(mapped: MappedImportRow): string[] {
+  const target = mapped.parentSku ? 'variant' : 'product';
+  const values = mapped.parentSku ? mapped.variant! : mapped.product;
+
+  return PRODUCT_IMPORT_FIELDS
+    .filter(field => field.required && field.target === target)
+    .filter(field => {
+      const value = values[field.value];
+      return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+    })
+    .map(field => field.label);
+}
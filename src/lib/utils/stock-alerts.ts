@@ -3,6 +3,8 @@ import Product from '../database/models/Product';
 import ProductVariant from '../database/models/ProductVariant';
 import StockAlert from '../database/models/StockAlert';
 import InventoryLog from '../database/models/InventoryLog';
+import { WebhookService } from '../services/WebhookService';
+import { WEBHOOK_EVENTS } from '../constants/webhook-events';
 
 /**
  * Stock Alerts Utility
@@ -383,6 +385,7 @@ export class StockAlertsManager {
       };
 
       const alert = await StockAlert.createAlert(alertData);
+      WebhookService.dispatchInBackground(WEBHOOK_EVENTS.STOCK_ALERT_RAISED, alert.toJSON());
 
       // Send notifications if configured
       if (rule.actions.notifications) {
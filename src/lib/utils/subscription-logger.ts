@@ -8,6 +8,8 @@ interface IAuditLog {
   userId?: string;
   subscriptionId?: string;
   transactionId?: string;
+  recordId?: string;
+  ownerId?: string; // Workspace owner of the changed record
   action: string;
   resource: string;
   details: any;
@@ -15,7 +17,7 @@ interface IAuditLog {
   userAgent?: string;
   timestamp: Date;
   severity: 'info' | 'warning' | 'error' | 'critical';
-  category: 'subscription' | 'payment' | 'security' | 'access';
+  category: 'subscription' | 'payment' | 'security' | 'access' | 'change';
 }
 
 /**
@@ -37,6 +39,14 @@ const auditLogSchema = new mongoose.Schema<IAuditLog>({
     ref: 'Transaction',
     default: null
   },
+  recordId: {
+    type: String,
+    default: null
+  },
+  ownerId: {
+    type: String,
+    default: null
+  },
   action: {
     type: String,
     required: true,
@@ -72,7 +82,7 @@ const auditLogSchema = new mongoose.Schema<IAuditLog>({
   },
   category: {
     type: String,
-    enum: ['subscription', 'payment', 'security', 'access'],
+    enum: ['subscription', 'payment', 'security', 'access', 'change'],
     required: true,
     index: true
   }
@@ -85,12 +95,30 @@ auditLogSchema.index({ userId: 1, timestamp: -1 });
 auditLogSchema.index({ subscriptionId: 1, timestamp: -1 });
 auditLogSchema.index({ category: 1, severity: 1, timestamp: -1 });
 auditLogSchema.index({ action: 1, timestamp: -1 });
+auditLogSchema.index({ resource: 1, recordId: 1, timestamp: -1 });
 
 // TTL index to automatically delete old logs after 2 years
 auditLogSchema.index({ timestamp: 1 }, { expireAfterSeconds: 63072000 }); // 2 years
 
 const AuditLog = mongoose.models.AuditLog || mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
 
+// Fields whose values are never written to the audit log
+const SENSITIVE_FIELDS = [
+  'password',
+  'cardNumber',
+  'cvv',
+  'accountNumber',
+  'routingNumber',
+  'ssn',
+  'taxId',
+  'apiKey',
+  'secretKey',
+  'token'
+];
+
+const isSensitiveField = (key: string) =>
+  SENSITIVE_FIELDS.some(field => key.toLowerCase().includes(field.toLowerCase()));
+
 /**
  * Subscription audit logger
  */
@@ -275,6 +303,49 @@ export class SubscriptionLogger {
     }
   }
 
+  /**
+   * Log a change to a business record
+   * Changes are listed as { field, from, to }; values of sensitive fields are redacted
+   */
+  static async logChangeActivity(
+    action: string,
+    details: {
+      label?: string;
+      changes?: Array<{ field: string; from: any; to: any }>;
+    },
+    options: {
+      userId?: string;
+      resource: string;
+      recordId: string;
+      ownerId?: string;
+    }
+  ) {
+    try {
+      await connectToDatabase();
+
+      const changes = details.changes?.map(change => isSensitiveField(change.field)
+        ? { field: change.field, from: '***REDACTED***', to: '***REDACTED***' }
+        : change);
+
+      const logEntry = new AuditLog({
+        userId: options.userId,
+        recordId: options.recordId,
+        ownerId: options.ownerId,
+        action,
+        resource: options.resource,
+        details: this.sanitizeDetails({ ...details, changes }),
+        severity: 'info',
+        category: 'change',
+        timestamp: new Date()
+      });
+
+      await logEntry.save();
+
+    } catch (error) {
+      console.error('Failed to log change activity:', error);
+    }
+  }
+
   /**
    * Get audit logs with filtering
    */
@@ -284,6 +355,10 @@ export class SubscriptionLogger {
     category?: string;
     action?: string;
     severity?: string;
+    resource?: string;
+    recordId?: string;
+    ownerId?: string;
+    field?: string;
     startDate?: Date;
     endDate?: Date;
     limit?: number;
@@ -299,6 +374,10 @@ export class SubscriptionLogger {
       if (filters.category) query.category = filters.category;
       if (filters.action) query.action = new RegExp(filters.action, 'i');
       if (filters.severity) query.severity = filters.severity;
+      if (filters.resource) query.resource = filters.resource;
+      if (filters.recordId) query.recordId = filters.recordId;
+      if (filters.ownerId) query.ownerId = filters.ownerId;
+      if (filters.field) query['details.changes.field'] = filters.field;
 
       if (filters.startDate || filters.endDate) {
         query.timestamp = {};
@@ -370,24 +449,11 @@ export class SubscriptionLogger {
     const sanitized = JSON.parse(JSON.stringify(details));
 
     // Remove sensitive fields
-    const sensitiveFields = [
-      'password',
-      'cardNumber',
-      'cvv',
-      'accountNumber',
-      'routingNumber',
-      'ssn',
-      'taxId',
-      'apiKey',
-      'secretKey',
-      'token'
-    ];
-
     const sanitizeObject = (obj: any) => {
       if (typeof obj !== 'object' || obj === null) return obj;
 
       for (const key in obj) {
-        if (sensitiveFields.some(field => key.toLowerCase().includes(field.toLowerCase()))) {
+        if (isSensitiveField(key)) {
           obj[key] = '***REDACTED***';
         } else if (typeof obj[key] === 'object') {
           sanitizeObject(obj[key]);
@@ -524,7 +590,8 @@ export enum LogCategory {
   SUBSCRIPTION = 'subscription',
   PAYMENT = 'payment',
   SECURITY = 'security',
-  ACCESS = 'access'
+  ACCESS = 'access',
+  CHANGE = 'change'
 }
 
 // Export the main logger instance
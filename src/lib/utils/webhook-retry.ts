@@ -116,8 +116,14 @@ export async function retryWithBackoff<T>(
   };
 }
 
+/**
+ * Reprocesses a queued webhook; throws to schedule another attempt
+ */
+export type WebhookRetryHandler = (payload: string, signature: string) => Promise<unknown>;
+
 /**
  * Webhook processing queue for handling failed webhooks
+ * Items without a handler are replayed through the Flutterwave payment webhook
  */
 export class WebhookRetryQueue {
   private queue: Array<{
@@ -127,6 +133,7 @@ export class WebhookRetryQueue {
     attempts: number;
     nextRetry: Date;
     maxRetries: number;
+    handler?: WebhookRetryHandler;
   }> = [];
 
   private processing = false;
@@ -138,7 +145,8 @@ export class WebhookRetryQueue {
     id: string,
     payload: string,
     signature: string,
-    maxRetries: number = RETRY_CONFIG.MAX_RETRIES
+    maxRetries: number = RETRY_CONFIG.MAX_RETRIES,
+    handler?: WebhookRetryHandler
   ): void {
     const existingIndex = this.queue.findIndex(item => item.id === id);
 
@@ -154,7 +162,8 @@ export class WebhookRetryQueue {
         signature,
         attempts: 1,
         nextRetry: new Date(Date.now() + RETRY_CONFIG.INITIAL_DELAY),
-        maxRetries
+        maxRetries,
+        handler
       });
     }
 
@@ -188,10 +197,14 @@ export class WebhookRetryQueue {
       // Process ready items
       for (const item of readyItems) {
         try {
-          const PaymentService = (await import('../services/PaymentService')).PaymentService;
-          const paymentService = new PaymentService();
+          if (item.handler) {
+            await item.handler(item.payload, item.signature);
+          } else {
+            const PaymentService = (await import('../services/PaymentService')).PaymentService;
+            const paymentService = new PaymentService();
 
-          await paymentService.processWebhook(item.payload, item.signature);
+            await paymentService.processWebhook(item.payload, item.signature);
+          }
 
           // Success - remove from queue
           this.removeFromQueue(item.id);
@@ -209,6 +222,7 @@ export class WebhookRetryQueue {
             this.handlePermanentFailure(item, error);
           } else {
             // Schedule next retry
+            item.attempts++;
             const delay = calculateDelay(item.attempts, {
               maxRetries: item.maxRetries,
               initialDelay: RETRY_CONFIG.INITIAL_DELAY,
@@ -36,6 +36,39 @@ export interface ProductFilter {
   before?: string;
 }
 
+/**
+ * Stock and price fields written back to WooCommerce, in the REST API's field names
+ */
+export interface WooCommerceStockUpdate {
+  id: number;
+  manage_stock?: boolean;
+  stock_quantity?: number | null;
+  stock_status?: 'instock' | 'outofstock' | 'onbackorder';
+  regular_price?: string;
+  sale_price?: string;
+}
+
+/**
+ * Per-item outcome of a WooCommerce batch update
+ */
+export interface WooCommerceBatchItemResult {
+  id: number;
+  success: boolean;
+  dateModified?: Date; // Remote modification time after the update
+  error?: string;
+}
+
+export interface OrderFilter {
+  status?: string; // Comma-separated WooCommerce order statuses
+  after?: string; // ISO 8601 date; orders created after it
+  before?: string;
+  dates_are_gmt?: boolean; // Interpret after/before as UTC rather than store time
+  per_page?: number;
+  page?: number;
+  orderby?: 'date' | 'id' | 'include' | 'title' | 'slug' | 'modified';
+  order?: 'asc' | 'desc';
+}
+
 export interface ImportProgress {
   total: number;
   processed: number;
@@ -482,6 +515,112 @@ export class WordPressAPI {
     return { products, failed };
   }
 
+  /**
+   * Fetch orders with pagination
+   */
+  async getOrders(filters: OrderFilter = {}): Promise<{
+    orders: any[];
+    total: number;
+    totalPages: number;
+    currentPage: number;
+  }> {
+    try {
+      const params = {
+        per_page: 50,
+        page: 1,
+        orderby: 'date',
+        order: 'asc',
+        ...filters
+      };
+
+      const response = await this.api.get('/orders', { params });
+
+      return {
+        orders: response.data || [],
+        total: parseInt(response.headers['x-wp-total'] || '0', 10),
+        totalPages: parseInt(response.headers['x-wp-totalpages'] || '1', 10),
+        currentPage: params.page
+      };
+    } catch (error: any) {
+      console.error('Error fetching orders:', error);
+      throw new Error(`Failed to fetch orders: ${error.message}`);
+    }
+  }
+
+  /**
+   * Fetch the current remote copy of several products in one request
+   */
+  async getProductsByIds(productIds: number[]): Promise<any[]> {
+    if (productIds.length === 0) return [];
+
+    try {
+      const response = await this.api.get('/products', {
+        params: { include: productIds.join(','), per_page: Math.min(productIds.length, 100) }
+      });
+      return response.data || [];
+    } catch (error: any) {
+      console.error('Error fetching products by ID:', error);
+      throw new Error(`Failed to fetch products: ${error.message}`);
+    }
+  }
+
+  /**
+   * Update up to 100 products through the WooCommerce batch endpoint
+   */
+  async batchUpdateProducts(updates: WooCommerceStockUpdate[]): Promise<WooCommerceBatchItemResult[]> {
+    return this.batchUpdate('/products/batch', updates);
+  }
+
+  /**
+   * Update up to 100 variations of a product through the WooCommerce batch endpoint
+   */
+  async batchUpdateVariations(
+    productId: number,
+    updates: WooCommerceStockUpdate[]
+  ): Promise<WooCommerceBatchItemResult[]> {
+    return this.batchUpdate(`/products/${productId}/variations/batch`, updates);
+  }
+
+  /**
+   * Send a batch update and map WooCommerce's per-item results
+   */
+  private async batchUpdate(
+    endpoint: string,
+    updates: WooCommerceStockUpdate[]
+  ): Promise<WooCommerceBatchItemResult[]> {
+    if (updates.length === 0) return [];
+
+    if (updates.length > 100) {
+      throw new Error('WooCommerce batch requests are limited to 100 items');
+    }
+
+    try {
+      const response = await this.api.post(endpoint, { update: updates });
+      const results: any[] = response.data?.update || [];
+
+      return updates.map(update => {
+        const result = results.find(item => item.id === update.id);
+
+        if (!result) {
+          return { id: update.id, success: false, error: 'No result returned for item' };
+        }
+
+        if (result.error) {
+          return { id: update.id, success: false, error: result.error.message || result.error.code };
+        }
+
+        return {
+          id: update.id,
+          success: true,
+          dateModified: parseWooCommerceDate(result.date_modified_gmt)
+        };
+      });
+    } catch (error: any) {
+      console.error(`Error sending batch update to ${endpoint}:`, error);
+      throw new Error(`Failed to update WooCommerce: ${error.response?.data?.message || error.message}`);
+    }
+  }
+
   /**
    * Utility method to add delay
    */
@@ -520,4 +659,14 @@ export class WordPressAPI {
       password: this.auth.consumerSecret
     };
   }
+}
+
+/**
+ * Parse a WooCommerce `*_gmt` timestamp, which is UTC but carries no timezone suffix
+ */
+export function parseWooCommerceDate(value?: string | null): Date | undefined {
+  if (!value) return undefined;
+
+  const date = new Date(/(?:[zZ]|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value}Z`);
+  return isNaN(date.getTime()) ? undefined : date;
 }
\ No newline at end of file
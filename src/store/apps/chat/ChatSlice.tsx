@@ -1,69 +1,226 @@
 import axios from '../../../utils/axios';
 import { createSlice } from '@reduxjs/toolkit';
-import { AppDispatch } from '../../store';
-import { uniqueId } from 'lodash';
-import { sub } from 'date-fns';
+import { AppDispatch, AppState } from '../../store';
+import { AttachType, ChatParticipant, ChatsType, MessageType } from '@/app/(dashboard)/types/apps/chat';
 
-const API_URL = '/api/data/chat/ChatData';
+const API_URL = '/api/chat';
 
 interface StateType {
-  chats: any[];
-  chatContent: number;
+  chats: ChatsType[];
+  messages: Record<string, MessageType[]>;
+  users: ChatParticipant[];
+  chatContent: string | null;
   chatSearch: string;
+  currentUserId: string | null;
+  lastSync: string | null;
+  error: string | null;
 }
 
-const initialState = {
+const initialState: StateType = {
   chats: [],
-  chatContent: 1,
+  messages: {},
+  users: [],
+  chatContent: null,
   chatSearch: '',
+  currentUserId: null,
+  lastSync: null,
+  error: null,
 };
 
+const sortByActivity = (chats: ChatsType[]) =>
+  chats.sort((a, b) => new Date(b.lastMessageAt).getTime() - new Date(a.lastMessageAt).getTime());
+
 export const ChatSlice = createSlice({
   name: 'chat',
   initialState,
   reducers: {
     getChats: (state, action) => {
-      state.chats = action.payload;
+      state.chats = action.payload.conversations;
+      state.currentUserId = action.payload.currentUserId;
+      state.lastSync = action.payload.serverTime;
+      state.error = null;
+    },
+    getUsers: (state, action) => {
+      state.users = action.payload;
+    },
+    getMessages: (state, action) => {
+      state.messages[action.payload.conversationId] = action.payload.messages;
     },
     SearchChat: (state, action) => {
       state.chatSearch = action.payload;
     },
-    SelectChat: (state: StateType, action) => {
+    SelectChat: (state, action) => {
       state.chatContent = action.payload;
     },
-    sendMsg: (state: StateType, action) => {
-      const conversation = action.payload;
-      const { id, msg } = conversation;
-
-      const newMessage = {
-        id: id,
-        msg: msg,
-        type: 'text',
-        attachments: [],
-        createdAt: sub(new Date(), { seconds: 1 }),
-        senderId: uniqueId(),
-      };
-
-      state.chats = state.chats.map((chat) =>
-        chat.id === action.payload.id
-          ? {
-              ...chat,
-              ...chat.messages.push(newMessage),
-            }
-          : chat,
-      );
+    upsertChat: (state, action) => {
+      const index = state.chats.findIndex((chat) => chat._id === action.payload._id);
+      if (index === -1) {
+        state.chats.unshift(action.payload);
+      } else {
+        state.chats[index] = action.payload;
+      }
+      sortByActivity(state.chats);
+    },
+    receiveMessages: (state, action) => {
+      action.payload.forEach((message: MessageType) => {
+        const thread = state.messages[message.conversationId];
+        if (thread && !thread.some((existing) => existing._id === message._id)) {
+          thread.push(message);
+        }
+
+        const chat = state.chats.find((item) => item._id === message.conversationId);
+        if (chat && new Date(message.createdAt) >= new Date(chat.lastMessageAt)) {
+          chat.lastMessage = {
+            text: message.text || message.attachments.map((a) => a.name).join(', '),
+            senderId: message.senderId,
+            type: message.type,
+            createdAt: message.createdAt,
+          };
+          chat.lastMessageAt = message.createdAt;
+        }
+      });
+      sortByActivity(state.chats);
+    },
+    setUnreadCounts: (state, action) => {
+      state.chats.forEach((chat) => {
+        if (action.payload[chat._id] !== undefined) {
+          chat.unreadCount = action.payload[chat._id];
+        }
+      });
+    },
+    markChatRead: (state, action) => {
+      const chat = state.chats.find((item) => item._id === action.payload);
+      if (chat) {
+        chat.unreadCount = 0;
+      }
+    },
+    setLastSync: (state, action) => {
+      state.lastSync = action.payload;
+    },
+    setError: (state, action) => {
+      state.error = action.payload;
     },
   },
 });
 
-export const { SearchChat, getChats, sendMsg, SelectChat } = ChatSlice.actions;
+export const {
+  SearchChat,
+  getChats,
+  getUsers,
+  getMessages,
+  SelectChat,
+  upsertChat,
+  receiveMessages,
+  setUnreadCounts,
+  markChatRead,
+  setLastSync,
+  setError,
+} = ChatSlice.actions;
 
 export const fetchChats = () => async (dispatch: AppDispatch) => {
   try {
-    const response = await axios.get(`${API_URL}`);
-    dispatch(getChats(response.data));
+    const response = await axios.get(`${API_URL}/conversations`);
+
+    if (response.data.success) {
+      dispatch(getChats(response.data.data));
+    } else {
+      dispatch(setError(response.data.error?.message || 'Failed to fetch conversations'));
+    }
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to fetch conversations'));
+  }
+};
+
+export const fetchChatUsers = () => async (dispatch: AppDispatch) => {
+  try {
+    const response = await axios.get(`${API_URL}/users`);
+
+    if (response.data.success) {
+      dispatch(getUsers(response.data.data.users));
+    }
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to fetch users'));
+  }
+};
+
+export const markAsRead = (conversationId: string) => async (dispatch: AppDispatch) => {
+  try {
+    dispatch(markChatRead(conversationId));
+    await axios.post(`${API_URL}/conversations/${conversationId}/read`);
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to mark conversation as read'));
+  }
+};
+
+export const openChat = (conversationId: string) => async (dispatch: AppDispatch) => {
+  dispatch(SelectChat(conversationId));
+
+  try {
+    const response = await axios.get(`${API_URL}/conversations/${conversationId}/messages`);
+
+    if (response.data.success) {
+      dispatch(getMessages({ conversationId, messages: response.data.data.messages }));
+      dispatch(markAsRead(conversationId));
+    }
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to fetch messages'));
+  }
+};
+
+export const startChat = (participantIds: string[], name?: string) => async (dispatch: AppDispatch) => {
+  try {
+    const response = await axios.post(`${API_URL}/conversations`, { participantIds, name });
+
+    if (response.data.success) {
+      const conversation: ChatsType = response.data.data.conversation;
+      dispatch(upsertChat(conversation));
+      dispatch(openChat(conversation._id));
+    }
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to start conversation'));
+  }
+};
+
+export const sendMsg = (conversationId: string, text: string, attachments: AttachType[] = []) =>
+  async (dispatch: AppDispatch) => {
+    try {
+      const response = await axios.post(`${API_URL}/conversations/${conversationId}/messages`, {
+        text,
+        attachments,
+      });
+
+      if (response.data.success) {
+        dispatch(receiveMessages([response.data.data.message]));
+      } else {
+        dispatch(setError(response.data.error?.message || 'Failed to send message'));
+      }
+    } catch (err: any) {
+      dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to send message'));
+    }
+  };
+
+export const pollChatUpdates = () => async (dispatch: AppDispatch, getState: () => AppState) => {
+  const { lastSync, chatContent } = getState().chatReducer;
+  if (!lastSync) return;
+
+  try {
+    const response = await axios.get(`${API_URL}/updates`, { params: { since: lastSync } });
+
+    if (response.data.success) {
+      const { messages, conversations, unreadCounts, serverTime } = response.data.data;
+
+      conversations.forEach((conversation: ChatsType) => dispatch(upsertChat(conversation)));
+      dispatch(receiveMessages(messages));
+      dispatch(setUnreadCounts(unreadCounts));
+      dispatch(setLastSync(serverTime));
+
+      // Messages arriving in the open conversation are read immediately
+      if (chatContent && messages.some((message: MessageType) => message.conversationId === chatContent)) {
+        dispatch(markAsRead(chatContent));
+      }
+    }
   } catch (err: any) {
-    throw new Error(err);
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to fetch chat updates'));
   }
 };
 
@@ -1,126 +1,192 @@
 import axios from '../../../utils/axios';
 import { createSlice } from '@reduxjs/toolkit';
 import { AppDispatch } from '../../store';
-import type { PayloadAction } from '@reduxjs/toolkit';
+import { ContactActivity, ContactType } from '@/app/(dashboard)/types/apps/contact';
 
-const API_URL = '/api/data/contacts/ContactsData';
+const API_URL = '/api/contacts';
 
 interface StateType {
-  contacts: any[];
-  contactContent: number;
+  contacts: ContactType[];
+  tags: string[];
+  contactContent: string | null;
+  activity: ContactActivity | null;
   contactSearch: string;
   editContact: boolean;
   currentFilter: string;
+  loading: boolean;
+  error: string | null;
 }
 
-const initialState = {
+const initialState: StateType = {
   contacts: [],
-  contactContent: 1,
+  tags: [],
+  contactContent: null,
+  activity: null,
   contactSearch: '',
   editContact: false,
   currentFilter: 'show_all',
+  loading: false,
+  error: null,
 };
 
 export const ContactSlice = createSlice({
   name: 'contacts',
   initialState,
   reducers: {
-    getContacts: (state: StateType, action) => {
-      state.contacts = action.payload;
+    setLoading: (state, action) => {
+      state.loading = action.payload;
     },
-    SearchContact: (state: StateType, action) => {
-      state.contactSearch = action.payload;
+    setError: (state, action) => {
+      state.error = action.payload;
+      state.loading = false;
     },
-    SelectContact: (state: StateType, action) => {
-      state.contactContent = action.payload;
+    getContacts: (state, action) => {
+      state.contacts = action.payload.contacts;
+      state.tags = action.payload.tags;
+      state.loading = false;
+      state.error = null;
     },
-    DeleteContact: (state: StateType, action) => {
-      state.contacts = state.contacts.map((contact) =>
-        contact.id === action.payload ? { ...contact, deleted: !contact.deleted } : contact,
-      );
+    getActivity: (state, action) => {
+      state.activity = action.payload;
     },
-    toggleStarredContact: (state: StateType, action) => {
-      state.contacts = state.contacts.map((contact) =>
-        contact.id === action.payload ? { ...contact, starred: !contact.starred } : contact,
-      );
+    SearchContact: (state, action) => {
+      state.contactSearch = action.payload;
+    },
+    SelectContact: (state, action) => {
+      state.contactContent = action.payload;
+      state.editContact = false;
+      if (state.activity?.contactId !== action.payload) {
+        state.activity = null;
+      }
     },
-    isEdit: (state: StateType) => {
+    isEdit: (state) => {
       state.editContact = !state.editContact;
     },
-    setVisibilityFilter: (state: StateType, action) => {
+    setVisibilityFilter: (state, action) => {
       state.currentFilter = action.payload;
     },
-
-    UpdateContact: {
-      reducer: (state: StateType, action: PayloadAction<any>) => {
-        state.contacts = state.contacts.map((contact) =>
-          contact.id === action.payload.id
-            ? { ...contact, [action.payload.field]: action.payload.value }
-            : contact,
-        );
-      },
-      prepare: (id, field, value) => {
-        return {
-          payload: { id, field, value },
-        };
-      },
+    addContactSuccess: (state, action) => {
+      state.contacts.push(action.payload);
+      action.payload.tags.forEach((tag: string) => {
+        if (!state.tags.includes(tag)) state.tags.push(tag);
+      });
+      state.loading = false;
+      state.error = null;
+    },
+    updateContactSuccess: (state, action) => {
+      const index = state.contacts.findIndex((contact) => contact._id === action.payload._id);
+      if (index !== -1) {
+        state.contacts[index] = action.payload;
+      }
+      action.payload.tags.forEach((tag: string) => {
+        if (!state.tags.includes(tag)) state.tags.push(tag);
+      });
+      state.loading = false;
+      state.error = null;
     },
-    addContact: {
-      reducer: (state: StateType, action: PayloadAction<any>) => {
-        state.contacts.push(action.payload);
-      },
-      prepare: (
-        id,
-        firstname,
-        lastname,
-        image,
-        department,
-        company,
-        phone,
-        email,
-        address,
-        notes,
-      ) => {
-        return {
-          payload: {
-            id,
-            firstname,
-            lastname,
-            image,
-            department,
-            company,
-            phone,
-            email,
-            address,
-            notes,
-            frequentlycontacted: false,
-            starred: false,
-            deleted: false,
-          },
-        };
-      },
+    DeleteContact: (state, action) => {
+      state.contacts = state.contacts.filter((contact) => contact._id !== action.payload);
+      if (state.contactContent === action.payload) {
+        state.contactContent = null;
+        state.activity = null;
+        state.editContact = false;
+      }
+      state.loading = false;
+      state.error = null;
     },
   },
 });
 
 export const {
+  setLoading,
+  setError,
   getContacts,
+  getActivity,
   SearchContact,
   isEdit,
   SelectContact,
   DeleteContact,
-  toggleStarredContact,
-  UpdateContact,
-  addContact,
+  addContactSuccess,
+  updateContactSuccess,
   setVisibilityFilter,
 } = ContactSlice.actions;
 
+// Async thunks for API calls
 export const fetchContacts = () => async (dispatch: AppDispatch) => {
   try {
+    dispatch(setLoading(true));
     const response = await axios.get(`${API_URL}`);
-    dispatch(getContacts(response.data));
+
+    if (response.data.success) {
+      dispatch(getContacts(response.data.data));
+    } else {
+      dispatch(setError(response.data.error?.message || 'Failed to fetch contacts'));
+    }
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to fetch contacts'));
+  }
+};
+
+export const openContact = (id: string) => async (dispatch: AppDispatch) => {
+  dispatch(SelectContact(id));
+
+  try {
+    const response = await axios.get(`${API_URL}/${id}`);
+
+    if (response.data.success) {
+      const { summary, invoices, sales } = response.data.data;
+      dispatch(getActivity({ contactId: id, summary, invoices, sales }));
+    }
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to fetch contact'));
+  }
+};
+
+export const addContact = (contact: Partial<ContactType>) => async (dispatch: AppDispatch) => {
+  try {
+    dispatch(setLoading(true));
+    const response = await axios.post(`${API_URL}`, contact);
+
+    if (response.data.success) {
+      dispatch(addContactSuccess(response.data.data.contact));
+    } else {
+      dispatch(setError(response.data.error?.message || 'Failed to create contact'));
+    }
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to create contact'));
+  }
+};
+
+export const updateContact = (id: string, changes: Partial<ContactType>) => async (dispatch: AppDispatch) => {
+  try {
+    dispatch(setLoading(true));
+    const response = await axios.patch(`${API_URL}/${id}`, changes);
+
+    if (response.data.success) {
+      dispatch(updateContactSuccess(response.data.data.contact));
+    } else {
+      dispatch(setError(response.data.error?.message || 'Failed to update contact'));
+    }
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to update contact'));
+  }
+};
+
+export const toggleStarredContact = (contact: ContactType) =>
+  updateContact(contact._id, { starred: !contact.starred });
+
+export const deleteContact = (id: string) => async (dispatch: AppDispatch) => {
+  try {
+    dispatch(setLoading(true));
+    const response = await axios.delete(`${API_URL}/${id}`);
+
+    if (response.data.success) {
+      dispatch(DeleteContact(id));
+    } else {
+      dispatch(setError(response.data.error?.message || 'Failed to delete contact'));
+    }
   } catch (err: any) {
-    throw new Error(err);
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to delete contact'));
   }
 };
 
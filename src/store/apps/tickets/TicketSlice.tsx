@@ -1,49 +1,191 @@
 import axios from '../../../utils/axios';
 import { createSlice } from '@reduxjs/toolkit';
 import { AppDispatch } from '../../store';
+import { TicketAgent, TicketSummary, TicketType } from '@/app/(dashboard)/types/apps/ticket';
 
-const API_URL = '/api/data/ticket/TicketData';
+const API_URL = '/api/tickets';
 
 interface StateType {
-  tickets: any[];
+  tickets: TicketType[];
+  agents: TicketAgent[];
+  summary: TicketSummary;
+  page: number;
+  pages: number;
   currentFilter: string;
   ticketSearch: string;
+  loading: boolean;
+  error: string | null;
 }
 
-const initialState = {
+const initialState: StateType = {
   tickets: [],
+  agents: [],
+  summary: { Open: 0, Pending: 0, Closed: 0, total: 0 },
+  page: 1,
+  pages: 1,
   currentFilter: 'total_tickets',
   ticketSearch: '',
+  loading: false,
+  error: null,
 };
 
 export const TicketSlice = createSlice({
   name: 'ticket',
   initialState,
   reducers: {
+    setLoading: (state, action) => {
+      state.loading = action.payload;
+    },
+    setError: (state, action) => {
+      state.error = action.payload;
+      state.loading = false;
+    },
     getTickets: (state, action) => {
-      state.tickets = action.payload;
+      state.tickets = action.payload.tickets;
+      state.summary = action.payload.summary;
+      state.page = action.payload.pagination.page;
+      state.pages = Math.max(action.payload.pagination.pages, 1);
+      state.loading = false;
+      state.error = null;
+    },
+    getAgents: (state, action) => {
+      state.agents = action.payload;
     },
     setVisibilityFilter: (state, action) => {
       state.currentFilter = action.payload;
+      state.page = 1;
     },
     SearchTicket: (state, action) => {
       state.ticketSearch = action.payload;
+      state.page = 1;
+    },
+    setPage: (state, action) => {
+      state.page = action.payload;
     },
-    DeleteTicket: (state: StateType, action) => {
-      const index = state.tickets.findIndex((ticket) => ticket.Id === action.payload);
-      state.tickets.splice(index, 1);
+    addTicketSuccess: (state, action) => {
+      state.tickets.unshift(action.payload);
+      state.loading = false;
+      state.error = null;
+    },
+    updateTicketSuccess: (state, action) => {
+      const index = state.tickets.findIndex((ticket) => ticket._id === action.payload._id);
+      if (index !== -1) {
+        state.tickets[index] = action.payload;
+      }
+      state.loading = false;
+      state.error = null;
+    },
+    DeleteTicket: (state, action) => {
+      state.tickets = state.tickets.filter((ticket) => ticket._id !== action.payload);
+      state.loading = false;
+      state.error = null;
     },
   },
 });
 
-export const { getTickets, setVisibilityFilter, SearchTicket, DeleteTicket } = TicketSlice.actions;
+export const {
+  setLoading,
+  setError,
+  getTickets,
+  getAgents,
+  setVisibilityFilter,
+  SearchTicket,
+  setPage,
+  addTicketSuccess,
+  updateTicketSuccess,
+  DeleteTicket,
+} = TicketSlice.actions;
+
+interface FetchTicketsOptions {
+  filter?: string;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+// Async thunks for API calls
+export const fetchTickets = (options: FetchTicketsOptions = {}) => async (dispatch: AppDispatch) => {
+  try {
+    dispatch(setLoading(true));
+    const params: Record<string, string | number> = {
+      page: options.page || 1,
+      limit: options.limit || 10,
+    };
+
+    if (options.filter && options.filter !== 'total_tickets') {
+      params.status = options.filter;
+    }
+    if (options.search) {
+      params.search = options.search;
+    }
+
+    const response = await axios.get(`${API_URL}`, { params });
+
+    if (response.data.success) {
+      dispatch(getTickets(response.data.data));
+    } else {
+      dispatch(setError(response.data.error?.message || 'Failed to fetch tickets'));
+    }
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to fetch tickets'));
+  }
+};
 
-export const fetchTickets = () => async (dispatch: AppDispatch) => {
+export const fetchAgents = () => async (dispatch: AppDispatch) => {
   try {
-    const response = await axios.get(`${API_URL}`);
-    dispatch(getTickets(response.data));
+    const response = await axios.get(`${API_URL}/agents`);
+
+    if (response.data.success) {
+      dispatch(getAgents(response.data.data.agents));
+    }
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to fetch agents'));
+  }
+};
+
+export const addTicket = (ticket: { title: string; description: string; priority?: string; assignedTo?: string | null }) =>
+  async (dispatch: AppDispatch) => {
+    try {
+      dispatch(setLoading(true));
+      const response = await axios.post(`${API_URL}`, ticket);
+
+      if (response.data.success) {
+        dispatch(addTicketSuccess(response.data.data.ticket));
+      } else {
+        dispatch(setError(response.data.error?.message || 'Failed to create ticket'));
+      }
+    } catch (err: any) {
+      dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to create ticket'));
+    }
+  };
+
+export const updateTicket = (id: string, changes: Record<string, any>) => async (dispatch: AppDispatch) => {
+  try {
+    dispatch(setLoading(true));
+    const response = await axios.patch(`${API_URL}/${id}`, changes);
+
+    if (response.data.success) {
+      dispatch(updateTicketSuccess(response.data.data.ticket));
+    } else {
+      dispatch(setError(response.data.error?.message || 'Failed to update ticket'));
+    }
+  } catch (err: any) {
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to update ticket'));
+  }
+};
+
+export const deleteTicket = (id: string) => async (dispatch: AppDispatch) => {
+  try {
+    dispatch(setLoading(true));
+    const response = await axios.delete(`${API_URL}/${id}`);
+
+    if (response.data.success) {
+      dispatch(DeleteTicket(id));
+    } else {
+      dispatch(setError(response.data.error?.message || 'Failed to delete ticket'));
+    }
   } catch (err: any) {
-    throw new Error(err);
+    dispatch(setError(err.response?.data?.error?.message || err.message || 'Failed to delete ticket'));
   }
 };
 